@@ -0,0 +1,63 @@
+-- Abandoned cart recovery: signed-in customers' carts saved on the server, and
+-- the reminder emails sent for carts left idle
+-- Run after ADD_EMAIL.sql
+
+-- The live cart of a signed-in customer, saved as it changes. started_at is
+-- when it last went from empty to having items; reminded_at is set when the
+-- reminder job handles the cart and cleared by the next change, so a cart is
+-- reminded once per idle spell.
+CREATE TABLE IF NOT EXISTS public.carts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL UNIQUE REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  items JSONB NOT NULL DEFAULT '[]',
+  item_count INTEGER NOT NULL DEFAULT 0,
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  started_at TIMESTAMP,
+  last_activity_at TIMESTAMP DEFAULT NOW(),
+  reminded_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- One reminder email, the cart it was about, and the order it won back.
+-- Only a hash of the restore link's token is kept.
+CREATE TABLE IF NOT EXISTS public.cart_recoveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  cart_id UUID REFERENCES public.carts(id) ON DELETE SET NULL,
+  user_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  items JSONB NOT NULL DEFAULT '[]',
+  cart_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  promotion_id UUID REFERENCES public.promotions(id) ON DELETE SET NULL,
+  discount_code VARCHAR(50),
+  emailed BOOLEAN NOT NULL DEFAULT FALSE,
+  sent_at TIMESTAMP DEFAULT NOW(),
+  restored_at TIMESTAMP,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  order_total DECIMAL(10,2),
+  recovered_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_carts_idle ON public.carts(last_activity_at) WHERE item_count > 0;
+CREATE INDEX IF NOT EXISTS idx_cart_recoveries_sent ON public.cart_recoveries(sent_at);
+CREATE INDEX IF NOT EXISTS idx_cart_recoveries_open ON public.cart_recoveries(user_id) WHERE order_id IS NULL;
+
+ALTER TABLE public.carts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cart_recoveries ENABLE ROW LEVEL SECURITY;
+
+-- Both are written by the server; customers read their own cart, managers the recoveries
+DROP POLICY IF EXISTS "Users can view own cart" ON public.carts;
+CREATE POLICY "Users can view own cart" ON public.carts
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can view cart recoveries" ON public.cart_recoveries;
+CREATE POLICY "Managers can view cart recoveries" ON public.cart_recoveries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  );
+
+DROP TRIGGER IF EXISTS update_carts_updated_at ON public.carts;
+CREATE TRIGGER update_carts_updated_at
+  BEFORE UPDATE ON public.carts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
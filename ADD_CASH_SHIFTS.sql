@@ -0,0 +1,78 @@
+-- Cashier shifts: opening float, pay-ins and pay-outs, and the cash-up at close
+-- Run after ADD_STOCK_TAKES.sql
+
+CREATE TABLE IF NOT EXISTS public.cash_shifts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_number VARCHAR(30) UNIQUE NOT NULL,
+  cashier_id UUID NOT NULL REFERENCES public.user_profiles(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opening_float DECIMAL(10,2) NOT NULL CHECK (opening_float >= 0),
+  opening_denominations JSONB,
+  opened_at TIMESTAMP DEFAULT NOW(),
+  closing_denominations JSONB,
+  counted_cash DECIMAL(10,2),
+  expected_cash DECIMAL(10,2),
+  cash_variance DECIMAL(10,2),
+  totals JSONB,
+  closing_notes TEXT,
+  closed_by UUID REFERENCES public.user_profiles(id),
+  closed_at TIMESTAMP,
+  reviewed_by UUID REFERENCES public.user_profiles(id),
+  reviewed_at TIMESTAMP,
+  review_notes TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.cash_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shift_id UUID NOT NULL REFERENCES public.cash_shifts(id) ON DELETE CASCADE,
+  movement_type VARCHAR(10) NOT NULL CHECK (movement_type IN ('pay_in', 'pay_out')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL,
+  created_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.cash_shifts(id);
+
+ALTER TABLE public.refunds
+  ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES public.cash_shifts(id);
+
+-- A cashier has at most one open shift
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_one_open ON public.cash_shifts(cashier_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_shifts_opened ON public.cash_shifts(opened_at);
+CREATE INDEX IF NOT EXISTS idx_cash_movements_shift ON public.cash_movements(shift_id);
+CREATE INDEX IF NOT EXISTS idx_orders_shift ON public.orders(shift_id) WHERE shift_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_refunds_shift ON public.refunds(shift_id) WHERE shift_id IS NOT NULL;
+
+ALTER TABLE public.cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Cashiers can view own shifts" ON public.cash_shifts;
+CREATE POLICY "Cashiers can view own shifts" ON public.cash_shifts
+  FOR SELECT USING (cashier_id = auth.uid());
+
+DROP POLICY IF EXISTS "Managers can view shifts" ON public.cash_shifts;
+CREATE POLICY "Managers can view shifts" ON public.cash_shifts
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Cashiers can view own cash movements" ON public.cash_movements;
+CREATE POLICY "Cashiers can view own cash movements" ON public.cash_movements
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.cash_shifts WHERE id = shift_id AND cashier_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Managers can view cash movements" ON public.cash_movements;
+CREATE POLICY "Managers can view cash movements" ON public.cash_movements
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_cash_shifts_updated_at ON public.cash_shifts;
+CREATE TRIGGER update_cash_shifts_updated_at
+  BEFORE UPDATE ON public.cash_shifts
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
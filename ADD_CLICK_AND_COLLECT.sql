@@ -0,0 +1,20 @@
+-- Click-and-collect: pickup slots booked at checkout and the one-time code shown at the counter
+-- Run after ADD_SHIPPING_RULES.sql
+
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'ready_for_collection' AFTER 'processing';
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS fulfillment_method VARCHAR(20) DEFAULT 'delivery' CHECK (fulfillment_method IN ('delivery', 'collect')),
+  ADD COLUMN IF NOT EXISTS pickup_slot_start TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS pickup_slot_end TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS collection_code VARCHAR(6),
+  ADD COLUMN IF NOT EXISTS ready_for_collection_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS collected_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS collected_by UUID REFERENCES public.user_profiles(id),
+  ADD COLUMN IF NOT EXISTS collection_verified_by VARCHAR(20);
+
+CREATE INDEX IF NOT EXISTS idx_orders_pickup_slot ON public.orders(pickup_slot_start) WHERE fulfillment_method = 'collect';
+
+-- A code only has to be unique among orders still waiting to be collected
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_open_collection_code ON public.orders(collection_code)
+  WHERE collection_code IS NOT NULL AND collected_at IS NULL;
@@ -0,0 +1,106 @@
+-- Combos (bundles) sold on the storefront and recorded on order lines
+-- Run after ADD_PRICING_QUOTES.sql
+
+CREATE TABLE IF NOT EXISTS public.combos (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  combo_type VARCHAR(20) NOT NULL DEFAULT 'bundle'
+    CHECK (combo_type IN ('bundle', 'mix_match', 'tiered', 'bogo')),
+  status VARCHAR(20) DEFAULT 'active'
+    CHECK (status IN ('draft', 'active', 'inactive', 'expired')),
+  original_price DECIMAL(10,2) NOT NULL,
+  combo_price DECIMAL(10,2) NOT NULL,
+  image_url TEXT,
+  is_featured BOOLEAN DEFAULT FALSE,
+  minimum_quantity INTEGER DEFAULT 1,
+  maximum_quantity INTEGER DEFAULT 10,
+  usage_limit INTEGER,
+  times_purchased INTEGER DEFAULT 0,
+  requires_all_items BOOLEAN DEFAULT TRUE,
+  starts_at TIMESTAMP DEFAULT NOW(),
+  ends_at TIMESTAMP,
+  tags TEXT[],
+  created_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.combo_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  combo_id UUID REFERENCES public.combos(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL DEFAULT 1,
+  is_required BOOLEAN DEFAULT TRUE,
+  can_substitute BOOLEAN DEFAULT FALSE,
+  substitute_category_id UUID REFERENCES public.categories(id),
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(combo_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_combos_status_dates ON public.combos(status, starts_at, ends_at);
+CREATE INDEX IF NOT EXISTS idx_combo_items_combo ON public.combo_items(combo_id);
+CREATE INDEX IF NOT EXISTS idx_combo_items_product ON public.combo_items(product_id);
+
+-- Order lines sold as part of a combo keep the bundle they came from
+ALTER TABLE IF EXISTS public.order_items
+  ADD COLUMN IF NOT EXISTS item_type VARCHAR(20) DEFAULT 'product',
+  ADD COLUMN IF NOT EXISTS combo_id UUID REFERENCES public.combos(id),
+  ADD COLUMN IF NOT EXISTS combo_snapshot JSONB;
+
+CREATE INDEX IF NOT EXISTS idx_order_items_combo ON public.order_items(combo_id);
+
+ALTER TABLE public.combos ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.combo_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Active combos are publicly readable" ON public.combos;
+CREATE POLICY "Active combos are publicly readable" ON public.combos
+  FOR SELECT TO authenticated, anon USING (status = 'active');
+
+DROP POLICY IF EXISTS "Combo items are publicly readable" ON public.combo_items;
+CREATE POLICY "Combo items are publicly readable" ON public.combo_items
+  FOR SELECT TO authenticated, anon USING (
+    EXISTS (SELECT 1 FROM public.combos c WHERE c.id = combo_id AND c.status = 'active')
+  );
+
+DROP POLICY IF EXISTS "Managers can manage combos" ON public.combos;
+CREATE POLICY "Managers can manage combos" ON public.combos
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Managers can manage combo items" ON public.combo_items;
+CREATE POLICY "Managers can manage combo items" ON public.combo_items
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles p WHERE p.id = auth.uid() AND p.role IN ('admin', 'manager'))
+  );
+
+-- The bundles an order was priced with, counted once it is paid
+ALTER TABLE IF EXISTS public.orders
+  ADD COLUMN IF NOT EXISTS applied_combos JSONB DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS combo_purchases_recorded_at TIMESTAMP;
+
+-- Orders confirmed before this counted their bundles at confirmation
+UPDATE public.orders
+SET combo_purchases_recorded_at = pricing_verified_at
+WHERE pricing_verified_at IS NOT NULL
+  AND combo_purchases_recorded_at IS NULL;
+
+-- Count bundles sold once an order is paid
+CREATE OR REPLACE FUNCTION public.increment_combo_purchases(
+  combo_id UUID,
+  quantity INTEGER
+) RETURNS INTEGER AS $$
+DECLARE
+  new_total INTEGER;
+BEGIN
+  UPDATE public.combos
+  SET times_purchased = COALESCE(times_purchased, 0) + increment_combo_purchases.quantity,
+      updated_at = NOW()
+  WHERE id = increment_combo_purchases.combo_id
+  RETURNING times_purchased INTO new_total;
+
+  RETURN new_total;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,58 @@
+-- Transactional email: a log of every email the server sends, and the
+-- categories of email each address has opted out of
+-- Run after ADD_SHIPMENTS.sql
+
+-- One email, from being queued to the provider's last delivery report.
+-- dedupe_key stops the same event being emailed twice, for example when a
+-- refund is seen both by the admin page and the Stripe webhook.
+CREATE TABLE IF NOT EXISTS public.email_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email_type VARCHAR(30) NOT NULL,
+  recipient VARCHAR(255) NOT NULL,
+  user_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  subject TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'delivered', 'bounced', 'failed', 'skipped')),
+  provider VARCHAR(20),
+  provider_message_id TEXT,
+  error TEXT,
+  dedupe_key TEXT UNIQUE,
+  data JSONB NOT NULL DEFAULT '{}',
+  sent_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- An address that does not want a category of email. Account and password
+-- emails have no category and are always sent.
+CREATE TABLE IF NOT EXISTS public.email_opt_outs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  email VARCHAR(255) NOT NULL,
+  category VARCHAR(30) NOT NULL CHECK (category IN ('order_updates', 'cart_reminders')),
+  user_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (email, category)
+);
+
+CREATE INDEX IF NOT EXISTS idx_email_log_created ON public.email_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_email_log_order ON public.email_log(order_id);
+CREATE INDEX IF NOT EXISTS idx_email_log_provider_message ON public.email_log(provider_message_id);
+
+ALTER TABLE public.email_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.email_opt_outs ENABLE ROW LEVEL SECURITY;
+
+-- Both are written by the server; managers read the log, customers their own opt-outs
+DROP POLICY IF EXISTS "Managers can view email log" ON public.email_log;
+CREATE POLICY "Managers can view email log" ON public.email_log
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+  );
+
+DROP POLICY IF EXISTS "Users can view own email opt-outs" ON public.email_opt_outs;
+CREATE POLICY "Users can view own email opt-outs" ON public.email_opt_outs
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP TRIGGER IF EXISTS update_email_log_updated_at ON public.email_log;
+CREATE TRIGGER update_email_log_updated_at
+  BEFORE UPDATE ON public.email_log
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,111 @@
+-- Gift cards / store vouchers, spent as a tender at the POS
+-- Run after ADD_CASH_SHIFTS.sql
+
+CREATE TABLE IF NOT EXISTS public.gift_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(30) UNIQUE NOT NULL,
+  initial_value DECIMAL(10,2) NOT NULL CHECK (initial_value > 0),
+  balance DECIMAL(10,2) NOT NULL CHECK (balance >= 0),
+  is_active BOOLEAN DEFAULT true,
+  expires_at TIMESTAMP,
+  notes TEXT,
+  issued_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.gift_card_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  gift_card_id UUID NOT NULL REFERENCES public.gift_cards(id) ON DELETE CASCADE,
+  transaction_type VARCHAR(10) NOT NULL CHECK (transaction_type IN ('issue', 'redeem', 'reverse')),
+  amount DECIMAL(10,2) NOT NULL,
+  balance_after DECIMAL(10,2) NOT NULL,
+  reference VARCHAR(100) NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  created_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Redeeming or reversing the same sale twice is a no-op
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gift_card_transactions_reference
+  ON public.gift_card_transactions(gift_card_id, transaction_type, reference);
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card ON public.gift_card_transactions(gift_card_id, created_at);
+
+ALTER TABLE public.gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_card_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can view gift cards" ON public.gift_cards;
+CREATE POLICY "Managers can view gift cards" ON public.gift_cards
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Managers can view gift card transactions" ON public.gift_card_transactions;
+CREATE POLICY "Managers can view gift card transactions" ON public.gift_card_transactions
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_gift_cards_updated_at ON public.gift_cards;
+CREATE TRIGGER update_gift_cards_updated_at
+  BEFORE UPDATE ON public.gift_cards
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Move a gift card's balance and record the change. Redemptions are negative
+-- and fail rather than take the balance below zero. Returns NULL when the same
+-- (type, reference) was already recorded for the card.
+CREATE OR REPLACE FUNCTION public.apply_gift_card_transaction(
+  gift_card_id UUID,
+  transaction_type VARCHAR,
+  amount DECIMAL,
+  reference VARCHAR,
+  order_id UUID DEFAULT NULL,
+  created_by UUID DEFAULT NULL
+) RETURNS public.gift_card_transactions AS $$
+DECLARE
+  card public.gift_cards;
+  result public.gift_card_transactions;
+BEGIN
+  SELECT * INTO card
+  FROM public.gift_cards g
+  WHERE g.id = apply_gift_card_transaction.gift_card_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Gift card % not found', apply_gift_card_transaction.gift_card_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.gift_card_transactions t
+    WHERE t.gift_card_id = apply_gift_card_transaction.gift_card_id
+      AND t.transaction_type = apply_gift_card_transaction.transaction_type
+      AND t.reference = apply_gift_card_transaction.reference
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF card.balance + apply_gift_card_transaction.amount < 0 THEN
+    RAISE EXCEPTION 'Insufficient gift card balance: balance %, requested %', card.balance, -apply_gift_card_transaction.amount;
+  END IF;
+
+  UPDATE public.gift_cards
+  SET balance = card.balance + apply_gift_card_transaction.amount,
+      updated_at = NOW()
+  WHERE id = card.id;
+
+  INSERT INTO public.gift_card_transactions (
+    gift_card_id, transaction_type, amount, balance_after, reference, order_id, created_by
+  ) VALUES (
+    card.id,
+    apply_gift_card_transaction.transaction_type,
+    apply_gift_card_transaction.amount,
+    card.balance + apply_gift_card_transaction.amount,
+    apply_gift_card_transaction.reference,
+    apply_gift_card_transaction.order_id,
+    apply_gift_card_transaction.created_by
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,130 @@
+-- Loyalty points ledger: earning on paid orders, redemption, reversal and expiry
+-- Run after ADD_COMBOS.sql
+
+CREATE TABLE IF NOT EXISTS public.loyalty_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID NOT NULL REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  type VARCHAR(20) NOT NULL
+    CHECK (type IN ('earn', 'redeem', 'reverse_earn', 'reverse_redeem', 'expire', 'adjust')),
+  points INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  reference VARCHAR(100) NOT NULL,
+  description TEXT,
+  expires_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(type, reference)
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer ON public.loyalty_transactions(customer_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_order ON public.loyalty_transactions(order_id);
+
+-- The member an order earns points for, and what it redeemed and earned
+ALTER TABLE IF EXISTS public.orders
+  ADD COLUMN IF NOT EXISTS loyalty_customer_id UUID REFERENCES public.user_profiles(id),
+  ADD COLUMN IF NOT EXISTS loyalty_points_used INTEGER DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS loyalty_discount DECIMAL(10,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS loyalty_points_earned INTEGER DEFAULT 0;
+
+-- Existing balances (signup bonus, manual grants) open the ledger and do not expire
+INSERT INTO public.loyalty_transactions (customer_id, type, points, balance_after, reference, description)
+SELECT p.id, 'adjust', p.loyalty_points, p.loyalty_points, 'opening:' || p.id, 'Opening balance'
+FROM public.user_profiles p
+WHERE COALESCE(p.loyalty_points, 0) > 0
+ON CONFLICT (type, reference) DO NOTHING;
+
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own loyalty transactions" ON public.loyalty_transactions;
+CREATE POLICY "Users can view own loyalty transactions" ON public.loyalty_transactions
+  FOR SELECT USING (customer_id = auth.uid());
+
+-- Record a points change and move the member's balance with it.
+-- Returns NULL when the same (type, reference) was already recorded.
+CREATE OR REPLACE FUNCTION public.apply_loyalty_transaction(
+  customer_id UUID,
+  transaction_type VARCHAR,
+  points INTEGER,
+  reference VARCHAR,
+  order_id UUID DEFAULT NULL,
+  description TEXT DEFAULT NULL,
+  expires_at TIMESTAMP DEFAULT NULL,
+  clamp BOOLEAN DEFAULT FALSE
+) RETURNS public.loyalty_transactions AS $$
+DECLARE
+  current_balance INTEGER;
+  applied_points INTEGER := apply_loyalty_transaction.points;
+  result public.loyalty_transactions;
+BEGIN
+  SELECT COALESCE(p.loyalty_points, 0) INTO current_balance
+  FROM public.user_profiles p
+  WHERE p.id = apply_loyalty_transaction.customer_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Loyalty member % not found', apply_loyalty_transaction.customer_id;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.loyalty_transactions lt
+    WHERE lt.type = apply_loyalty_transaction.transaction_type
+      AND lt.reference = apply_loyalty_transaction.reference
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  IF current_balance + applied_points < 0 THEN
+    IF apply_loyalty_transaction.clamp THEN
+      applied_points := -current_balance;
+    ELSE
+      RAISE EXCEPTION 'Insufficient loyalty points: balance %, requested %', current_balance, -applied_points;
+    END IF;
+  END IF;
+
+  IF applied_points = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  -- The balance guard lets this one update through
+  PERFORM set_config('loyalty.applying_transaction', 'on', true);
+  UPDATE public.user_profiles
+  SET loyalty_points = current_balance + applied_points,
+      updated_at = NOW()
+  WHERE id = apply_loyalty_transaction.customer_id;
+  PERFORM set_config('loyalty.applying_transaction', 'off', true);
+
+  INSERT INTO public.loyalty_transactions (
+    customer_id, order_id, type, points, balance_after, reference, description, expires_at
+  ) VALUES (
+    apply_loyalty_transaction.customer_id,
+    apply_loyalty_transaction.order_id,
+    apply_loyalty_transaction.transaction_type,
+    applied_points,
+    current_balance + applied_points,
+    apply_loyalty_transaction.reference,
+    apply_loyalty_transaction.description,
+    apply_loyalty_transaction.expires_at
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Customers may update their own profile, but the balance only moves with a
+-- ledger entry through apply_loyalty_transaction
+CREATE OR REPLACE FUNCTION public.prevent_loyalty_balance_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.loyalty_points IS DISTINCT FROM OLD.loyalty_points
+     AND COALESCE(current_setting('loyalty.applying_transaction', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Loyalty points can only be changed through a loyalty transaction';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS user_profiles_loyalty_balance_guard ON public.user_profiles;
+CREATE TRIGGER user_profiles_loyalty_balance_guard
+  BEFORE UPDATE OF loyalty_points ON public.user_profiles
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_loyalty_balance_update();
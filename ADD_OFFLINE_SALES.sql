@@ -0,0 +1,36 @@
+-- POS sales rung up while a till was offline, synced later and held for review if they no longer match
+-- Run after ADD_POS_RETURNS.sql
+
+CREATE TABLE IF NOT EXISTS public.offline_sales (
+  id UUID PRIMARY KEY,
+  payload JSONB NOT NULL,
+  till_id VARCHAR(100),
+  store_location VARCHAR(100) NOT NULL,
+  shift_id UUID REFERENCES public.cash_shifts(id),
+  total DECIMAL(10,2) NOT NULL,
+  status VARCHAR(20) NOT NULL CHECK (status IN ('conflict', 'synced', 'accepted', 'voided')),
+  conflicts JSONB DEFAULT '[]',
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  sold_at TIMESTAMP NOT NULL,
+  sold_by UUID REFERENCES public.user_profiles(id),
+  resolved_by UUID REFERENCES public.user_profiles(id),
+  resolved_at TIMESTAMP,
+  resolution_note TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_offline_sales_status ON public.offline_sales(status, sold_at);
+
+ALTER TABLE public.offline_sales ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can view offline sales" ON public.offline_sales;
+CREATE POLICY "Managers can view offline sales" ON public.offline_sales
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_offline_sales_updated_at ON public.offline_sales;
+CREATE TRIGGER update_offline_sales_updated_at
+  BEFORE UPDATE ON public.offline_sales
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
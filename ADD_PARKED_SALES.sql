@@ -0,0 +1,36 @@
+-- Parked POS sales, recallable from any till at the same store until the end of the day
+-- Run after ADD_GIFT_CARDS.sql
+
+CREATE TABLE IF NOT EXISTS public.parked_sales (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  label VARCHAR(100) NOT NULL,
+  store_location VARCHAR(100) NOT NULL,
+  items JSONB NOT NULL,
+  customer JSONB,
+  discount_percent DECIMAL(5,2) DEFAULT 0,
+  redeem_points INTEGER DEFAULT 0,
+  item_count INTEGER NOT NULL DEFAULT 0,
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  status VARCHAR(20) NOT NULL DEFAULT 'parked' CHECK (status IN ('parked', 'recalled', 'discarded')),
+  parked_by UUID REFERENCES public.user_profiles(id),
+  expires_at TIMESTAMP NOT NULL,
+  closed_by UUID REFERENCES public.user_profiles(id),
+  closed_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_parked_sales_store ON public.parked_sales(store_location, expires_at) WHERE status = 'parked';
+
+ALTER TABLE public.parked_sales ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Till staff can view parked sales" ON public.parked_sales;
+CREATE POLICY "Till staff can view parked sales" ON public.parked_sales
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+  );
+
+DROP TRIGGER IF EXISTS update_parked_sales_updated_at ON public.parked_sales;
+CREATE TRIGGER update_parked_sales_updated_at
+  BEFORE UPDATE ON public.parked_sales
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,42 @@
+-- Manager override PINs and the log of every discount, price override, void and no-sale at the till
+-- Run after ADD_OFFLINE_SALES.sql
+
+CREATE TABLE IF NOT EXISTS public.staff_override_pins (
+  user_id UUID PRIMARY KEY REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER DEFAULT 0,
+  locked_until TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.pos_overrides (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action VARCHAR(20) NOT NULL CHECK (action IN ('discount', 'price_override', 'void', 'no_sale')),
+  details JSONB DEFAULT '{}',
+  reason TEXT,
+  requested_by UUID NOT NULL REFERENCES public.user_profiles(id),
+  approved_by UUID NOT NULL REFERENCES public.user_profiles(id),
+  shift_id UUID REFERENCES public.cash_shifts(id),
+  store_location VARCHAR(100),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pos_overrides_created ON public.pos_overrides(created_at);
+CREATE INDEX IF NOT EXISTS idx_pos_overrides_requested_by ON public.pos_overrides(requested_by, created_at);
+CREATE INDEX IF NOT EXISTS idx_pos_overrides_approved_by ON public.pos_overrides(approved_by, created_at);
+
+-- No policies on the PINs: only the server, with the service role, reads them
+ALTER TABLE public.staff_override_pins ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.pos_overrides ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can view POS overrides" ON public.pos_overrides;
+CREATE POLICY "Managers can view POS overrides" ON public.pos_overrides
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_staff_override_pins_updated_at ON public.staff_override_pins;
+CREATE TRIGGER update_staff_override_pins_updated_at
+  BEFORE UPDATE ON public.staff_override_pins
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,6 @@
+-- Till returns and exchanges: store credit is issued as a gift card
+-- Run after ADD_RECEIPT_TEMPLATE.sql
+
+ALTER TABLE public.refunds
+  ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES public.gift_cards(id),
+  ADD COLUMN IF NOT EXISTS is_exchange BOOLEAN DEFAULT FALSE;
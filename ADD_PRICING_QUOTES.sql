@@ -0,0 +1,101 @@
+-- Server-side pricing: orders record the signed quote they were checked against
+-- Run after ADD_STRIPE_WEBHOOK_COLUMNS.sql
+
+ALTER TABLE IF EXISTS public.orders
+  ADD COLUMN IF NOT EXISTS pricing_quote_id VARCHAR(64),
+  ADD COLUMN IF NOT EXISTS pricing_verified_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS applied_promotions JSONB DEFAULT '[]';
+
+-- One quote can only be redeemed by one order
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_pricing_quote
+  ON public.orders(pricing_quote_id)
+  WHERE pricing_quote_id IS NOT NULL;
+
+-- Customers create their own orders from the browser, so an order they insert
+-- always starts unpaid; only the payment webhook (service role) and till staff
+-- may create one that is already paid
+CREATE OR REPLACE FUNCTION public.force_customer_orders_pending()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.role() IN ('anon', 'authenticated') AND NOT EXISTS (
+    SELECT 1 FROM public.user_profiles
+    WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin')
+  ) THEN
+    NEW.payment_status := 'pending';
+    NEW.status := 'pending';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS orders_force_customer_pending ON public.orders;
+CREATE TRIGGER orders_force_customer_pending
+  BEFORE INSERT ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.force_customer_orders_pending();
+
+-- Per-customer promotion limits are counted from here
+CREATE TABLE IF NOT EXISTS public.customer_promotions_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  customer_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  promotion_id UUID REFERENCES public.promotions(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id),
+  usage_count INTEGER DEFAULT 1,
+  discount_applied DECIMAL(10,2) NOT NULL,
+  used_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_promotions_customer ON public.customer_promotions_usage(customer_id);
+CREATE INDEX IF NOT EXISTS idx_customer_promotions_promotion ON public.customer_promotions_usage(promotion_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_promotions_order ON public.customer_promotions_usage(promotion_id, order_id);
+
+-- Written by the server (service role) when an order's pricing is confirmed
+ALTER TABLE public.customer_promotions_usage ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own promotion usage" ON public.customer_promotions_usage;
+CREATE POLICY "Users can view own promotion usage" ON public.customer_promotions_usage
+  FOR SELECT USING (customer_id = auth.uid());
+
+-- Count one use of a promotion on a paid order. The row and the counter move
+-- together, and a second call for the same order changes nothing.
+CREATE OR REPLACE FUNCTION public.record_promotion_usage(
+  promotion_id UUID,
+  order_id UUID,
+  customer_id UUID,
+  discount_applied DECIMAL
+) RETURNS BOOLEAN AS $$
+#variable_conflict use_column
+DECLARE
+  usage_id UUID;
+BEGIN
+  INSERT INTO public.customer_promotions_usage (customer_id, promotion_id, order_id, usage_count, discount_applied)
+  VALUES (
+    record_promotion_usage.customer_id,
+    record_promotion_usage.promotion_id,
+    record_promotion_usage.order_id,
+    1,
+    record_promotion_usage.discount_applied
+  )
+  ON CONFLICT (promotion_id, order_id) DO NOTHING
+  RETURNING id INTO usage_id;
+
+  IF usage_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  -- Promotions from the older schema count their uses in current_usage_count
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_schema = 'public' AND table_name = 'promotions' AND column_name = 'times_used'
+  ) THEN
+    UPDATE public.promotions
+    SET times_used = COALESCE(times_used, 0) + 1, updated_at = NOW()
+    WHERE id = record_promotion_usage.promotion_id;
+  ELSE
+    UPDATE public.promotions
+    SET current_usage_count = COALESCE(current_usage_count, 0) + 1, updated_at = NOW()
+    WHERE id = record_promotion_usage.promotion_id;
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql;
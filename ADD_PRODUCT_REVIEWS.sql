@@ -0,0 +1,84 @@
+-- Verified-purchase product reviews with photos and a moderation queue
+-- Run after ADD_PRODUCT_VARIANTS.sql
+
+CREATE TABLE IF NOT EXISTS public.product_reviews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID REFERENCES public.products(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.user_profiles(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id),
+  rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
+  title VARCHAR(255),
+  review_text TEXT,
+  is_verified_purchase BOOLEAN DEFAULT FALSE,
+  is_approved BOOLEAN DEFAULT FALSE,
+  helpful_votes INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE(product_id, customer_id, order_id)
+);
+
+-- Moderation state and photos
+ALTER TABLE public.product_reviews
+  ADD COLUMN IF NOT EXISTS photos TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'approved', 'rejected')),
+  ADD COLUMN IF NOT EXISTS rejection_reason TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_by UUID REFERENCES public.user_profiles(id),
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP;
+
+-- Reviews approved before the queue existed stay approved
+UPDATE public.product_reviews SET status = 'approved' WHERE is_approved = true AND status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_product_reviews_product ON public.product_reviews(product_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_customer ON public.product_reviews(customer_id);
+CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON public.product_reviews(status, created_at);
+
+ALTER TABLE IF EXISTS public.products
+  ADD COLUMN IF NOT EXISTS rating_average DECIMAL(3,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS rating_count INTEGER DEFAULT 0;
+
+ALTER TABLE public.product_reviews ENABLE ROW LEVEL SECURITY;
+
+-- Reviews are written and moderated through the server; customers only read
+DROP POLICY IF EXISTS "Users can manage own reviews" ON public.product_reviews;
+
+DROP POLICY IF EXISTS "Users can view approved reviews" ON public.product_reviews;
+CREATE POLICY "Users can view approved reviews" ON public.product_reviews
+  FOR SELECT USING (is_approved = true);
+
+DROP POLICY IF EXISTS "Users can view own reviews" ON public.product_reviews;
+CREATE POLICY "Users can view own reviews" ON public.product_reviews
+  FOR SELECT USING (customer_id = auth.uid());
+
+-- Refresh a product's rating from its approved reviews
+CREATE OR REPLACE FUNCTION public.recalculate_product_rating(
+  product_id UUID
+) RETURNS VOID AS $$
+BEGIN
+  UPDATE public.products p
+  SET rating_average = COALESCE(r.average, 0),
+      rating_count = COALESCE(r.total, 0),
+      updated_at = NOW()
+  FROM (
+    SELECT ROUND(AVG(rating)::numeric, 2) AS average, COUNT(*) AS total
+    FROM public.product_reviews
+    WHERE product_reviews.product_id = recalculate_product_rating.product_id
+      AND status = 'approved'
+  ) r
+  WHERE p.id = recalculate_product_rating.product_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Replace the placeholder ratings with the real ones
+UPDATE public.products p
+SET rating_average = COALESCE(r.average, 0),
+    rating_count = COALESCE(r.total, 0)
+FROM (
+  SELECT pr.id,
+         ROUND(AVG(rv.rating)::numeric, 2) AS average,
+         COUNT(rv.id) AS total
+  FROM public.products pr
+  LEFT JOIN public.product_reviews rv ON rv.product_id = pr.id AND rv.status = 'approved'
+  GROUP BY pr.id
+) r
+WHERE p.id = r.id;
@@ -0,0 +1,217 @@
+-- Server-side product search: ranked full-text matching, typo tolerance,
+-- synonyms and facet counts for the catalogue page
+-- Run after ADD_CLICK_AND_COLLECT.sql
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+  ADD COLUMN IF NOT EXISTS search_text TEXT;
+
+-- Name, brand, SKU and barcode rank highest, then tags and category, then the
+-- descriptions. Identifiers use the simple parser so they are not stemmed.
+CREATE OR REPLACE FUNCTION public.product_search_vector(p public.products) RETURNS TSVECTOR AS $$
+  SELECT
+    setweight(to_tsvector('english', COALESCE(p.name, '')), 'A') ||
+    setweight(to_tsvector('simple', concat_ws(' ', p.brand, p.sku, p.barcode)), 'A') ||
+    setweight(to_tsvector('english', COALESCE(array_to_string(p.tags, ' '), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE((SELECT c.name FROM public.categories c WHERE c.id = p.category_id), '')), 'B') ||
+    setweight(to_tsvector('english', COALESCE(p.short_description, '')), 'C') ||
+    setweight(to_tsvector('english', COALESCE(p.description, '')), 'D');
+$$ LANGUAGE sql STABLE;
+
+-- The short fields typos are matched against with trigrams
+CREATE OR REPLACE FUNCTION public.product_search_text(p public.products) RETURNS TEXT AS $$
+  SELECT lower(concat_ws(' ', p.name, p.brand, p.sku, p.barcode, array_to_string(p.tags, ' ')));
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION public.update_product_search_document() RETURNS TRIGGER AS $$
+BEGIN
+  NEW.search_vector := public.product_search_vector(NEW);
+  NEW.search_text := public.product_search_text(NEW);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS update_products_search_document ON public.products;
+CREATE TRIGGER update_products_search_document
+  BEFORE INSERT OR UPDATE ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.update_product_search_document();
+
+-- Index the existing catalogue without touching updated_at
+ALTER TABLE public.products DISABLE TRIGGER update_products_updated_at;
+UPDATE public.products p
+SET search_vector = public.product_search_vector(p),
+    search_text = public.product_search_text(p);
+ALTER TABLE public.products ENABLE TRIGGER update_products_updated_at;
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON public.products USING GIN (search_text gin_trgm_ops);
+
+-- Each row is a group of interchangeable terms; searching for any of them
+-- also finds products described with the others
+CREATE TABLE IF NOT EXISTS public.search_synonyms (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  terms TEXT[] NOT NULL CHECK (array_length(terms, 1) >= 2),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE public.search_synonyms ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can manage search synonyms" ON public.search_synonyms;
+CREATE POLICY "Managers can manage search synonyms" ON public.search_synonyms
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_search_synonyms_updated_at ON public.search_synonyms;
+CREATE TRIGGER update_search_synonyms_updated_at
+  BEFORE UPDATE ON public.search_synonyms
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.search_synonyms (terms)
+SELECT terms FROM (VALUES
+  (ARRAY['bleach', 'hypochlorite', 'sodium hypochlorite']),
+  (ARRAY['disinfectant', 'sanitiser', 'sanitizer', 'antibacterial']),
+  (ARRAY['detergent', 'washing liquid', 'soap']),
+  (ARRAY['degreaser', 'grease remover']),
+  (ARRAY['mop', 'floor cleaner']),
+  (ARRAY['toilet paper', 'toilet roll', 'loo roll'])
+) AS seed(terms)
+WHERE NOT EXISTS (SELECT 1 FROM public.search_synonyms);
+
+-- One page of matching products with the facet counts for the filter panel.
+-- query is a tsquery built by the server from the shopper's words and their
+-- synonyms; fuzzy is the raw text, matched by trigram similarity so typos
+-- still find products. Each facet is counted with every filter except its
+-- own, so picking a brand still shows how many products the other brands have.
+-- Pages follow the keyset in after ({n, t, i}: the last row's sort value,
+-- name and id) rather than an offset, so rows are not skipped or repeated
+-- when the catalogue changes between pages. Sort values go out as text so
+-- they come back exactly.
+CREATE OR REPLACE FUNCTION public.search_products(
+  query TEXT,
+  fuzzy TEXT,
+  filters JSONB DEFAULT '{}',
+  sort TEXT DEFAULT 'relevance',
+  after JSONB DEFAULT NULL,
+  page_size INTEGER DEFAULT 24
+) RETURNS JSONB AS $$
+DECLARE
+  tsq TSQUERY := CASE WHEN COALESCE(query, '') = '' THEN NULL ELSE to_tsquery('english', query) END;
+  term TEXT := NULLIF(lower(trim(COALESCE(fuzzy, ''))), '');
+  result JSONB;
+BEGIN
+  PERFORM set_config('pg_trgm.word_similarity_threshold', '0.5', true);
+
+  WITH matched AS (
+    SELECT
+      p.id, p.name, p.brand, p.price, p.compare_at_price, p.stock_quantity,
+      p.is_featured, p.rating_average, p.rating_count, p.created_at,
+      c.name AS category,
+      (CASE WHEN tsq IS NULL THEN 0 ELSE ts_rank(p.search_vector, tsq) END
+        + CASE WHEN term IS NULL THEN 0 ELSE word_similarity(term, p.search_text) * 0.5 END
+        + CASE WHEN term IS NOT NULL AND (lower(p.sku) = term OR p.barcode = term) THEN 10 ELSE 0 END
+      )::NUMERIC AS rank,
+      (filters->>'category' IS NULL OR c.name = filters->>'category' OR c.slug = filters->>'category') AS in_category,
+      (filters->>'brand' IS NULL OR p.brand = filters->>'brand') AS in_brand,
+      ((filters->>'min_price' IS NULL OR p.price >= (filters->>'min_price')::DECIMAL)
+        AND (filters->>'max_price' IS NULL OR p.price <= (filters->>'max_price')::DECIMAL)) AS in_price,
+      (NOT COALESCE((filters->>'in_stock')::BOOLEAN, FALSE) OR COALESCE(p.stock_quantity, 0) > 0) AS in_stock,
+      (NOT COALESCE((filters->>'on_sale')::BOOLEAN, FALSE) OR p.compare_at_price > p.price) AS on_sale,
+      (filters->>'min_rating' IS NULL OR COALESCE(p.rating_average, 0) >= (filters->>'min_rating')::DECIMAL) AS in_rating
+    FROM public.products p
+    LEFT JOIN public.categories c ON c.id = p.category_id
+    WHERE COALESCE(p.is_active, TRUE)
+      AND COALESCE(p.status::TEXT, 'active') NOT IN ('inactive', 'discontinued')
+      AND (NOT COALESCE((filters->>'featured')::BOOLEAN, FALSE) OR p.is_featured)
+      AND (
+        (tsq IS NULL AND term IS NULL)
+        OR (tsq IS NOT NULL AND p.search_vector @@ tsq)
+        OR (term IS NOT NULL AND (term <% p.search_text OR lower(p.sku) = term OR p.barcode = term))
+      )
+  ),
+  results AS (
+    SELECT
+      m.*,
+      (CASE sort
+        WHEN 'price-low' THEN -m.price
+        WHEN 'price-high' THEN m.price
+        WHEN 'rating' THEN COALESCE(m.rating_average, 0) * 100000 + COALESCE(m.rating_count, 0)
+        WHEN 'trending' THEN COALESCE(m.rating_count, 0)
+        WHEN 'newest' THEN EXTRACT(EPOCH FROM m.created_at)::NUMERIC
+        WHEN 'name' THEN 0
+        WHEN 'featured' THEN COALESCE(m.is_featured, FALSE)::INTEGER * 100 + m.rank
+        ELSE m.rank
+      END)::NUMERIC AS sort_num,
+      lower(m.name) AS sort_text
+    FROM matched m
+    WHERE m.in_category AND m.in_brand AND m.in_price AND m.in_stock AND m.on_sale AND m.in_rating
+  ),
+  page AS (
+    SELECT r.id, r.rank, r.sort_num, r.sort_text
+    FROM results r
+    WHERE after IS NULL
+      OR r.sort_num < (after->>'n')::NUMERIC
+      OR (r.sort_num = (after->>'n')::NUMERIC AND (
+        r.sort_text > after->>'t'
+        OR (r.sort_text = after->>'t' AND r.id > (after->>'i')::UUID)
+      ))
+    ORDER BY r.sort_num DESC, r.sort_text, r.id
+    LIMIT page_size + 1
+  )
+  SELECT jsonb_build_object(
+    'total', (SELECT COUNT(*) FROM results),
+    'items', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('id', pg.id, 'rank', pg.rank, 'n', pg.sort_num::TEXT, 't', pg.sort_text)
+        ORDER BY pg.sort_num DESC, pg.sort_text, pg.id)
+      FROM (SELECT * FROM page ORDER BY sort_num DESC, sort_text, id LIMIT page_size) pg
+    ), '[]'::JSONB),
+    'has_more', (SELECT COUNT(*) FROM page) > page_size,
+    'facets', jsonb_build_object(
+      'categories', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', f.category, 'count', f.n) ORDER BY f.n DESC, f.category)
+        FROM (
+          SELECT category, COUNT(*) AS n FROM matched
+          WHERE category IS NOT NULL AND in_brand AND in_price AND in_stock AND on_sale AND in_rating
+          GROUP BY category
+        ) f
+      ), '[]'::JSONB),
+      'brands', COALESCE((
+        SELECT jsonb_agg(jsonb_build_object('value', f.brand, 'count', f.n) ORDER BY f.n DESC, f.brand)
+        FROM (
+          SELECT brand, COUNT(*) AS n FROM matched
+          WHERE brand IS NOT NULL AND brand <> '' AND in_category AND in_price AND in_stock AND on_sale AND in_rating
+          GROUP BY brand
+        ) f
+      ), '[]'::JSONB),
+      'price', (
+        SELECT jsonb_build_object(
+          'min', COALESCE(MIN(price), 0),
+          'max', COALESCE(MAX(price), 0),
+          'buckets', jsonb_build_array(
+            jsonb_build_object('min', 0, 'max', 50, 'count', COUNT(*) FILTER (WHERE price < 50)),
+            jsonb_build_object('min', 50, 'max', 100, 'count', COUNT(*) FILTER (WHERE price >= 50 AND price < 100)),
+            jsonb_build_object('min', 100, 'max', 250, 'count', COUNT(*) FILTER (WHERE price >= 100 AND price < 250)),
+            jsonb_build_object('min', 250, 'max', 500, 'count', COUNT(*) FILTER (WHERE price >= 250 AND price < 500)),
+            jsonb_build_object('min', 500, 'max', NULL, 'count', COUNT(*) FILTER (WHERE price >= 500))
+          )
+        )
+        FROM matched
+        WHERE in_category AND in_brand AND in_stock AND on_sale AND in_rating
+      ),
+      'in_stock', (
+        SELECT COUNT(*) FROM matched
+        WHERE COALESCE(stock_quantity, 0) > 0 AND in_category AND in_brand AND in_price AND on_sale AND in_rating
+      ),
+      'on_sale', (
+        SELECT COUNT(*) FROM matched
+        WHERE compare_at_price > price AND in_category AND in_brand AND in_price AND in_stock AND in_rating
+      )
+    )
+  ) INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
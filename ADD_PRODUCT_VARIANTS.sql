@@ -0,0 +1,148 @@
+-- Product variants (size/colour/scent) with their own SKU, barcode, price and stock
+-- Run after ADD_LOYALTY.sql
+
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  options JSONB DEFAULT '{}',
+  sku VARCHAR(50) UNIQUE NOT NULL,
+  barcode VARCHAR(50) UNIQUE,
+  price DECIMAL(10,2),
+  compare_at_price DECIMAL(10,2),
+  stock_quantity INTEGER DEFAULT 0,
+  image_url TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  sort_order INTEGER DEFAULT 0,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON public.product_variants(product_id, sort_order);
+CREATE INDEX IF NOT EXISTS idx_product_variants_barcode ON public.product_variants(barcode) WHERE barcode IS NOT NULL;
+
+-- Products sold in variants must be bought as one of them
+ALTER TABLE IF EXISTS public.products
+  ADD COLUMN IF NOT EXISTS has_variants BOOLEAN DEFAULT FALSE;
+
+-- The variant an order line sold, so stock and returns land on it
+ALTER TABLE IF EXISTS public.order_items
+  ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id);
+
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Active product variants are publicly readable" ON public.product_variants;
+CREATE POLICY "Active product variants are publicly readable" ON public.product_variants
+  FOR SELECT TO authenticated, anon USING (is_active = true);
+
+DROP POLICY IF EXISTS "Managers can manage product variants" ON public.product_variants;
+CREATE POLICY "Managers can manage product variants" ON public.product_variants
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+-- Variant stock moves only through the ledger (sales, refunds and stock
+-- adjustments), never by staff updating the row
+DROP POLICY IF EXISTS "Staff can update product variant stock" ON public.product_variants;
+
+-- Keep a product's stock at the sum of its active variants' stock
+CREATE OR REPLACE FUNCTION public.sync_product_variant_stock() RETURNS TRIGGER AS $$
+DECLARE
+  parent_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+BEGIN
+  UPDATE public.products
+  SET stock_quantity = (
+        SELECT COALESCE(SUM(v.stock_quantity), 0)
+        FROM public.product_variants v
+        WHERE v.product_id = parent_id
+          AND v.is_active = true
+      ),
+      has_variants = EXISTS (
+        SELECT 1 FROM public.product_variants v WHERE v.product_id = parent_id
+      ),
+      updated_at = NOW()
+  WHERE id = parent_id;
+
+  IF TG_OP = 'UPDATE' AND OLD.product_id <> NEW.product_id THEN
+    UPDATE public.products
+    SET stock_quantity = (
+          SELECT COALESCE(SUM(v.stock_quantity), 0)
+          FROM public.product_variants v
+          WHERE v.product_id = OLD.product_id
+            AND v.is_active = true
+        ),
+        updated_at = NOW()
+    WHERE id = OLD.product_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS product_variants_sync_stock ON public.product_variants;
+CREATE TRIGGER product_variants_sync_stock
+  AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.sync_product_variant_stock();
+
+-- Order lines draw stock from their variant when they have one
+CREATE OR REPLACE FUNCTION public.update_stock_levels(
+  order_id UUID
+) RETURNS BOOLEAN AS $$
+DECLARE
+  item_record RECORD;
+  success BOOLEAN := true;
+BEGIN
+  FOR item_record IN
+    SELECT product_id, variant_id, quantity
+    FROM public.order_items
+    WHERE order_id = update_stock_levels.order_id
+      AND product_id IS NOT NULL
+  LOOP
+    IF item_record.variant_id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - item_record.quantity
+      WHERE id = item_record.variant_id
+        AND stock_quantity >= item_record.quantity;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - item_record.quantity
+      WHERE id = item_record.product_id
+        AND stock_quantity >= item_record.quantity;
+    END IF;
+
+    IF NOT FOUND THEN
+      success := false;
+    END IF;
+  END LOOP;
+
+  RETURN success;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Returns put stock back on the variant that was sold
+DROP FUNCTION IF EXISTS public.restock_product(UUID, INTEGER);
+CREATE OR REPLACE FUNCTION public.restock_product(
+  product_id UUID,
+  quantity INTEGER,
+  variant_id UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  new_quantity INTEGER;
+BEGIN
+  IF restock_product.variant_id IS NOT NULL THEN
+    UPDATE public.product_variants
+    SET stock_quantity = COALESCE(stock_quantity, 0) + restock_product.quantity,
+        updated_at = NOW()
+    WHERE id = restock_product.variant_id
+    RETURNING stock_quantity INTO new_quantity;
+  ELSE
+    UPDATE public.products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + restock_product.quantity,
+        updated_at = NOW()
+    WHERE id = restock_product.product_id
+    RETURNING stock_quantity INTO new_quantity;
+  END IF;
+
+  RETURN new_quantity;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,222 @@
+-- Suppliers, purchase orders, goods receiving and landed-cost history
+-- Run after ADD_STOCK_MOVEMENTS.sql
+
+CREATE TABLE IF NOT EXISTS public.suppliers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  supplier_code VARCHAR(30) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  contact_name VARCHAR(255),
+  email VARCHAR(255),
+  phone VARCHAR(50),
+  address TEXT,
+  payment_terms VARCHAR(100),
+  lead_time_days INTEGER DEFAULT 7 CHECK (lead_time_days >= 0),
+  notes TEXT,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Who a product is normally reordered from
+ALTER TABLE public.products
+  ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  po_number VARCHAR(30) UNIQUE NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES public.suppliers(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  expected_at DATE,
+  notes TEXT,
+  subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  additional_costs DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES public.user_profiles(id),
+  sent_at TIMESTAMP,
+  received_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id),
+  variant_id UUID REFERENCES public.product_variants(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0 AND quantity_received <= quantity_ordered),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.product_cost_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  purchase_order_id UUID REFERENCES public.purchase_orders(id) ON DELETE SET NULL,
+  purchase_order_item_id UUID REFERENCES public.purchase_order_items(id) ON DELETE SET NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10,2) NOT NULL,
+  landed_unit_cost DECIMAL(12,4) NOT NULL,
+  cost_price_before DECIMAL(10,2),
+  cost_price_after DECIMAL(10,2) NOT NULL,
+  received_by UUID REFERENCES public.user_profiles(id),
+  received_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_supplier ON public.products(supplier_id) WHERE supplier_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON public.purchase_orders(status);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_product_cost_history_product ON public.product_cost_history(product_id, received_at);
+
+ALTER TABLE public.suppliers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_cost_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can manage suppliers" ON public.suppliers;
+CREATE POLICY "Managers can manage suppliers" ON public.suppliers
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Staff can view suppliers" ON public.suppliers;
+CREATE POLICY "Staff can view suppliers" ON public.suppliers
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+DROP POLICY IF EXISTS "Managers can manage purchase orders" ON public.purchase_orders;
+CREATE POLICY "Managers can manage purchase orders" ON public.purchase_orders
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Staff can view purchase orders" ON public.purchase_orders;
+CREATE POLICY "Staff can view purchase orders" ON public.purchase_orders
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+-- Lines can only be edited while the order is a draft; receiving goes through the server
+DROP POLICY IF EXISTS "Managers can edit draft purchase order items" ON public.purchase_order_items;
+CREATE POLICY "Managers can edit draft purchase order items" ON public.purchase_order_items
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+    AND EXISTS (SELECT 1 FROM public.purchase_orders WHERE id = purchase_order_id AND status = 'draft')
+  );
+
+DROP POLICY IF EXISTS "Staff can view purchase order items" ON public.purchase_order_items;
+CREATE POLICY "Staff can view purchase order items" ON public.purchase_order_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+DROP POLICY IF EXISTS "Managers can view cost history" ON public.product_cost_history;
+CREATE POLICY "Managers can view cost history" ON public.product_cost_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_suppliers_updated_at ON public.suppliers;
+CREATE TRIGGER update_suppliers_updated_at
+  BEFORE UPDATE ON public.suppliers
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_purchase_orders_updated_at ON public.purchase_orders;
+CREATE TRIGGER update_purchase_orders_updated_at
+  BEFORE UPDATE ON public.purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Receive units of a line: stock through the ledger, weighted-average cost_price
+-- and a landed-cost history row. NULL when the order is not open for receiving
+-- or the line has fewer units outstanding.
+CREATE OR REPLACE FUNCTION public.receive_purchase_order_item(
+  item_id UUID,
+  quantity INTEGER,
+  landed_unit_cost DECIMAL,
+  received_by UUID DEFAULT NULL
+) RETURNS public.product_cost_history AS $$
+DECLARE
+  line public.purchase_order_items;
+  po public.purchase_orders;
+  on_hand INTEGER;
+  cost_before DECIMAL;
+  cost_after DECIMAL;
+  movement public.stock_movements;
+  result public.product_cost_history;
+BEGIN
+  IF receive_purchase_order_item.quantity <= 0 THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.purchase_order_items i
+  SET quantity_received = i.quantity_received + receive_purchase_order_item.quantity,
+      updated_at = NOW()
+  WHERE i.id = receive_purchase_order_item.item_id
+    AND i.quantity_received + receive_purchase_order_item.quantity <= i.quantity_ordered
+    AND EXISTS (
+      SELECT 1 FROM public.purchase_orders o
+      WHERE o.id = i.purchase_order_id AND o.status IN ('sent', 'partially_received')
+    )
+  RETURNING * INTO line;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO po FROM public.purchase_orders WHERE id = line.purchase_order_id;
+
+  SELECT COALESCE(p.stock_quantity, 0), p.cost_price INTO on_hand, cost_before
+  FROM public.products p
+  WHERE p.id = line.product_id
+  FOR UPDATE;
+
+  IF cost_before IS NULL OR on_hand <= 0 THEN
+    cost_after := receive_purchase_order_item.landed_unit_cost;
+  ELSE
+    cost_after := (on_hand * cost_before + receive_purchase_order_item.quantity * receive_purchase_order_item.landed_unit_cost)
+      / (on_hand + receive_purchase_order_item.quantity);
+  END IF;
+
+  movement := public.record_stock_movement(
+    line.product_id,
+    receive_purchase_order_item.quantity,
+    'receiving',
+    line.variant_id,
+    'Received on ' || po.po_number,
+    'purchase_order',
+    po.id,
+    receive_purchase_order_item.received_by
+  );
+
+  IF movement.id IS NULL THEN
+    RAISE EXCEPTION 'Could not record received stock for purchase order line %', line.id;
+  END IF;
+
+  UPDATE public.products SET cost_price = ROUND(cost_after, 2), updated_at = NOW()
+  WHERE id = line.product_id;
+
+  INSERT INTO public.product_cost_history (
+    product_id, variant_id, purchase_order_id, purchase_order_item_id, supplier_id,
+    quantity, unit_cost, landed_unit_cost, cost_price_before, cost_price_after, received_by
+  ) VALUES (
+    line.product_id,
+    line.variant_id,
+    po.id,
+    line.id,
+    po.supplier_id,
+    receive_purchase_order_item.quantity,
+    line.unit_cost,
+    ROUND(receive_purchase_order_item.landed_unit_cost, 4),
+    cost_before,
+    ROUND(cost_after, 2),
+    receive_purchase_order_item.received_by
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,24 @@
+-- Store settings, starting with the till receipt template edited in admin
+-- Run after ADD_PARKED_SALES.sql
+
+CREATE TABLE IF NOT EXISTS public.store_settings (
+  key VARCHAR(100) PRIMARY KEY,
+  value JSONB NOT NULL,
+  updated_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+ALTER TABLE public.store_settings ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view store settings" ON public.store_settings;
+CREATE POLICY "Staff can view store settings" ON public.store_settings
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+  );
+
+DROP TRIGGER IF EXISTS update_store_settings_updated_at ON public.store_settings;
+CREATE TRIGGER update_store_settings_updated_at
+  BEFORE UPDATE ON public.store_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
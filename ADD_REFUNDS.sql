@@ -0,0 +1,140 @@
+-- Refund documents and returned lines for online and POS orders
+-- Run after ADD_STRIPE_WEBHOOK_COLUMNS.sql (uses orders.amount_refunded)
+
+CREATE TABLE IF NOT EXISTS public.refunds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_number VARCHAR(50) UNIQUE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE,
+  amount DECIMAL(10,2) NOT NULL,
+  refund_method VARCHAR(20) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'completed',
+  reason TEXT,
+  stripe_refund_id VARCHAR(100),
+  includes_shipping BOOLEAN DEFAULT FALSE,
+  restocked BOOLEAN DEFAULT TRUE,
+  processed_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.refund_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  refund_id UUID REFERENCES public.refunds(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  amount DECIMAL(10,2) NOT NULL,
+  restocked BOOLEAN DEFAULT FALSE,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_refunds_order ON public.refunds(order_id);
+CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON public.refunds(created_at);
+CREATE INDEX IF NOT EXISTS idx_refund_items_refund ON public.refund_items(refund_id);
+CREATE INDEX IF NOT EXISTS idx_refund_items_order_item ON public.refund_items(order_item_id);
+
+-- Refunds are written by the server (service role); customers may read their own
+ALTER TABLE public.refunds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.refund_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own refunds" ON public.refunds;
+CREATE POLICY "Users can view own refunds" ON public.refunds
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders o WHERE o.id = order_id AND o.customer_id = auth.uid())
+  );
+
+-- Put returned units back on the shelf
+CREATE OR REPLACE FUNCTION public.restock_product(
+  product_id UUID,
+  quantity INTEGER
+) RETURNS INTEGER AS $$
+DECLARE
+  new_quantity INTEGER;
+BEGIN
+  UPDATE public.products
+  SET stock_quantity = COALESCE(stock_quantity, 0) + restock_product.quantity,
+      updated_at = NOW()
+  WHERE id = restock_product.product_id
+  RETURNING stock_quantity INTO new_quantity;
+
+  RETURN new_quantity;
+END;
+$$ LANGUAGE plpgsql;
+
+-- The till or admin screen sends one id per refund attempt; a repeat is refused
+ALTER TABLE public.refunds ADD COLUMN IF NOT EXISTS request_id VARCHAR(100);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_request ON public.refunds(request_id) WHERE request_id IS NOT NULL;
+
+-- Quantities of each line refunded so far, reserved together with the amount
+ALTER TABLE public.order_items ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;
+
+UPDATE public.order_items i
+SET refunded_quantity = r.quantity
+FROM (
+  SELECT ri.order_item_id, SUM(ri.quantity) AS quantity
+  FROM public.refund_items ri
+  JOIN public.refunds rf ON rf.id = ri.refund_id
+  WHERE rf.status <> 'failed'
+  GROUP BY ri.order_item_id
+) r
+WHERE i.id = r.order_item_id;
+
+-- Add a refund to an order's refunded total while it stays within the order
+-- total, and its line quantities to each line's refunded quantity while they
+-- stay within what was sold. The order row is locked first, so two refunds at
+-- once cannot both pass. Returns the new total, or NULL (changing nothing)
+-- when the refund would go over. Negative amounts and quantities give back a
+-- reservation whose payout failed.
+DROP FUNCTION IF EXISTS public.reserve_order_refund(UUID, DECIMAL, DECIMAL);
+CREATE OR REPLACE FUNCTION public.reserve_order_refund(
+  order_id UUID,
+  amount DECIMAL,
+  order_total DECIMAL,
+  lines JSONB DEFAULT '[]'
+) RETURNS DECIMAL AS $$
+DECLARE
+  new_total DECIMAL;
+BEGIN
+  -- Lock the order so refunds against it check their lines one at a time
+  PERFORM 1 FROM public.orders o WHERE o.id = reserve_order_refund.order_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1
+    FROM (
+      SELECT l.order_item_id, SUM(l.quantity) AS quantity
+      FROM jsonb_to_recordset(reserve_order_refund.lines) AS l(order_item_id UUID, quantity INTEGER)
+      GROUP BY l.order_item_id
+    ) requested
+    LEFT JOIN public.order_items i
+      ON i.id = requested.order_item_id AND i.order_id = reserve_order_refund.order_id
+    WHERE i.id IS NULL
+       OR COALESCE(i.refunded_quantity, 0) + requested.quantity < 0
+       OR COALESCE(i.refunded_quantity, 0) + requested.quantity > i.quantity
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.orders
+  SET amount_refunded = COALESCE(amount_refunded, 0) + reserve_order_refund.amount,
+      updated_at = NOW()
+  WHERE id = reserve_order_refund.order_id
+    AND COALESCE(amount_refunded, 0) + reserve_order_refund.amount >= 0
+    AND COALESCE(amount_refunded, 0) + reserve_order_refund.amount <= reserve_order_refund.order_total
+  RETURNING amount_refunded INTO new_total;
+
+  IF new_total IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.order_items i
+  SET refunded_quantity = COALESCE(i.refunded_quantity, 0) + requested.quantity
+  FROM (
+    SELECT l.order_item_id, SUM(l.quantity) AS quantity
+    FROM jsonb_to_recordset(reserve_order_refund.lines) AS l(order_item_id UUID, quantity INTEGER)
+    GROUP BY l.order_item_id
+  ) requested
+  WHERE i.id = requested.order_item_id
+    AND i.order_id = reserve_order_refund.order_id;
+
+  RETURN new_total;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,76 @@
+-- Search log behind the type-ahead's popular queries and the zero-results
+-- review in admin
+-- Run after ADD_PRODUCT_SEARCH.sql
+
+CREATE TABLE IF NOT EXISTS public.search_queries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  query VARCHAR(100) NOT NULL,
+  normalized VARCHAR(100) NOT NULL,
+  results_count INTEGER NOT NULL DEFAULT 0,
+  user_id UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  dismissed_at TIMESTAMP,
+  dismissed_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_search_queries_normalized ON public.search_queries(normalized, created_at);
+CREATE INDEX IF NOT EXISTS idx_search_queries_zero_results ON public.search_queries(created_at) WHERE results_count = 0 AND dismissed_at IS NULL;
+
+ALTER TABLE public.search_queries ENABLE ROW LEVEL SECURITY;
+
+-- Written by the server; managers review and dismiss the zero-result searches
+DROP POLICY IF EXISTS "Managers can view search queries" ON public.search_queries;
+CREATE POLICY "Managers can view search queries" ON public.search_queries
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Managers can dismiss search queries" ON public.search_queries;
+CREATE POLICY "Managers can dismiss search queries" ON public.search_queries
+  FOR UPDATE USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+-- Queries that found products and that shoppers have run more than once,
+-- most searched first, optionally starting with what is being typed. The
+-- server normalizes the prefix to letters, digits and spaces.
+CREATE OR REPLACE FUNCTION public.popular_search_queries(
+  prefix TEXT DEFAULT '',
+  max_results INTEGER DEFAULT 5,
+  days INTEGER DEFAULT 30
+) RETURNS TABLE (query TEXT, searches BIGINT) AS $$
+  SELECT q.normalized::TEXT, COUNT(*) AS searches
+  FROM public.search_queries q
+  WHERE q.results_count > 0
+    AND q.created_at >= NOW() - make_interval(days => popular_search_queries.days)
+    AND q.normalized LIKE COALESCE(popular_search_queries.prefix, '') || '%'
+  GROUP BY q.normalized
+  HAVING COUNT(*) > 1
+  ORDER BY COUNT(*) DESC, q.normalized
+  LIMIT popular_search_queries.max_results;
+$$ LANGUAGE sql STABLE;
+
+-- Searches that found nothing and have not been dealt with, grouped by the
+-- words searched for, so managers can add a synonym or stock the product
+CREATE OR REPLACE FUNCTION public.zero_result_searches(
+  days INTEGER DEFAULT 30
+) RETURNS TABLE (
+  normalized TEXT,
+  sample_query TEXT,
+  searches BIGINT,
+  shoppers BIGINT,
+  last_searched_at TIMESTAMP
+) AS $$
+  SELECT
+    q.normalized::TEXT,
+    (ARRAY_AGG(q.query ORDER BY q.created_at DESC))[1]::TEXT,
+    COUNT(*),
+    COUNT(DISTINCT q.user_id),
+    MAX(q.created_at)
+  FROM public.search_queries q
+  WHERE q.results_count = 0
+    AND q.dismissed_at IS NULL
+    AND q.created_at >= NOW() - make_interval(days => zero_result_searches.days)
+  GROUP BY q.normalized
+  ORDER BY COUNT(*) DESC, MAX(q.created_at) DESC;
+$$ LANGUAGE sql STABLE;
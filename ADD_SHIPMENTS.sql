@@ -0,0 +1,124 @@
+-- Shipments with courier tracking numbers, and a history of every order status change
+-- Run after ADD_SEARCH_LOG.sql
+
+-- One parcel handed to a courier. An order can go out in several.
+CREATE TABLE IF NOT EXISTS public.shipments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  courier VARCHAR(50) NOT NULL,
+  tracking_number VARCHAR(100) NOT NULL,
+  tracking_url TEXT,
+  status VARCHAR(20) NOT NULL DEFAULT 'shipped' CHECK (status IN ('shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned')),
+  shipped_at TIMESTAMP DEFAULT NOW(),
+  delivered_at TIMESTAMP,
+  created_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Which order lines, and how many of each, went in the parcel
+CREATE TABLE IF NOT EXISTS public.shipment_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  shipment_id UUID NOT NULL REFERENCES public.shipments(id) ON DELETE CASCADE,
+  order_item_id UUID NOT NULL REFERENCES public.order_items(id) ON DELETE CASCADE,
+  quantity INTEGER NOT NULL CHECK (quantity > 0)
+);
+
+-- Every status an order has been through, written by the trigger below
+CREATE TABLE IF NOT EXISTS public.order_status_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  status VARCHAR(30) NOT NULL,
+  previous_status VARCHAR(30),
+  fulfillment_status VARCHAR(20),
+  changed_by UUID REFERENCES public.user_profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipments_order ON public.shipments(order_id);
+CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment ON public.shipment_items(shipment_id);
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON public.order_status_history(order_id, created_at);
+
+ALTER TABLE public.shipments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipment_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Shipments are recorded through the server; customers read their own orders', staff read all
+DROP POLICY IF EXISTS "Customers can view own shipments" ON public.shipments;
+CREATE POLICY "Customers can view own shipments" ON public.shipments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders WHERE orders.id = shipments.order_id AND orders.customer_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view shipments" ON public.shipments;
+CREATE POLICY "Staff can view shipments" ON public.shipments
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+  );
+
+DROP POLICY IF EXISTS "Customers can view own shipment items" ON public.shipment_items;
+CREATE POLICY "Customers can view own shipment items" ON public.shipment_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.shipments
+      JOIN public.orders ON orders.id = shipments.order_id
+      WHERE shipments.id = shipment_items.shipment_id AND orders.customer_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Staff can view shipment items" ON public.shipment_items;
+CREATE POLICY "Staff can view shipment items" ON public.shipment_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+  );
+
+DROP POLICY IF EXISTS "Customers can view own order status history" ON public.order_status_history;
+CREATE POLICY "Customers can view own order status history" ON public.order_status_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders WHERE orders.id = order_status_history.order_id AND orders.customer_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view order status history" ON public.order_status_history;
+CREATE POLICY "Staff can view order status history" ON public.order_status_history
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+  );
+
+DROP TRIGGER IF EXISTS update_shipments_updated_at ON public.shipments;
+CREATE TRIGGER update_shipments_updated_at
+  BEFORE UPDATE ON public.shipments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Orders change status from the admin page, the payment webhook, refunds,
+-- collections and shipments, so the history is kept here rather than by each
+-- of them. Changes made by the server have no signed-in user and record no
+-- changed_by.
+CREATE OR REPLACE FUNCTION public.record_order_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT'
+     OR NEW.status IS DISTINCT FROM OLD.status
+     OR NEW.fulfillment_status IS DISTINCT FROM OLD.fulfillment_status THEN
+    INSERT INTO public.order_status_history (order_id, status, previous_status, fulfillment_status, changed_by)
+    VALUES (
+      NEW.id,
+      NEW.status::TEXT,
+      CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END,
+      NEW.fulfillment_status::TEXT,
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS record_order_status_change ON public.orders;
+CREATE TRIGGER record_order_status_change
+  AFTER INSERT OR UPDATE OF status, fulfillment_status ON public.orders
+  FOR EACH ROW EXECUTE FUNCTION public.record_order_status_change();
+
+-- Orders placed before the history existed start with the status they are in now
+INSERT INTO public.order_status_history (order_id, status, fulfillment_status, created_at)
+SELECT o.id, o.status::TEXT, o.fulfillment_status::TEXT, COALESCE(o.updated_at, o.created_at)
+FROM public.orders o
+WHERE NOT EXISTS (SELECT 1 FROM public.order_status_history h WHERE h.order_id = o.id);
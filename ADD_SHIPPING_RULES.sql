@@ -0,0 +1,106 @@
+-- Shipping zones, methods and rate tables that checkout delivery is priced from
+-- Run after ADD_TAX_INVOICES.sql
+
+CREATE TABLE IF NOT EXISTS public.shipping_zones (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(100) NOT NULL,
+  provinces TEXT[] DEFAULT '{}',
+  postal_codes TEXT[] DEFAULT '{}',
+  free_shipping_threshold DECIMAL(10,2),
+  additional_days INTEGER DEFAULT 0,
+  priority INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.shipping_methods (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  code VARCHAR(50) UNIQUE NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  description TEXT,
+  method_type VARCHAR(20) NOT NULL DEFAULT 'standard' CHECK (method_type IN ('standard', 'express', 'collect')),
+  min_days INTEGER DEFAULT 0,
+  max_days INTEGER DEFAULT 0,
+  sort_order INTEGER DEFAULT 0,
+  is_active BOOLEAN DEFAULT TRUE,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS public.shipping_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  zone_id UUID NOT NULL REFERENCES public.shipping_zones(id) ON DELETE CASCADE,
+  method_id UUID NOT NULL REFERENCES public.shipping_methods(id) ON DELETE CASCADE,
+  min_weight_kg DECIMAL(8,2) DEFAULT 0,
+  max_weight_kg DECIMAL(8,2),
+  min_order_value DECIMAL(10,2) DEFAULT 0,
+  max_order_value DECIMAL(10,2),
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_method ON public.shipping_rates(zone_id, method_id);
+
+ALTER TABLE public.orders
+  ADD COLUMN IF NOT EXISTS shipping_method_id UUID REFERENCES public.shipping_methods(id),
+  ADD COLUMN IF NOT EXISTS shipping_method JSONB;
+
+ALTER TABLE public.shipping_zones ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_methods ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.shipping_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Managers can manage shipping zones" ON public.shipping_zones;
+CREATE POLICY "Managers can manage shipping zones" ON public.shipping_zones
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Managers can manage shipping methods" ON public.shipping_methods;
+CREATE POLICY "Managers can manage shipping methods" ON public.shipping_methods
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP POLICY IF EXISTS "Managers can manage shipping rates" ON public.shipping_rates;
+CREATE POLICY "Managers can manage shipping rates" ON public.shipping_rates
+  FOR ALL USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+  );
+
+DROP TRIGGER IF EXISTS update_shipping_zones_updated_at ON public.shipping_zones;
+CREATE TRIGGER update_shipping_zones_updated_at
+  BEFORE UPDATE ON public.shipping_zones
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_shipping_methods_updated_at ON public.shipping_methods;
+CREATE TRIGGER update_shipping_methods_updated_at
+  BEFORE UPDATE ON public.shipping_methods
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_shipping_rates_updated_at ON public.shipping_rates;
+CREATE TRIGGER update_shipping_rates_updated_at
+  BEFORE UPDATE ON public.shipping_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Start from the rules checkout used before: R50 standard delivery anywhere,
+-- free from R500, plus express and collection at the shop
+INSERT INTO public.shipping_methods (code, name, description, method_type, min_days, max_days, sort_order)
+VALUES
+  ('standard', 'Standard delivery', 'Door-to-door courier', 'standard', 3, 5, 1),
+  ('express', 'Express delivery', 'Next-day courier to main centres', 'express', 1, 2, 2),
+  ('collect', 'Collect in store', 'Collect from the shop once we let you know it is ready', 'collect', 0, 1, 3)
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO public.shipping_zones (name, free_shipping_threshold, priority)
+SELECT 'South Africa', 500, 100
+WHERE NOT EXISTS (SELECT 1 FROM public.shipping_zones);
+
+INSERT INTO public.shipping_rates (zone_id, method_id, price)
+SELECT z.id, m.id, CASE m.code WHEN 'express' THEN 120 ELSE 50 END
+FROM public.shipping_zones z
+CROSS JOIN public.shipping_methods m
+WHERE z.name = 'South Africa'
+  AND m.code IN ('standard', 'express')
+  AND NOT EXISTS (SELECT 1 FROM public.shipping_rates);
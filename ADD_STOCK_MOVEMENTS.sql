@@ -0,0 +1,251 @@
+-- Append-only stock movements ledger that every stock change goes through
+-- Run after ADD_PRODUCT_REVIEWS.sql
+
+CREATE TABLE IF NOT EXISTS public.stock_movements (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('opening_balance', 'sale', 'pos_sale', 'refund_return', 'adjustment', 'receiving', 'stock_take', 'damage')),
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+  quantity_after INTEGER NOT NULL,
+  reason TEXT,
+  reference_type VARCHAR(30),
+  reference_id UUID,
+  created_by UUID REFERENCES public.user_profiles(id),
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON public.stock_movements(product_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_stock_movements_variant ON public.stock_movements(variant_id, created_at) WHERE variant_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON public.stock_movements(reference_type, reference_id);
+
+ALTER TABLE public.stock_movements ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view stock movements" ON public.stock_movements;
+CREATE POLICY "Staff can view stock movements" ON public.stock_movements
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+-- Open the ledger with today's stock so it reconciles from the start
+INSERT INTO public.stock_movements (product_id, movement_type, quantity_change, quantity_after, reason)
+SELECT p.id, 'opening_balance', p.stock_quantity, p.stock_quantity, 'Stock when the ledger was introduced'
+FROM public.products p
+WHERE COALESCE(p.has_variants, false) = false
+  AND COALESCE(p.stock_quantity, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.stock_movements sm WHERE sm.product_id = p.id AND sm.variant_id IS NULL);
+
+INSERT INTO public.stock_movements (product_id, variant_id, movement_type, quantity_change, quantity_after, reason)
+SELECT v.product_id, v.id, 'opening_balance', v.stock_quantity, v.stock_quantity, 'Stock when the ledger was introduced'
+FROM public.product_variants v
+WHERE COALESCE(v.stock_quantity, 0) <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.stock_movements sm WHERE sm.variant_id = v.id);
+
+-- Move stock and record the movement; NULL when a decrease would go below zero
+CREATE OR REPLACE FUNCTION public.record_stock_movement(
+  product_id UUID,
+  quantity_change INTEGER,
+  movement_type VARCHAR,
+  variant_id UUID DEFAULT NULL,
+  reason TEXT DEFAULT NULL,
+  reference_type VARCHAR DEFAULT NULL,
+  reference_id UUID DEFAULT NULL,
+  created_by UUID DEFAULT NULL,
+  allow_negative BOOLEAN DEFAULT FALSE
+) RETURNS public.stock_movements AS $$
+DECLARE
+  new_quantity INTEGER;
+  result public.stock_movements;
+BEGIN
+  IF record_stock_movement.variant_id IS NOT NULL THEN
+    UPDATE public.product_variants v
+    SET stock_quantity = COALESCE(v.stock_quantity, 0) + record_stock_movement.quantity_change,
+        updated_at = NOW()
+    WHERE v.id = record_stock_movement.variant_id
+      AND v.product_id = record_stock_movement.product_id
+      AND (record_stock_movement.allow_negative
+           OR COALESCE(v.stock_quantity, 0) + record_stock_movement.quantity_change >= 0)
+    RETURNING v.stock_quantity INTO new_quantity;
+  ELSE
+    UPDATE public.products p
+    SET stock_quantity = COALESCE(p.stock_quantity, 0) + record_stock_movement.quantity_change,
+        updated_at = NOW()
+    WHERE p.id = record_stock_movement.product_id
+      AND (record_stock_movement.allow_negative
+           OR COALESCE(p.stock_quantity, 0) + record_stock_movement.quantity_change >= 0)
+    RETURNING p.stock_quantity INTO new_quantity;
+  END IF;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.stock_movements (
+    product_id, variant_id, movement_type, quantity_change, quantity_after,
+    reason, reference_type, reference_id, created_by
+  ) VALUES (
+    record_stock_movement.product_id,
+    record_stock_movement.variant_id,
+    record_stock_movement.movement_type,
+    record_stock_movement.quantity_change,
+    new_quantity,
+    record_stock_movement.reason,
+    record_stock_movement.reference_type,
+    record_stock_movement.reference_id,
+    record_stock_movement.created_by
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Movements are never edited
+CREATE OR REPLACE FUNCTION public.prevent_stock_movement_update() RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'Stock movements cannot be changed; record a correcting movement instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS stock_movements_append_only ON public.stock_movements;
+CREATE TRIGGER stock_movements_append_only
+  BEFORE UPDATE ON public.stock_movements
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_stock_movement_update();
+
+-- New products and variants open the ledger with their starting stock
+CREATE OR REPLACE FUNCTION public.record_opening_stock() RETURNS TRIGGER AS $$
+BEGIN
+  IF COALESCE(NEW.stock_quantity, 0) = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_TABLE_NAME = 'product_variants' THEN
+    INSERT INTO public.stock_movements (product_id, variant_id, movement_type, quantity_change, quantity_after, reason)
+    VALUES (NEW.product_id, NEW.id, 'opening_balance', NEW.stock_quantity, NEW.stock_quantity, 'Stock when created');
+  ELSE
+    INSERT INTO public.stock_movements (product_id, movement_type, quantity_change, quantity_after, reason)
+    VALUES (NEW.id, 'opening_balance', NEW.stock_quantity, NEW.stock_quantity, 'Stock when created');
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS products_opening_stock ON public.products;
+CREATE TRIGGER products_opening_stock
+  AFTER INSERT ON public.products
+  FOR EACH ROW EXECUTE FUNCTION public.record_opening_stock();
+
+DROP TRIGGER IF EXISTS product_variants_opening_stock ON public.product_variants;
+CREATE TRIGGER product_variants_opening_stock
+  AFTER INSERT ON public.product_variants
+  FOR EACH ROW EXECUTE FUNCTION public.record_opening_stock();
+
+-- Sales now go through the ledger. The order is paid and the goods sold, so
+-- a line may take stock below zero; FALSE when a line's product or variant
+-- no longer exists.
+CREATE OR REPLACE FUNCTION public.update_stock_levels(
+  order_id UUID
+) RETURNS BOOLEAN AS $$
+DECLARE
+  item_record RECORD;
+  sale_type VARCHAR;
+  success BOOLEAN := true;
+BEGIN
+  SELECT CASE WHEN o.channel::TEXT = 'pos' THEN 'pos_sale' ELSE 'sale' END INTO sale_type
+  FROM public.orders o
+  WHERE o.id = update_stock_levels.order_id;
+
+  FOR item_record IN
+    SELECT product_id, variant_id, quantity
+    FROM public.order_items
+    WHERE order_id = update_stock_levels.order_id
+      AND product_id IS NOT NULL
+  LOOP
+    IF public.record_stock_movement(
+      item_record.product_id,
+      -item_record.quantity,
+      COALESCE(sale_type, 'sale'),
+      item_record.variant_id,
+      NULL,
+      'order',
+      update_stock_levels.order_id,
+      NULL,
+      TRUE
+    ) IS NULL THEN
+      success := false;
+    END IF;
+  END LOOP;
+
+  RETURN success;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Refund returns go through the ledger, linked to their refund
+DROP FUNCTION IF EXISTS public.restock_product(UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.restock_product(UUID, INTEGER, UUID);
+CREATE OR REPLACE FUNCTION public.restock_product(
+  product_id UUID,
+  quantity INTEGER,
+  variant_id UUID DEFAULT NULL,
+  refund_id UUID DEFAULT NULL,
+  created_by UUID DEFAULT NULL
+) RETURNS INTEGER AS $$
+DECLARE
+  movement public.stock_movements;
+BEGIN
+  movement := public.record_stock_movement(
+    restock_product.product_id,
+    restock_product.quantity,
+    'refund_return',
+    restock_product.variant_id,
+    NULL,
+    'refund',
+    restock_product.refund_id,
+    restock_product.created_by,
+    true
+  );
+
+  RETURN movement.quantity_after;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Stock against ledger for every stock-holding product and variant
+CREATE OR REPLACE FUNCTION public.stock_reconciliation()
+RETURNS TABLE (
+  product_id UUID,
+  variant_id UUID,
+  name TEXT,
+  sku TEXT,
+  stock_quantity INTEGER,
+  ledger_quantity INTEGER,
+  difference INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT p.id, NULL::UUID, p.name::TEXT, p.sku::TEXT,
+         COALESCE(p.stock_quantity, 0),
+         COALESCE(m.total, 0)::INTEGER,
+         (COALESCE(p.stock_quantity, 0) - COALESCE(m.total, 0))::INTEGER
+  FROM public.products p
+  LEFT JOIN (
+    SELECT sm.product_id, SUM(sm.quantity_change) AS total
+    FROM public.stock_movements sm
+    WHERE sm.variant_id IS NULL
+    GROUP BY sm.product_id
+  ) m ON m.product_id = p.id
+  WHERE COALESCE(p.has_variants, false) = false
+  UNION ALL
+  SELECT v.product_id, v.id, (p.name || ' (' || v.name || ')')::TEXT, v.sku::TEXT,
+         COALESCE(v.stock_quantity, 0),
+         COALESCE(m.total, 0)::INTEGER,
+         (COALESCE(v.stock_quantity, 0) - COALESCE(m.total, 0))::INTEGER
+  FROM public.product_variants v
+  JOIN public.products p ON p.id = v.product_id
+  LEFT JOIN (
+    SELECT sm.variant_id, SUM(sm.quantity_change) AS total
+    FROM public.stock_movements sm
+    WHERE sm.variant_id IS NOT NULL
+    GROUP BY sm.variant_id
+  ) m ON m.variant_id = v.id;
+END;
+$$ LANGUAGE plpgsql;
@@ -0,0 +1,57 @@
+-- Stock-take (cycle count) sessions counted by staff and approved by a manager
+-- Run after ADD_PURCHASE_ORDERS.sql
+
+CREATE TABLE IF NOT EXISTS public.stock_takes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference VARCHAR(30) UNIQUE NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  category_id UUID REFERENCES public.categories(id) ON DELETE SET NULL,
+  location VARCHAR(100),
+  status VARCHAR(20) NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'approved', 'cancelled')),
+  notes TEXT,
+  created_by UUID REFERENCES public.user_profiles(id),
+  submitted_by UUID REFERENCES public.user_profiles(id),
+  submitted_at TIMESTAMP,
+  approved_by UUID REFERENCES public.user_profiles(id),
+  approved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- expected_quantity is the system stock when the count reached the server;
+-- approval posts counted - expected, so sales made since the count still stand
+CREATE TABLE IF NOT EXISTS public.stock_take_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stock_take_id UUID NOT NULL REFERENCES public.stock_takes(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE CASCADE,
+  expected_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER NOT NULL CHECK (counted_quantity >= 0),
+  counted_by UUID REFERENCES public.user_profiles(id),
+  counted_at TIMESTAMP DEFAULT NOW(),
+  movement_id UUID REFERENCES public.stock_movements(id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_takes_status ON public.stock_takes(status, created_at);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_take_items_line
+  ON public.stock_take_items(stock_take_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid));
+
+ALTER TABLE public.stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_take_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Staff can view stock takes" ON public.stock_takes;
+CREATE POLICY "Staff can view stock takes" ON public.stock_takes
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+DROP POLICY IF EXISTS "Staff can view stock take items" ON public.stock_take_items;
+CREATE POLICY "Staff can view stock take items" ON public.stock_take_items
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+  );
+
+DROP TRIGGER IF EXISTS update_stock_takes_updated_at ON public.stock_takes;
+CREATE TRIGGER update_stock_takes_updated_at
+  BEFORE UPDATE ON public.stock_takes
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,34 @@
+-- Columns the Stripe webhook uses to move orders through payment states
+ALTER TABLE IF EXISTS public.orders
+  ADD COLUMN IF NOT EXISTS payment_intent_id VARCHAR(100),
+  ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(10,2) DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stock_decremented_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS confirmation_email_sent_at TIMESTAMP;
+
+-- Card payments that arrive short, or that can no longer be settled as priced, wait for staff
+ALTER TYPE public.payment_status ADD VALUE IF NOT EXISTS 'review';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_payment_intent
+  ON public.orders(payment_intent_id)
+  WHERE payment_intent_id IS NOT NULL;
+
+-- Orders paid before this migration already had stock taken at checkout
+UPDATE public.orders
+SET stock_decremented_at = COALESCE(processed_at, created_at)
+WHERE payment_status = 'paid'
+  AND stock_decremented_at IS NULL;
+
+-- Stripe event ids already applied, so retried deliveries are acknowledged without re-running
+CREATE TABLE IF NOT EXISTS public.stripe_webhook_events (
+  id VARCHAR(100) PRIMARY KEY,
+  type VARCHAR(100) NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  processed_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_order
+  ON public.stripe_webhook_events(order_id);
+
+-- Only the service role (the webhook) touches this table
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
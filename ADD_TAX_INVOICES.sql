@@ -0,0 +1,105 @@
+-- Tax invoices with gapless numbers, and the private bucket their PDFs are kept in
+-- Run after ADD_POS_OVERRIDES.sql
+
+CREATE TABLE IF NOT EXISTS public.invoice_sequence (
+  id INTEGER PRIMARY KEY CHECK (id = 1),
+  last_number BIGINT NOT NULL DEFAULT 0
+);
+
+INSERT INTO public.invoice_sequence (id, last_number) VALUES (1, 0) ON CONFLICT (id) DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS public.tax_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_number VARCHAR(20) UNIQUE NOT NULL,
+  sequence_number BIGINT UNIQUE NOT NULL,
+  order_id UUID UNIQUE NOT NULL REFERENCES public.orders(id),
+  order_number VARCHAR(100) NOT NULL,
+  issued_at TIMESTAMP DEFAULT NOW(),
+  seller JSONB NOT NULL,
+  buyer JSONB NOT NULL,
+  lines JSONB NOT NULL,
+  discount_amount DECIMAL(10,2) DEFAULT 0,
+  total_excl_vat DECIMAL(10,2) NOT NULL,
+  vat_amount DECIMAL(10,2) NOT NULL,
+  total_incl_vat DECIMAL(10,2) NOT NULL,
+  pdf_path TEXT,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- No policies on the sequence: only the server moves it
+ALTER TABLE public.invoice_sequence ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tax_invoices ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Customers can view own tax invoices" ON public.tax_invoices;
+CREATE POLICY "Customers can view own tax invoices" ON public.tax_invoices
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.orders WHERE orders.id = tax_invoices.order_id AND orders.customer_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS "Staff can view tax invoices" ON public.tax_invoices;
+CREATE POLICY "Staff can view tax invoices" ON public.tax_invoices
+  FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+  );
+
+DROP TRIGGER IF EXISTS update_tax_invoices_updated_at ON public.tax_invoices;
+CREATE TRIGGER update_tax_invoices_updated_at
+  BEFORE UPDATE ON public.tax_invoices
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Issue an order's tax invoice with the next number. The counter row is locked
+-- and moved in the same transaction as the insert, so a failure leaves no gap.
+-- Returns the existing invoice if the order already has one.
+CREATE OR REPLACE FUNCTION public.issue_tax_invoice(
+  order_id UUID,
+  invoice JSONB
+) RETURNS public.tax_invoices AS $$
+DECLARE
+  next_number BIGINT;
+  result public.tax_invoices;
+BEGIN
+  SELECT * INTO result FROM public.tax_invoices t WHERE t.order_id = issue_tax_invoice.order_id;
+  IF FOUND THEN
+    RETURN result;
+  END IF;
+
+  UPDATE public.invoice_sequence
+  SET last_number = last_number + 1
+  WHERE id = 1
+  RETURNING last_number INTO next_number;
+
+  IF next_number IS NULL THEN
+    RAISE EXCEPTION 'Invoice sequence is not set up';
+  END IF;
+
+  INSERT INTO public.tax_invoices (
+    invoice_number, sequence_number, order_id, order_number, seller, buyer, lines,
+    discount_amount, total_excl_vat, vat_amount, total_incl_vat
+  ) VALUES (
+    'INV-' || LPAD(next_number::TEXT, 6, '0'),
+    next_number,
+    issue_tax_invoice.order_id,
+    issue_tax_invoice.invoice->>'order_number',
+    issue_tax_invoice.invoice->'seller',
+    issue_tax_invoice.invoice->'buyer',
+    issue_tax_invoice.invoice->'lines',
+    (issue_tax_invoice.invoice->>'discount_amount')::DECIMAL,
+    (issue_tax_invoice.invoice->>'total_excl_vat')::DECIMAL,
+    (issue_tax_invoice.invoice->>'vat_amount')::DECIMAL,
+    (issue_tax_invoice.invoice->>'total_incl_vat')::DECIMAL
+  )
+  RETURNING * INTO result;
+
+  RETURN result;
+EXCEPTION WHEN unique_violation THEN
+  -- Issued by a concurrent request; its number stands and ours is rolled back
+  SELECT * INTO result FROM public.tax_invoices t WHERE t.order_id = issue_tax_invoice.order_id;
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Invoice PDFs are private; the server reads and writes them with the service role
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('invoices', 'invoices', false, 1048576, ARRAY['application/pdf'])
+ON CONFLICT (id) DO NOTHING;
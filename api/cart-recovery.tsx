@@ -0,0 +1,469 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { isOptedOut, sendEmail } from './emails.tsx';
+
+// Abandoned cart recovery.
+//
+// Signed-in customers' carts are saved to `carts` as they change, with the
+// time of the last change. A scheduled job (the Vercel cron in vercel.json,
+// or "Run now" in admin) finds carts left idle past the configured number of
+// hours and emails a reminder with a link that puts the cart back, and
+// optionally a single-use discount code created as a promotion. Customers
+// who have ordered since filling the cart, or who opted out of cart
+// reminders, are skipped. Each reminder is a row in `cart_recoveries`; a paid
+// order the customer places within the attribution window after it counts
+// as recovered, which is what the admin report adds up. Settings are kept in
+// `store_settings` under CART_RECOVERY_SETTINGS_KEY.
+
+export interface CartRecoverySettings {
+  enabled: boolean;
+  idle_hours: number; // Untouched this long before a reminder goes out
+  max_idle_days: number; // Carts idle longer than this are left alone
+  discount_percent: number; // 0 sends no code
+  discount_valid_days: number;
+  attribution_days: number; // Orders this soon after a reminder count as recovered
+}
+
+export interface SavedCart {
+  items: any[];
+  item_count: number;
+  subtotal: number;
+  last_activity_at: string | null;
+}
+
+export interface AbandonedCartRun {
+  enabled: boolean;
+  idle_carts: number;
+  reminded: number;
+  already_ordered: number;
+  opted_out: number;
+  failed: number;
+  recovered: number;
+}
+
+export interface CartRecoveryReport {
+  days: number;
+  waiting: number; // Idle carts not yet reminded
+  reminders: number;
+  restored: number;
+  recovered: number;
+  abandoned_value: number;
+  recovered_revenue: number;
+  recovery_rate: number;
+  recent: any[];
+}
+
+export class CartRecoveryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CartRecoveryError';
+  }
+}
+
+export const CART_RECOVERY_SETTINGS_KEY = 'cart_recovery';
+
+export const DEFAULT_CART_RECOVERY_SETTINGS: CartRecoverySettings = {
+  enabled: true,
+  idle_hours: 24,
+  max_idle_days: 7,
+  discount_percent: 0,
+  discount_valid_days: 7,
+  attribution_days: 7,
+};
+
+const MAX_CART_LINES = 100;
+// Each reminder is an email round trip; this keeps a run inside the function time limit
+const REMINDERS_PER_RUN = 50;
+const COUNTED_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+function cleanItems(items: unknown): any[] {
+  if (!Array.isArray(items)) {
+    throw new CartRecoveryError('Cart items must be a list');
+  }
+  if (items.length > MAX_CART_LINES) {
+    throw new CartRecoveryError(`A cart can hold up to ${MAX_CART_LINES} lines`);
+  }
+  return items.filter(item => item && typeof item === 'object' && item.product_id && Number(item.quantity) > 0);
+}
+
+const summariseCart = (row: any): SavedCart => ({
+  items: row?.items || [],
+  item_count: Number(row?.item_count || 0),
+  subtotal: Number(row?.subtotal || 0),
+  last_activity_at: row?.last_activity_at || null,
+});
+
+export async function getSavedCart(supabase: any, userId: string): Promise<SavedCart> {
+  const { data, error } = await supabase
+    .from('carts')
+    .select('items, item_count, subtotal, last_activity_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw new CartRecoveryError(`Failed to load cart: ${error.message}`, 500);
+  }
+  return summariseCart(data);
+}
+
+/**
+ * Save the customer's cart as it is now. Any change starts a new idle spell,
+ * so a reminded cart that is touched again can be reminded again later.
+ */
+export async function saveCart(supabase: any, userId: string, items: unknown): Promise<SavedCart> {
+  const lines = cleanItems(items);
+  const { data: existing, error: loadError } = await supabase
+    .from('carts')
+    .select('item_count, started_at')
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (loadError) {
+    throw new CartRecoveryError(`Failed to load cart: ${loadError.message}`, 500);
+  }
+
+  const now = new Date().toISOString();
+  const itemCount = lines.reduce((sum, item) => sum + Number(item.quantity), 0);
+  const { data, error } = await supabase
+    .from('carts')
+    .upsert({
+      user_id: userId,
+      items: lines,
+      item_count: itemCount,
+      subtotal: roundCurrency(lines.reduce((sum, item) => sum + Number(item.price || 0) * Number(item.quantity), 0)),
+      started_at: itemCount === 0 ? null : existing?.item_count > 0 && existing.started_at ? existing.started_at : now,
+      last_activity_at: now,
+      reminded_at: null,
+      updated_at: now,
+    }, { onConflict: 'user_id' })
+    .select('items, item_count, subtotal, last_activity_at')
+    .single();
+  if (error) {
+    throw new CartRecoveryError(`Failed to save cart: ${error.message}`, 500);
+  }
+  return summariseCart(data);
+}
+
+export async function getCartRecoverySettings(supabase: any): Promise<CartRecoverySettings> {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', CART_RECOVERY_SETTINGS_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw new CartRecoveryError(`Failed to load cart recovery settings: ${error.message}`, 500);
+  }
+  return { ...DEFAULT_CART_RECOVERY_SETTINGS, ...(data?.value || {}) };
+}
+
+export async function saveCartRecoverySettings(
+  supabase: any,
+  userId: string,
+  input: Partial<CartRecoverySettings>
+): Promise<CartRecoverySettings> {
+  const merged = { ...(await getCartRecoverySettings(supabase)), ...input };
+  const whole = (value: any, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(Number(value) || 0)));
+
+  const settings: CartRecoverySettings = {
+    enabled: merged.enabled !== false,
+    idle_hours: whole(merged.idle_hours, 1, 168),
+    max_idle_days: whole(merged.max_idle_days, 1, 60),
+    discount_percent: whole(merged.discount_percent, 0, 50),
+    discount_valid_days: whole(merged.discount_valid_days, 1, 60),
+    attribution_days: whole(merged.attribution_days, 1, 60),
+  };
+  if (settings.max_idle_days * 24 <= settings.idle_hours) {
+    throw new CartRecoveryError('Carts must be left alone for longer than the wait before a reminder');
+  }
+
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({ key: CART_RECOVERY_SETTINGS_KEY, value: settings, updated_by: userId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new CartRecoveryError(`Failed to save cart recovery settings: ${error.message}`, 500);
+  }
+  return settings;
+}
+
+/**
+ * Vercel Cron calls the job with `Authorization: Bearer $CRON_SECRET`
+ */
+export function checkCronSecret(authorization: string | undefined): void {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) {
+    throw new CartRecoveryError('Scheduled jobs are not configured', 503);
+  }
+  const provided = Buffer.from(String(authorization || '').replace(/^Bearer\s+/i, ''));
+  if (provided.length !== Buffer.byteLength(secret) || !timingSafeEqual(provided, Buffer.from(secret))) {
+    throw new CartRecoveryError('Invalid cron secret', 401);
+  }
+}
+
+// The promotion behind a reminder's discount code: all products, one use
+async function createDiscountCode(supabase: any, settings: CartRecoverySettings, now: Date) {
+  const code = `COMEBACK-${randomBytes(4).toString('hex').toUpperCase()}`;
+  const expiresAt = new Date(now.getTime() + settings.discount_valid_days * DAY_MS).toISOString();
+  const { data, error } = await supabase
+    .from('promotions')
+    .insert({
+      name: `Cart reminder ${code}`,
+      description: 'Single-use code sent with an abandoned cart reminder',
+      code,
+      type: 'percentage',
+      value: settings.discount_percent,
+      minimum_order_amount: 0,
+      start_date: now.toISOString(),
+      end_date: expiresAt,
+      is_active: true,
+      usage_limit: 1,
+      usage_limit_per_customer: 1,
+      applies_to: 'all',
+      conditions: {},
+    })
+    .select('id')
+    .single();
+  if (error) {
+    throw new CartRecoveryError(`Failed to create discount code: ${error.message}`, 500);
+  }
+  return { id: data.id, code, expires_at: expiresAt };
+}
+
+async function hasOrderedSince(supabase: any, userId: string, since: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('orders')
+    .select('id')
+    .eq('customer_id', userId)
+    .gte('created_at', since)
+    .neq('status', 'cancelled')
+    .limit(1);
+  if (error) {
+    throw new CartRecoveryError(`Failed to check orders: ${error.message}`, 500);
+  }
+  return (data || []).length > 0;
+}
+
+/**
+ * Credit reminders with the first paid order their customer placed within
+ * the attribution window. Returns how many were newly recovered.
+ */
+async function settleRecoveries(supabase: any, settings: CartRecoverySettings, now: Date): Promise<number> {
+  const windowMs = settings.attribution_days * DAY_MS;
+  const { data: open, error } = await supabase
+    .from('cart_recoveries')
+    .select('id, user_id, sent_at')
+    .is('order_id', null)
+    .eq('emailed', true)
+    .gte('sent_at', new Date(now.getTime() - windowMs).toISOString())
+    .order('sent_at');
+  if (error) {
+    throw new CartRecoveryError(`Failed to load cart reminders: ${error.message}`, 500);
+  }
+  if (!open || open.length === 0) return 0;
+
+  const { data: orders, error: ordersError } = await supabase
+    .from('orders')
+    .select('id, customer_id, created_at, total')
+    .in('customer_id', Array.from(new Set(open.map((row: any) => row.user_id))))
+    .gte('created_at', open[0].sent_at)
+    .in('payment_status', COUNTED_PAYMENT_STATUSES)
+    .order('created_at');
+  if (ordersError) {
+    throw new CartRecoveryError(`Failed to load orders: ${ordersError.message}`, 500);
+  }
+
+  const credited = new Set<string>();
+  let recovered = 0;
+  for (const recovery of open) {
+    const sentAt = new Date(recovery.sent_at).getTime();
+    const order = (orders || []).find((candidate: any) =>
+      candidate.customer_id === recovery.user_id &&
+      !credited.has(candidate.id) &&
+      new Date(candidate.created_at).getTime() >= sentAt &&
+      new Date(candidate.created_at).getTime() <= sentAt + windowMs
+    );
+    if (!order) continue;
+
+    credited.add(order.id);
+    const { error: updateError } = await supabase
+      .from('cart_recoveries')
+      .update({ order_id: order.id, order_total: Number(order.total || 0), recovered_at: order.created_at })
+      .eq('id', recovery.id)
+      .is('order_id', null);
+    if (updateError) {
+      console.error(`❌ Failed to credit cart reminder ${recovery.id}:`, updateError);
+      continue;
+    }
+    recovered++;
+  }
+  return recovered;
+}
+
+/**
+ * Find carts left idle and email their owners a reminder
+ */
+export async function runAbandonedCartJob(supabase: any, now: Date = new Date()): Promise<AbandonedCartRun> {
+  const settings = await getCartRecoverySettings(supabase);
+  const run: AbandonedCartRun = {
+    enabled: settings.enabled,
+    idle_carts: 0,
+    reminded: 0,
+    already_ordered: 0,
+    opted_out: 0,
+    failed: 0,
+    recovered: await settleRecoveries(supabase, settings, now),
+  };
+  if (!settings.enabled) return run;
+
+  const { data: carts, error } = await supabase
+    .from('carts')
+    .select('id, user_id, items, subtotal, started_at, last_activity_at, user:user_profiles(email, first_name, last_name)')
+    .gt('item_count', 0)
+    .is('reminded_at', null)
+    .lte('last_activity_at', new Date(now.getTime() - settings.idle_hours * HOUR_MS).toISOString())
+    .gte('last_activity_at', new Date(now.getTime() - settings.max_idle_days * DAY_MS).toISOString())
+    .order('last_activity_at')
+    .limit(REMINDERS_PER_RUN);
+  if (error) {
+    throw new CartRecoveryError(`Failed to load idle carts: ${error.message}`, 500);
+  }
+  run.idle_carts = (carts || []).length;
+
+  const frontendUrl = process.env.FRONTEND_URL || 'http://localhost:5173';
+  for (const cart of carts || []) {
+    // Marked first, so a run that dies part-way never reminds a cart twice
+    await supabase.from('carts').update({ reminded_at: now.toISOString() }).eq('id', cart.id);
+
+    try {
+      const email = cart.user?.email;
+      if (!email || await isOptedOut(supabase, email, 'cart_reminders')) {
+        run.opted_out++;
+        continue;
+      }
+      if (await hasOrderedSince(supabase, cart.user_id, cart.started_at || cart.last_activity_at)) {
+        run.already_ordered++;
+        continue;
+      }
+
+      const token = randomBytes(24).toString('base64url');
+      const discount = settings.discount_percent > 0 ? await createDiscountCode(supabase, settings, now) : null;
+      const { data: recovery, error: recoveryError } = await supabase
+        .from('cart_recoveries')
+        .insert({
+          cart_id: cart.id,
+          user_id: cart.user_id,
+          token_hash: hashToken(token),
+          items: cart.items,
+          cart_value: Number(cart.subtotal || 0),
+          promotion_id: discount?.id || null,
+          discount_code: discount?.code || null,
+          sent_at: now.toISOString(),
+        })
+        .select('id')
+        .single();
+      if (recoveryError) {
+        throw new CartRecoveryError(`Failed to record cart reminder: ${recoveryError.message}`, 500);
+      }
+
+      const sent = await sendEmail(supabase, {
+        type: 'abandoned_cart',
+        to: email,
+        userId: cart.user_id,
+        data: {
+          customer_name: [cart.user.first_name, cart.user.last_name].filter(Boolean).join(' ') || undefined,
+          items: (cart.items || []).map((item: any) => ({
+            name: String(item.name || 'Item'),
+            quantity: Number(item.quantity),
+            price: Number(item.price || 0),
+          })),
+          total: Number(cart.subtotal || 0),
+          cart_url: `${frontendUrl}/cart/restore?token=${token}`,
+          discount_code: discount?.code || null,
+          discount_percent: settings.discount_percent,
+          discount_expires_at: discount?.expires_at || null,
+        },
+        dedupeKey: `abandoned_cart:${recovery.id}`,
+      });
+      if (sent) {
+        await supabase.from('cart_recoveries').update({ emailed: true }).eq('id', recovery.id);
+        run.reminded++;
+      } else {
+        run.failed++;
+      }
+    } catch (runError) {
+      console.error(`❌ Failed to remind cart ${cart.id}:`, runError);
+      run.failed++;
+    }
+  }
+
+  console.log(`🛒 Abandoned carts: ${run.reminded} reminded, ${run.already_ordered} already ordered, ${run.opted_out} opted out, ${run.failed} failed, ${run.recovered} recovered`);
+  return run;
+}
+
+/**
+ * The cart from a reminder link, with its discount code. The link keeps
+ * working; the code itself can only be used once.
+ */
+export async function restoreCart(supabase: any, token: string): Promise<{ items: any[]; discount_code: string | null }> {
+  if (!token) {
+    throw new CartRecoveryError('This cart link is not valid', 404);
+  }
+  const { data: recovery, error } = await supabase
+    .from('cart_recoveries')
+    .select('id, items, discount_code, restored_at')
+    .eq('token_hash', hashToken(token))
+    .maybeSingle();
+  if (error) {
+    throw new CartRecoveryError(`Failed to load cart: ${error.message}`, 500);
+  }
+  if (!recovery) {
+    throw new CartRecoveryError('This cart link is not valid', 404);
+  }
+
+  if (!recovery.restored_at) {
+    await supabase.from('cart_recoveries').update({ restored_at: new Date().toISOString() }).eq('id', recovery.id);
+  }
+  return { items: recovery.items || [], discount_code: recovery.discount_code };
+}
+
+export async function getCartRecoveryReport(supabase: any, days: number, now: Date = new Date()): Promise<CartRecoveryReport> {
+  const period = Math.min(365, Math.max(1, Math.floor(Number(days) || 30)));
+  const settings = await getCartRecoverySettings(supabase);
+  await settleRecoveries(supabase, settings, now);
+
+  const [{ data: rows, error }, { count: waiting, error: waitingError }] = await Promise.all([
+    supabase
+      .from('cart_recoveries')
+      .select('id, cart_value, discount_code, emailed, sent_at, restored_at, order_total, recovered_at, user:user_profiles(email, first_name, last_name), order:orders(order_number)')
+      .gte('sent_at', new Date(now.getTime() - period * DAY_MS).toISOString())
+      .order('sent_at', { ascending: false }),
+    supabase
+      .from('carts')
+      .select('id', { count: 'exact', head: true })
+      .gt('item_count', 0)
+      .is('reminded_at', null)
+      .lte('last_activity_at', new Date(now.getTime() - settings.idle_hours * HOUR_MS).toISOString())
+      .gte('last_activity_at', new Date(now.getTime() - settings.max_idle_days * DAY_MS).toISOString()),
+  ]);
+  if (error || waitingError) {
+    throw new CartRecoveryError(`Failed to load cart recovery report: ${(error || waitingError).message}`, 500);
+  }
+
+  const sent = (rows || []).filter((row: any) => row.emailed);
+  const recovered = sent.filter((row: any) => row.recovered_at);
+  return {
+    days: period,
+    waiting: waiting || 0,
+    reminders: sent.length,
+    restored: sent.filter((row: any) => row.restored_at).length,
+    recovered: recovered.length,
+    abandoned_value: roundCurrency(sent.reduce((sum: number, row: any) => sum + Number(row.cart_value || 0), 0)),
+    recovered_revenue: roundCurrency(recovered.reduce((sum: number, row: any) => sum + Number(row.order_total || 0), 0)),
+    recovery_rate: sent.length > 0 ? Math.round((recovered.length / sent.length) * 1000) / 10 : 0,
+    recent: sent.slice(0, 100),
+  };
+}
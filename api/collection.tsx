@@ -0,0 +1,411 @@
+import { randomInt } from 'crypto';
+import { notifyOrderStatus, sendOrderEmail } from './emails.tsx';
+
+// Click-and-collect.
+//
+// Customers who pick the collect-in-store method book a pickup slot at
+// checkout. Slots come from the shop's collection hours, kept in
+// `store_settings` under COLLECTION_SETTINGS_KEY, and each holds a limited
+// number of orders. When the order is packed, staff mark it ready; the
+// customer is emailed a one-time collection code, and at the counter staff
+// scan or type the code or the order number to hand the order over.
+
+export interface CollectionHours {
+  open: string; // "08:00", shop time
+  close: string;
+}
+
+export interface CollectionSettings {
+  slot_minutes: number;
+  capacity_per_slot: number;
+  lead_time_hours: number; // Earliest slot is this long after ordering
+  days_ahead: number;
+  hours: Record<string, CollectionHours | null>; // "0" Sunday to "6" Saturday
+  instructions: string;
+}
+
+export interface PickupSlot {
+  start: string;
+  end: string;
+  remaining: number;
+}
+
+export interface CollectionOrder {
+  order_id: string;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  pickup_slot_start: string | null;
+  pickup_slot_end: string | null;
+  ready_for_collection_at: string | null;
+  collected_at: string | null;
+  items: { name: string; quantity: number }[];
+  matched_by: 'code' | 'order_number';
+}
+
+export class CollectionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'CollectionError';
+  }
+}
+
+export const COLLECTION_SETTINGS_KEY = 'collection';
+
+export const DEFAULT_COLLECTION_SETTINGS: CollectionSettings = {
+  slot_minutes: 60,
+  capacity_per_slot: 10,
+  lead_time_hours: 2,
+  days_ahead: 7,
+  hours: {
+    '0': null,
+    '1': { open: '08:00', close: '17:00' },
+    '2': { open: '08:00', close: '17:00' },
+    '3': { open: '08:00', close: '17:00' },
+    '4': { open: '08:00', close: '17:00' },
+    '5': { open: '08:00', close: '17:00' },
+    '6': { open: '08:00', close: '13:00' },
+  },
+  instructions: 'Bring your collection code or order number to the counter.',
+};
+
+// The shop keeps South African time, which has no daylight saving
+const SHOP_UTC_OFFSET_HOURS = 2;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+const minutesOf = (time: string) => {
+  const [, hours, minutes] = time.match(TIME_PATTERN)!;
+  return Number(hours) * 60 + Number(minutes);
+};
+
+export async function getCollectionSettings(supabase: any): Promise<CollectionSettings> {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', COLLECTION_SETTINGS_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw new CollectionError(`Failed to load collection settings: ${error.message}`, 500);
+  }
+  return { ...DEFAULT_COLLECTION_SETTINGS, ...(data?.value || {}) };
+}
+
+export async function saveCollectionSettings(supabase: any, userId: string, input: Partial<CollectionSettings>): Promise<CollectionSettings> {
+  const merged = { ...(await getCollectionSettings(supabase)), ...input };
+  const whole = (value: any, min: number, max: number) => Math.min(max, Math.max(min, Math.floor(Number(value) || 0)));
+
+  const hours: Record<string, CollectionHours | null> = {};
+  for (let day = 0; day < 7; day++) {
+    const entry = merged.hours?.[String(day)];
+    if (!entry) {
+      hours[String(day)] = null;
+      continue;
+    }
+    if (!TIME_PATTERN.test(entry.open) || !TIME_PATTERN.test(entry.close) || minutesOf(entry.close) <= minutesOf(entry.open)) {
+      throw new CollectionError('Collection hours need an opening time before the closing time, as HH:MM');
+    }
+    hours[String(day)] = { open: entry.open, close: entry.close };
+  }
+
+  const settings: CollectionSettings = {
+    slot_minutes: whole(merged.slot_minutes, 15, 240),
+    capacity_per_slot: whole(merged.capacity_per_slot, 1, 500),
+    lead_time_hours: whole(merged.lead_time_hours, 0, 168),
+    days_ahead: whole(merged.days_ahead, 1, 30),
+    hours,
+    instructions: String(merged.instructions ?? '').trim().slice(0, 300),
+  };
+
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({ key: COLLECTION_SETTINGS_KEY, value: settings, updated_by: userId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new CollectionError(`Failed to save collection settings: ${error.message}`, 500);
+  }
+  return settings;
+}
+
+/**
+ * Every slot in the booking window from the collection hours, before
+ * bookings are counted
+ */
+function buildSlots(settings: CollectionSettings, now: Date): { start: Date; end: Date }[] {
+  const earliest = now.getTime() + settings.lead_time_hours * 60 * 60 * 1000;
+  const shopNow = new Date(now.getTime() + SHOP_UTC_OFFSET_HOURS * 60 * 60 * 1000);
+  const slots: { start: Date; end: Date }[] = [];
+
+  for (let offset = 0; offset <= settings.days_ahead; offset++) {
+    const day = new Date(Date.UTC(shopNow.getUTCFullYear(), shopNow.getUTCMonth(), shopNow.getUTCDate() + offset));
+    const hours = settings.hours[String(day.getUTCDay())];
+    if (!hours) continue;
+
+    const close = minutesOf(hours.close);
+    for (let minute = minutesOf(hours.open); minute + settings.slot_minutes <= close; minute += settings.slot_minutes) {
+      const start = new Date(day.getTime() + (minute - SHOP_UTC_OFFSET_HOURS * 60) * 60 * 1000);
+      if (start.getTime() < earliest) continue;
+      slots.push({ start, end: new Date(start.getTime() + settings.slot_minutes * 60 * 1000) });
+    }
+  }
+  return slots;
+}
+
+async function countBookings(supabase: any, from: Date, to: Date, excludeOrderId?: string): Promise<Map<number, number>> {
+  let query = supabase
+    .from('orders')
+    .select('id, pickup_slot_start')
+    .eq('fulfillment_method', 'collect')
+    .neq('status', 'cancelled')
+    .gte('pickup_slot_start', from.toISOString())
+    .lte('pickup_slot_start', to.toISOString());
+  if (excludeOrderId) {
+    query = query.neq('id', excludeOrderId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new CollectionError(`Failed to count pickup bookings: ${error.message}`, 500);
+  }
+
+  const counts = new Map<number, number>();
+  for (const order of data || []) {
+    const start = new Date(order.pickup_slot_start).getTime();
+    counts.set(start, (counts.get(start) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Pickup slots customers can still book, soonest first
+ */
+export async function listPickupSlots(supabase: any, now: Date = new Date()): Promise<PickupSlot[]> {
+  const settings = await getCollectionSettings(supabase);
+  const slots = buildSlots(settings, now);
+  if (slots.length === 0) return [];
+
+  const booked = await countBookings(supabase, slots[0].start, slots[slots.length - 1].start);
+  return slots
+    .map(slot => ({
+      start: slot.start.toISOString(),
+      end: slot.end.toISOString(),
+      remaining: Math.max(0, settings.capacity_per_slot - (booked.get(slot.start.getTime()) || 0)),
+    }))
+    .filter(slot => slot.remaining > 0);
+}
+
+/**
+ * Check the slot a new collection order booked is one the shop offers and
+ * still has room. Returns the slot with its proper end time.
+ */
+export async function checkPickupSlot(supabase: any, order: any): Promise<{ start: string; end: string }> {
+  if (!order.pickup_slot_start) {
+    throw new CollectionError('Choose a pickup slot for collection orders');
+  }
+
+  const settings = await getCollectionSettings(supabase);
+  const requested = new Date(order.pickup_slot_start).getTime();
+  // Checked when the order is created, so the lead time runs from then
+  const slot = buildSlots(settings, new Date(order.created_at || Date.now()))
+    .find(candidate => candidate.start.getTime() === requested);
+  if (!slot) {
+    throw new CollectionError('That pickup slot is not available, please choose another', 409);
+  }
+
+  const booked = await countBookings(supabase, slot.start, slot.start, order.id);
+  if ((booked.get(requested) || 0) >= settings.capacity_per_slot) {
+    throw new CollectionError('That pickup slot has just filled up, please choose another', 409);
+  }
+  return { start: slot.start.toISOString(), end: slot.end.toISOString() };
+}
+
+async function loadOrder(supabase: any, orderId: string) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, order_items (quantity, product_snapshot)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new CollectionError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order) {
+    throw new CollectionError('Order not found', 404);
+  }
+  if (order.fulfillment_method !== 'collect') {
+    throw new CollectionError(`Order ${order.order_number} is for delivery, not collection`, 409);
+  }
+  return order;
+}
+
+function summarise(order: any, matchedBy: CollectionOrder['matched_by']): CollectionOrder {
+  const address = order.billing_address || {};
+  return {
+    order_id: order.id,
+    order_number: order.order_number,
+    status: order.status,
+    payment_status: order.payment_status,
+    customer_name: [address.first_name, address.last_name].filter(Boolean).join(' ') || order.customer_info?.name || null,
+    customer_email: order.customer_email || address.email || null,
+    customer_phone: address.phone || order.customer_info?.phone || null,
+    pickup_slot_start: order.pickup_slot_start || null,
+    pickup_slot_end: order.pickup_slot_end || null,
+    ready_for_collection_at: order.ready_for_collection_at || null,
+    collected_at: order.collected_at || null,
+    items: (order.order_items || []).map((item: any) => ({
+      name: item.product_snapshot?.name || 'Item',
+      quantity: Number(item.quantity),
+    })),
+    matched_by: matchedBy,
+  };
+}
+
+const formatSlot = (start: string, end: string) => {
+  const options: Intl.DateTimeFormatOptions = { timeZone: 'Africa/Johannesburg', hour: '2-digit', minute: '2-digit' };
+  const day = new Date(start).toLocaleDateString('en-ZA', { timeZone: 'Africa/Johannesburg', weekday: 'long', day: 'numeric', month: 'long' });
+  return `${day}, ${new Date(start).toLocaleTimeString('en-ZA', options)} - ${new Date(end).toLocaleTimeString('en-ZA', options)}`;
+};
+
+// Keyed on the code, so a reissued code is emailed again
+async function sendReadyEmail(supabase: any, order: any, code: string): Promise<boolean> {
+  const settings = await getCollectionSettings(supabase);
+  return sendOrderEmail(supabase, order.id, 'ready_for_collection', {
+    collection_code: code,
+    pickup_slot: order.pickup_slot_start && order.pickup_slot_end ? formatSlot(order.pickup_slot_start, order.pickup_slot_end) : null,
+    instructions: settings.instructions,
+  }, `ready_for_collection:${order.id}:${code}`);
+}
+
+/**
+ * Mark a packed collection order ready, give it a one-time collection code
+ * and email the code to the customer
+ */
+export async function markReadyForCollection(supabase: any, orderId: string): Promise<{ order: CollectionOrder; notified: boolean }> {
+  const order = await loadOrder(supabase, orderId);
+  if (!['paid', 'partially_refunded'].includes(order.payment_status)) {
+    throw new CollectionError(`Order ${order.order_number} is ${order.payment_status}; only paid orders can be collected`, 409);
+  }
+  if (['cancelled', 'refunded', 'delivered'].includes(order.status)) {
+    throw new CollectionError(`Order ${order.order_number} is ${order.status}`, 409);
+  }
+  if (order.status === 'ready_for_collection') {
+    return { order: summarise(order, 'order_number'), notified: false };
+  }
+
+  // Codes only need to be unique among orders waiting at the counter
+  let updated = null;
+  for (let attempt = 0; attempt < 5 && !updated; attempt++) {
+    const code = String(randomInt(0, 1000000)).padStart(6, '0');
+    const now = new Date().toISOString();
+    const { data, error } = await supabase
+      .from('orders')
+      .update({ status: 'ready_for_collection', collection_code: code, ready_for_collection_at: now, updated_at: now })
+      .eq('id', order.id)
+      .neq('status', 'ready_for_collection')
+      .select('*, order_items (quantity, product_snapshot)')
+      .maybeSingle();
+
+    if (error && error.code !== '23505') {
+      throw new CollectionError(`Failed to mark order ready: ${error.message}`, 500);
+    }
+    if (!error && !data) {
+      // Marked ready by someone else in the meantime
+      return { order: summarise(await loadOrder(supabase, orderId), 'order_number'), notified: false };
+    }
+    updated = data;
+  }
+  if (!updated) {
+    throw new CollectionError('Could not issue a collection code, please try again', 503);
+  }
+
+  const notified = await sendReadyEmail(supabase, updated, updated.collection_code).catch((error) => {
+    console.error(`❌ Collection email for ${updated.order_number} failed:`, error);
+    return false;
+  });
+  return { order: summarise(updated, 'order_number'), notified };
+}
+
+/**
+ * The collection order behind a collection code, a scanned receipt barcode
+ * or a typed order number
+ */
+export async function lookupCollection(supabase: any, reference: string): Promise<CollectionOrder> {
+  const value = String(reference || '').trim();
+  if (!value) {
+    throw new CollectionError('Scan or type the collection code or order number');
+  }
+
+  const byCode = /^\d{6}$/.test(value);
+  let query = supabase.from('orders').select('id').eq('fulfillment_method', 'collect').limit(2);
+  if (byCode) {
+    query = query.eq('collection_code', value).is('collected_at', null);
+  } else if (/^[0-9a-f]{12}$/i.test(value)) {
+    // Receipt barcodes carry the first 12 hex digits of the order's UUID
+    query = query.ilike('order_number', `${value.slice(0, 8)}-${value.slice(8)}%`);
+  } else {
+    query = query.ilike('order_number', value.replace(/[\\%_]/g, '\\$&'));
+  }
+
+  const { data: found, error } = await query;
+  if (error) {
+    throw new CollectionError(`Failed to look up order: ${error.message}`, 500);
+  }
+  if (!found || found.length === 0) {
+    throw new CollectionError(byCode ? 'That collection code is not valid or has been used' : `No collection order found for ${value}`, 404);
+  }
+  if (found.length > 1) {
+    throw new CollectionError('More than one order matches; type the full order number', 409);
+  }
+
+  return summarise(await loadOrder(supabase, found[0].id), byCode ? 'code' : 'order_number');
+}
+
+/**
+ * Hand a ready order over. With a code, the code must match; without one,
+ * staff have checked the customer's ID against the order instead.
+ */
+export async function collectOrder(supabase: any, orderId: string, staffId: string, code?: string | null): Promise<CollectionOrder> {
+  const order = await loadOrder(supabase, orderId);
+  if (order.collected_at) {
+    throw new CollectionError(`Order ${order.order_number} was already collected on ${new Date(order.collected_at).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' })}`, 409);
+  }
+  if (order.status !== 'ready_for_collection') {
+    throw new CollectionError(`Order ${order.order_number} is not ready for collection yet`, 409);
+  }
+  if (code && code.trim() !== order.collection_code) {
+    throw new CollectionError('The collection code does not match this order', 403);
+  }
+
+  const now = new Date().toISOString();
+  const { data: collected, error } = await supabase
+    .from('orders')
+    .update({
+      status: 'delivered',
+      fulfillment_status: 'fulfilled',
+      delivered_at: now,
+      collected_at: now,
+      collected_by: staffId,
+      collection_verified_by: code ? 'code' : 'order_number',
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .eq('status', 'ready_for_collection')
+    .is('collected_at', null)
+    .select('*, order_items (quantity, product_snapshot)')
+    .maybeSingle();
+
+  if (error) {
+    throw new CollectionError(`Failed to record collection: ${error.message}`, 500);
+  }
+  if (!collected) {
+    throw new CollectionError(`Order ${order.order_number} was collected at another till`, 409);
+  }
+  await notifyOrderStatus(supabase, order.id).catch((error) => {
+    console.error(`❌ Error emailing collection of ${order.order_number}:`, error);
+  });
+  return summarise(collected, code ? 'code' : 'order_number');
+}
@@ -0,0 +1,210 @@
+// Combo (bundle) pricing for the server quote.
+//
+// A combo sold online arrives as ordinary cart lines tagged with combo_id and
+// the combo_items slot each line fills. The lines are checked against the
+// combo definition here and priced at the combo price: each slot gets a share
+// of combo_price in proportion to what its products cost on their own, so
+// leaving out an optional slot or substituting a product never changes what
+// the remaining slots cost.
+
+export interface ComboLineRequest {
+  product_id: string;
+  quantity: number;
+  combo_id: string;
+  combo_item_id?: string;
+}
+
+export interface PricedComboLine {
+  product_id: string;
+  combo_id: string;
+  combo_item_id: string;
+  quantity: number;
+  unit_price: number;
+  line_total: number;
+}
+
+export interface ComboSummary {
+  combo_id: string;
+  name: string;
+  combo_type: string;
+  bundles: number;
+  bundle_price: number;
+  original_price: number;
+}
+
+export class ComboError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ComboError';
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Only bundles are priced here; combos of the other types are not sold
+export const PRICED_COMBO_TYPES = ['bundle'];
+
+export function isComboLive(combo: any, now: Date = new Date()): boolean {
+  if (combo.status && combo.status !== 'active') return false;
+  if (!PRICED_COMBO_TYPES.includes(combo.combo_type || 'bundle')) return false;
+  if (combo.starts_at && new Date(combo.starts_at) > now) return false;
+  if (combo.ends_at && new Date(combo.ends_at) < now) return false;
+  return true;
+}
+
+/**
+ * Price the lines of every combo in a cart. `products` holds the cart's
+ * products keyed by id (for substitute category checks).
+ */
+export async function priceComboLines(
+  supabase: any,
+  lines: ComboLineRequest[],
+  products: Map<string, any>
+): Promise<{ lines: PricedComboLine[]; combos: ComboSummary[] }> {
+  if (lines.length === 0) return { lines: [], combos: [] };
+
+  const comboIds = Array.from(new Set(lines.map(line => line.combo_id)));
+  const { data: combos, error } = await supabase
+    .from('combos')
+    .select('*, combo_items (*, product:products (id, name, price))')
+    .in('id', comboIds);
+
+  if (error) {
+    throw new ComboError(`Failed to load combos: ${error.message}`, 500);
+  }
+
+  const priced: PricedComboLine[] = [];
+  const summaries: ComboSummary[] = [];
+
+  for (const comboId of comboIds) {
+    const combo = (combos || []).find((c: any) => c.id === comboId);
+    if (!combo || !isComboLive(combo)) {
+      throw new ComboError(`Bundle ${combo?.name || comboId} is no longer available`);
+    }
+
+    const slots: any[] = [...(combo.combo_items || [])].sort((a: any, b: any) => (a.sort_order || 0) - (b.sort_order || 0));
+    const comboLines = lines.filter(line => line.combo_id === comboId);
+    const filled = new Map<string, ComboLineRequest>();
+    let bundles: number | null = null;
+
+    for (const line of comboLines) {
+      const slot = slots.find(s => s.id === line.combo_item_id) || slots.find(s => s.product_id === line.product_id);
+      if (!slot) {
+        throw new ComboError(`${products.get(line.product_id)?.name || 'Item'} is not part of ${combo.name}`);
+      }
+      if (filled.has(slot.id)) {
+        throw new ComboError(`${combo.name} has the same item more than once`);
+      }
+
+      if (line.product_id !== slot.product_id) {
+        const substitute = products.get(line.product_id);
+        const allowed = slot.can_substitute && slot.substitute_category_id && substitute?.category_id === slot.substitute_category_id;
+        if (!allowed) {
+          throw new ComboError(`${substitute?.name || 'Item'} cannot be substituted into ${combo.name}`);
+        }
+      }
+
+      const perBundle = Number(slot.quantity || 1);
+      if (line.quantity % perBundle !== 0) {
+        throw new ComboError(`${combo.name} items must be bought in whole bundles`);
+      }
+      const lineBundles = line.quantity / perBundle;
+      if (bundles !== null && bundles !== lineBundles) {
+        throw new ComboError(`${combo.name} items must be bought in whole bundles`);
+      }
+      bundles = lineBundles;
+      filled.set(slot.id, line);
+    }
+
+    const productIds = comboLines.map(line => line.product_id);
+    if (new Set(productIds).size !== productIds.length) {
+      throw new ComboError(`${combo.name} has the same product more than once`);
+    }
+
+    const missing = slots.filter(slot => !filled.has(slot.id) && (combo.requires_all_items !== false || slot.is_required !== false));
+    if (missing.length > 0) {
+      throw new ComboError(`${combo.name} is missing ${missing.map(slot => slot.product?.name || 'an item').join(', ')}`);
+    }
+
+    bundles = bundles || 0;
+    const minimum = Number(combo.minimum_quantity || 1);
+    const maximum = combo.maximum_quantity != null ? Number(combo.maximum_quantity) : null;
+    if (bundles < minimum || (maximum && bundles > maximum)) {
+      throw new ComboError(`${combo.name} can be bought ${minimum}${maximum ? `-${maximum}` : '+'} at a time`);
+    }
+    if (combo.usage_limit && Number(combo.times_purchased || 0) + bundles > Number(combo.usage_limit)) {
+      throw new ComboError(`${combo.name} has sold out`);
+    }
+
+    // Share of the combo price for each slot, from the listed products' prices
+    const slotValue = (slot: any) => Number(slot.product?.price || 0) * Number(slot.quantity || 1);
+    const fullValue = slots.reduce((sum, slot) => sum + slotValue(slot), 0);
+    const comboPrice = Number(combo.combo_price || 0);
+    const chosen = slots.filter(slot => filled.has(slot.id));
+
+    let allocated = 0;
+    chosen.forEach((slot, index) => {
+      const line = filled.get(slot.id)!;
+      let share = fullValue > 0 ? roundCurrency((comboPrice * slotValue(slot)) / fullValue) : 0;
+      // Absorb rounding in the last slot so a full bundle costs exactly combo_price
+      if (chosen.length === slots.length && index === chosen.length - 1) {
+        share = roundCurrency(comboPrice - allocated);
+      }
+      allocated = roundCurrency(allocated + share);
+
+      const lineTotal = roundCurrency(share * (bundles as number));
+      priced.push({
+        product_id: line.product_id,
+        combo_id: comboId,
+        combo_item_id: slot.id,
+        quantity: line.quantity,
+        unit_price: roundCurrency(lineTotal / line.quantity),
+        line_total: lineTotal,
+      });
+    });
+
+    summaries.push({
+      combo_id: comboId,
+      name: combo.name,
+      combo_type: combo.combo_type,
+      bundles,
+      bundle_price: allocated,
+      original_price: roundCurrency(chosen.reduce((sum, slot) => sum + slotValue(slot), 0)),
+    });
+  }
+
+  return { lines: priced, combos: summaries };
+}
+
+/**
+ * Count the bundles a paid order was priced with. The order is claimed first,
+ * so a repeated payment event or settlement counts them only once.
+ */
+export async function recordComboPurchases(supabase: any, order: any) {
+  const combos: ComboSummary[] = order.applied_combos || [];
+  if (combos.length === 0) return;
+
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({ combo_purchases_recorded_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .is('combo_purchases_recorded_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    console.warn(`⚠️ Could not claim combo purchases for order ${order.id}:`, claimError.message);
+    return;
+  }
+  if (!claimed) return;
+
+  for (const combo of combos) {
+    const { error } = await supabase.rpc('increment_combo_purchases', {
+      combo_id: combo.combo_id,
+      quantity: combo.bundles,
+    });
+    if (error) {
+      console.warn(`⚠️ Could not record purchase of combo ${combo.combo_id}:`, error.message);
+    }
+  }
+}
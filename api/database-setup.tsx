@@ -81,7 +81,9 @@ export class DatabaseSetup {
       `CREATE TYPE IF NOT EXISTS combo_type AS ENUM ('bundle', 'mix_match', 'tiered', 'bogo');`,
       `CREATE TYPE IF NOT EXISTS combo_status AS ENUM ('draft', 'active', 'inactive', 'expired');`,
       `CREATE TYPE IF NOT EXISTS order_status AS ENUM ('pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded');`,
+      `ALTER TYPE order_status ADD VALUE IF NOT EXISTS 'ready_for_collection' AFTER 'processing';`,
       `CREATE TYPE IF NOT EXISTS payment_status AS ENUM ('pending', 'paid', 'failed', 'refunded', 'partially_refunded');`,
+      `ALTER TYPE payment_status ADD VALUE IF NOT EXISTS 'review';`,
       `CREATE TYPE IF NOT EXISTS fulfillment_status AS ENUM ('unfulfilled', 'partial', 'fulfilled', 'restocked');`,
       `CREATE TYPE IF NOT EXISTS order_channel AS ENUM ('online', 'pos', 'phone', 'mobile_app');`,
       `CREATE TYPE IF NOT EXISTS order_item_type AS ENUM ('product', 'combo', 'combo_item');`,
@@ -172,11 +174,31 @@ export class DatabaseSetup {
         is_combo_eligible BOOLEAN DEFAULT TRUE,
         min_quantity INTEGER DEFAULT 1,
         max_quantity_per_order INTEGER,
+        has_variants BOOLEAN DEFAULT FALSE,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW(),
         created_by UUID REFERENCES user_profiles(id)
       );`,
 
+      // Product variants (size/colour/scent); a product with variants keeps
+      // the sum of their stock, maintained by sync_product_variant_stock()
+      `CREATE TABLE IF NOT EXISTS product_variants (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        options JSONB DEFAULT '{}',
+        sku VARCHAR(50) UNIQUE NOT NULL,
+        barcode VARCHAR(50) UNIQUE,
+        price DECIMAL(10,2),
+        compare_at_price DECIMAL(10,2),
+        stock_quantity INTEGER DEFAULT 0,
+        image_url TEXT,
+        is_active BOOLEAN DEFAULT TRUE,
+        sort_order INTEGER DEFAULT 0,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
       // Promotions table
       `CREATE TABLE IF NOT EXISTS promotions (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -310,7 +332,25 @@ export class DatabaseSetup {
         delivered_at TIMESTAMP,
         cancelled_at TIMESTAMP,
         cancellation_reason TEXT,
-        processed_by UUID REFERENCES user_profiles(id)
+        processed_by UUID REFERENCES user_profiles(id),
+        payment_intent_id VARCHAR(100) UNIQUE,
+        paid_at TIMESTAMP,
+        amount_refunded DECIMAL(10,2) DEFAULT 0,
+        stock_decremented_at TIMESTAMP,
+        confirmation_email_sent_at TIMESTAMP,
+        combo_purchases_recorded_at TIMESTAMP,
+        pricing_quote_id VARCHAR(64) UNIQUE,
+        pricing_verified_at TIMESTAMP,
+        loyalty_customer_id UUID REFERENCES user_profiles(id),
+        loyalty_points_earned INTEGER DEFAULT 0
+      );`,
+
+      // Stripe webhook events already applied (for idempotent retries)
+      `CREATE TABLE IF NOT EXISTS stripe_webhook_events (
+        id VARCHAR(100) PRIMARY KEY,
+        type VARCHAR(100) NOT NULL,
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        processed_at TIMESTAMP DEFAULT NOW()
       );`,
 
       // Order Items table
@@ -318,6 +358,7 @@ export class DatabaseSetup {
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
         order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
         product_id UUID REFERENCES products(id),
+        variant_id UUID REFERENCES product_variants(id),
         combo_id UUID REFERENCES combos(id),
         item_type order_item_type NOT NULL DEFAULT 'product',
         product_name VARCHAR(255) NOT NULL,
@@ -336,6 +377,525 @@ export class DatabaseSetup {
         created_at TIMESTAMP DEFAULT NOW()
       );`,
 
+      // Refunds table (one document per refund, numbered RF-...)
+      `CREATE TABLE IF NOT EXISTS refunds (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        refund_number VARCHAR(50) UNIQUE NOT NULL,
+        order_id UUID REFERENCES orders(id) ON DELETE CASCADE,
+        amount DECIMAL(10,2) NOT NULL,
+        refund_method VARCHAR(20) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'completed',
+        reason TEXT,
+        stripe_refund_id VARCHAR(100),
+        includes_shipping BOOLEAN DEFAULT FALSE,
+        restocked BOOLEAN DEFAULT TRUE,
+        processed_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Refund Items table (returned quantities per order line)
+      `CREATE TABLE IF NOT EXISTS refund_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        refund_id UUID REFERENCES refunds(id) ON DELETE CASCADE,
+        order_item_id UUID REFERENCES order_items(id) ON DELETE CASCADE,
+        product_id UUID REFERENCES products(id),
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        amount DECIMAL(10,2) NOT NULL,
+        restocked BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Loyalty points ledger, written through apply_loyalty_transaction()
+      `CREATE TABLE IF NOT EXISTS loyalty_transactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        customer_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        type VARCHAR(20) NOT NULL CHECK (type IN ('earn', 'redeem', 'reverse_earn', 'reverse_redeem', 'expire', 'adjust')),
+        points INTEGER NOT NULL,
+        balance_after INTEGER NOT NULL,
+        reference VARCHAR(100) NOT NULL,
+        description TEXT,
+        expires_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(type, reference)
+      );`,
+
+      // Stock movements ledger, written through record_stock_movement(). Every
+      // change to a product's or variant's stock_quantity has a row here.
+      `CREATE TABLE IF NOT EXISTS stock_movements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+        movement_type VARCHAR(20) NOT NULL CHECK (movement_type IN ('opening_balance', 'sale', 'pos_sale', 'refund_return', 'adjustment', 'receiving', 'stock_take', 'damage')),
+        quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+        quantity_after INTEGER NOT NULL,
+        reason TEXT,
+        reference_type VARCHAR(30),
+        reference_id UUID,
+        created_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Suppliers; a product's supplier_id is who it is normally reordered from
+      `CREATE TABLE IF NOT EXISTS suppliers (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        supplier_code VARCHAR(30) UNIQUE NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        contact_name VARCHAR(255),
+        email VARCHAR(255),
+        phone VARCHAR(50),
+        address TEXT,
+        payment_terms VARCHAR(100),
+        lead_time_days INTEGER DEFAULT 7 CHECK (lead_time_days >= 0),
+        notes TEXT,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `ALTER TABLE products
+       ADD COLUMN IF NOT EXISTS supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL;`,
+
+      // Purchase orders; lines are received through receive_purchase_order_item()
+      `CREATE TABLE IF NOT EXISTS purchase_orders (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        po_number VARCHAR(30) UNIQUE NOT NULL,
+        supplier_id UUID NOT NULL REFERENCES suppliers(id),
+        status VARCHAR(20) NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+        expected_at DATE,
+        notes TEXT,
+        subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+        additional_costs DECIMAL(10,2) NOT NULL DEFAULT 0,
+        created_by UUID REFERENCES user_profiles(id),
+        sent_at TIMESTAMP,
+        received_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `CREATE TABLE IF NOT EXISTS purchase_order_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+        product_id UUID NOT NULL REFERENCES products(id),
+        variant_id UUID REFERENCES product_variants(id),
+        quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+        quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0 AND quantity_received <= quantity_ordered),
+        unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Landed cost of every receipt: the supplier's unit cost plus its share
+      // of freight and other charges, and the cost_price it left the product at
+      `CREATE TABLE IF NOT EXISTS product_cost_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id UUID REFERENCES product_variants(id) ON DELETE SET NULL,
+        purchase_order_id UUID REFERENCES purchase_orders(id) ON DELETE SET NULL,
+        purchase_order_item_id UUID REFERENCES purchase_order_items(id) ON DELETE SET NULL,
+        supplier_id UUID REFERENCES suppliers(id) ON DELETE SET NULL,
+        quantity INTEGER NOT NULL CHECK (quantity > 0),
+        unit_cost DECIMAL(10,2) NOT NULL,
+        landed_unit_cost DECIMAL(12,4) NOT NULL,
+        cost_price_before DECIMAL(10,2),
+        cost_price_after DECIMAL(10,2) NOT NULL,
+        received_by UUID REFERENCES user_profiles(id),
+        received_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Stock-take (cycle count) sessions. Each counted line keeps the stock the
+      // system expected when the count arrived; approval posts the difference
+      // to the ledger as a stock_take movement.
+      `CREATE TABLE IF NOT EXISTS stock_takes (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        reference VARCHAR(30) UNIQUE NOT NULL,
+        name VARCHAR(255) NOT NULL,
+        category_id UUID REFERENCES categories(id) ON DELETE SET NULL,
+        location VARCHAR(100),
+        status VARCHAR(20) NOT NULL DEFAULT 'counting' CHECK (status IN ('counting', 'submitted', 'approved', 'cancelled')),
+        notes TEXT,
+        created_by UUID REFERENCES user_profiles(id),
+        submitted_by UUID REFERENCES user_profiles(id),
+        submitted_at TIMESTAMP,
+        approved_by UUID REFERENCES user_profiles(id),
+        approved_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `CREATE TABLE IF NOT EXISTS stock_take_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        stock_take_id UUID NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+        product_id UUID NOT NULL REFERENCES products(id) ON DELETE CASCADE,
+        variant_id UUID REFERENCES product_variants(id) ON DELETE CASCADE,
+        expected_quantity INTEGER NOT NULL,
+        counted_quantity INTEGER NOT NULL CHECK (counted_quantity >= 0),
+        counted_by UUID REFERENCES user_profiles(id),
+        counted_at TIMESTAMP DEFAULT NOW(),
+        movement_id UUID REFERENCES stock_movements(id)
+      );`,
+
+      // Cashier shifts. Each POS sale, refund and drawer pay-in/out made while a
+      // shift is open carries its shift_id; closing stores the Z-report figures.
+      `CREATE TABLE IF NOT EXISTS cash_shifts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        shift_number VARCHAR(30) UNIQUE NOT NULL,
+        cashier_id UUID NOT NULL REFERENCES user_profiles(id),
+        status VARCHAR(20) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+        opening_float DECIMAL(10,2) NOT NULL CHECK (opening_float >= 0),
+        opening_denominations JSONB,
+        opened_at TIMESTAMP DEFAULT NOW(),
+        closing_denominations JSONB,
+        counted_cash DECIMAL(10,2),
+        expected_cash DECIMAL(10,2),
+        cash_variance DECIMAL(10,2),
+        totals JSONB,
+        closing_notes TEXT,
+        closed_by UUID REFERENCES user_profiles(id),
+        closed_at TIMESTAMP,
+        reviewed_by UUID REFERENCES user_profiles(id),
+        reviewed_at TIMESTAMP,
+        review_notes TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Cash put into or taken out of the drawer outside a sale
+      `CREATE TABLE IF NOT EXISTS cash_movements (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        shift_id UUID NOT NULL REFERENCES cash_shifts(id) ON DELETE CASCADE,
+        movement_type VARCHAR(10) NOT NULL CHECK (movement_type IN ('pay_in', 'pay_out')),
+        amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+        reason TEXT NOT NULL,
+        created_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `ALTER TABLE orders
+       ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cash_shifts(id);`,
+
+      `ALTER TABLE refunds
+       ADD COLUMN IF NOT EXISTS shift_id UUID REFERENCES cash_shifts(id);`,
+
+      // Gift cards / store vouchers, spent as a tender at the POS
+      `CREATE TABLE IF NOT EXISTS gift_cards (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(30) UNIQUE NOT NULL,
+        initial_value DECIMAL(10,2) NOT NULL CHECK (initial_value > 0),
+        balance DECIMAL(10,2) NOT NULL CHECK (balance >= 0),
+        is_active BOOLEAN DEFAULT true,
+        expires_at TIMESTAMP,
+        notes TEXT,
+        issued_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Every change to a gift card's balance
+      `CREATE TABLE IF NOT EXISTS gift_card_transactions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        gift_card_id UUID NOT NULL REFERENCES gift_cards(id) ON DELETE CASCADE,
+        transaction_type VARCHAR(10) NOT NULL CHECK (transaction_type IN ('issue', 'redeem', 'reverse')),
+        amount DECIMAL(10,2) NOT NULL,
+        balance_after DECIMAL(10,2) NOT NULL,
+        reference VARCHAR(100) NOT NULL,
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        created_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // POS baskets parked to serve the next customer, recallable from any till at the store
+      `CREATE TABLE IF NOT EXISTS parked_sales (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        label VARCHAR(100) NOT NULL,
+        store_location VARCHAR(100) NOT NULL,
+        items JSONB NOT NULL,
+        customer JSONB,
+        discount_percent DECIMAL(5,2) DEFAULT 0,
+        redeem_points INTEGER DEFAULT 0,
+        item_count INTEGER NOT NULL DEFAULT 0,
+        subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+        status VARCHAR(20) NOT NULL DEFAULT 'parked' CHECK (status IN ('parked', 'recalled', 'discarded')),
+        parked_by UUID REFERENCES user_profiles(id),
+        expires_at TIMESTAMP NOT NULL,
+        closed_by UUID REFERENCES user_profiles(id),
+        closed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Till returns can be paid out as store credit (a gift card) or taken as an exchange
+      `ALTER TABLE refunds
+       ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES gift_cards(id),
+       ADD COLUMN IF NOT EXISTS is_exchange BOOLEAN DEFAULT FALSE;`,
+
+      // One id per refund attempt from the admin or till screen, so a repeat is refused
+      `ALTER TABLE refunds
+       ADD COLUMN IF NOT EXISTS request_id VARCHAR(100);`,
+
+      // Quantities of each line refunded so far, reserved together with the refund amount
+      `ALTER TABLE order_items
+       ADD COLUMN IF NOT EXISTS refunded_quantity INTEGER NOT NULL DEFAULT 0;`,
+
+      // POS sales rung up while a till was offline, keyed by the order id the till generated
+      `CREATE TABLE IF NOT EXISTS offline_sales (
+        id UUID PRIMARY KEY,
+        payload JSONB NOT NULL,
+        till_id VARCHAR(100),
+        store_location VARCHAR(100) NOT NULL,
+        shift_id UUID REFERENCES cash_shifts(id),
+        total DECIMAL(10,2) NOT NULL,
+        status VARCHAR(20) NOT NULL CHECK (status IN ('conflict', 'synced', 'accepted', 'voided')),
+        conflicts JSONB DEFAULT '[]',
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        sold_at TIMESTAMP NOT NULL,
+        sold_by UUID REFERENCES user_profiles(id),
+        resolved_by UUID REFERENCES user_profiles(id),
+        resolved_at TIMESTAMP,
+        resolution_note TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Manager override PINs, hashed; read only by the server
+      `CREATE TABLE IF NOT EXISTS staff_override_pins (
+        user_id UUID PRIMARY KEY REFERENCES user_profiles(id) ON DELETE CASCADE,
+        pin_hash TEXT NOT NULL,
+        failed_attempts INTEGER DEFAULT 0,
+        locked_until TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Every discount, price override, void and no-sale at the till, and who authorised it
+      `CREATE TABLE IF NOT EXISTS pos_overrides (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        action VARCHAR(20) NOT NULL CHECK (action IN ('discount', 'price_override', 'void', 'no_sale')),
+        details JSONB DEFAULT '{}',
+        reason TEXT,
+        requested_by UUID NOT NULL REFERENCES user_profiles(id),
+        approved_by UUID NOT NULL REFERENCES user_profiles(id),
+        shift_id UUID REFERENCES cash_shifts(id),
+        store_location VARCHAR(100),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // The last tax invoice number issued; one row, moved by issue_tax_invoice
+      `CREATE TABLE IF NOT EXISTS invoice_sequence (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        last_number BIGINT NOT NULL DEFAULT 0
+      );`,
+      `INSERT INTO invoice_sequence (id, last_number) VALUES (1, 0) ON CONFLICT (id) DO NOTHING;`,
+
+      // Tax invoices, one per paid order, with the seller, buyer and lines as issued
+      `CREATE TABLE IF NOT EXISTS tax_invoices (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        invoice_number VARCHAR(20) UNIQUE NOT NULL,
+        sequence_number BIGINT UNIQUE NOT NULL,
+        order_id UUID UNIQUE NOT NULL REFERENCES orders(id),
+        order_number VARCHAR(100) NOT NULL,
+        issued_at TIMESTAMP DEFAULT NOW(),
+        seller JSONB NOT NULL,
+        buyer JSONB NOT NULL,
+        lines JSONB NOT NULL,
+        discount_amount DECIMAL(10,2) DEFAULT 0,
+        total_excl_vat DECIMAL(10,2) NOT NULL,
+        vat_amount DECIMAL(10,2) NOT NULL,
+        total_incl_vat DECIMAL(10,2) NOT NULL,
+        pdf_path TEXT,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Store-wide settings edited in admin, such as the till receipt template
+      `CREATE TABLE IF NOT EXISTS store_settings (
+        key VARCHAR(100) PRIMARY KEY,
+        value JSONB NOT NULL,
+        updated_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Delivery zones, matched by postal code before province; a zone with
+      // neither is the catch-all for the rest of the country
+      `CREATE TABLE IF NOT EXISTS shipping_zones (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(100) NOT NULL,
+        provinces TEXT[] DEFAULT '{}',
+        postal_codes TEXT[] DEFAULT '{}',
+        free_shipping_threshold DECIMAL(10,2),
+        additional_days INTEGER DEFAULT 0,
+        priority INTEGER DEFAULT 0,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Ways an order can reach the customer
+      `CREATE TABLE IF NOT EXISTS shipping_methods (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        code VARCHAR(50) UNIQUE NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        method_type VARCHAR(20) NOT NULL DEFAULT 'standard' CHECK (method_type IN ('standard', 'express', 'collect')),
+        min_days INTEGER DEFAULT 0,
+        max_days INTEGER DEFAULT 0,
+        sort_order INTEGER DEFAULT 0,
+        is_active BOOLEAN DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Price of a method in a zone for a band of parcel weight and order value
+      `CREATE TABLE IF NOT EXISTS shipping_rates (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        zone_id UUID NOT NULL REFERENCES shipping_zones(id) ON DELETE CASCADE,
+        method_id UUID NOT NULL REFERENCES shipping_methods(id) ON DELETE CASCADE,
+        min_weight_kg DECIMAL(8,2) DEFAULT 0,
+        max_weight_kg DECIMAL(8,2),
+        min_order_value DECIMAL(10,2) DEFAULT 0,
+        max_order_value DECIMAL(10,2),
+        price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `ALTER TABLE orders
+       ADD COLUMN IF NOT EXISTS shipping_method_id UUID REFERENCES shipping_methods(id),
+       ADD COLUMN IF NOT EXISTS shipping_method JSONB;`,
+
+      // Click-and-collect: the booked pickup slot, and the one-time code the
+      // customer shows at the counter once the order is ready
+      `ALTER TABLE orders
+       ADD COLUMN IF NOT EXISTS fulfillment_method VARCHAR(20) DEFAULT 'delivery' CHECK (fulfillment_method IN ('delivery', 'collect')),
+       ADD COLUMN IF NOT EXISTS pickup_slot_start TIMESTAMPTZ,
+       ADD COLUMN IF NOT EXISTS pickup_slot_end TIMESTAMPTZ,
+       ADD COLUMN IF NOT EXISTS collection_code VARCHAR(6),
+       ADD COLUMN IF NOT EXISTS ready_for_collection_at TIMESTAMP,
+       ADD COLUMN IF NOT EXISTS collected_at TIMESTAMP,
+       ADD COLUMN IF NOT EXISTS collected_by UUID REFERENCES user_profiles(id),
+       ADD COLUMN IF NOT EXISTS collection_verified_by VARCHAR(20);`,
+
+      // Product search document, kept current by the PRODUCT_SEARCH_DOCUMENT trigger
+      `ALTER TABLE products
+       ADD COLUMN IF NOT EXISTS search_vector TSVECTOR,
+       ADD COLUMN IF NOT EXISTS search_text TEXT;`,
+
+      // Groups of interchangeable search terms ("bleach", "hypochlorite")
+      `CREATE TABLE IF NOT EXISTS search_synonyms (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        terms TEXT[] NOT NULL CHECK (array_length(terms, 1) >= 2),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Searches run on the products page, for popular suggestions and the zero-results review
+      `CREATE TABLE IF NOT EXISTS search_queries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        query VARCHAR(100) NOT NULL,
+        normalized VARCHAR(100) NOT NULL,
+        results_count INTEGER NOT NULL DEFAULT 0,
+        user_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+        dismissed_at TIMESTAMP,
+        dismissed_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Parcels handed to a courier; an order can go out in several
+      `CREATE TABLE IF NOT EXISTS shipments (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        courier VARCHAR(50) NOT NULL,
+        tracking_number VARCHAR(100) NOT NULL,
+        tracking_url TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'shipped' CHECK (status IN ('shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned')),
+        shipped_at TIMESTAMP DEFAULT NOW(),
+        delivered_at TIMESTAMP,
+        created_by UUID REFERENCES user_profiles(id),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      `CREATE TABLE IF NOT EXISTS shipment_items (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        shipment_id UUID NOT NULL REFERENCES shipments(id) ON DELETE CASCADE,
+        order_item_id UUID NOT NULL REFERENCES order_items(id) ON DELETE CASCADE,
+        quantity INTEGER NOT NULL CHECK (quantity > 0)
+      );`,
+
+      // Every status an order has been through, written by the RECORD_ORDER_STATUS_CHANGE trigger
+      `CREATE TABLE IF NOT EXISTS order_status_history (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        order_id UUID NOT NULL REFERENCES orders(id) ON DELETE CASCADE,
+        status VARCHAR(30) NOT NULL,
+        previous_status VARCHAR(30),
+        fulfillment_status VARCHAR(20),
+        changed_by UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Every email the server sends and its delivery status; see ADD_EMAIL.sql
+      `CREATE TABLE IF NOT EXISTS email_log (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email_type VARCHAR(30) NOT NULL,
+        recipient VARCHAR(255) NOT NULL,
+        user_id UUID REFERENCES user_profiles(id) ON DELETE SET NULL,
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        subject TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'sent', 'delivered', 'bounced', 'failed', 'skipped')),
+        provider VARCHAR(20),
+        provider_message_id TEXT,
+        error TEXT,
+        dedupe_key TEXT UNIQUE,
+        data JSONB NOT NULL DEFAULT '{}',
+        sent_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Categories of email an address has opted out of
+      `CREATE TABLE IF NOT EXISTS email_opt_outs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        email VARCHAR(255) NOT NULL,
+        category VARCHAR(30) NOT NULL CHECK (category IN ('order_updates', 'cart_reminders')),
+        user_id UUID REFERENCES user_profiles(id) ON DELETE CASCADE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (email, category)
+      );`,
+
+      // Signed-in customers' carts, saved as they change; see ADD_CART_RECOVERY.sql
+      `CREATE TABLE IF NOT EXISTS carts (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        user_id UUID NOT NULL UNIQUE REFERENCES user_profiles(id) ON DELETE CASCADE,
+        items JSONB NOT NULL DEFAULT '[]',
+        item_count INTEGER NOT NULL DEFAULT 0,
+        subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+        started_at TIMESTAMP,
+        last_activity_at TIMESTAMP DEFAULT NOW(),
+        reminded_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );`,
+
+      // Reminders sent for idle carts, and the orders they won back
+      `CREATE TABLE IF NOT EXISTS cart_recoveries (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        cart_id UUID REFERENCES carts(id) ON DELETE SET NULL,
+        user_id UUID NOT NULL REFERENCES user_profiles(id) ON DELETE CASCADE,
+        token_hash TEXT NOT NULL UNIQUE,
+        items JSONB NOT NULL DEFAULT '[]',
+        cart_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+        promotion_id UUID REFERENCES promotions(id) ON DELETE SET NULL,
+        discount_code VARCHAR(50),
+        emailed BOOLEAN NOT NULL DEFAULT FALSE,
+        sent_at TIMESTAMP DEFAULT NOW(),
+        restored_at TIMESTAMP,
+        order_id UUID REFERENCES orders(id) ON DELETE SET NULL,
+        order_total DECIMAL(10,2),
+        recovered_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      );`,
+
       // Customer Promotions Usage table
       `CREATE TABLE IF NOT EXISTS customer_promotions_usage (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -356,8 +916,13 @@ export class DatabaseSetup {
         rating INTEGER NOT NULL CHECK (rating >= 1 AND rating <= 5),
         title VARCHAR(255),
         review_text TEXT,
+        photos TEXT[] DEFAULT '{}',
         is_verified_purchase BOOLEAN DEFAULT FALSE,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
         is_approved BOOLEAN DEFAULT FALSE,
+        rejection_reason TEXT,
+        moderated_by UUID REFERENCES user_profiles(id),
+        moderated_at TIMESTAMP,
         helpful_votes INTEGER DEFAULT 0,
         created_at TIMESTAMP DEFAULT NOW(),
         updated_at TIMESTAMP DEFAULT NOW(),
@@ -458,6 +1023,8 @@ export class DatabaseSetup {
       `CREATE INDEX IF NOT EXISTS idx_products_stock ON products(stock_quantity);`,
       `CREATE INDEX IF NOT EXISTS idx_products_barcode ON products(barcode);`,
       `CREATE INDEX IF NOT EXISTS idx_products_sku ON products(sku);`,
+      `CREATE INDEX IF NOT EXISTS idx_product_variants_product ON product_variants(product_id, sort_order);`,
+      `CREATE INDEX IF NOT EXISTS idx_product_variants_barcode ON product_variants(barcode) WHERE barcode IS NOT NULL;`,
       
       // Promotion indexes
       `CREATE INDEX IF NOT EXISTS idx_promotions_status_dates ON promotions(status, starts_at, ends_at);`,
@@ -477,6 +1044,54 @@ export class DatabaseSetup {
       `CREATE INDEX IF NOT EXISTS idx_orders_status ON orders(status);`,
       `CREATE INDEX IF NOT EXISTS idx_orders_created_at ON orders(created_at);`,
       `CREATE INDEX IF NOT EXISTS idx_orders_order_number ON orders(order_number);`,
+      `CREATE INDEX IF NOT EXISTS idx_orders_payment_intent ON orders(payment_intent_id) WHERE payment_intent_id IS NOT NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_stripe_webhook_events_order ON stripe_webhook_events(order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_refunds_order ON refunds(order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_refunds_created_at ON refunds(created_at);`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_refunds_request ON refunds(request_id) WHERE request_id IS NOT NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_refund_items_refund ON refund_items(refund_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_refund_items_order_item ON refund_items(order_item_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer ON loyalty_transactions(customer_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_order ON loyalty_transactions(order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_stock_movements_product ON stock_movements(product_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_stock_movements_variant ON stock_movements(variant_id, created_at) WHERE variant_id IS NOT NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_stock_movements_reference ON stock_movements(reference_type, reference_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_products_supplier ON products(supplier_id) WHERE supplier_id IS NOT NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON purchase_orders(supplier_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_purchase_orders_status ON purchase_orders(status);`,
+      `CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON purchase_order_items(purchase_order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_product_cost_history_product ON product_cost_history(product_id, received_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_stock_takes_status ON stock_takes(status, created_at);`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_stock_take_items_line ON stock_take_items(stock_take_id, product_id, COALESCE(variant_id, '00000000-0000-0000-0000-000000000000'::uuid));`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_shifts_one_open ON cash_shifts(cashier_id) WHERE status = 'open';`,
+      `CREATE INDEX IF NOT EXISTS idx_cash_shifts_opened ON cash_shifts(opened_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_cash_movements_shift ON cash_movements(shift_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_orders_shift ON orders(shift_id) WHERE shift_id IS NOT NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_refunds_shift ON refunds(shift_id) WHERE shift_id IS NOT NULL;`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_gift_card_transactions_reference ON gift_card_transactions(gift_card_id, transaction_type, reference);`,
+      `CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card ON gift_card_transactions(gift_card_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_parked_sales_store ON parked_sales(store_location, expires_at) WHERE status = 'parked';`,
+      `CREATE INDEX IF NOT EXISTS idx_offline_sales_status ON offline_sales(status, sold_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_pos_overrides_created ON pos_overrides(created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_pos_overrides_requested_by ON pos_overrides(requested_by, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_pos_overrides_approved_by ON pos_overrides(approved_by, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_shipping_rates_zone_method ON shipping_rates(zone_id, method_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_orders_pickup_slot ON orders(pickup_slot_start) WHERE fulfillment_method = 'collect';`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_open_collection_code ON orders(collection_code) WHERE collection_code IS NOT NULL AND collected_at IS NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_products_search_vector ON products USING GIN (search_vector);`,
+      `CREATE EXTENSION IF NOT EXISTS pg_trgm;`,
+      `CREATE INDEX IF NOT EXISTS idx_products_search_text_trgm ON products USING GIN (search_text gin_trgm_ops);`,
+      `CREATE INDEX IF NOT EXISTS idx_search_queries_normalized ON search_queries(normalized, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_search_queries_zero_results ON search_queries(created_at) WHERE results_count = 0 AND dismissed_at IS NULL;`,
+      `CREATE INDEX IF NOT EXISTS idx_shipments_order ON shipments(order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_shipment_items_shipment ON shipment_items(shipment_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_order_status_history_order ON order_status_history(order_id, created_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_email_log_created ON email_log(created_at DESC);`,
+      `CREATE INDEX IF NOT EXISTS idx_email_log_order ON email_log(order_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_email_log_provider_message ON email_log(provider_message_id);`,
+      `CREATE INDEX IF NOT EXISTS idx_carts_idle ON carts(last_activity_at) WHERE item_count > 0;`,
+      `CREATE INDEX IF NOT EXISTS idx_cart_recoveries_sent ON cart_recoveries(sent_at);`,
+      `CREATE INDEX IF NOT EXISTS idx_cart_recoveries_open ON cart_recoveries(user_id) WHERE order_id IS NULL;`,
       `CREATE INDEX IF NOT EXISTS idx_order_items_order ON order_items(order_id);`,
       `CREATE INDEX IF NOT EXISTS idx_order_items_product ON order_items(product_id);`,
       
@@ -491,11 +1106,13 @@ export class DatabaseSetup {
       // Usage tracking indexes
       `CREATE INDEX IF NOT EXISTS idx_customer_promotions_customer ON customer_promotions_usage(customer_id);`,
       `CREATE INDEX IF NOT EXISTS idx_customer_promotions_promotion ON customer_promotions_usage(promotion_id);`,
+      `CREATE UNIQUE INDEX IF NOT EXISTS idx_customer_promotions_order ON customer_promotions_usage(promotion_id, order_id);`,
       
       // Review indexes
       `CREATE INDEX IF NOT EXISTS idx_product_reviews_product ON product_reviews(product_id);`,
       `CREATE INDEX IF NOT EXISTS idx_product_reviews_customer ON product_reviews(customer_id);`,
-      `CREATE INDEX IF NOT EXISTS idx_product_reviews_approved ON product_reviews(is_approved);`
+      `CREATE INDEX IF NOT EXISTS idx_product_reviews_approved ON product_reviews(is_approved);`,
+      `CREATE INDEX IF NOT EXISTS idx_product_reviews_status ON product_reviews(status, created_at);`
     ];
 
     for (const indexSql of indexes) {
@@ -518,7 +1135,15 @@ export class DatabaseSetup {
       'user_profiles', 'categories', 'products', 'promotions', 
       'promotion_products', 'promotion_categories', 'combos', 
       'combo_items', 'orders', 'order_items', 'customer_promotions_usage',
-      'product_reviews'
+      'product_reviews', 'stripe_webhook_events', 'refunds', 'refund_items',
+      'loyalty_transactions', 'product_variants', 'stock_movements',
+      'suppliers', 'purchase_orders', 'purchase_order_items', 'product_cost_history',
+      'stock_takes', 'stock_take_items', 'cash_shifts', 'cash_movements',
+      'gift_cards', 'gift_card_transactions', 'parked_sales', 'offline_sales', 'staff_override_pins',
+      'pos_overrides', 'invoice_sequence', 'tax_invoices', 'store_settings',
+      'shipping_zones', 'shipping_methods', 'shipping_rates', 'search_synonyms', 'search_queries',
+      'shipments', 'shipment_items', 'order_status_history', 'email_log', 'email_opt_outs',
+      'carts', 'cart_recoveries'
     ];
 
     for (const table of tables) {
@@ -541,6 +1166,14 @@ export class DatabaseSetup {
       
       // Products - public read access for active products
       `CREATE POLICY IF NOT EXISTS "Active products are publicly readable" ON products FOR SELECT TO authenticated, anon USING (status = 'active');`,
+
+      // Product variants - readable with their product, managers maintain them;
+      // stock only moves through the ledger (record_stock_movement)
+      `CREATE POLICY IF NOT EXISTS "Active product variants are publicly readable" ON product_variants FOR SELECT TO authenticated, anon USING (is_active = true);`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage product variants" ON product_variants FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `DROP POLICY IF EXISTS "Staff can update product variant stock" ON product_variants;`,
       
       // Promotions - public read access for active promotions
       `CREATE POLICY IF NOT EXISTS "Active promotions are publicly readable" ON promotions FOR SELECT TO authenticated, anon USING (
@@ -560,9 +1193,178 @@ export class DatabaseSetup {
         EXISTS (SELECT 1 FROM orders WHERE id = order_id AND customer_id = auth.uid())
       );`,
       
-      // Reviews - users can manage their own reviews
+      // Refunds - customers can see refunds on their own orders
+      `CREATE POLICY IF NOT EXISTS "Users can view own refunds" ON refunds FOR SELECT USING (
+        EXISTS (SELECT 1 FROM orders WHERE id = order_id AND customer_id = auth.uid())
+      );`,
+
+      // Combos - live bundles are publicly readable, managers maintain them
+      `CREATE POLICY IF NOT EXISTS "Active combos are publicly readable" ON combos FOR SELECT TO authenticated, anon USING (status = 'active');`,
+      `CREATE POLICY IF NOT EXISTS "Combo items are publicly readable" ON combo_items FOR SELECT TO authenticated, anon USING (
+        EXISTS (SELECT 1 FROM combos WHERE id = combo_id AND status = 'active')
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage combos" ON combos FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage combo items" ON combo_items FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Promotion usage - written by the server when an order's pricing is confirmed
+      `CREATE POLICY IF NOT EXISTS "Users can view own promotion usage" ON customer_promotions_usage FOR SELECT USING (customer_id = auth.uid());`,
+
+      // Loyalty - members can see their own points history
+      `CREATE POLICY IF NOT EXISTS "Users can view own loyalty transactions" ON loyalty_transactions FOR SELECT USING (customer_id = auth.uid());`,
+
+      // Stock movements - written only through record_stock_movement(); staff read the history
+      `CREATE POLICY IF NOT EXISTS "Staff can view stock movements" ON stock_movements FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+
+      // Purchasing - managers keep suppliers and draft orders; receiving staff read
+      // orders, and receipts are written only through receive_purchase_order_item()
+      `CREATE POLICY IF NOT EXISTS "Managers can manage suppliers" ON suppliers FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view suppliers" ON suppliers FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage purchase orders" ON purchase_orders FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view purchase orders" ON purchase_orders FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can edit draft purchase order items" ON purchase_order_items FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+        AND EXISTS (SELECT 1 FROM purchase_orders WHERE id = purchase_order_id AND status = 'draft')
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view purchase order items" ON purchase_order_items FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view cost history" ON product_cost_history FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Stock-takes - counted and approved through the server; staff read them
+      `CREATE POLICY IF NOT EXISTS "Staff can view stock takes" ON stock_takes FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view stock take items" ON stock_take_items FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager', 'staff'))
+      );`,
+
+      // Shifts - opened, cashed up and reviewed through the server; cashiers see
+      // their own, managers see every till
+      `CREATE POLICY IF NOT EXISTS "Cashiers can view own shifts" ON cash_shifts FOR SELECT USING (cashier_id = auth.uid());`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view shifts" ON cash_shifts FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Cashiers can view own cash movements" ON cash_movements FOR SELECT USING (
+        EXISTS (SELECT 1 FROM cash_shifts WHERE id = shift_id AND cashier_id = auth.uid())
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view cash movements" ON cash_movements FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Gift cards - issued and spent through the server; managers read the ledger
+      `CREATE POLICY IF NOT EXISTS "Managers can view gift cards" ON gift_cards FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view gift card transactions" ON gift_card_transactions FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Parked sales - parked and recalled through the server; any till staff can read them
+      `CREATE POLICY IF NOT EXISTS "Till staff can view parked sales" ON parked_sales FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+      );`,
+
+      // Offline sales - synced and reconciled through the server; managers review them
+      `CREATE POLICY IF NOT EXISTS "Managers can view offline sales" ON offline_sales FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Override PINs have no policies: only the server, with the service role, reads them
+
+      // POS overrides - authorised and logged through the server; managers review them
+      `CREATE POLICY IF NOT EXISTS "Managers can view POS overrides" ON pos_overrides FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Tax invoices - issued through the server; customers read their own, staff read all
+      `CREATE POLICY IF NOT EXISTS "Customers can view own tax invoices" ON tax_invoices FOR SELECT USING (
+        EXISTS (SELECT 1 FROM orders WHERE orders.id = tax_invoices.order_id AND orders.customer_id = auth.uid())
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view tax invoices" ON tax_invoices FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+      );`,
+
+      // Store settings - saved through the server; staff read them to print receipts
+      `CREATE POLICY IF NOT EXISTS "Staff can view store settings" ON store_settings FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+      );`,
+
+      // Shipping rules - managers keep them; checkout prices delivery through the server
+      `CREATE POLICY IF NOT EXISTS "Managers can manage shipping zones" ON shipping_zones FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage shipping methods" ON shipping_methods FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can manage shipping rates" ON shipping_rates FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Search synonyms - read by the server with the service role
+      `CREATE POLICY IF NOT EXISTS "Managers can manage search synonyms" ON search_synonyms FOR ALL USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view search queries" ON search_queries FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Managers can dismiss search queries" ON search_queries FOR UPDATE USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('admin', 'manager'))
+      );`,
+
+      // Shipments and status history - written through the server and the orders trigger; customers read their own, staff read all
+      `CREATE POLICY IF NOT EXISTS "Customers can view own shipments" ON shipments FOR SELECT USING (
+        EXISTS (SELECT 1 FROM orders WHERE orders.id = shipments.order_id AND orders.customer_id = auth.uid())
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view shipments" ON shipments FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Customers can view own shipment items" ON shipment_items FOR SELECT USING (
+        EXISTS (
+          SELECT 1 FROM shipments JOIN orders ON orders.id = shipments.order_id
+          WHERE shipments.id = shipment_items.shipment_id AND orders.customer_id = auth.uid()
+        )
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view shipment items" ON shipment_items FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('staff', 'manager', 'admin'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Customers can view own order status history" ON order_status_history FOR SELECT USING (
+        EXISTS (SELECT 1 FROM orders WHERE orders.id = order_status_history.order_id AND orders.customer_id = auth.uid())
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Staff can view order status history" ON order_status_history FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin'))
+      );`,
+
+      // Email - written by the server; managers read the log, customers their own opt-outs
+      `CREATE POLICY IF NOT EXISTS "Managers can view email log" ON email_log FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      );`,
+      `CREATE POLICY IF NOT EXISTS "Users can view own email opt-outs" ON email_opt_outs FOR SELECT USING (user_id = auth.uid());`,
+
+      // Carts - written by the server; customers read their own, managers the recoveries
+      `CREATE POLICY IF NOT EXISTS "Users can view own cart" ON carts FOR SELECT USING (user_id = auth.uid());`,
+      `CREATE POLICY IF NOT EXISTS "Managers can view cart recoveries" ON cart_recoveries FOR SELECT USING (
+        EXISTS (SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('manager', 'admin'))
+      );`,
+
+      // Reviews - written and moderated through the server, so customers only read
       `CREATE POLICY IF NOT EXISTS "Users can view approved reviews" ON product_reviews FOR SELECT USING (is_approved = true);`,
-      `CREATE POLICY IF NOT EXISTS "Users can manage own reviews" ON product_reviews FOR ALL USING (customer_id = auth.uid());`,
+      `CREATE POLICY IF NOT EXISTS "Users can view own reviews" ON product_reviews FOR SELECT USING (customer_id = auth.uid());`,
     ];
 
     for (const policy of policies) {
@@ -621,7 +1423,8 @@ export class DatabaseSetup {
     // Apply update trigger to relevant tables
     const tables_with_updated_at = [
       'user_profiles', 'categories', 'products', 'promotions', 
-      'combos', 'orders', 'product_reviews'
+      'combos', 'orders', 'product_reviews', 'suppliers', 'purchase_orders', 'stock_takes', 'cash_shifts', 'gift_cards', 'parked_sales', 'offline_sales', 'staff_override_pins', 'tax_invoices', 'store_settings',
+      'shipping_zones', 'shipping_methods', 'shipping_rates', 'search_synonyms', 'shipments', 'email_log', 'carts'
     ];
 
     for (const table of tables_with_updated_at) {
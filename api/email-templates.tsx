@@ -0,0 +1,321 @@
+import { ReceiptTemplate } from './receipts.tsx';
+
+// Transactional email templates.
+//
+// Each template turns the facts of one event into a subject, an HTML body
+// and a plain-text body. The HTML uses inline styles in a single branded
+// layout because most mail clients ignore <style> blocks. The store's name,
+// address and phone in the footer come from the receipt template managers
+// already keep in admin.
+
+export type EmailType =
+  | 'order_confirmation'
+  | 'ready_for_collection'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'order_cancelled'
+  | 'order_refunded'
+  | 'password_changed'
+  | 'shared_cart_paid'
+  | 'abandoned_cart';
+
+export interface EmailLine {
+  name: string;
+  quantity: number;
+  price?: number;
+}
+
+export interface EmailData {
+  customer_name?: string;
+  order_number?: string;
+  order_page?: string;
+  items?: EmailLine[];
+  // order_confirmation
+  subtotal?: number;
+  shipping?: number;
+  tax?: number;
+  invoice_number?: string | null;
+  // ready_for_collection
+  collection_code?: string;
+  pickup_slot?: string | null;
+  instructions?: string | null;
+  // order_shipped
+  courier?: string;
+  tracking_number?: string;
+  tracking_url?: string | null;
+  // order_delivered
+  collected?: boolean;
+  // order_cancelled
+  reason?: string | null;
+  refund_due?: boolean;
+  // order_refunded
+  amount?: number;
+  total_refunded?: number;
+  method?: 'card' | 'cash' | 'store_credit';
+  fully_refunded?: boolean;
+  // password_changed
+  changed_at?: string;
+  reset_page?: string;
+  // shared_cart_paid
+  paid_by?: string;
+  total?: number;
+  // abandoned_cart
+  cart_url?: string;
+  discount_code?: string | null;
+  discount_percent?: number;
+  discount_expires_at?: string | null;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface TemplateContext {
+  store: ReceiptTemplate;
+  unsubscribe_url?: string;
+}
+
+export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
+  order_confirmation: 'Order confirmation',
+  ready_for_collection: 'Ready for collection',
+  order_shipped: 'Order shipped',
+  order_delivered: 'Order delivered',
+  order_cancelled: 'Order cancelled',
+  order_refunded: 'Order refunded',
+  password_changed: 'Password changed',
+  shared_cart_paid: 'Shared cart paid',
+  abandoned_cart: 'Abandoned cart',
+};
+
+const REFUND_METHOD_LABELS = { card: 'Your card', cash: 'Cash', store_credit: 'Gift card' };
+
+const escapeHtml = (value: unknown) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const money = (value: number | undefined) => `R${Number(value || 0).toFixed(2)}`;
+
+const formatDateTime = (value: string | undefined) =>
+  new Date(value || Date.now()).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg', dateStyle: 'medium', timeStyle: 'short' });
+
+// Blocks a template is made of; each renders to HTML and to plain text
+type Block =
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'details'; rows: Array<[string, string]> }
+  | { kind: 'items'; items: EmailLine[] }
+  | { kind: 'button'; label: string; url: string };
+
+const paragraph = (text: string): Block => ({ kind: 'paragraph', text });
+const details = (rows: Array<[string, string | undefined | null]>): Block => ({
+  kind: 'details',
+  rows: rows.filter((row): row is [string, string] => Boolean(row[1])),
+});
+const items = (lines: EmailLine[] | undefined): Block => ({ kind: 'items', items: lines || [] });
+const button = (label: string, url: string | undefined): Block | null => (url ? { kind: 'button', label, url } : null);
+
+function blockHtml(block: Block): string {
+  switch (block.kind) {
+    case 'paragraph':
+      return `<p style="margin:0 0 16px;font-size:15px;line-height:1.6;color:#333333;">${escapeHtml(block.text)}</p>`;
+    case 'details':
+      return `<table role="presentation" width="100%" style="margin:0 0 16px;background:#f8f9fa;border-left:4px solid #97CF50;border-radius:8px;font-size:14px;">${block.rows
+        .map(([label, value]) => `<tr><td style="padding:8px 16px;font-weight:bold;color:#09215F;">${escapeHtml(label)}</td><td style="padding:8px 16px;color:#555555;text-align:right;">${escapeHtml(value)}</td></tr>`)
+        .join('')}</table>`;
+    case 'items':
+      if (block.items.length === 0) return '';
+      return `<table role="presentation" width="100%" style="margin:0 0 16px;border:1px solid #e9ecef;border-radius:8px;font-size:14px;">${block.items
+        .map(line => `<tr><td style="padding:8px 16px;color:#333333;">${line.quantity}x ${escapeHtml(line.name)}</td><td style="padding:8px 16px;color:#555555;text-align:right;">${line.price !== undefined ? money(line.price * line.quantity) : ''}</td></tr>`)
+        .join('')}</table>`;
+    case 'button':
+      return `<p style="margin:24px 0;text-align:center;"><a href="${escapeHtml(block.url)}" style="display:inline-block;padding:12px 28px;background:#09215F;color:#ffffff;text-decoration:none;border-radius:8px;font-weight:bold;">${escapeHtml(block.label)}</a></p>`;
+  }
+}
+
+function blockText(block: Block): string {
+  switch (block.kind) {
+    case 'paragraph':
+      return block.text;
+    case 'details':
+      return block.rows.map(([label, value]) => `${label}: ${value}`).join('\n');
+    case 'items':
+      return block.items
+        .map(line => `${line.quantity}x ${line.name}${line.price !== undefined ? ` (${money(line.price * line.quantity)})` : ''}`)
+        .join('\n');
+    case 'button':
+      return `${block.label}: ${block.url}`;
+  }
+}
+
+function layout(subject: string, heading: string, blocks: Array<Block | null>, context: TemplateContext): RenderedEmail {
+  const body = blocks.filter((block): block is Block => block !== null);
+  const { store } = context;
+  const footerLines = [store.store_name, ...store.address_lines, store.phone].filter(Boolean);
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="UTF-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>${escapeHtml(subject)}</title></head>
+<body style="margin:0;padding:20px;background:#f8f9fa;font-family:Arial,sans-serif;">
+<table role="presentation" width="100%" style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:8px;overflow:hidden;">
+<tr><td style="padding:28px 24px;background:linear-gradient(135deg,#97CF50 0%,#09215F 100%);background-color:#09215F;color:#ffffff;text-align:center;">
+<h1 style="margin:0;font-size:24px;">${escapeHtml(heading)}</h1>
+</td></tr>
+<tr><td style="padding:28px 24px;">
+${body.map(blockHtml).join('\n')}
+</td></tr>
+<tr><td style="padding:16px 24px;background:#09215F;color:#ffffff;text-align:center;font-size:12px;line-height:1.5;">
+${footerLines.map(escapeHtml).join('<br>')}${context.unsubscribe_url ? `<br><a href="${escapeHtml(context.unsubscribe_url)}" style="color:#97CF50;">Unsubscribe from these emails</a>` : ''}
+</td></tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    heading,
+    '',
+    ...body.map(blockText).filter(Boolean).flatMap(part => [part, '']),
+    '--',
+    ...footerLines,
+    ...(context.unsubscribe_url ? [`Unsubscribe: ${context.unsubscribe_url}`] : []),
+  ].join('\n');
+
+  return { subject, html, text };
+}
+
+const greeting = (data: EmailData) => paragraph(`Hello ${data.customer_name || 'there'},`);
+
+const templates: Record<EmailType, (data: EmailData, context: TemplateContext) => RenderedEmail> = {
+  order_confirmation: (data, context) =>
+    layout(`Order ${data.order_number} confirmed`, 'Thank you for your order', [
+      greeting(data),
+      paragraph(`We have received your payment for order ${data.order_number} and are getting it ready.`),
+      items(data.items),
+      details([
+        ['Subtotal', data.subtotal !== undefined ? money(data.subtotal) : null],
+        ['Shipping', data.shipping ? money(data.shipping) : null],
+        ['VAT', data.tax ? money(data.tax) : null],
+        ['Total', data.total !== undefined ? money(data.total) : null],
+      ]),
+      data.invoice_number ? paragraph(`Your tax invoice ${data.invoice_number} is attached.`) : null,
+      button('View your order', data.order_page),
+    ], context),
+
+  ready_for_collection: (data, context) =>
+    layout(`Your order ${data.order_number} is ready to collect`, 'Ready for collection', [
+      greeting(data),
+      paragraph(`Order ${data.order_number} is packed and waiting for you. Show this code at the counter to collect it.`),
+      details([
+        ['Collection code', data.collection_code],
+        ['Collection time', data.pickup_slot],
+        ['Collect from', [context.store.store_name, ...context.store.address_lines].filter(Boolean).join(', ')],
+        ['Phone', context.store.phone],
+      ]),
+      data.instructions ? paragraph(data.instructions) : null,
+      items(data.items),
+      button('View your order', data.order_page),
+    ], context),
+
+  order_shipped: (data, context) =>
+    layout(`Your order ${data.order_number} is on its way`, 'Your order has shipped', [
+      greeting(data),
+      paragraph(`A parcel from order ${data.order_number} has been handed to the courier.`),
+      details([
+        ['Courier', data.courier],
+        ['Tracking number', data.tracking_number],
+      ]),
+      items(data.items),
+      button('Track your parcel', data.tracking_url || data.order_page),
+    ], context),
+
+  order_delivered: (data, context) =>
+    layout(
+      data.collected ? `Your order ${data.order_number} has been collected` : `Your order ${data.order_number} has been delivered`,
+      data.collected ? 'Order collected' : 'Order delivered',
+      [
+        greeting(data),
+        paragraph(data.collected
+          ? `Order ${data.order_number} was collected from the store. We hope you enjoy it.`
+          : `Order ${data.order_number} has been delivered. We hope you enjoy it.`),
+        items(data.items),
+        paragraph('If anything is missing or not right, reply to this email and we will sort it out.'),
+        button('View your order', data.order_page),
+      ],
+      context
+    ),
+
+  order_cancelled: (data, context) =>
+    layout(`Your order ${data.order_number} has been cancelled`, 'Order cancelled', [
+      greeting(data),
+      paragraph(`Order ${data.order_number} has been cancelled.`),
+      details([['Reason', data.reason]]),
+      items(data.items),
+      paragraph(data.refund_due
+        ? 'Any payment you made will be refunded to your original payment method; we will email you once it is processed.'
+        : 'You have not been charged for this order.'),
+      button('View your order', data.order_page),
+    ], context),
+
+  order_refunded: (data, context) =>
+    layout(
+      `Refund of ${money(data.amount)} for order ${data.order_number}`,
+      data.fully_refunded ? 'Your order has been refunded' : 'Part of your order has been refunded',
+      [
+        greeting(data),
+        paragraph(`We have refunded ${money(data.amount)} for order ${data.order_number}.`),
+        details([
+          ['Refunded now', money(data.amount)],
+          ['Refunded in total', data.total_refunded !== undefined ? money(data.total_refunded) : null],
+          ['Refunded to', data.method ? REFUND_METHOD_LABELS[data.method] : null],
+        ]),
+        data.method === 'store_credit'
+          ? paragraph('The amount is on a gift card you can spend at the checkout or in store.')
+          : data.method === 'card'
+            ? paragraph('Card refunds usually reach your account within 5 to 10 working days, depending on your bank.')
+            : null,
+        button('View your order', data.order_page),
+      ],
+      context
+    ),
+
+  password_changed: (data, context) =>
+    layout('Your password was changed', 'Password changed', [
+      greeting(data),
+      paragraph(`The password for your account was changed on ${formatDateTime(data.changed_at)}.`),
+      paragraph('If this was you, there is nothing else to do. If it was not, reset your password straight away and let us know.'),
+      button('Reset your password', data.reset_page),
+    ], context),
+
+  shared_cart_paid: (data, context) =>
+    layout(`${data.paid_by || 'Someone'} paid for your shared cart`, 'Your shared cart has been paid', [
+      greeting(data),
+      paragraph(`${data.paid_by || 'The person you shared your cart with'} has paid for it, and it is now order ${data.order_number}.`),
+      details([
+        ['Order', data.order_number],
+        ['Total', data.total !== undefined ? money(data.total) : null],
+      ]),
+      items(data.items),
+    ], context),
+
+  abandoned_cart: (data, context) =>
+    layout('You left something in your cart', 'Still thinking it over?', [
+      greeting(data),
+      paragraph('You left these in your cart. They are still there whenever you are ready.'),
+      items(data.items),
+      details([
+        ['Cart total', data.total !== undefined ? money(data.total) : null],
+        ['Discount code', data.discount_code],
+      ]),
+      data.discount_code
+        ? paragraph(`Use ${data.discount_code} for ${data.discount_percent}% off this order${data.discount_expires_at ? ` before ${formatDateTime(data.discount_expires_at)}` : ''}. The code works once.`)
+        : null,
+      button('Return to your cart', data.cart_url),
+    ], context),
+};
+
+export function renderEmail(type: EmailType, data: EmailData, context: TemplateContext): RenderedEmail {
+  return templates[type](data, context);
+}
@@ -0,0 +1,466 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { EmailData, EmailType, renderEmail } from './email-templates.tsx';
+import { getInvoice, getInvoicePdf } from './invoices.tsx';
+import { getMailProvider, MailAttachment } from './mail.tsx';
+import { getReceiptTemplate } from './receipts.tsx';
+
+// Transactional email.
+//
+// Every email is written to `email_log` before it is handed to the mail
+// provider, then marked sent or failed, and later delivered or bounced when
+// the provider reports back through the email events endpoint. A dedupe key
+// on the row means an event seen twice (the admin page and a webhook, or a
+// retried request) is emailed once. Order and cart emails honour the
+// customer's opt-outs in `email_opt_outs`; account emails, order
+// confirmations and collection codes are always sent.
+// Sending never fails the change that triggered it: callers get false back
+// and the row records why.
+
+export type EmailCategory = 'order_updates' | 'cart_reminders';
+export type EmailStatus = 'queued' | 'sent' | 'delivered' | 'bounced' | 'failed' | 'skipped';
+
+export interface SendEmailRequest {
+  type: EmailType;
+  to: string;
+  data: EmailData;
+  userId?: string | null;
+  orderId?: string | null;
+  dedupeKey?: string;
+}
+
+export interface EmailPreferences {
+  email: string;
+  order_updates: boolean;
+  cart_reminders: boolean;
+}
+
+export class EmailError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'EmailError';
+  }
+}
+
+export const EMAIL_CATEGORIES: Record<EmailType, EmailCategory | null> = {
+  order_confirmation: null,
+  ready_for_collection: null,
+  order_shipped: 'order_updates',
+  order_delivered: 'order_updates',
+  order_cancelled: 'order_updates',
+  order_refunded: 'order_updates',
+  shared_cart_paid: 'order_updates',
+  abandoned_cart: 'cart_reminders',
+  password_changed: null,
+};
+
+const CATEGORIES: EmailCategory[] = ['order_updates', 'cart_reminders'];
+const DELIVERY_STATUSES: EmailStatus[] = ['delivered', 'bounced', 'failed'];
+
+const frontendUrl = () => process.env.FRONTEND_URL || 'http://localhost:5173';
+
+const normaliseEmail = (email: string) => String(email || '').trim().toLowerCase();
+
+function getLinkSecret(): string {
+  const secret = process.env.EMAIL_LINK_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new EmailError('Email links are not configured', 500);
+  }
+  return secret;
+}
+
+// Unsubscribe links carry the address and category, signed so nobody can
+// unsubscribe someone else
+export function unsubscribeToken(email: string, category: EmailCategory): string {
+  const payload = Buffer.from(JSON.stringify({ email: normaliseEmail(email), category })).toString('base64url');
+  const signature = createHmac('sha256', getLinkSecret()).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+function readUnsubscribeToken(token: string): { email: string; category: EmailCategory } {
+  const [payload, signature] = String(token || '').split('.');
+  if (!payload || !signature) {
+    throw new EmailError('This unsubscribe link is not valid');
+  }
+  const expected = createHmac('sha256', getLinkSecret()).update(payload).digest();
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new EmailError('This unsubscribe link is not valid', 403);
+  }
+  const parsed = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (!parsed.email || !CATEGORIES.includes(parsed.category)) {
+    throw new EmailError('This unsubscribe link is not valid');
+  }
+  return parsed;
+}
+
+export async function isOptedOut(supabase: any, email: string, category: EmailCategory): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('email_opt_outs')
+    .select('id')
+    .eq('email', normaliseEmail(email))
+    .eq('category', category)
+    .maybeSingle();
+  if (error) {
+    throw new EmailError(`Failed to check email preferences: ${error.message}`, 500);
+  }
+  return !!data;
+}
+
+// The order's tax invoice goes with its confirmation, so a resend attaches
+// it too. The email still goes if the invoice cannot be read.
+async function loadAttachments(supabase: any, row: any): Promise<MailAttachment[]> {
+  if (row.email_type !== 'order_confirmation' || !row.order_id || !row.data?.invoice_number) {
+    return [];
+  }
+  try {
+    const invoice = await getInvoice(supabase, row.order_id);
+    if (!invoice) return [];
+    return [{
+      filename: `${invoice.invoice_number}.pdf`,
+      content_type: 'application/pdf',
+      content: await getInvoicePdf(supabase, invoice),
+    }];
+  } catch (error) {
+    console.error(`❌ Failed to attach the invoice to email ${row.id}:`, error);
+    return [];
+  }
+}
+
+// Render and hand one logged email to the provider, recording the outcome
+async function deliver(supabase: any, row: any): Promise<boolean> {
+  const category = EMAIL_CATEGORIES[row.email_type as EmailType];
+  const unsubscribeUrl = category
+    ? `${frontendUrl()}/unsubscribe?token=${encodeURIComponent(unsubscribeToken(row.recipient, category))}`
+    : undefined;
+
+  let outcome: Record<string, unknown>;
+  try {
+    const provider = getMailProvider();
+    const store = await getReceiptTemplate(supabase);
+    const rendered = renderEmail(row.email_type, row.data || {}, { store, unsubscribe_url: unsubscribeUrl });
+    const { message_id } = await provider.send({
+      to: row.recipient,
+      ...rendered,
+      headers: unsubscribeUrl ? { 'List-Unsubscribe': `<${unsubscribeUrl}>` } : undefined,
+      attachments: await loadAttachments(supabase, row),
+    });
+    outcome = {
+      status: 'sent',
+      subject: rendered.subject,
+      provider: provider.name,
+      provider_message_id: message_id,
+      error: null,
+      sent_at: new Date().toISOString(),
+    };
+  } catch (error) {
+    console.error(`❌ Failed to send ${row.email_type} email to ${row.recipient}:`, error);
+    outcome = { status: 'failed', error: error instanceof Error ? error.message : String(error) };
+  }
+
+  const { error } = await supabase.from('email_log').update(outcome).eq('id', row.id);
+  if (error) {
+    console.error(`❌ Failed to record ${row.email_type} email ${row.id}:`, error);
+  }
+  if (outcome.status === 'sent') {
+    console.log(`📧 Sent ${row.email_type} email to ${row.recipient}`);
+  }
+  return outcome.status === 'sent';
+}
+
+/**
+ * Log and send one email. Resolves true only when the provider accepted it;
+ * an opted-out recipient, a repeated dedupe key or a provider error all
+ * resolve false.
+ */
+export async function sendEmail(supabase: any, request: SendEmailRequest): Promise<boolean> {
+  const recipient = normaliseEmail(request.to);
+  if (!recipient) {
+    console.warn(`⚠️ Not sending ${request.type} email: no recipient`);
+    return false;
+  }
+
+  const category = EMAIL_CATEGORIES[request.type];
+  const optedOut = category ? await isOptedOut(supabase, recipient, category) : false;
+
+  const { data: row, error } = await supabase
+    .from('email_log')
+    .insert({
+      email_type: request.type,
+      recipient,
+      user_id: request.userId || null,
+      order_id: request.orderId || null,
+      status: optedOut ? 'skipped' : 'queued',
+      error: optedOut ? `Opted out of ${category!.replace('_', ' ')}` : null,
+      dedupe_key: request.dedupeKey || null,
+      data: request.data,
+    })
+    .select()
+    .single();
+
+  if (error?.code === '23505') {
+    return false; // Already sent for this event
+  }
+  if (error) {
+    throw new EmailError(`Failed to log email: ${error.message}`, 500);
+  }
+  if (optedOut) {
+    return false;
+  }
+  return deliver(supabase, row);
+}
+
+/**
+ * Send a logged email again from the facts it was logged with, after a
+ * failure or bounce or when the customer says it never arrived
+ */
+export async function resendEmail(supabase: any, emailId: string): Promise<any> {
+  const { data: row, error } = await supabase.from('email_log').select('*').eq('id', emailId).maybeSingle();
+  if (error) {
+    throw new EmailError(`Failed to load email: ${error.message}`, 500);
+  }
+  if (!row) {
+    throw new EmailError('Email not found', 404);
+  }
+  if (row.status === 'skipped') {
+    throw new EmailError(`${row.recipient} has opted out of this email`, 409);
+  }
+  if (row.status === 'queued') {
+    throw new EmailError('This email is still being sent', 409);
+  }
+
+  await supabase.from('email_log').update({ status: 'queued', error: null }).eq('id', row.id);
+  await deliver(supabase, row);
+
+  const { data: updated } = await supabase.from('email_log').select('*').eq('id', row.id).single();
+  return updated;
+}
+
+/**
+ * A delivery report from the mail provider, matched on the message id it
+ * gave when the email was sent. The provider proves itself with the shared
+ * MAIL_WEBHOOK_SECRET.
+ */
+export async function recordDeliveryEvent(
+  supabase: any,
+  secret: string | undefined,
+  event: { message_id: string; status: string; error?: string | null }
+): Promise<boolean> {
+  const expected = process.env.MAIL_WEBHOOK_SECRET;
+  if (!expected) {
+    throw new EmailError('Mail delivery reports are not configured', 503);
+  }
+  const provided = Buffer.from(String(secret || ''));
+  if (provided.length !== Buffer.byteLength(expected) || !timingSafeEqual(provided, Buffer.from(expected))) {
+    throw new EmailError('Invalid webhook secret', 401);
+  }
+
+  const messageId = String(event.message_id || '').replace(/^<|>$/g, '');
+  if (!messageId) {
+    throw new EmailError('message_id is required');
+  }
+  if (!DELIVERY_STATUSES.includes(event.status as EmailStatus)) {
+    throw new EmailError(`status must be one of: ${DELIVERY_STATUSES.join(', ')}`);
+  }
+
+  const { data, error } = await supabase
+    .from('email_log')
+    .update({ status: event.status, error: event.error || null })
+    .eq('provider_message_id', messageId)
+    .select('id');
+  if (error) {
+    throw new EmailError(`Failed to record delivery: ${error.message}`, 500);
+  }
+  return (data || []).length > 0;
+}
+
+export async function getEmailPreferences(supabase: any, user: { id: string; email: string }): Promise<EmailPreferences> {
+  const email = normaliseEmail(user.email);
+  const { data, error } = await supabase.from('email_opt_outs').select('category').eq('email', email);
+  if (error) {
+    throw new EmailError(`Failed to load email preferences: ${error.message}`, 500);
+  }
+  const optedOut = new Set((data || []).map((row: any) => row.category));
+  return {
+    email,
+    order_updates: !optedOut.has('order_updates'),
+    cart_reminders: !optedOut.has('cart_reminders'),
+  };
+}
+
+export async function saveEmailPreferences(
+  supabase: any,
+  user: { id: string; email: string },
+  input: Partial<Record<EmailCategory, boolean>>
+): Promise<EmailPreferences> {
+  const email = normaliseEmail(user.email);
+  for (const category of CATEGORIES) {
+    if (typeof input[category] !== 'boolean') continue;
+    const { error } = input[category]
+      ? await supabase.from('email_opt_outs').delete().eq('email', email).eq('category', category)
+      : await supabase
+          .from('email_opt_outs')
+          .upsert({ email, category, user_id: user.id }, { onConflict: 'email,category', ignoreDuplicates: true });
+    if (error) {
+      throw new EmailError(`Failed to save email preferences: ${error.message}`, 500);
+    }
+  }
+  return getEmailPreferences(supabase, user);
+}
+
+/**
+ * Opt out through the link in an email; works without signing in
+ */
+export async function unsubscribe(supabase: any, token: string): Promise<{ email: string; category: EmailCategory }> {
+  const { email, category } = readUnsubscribeToken(token);
+  const { error } = await supabase
+    .from('email_opt_outs')
+    .upsert({ email, category }, { onConflict: 'email,category', ignoreDuplicates: true });
+  if (error) {
+    throw new EmailError(`Failed to unsubscribe: ${error.message}`, 500);
+  }
+  return { email, category };
+}
+
+// ==================== Order emails ====================
+
+const ORDER_EMAIL_COLUMNS = `
+  id, order_number, status, payment_status, fulfillment_method, total, customer_id, customer_email,
+  billing_address, shipping_address, order_items (quantity, unit_price, product_snapshot)
+`;
+
+async function loadOrder(supabase: any, orderId: string) {
+  const { data, error } = await supabase.from('orders').select(ORDER_EMAIL_COLUMNS).eq('id', orderId).maybeSingle();
+  if (error) {
+    throw new EmailError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new EmailError('Order not found', 404);
+  }
+  return data;
+}
+
+// What every order email knows about its order
+function orderFacts(order: any): { to: string; data: EmailData } {
+  const address = order.billing_address || order.shipping_address || {};
+  return {
+    to: order.customer_email || address.email || '',
+    data: {
+      customer_name: [address.first_name, address.last_name].filter(Boolean).join(' ') || undefined,
+      order_number: order.order_number,
+      order_page: `${frontendUrl()}/track-order?order=${encodeURIComponent(order.order_number)}`,
+      items: (order.order_items || []).map((item: any) => ({
+        name: item.product_snapshot?.name || 'Item',
+        quantity: Number(item.quantity),
+        price: item.unit_price !== undefined && item.unit_price !== null ? Number(item.unit_price) : undefined,
+      })),
+    },
+  };
+}
+
+/**
+ * Email the customer about an order. `dedupeKey` defaults to one email per
+ * type per order; pass one when an order can have several (parcels, refunds).
+ */
+export async function sendOrderEmail(
+  supabase: any,
+  orderId: string,
+  type: EmailType,
+  extra: EmailData = {},
+  dedupeKey: string = `${type}:${orderId}`
+): Promise<boolean> {
+  const order = await loadOrder(supabase, orderId);
+  const { to, data } = orderFacts(order);
+  return sendEmail(supabase, {
+    type,
+    to,
+    userId: order.customer_id,
+    orderId: order.id,
+    data: { ...data, ...extra },
+    dedupeKey,
+  });
+}
+
+/**
+ * Email the customer when their order has become delivered or cancelled.
+ * Safe to call after any status change; other statuses send nothing.
+ */
+export async function notifyOrderStatus(supabase: any, orderId: string): Promise<boolean> {
+  const order = await loadOrder(supabase, orderId);
+  if (order.status === 'delivered') {
+    return sendOrderEmail(supabase, order.id, 'order_delivered', { collected: order.fulfillment_method === 'collect' });
+  }
+  if (order.status === 'cancelled') {
+    return sendOrderEmail(supabase, order.id, 'order_cancelled', {
+      refund_due: ['paid', 'partially_refunded'].includes(order.payment_status),
+    });
+  }
+  return false;
+}
+
+/**
+ * Tell whoever shared a cart that it has been paid for. Keyed on the cart,
+ * so the webhook and a repeat of it email once.
+ */
+export async function notifySharedCartPaid(supabase: any, orderId: string): Promise<boolean> {
+  const { data: cart, error } = await supabase
+    .from('shareable_carts')
+    .select('id, original_user_id, paid_by_user_id')
+    .eq('order_id', orderId)
+    .maybeSingle();
+  if (error) {
+    throw new EmailError(`Failed to load shared cart: ${error.message}`, 500);
+  }
+  if (!cart?.original_user_id) {
+    return false;
+  }
+
+  const { data: profiles, error: profileError } = await supabase
+    .from('user_profiles')
+    .select('id, email, first_name, last_name')
+    .in('id', [cart.original_user_id, cart.paid_by_user_id].filter(Boolean));
+  if (profileError) {
+    throw new EmailError(`Failed to load shared cart owner: ${profileError.message}`, 500);
+  }
+  const owner = (profiles || []).find((profile: any) => profile.id === cart.original_user_id);
+  if (!owner?.email) {
+    return false;
+  }
+
+  const order = await loadOrder(supabase, orderId);
+  const { data } = orderFacts(order);
+  const payer = (profiles || []).find((profile: any) => profile.id === cart.paid_by_user_id);
+  const address = order.billing_address || {};
+  const paidBy = [payer?.first_name ?? address.first_name, payer?.last_name ?? address.last_name].filter(Boolean).join(' ');
+
+  return sendEmail(supabase, {
+    type: 'shared_cart_paid',
+    to: owner.email,
+    userId: owner.id,
+    orderId: order.id,
+    data: {
+      ...data,
+      customer_name: [owner.first_name, owner.last_name].filter(Boolean).join(' ') || undefined,
+      paid_by: paidBy || undefined,
+      total: Number(order.total || 0),
+    },
+    dedupeKey: `shared_cart_paid:${cart.id}`,
+  });
+}
+
+export async function sendPasswordChangedEmail(supabase: any, user: { id: string; email: string }): Promise<boolean> {
+  const { data: profile } = await supabase
+    .from('user_profiles')
+    .select('first_name, last_name')
+    .eq('id', user.id)
+    .maybeSingle();
+  return sendEmail(supabase, {
+    type: 'password_changed',
+    to: user.email,
+    userId: user.id,
+    data: {
+      customer_name: [profile?.first_name, profile?.last_name].filter(Boolean).join(' ') || undefined,
+      changed_at: new Date().toISOString(),
+      reset_page: `${frontendUrl()}/reset-password`,
+    },
+  });
+}
@@ -0,0 +1,241 @@
+import { generateGiftCardCode } from './utils.tsx';
+
+// Gift cards / store vouchers.
+//
+// A card is issued by a manager with a GC- code and a value, and spent as a
+// tender at the POS. Every balance change is a row in `gift_card_transactions`
+// written by the apply_gift_card_transaction() database function, which locks
+// the card and refuses to take it below zero. A (card, type, reference) triple
+// is unique, so redeeming or reversing the same sale twice is a no-op.
+//
+// The POS redeems a sale's vouchers before it creates the order, using the
+// sale's transaction id as the reference, and reverses them if the order is
+// not recorded.
+
+export type GiftCardTransactionType = 'issue' | 'redeem' | 'reverse';
+
+export interface IssueGiftCardRequest {
+  amount: number;
+  expires_at?: string | null;
+  notes?: string;
+}
+
+export interface GiftCardRedemptionRequest {
+  code: string;
+  amount: number;
+}
+
+export class GiftCardError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'GiftCardError';
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const normaliseCode = (code: string) => String(code || '').trim().toUpperCase();
+
+async function applyGiftCardTransaction(
+  supabase: any,
+  giftCardId: string,
+  type: GiftCardTransactionType,
+  amount: number,
+  reference: string,
+  userId: string | null
+) {
+  const { data, error } = await supabase.rpc('apply_gift_card_transaction', {
+    gift_card_id: giftCardId,
+    transaction_type: type,
+    amount: roundCurrency(amount),
+    reference,
+    order_id: null,
+    created_by: userId,
+  });
+
+  if (error) {
+    if (String(error.message || '').includes('Insufficient gift card balance')) {
+      throw new GiftCardError('The gift card does not have enough balance left', 409);
+    }
+    throw new GiftCardError(`Failed to update gift card: ${error.message}`, 500);
+  }
+
+  return data && data.id ? data : null;
+}
+
+export async function issueGiftCard(supabase: any, userId: string, request: IssueGiftCardRequest) {
+  const amount = roundCurrency(Number(request.amount));
+  if (!amount || amount <= 0) {
+    throw new GiftCardError('Enter the value of the gift card');
+  }
+  if (request.expires_at && new Date(request.expires_at).getTime() <= Date.now()) {
+    throw new GiftCardError('The expiry date must be in the future');
+  }
+
+  const { data: card, error } = await supabase
+    .from('gift_cards')
+    .insert({
+      code: generateGiftCardCode(),
+      initial_value: amount,
+      balance: 0,
+      expires_at: request.expires_at || null,
+      notes: String(request.notes || '').trim() || null,
+      issued_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new GiftCardError(`Failed to issue gift card: ${error.message}`, 500);
+  }
+
+  await applyGiftCardTransaction(supabase, card.id, 'issue', amount, card.code, userId);
+  return { ...card, balance: amount };
+}
+
+export async function listGiftCards(supabase: any, filters: { search?: string } = {}) {
+  let query = supabase
+    .from('gift_cards')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(200);
+
+  if (filters.search) {
+    query = query.ilike('code', `%${normaliseCode(filters.search)}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new GiftCardError(`Failed to load gift cards: ${error.message}`, 500);
+  }
+  return data || [];
+}
+
+/**
+ * Cancel a lost or stolen card, or reinstate it
+ */
+export async function setGiftCardActive(supabase: any, giftCardId: string, isActive: boolean) {
+  const { data, error } = await supabase
+    .from('gift_cards')
+    .update({ is_active: isActive })
+    .eq('id', giftCardId)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new GiftCardError(`Failed to update gift card: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new GiftCardError('Gift card not found', 404);
+  }
+  return data;
+}
+
+/**
+ * A card that can be spent right now, looked up by the code on the voucher
+ */
+export async function getSpendableGiftCard(supabase: any, code: string) {
+  const { data: card, error } = await supabase
+    .from('gift_cards')
+    .select('id, code, balance, is_active, expires_at')
+    .eq('code', normaliseCode(code))
+    .maybeSingle();
+
+  if (error) {
+    throw new GiftCardError(`Failed to look up gift card: ${error.message}`, 500);
+  }
+  if (!card) {
+    throw new GiftCardError('Gift card not found', 404);
+  }
+  if (!card.is_active) {
+    throw new GiftCardError('This gift card has been cancelled', 409);
+  }
+  if (card.expires_at && new Date(card.expires_at).getTime() <= Date.now()) {
+    throw new GiftCardError('This gift card has expired', 409);
+  }
+
+  return { ...card, balance: Number(card.balance) };
+}
+
+/**
+ * Take a sale's voucher tenders off their cards. Either every card is
+ * charged or, if one fails, none are.
+ */
+export async function redeemGiftCards(
+  supabase: any,
+  userId: string,
+  reference: string,
+  redemptions: GiftCardRedemptionRequest[]
+) {
+  if (!reference) {
+    throw new GiftCardError('A sale reference is required');
+  }
+  if (!Array.isArray(redemptions) || redemptions.length === 0) {
+    throw new GiftCardError('No gift cards to redeem');
+  }
+
+  const codes = redemptions.map(redemption => normaliseCode(redemption.code));
+  if (new Set(codes).size !== codes.length) {
+    throw new GiftCardError('Each gift card can only be used once per sale');
+  }
+
+  const cards = [];
+  for (const redemption of redemptions) {
+    const amount = roundCurrency(Number(redemption.amount));
+    if (!amount || amount <= 0) {
+      throw new GiftCardError(`Enter the amount to take off ${normaliseCode(redemption.code)}`);
+    }
+    const card = await getSpendableGiftCard(supabase, redemption.code);
+    if (amount > card.balance) {
+      throw new GiftCardError(`${card.code} only has R${card.balance.toFixed(2)} left`, 409);
+    }
+    cards.push({ card, amount });
+  }
+
+  const redeemed = [];
+  try {
+    for (const { card, amount } of cards) {
+      const transaction = await applyGiftCardTransaction(supabase, card.id, 'redeem', -amount, reference, userId);
+      redeemed.push({
+        code: card.code,
+        amount,
+        balance_after: transaction ? Number(transaction.balance_after) : card.balance,
+      });
+    }
+  } catch (error) {
+    await reverseGiftCardRedemptions(supabase, userId, reference);
+    throw error;
+  }
+
+  return redeemed;
+}
+
+/**
+ * Put a sale's voucher tenders back on their cards, e.g. when the order
+ * could not be recorded after the cards were charged
+ */
+export async function reverseGiftCardRedemptions(supabase: any, userId: string, reference: string) {
+  const { data: redemptions, error } = await supabase
+    .from('gift_card_transactions')
+    .select('gift_card_id, amount')
+    .eq('transaction_type', 'redeem')
+    .eq('reference', reference);
+
+  if (error) {
+    throw new GiftCardError(`Failed to load gift card redemptions: ${error.message}`, 500);
+  }
+
+  let reversed = 0;
+  for (const redemption of redemptions || []) {
+    const transaction = await applyGiftCardTransaction(
+      supabase,
+      redemption.gift_card_id,
+      'reverse',
+      -Number(redemption.amount),
+      reference,
+      userId
+    );
+    if (transaction) reversed++;
+  }
+  return { reversed };
+}
@@ -4,8 +4,128 @@ import { logger } from 'hono/logger';
 import { handle } from 'hono/vercel';
 import { createClient } from '@supabase/supabase-js';
 import * as kv from './kv_store.tsx';
+import {
+  markOrderPaid,
+  markOrderPaymentFailed,
+  markOrderRefunded,
+  recordWebhookEvent,
+  hasProcessedWebhookEvent,
+  sendOrderConfirmationEmail
+} from './order-payments.tsx';
+import { createRefund, createReturn, getRefundableLines, lookupReturn, RefundError } from './refunds.tsx';
+import { confirmOrderPricing, priceCart, PricingError, signQuote } from './pricing.tsx';
+import { awardOrderPoints, expireAllPoints, getLoyaltySummary, LoyaltyError, searchLoyaltyMembers, syncOrderLoyalty } from './loyalty.tsx';
+import {
+  deleteReview,
+  getReviewEligibility,
+  listProductReviews,
+  listReviewsForModeration,
+  moderateReview,
+  parseReviewStatus,
+  ReviewError,
+  submitReview
+} from './reviews.tsx';
+import { adjustStock, getStockReconciliation, InventoryError, listStockMovements, takeOrderStock } from './inventory.tsx';
+import { getProductCostHistory, PurchasingError, receivePurchaseOrder } from './purchasing.tsx';
+import {
+  createStockTake,
+  getStockTake,
+  listStockTakes,
+  recordCounts,
+  reviewStockTake,
+  StockTakeError,
+  submitStockTake
+} from './stock-takes.tsx';
+import {
+  closeShift,
+  getOpenShift,
+  getShiftReport,
+  listShifts,
+  openShift,
+  recordCashMovement,
+  reviewShift,
+  ShiftError
+} from './shifts.tsx';
+import {
+  getSpendableGiftCard,
+  GiftCardError,
+  issueGiftCard,
+  listGiftCards,
+  redeemGiftCards,
+  reverseGiftCardRedemptions,
+  setGiftCardActive
+} from './gift-cards.tsx';
+import {
+  discardParkedSale,
+  listParkedSales,
+  parkSale,
+  ParkedSaleError,
+  recallParkedSale
+} from './parked-sales.tsx';
+import {
+  acceptOfflineSale,
+  listOfflineSales,
+  OfflineSaleError,
+  parseOfflineSaleStatus,
+  syncOfflineSale,
+  voidOfflineSale
+} from './offline-sales.tsx';
+import {
+  authoriseOverride,
+  authorisePricing,
+  listApprovers,
+  listOverrides,
+  OverrideError,
+  setOverridePin
+} from './overrides.tsx';
+import {
+  buildReceipt,
+  getReceiptTemplate,
+  ReceiptError,
+  saveReceiptTemplate
+} from './receipts.tsx';
+import {
+  CollectionError,
+  collectOrder,
+  getCollectionSettings,
+  listPickupSlots,
+  lookupCollection,
+  markReadyForCollection,
+  saveCollectionSettings
+} from './collection.tsx';
+import {
+  getInvoicePdf,
+  InvoiceError,
+  issueInvoice
+} from './invoices.tsx';
+import { getSearchSuggestions, logSearch, parseSearchParams, SearchError, searchProducts } from './search.tsx';
+import { createShipment, getOrderTracking, ShipmentError, trackOrder, updateShipmentStatus } from './shipments.tsx';
+import {
+  EmailError,
+  getEmailPreferences,
+  notifyOrderStatus,
+  recordDeliveryEvent,
+  resendEmail,
+  saveEmailPreferences,
+  sendPasswordChangedEmail,
+  unsubscribe,
+} from './emails.tsx';
+import {
+  CartRecoveryError,
+  checkCronSecret,
+  getCartRecoveryReport,
+  getCartRecoverySettings,
+  getSavedCart,
+  restoreCart,
+  runAbandonedCartJob,
+  saveCart,
+  saveCartRecoverySettings,
+} from './cart-recovery.tsx';
+import { authenticateUser, optionalAuth, rateLimit, requireRole } from './middleware.tsx';
+import { createErrorResponse, createSuccessResponse } from './utils.tsx';
 
-const app = new Hono();
+// Variables set by authenticateUser for routes that require a signed-in user
+const app = new Hono<{ Variables: { user: any; userProfile: any } }>();
 
 // Enhanced CORS configuration
 app.use('*', cors({
@@ -48,7 +168,8 @@ app.get('/make-server-8880f2f2/health', (c) => {
       init_database: '/make-server-8880f2f2/init-database (requires auth)',
       add_product: '/make-server-8880f2f2/barcode/add-product (requires auth)',
       stripe_create_payment_intent: '/make-server-8880f2f2/stripe/create-payment-intent',
-      stripe_confirm_payment: '/make-server-8880f2f2/stripe/confirm-payment'
+      stripe_webhook: '/make-server-8880f2f2/stripe/webhook',
+      pricing_quote: '/make-server-8880f2f2/pricing/quote'
     }
   });
 });
@@ -287,6 +408,45 @@ app.get('/make-server-8880f2f2/products', async (c) => {
   }
 });
 
+// Search products with filters, facet counts and cursor paging - public endpoint
+app.get('/make-server-8880f2f2/products/search', async (c) => {
+  try {
+    const result = await searchProducts(supabase, parseSearchParams(c.req.query()));
+    return c.json(createSuccessResponse('Products found', result));
+  } catch (error: any) {
+    console.error('❌ Error searching products:', error);
+    const status = error instanceof SearchError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to search products', error.message || 'Unknown error'), status);
+  }
+});
+
+// Type-ahead suggestions for the search box - public endpoint
+app.get('/make-server-8880f2f2/products/suggest', async (c) => {
+  try {
+    const suggestions = await getSearchSuggestions(supabase, c.req.query('q') || '');
+    c.header('Cache-Control', 'public, max-age=60');
+    return c.json(createSuccessResponse('Suggestions loaded', suggestions));
+  } catch (error: any) {
+    console.error('❌ Error loading search suggestions:', error);
+    const status = error instanceof SearchError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load suggestions', error.message || 'Unknown error'), status);
+  }
+});
+
+// Record a search the shopper settled on - public, signed-in shoppers are linked
+app.post('/make-server-8880f2f2/products/search/log', optionalAuth, async (c) => {
+  try {
+    const user = c.get('user');
+    const { query } = await c.req.json().catch(() => ({}));
+    const result = await logSearch(supabase, query, user?.id);
+    return c.json(createSuccessResponse('Search logged', result));
+  } catch (error: any) {
+    console.error('❌ Error logging search:', error);
+    const status = error instanceof SearchError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to log search', error.message || 'Unknown error'), status);
+  }
+});
+
 // Barcode lookup endpoint - public endpoint
 app.post('/make-server-8880f2f2/barcode/lookup', async (c) => {
   try {
@@ -431,16 +591,37 @@ app.post('/make-server-8880f2f2/barcode/add-product', async (c) => {
 // Create Stripe payment intent
 app.post('/make-server-8880f2f2/stripe/create-payment-intent', async (c) => {
   try {
-    const { amount, currency, customerEmail, customerName } = await c.req.json();
+    const { currency, customerEmail, customerName, orderId } = await c.req.json();
 
     // Validate required fields
-    if (!amount || !currency) {
+    if (!orderId || !currency) {
       return c.json({ 
         success: false, 
-        error: 'Missing required fields: amount and currency are required' 
+        error: 'Missing required fields: orderId and currency are required' 
       }, 400);
     }
 
+    // Orders are charged what their confirmed price quote says, never what the browser sends
+    const { data: order, error: orderError } = await supabase
+      .from('orders')
+      .select('id, order_number, total, status, pricing_verified_at')
+      .eq('id', orderId)
+      .maybeSingle();
+
+    if (orderError || !order) {
+      return c.json({ success: false, error: 'Order not found' }, 404);
+    }
+    if (!order.pricing_verified_at) {
+      return c.json({ success: false, error: 'Order pricing has not been confirmed' }, 409);
+    }
+    if (order.status === 'cancelled') {
+      return c.json({ success: false, error: 'Order has been cancelled' }, 409);
+    }
+    const amount = Number(order.total);
+    if (!(amount > 0)) {
+      return c.json({ success: false, error: 'Order has nothing to pay' }, 409);
+    }
+
     // Get Stripe secret key from environment
     const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
     
@@ -463,6 +644,9 @@ app.post('/make-server-8880f2f2/stripe/create-payment-intent', async (c) => {
       metadata: {
         customer_email: customerEmail || '',
         customer_name: customerName || '',
+        // Lets the webhook find the order even if the customer never returns
+        order_id: order.id,
+        order_number: order.order_number,
       },
       automatic_payment_methods: {
         enabled: true,
@@ -471,6 +655,15 @@ app.post('/make-server-8880f2f2/stripe/create-payment-intent', async (c) => {
 
     console.log('✅ Payment intent created:', paymentIntent.id);
 
+    const { error: linkError } = await supabase
+      .from('orders')
+      .update({ payment_intent_id: paymentIntent.id })
+      .eq('id', order.id);
+
+    if (linkError) {
+      console.warn('⚠️ Could not link payment intent to order:', linkError.message);
+    }
+
     return c.json({
       success: true,
       clientSecret: paymentIntent.client_secret,
@@ -485,61 +678,6 @@ app.post('/make-server-8880f2f2/stripe/create-payment-intent', async (c) => {
   }
 });
 
-// Confirm Stripe payment
-app.post('/make-server-8880f2f2/stripe/confirm-payment', async (c) => {
-  try {
-    const { paymentMethodId, amount, currency, customerEmail } = await c.req.json();
-
-    if (!paymentMethodId || !amount || !currency) {
-      return c.json({ 
-        success: false, 
-        error: 'Missing required fields' 
-      }, 400);
-    }
-
-    // Get Stripe secret key from environment
-    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-    
-    if (!stripeSecretKey) {
-      return c.json({ 
-        success: false, 
-        error: 'Stripe configuration error' 
-      }, 500);
-    }
-
-    const Stripe = (await import('stripe')).default;
-    const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
-
-    // Create and confirm payment intent in one step
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100),
-      currency: currency.toLowerCase(),
-      payment_method: paymentMethodId,
-      confirm: true,
-      receipt_email: customerEmail,
-      return_url: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/orders`,
-    });
-
-    console.log('✅ Payment confirmed:', paymentIntent.id, 'Status:', paymentIntent.status);
-
-    return c.json({
-      success: true,
-      paymentIntent: {
-        id: paymentIntent.id,
-        status: paymentIntent.status,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-      },
-    });
-  } catch (error: any) {
-    console.error('❌ Error confirming payment:', error);
-    return c.json({ 
-      success: false, 
-      error: error.message || 'Failed to confirm payment' 
-    }, 500);
-  }
-});
-
 // Retrieve payment method details
 app.post('/make-server-8880f2f2/stripe/payment-method-details', async (c) => {
   try {
@@ -617,29 +755,1319 @@ app.post('/make-server-8880f2f2/stripe/webhook', async (c) => {
     const stripe = new Stripe(stripeSecretKey, { apiVersion: '2024-12-18.acacia' });
 
     // Verify webhook signature
-    const event = stripe.webhooks.constructEvent(body, sig, webhookSecret);
+    let event;
+    try {
+      event = stripe.webhooks.constructEvent(body, sig, webhookSecret);
+    } catch (error: any) {
+      console.error('❌ Webhook signature verification failed:', error.message);
+      return c.json({ 
+        success: false, 
+        error: error.message || 'Invalid stripe signature' 
+      }, 400);
+    }
+
+    // Stripe retries deliveries; acknowledge events we have already applied
+    if (await hasProcessedWebhookEvent(supabase, event.id)) {
+      console.log(`↩️ Webhook event ${event.id} already processed`);
+      return c.json({ success: true, received: true, duplicate: true });
+    }
 
     // Handle the event
+    let result;
     switch (event.type) {
       case 'payment_intent.succeeded':
         console.log('✅ Payment succeeded:', event.data.object.id);
-        // TODO: Update order status in database
+        result = await markOrderPaid(supabase, event.data.object, {
+          sendConfirmation: async (order) => {
+            // The invoice is attached when it can be issued; the email still goes without it
+            const invoiceNumber = await issueInvoice(supabase, order.id)
+              .then((issued) => issued.invoice_number)
+              .catch((invoiceError) => {
+                console.error(`❌ Tax invoice for order ${order.order_number} failed:`, invoiceError);
+                return null;
+              });
+            return sendOrderConfirmationEmail(supabase, order, invoiceNumber);
+          }
+        });
+        if (result.orderId && result.paymentStatus === 'paid') {
+          await awardOrderPoints(supabase, result.orderId);
+        }
         break;
       case 'payment_intent.payment_failed':
         console.log('❌ Payment failed:', event.data.object.id);
-        // TODO: Handle failed payment
+        result = await markOrderPaymentFailed(supabase, event.data.object);
+        break;
+      case 'charge.refunded':
+        console.log('↩️ Charge refunded:', event.data.object.id);
+        result = await markOrderRefunded(supabase, event.data.object);
+        if (result.orderId) {
+          await syncOrderLoyalty(supabase, result.orderId);
+        }
         break;
       default:
         console.log(`Unhandled event type: ${event.type}`);
     }
 
-    return c.json({ success: true, received: true });
+    if (result) {
+      console.log(`${result.handled ? '📦' : '⚠️'} ${result.message}`);
+    }
+
+    await recordWebhookEvent(supabase, event, result?.orderId);
+
+    return c.json({ success: true, received: true, order_id: result?.orderId || null });
   } catch (error: any) {
+    // Anything past signature verification is retried by Stripe on a 5xx
     console.error('❌ Webhook error:', error);
     return c.json({ 
       success: false, 
       error: error.message || 'Webhook handling failed' 
-    }, 400);
+    }, 500);
+  }
+});
+
+// ==================== PRICING ENDPOINTS ====================
+
+// Price a cart from the database and return a signed quote - public, signed-in users get per-customer limits
+app.post('/make-server-8880f2f2/pricing/quote', optionalAuth, async (c) => {
+  try {
+    const { items, promoCodes, channel, manualDiscountPercent, overrideIds, loyaltyCustomerId, loyaltyPoints, destination, shippingMethodId } = await c.req.json();
+    const user = c.get('user');
+    const userProfile = c.get('userProfile');
+
+    const isStaff = ['cashier', 'staff', 'manager', 'admin'].includes(userProfile?.role);
+    if (channel === 'pos' && !isStaff) {
+      return c.json(createErrorResponse('Insufficient permissions', 'POS quotes require a cashier account'), 403);
+    }
+
+    // Discounts above the cashier's limit and changed prices need an override
+    const authorised = channel === 'pos'
+      ? await authorisePricing(supabase, { id: user.id, role: userProfile.role }, { manualDiscountPercent, overrideIds })
+      : null;
+
+    const quote = await priceCart(supabase, {
+      lines: items,
+      promoCodes,
+      channel,
+      // Walk-in POS sales are not tied to the cashier's own promotion history
+      customerId: channel === 'pos' ? null : user?.id,
+      manualDiscountPercent: authorised?.manualDiscountPercent,
+      priceOverrides: authorised?.priceOverrides,
+      // Online orders earn for the shopper; at the till the cashier picks the member
+      loyaltyCustomerId: channel === 'pos' ? loyaltyCustomerId || null : user?.id,
+      loyaltyPoints,
+      destination,
+      shippingMethodId
+    });
+
+    return c.json(createSuccessResponse('Quote created', { quote, token: signQuote(quote) }));
+  } catch (error: any) {
+    console.error('❌ Error pricing cart:', error);
+    const status = error instanceof PricingError || error instanceof OverrideError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to price cart', error.message || 'Unknown error'), status);
+  }
+});
+
+// Check a new order against its quote - requires the order's customer, or cashier, staff, manager or admin; guest orders need only the signed quote
+app.post('/make-server-8880f2f2/orders/:orderId/pricing', optionalAuth, async (c) => {
+  try {
+    const orderId = c.req.param('orderId');
+    const { quote } = await c.req.json();
+    const user = c.get('user');
+    const userProfile = c.get('userProfile');
+
+    const result = await confirmOrderPricing(supabase, orderId, quote, user ? { id: user.id, role: userProfile?.role } : null);
+    return c.json(createSuccessResponse('Order pricing confirmed', result));
+  } catch (error: any) {
+    console.error('❌ Error confirming order pricing:', error);
+    const status = error instanceof PricingError ? error.status : 500;
+    return c.json(createErrorResponse('Order pricing rejected', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== LOYALTY ENDPOINTS ====================
+
+// Points balance, history and points about to expire - requires auth
+app.get('/make-server-8880f2f2/loyalty/me', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const summary = await getLoyaltySummary(supabase, user.id);
+    return c.json(createSuccessResponse('Loyalty summary loaded', summary));
+  } catch (error: any) {
+    console.error('❌ Error loading loyalty summary:', error);
+    const status = error instanceof LoyaltyError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load loyalty points', error.message || 'Unknown error'), status);
+  }
+});
+
+// Find a loyalty member by email, phone or name - requires cashier or above
+app.get('/make-server-8880f2f2/loyalty/customers', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const members = await searchLoyaltyMembers(supabase, c.req.query('q') || '');
+    return c.json(createSuccessResponse('Customers found', members));
+  } catch (error: any) {
+    console.error('❌ Error searching loyalty members:', error);
+    const status = error instanceof LoyaltyError ? error.status : 500;
+    return c.json(createErrorResponse('Customer lookup failed', error.message || 'Unknown error'), status);
+  }
+});
+
+// Reverse points for a cancelled or refunded order - requires admin or manager
+app.post('/make-server-8880f2f2/orders/:orderId/loyalty/sync', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const result = await syncOrderLoyalty(supabase, c.req.param('orderId'));
+    return c.json(createSuccessResponse('Loyalty points updated', result));
+  } catch (error: any) {
+    console.error('❌ Error syncing order loyalty points:', error);
+    const status = error instanceof LoyaltyError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to update loyalty points', error.message || 'Unknown error'), status);
+  }
+});
+
+// Scheduled loyalty point expiry - requires the cron secret (Vercel Cron sends GET)
+app.get('/make-server-8880f2f2/loyalty/expire/run', async (c) => {
+  try {
+    checkCronSecret(c.req.header('authorization'));
+    const result = await expireAllPoints(supabase);
+    console.log(`⌛ Expired ${result.points} loyalty points for ${result.customers} members`);
+    return c.json(createSuccessResponse('Expired points processed', result));
+  } catch (error: any) {
+    console.error('❌ Error expiring loyalty points:', error);
+    const status = error instanceof LoyaltyError || error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to expire loyalty points', error.message || 'Unknown error'), status);
+  }
+});
+
+// Expire lapsed points for every member now - requires admin
+app.post('/make-server-8880f2f2/loyalty/expire', authenticateUser, requireRole(['admin']), async (c) => {
+  try {
+    const result = await expireAllPoints(supabase);
+    console.log(`⌛ Expired ${result.points} loyalty points for ${result.customers} members`);
+    return c.json(createSuccessResponse('Expired points processed', result));
+  } catch (error: any) {
+    console.error('❌ Error expiring loyalty points:', error);
+    const status = error instanceof LoyaltyError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to expire loyalty points', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== REVIEW ENDPOINTS ====================
+
+// Approved reviews and rating breakdown for a product - public endpoint
+app.get('/make-server-8880f2f2/products/:productId/reviews', async (c) => {
+  try {
+    const page = parseInt(c.req.query('page') || '1') || 1;
+    const result = await listProductReviews(supabase, c.req.param('productId'), page);
+    return c.json(createSuccessResponse('Reviews loaded', result));
+  } catch (error: any) {
+    console.error('❌ Error loading reviews:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load reviews', error.message || 'Unknown error'), status);
+  }
+});
+
+// Whether the signed-in customer may review a product, and their review - requires auth
+app.get('/make-server-8880f2f2/products/:productId/reviews/eligibility', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const result = await getReviewEligibility(supabase, user.id, c.req.param('productId'));
+    return c.json(createSuccessResponse('Review eligibility loaded', result));
+  } catch (error: any) {
+    console.error('❌ Error checking review eligibility:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to check review eligibility', error.message || 'Unknown error'), status);
+  }
+});
+
+// Write or edit a review of a delivered product - requires auth
+app.post('/make-server-8880f2f2/products/:productId/reviews', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const { rating, title, text, photos } = await c.req.json();
+    const review = await submitReview(supabase, user.id, c.req.param('productId'), { rating, title, text, photos });
+    return c.json(createSuccessResponse('Review submitted for moderation', review));
+  } catch (error: any) {
+    console.error('❌ Error submitting review:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to submit review', error.message || 'Unknown error'), status);
+  }
+});
+
+// Moderation queue - requires admin or manager
+app.get('/make-server-8880f2f2/reviews/moderation', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const reviews = await listReviewsForModeration(supabase, parseReviewStatus(c.req.query('status')));
+    return c.json(createSuccessResponse('Reviews loaded', reviews));
+  } catch (error: any) {
+    console.error('❌ Error loading moderation queue:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load reviews', error.message || 'Unknown error'), status);
+  }
+});
+
+// Approve or reject a review - requires admin or manager
+app.post('/make-server-8880f2f2/reviews/:reviewId/moderate', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { action, reason } = await c.req.json();
+    const review = await moderateReview(supabase, c.req.param('reviewId'), action, user.id, reason);
+    return c.json(createSuccessResponse(action === 'approve' ? 'Review approved' : 'Review rejected', review));
+  } catch (error: any) {
+    console.error('❌ Error moderating review:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to moderate review', error.message || 'Unknown error'), status);
+  }
+});
+
+// Delete a review - requires auth; customers delete their own, moderators any
+app.delete('/make-server-8880f2f2/reviews/:reviewId', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const isModerator = ['admin', 'manager'].includes(c.get('userProfile')?.role);
+    const result = await deleteReview(supabase, c.req.param('reviewId'), user.id, isModerator);
+    return c.json(createSuccessResponse('Review deleted', result));
+  } catch (error: any) {
+    console.error('❌ Error deleting review:', error);
+    const status = error instanceof ReviewError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to delete review', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== INVENTORY ENDPOINTS ====================
+
+// Stock movement history for a product - requires admin, manager or staff
+app.get('/make-server-8880f2f2/inventory/products/:productId/movements', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const result = await listStockMovements(supabase, c.req.param('productId'), {
+      variantId: c.req.query('variant_id'),
+      page: Number(c.req.query('page') || 1)
+    });
+    return c.json(createSuccessResponse('Stock movements loaded', result));
+  } catch (error: any) {
+    console.error('❌ Error loading stock movements:', error);
+    const status = error instanceof InventoryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load stock movements', error.message || 'Unknown error'), status);
+  }
+});
+
+// Adjust, receive or write off stock with a reason - requires admin, manager or staff
+app.post('/make-server-8880f2f2/inventory/adjustments', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const user = c.get('user');
+    const movement = await adjustStock(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse(movement ? 'Stock updated' : 'Stock unchanged', movement));
+  } catch (error: any) {
+    console.error('❌ Error adjusting stock:', error);
+    const status = error instanceof InventoryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to adjust stock', error.message || 'Unknown error'), status);
+  }
+});
+
+// Products and variants whose stock differs from their ledger - requires admin or manager
+app.get('/make-server-8880f2f2/inventory/reconciliation', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const report = await getStockReconciliation(supabase);
+    return c.json(createSuccessResponse('Stock reconciled', report));
+  } catch (error: any) {
+    console.error('❌ Error reconciling stock:', error);
+    const status = error instanceof InventoryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to reconcile stock', error.message || 'Unknown error'), status);
+  }
+});
+
+// Take stock for a paid order placed in the app - requires auth; customers only for their own orders
+app.post('/make-server-8880f2f2/orders/:orderId/stock', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const isStaff = ['cashier', 'staff', 'manager', 'admin'].includes(c.get('userProfile')?.role);
+    const result = await takeOrderStock(supabase, c.req.param('orderId'), user.id, isStaff);
+    return c.json(createSuccessResponse(result.decremented ? 'Stock updated' : 'Stock already taken', result));
+  } catch (error: any) {
+    console.error('❌ Error taking order stock:', error);
+    const status = error instanceof InventoryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to update stock levels', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== STOCK-TAKE ENDPOINTS ====================
+
+// Stock-take sessions, newest first - requires admin, manager or staff
+app.get('/make-server-8880f2f2/stock-takes', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const stockTakes = await listStockTakes(supabase, c.req.query('status'));
+    return c.json(createSuccessResponse('Stock-takes loaded', stockTakes));
+  } catch (error: any) {
+    console.error('❌ Error loading stock-takes:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load stock-takes', error.message || 'Unknown error'), status);
+  }
+});
+
+// Start a stock-take for a category or shelf - requires admin, manager or staff
+app.post('/make-server-8880f2f2/stock-takes', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const user = c.get('user');
+    const stockTake = await createStockTake(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse('Stock-take started', stockTake));
+  } catch (error: any) {
+    console.error('❌ Error starting stock-take:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to start stock-take', error.message || 'Unknown error'), status);
+  }
+});
+
+// A stock-take with its counts, variances and products to count - requires admin, manager or staff
+app.get('/make-server-8880f2f2/stock-takes/:stockTakeId', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const result = await getStockTake(supabase, c.req.param('stockTakeId'));
+    return c.json(createSuccessResponse('Stock-take loaded', result));
+  } catch (error: any) {
+    console.error('❌ Error loading stock-take:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load stock-take', error.message || 'Unknown error'), status);
+  }
+});
+
+// Save counted quantities - requires admin, manager or staff
+app.post('/make-server-8880f2f2/stock-takes/:stockTakeId/counts', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { counts } = await c.req.json();
+    const result = await recordCounts(supabase, c.req.param('stockTakeId'), user.id, counts);
+    return c.json(createSuccessResponse('Counts saved', result));
+  } catch (error: any) {
+    console.error('❌ Error saving stock-take counts:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save counts', error.message || 'Unknown error'), status);
+  }
+});
+
+// Hand a finished count to a manager - requires admin, manager or staff
+app.post('/make-server-8880f2f2/stock-takes/:stockTakeId/submit', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const user = c.get('user');
+    const result = await submitStockTake(supabase, c.req.param('stockTakeId'), user.id);
+    return c.json(createSuccessResponse('Stock-take submitted for approval', result));
+  } catch (error: any) {
+    console.error('❌ Error submitting stock-take:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to submit stock-take', error.message || 'Unknown error'), status);
+  }
+});
+
+// Approve and post, send back for recount, or cancel - requires admin or manager
+app.post('/make-server-8880f2f2/stock-takes/:stockTakeId/review', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = await c.req.json();
+    const result = await reviewStockTake(supabase, c.req.param('stockTakeId'), user.id, body);
+    return c.json(createSuccessResponse(body.action === 'approve' ? 'Stock-take approved and posted' : 'Stock-take updated', result));
+  } catch (error: any) {
+    console.error('❌ Error reviewing stock-take:', error);
+    const status = error instanceof StockTakeError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to review stock-take', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== PURCHASING ENDPOINTS ====================
+
+// Receive a delivery against a sent purchase order - requires admin, manager or staff
+app.post('/make-server-8880f2f2/purchase-orders/:purchaseOrderId/receive', authenticateUser, requireRole(['admin', 'manager', 'staff']), async (c) => {
+  try {
+    const user = c.get('user');
+    const result = await receivePurchaseOrder(supabase, c.req.param('purchaseOrderId'), user.id, await c.req.json());
+    return c.json(createSuccessResponse('Stock received', result));
+  } catch (error: any) {
+    console.error('❌ Error receiving purchase order:', error);
+    const status = error instanceof PurchasingError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to receive stock', error.message || 'Unknown error'), status);
+  }
+});
+
+// Landed cost of each delivery of a product - requires admin or manager
+app.get('/make-server-8880f2f2/products/:productId/cost-history', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const history = await getProductCostHistory(supabase, c.req.param('productId'));
+    return c.json(createSuccessResponse('Cost history loaded', history));
+  } catch (error: any) {
+    console.error('❌ Error loading cost history:', error);
+    const status = error instanceof PurchasingError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load cost history', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== SHIFT ENDPOINTS ====================
+
+// The signed-in cashier's open shift, or null - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/shifts/current', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const shift = await getOpenShift(supabase, user.id);
+    return c.json(createSuccessResponse(shift ? 'Shift loaded' : 'No shift open', shift));
+  } catch (error: any) {
+    console.error('❌ Error loading current shift:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load shift', error.message || 'Unknown error'), status);
+  }
+});
+
+// Open a shift with a counted float - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/shifts', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const shift = await openShift(supabase, user.id, await c.req.json());
+    console.log(`🧾 Shift ${shift.shift_number} opened with a R${Number(shift.opening_float).toFixed(2)} float`);
+    return c.json(createSuccessResponse('Shift opened', shift));
+  } catch (error: any) {
+    console.error('❌ Error opening shift:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to open shift', error.message || 'Unknown error'), status);
+  }
+});
+
+// Shifts across all tills, newest first - requires admin or manager
+app.get('/make-server-8880f2f2/shifts', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const shifts = await listShifts(supabase, {
+      status: c.req.query('status'),
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+    });
+    return c.json(createSuccessResponse('Shifts loaded', shifts));
+  } catch (error: any) {
+    console.error('❌ Error loading shifts:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load shifts', error.message || 'Unknown error'), status);
+  }
+});
+
+// X-report for an open shift or Z-report for a closed one - cashiers only for their own shifts
+app.get('/make-server-8880f2f2/shifts/:shiftId/report', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const isManager = ['admin', 'manager'].includes(c.get('userProfile')?.role);
+    const report = await getShiftReport(supabase, c.req.param('shiftId'), user.id, isManager);
+    return c.json(createSuccessResponse('Shift report generated', report));
+  } catch (error: any) {
+    console.error('❌ Error generating shift report:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to generate shift report', error.message || 'Unknown error'), status);
+  }
+});
+
+// Record a pay-in or pay-out on an open shift - cashiers only for their own shifts
+app.post('/make-server-8880f2f2/shifts/:shiftId/cash-movements', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const isManager = ['admin', 'manager'].includes(c.get('userProfile')?.role);
+    const movement = await recordCashMovement(supabase, c.req.param('shiftId'), user.id, isManager, await c.req.json());
+    return c.json(createSuccessResponse('Cash movement recorded', movement));
+  } catch (error: any) {
+    console.error('❌ Error recording cash movement:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to record cash movement', error.message || 'Unknown error'), status);
+  }
+});
+
+// Cash up and close a shift, returning its Z-report - cashiers only for their own shifts
+app.post('/make-server-8880f2f2/shifts/:shiftId/close', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const isManager = ['admin', 'manager'].includes(c.get('userProfile')?.role);
+    const report = await closeShift(supabase, c.req.param('shiftId'), user.id, isManager, await c.req.json());
+    console.log(`🧾 Shift ${report.shift.shift_number} closed, cash variance R${Number(report.cash_variance).toFixed(2)}`);
+    return c.json(createSuccessResponse('Shift closed', report));
+  } catch (error: any) {
+    console.error('❌ Error closing shift:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to close shift', error.message || 'Unknown error'), status);
+  }
+});
+
+// Sign off a closed shift's cash-up - requires admin or manager
+app.post('/make-server-8880f2f2/shifts/:shiftId/review', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { notes } = await c.req.json();
+    const report = await reviewShift(supabase, c.req.param('shiftId'), user.id, notes);
+    return c.json(createSuccessResponse('Shift reviewed', report));
+  } catch (error: any) {
+    console.error('❌ Error reviewing shift:', error);
+    const status = error instanceof ShiftError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to review shift', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== GIFT CARD ENDPOINTS ====================
+
+// Gift cards, newest first, optionally by code - requires admin or manager
+app.get('/make-server-8880f2f2/gift-cards', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const cards = await listGiftCards(supabase, { search: c.req.query('search') });
+    return c.json(createSuccessResponse('Gift cards loaded', cards));
+  } catch (error: any) {
+    console.error('❌ Error loading gift cards:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load gift cards', error.message || 'Unknown error'), status);
+  }
+});
+
+// Issue a gift card - requires admin or manager
+app.post('/make-server-8880f2f2/gift-cards', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const card = await issueGiftCard(supabase, user.id, await c.req.json());
+    console.log(`🎁 Gift card ${card.code} issued for R${Number(card.initial_value).toFixed(2)}`);
+    return c.json(createSuccessResponse('Gift card issued', card));
+  } catch (error: any) {
+    console.error('❌ Error issuing gift card:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to issue gift card', error.message || 'Unknown error'), status);
+  }
+});
+
+// Cancel or reinstate a gift card - requires admin or manager
+app.post('/make-server-8880f2f2/gift-cards/:giftCardId/status', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const { is_active } = await c.req.json();
+    const card = await setGiftCardActive(supabase, c.req.param('giftCardId'), is_active === true);
+    return c.json(createSuccessResponse(card.is_active ? 'Gift card reinstated' : 'Gift card cancelled', card));
+  } catch (error: any) {
+    console.error('❌ Error updating gift card:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to update gift card', error.message || 'Unknown error'), status);
+  }
+});
+
+// Balance of a gift card presented at the till - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/gift-cards/lookup/:code', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const card = await getSpendableGiftCard(supabase, c.req.param('code'));
+    return c.json(createSuccessResponse('Gift card found', card));
+  } catch (error: any) {
+    console.error('❌ Error looking up gift card:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to look up gift card', error.message || 'Unknown error'), status);
+  }
+});
+
+// Charge a sale's voucher tenders to their cards - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/gift-cards/redeem', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { reference, redemptions } = await c.req.json();
+    const redeemed = await redeemGiftCards(supabase, user.id, reference, redemptions);
+    return c.json(createSuccessResponse('Gift cards redeemed', redeemed));
+  } catch (error: any) {
+    console.error('❌ Error redeeming gift cards:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to redeem gift cards', error.message || 'Unknown error'), status);
+  }
+});
+
+// Put a sale's voucher tenders back when the sale was not recorded - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/gift-cards/reverse', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { reference } = await c.req.json();
+    const result = await reverseGiftCardRedemptions(supabase, user.id, reference);
+    return c.json(createSuccessResponse('Gift card redemptions reversed', result));
+  } catch (error: any) {
+    console.error('❌ Error reversing gift card redemptions:', error);
+    const status = error instanceof GiftCardError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to reverse gift card redemptions', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== PARKED SALE ENDPOINTS ====================
+
+// Baskets parked at a store and not yet recalled - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/parked-sales', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const sales = await listParkedSales(supabase, c.req.query('store') || '');
+    return c.json(createSuccessResponse('Parked sales loaded', sales));
+  } catch (error: any) {
+    console.error('❌ Error loading parked sales:', error);
+    const status = error instanceof ParkedSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load parked sales', error.message || 'Unknown error'), status);
+  }
+});
+
+// Park the basket on a till - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/parked-sales', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const sale = await parkSale(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse('Sale parked', sale));
+  } catch (error: any) {
+    console.error('❌ Error parking sale:', error);
+    const status = error instanceof ParkedSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to park sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// Recall a parked basket onto this till - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/parked-sales/:parkedSaleId/recall', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const sale = await recallParkedSale(supabase, c.req.param('parkedSaleId'), user.id);
+    return c.json(createSuccessResponse('Sale recalled', sale));
+  } catch (error: any) {
+    console.error('❌ Error recalling parked sale:', error);
+    const status = error instanceof ParkedSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to recall sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// Throw away a parked basket the customer did not come back for - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/parked-sales/:parkedSaleId/discard', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const sale = await discardParkedSale(supabase, c.req.param('parkedSaleId'), user.id);
+    return c.json(createSuccessResponse('Parked sale discarded', sale));
+  } catch (error: any) {
+    console.error('❌ Error discarding parked sale:', error);
+    const status = error instanceof ParkedSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to discard parked sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== OFFLINE SALE ENDPOINTS ====================
+
+// Send one sale the till queued while offline; safe to repeat - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/offline-sales', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const result = await syncOfflineSale(supabase, user.id, await c.req.json(), c.get('userProfile')?.role);
+    return c.json(createSuccessResponse(result.status === 'conflict' ? 'Offline sale held for review' : 'Offline sale recorded', result));
+  } catch (error: any) {
+    console.error('❌ Error syncing offline sale:', error);
+    const status = error instanceof OfflineSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to sync offline sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// Offline sales, optionally by status (conflict, synced, accepted, voided) - requires admin or manager
+app.get('/make-server-8880f2f2/offline-sales', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const sales = await listOfflineSales(supabase, parseOfflineSaleStatus(c.req.query('status')));
+    return c.json(createSuccessResponse('Offline sales loaded', sales));
+  } catch (error: any) {
+    console.error('❌ Error loading offline sales:', error);
+    const status = error instanceof OfflineSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load offline sales', error.message || 'Unknown error'), status);
+  }
+});
+
+// Record a held offline sale as it was rung up - requires admin or manager
+app.post('/make-server-8880f2f2/offline-sales/:offlineSaleId/accept', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { note } = await c.req.json().catch(() => ({}));
+    const sale = await acceptOfflineSale(supabase, c.req.param('offlineSaleId'), user.id, note);
+    return c.json(createSuccessResponse('Offline sale accepted', sale));
+  } catch (error: any) {
+    console.error('❌ Error accepting offline sale:', error);
+    const status = error instanceof OfflineSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to accept offline sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// Leave a held offline sale out of the books - requires admin or manager
+app.post('/make-server-8880f2f2/offline-sales/:offlineSaleId/void', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { note } = await c.req.json().catch(() => ({}));
+    const sale = await voidOfflineSale(supabase, c.req.param('offlineSaleId'), user.id, note);
+    return c.json(createSuccessResponse('Offline sale voided', sale));
+  } catch (error: any) {
+    console.error('❌ Error voiding offline sale:', error);
+    const status = error instanceof OfflineSaleError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to void offline sale', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== OVERRIDE ENDPOINTS ====================
+
+// Managers who can authorise an override at the till - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/overrides/approvers', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const approvers = await listApprovers(supabase);
+    return c.json(createSuccessResponse('Approvers loaded', approvers));
+  } catch (error: any) {
+    console.error('❌ Error loading override approvers:', error);
+    const status = error instanceof OverrideError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load approvers', error.message || 'Unknown error'), status);
+  }
+});
+
+// Authorise and log a discount, price override, void or no-sale - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/overrides', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const override = await authoriseOverride(supabase, { id: user.id, role: c.get('userProfile').role }, await c.req.json());
+    return c.json(createSuccessResponse('Override authorised', override));
+  } catch (error: any) {
+    console.error('❌ Error authorising override:', error);
+    const status = error instanceof OverrideError ? error.status : 500;
+    return c.json(createErrorResponse('Override not authorised', error.message || 'Unknown error'), status);
+  }
+});
+
+// Override log, filtered by action, cashier, approver and date - requires admin or manager
+app.get('/make-server-8880f2f2/overrides', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const overrides = await listOverrides(supabase, {
+      action: c.req.query('action'),
+      requested_by: c.req.query('requested_by'),
+      approved_by: c.req.query('approved_by'),
+      from: c.req.query('from'),
+      to: c.req.query('to'),
+    });
+    return c.json(createSuccessResponse('Overrides loaded', overrides));
+  } catch (error: any) {
+    console.error('❌ Error loading overrides:', error);
+    const status = error instanceof OverrideError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load overrides', error.message || 'Unknown error'), status);
+  }
+});
+
+// Set the signed-in manager's own override PIN - requires admin or manager
+app.post('/make-server-8880f2f2/overrides/pin', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { pin } = await c.req.json();
+    const result = await setOverridePin(supabase, user.id, pin);
+    return c.json(createSuccessResponse('Override PIN saved', result));
+  } catch (error: any) {
+    console.error('❌ Error saving override PIN:', error);
+    const status = error instanceof OverrideError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save override PIN', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== RECEIPT ENDPOINTS ====================
+
+// Receipt for a recorded order, laid out by the store template - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/orders/:orderId/receipt', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const receipt = await buildReceipt(supabase, c.req.param('orderId'));
+    return c.json(createSuccessResponse('Receipt built', receipt));
+  } catch (error: any) {
+    console.error('❌ Error building receipt:', error);
+    const status = error instanceof ReceiptError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to build receipt', error.message || 'Unknown error'), status);
+  }
+});
+
+// Current receipt template - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/receipt-template', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const template = await getReceiptTemplate(supabase);
+    return c.json(createSuccessResponse('Receipt template loaded', template));
+  } catch (error: any) {
+    console.error('❌ Error loading receipt template:', error);
+    const status = error instanceof ReceiptError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load receipt template', error.message || 'Unknown error'), status);
+  }
+});
+
+// Save the receipt template - requires admin or manager
+app.post('/make-server-8880f2f2/receipt-template', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const template = await saveReceiptTemplate(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse('Receipt template saved', template));
+  } catch (error: any) {
+    console.error('❌ Error saving receipt template:', error);
+    const status = error instanceof ReceiptError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save receipt template', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== INVOICE ENDPOINTS ====================
+
+// Tax invoice for a paid order, issued on first request - requires auth, customers see their own orders only
+app.get('/make-server-8880f2f2/orders/:orderId/invoice', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const invoice = await issueInvoice(supabase, c.req.param('orderId'), { id: user.id, role: c.get('userProfile')?.role });
+    return c.json(createSuccessResponse('Tax invoice loaded', invoice));
+  } catch (error: any) {
+    console.error('❌ Error loading tax invoice:', error);
+    const status = error instanceof InvoiceError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load tax invoice', error.message || 'Unknown error'), status);
+  }
+});
+
+// Tax invoice PDF for a paid order - requires auth, customers see their own orders only
+app.get('/make-server-8880f2f2/orders/:orderId/invoice/pdf', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const invoice = await issueInvoice(supabase, c.req.param('orderId'), { id: user.id, role: c.get('userProfile')?.role });
+    const pdf = await getInvoicePdf(supabase, invoice);
+    return c.body(pdf.buffer.slice(pdf.byteOffset, pdf.byteOffset + pdf.byteLength) as ArrayBuffer, 200, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="${invoice.invoice_number}.pdf"`,
+    });
+  } catch (error: any) {
+    console.error('❌ Error rendering tax invoice:', error);
+    const status = error instanceof InvoiceError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to download tax invoice', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== COLLECTION ENDPOINTS ====================
+
+// Pickup slots with room left, for click-and-collect at checkout - public
+app.get('/make-server-8880f2f2/collection/slots', async (c) => {
+  try {
+    const slots = await listPickupSlots(supabase);
+    return c.json(createSuccessResponse('Pickup slots loaded', slots));
+  } catch (error: any) {
+    console.error('❌ Error loading pickup slots:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load pickup slots', error.message || 'Unknown error'), status);
+  }
+});
+
+// Collection hours and slot sizes - requires admin or manager
+app.get('/make-server-8880f2f2/collection/settings', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const settings = await getCollectionSettings(supabase);
+    return c.json(createSuccessResponse('Collection settings loaded', settings));
+  } catch (error: any) {
+    console.error('❌ Error loading collection settings:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load collection settings', error.message || 'Unknown error'), status);
+  }
+});
+
+// Save collection hours and slot sizes - requires admin or manager
+app.post('/make-server-8880f2f2/collection/settings', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const settings = await saveCollectionSettings(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse('Collection settings saved', settings));
+  } catch (error: any) {
+    console.error('❌ Error saving collection settings:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save collection settings', error.message || 'Unknown error'), status);
+  }
+});
+
+// Collection order behind a code, receipt barcode or order number - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/collection/lookup', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const order = await lookupCollection(supabase, c.req.query('reference') || '');
+    return c.json(createSuccessResponse('Collection order found', order));
+  } catch (error: any) {
+    console.error('❌ Error looking up collection:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to look up collection', error.message || 'Unknown error'), status);
+  }
+});
+
+// Mark a collection order ready and email the customer their code - requires staff, manager or admin
+app.post('/make-server-8880f2f2/orders/:orderId/ready-for-collection', authenticateUser, requireRole(['staff', 'manager', 'admin']), async (c) => {
+  try {
+    const result = await markReadyForCollection(supabase, c.req.param('orderId'));
+    return c.json(createSuccessResponse('Order ready for collection', result));
+  } catch (error: any) {
+    console.error('❌ Error marking order ready for collection:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to mark order ready', error.message || 'Unknown error'), status);
+  }
+});
+
+// Hand a ready order to the customer - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/orders/:orderId/collect', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const { code } = await c.req.json().catch(() => ({}));
+    const order = await collectOrder(supabase, c.req.param('orderId'), user.id, code);
+    return c.json(createSuccessResponse('Order collected', order));
+  } catch (error: any) {
+    console.error('❌ Error recording collection:', error);
+    const status = error instanceof CollectionError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to record collection', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== SHIPMENT ENDPOINTS ====================
+
+// Shipments and status history for an order - requires auth, customers see their own orders only
+app.get('/make-server-8880f2f2/orders/:orderId/tracking', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const tracking = await getOrderTracking(supabase, c.req.param('orderId'), { id: user.id, role: c.get('userProfile')?.role });
+    return c.json(createSuccessResponse('Order tracking loaded', tracking));
+  } catch (error: any) {
+    console.error('❌ Error loading order tracking:', error);
+    const status = error instanceof ShipmentError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load order tracking', error.message || 'Unknown error'), status);
+  }
+});
+
+// Record a parcel with its courier and tracking number, and email the customer - requires staff, manager or admin
+app.post('/make-server-8880f2f2/orders/:orderId/shipments', authenticateUser, requireRole(['staff', 'manager', 'admin']), async (c) => {
+  try {
+    const user = c.get('user');
+    const result = await createShipment(supabase, c.req.param('orderId'), user.id, await c.req.json());
+    return c.json(createSuccessResponse('Shipment recorded', result));
+  } catch (error: any) {
+    console.error('❌ Error recording shipment:', error);
+    const status = error instanceof ShipmentError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to record shipment', error.message || 'Unknown error'), status);
+  }
+});
+
+// Update where a parcel is - requires staff, manager or admin
+app.post('/make-server-8880f2f2/shipments/:shipmentId/status', authenticateUser, requireRole(['staff', 'manager', 'admin']), async (c) => {
+  try {
+    const { status } = await c.req.json();
+    const tracking = await updateShipmentStatus(supabase, c.req.param('shipmentId'), status);
+    return c.json(createSuccessResponse('Shipment updated', tracking));
+  } catch (error: any) {
+    console.error('❌ Error updating shipment:', error);
+    const status = error instanceof ShipmentError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to update shipment', error.message || 'Unknown error'), status);
+  }
+});
+
+// Track an order by its number and the email it was placed with - public, rate limited
+app.post(
+  '/make-server-8880f2f2/orders/track',
+  rateLimit({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many tracking lookups, please try again in a few minutes' }),
+  async (c) => {
+    try {
+      const { order_number, email } = await c.req.json().catch(() => ({}));
+      const tracking = await trackOrder(supabase, order_number, email);
+      return c.json(createSuccessResponse('Order found', tracking));
+    } catch (error: any) {
+      console.error('❌ Error tracking order:', error);
+      const status = error instanceof ShipmentError ? error.status : 500;
+      return c.json(createErrorResponse('Failed to track order', error.message || 'Unknown error'), status);
+    }
+  }
+);
+
+// ==================== EMAIL ENDPOINTS ====================
+
+// Email the customer after an admin status change (delivered or cancelled) - requires admin or manager
+app.post('/make-server-8880f2f2/orders/:orderId/emails/status', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const notified = await notifyOrderStatus(supabase, c.req.param('orderId'));
+    return c.json(createSuccessResponse(notified ? 'Customer emailed' : 'No email sent', { notified }));
+  } catch (error: any) {
+    console.error('❌ Error emailing order status:', error);
+    const status = error instanceof EmailError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to email order status', error.message || 'Unknown error'), status);
+  }
+});
+
+// Confirm a password change to the account's address - requires auth, rate limited
+app.post(
+  '/make-server-8880f2f2/emails/password-changed',
+  authenticateUser,
+  rateLimit({ windowMs: 15 * 60 * 1000, max: 5, message: 'Too many requests, please try again later' }),
+  async (c) => {
+    try {
+      const user = c.get('user');
+      const notified = await sendPasswordChangedEmail(supabase, { id: user.id, email: user.email });
+      return c.json(createSuccessResponse(notified ? 'Confirmation sent' : 'No email sent', { notified }));
+    } catch (error: any) {
+      console.error('❌ Error emailing password change:', error);
+      const status = error instanceof EmailError ? error.status : 500;
+      return c.json(createErrorResponse('Failed to email password change', error.message || 'Unknown error'), status);
+    }
+  }
+);
+
+// Which emails the signed-in customer receives - requires auth
+app.get('/make-server-8880f2f2/emails/preferences', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const preferences = await getEmailPreferences(supabase, { id: user.id, email: user.email });
+    return c.json(createSuccessResponse('Email preferences loaded', preferences));
+  } catch (error: any) {
+    console.error('❌ Error loading email preferences:', error);
+    const status = error instanceof EmailError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load email preferences', error.message || 'Unknown error'), status);
+  }
+});
+
+// Turn order updates or cart reminders on or off - requires auth
+app.post('/make-server-8880f2f2/emails/preferences', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const preferences = await saveEmailPreferences(supabase, { id: user.id, email: user.email }, await c.req.json());
+    return c.json(createSuccessResponse('Email preferences saved', preferences));
+  } catch (error: any) {
+    console.error('❌ Error saving email preferences:', error);
+    const status = error instanceof EmailError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save email preferences', error.message || 'Unknown error'), status);
+  }
+});
+
+// Opt out through the signed link in an email - public, rate limited
+app.post(
+  '/make-server-8880f2f2/emails/unsubscribe',
+  rateLimit({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many requests, please try again later' }),
+  async (c) => {
+    try {
+      const { token } = await c.req.json().catch(() => ({}));
+      const result = await unsubscribe(supabase, token);
+      return c.json(createSuccessResponse('Unsubscribed', result));
+    } catch (error: any) {
+      console.error('❌ Error unsubscribing:', error);
+      const status = error instanceof EmailError ? error.status : 500;
+      return c.json(createErrorResponse('Failed to unsubscribe', error.message || 'Unknown error'), status);
+    }
+  }
+);
+
+// Delivery reports from the mail provider - requires the X-Mail-Webhook-Secret header
+app.post('/make-server-8880f2f2/emails/events', async (c) => {
+  try {
+    const matched = await recordDeliveryEvent(supabase, c.req.header('x-mail-webhook-secret'), await c.req.json());
+    return c.json(createSuccessResponse(matched ? 'Delivery recorded' : 'No matching email', { matched }));
+  } catch (error: any) {
+    console.error('❌ Error recording email delivery:', error);
+    const status = error instanceof EmailError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to record email delivery', error.message || 'Unknown error'), status);
+  }
+});
+
+// Send a logged email again - requires admin or manager
+app.post('/make-server-8880f2f2/emails/:emailId/resend', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const email = await resendEmail(supabase, c.req.param('emailId'));
+    return c.json(createSuccessResponse(email.status === 'sent' ? 'Email sent' : 'Email could not be sent', email));
+  } catch (error: any) {
+    console.error('❌ Error resending email:', error);
+    const status = error instanceof EmailError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to resend email', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== CART RECOVERY ENDPOINTS ====================
+
+// The signed-in customer's saved cart - requires auth
+app.get('/make-server-8880f2f2/cart', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const cart = await getSavedCart(supabase, user.id);
+    return c.json(createSuccessResponse('Cart loaded', cart));
+  } catch (error: any) {
+    console.error('❌ Error loading cart:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load cart', error.message || 'Unknown error'), status);
+  }
+});
+
+// Save the signed-in customer's cart as it changes - requires auth
+app.post('/make-server-8880f2f2/cart', authenticateUser, async (c) => {
+  try {
+    const user = c.get('user');
+    const { items } = await c.req.json();
+    const cart = await saveCart(supabase, user.id, items);
+    return c.json(createSuccessResponse('Cart saved', cart));
+  } catch (error: any) {
+    console.error('❌ Error saving cart:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save cart', error.message || 'Unknown error'), status);
+  }
+});
+
+// Cart behind a reminder email's restore link - public, rate limited
+app.post(
+  '/make-server-8880f2f2/carts/restore',
+  rateLimit({ windowMs: 15 * 60 * 1000, max: 20, message: 'Too many requests, please try again later' }),
+  async (c) => {
+    try {
+      const { token } = await c.req.json().catch(() => ({}));
+      const cart = await restoreCart(supabase, token);
+      return c.json(createSuccessResponse('Cart restored', cart));
+    } catch (error: any) {
+      console.error('❌ Error restoring cart:', error);
+      const status = error instanceof CartRecoveryError ? error.status : 500;
+      return c.json(createErrorResponse('Failed to restore cart', error.message || 'Unknown error'), status);
+    }
+  }
+);
+
+// Scheduled abandoned cart reminders - requires the cron secret (Vercel Cron sends GET)
+app.get('/make-server-8880f2f2/carts/abandoned/run', async (c) => {
+  try {
+    checkCronSecret(c.req.header('authorization'));
+    const run = await runAbandonedCartJob(supabase);
+    return c.json(createSuccessResponse('Abandoned cart reminders sent', run));
+  } catch (error: any) {
+    console.error('❌ Error running abandoned cart reminders:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to run abandoned cart reminders', error.message || 'Unknown error'), status);
+  }
+});
+
+// Send abandoned cart reminders now - requires admin or manager
+app.post('/make-server-8880f2f2/carts/abandoned/run', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const run = await runAbandonedCartJob(supabase);
+    return c.json(createSuccessResponse('Abandoned cart reminders sent', run));
+  } catch (error: any) {
+    console.error('❌ Error running abandoned cart reminders:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to run abandoned cart reminders', error.message || 'Unknown error'), status);
+  }
+});
+
+// Reminders sent and revenue recovered over the last ?days= days - requires admin or manager
+app.get('/make-server-8880f2f2/carts/recovery/report', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const report = await getCartRecoveryReport(supabase, Number(c.req.query('days') || 30));
+    return c.json(createSuccessResponse('Cart recovery report loaded', report));
+  } catch (error: any) {
+    console.error('❌ Error loading cart recovery report:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load cart recovery report', error.message || 'Unknown error'), status);
+  }
+});
+
+// Reminder timing and discount - requires admin or manager
+app.get('/make-server-8880f2f2/carts/recovery/settings', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const settings = await getCartRecoverySettings(supabase);
+    return c.json(createSuccessResponse('Cart recovery settings loaded', settings));
+  } catch (error: any) {
+    console.error('❌ Error loading cart recovery settings:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load cart recovery settings', error.message || 'Unknown error'), status);
+  }
+});
+
+// Save reminder timing and discount - requires admin or manager
+app.post('/make-server-8880f2f2/carts/recovery/settings', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const user = c.get('user');
+    const settings = await saveCartRecoverySettings(supabase, user.id, await c.req.json());
+    return c.json(createSuccessResponse('Cart recovery settings saved', settings));
+  } catch (error: any) {
+    console.error('❌ Error saving cart recovery settings:', error);
+    const status = error instanceof CartRecoveryError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to save cart recovery settings', error.message || 'Unknown error'), status);
+  }
+});
+
+// ==================== REFUND ENDPOINTS ====================
+
+// Refundable lines and refund history for an order - requires admin or manager
+app.get('/make-server-8880f2f2/orders/:orderId/refunds', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const orderId = c.req.param('orderId');
+    const { order, lines } = await getRefundableLines(supabase, orderId);
+
+    const { data: refunds, error } = await supabase
+      .from('refunds')
+      .select('*, refund_items (*)')
+      .eq('order_id', orderId)
+      .order('created_at', { ascending: false });
+
+    if (error) throw error;
+
+    return c.json(createSuccessResponse('Refund details loaded', {
+      order_id: order.id,
+      order_number: order.order_number,
+      payment_status: order.payment_status,
+      total: Number(order.total ?? order.total_amount ?? 0),
+      amount_refunded: Number(order.amount_refunded || 0),
+      shipping_amount: Number(order.shipping_amount || 0),
+      lines,
+      refunds: refunds || []
+    }));
+  } catch (error: any) {
+    console.error('❌ Error loading refund details:', error);
+    const status = error instanceof RefundError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to load refund details', error.message || 'Unknown error'), status);
+  }
+});
+
+// Refund a whole order or selected lines - requires admin or manager
+app.post('/make-server-8880f2f2/orders/:orderId/refunds', authenticateUser, requireRole(['admin', 'manager']), async (c) => {
+  try {
+    const orderId = c.req.param('orderId');
+    const { lines, reason, restock, includeShipping, requestId } = await c.req.json();
+    const user = c.get('user');
+
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    let stripe;
+    if (stripeSecretKey) {
+      const Stripe = (await import('stripe')).default;
+      stripe = new Stripe(stripeSecretKey);
+    }
+
+    const result = await createRefund(supabase, {
+      orderId,
+      lines,
+      reason,
+      restock,
+      includeShipping,
+      requestId,
+      processedBy: user?.id
+    }, stripe);
+
+    console.log(`↩️ Refund ${result.refund.refund_number} issued for order ${orderId}: R${result.amount.toFixed(2)} (${result.method})`);
+
+    return c.json(createSuccessResponse('Refund processed successfully', result));
+  } catch (error: any) {
+    console.error('❌ Error processing refund:', error);
+    const status = error instanceof RefundError ? error.status : 500;
+    return c.json(createErrorResponse('Refund failed', error.message || 'Unknown error'), status);
+  }
+});
+
+// Scanned receipt: the original order and what can still be returned - requires cashier, staff, manager or admin
+app.get('/make-server-8880f2f2/returns/lookup/:orderNumber', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const details = await lookupReturn(supabase, c.req.param('orderNumber'));
+    return c.json(createSuccessResponse('Order found', details));
+  } catch (error: any) {
+    console.error('❌ Error looking up return:', error);
+    const status = error instanceof RefundError ? error.status : 500;
+    return c.json(createErrorResponse('Failed to find order', error.message || 'Unknown error'), status);
+  }
+});
+
+// Take a return or exchange at the till - requires cashier, staff, manager or admin
+app.post('/make-server-8880f2f2/returns', authenticateUser, requireRole(['cashier', 'staff', 'manager', 'admin']), async (c) => {
+  try {
+    const { order_id, lines, reason, note, method, exchange, request_id } = await c.req.json();
+    const user = c.get('user');
+
+    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
+    let stripe;
+    if (stripeSecretKey) {
+      const Stripe = (await import('stripe')).default;
+      stripe = new Stripe(stripeSecretKey);
+    }
+
+    const result = await createReturn(supabase, {
+      orderId: order_id,
+      lines,
+      reason,
+      note,
+      method,
+      exchange,
+      processedBy: user.id,
+      requestId: request_id
+    }, stripe);
+
+    console.log(`↩️ Return ${result.refund.refund_number} taken on order ${order_id}: R${result.amount.toFixed(2)} (${exchange ? 'exchange' : result.method})`);
+
+    return c.json(createSuccessResponse('Return processed successfully', result));
+  } catch (error: any) {
+    console.error('❌ Error processing return:', error);
+    const status = error instanceof RefundError ? error.status : 500;
+    return c.json(createErrorResponse('Return failed', error.message || 'Unknown error'), status);
   }
 });
 
@@ -663,14 +2091,86 @@ app.notFound((c) => {
       '/make-server-8880f2f2/test-db',
       '/make-server-8880f2f2/test-user-creation',
       '/make-server-8880f2f2/products',
+      '/make-server-8880f2f2/products/search',
+      '/make-server-8880f2f2/products/search/log',
+      '/make-server-8880f2f2/products/suggest',
       '/make-server-8880f2f2/barcode/lookup',
       '/make-server-8880f2f2/barcode/check/:barcode',
       '/make-server-8880f2f2/init-database',
       '/make-server-8880f2f2/barcode/add-product',
       '/make-server-8880f2f2/stripe/create-payment-intent',
-      '/make-server-8880f2f2/stripe/confirm-payment',
       '/make-server-8880f2f2/stripe/payment-method-details',
-      '/make-server-8880f2f2/stripe/webhook'
+      '/make-server-8880f2f2/stripe/webhook',
+      '/make-server-8880f2f2/pricing/quote',
+      '/make-server-8880f2f2/orders/:orderId/pricing',
+      '/make-server-8880f2f2/orders/:orderId/refunds',
+      '/make-server-8880f2f2/returns/lookup/:orderNumber',
+      '/make-server-8880f2f2/returns',
+      '/make-server-8880f2f2/loyalty/me',
+      '/make-server-8880f2f2/loyalty/customers',
+      '/make-server-8880f2f2/orders/:orderId/loyalty/sync',
+      '/make-server-8880f2f2/loyalty/expire',
+      '/make-server-8880f2f2/loyalty/expire/run',
+      '/make-server-8880f2f2/products/:productId/reviews',
+      '/make-server-8880f2f2/products/:productId/reviews/eligibility',
+      '/make-server-8880f2f2/reviews/moderation',
+      '/make-server-8880f2f2/reviews/:reviewId/moderate',
+      '/make-server-8880f2f2/reviews/:reviewId',
+      '/make-server-8880f2f2/inventory/products/:productId/movements',
+      '/make-server-8880f2f2/inventory/adjustments',
+      '/make-server-8880f2f2/inventory/reconciliation',
+      '/make-server-8880f2f2/orders/:orderId/stock',
+      '/make-server-8880f2f2/stock-takes',
+      '/make-server-8880f2f2/stock-takes/:stockTakeId',
+      '/make-server-8880f2f2/stock-takes/:stockTakeId/counts',
+      '/make-server-8880f2f2/stock-takes/:stockTakeId/submit',
+      '/make-server-8880f2f2/stock-takes/:stockTakeId/review',
+      '/make-server-8880f2f2/purchase-orders/:purchaseOrderId/receive',
+      '/make-server-8880f2f2/products/:productId/cost-history',
+      '/make-server-8880f2f2/shifts',
+      '/make-server-8880f2f2/shifts/current',
+      '/make-server-8880f2f2/shifts/:shiftId/report',
+      '/make-server-8880f2f2/shifts/:shiftId/cash-movements',
+      '/make-server-8880f2f2/shifts/:shiftId/close',
+      '/make-server-8880f2f2/shifts/:shiftId/review',
+      '/make-server-8880f2f2/gift-cards',
+      '/make-server-8880f2f2/gift-cards/:giftCardId/status',
+      '/make-server-8880f2f2/gift-cards/lookup/:code',
+      '/make-server-8880f2f2/gift-cards/redeem',
+      '/make-server-8880f2f2/gift-cards/reverse',
+      '/make-server-8880f2f2/parked-sales',
+      '/make-server-8880f2f2/parked-sales/:parkedSaleId/recall',
+      '/make-server-8880f2f2/parked-sales/:parkedSaleId/discard',
+      '/make-server-8880f2f2/offline-sales',
+      '/make-server-8880f2f2/offline-sales/:offlineSaleId/accept',
+      '/make-server-8880f2f2/offline-sales/:offlineSaleId/void',
+      '/make-server-8880f2f2/overrides',
+      '/make-server-8880f2f2/overrides/approvers',
+      '/make-server-8880f2f2/overrides/pin',
+      '/make-server-8880f2f2/orders/:orderId/receipt',
+      '/make-server-8880f2f2/orders/:orderId/invoice',
+      '/make-server-8880f2f2/orders/:orderId/invoice/pdf',
+      '/make-server-8880f2f2/collection/slots',
+      '/make-server-8880f2f2/collection/settings',
+      '/make-server-8880f2f2/collection/lookup',
+      '/make-server-8880f2f2/orders/:orderId/ready-for-collection',
+      '/make-server-8880f2f2/orders/:orderId/collect',
+      '/make-server-8880f2f2/orders/:orderId/tracking',
+      '/make-server-8880f2f2/orders/:orderId/shipments',
+      '/make-server-8880f2f2/shipments/:shipmentId/status',
+      '/make-server-8880f2f2/orders/track',
+      '/make-server-8880f2f2/orders/:orderId/emails/status',
+      '/make-server-8880f2f2/emails/password-changed',
+      '/make-server-8880f2f2/emails/preferences',
+      '/make-server-8880f2f2/emails/unsubscribe',
+      '/make-server-8880f2f2/emails/events',
+      '/make-server-8880f2f2/emails/:emailId/resend',
+      '/make-server-8880f2f2/cart',
+      '/make-server-8880f2f2/carts/restore',
+      '/make-server-8880f2f2/carts/abandoned/run',
+      '/make-server-8880f2f2/carts/recovery/report',
+      '/make-server-8880f2f2/carts/recovery/settings',
+      '/make-server-8880f2f2/receipt-template'
     ],
     timestamp: new Date().toISOString()
   }, 404);
@@ -682,14 +2182,100 @@ console.log('  - GET  /make-server-8880f2f2/health (public)');
 console.log('  - GET  /make-server-8880f2f2/test-db (public)');
 console.log('  - POST /make-server-8880f2f2/test-user-creation (public)');
 console.log('  - GET  /make-server-8880f2f2/products (public)');
+console.log('  - GET  /make-server-8880f2f2/products/search (public)');
+console.log('  - POST /make-server-8880f2f2/products/search/log (public)');
+console.log('  - GET  /make-server-8880f2f2/products/suggest (public)');
 console.log('  - POST /make-server-8880f2f2/barcode/lookup (public)');
 console.log('  - GET  /make-server-8880f2f2/barcode/check/:barcode (public)');
 console.log('  - POST /make-server-8880f2f2/init-database (requires auth)');
 console.log('  - POST /make-server-8880f2f2/barcode/add-product (requires auth)');
 console.log('  - POST /make-server-8880f2f2/stripe/create-payment-intent (public)');
-console.log('  - POST /make-server-8880f2f2/stripe/confirm-payment (public)');
 console.log('  - POST /make-server-8880f2f2/stripe/payment-method-details (public)');
 console.log('  - POST /make-server-8880f2f2/stripe/webhook (public)');
+console.log('  - POST /make-server-8880f2f2/pricing/quote (public)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/pricing (order customer, cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/orders/:orderId/refunds (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/refunds (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/returns/lookup/:orderNumber (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/returns (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/loyalty/me (requires auth)');
+console.log('  - GET  /make-server-8880f2f2/loyalty/customers (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/loyalty/sync (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/loyalty/expire (admin)');
+console.log('  - GET  /make-server-8880f2f2/loyalty/expire/run (cron secret)');
+console.log('  - GET  /make-server-8880f2f2/products/:productId/reviews (public)');
+console.log('  - GET  /make-server-8880f2f2/products/:productId/reviews/eligibility (requires auth)');
+console.log('  - POST /make-server-8880f2f2/products/:productId/reviews (requires auth)');
+console.log('  - GET  /make-server-8880f2f2/reviews/moderation (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/reviews/:reviewId/moderate (admin, manager)');
+console.log('  - DELETE /make-server-8880f2f2/reviews/:reviewId (requires auth)');
+console.log('  - GET  /make-server-8880f2f2/inventory/products/:productId/movements (admin, manager, staff)');
+console.log('  - POST /make-server-8880f2f2/inventory/adjustments (admin, manager, staff)');
+console.log('  - GET  /make-server-8880f2f2/inventory/reconciliation (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/stock (requires auth)');
+console.log('  - GET  /make-server-8880f2f2/stock-takes (admin, manager, staff)');
+console.log('  - POST /make-server-8880f2f2/stock-takes (admin, manager, staff)');
+console.log('  - GET  /make-server-8880f2f2/stock-takes/:stockTakeId (admin, manager, staff)');
+console.log('  - POST /make-server-8880f2f2/stock-takes/:stockTakeId/counts (admin, manager, staff)');
+console.log('  - POST /make-server-8880f2f2/stock-takes/:stockTakeId/submit (admin, manager, staff)');
+console.log('  - POST /make-server-8880f2f2/stock-takes/:stockTakeId/review (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/purchase-orders/:purchaseOrderId/receive (admin, manager, staff)');
+console.log('  - GET  /make-server-8880f2f2/products/:productId/cost-history (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/shifts/current (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/shifts (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/shifts (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/shifts/:shiftId/report (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/shifts/:shiftId/cash-movements (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/shifts/:shiftId/close (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/shifts/:shiftId/review (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/gift-cards (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/gift-cards (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/gift-cards/:giftCardId/status (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/gift-cards/lookup/:code (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/gift-cards/redeem (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/gift-cards/reverse (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/parked-sales (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/parked-sales (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/parked-sales/:parkedSaleId/recall (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/parked-sales/:parkedSaleId/discard (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/offline-sales (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/offline-sales (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/offline-sales/:offlineSaleId/accept (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/offline-sales/:offlineSaleId/void (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/overrides/approvers (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/overrides (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/overrides (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/overrides/pin (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/orders/:orderId/receipt (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/orders/:orderId/invoice (authenticated, own orders)');
+console.log('  - GET  /make-server-8880f2f2/orders/:orderId/invoice/pdf (authenticated, own orders)');
+console.log('  - GET  /make-server-8880f2f2/collection/slots (public)');
+console.log('  - GET  /make-server-8880f2f2/collection/settings (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/collection/settings (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/collection/lookup (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/ready-for-collection (staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/collect (cashier, staff, manager, admin)');
+console.log('  - GET  /make-server-8880f2f2/orders/:orderId/tracking (authenticated, own orders)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/shipments (staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/shipments/:shipmentId/status (staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/orders/track (public)');
+console.log('  - POST /make-server-8880f2f2/orders/:orderId/emails/status (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/emails/password-changed (authenticated)');
+console.log('  - GET  /make-server-8880f2f2/emails/preferences (authenticated)');
+console.log('  - POST /make-server-8880f2f2/emails/preferences (authenticated)');
+console.log('  - POST /make-server-8880f2f2/emails/unsubscribe (public)');
+console.log('  - POST /make-server-8880f2f2/emails/events (public, webhook secret)');
+console.log('  - POST /make-server-8880f2f2/emails/:emailId/resend (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/cart (authenticated)');
+console.log('  - POST /make-server-8880f2f2/cart (authenticated)');
+console.log('  - POST /make-server-8880f2f2/carts/restore (public)');
+console.log('  - GET  /make-server-8880f2f2/carts/abandoned/run (cron secret)');
+console.log('  - POST /make-server-8880f2f2/carts/abandoned/run (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/carts/recovery/report (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/carts/recovery/settings (admin, manager)');
+console.log('  - POST /make-server-8880f2f2/carts/recovery/settings (admin, manager)');
+console.log('  - GET  /make-server-8880f2f2/receipt-template (cashier, staff, manager, admin)');
+console.log('  - POST /make-server-8880f2f2/receipt-template (admin, manager)');
 
 // Export for Vercel using Hono's Vercel adapter
 export default handle(app);
\ No newline at end of file
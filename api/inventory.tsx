@@ -0,0 +1,280 @@
+import { decrementStockOnce } from './order-payments.tsx';
+
+// Inventory movements ledger.
+//
+// Every change to products.stock_quantity or product_variants.stock_quantity
+// is a row in `stock_movements` written by the record_stock_movement()
+// database function, which moves the stock in the same statement. Sales and
+// refund returns reach it through update_stock_levels() and restock_product();
+// staff adjustments, receiving and write-offs come through adjustStock(). The
+// reconciliation report compares each item's stock with the sum of its ledger
+// so a direct edit that bypassed the ledger shows up as a difference.
+
+export type StockMovementType =
+  | 'opening_balance'
+  | 'sale'
+  | 'pos_sale'
+  | 'refund_return'
+  | 'adjustment'
+  | 'receiving'
+  | 'stock_take'
+  | 'damage';
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  movement_type: StockMovementType;
+  quantity_change: number;
+  quantity_after: number;
+  reason: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  created_by: string | null;
+  created_at: string;
+}
+
+export interface RecordMovementRequest {
+  productId: string;
+  variantId?: string | null;
+  quantityChange: number;
+  movementType: StockMovementType;
+  reason?: string | null;
+  referenceType?: string | null;
+  referenceId?: string | null;
+  createdBy?: string | null;
+  allowNegative?: boolean;
+}
+
+export interface StockAdjustmentRequest {
+  product_id: string;
+  variant_id?: string | null;
+  movement_type: StockMovementType;
+  quantity_change?: number;
+  new_quantity?: number;
+  reason?: string;
+}
+
+export class InventoryError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InventoryError';
+  }
+}
+
+// Movement types staff may record by hand; the rest come from sales, refunds
+// and stock-takes
+export const MANUAL_MOVEMENT_TYPES: StockMovementType[] = ['adjustment', 'receiving', 'damage'];
+
+const MOVEMENT_PAGE_SIZE = 50;
+
+/**
+ * Move stock and record it in the ledger. Throws when a decrease would take
+ * stock below zero, unless allowNegative is set.
+ */
+export async function recordStockMovement(supabase: any, request: RecordMovementRequest): Promise<StockMovement> {
+  const quantityChange = Math.trunc(Number(request.quantityChange));
+  if (!quantityChange) {
+    throw new InventoryError('Quantity change must be a whole number other than zero');
+  }
+
+  const { data, error } = await supabase.rpc('record_stock_movement', {
+    product_id: request.productId,
+    quantity_change: quantityChange,
+    movement_type: request.movementType,
+    variant_id: request.variantId || null,
+    reason: request.reason || null,
+    reference_type: request.referenceType || null,
+    reference_id: request.referenceId || null,
+    created_by: request.createdBy || null,
+    allow_negative: !!request.allowNegative,
+  });
+
+  if (error) {
+    throw new InventoryError(`Failed to record stock movement: ${error.message}`, 500);
+  }
+  // A composite NULL comes back as a row of nulls
+  if (!data || !data.id) {
+    throw new InventoryError('Not enough stock for this change', 409);
+  }
+
+  return data;
+}
+
+async function getCurrentStock(supabase: any, productId: string, variantId: string | null) {
+  const { data: product, error } = await supabase
+    .from('products')
+    .select('id, name, stock_quantity, has_variants')
+    .eq('id', productId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InventoryError(`Failed to load product: ${error.message}`, 500);
+  }
+  if (!product) {
+    throw new InventoryError('Product not found', 404);
+  }
+
+  if (!variantId) {
+    if (product.has_variants) {
+      throw new InventoryError(`${product.name} is stocked per variant; choose a variant`);
+    }
+    return Number(product.stock_quantity || 0);
+  }
+
+  const { data: variant, error: variantError } = await supabase
+    .from('product_variants')
+    .select('id, stock_quantity')
+    .eq('id', variantId)
+    .eq('product_id', productId)
+    .maybeSingle();
+
+  if (variantError) {
+    throw new InventoryError(`Failed to load variant: ${variantError.message}`, 500);
+  }
+  if (!variant) {
+    throw new InventoryError('Variant not found for this product', 404);
+  }
+  return Number(variant.stock_quantity || 0);
+}
+
+/**
+ * A manual stock change by staff: either a signed quantity_change or the
+ * counted new_quantity, which is turned into the difference from current stock
+ */
+export async function adjustStock(supabase: any, userId: string, request: StockAdjustmentRequest) {
+  if (!request.product_id) {
+    throw new InventoryError('Choose a product');
+  }
+  if (!MANUAL_MOVEMENT_TYPES.includes(request.movement_type)) {
+    throw new InventoryError(`Movement type must be one of ${MANUAL_MOVEMENT_TYPES.join(', ')}`);
+  }
+
+  const reason = String(request.reason || '').trim();
+  if (!reason) {
+    throw new InventoryError('Give a reason for the stock change');
+  }
+
+  const variantId = request.variant_id || null;
+  let quantityChange: number;
+  if (request.new_quantity !== undefined && request.new_quantity !== null) {
+    const newQuantity = Math.trunc(Number(request.new_quantity));
+    if (!Number.isFinite(newQuantity) || newQuantity < 0) {
+      throw new InventoryError('New quantity must be zero or more');
+    }
+    quantityChange = newQuantity - await getCurrentStock(supabase, request.product_id, variantId);
+    if (quantityChange === 0) {
+      return null;
+    }
+  } else {
+    quantityChange = Math.trunc(Number(request.quantity_change));
+    await getCurrentStock(supabase, request.product_id, variantId);
+  }
+
+  if (request.movement_type === 'receiving' && quantityChange < 0) {
+    throw new InventoryError('Received stock must increase the quantity');
+  }
+  if (request.movement_type === 'damage' && quantityChange > 0) {
+    throw new InventoryError('Damaged or written-off stock must decrease the quantity');
+  }
+
+  return recordStockMovement(supabase, {
+    productId: request.product_id,
+    variantId,
+    quantityChange,
+    movementType: request.movement_type,
+    reason,
+    referenceType: 'manual',
+    createdBy: userId,
+  });
+}
+
+/**
+ * Movement history for a product, newest first, optionally for one variant
+ */
+export async function listStockMovements(
+  supabase: any,
+  productId: string,
+  options: { variantId?: string | null; page?: number } = {}
+) {
+  const page = Math.max(1, Math.floor(Number(options.page) || 1));
+  const from = (page - 1) * MOVEMENT_PAGE_SIZE;
+
+  let query = supabase
+    .from('stock_movements')
+    .select('*, variant:product_variants(id, name, sku), user:user_profiles(first_name, last_name, email)')
+    .eq('product_id', productId)
+    .order('created_at', { ascending: false })
+    .range(from, from + MOVEMENT_PAGE_SIZE - 1);
+
+  if (options.variantId) {
+    query = query.eq('variant_id', options.variantId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new InventoryError(`Failed to load stock movements: ${error.message}`, 500);
+  }
+
+  return {
+    movements: (data || []).map(({ user, ...movement }: any) => ({
+      ...movement,
+      created_by_name: user
+        ? [user.first_name, user.last_name].filter(Boolean).join(' ') || user.email
+        : null,
+    })),
+    page,
+    has_more: (data || []).length === MOVEMENT_PAGE_SIZE,
+  };
+}
+
+/**
+ * Every stock-holding product and variant whose stock differs from the sum of
+ * its ledger
+ */
+export async function getStockReconciliation(supabase: any) {
+  const { data, error } = await supabase.rpc('stock_reconciliation');
+  if (error) {
+    throw new InventoryError(`Failed to reconcile stock: ${error.message}`, 500);
+  }
+
+  const rows = data || [];
+  const discrepancies = rows
+    .filter((row: any) => Number(row.difference) !== 0)
+    .sort((a: any, b: any) => Math.abs(b.difference) - Math.abs(a.difference));
+
+  return {
+    checked: rows.length,
+    in_balance: rows.length - discrepancies.length,
+    discrepancies,
+    generated_at: new Date().toISOString(),
+  };
+}
+
+/**
+ * Take stock for a paid order placed from the app. Customers may only do this
+ * for their own orders; the per-order claim makes repeat calls harmless.
+ */
+export async function takeOrderStock(supabase: any, orderId: string, userId: string, isStaff: boolean) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, customer_id, payment_status')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InventoryError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order || (!isStaff && order.customer_id !== userId)) {
+    throw new InventoryError('Order not found', 404);
+  }
+  if (order.payment_status !== 'paid') {
+    throw new InventoryError('Stock is taken once the order is paid', 409);
+  }
+
+  try {
+    return { decremented: await decrementStockOnce(supabase, orderId) };
+  } catch (error: any) {
+    throw new InventoryError(error.message || 'Failed to update stock levels', 500);
+  }
+}
@@ -0,0 +1,340 @@
+import { STANDARD_VAT_RATE } from './pricing.tsx';
+import { getReceiptTemplate } from './receipts.tsx';
+import { A4_WIDTH, PdfDocument, wrapText } from './pdf.tsx';
+
+// South African tax invoices.
+//
+// A paid order gets one tax invoice. Its number comes from a single counter
+// row that `issue_tax_invoice` increments in the same transaction as it
+// inserts the invoice, so numbers run without gaps: a failed insert rolls the
+// counter back with it. The invoice keeps a snapshot of the seller (from the
+// receipt template, which holds the store's VAT number), the buyer and every
+// line with its VAT-exclusive and VAT-inclusive amounts, so it reads the same
+// however the order or settings change later. The PDF is rendered from that
+// snapshot and kept in the private `invoices` storage bucket; if it is ever
+// missing it is rendered again from the row.
+
+export interface InvoiceParty {
+  name: string;
+  address_lines: string[];
+  email?: string | null;
+  phone?: string | null;
+  vat_number?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number; // VAT inclusive, as sold
+  vat_rate: number;
+  amount_excl_vat: number; // After order discounts, spread over the lines
+  vat_amount: number;
+  amount_incl_vat: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  invoice_number: string;
+  sequence_number: number;
+  order_id: string;
+  order_number: string;
+  issued_at: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  discount_amount: number;
+  total_excl_vat: number;
+  vat_amount: number;
+  total_incl_vat: number;
+  pdf_path: string | null;
+}
+
+export class InvoiceError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+export const INVOICE_BUCKET = 'invoices';
+
+const INVOICEABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+const STAFF_ROLES = ['cashier', 'staff', 'manager', 'admin'];
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const formatRand = (value: number) => `R${Number(value).toFixed(2)}`;
+
+const pdfPath = (invoice: Pick<TaxInvoice, 'order_id' | 'invoice_number'>) => `${invoice.order_id}/${invoice.invoice_number}.pdf`;
+
+/**
+ * Split each line's VAT-inclusive price into VAT and the amount excluding it.
+ * Order-level discounts (manual and loyalty) are spread over the lines in
+ * proportion to their value, as on the till receipt; the last line takes any
+ * rounding so the lines add up to what was charged. Delivery is standard rated.
+ */
+function buildLines(order: any): { lines: InvoiceLine[]; discount: number } {
+  const items = order.order_items || [];
+  const total = Number(order.total ?? order.total_amount ?? 0);
+  const shipping = Number(order.shipping_amount || 0);
+  const merchandise = roundCurrency(total - shipping);
+  const linesTotal = roundCurrency(items.reduce((sum: number, item: any) => sum + Number(item.total_price || 0), 0));
+  const factor = linesTotal > 0 ? merchandise / linesTotal : 0;
+
+  let allocated = 0;
+  const lines: InvoiceLine[] = items.map((item: any, index: number) => {
+    const gross = index === items.length - 1
+      ? roundCurrency(merchandise - allocated)
+      : roundCurrency(Number(item.total_price || 0) * factor);
+    allocated = roundCurrency(allocated + gross);
+    const rate = Number(item.tax_rate ?? STANDARD_VAT_RATE);
+    const vat = roundCurrency(gross - gross / (1 + rate));
+    return {
+      description: item.product_snapshot?.name || item.product_name || 'Item',
+      sku: item.product_sku || null,
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      vat_rate: rate,
+      amount_excl_vat: roundCurrency(gross - vat),
+      vat_amount: vat,
+      amount_incl_vat: gross,
+    };
+  });
+
+  if (shipping > 0) {
+    const vat = roundCurrency(shipping - shipping / (1 + STANDARD_VAT_RATE));
+    lines.push({
+      description: 'Delivery',
+      sku: null,
+      quantity: 1,
+      unit_price: shipping,
+      vat_rate: STANDARD_VAT_RATE,
+      amount_excl_vat: roundCurrency(shipping - vat),
+      vat_amount: vat,
+      amount_incl_vat: shipping,
+    });
+  }
+
+  return { lines, discount: Math.max(roundCurrency(linesTotal - merchandise), 0) };
+}
+
+function buildBuyer(order: any): InvoiceParty {
+  const address = order.billing_address || order.shipping_address || {};
+  // Walk-in till sales are recorded against the cashier, who is not the customer
+  const walkIn = !!order.payment_details?.cashier_id && order.customer_id === order.payment_details.cashier_id;
+  const name = walkIn
+    ? 'Cash customer'
+    : [address.first_name, address.last_name].filter(Boolean).join(' ') || order.customer_info?.name || 'Customer';
+
+  return {
+    name,
+    address_lines: walkIn
+      ? []
+      : [address.address || address.address_line_1, address.city, [address.province || address.state, address.postal_code].filter(Boolean).join(' ')]
+        .filter(Boolean),
+    email: walkIn ? null : order.customer_email || address.email || null,
+    phone: walkIn ? null : address.phone || order.customer_info?.phone || null,
+    vat_number: address.vat_number || null,
+  };
+}
+
+async function loadOrder(supabase: any, orderId: string) {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, order_items (*)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InvoiceError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order) {
+    throw new InvoiceError('Order not found', 404);
+  }
+  return order;
+}
+
+export async function getInvoice(supabase: any, orderId: string): Promise<TaxInvoice | null> {
+  const { data, error } = await supabase
+    .from('tax_invoices')
+    .select('*')
+    .eq('order_id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new InvoiceError(`Failed to load invoice: ${error.message}`, 500);
+  }
+  return data;
+}
+
+/**
+ * The order's tax invoice, issuing it with the next number if it has none.
+ * Only paid orders are invoiced. Customers may only have their own orders'.
+ */
+export async function issueInvoice(supabase: any, orderId: string, requester?: { id: string; role: string }): Promise<TaxInvoice> {
+  if (requester && !STAFF_ROLES.includes(requester.role)) {
+    const { data: owned } = await supabase.from('orders').select('customer_id').eq('id', orderId).maybeSingle();
+    if (!owned || owned.customer_id !== requester.id) {
+      throw new InvoiceError('Order not found', 404);
+    }
+  }
+
+  const existing = await getInvoice(supabase, orderId);
+  if (existing) return existing;
+
+  const order = await loadOrder(supabase, orderId);
+  if (!INVOICEABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+    throw new InvoiceError(`Order ${order.order_number} is ${order.payment_status}; a tax invoice is issued once it is paid`, 409);
+  }
+
+  const template = await getReceiptTemplate(supabase);
+  if (!template.vat_number) {
+    throw new InvoiceError('Set the store VAT number in the receipt settings before issuing tax invoices', 409);
+  }
+
+  const { lines, discount } = buildLines(order);
+  const sum = (key: keyof InvoiceLine) => roundCurrency(lines.reduce((total, line) => total + Number(line[key]), 0));
+
+  const { data: invoice, error } = await supabase.rpc('issue_tax_invoice', {
+    order_id: order.id,
+    invoice: {
+      order_number: order.order_number,
+      seller: {
+        name: template.store_name,
+        address_lines: template.address_lines,
+        phone: template.phone || null,
+        vat_number: template.vat_number,
+      },
+      buyer: buildBuyer(order),
+      lines,
+      discount_amount: discount,
+      total_excl_vat: sum('amount_excl_vat'),
+      vat_amount: sum('vat_amount'),
+      total_incl_vat: sum('amount_incl_vat'),
+    },
+  });
+
+  if (error) {
+    throw new InvoiceError(`Failed to issue invoice: ${error.message}`, 500);
+  }
+
+  console.log(`🧾 Tax invoice ${invoice.invoice_number} issued for order ${order.order_number}`);
+  return invoice;
+}
+
+export function renderInvoicePdf(invoice: TaxInvoice): Uint8Array {
+  const pdf = new PdfDocument(`Tax Invoice ${invoice.invoice_number}`);
+  const left = 50;
+  const right = A4_WIDTH - 50;
+  const grey: [number, number, number] = [0.42, 0.45, 0.5];
+  const navy: [number, number, number] = [0.035, 0.13, 0.37];
+
+  // Description, quantity, unit price, VAT rate, excl. VAT, VAT, incl. VAT; numbers right-aligned
+  const columns = { description: left, quantity: 285, unit: 345, rate: 385, excl: 445, vat: 495, incl: right };
+  let y = 60;
+
+  pdf.text(left, y, 'TAX INVOICE', { size: 22, font: 'bold', colour: navy });
+  pdf.text(right, y - 8, invoice.invoice_number, { size: 12, font: 'bold', align: 'right' });
+  pdf.text(right, y + 6, `Date: ${new Date(invoice.issued_at).toLocaleDateString('en-ZA', { timeZone: 'Africa/Johannesburg' })}`, { size: 9, align: 'right', colour: grey });
+  pdf.text(right, y + 18, `Order: ${invoice.order_number}`, { size: 9, align: 'right', colour: grey });
+  y += 45;
+
+  const party = (x: number, heading: string, details: InvoiceParty) => {
+    let rowY = y;
+    pdf.text(x, rowY, heading, { size: 8, font: 'bold', colour: grey });
+    rowY += 14;
+    pdf.text(x, rowY, details.name, { size: 11, font: 'bold' });
+    for (const line of [
+      ...details.address_lines,
+      details.phone ? `Tel: ${details.phone}` : '',
+      details.email || '',
+      details.vat_number ? `VAT No: ${details.vat_number}` : '',
+    ].filter(Boolean)) {
+      rowY += 13;
+      pdf.text(x, rowY, line, { size: 9 });
+    }
+    return rowY;
+  };
+  y = Math.max(party(left, 'FROM', invoice.seller), party(310, 'BILL TO', invoice.buyer)) + 30;
+
+  const header = () => {
+    pdf.rect(left, y - 12, right - left, 18, [0.95, 0.96, 0.97]);
+    pdf.text(columns.description + 4, y, 'Description', { size: 8, font: 'bold', colour: grey });
+    pdf.text(columns.quantity, y, 'Qty', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    pdf.text(columns.unit, y, 'Unit price', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    pdf.text(columns.rate, y, 'VAT %', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    pdf.text(columns.excl, y, 'Excl. VAT', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    pdf.text(columns.vat, y, 'VAT', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    pdf.text(columns.incl - 4, y, 'Incl. VAT', { size: 8, font: 'bold', colour: grey, align: 'right' });
+    y += 20;
+  };
+  header();
+
+  for (const line of invoice.lines) {
+    const description = wrapText(line.sku ? `${line.description} (${line.sku})` : line.description, columns.quantity - columns.description - 40, 9);
+    if (y + description.length * 12 > 740) {
+      pdf.addPage();
+      y = 60;
+      header();
+    }
+    description.forEach((text, index) => pdf.text(columns.description + 4, y + index * 12, text, { size: 9 }));
+    pdf.text(columns.quantity, y, String(line.quantity), { size: 9, align: 'right' });
+    pdf.text(columns.unit, y, formatRand(line.unit_price), { size: 9, align: 'right' });
+    pdf.text(columns.rate, y, `${Math.round(line.vat_rate * 100)}%`, { size: 9, align: 'right' });
+    pdf.text(columns.excl, y, formatRand(line.amount_excl_vat), { size: 9, align: 'right' });
+    pdf.text(columns.vat, y, formatRand(line.vat_amount), { size: 9, align: 'right' });
+    pdf.text(columns.incl - 4, y, formatRand(line.amount_incl_vat), { size: 9, align: 'right' });
+    y += description.length * 12 + 4;
+    pdf.line(left, y - 8, right, y - 8);
+  }
+
+  if (y > 680) {
+    pdf.addPage();
+    y = 60;
+  }
+  y += 10;
+  const total = (label: string, value: string, bold = false) => {
+    pdf.text(columns.excl, y, label, { size: bold ? 11 : 9, font: bold ? 'bold' : 'regular', align: 'right' });
+    pdf.text(right - 4, y, value, { size: bold ? 11 : 9, font: bold ? 'bold' : 'regular', align: 'right' });
+    y += bold ? 18 : 14;
+  };
+  total('Total excl. VAT', formatRand(invoice.total_excl_vat));
+  total('VAT', formatRand(invoice.vat_amount));
+  total('Total incl. VAT', formatRand(invoice.total_incl_vat), true);
+  if (invoice.discount_amount > 0) {
+    pdf.text(left, y + 6, `Line amounts include order discounts of ${formatRand(invoice.discount_amount)}.`, { size: 8, colour: grey });
+  }
+
+  pdf.text(left, 800, `${invoice.seller.name} · VAT No ${invoice.seller.vat_number} · ${invoice.invoice_number}`, { size: 8, colour: grey });
+  return pdf.toBytes();
+}
+
+/**
+ * The invoice PDF, from storage or rendered again from the invoice and stored
+ */
+export async function getInvoicePdf(supabase: any, invoice: TaxInvoice): Promise<Uint8Array> {
+  if (invoice.pdf_path) {
+    const { data } = await supabase.storage.from(INVOICE_BUCKET).download(invoice.pdf_path);
+    if (data) return new Uint8Array(await data.arrayBuffer());
+    console.warn(`⚠️ Invoice ${invoice.invoice_number} PDF missing from storage; rendering it again`);
+  }
+
+  const pdf = renderInvoicePdf(invoice);
+  const path = pdfPath(invoice);
+  const { error: uploadError } = await supabase.storage
+    .from(INVOICE_BUCKET)
+    .upload(path, pdf, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    // The customer still gets the document; storing it is retried next time
+    console.error(`❌ Failed to store invoice ${invoice.invoice_number} PDF:`, uploadError.message);
+    return pdf;
+  }
+
+  if (invoice.pdf_path !== path) {
+    await supabase.from('tax_invoices').update({ pdf_path: path }).eq('id', invoice.id);
+  }
+  return pdf;
+}
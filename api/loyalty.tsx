@@ -0,0 +1,402 @@
+// Loyalty points ledger.
+//
+// Every change to a member's points is a row in `loyalty_transactions`
+// written by the apply_loyalty_transaction() database function, which also
+// moves user_profiles.loyalty_points. A (type, reference) pair is unique, so
+// awarding, redeeming or reversing points for the same order twice is a no-op.
+//
+// Points are earned on paid orders, spent at checkout or in POS, clawed back
+// when an order is refunded or cancelled, and lapse after POINTS_EXPIRY_MONTHS.
+
+export type LoyaltyTransactionType = 'earn' | 'redeem' | 'reverse_earn' | 'reverse_redeem' | 'expire' | 'adjust';
+
+export interface LoyaltyTransaction {
+  id: string;
+  customer_id: string;
+  order_id: string | null;
+  type: LoyaltyTransactionType;
+  points: number;
+  balance_after: number;
+  reference: string;
+  description: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface LoyaltyTransactionRequest {
+  customerId: string;
+  type: LoyaltyTransactionType;
+  points: number; // Signed: credits are positive, debits negative
+  reference: string;
+  orderId?: string | null;
+  description?: string;
+  expiresAt?: string | null;
+  clamp?: boolean; // Stop at a zero balance instead of failing
+}
+
+export interface LoyaltyRedemption {
+  points: number;
+  discount: number;
+}
+
+export class LoyaltyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'LoyaltyError';
+  }
+}
+
+export const POINT_VALUE = 0.01; // Rand value of one point
+export const POINTS_PER_RAND = 1;
+export const MIN_REDEMPTION_POINTS = 100;
+export const POINTS_EXPIRY_MONTHS = 12;
+const EXPIRY_WARNING_DAYS = 30;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function pointsForAmount(amount: number): number {
+  return Math.max(0, Math.floor(roundCurrency(amount) * POINTS_PER_RAND));
+}
+
+export function pointsExpiryDate(from: Date = new Date()): string {
+  const expiresAt = new Date(from);
+  expiresAt.setMonth(expiresAt.getMonth() + POINTS_EXPIRY_MONTHS);
+  return expiresAt.toISOString();
+}
+
+/**
+ * Record a points change. Returns null when the same change was already recorded.
+ */
+export async function applyLoyaltyTransaction(
+  supabase: any,
+  request: LoyaltyTransactionRequest
+): Promise<LoyaltyTransaction | null> {
+  if (!request.points) return null;
+
+  const { data, error } = await supabase.rpc('apply_loyalty_transaction', {
+    customer_id: request.customerId,
+    transaction_type: request.type,
+    points: Math.trunc(request.points),
+    reference: request.reference,
+    order_id: request.orderId || null,
+    description: request.description || null,
+    expires_at: request.expiresAt || null,
+    clamp: request.clamp === true,
+  });
+
+  if (error) {
+    if (String(error.message || '').includes('Insufficient loyalty points')) {
+      throw new LoyaltyError('Not enough loyalty points for this redemption', 409);
+    }
+    throw new LoyaltyError(`Failed to record loyalty points: ${error.message}`, 500);
+  }
+
+  return data && data.id ? data : null;
+}
+
+export async function getLoyaltyBalance(supabase: any, customerId: string): Promise<number> {
+  const { data: profile, error } = await supabase
+    .from('user_profiles')
+    .select('loyalty_points')
+    .eq('id', customerId)
+    .maybeSingle();
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load loyalty balance: ${error.message}`, 500);
+  }
+  if (!profile) {
+    throw new LoyaltyError('Loyalty member not found', 404);
+  }
+  return Number(profile.loyalty_points || 0);
+}
+
+async function loadLedger(supabase: any, customerId: string): Promise<LoyaltyTransaction[]> {
+  const { data, error } = await supabase
+    .from('loyalty_transactions')
+    .select('*')
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load loyalty history: ${error.message}`, 500);
+  }
+  return data || [];
+}
+
+// Points are spent oldest first, so every debit on the ledger is taken from
+// the earliest credits. Whatever is left of each credit is still spendable.
+function openLots(ledger: LoyaltyTransaction[]): { lot: LoyaltyTransaction; remaining: number }[] {
+  let debits = ledger.filter(row => row.points < 0).reduce((sum, row) => sum - row.points, 0);
+  const lots: { lot: LoyaltyTransaction; remaining: number }[] = [];
+
+  for (const lot of ledger.filter(row => row.points > 0)) {
+    const used = Math.min(lot.points, debits);
+    debits -= used;
+    if (lot.points - used > 0) {
+      lots.push({ lot, remaining: lot.points - used });
+    }
+  }
+  return lots;
+}
+
+/**
+ * Expire whatever is left of a member's points that have passed their expiry date
+ */
+export async function expirePoints(supabase: any, customerId: string, now: Date = new Date()): Promise<number> {
+  const expired = openLots(await loadLedger(supabase, customerId))
+    .filter(({ lot }) => lot.expires_at && new Date(lot.expires_at) <= now);
+  if (expired.length === 0) return 0;
+
+  const points = expired.reduce((sum, { remaining }) => sum + remaining, 0);
+  // Later lots only expire after earlier ones, so the newest expired lot
+  // identifies this run
+  const transaction = await applyLoyaltyTransaction(supabase, {
+    customerId,
+    type: 'expire',
+    points: -points,
+    reference: `expire:${expired[expired.length - 1].lot.id}`,
+    description: `${points} points expired`,
+    clamp: true,
+  });
+
+  return transaction ? -transaction.points : 0;
+}
+
+/**
+ * Expire points for every member holding points that have lapsed
+ */
+export async function expireAllPoints(supabase: any): Promise<{ customers: number; points: number }> {
+  const { data: rows, error } = await supabase
+    .from('loyalty_transactions')
+    .select('customer_id')
+    .gt('points', 0)
+    .lte('expires_at', new Date().toISOString());
+
+  if (error) {
+    throw new LoyaltyError(`Failed to find expiring points: ${error.message}`, 500);
+  }
+
+  const customerIds: string[] = Array.from(new Set((rows || []).map((row: any) => row.customer_id)));
+  let customers = 0;
+  let points = 0;
+  for (const customerId of customerIds) {
+    const expired = await expirePoints(supabase, customerId);
+    if (expired > 0) {
+      customers += 1;
+      points += expired;
+    }
+  }
+  return { customers, points };
+}
+
+/**
+ * Balance, recent history and points about to expire for one member
+ */
+export async function getLoyaltySummary(supabase: any, customerId: string) {
+  await expirePoints(supabase, customerId);
+
+  const [balance, ledger] = await Promise.all([
+    getLoyaltyBalance(supabase, customerId),
+    loadLedger(supabase, customerId),
+  ]);
+
+  const warnBefore = new Date(Date.now() + EXPIRY_WARNING_DAYS * 24 * 60 * 60 * 1000);
+  const expiring = openLots(ledger).filter(({ lot }) => lot.expires_at && new Date(lot.expires_at) <= warnBefore);
+
+  return {
+    balance,
+    point_value: POINT_VALUE,
+    minimum_redemption: MIN_REDEMPTION_POINTS,
+    expiring_points: expiring.reduce((sum, { remaining }) => sum + remaining, 0),
+    next_expiry: expiring[0]?.lot.expires_at || null,
+    transactions: ledger.reverse().slice(0, 50),
+  };
+}
+
+/**
+ * Check a redemption request and work out what it is worth. Only the points
+ * needed to cover maxAmount are spent.
+ */
+export async function previewRedemption(
+  supabase: any,
+  customerId: string | null,
+  points: number,
+  maxAmount: number
+): Promise<LoyaltyRedemption> {
+  const requested = Math.floor(Number(points) || 0);
+  if (requested <= 0) return { points: 0, discount: 0 };
+
+  if (!customerId) {
+    throw new LoyaltyError('Sign in or select a loyalty member to redeem points');
+  }
+  if (requested < MIN_REDEMPTION_POINTS) {
+    throw new LoyaltyError(`At least ${MIN_REDEMPTION_POINTS} points are needed to redeem`);
+  }
+
+  await expirePoints(supabase, customerId);
+  const balance = await getLoyaltyBalance(supabase, customerId);
+  if (requested > balance) {
+    throw new LoyaltyError(`Only ${balance} points are available`);
+  }
+
+  const discount = roundCurrency(Math.min(requested * POINT_VALUE, Math.max(0, maxAmount)));
+  return { points: Math.ceil(roundCurrency(discount / POINT_VALUE)), discount };
+}
+
+/**
+ * Spend the points a confirmed order was priced with
+ */
+export async function redeemOrderPoints(supabase: any, order: any, points: number): Promise<void> {
+  if (!order.loyalty_customer_id || points <= 0) return;
+
+  await applyLoyaltyTransaction(supabase, {
+    customerId: order.loyalty_customer_id,
+    type: 'redeem',
+    points: -points,
+    reference: order.id,
+    orderId: order.id,
+    description: `Redeemed on order ${order.order_number}`,
+  });
+}
+
+/**
+ * Award points for a paid order. Shipping does not earn points.
+ */
+export async function awardOrderPoints(supabase: any, orderId: string): Promise<number> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, order_number, loyalty_customer_id, payment_status, status, total, shipping_amount, loyalty_points_earned')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order || !order.loyalty_customer_id || order.payment_status !== 'paid' || order.status === 'cancelled') {
+    return 0;
+  }
+
+  const points = pointsForAmount(Number(order.total || 0) - Number(order.shipping_amount || 0));
+  if (points <= 0) return 0;
+
+  const transaction = await applyLoyaltyTransaction(supabase, {
+    customerId: order.loyalty_customer_id,
+    type: 'earn',
+    points,
+    reference: order.id,
+    orderId: order.id,
+    description: `Earned on order ${order.order_number}`,
+    expiresAt: pointsExpiryDate(),
+  });
+
+  if (transaction) {
+    await supabase
+      .from('orders')
+      .update({ loyalty_points_earned: points, updated_at: new Date().toISOString() })
+      .eq('id', order.id);
+  }
+  return transaction ? points : 0;
+}
+
+/**
+ * Bring a member's points in line with how much of an order still stands.
+ * A partial refund takes back earned points and returns redeemed points in
+ * proportion; a cancellation or full refund reverses them completely.
+ */
+export async function syncOrderLoyalty(supabase: any, orderId: string): Promise<{ reversed_earned: number; restored_redeemed: number }> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('id, order_number, loyalty_customer_id, payment_status, status, total, amount_refunded')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new LoyaltyError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order) {
+    throw new LoyaltyError('Order not found', 404);
+  }
+
+  const result = { reversed_earned: 0, restored_redeemed: 0 };
+  if (!order.loyalty_customer_id) return result;
+
+  const total = Number(order.total || 0);
+  const fraction = order.status === 'cancelled' || order.status === 'refunded' || order.payment_status === 'refunded'
+    ? 1
+    : total > 0 ? Math.min(1, Number(order.amount_refunded || 0) / total) : 0;
+  if (fraction <= 0) return result;
+
+  const { data: rows, error: ledgerError } = await supabase
+    .from('loyalty_transactions')
+    .select('type, points')
+    .eq('order_id', order.id);
+
+  if (ledgerError) {
+    throw new LoyaltyError(`Failed to load loyalty history: ${ledgerError.message}`, 500);
+  }
+
+  const sum = (type: LoyaltyTransactionType) =>
+    (rows || []).filter((row: any) => row.type === type).reduce((total: number, row: any) => total + Math.abs(Number(row.points)), 0);
+  // The reference changes with each new refunded share, so a repeated webhook
+  // or retry for the same refund does nothing
+  const reference = `${order.id}:${Math.round(fraction * 10000)}`;
+
+  const toReverse = Math.floor(sum('earn') * fraction) - sum('reverse_earn');
+  if (toReverse > 0) {
+    const transaction = await applyLoyaltyTransaction(supabase, {
+      customerId: order.loyalty_customer_id,
+      type: 'reverse_earn',
+      points: -toReverse,
+      reference,
+      orderId: order.id,
+      description: `Points reversed for refund on order ${order.order_number}`,
+      clamp: true, // Points already spent elsewhere cannot be taken back
+    });
+    result.reversed_earned = transaction ? -transaction.points : 0;
+  }
+
+  const toRestore = Math.floor(sum('redeem') * fraction) - sum('reverse_redeem');
+  if (toRestore > 0) {
+    const transaction = await applyLoyaltyTransaction(supabase, {
+      customerId: order.loyalty_customer_id,
+      type: 'reverse_redeem',
+      points: toRestore,
+      reference,
+      orderId: order.id,
+      description: `Redeemed points returned for order ${order.order_number}`,
+      expiresAt: pointsExpiryDate(),
+    });
+    result.restored_redeemed = transaction ? transaction.points : 0;
+  }
+
+  return result;
+}
+
+/**
+ * Find loyalty members by email, phone or name for the POS customer lookup
+ */
+export async function searchLoyaltyMembers(supabase: any, query: string) {
+  const term = String(query || '').trim().replace(/[%,()]/g, '');
+  if (term.length < 3) {
+    throw new LoyaltyError('Enter at least 3 characters to search');
+  }
+
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('id, email, first_name, last_name, phone, loyalty_points')
+    .eq('role', 'customer')
+    .or(`email.ilike.%${term}%,phone.ilike.%${term}%,first_name.ilike.%${term}%,last_name.ilike.%${term}%`)
+    .limit(10);
+
+  if (error) {
+    throw new LoyaltyError(`Failed to search customers: ${error.message}`, 500);
+  }
+
+  return (data || []).map((profile: any) => ({
+    id: profile.id,
+    name: [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email,
+    email: profile.email,
+    phone: profile.phone || null,
+    points: Number(profile.loyalty_points || 0),
+  }));
+}
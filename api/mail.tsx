@@ -0,0 +1,230 @@
+import { randomUUID } from 'crypto';
+import { mkdir, writeFile } from 'fs/promises';
+import { createTransport } from 'nodemailer';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Outgoing mail transport.
+//
+// Every email the server sends goes through one provider, chosen by
+// MAIL_PROVIDER:
+//   smtp     any SMTP server through nodemailer (SMTP_HOST, SMTP_PORT,
+//            SMTP_USER, SMTP_PASS; port 465 connects over TLS, others
+//            upgrade with STARTTLS when the server offers it)
+//   http     a JSON mail API (MAIL_HTTP_URL, MAIL_HTTP_API_KEY) that takes
+//            { from, to, subject, html, text, headers, attachments } and
+//            answers with the message id; attachment content is base64
+//   file     writes each message as an .eml file to MAIL_FILE_DIR, for
+//            development and tests
+//   console  only logs that a message would have been sent
+// Without MAIL_PROVIDER, SMTP is used when SMTP_HOST is set, then HTTP when
+// MAIL_HTTP_URL is, and otherwise the console.
+
+export interface MailAttachment {
+  filename: string;
+  content_type: string;
+  content: Uint8Array;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+  headers?: Record<string, string>;
+  attachments?: MailAttachment[];
+}
+
+export interface MailProvider {
+  name: 'smtp' | 'http' | 'file' | 'console';
+  // Resolves with the provider's id for the message, for matching delivery reports
+  send(message: MailMessage): Promise<{ message_id: string }>;
+}
+
+export class MailError extends Error {
+  constructor(message: string, public status: number = 502) {
+    super(message);
+    this.name = 'MailError';
+  }
+}
+
+const SMTP_TIMEOUT_MS = 30 * 1000;
+
+// One plain address; no display name, and nothing a header or SMTP command could be split on
+const ADDRESS_PATTERN = /^[^\s@<>(),;:"\\]+@[^\s@<>(),;:"\\]+\.[^\s@<>(),;:"\\]+$/;
+const HEADER_NAME_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export function mailFrom(): string {
+  return process.env.MAIL_FROM || 'Best Brightness <no-reply@localhost>';
+}
+
+const addressOnly = (value: string) => value.match(/<([^>]+)>/)?.[1] || value.trim();
+
+const singleLine = (value: string) => String(value ?? '').replace(/[\r\n]+/g, ' ').trim();
+
+/**
+ * The message as it may be handed to a provider. Customer-supplied text
+ * (names, order details) can end up in the subject, so line breaks there and
+ * in extra headers are folded to spaces; a recipient that is not one plain
+ * address is refused rather than guessed at.
+ */
+export function checkMessage(message: MailMessage): MailMessage {
+  const to = String(message.to ?? '').trim();
+  if (!ADDRESS_PATTERN.test(to)) {
+    throw new MailError(`Not a valid email address: ${JSON.stringify(to)}`, 400);
+  }
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(message.headers || {})) {
+    if (!HEADER_NAME_PATTERN.test(name)) {
+      throw new MailError(`Not a valid header name: ${JSON.stringify(name)}`, 400);
+    }
+    headers[name] = singleLine(value);
+  }
+
+  const attachments = (message.attachments || []).map(attachment => ({
+    ...attachment,
+    filename: singleLine(attachment.filename),
+    content_type: singleLine(attachment.content_type),
+  }));
+
+  return { ...message, to, subject: singleLine(message.subject), headers, attachments };
+}
+
+const newMessageId = () => `${randomUUID()}@${addressOnly(mailFrom()).split('@')[1] || 'localhost'}`;
+
+// What nodemailer needs for one message; it writes the MIME and encodes the headers
+const nodemailerMessage = (message: MailMessage, messageId: string) => ({
+  from: mailFrom(),
+  to: message.to,
+  subject: message.subject,
+  text: message.text,
+  html: message.html,
+  headers: message.headers,
+  messageId: `<${messageId}>`,
+  attachments: (message.attachments || []).map(attachment => ({
+    filename: attachment.filename,
+    contentType: attachment.content_type,
+    content: Buffer.from(attachment.content),
+  })),
+});
+
+interface SmtpConfig {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+}
+
+export function smtpProvider(config: SmtpConfig): MailProvider {
+  const transport = createTransport({
+    host: config.host,
+    port: config.port,
+    secure: config.port === 465,
+    auth: config.user ? { user: config.user, pass: config.pass || '' } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS,
+    greetingTimeout: SMTP_TIMEOUT_MS,
+    socketTimeout: SMTP_TIMEOUT_MS,
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      const messageId = newMessageId();
+      try {
+        await transport.sendMail(nodemailerMessage(checkMessage(message), messageId));
+      } catch (error) {
+        throw new MailError(`SMTP delivery failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+      return { message_id: messageId };
+    },
+  };
+}
+
+export function httpProvider(url: string, apiKey?: string): MailProvider {
+  return {
+    name: 'http',
+    async send(message) {
+      const checked = checkMessage(message);
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          from: mailFrom(),
+          ...checked,
+          attachments: (checked.attachments || []).map(attachment => ({
+            ...attachment,
+            content: Buffer.from(attachment.content).toString('base64'),
+          })),
+        }),
+      });
+      const payload: any = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new MailError(`Mail API answered ${response.status}: ${payload.message || payload.error || response.statusText}`);
+      }
+      return { message_id: String(payload.id || payload.message_id || payload.messageId || newMessageId()) };
+    },
+  };
+}
+
+/**
+ * Development sink: logs each message, and writes it as an .eml file when
+ * given a directory
+ */
+export function sinkProvider(directory?: string): MailProvider {
+  const transport = createTransport({ streamTransport: true, buffer: true, newline: 'windows' });
+
+  return {
+    name: directory ? 'file' : 'console',
+    async send(unchecked) {
+      const message = checkMessage(unchecked);
+      const messageId = newMessageId();
+      if (directory) {
+        const { message: eml } = await transport.sendMail(nodemailerMessage(message, messageId));
+        await mkdir(directory, { recursive: true });
+        const file = join(directory, `${new Date().toISOString().replace(/[:.]/g, '-')}-${messageId.split('@')[0]}.eml`);
+        await writeFile(file, eml as Buffer);
+        console.log(`📧 Wrote "${message.subject}" to ${message.to} as ${file}`);
+      } else {
+        console.log(`📧 Would send "${message.subject}" to ${message.to}:\n${message.text}`);
+      }
+      return { message_id: messageId };
+    },
+  };
+}
+
+let configured: MailProvider | null = null;
+
+export function getMailProvider(): MailProvider {
+  if (configured) return configured;
+
+  const name = process.env.MAIL_PROVIDER
+    || (process.env.SMTP_HOST ? 'smtp' : process.env.MAIL_HTTP_URL ? 'http' : 'console');
+  switch (name) {
+    case 'smtp':
+      if (!process.env.SMTP_HOST) throw new MailError('MAIL_PROVIDER is smtp but SMTP_HOST is not set', 500);
+      configured = smtpProvider({
+        host: process.env.SMTP_HOST,
+        port: Number(process.env.SMTP_PORT) || 587,
+        user: process.env.SMTP_USER,
+        pass: process.env.SMTP_PASS,
+      });
+      break;
+    case 'http':
+      if (!process.env.MAIL_HTTP_URL) throw new MailError('MAIL_PROVIDER is http but MAIL_HTTP_URL is not set', 500);
+      configured = httpProvider(process.env.MAIL_HTTP_URL, process.env.MAIL_HTTP_API_KEY);
+      break;
+    case 'file':
+      configured = sinkProvider(process.env.MAIL_FILE_DIR || join(tmpdir(), 'best-brightness-mail'));
+      break;
+    case 'console':
+      configured = sinkProvider();
+      break;
+    default:
+      throw new MailError(`Unknown MAIL_PROVIDER "${name}"; use smtp, http, file or console`, 500);
+  }
+  return configured;
+}
@@ -71,6 +71,34 @@ export async function authenticateUser(c: any, next: any) {
   }
 }
 
+// Attach the signed-in user when a valid token is sent, but let anonymous
+// requests (guest checkout, anon key) through
+export async function optionalAuth(c: any, next: any) {
+  const authHeader = c.req.header('Authorization');
+
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    try {
+      const { data: { user } } = await supabase.auth.getUser(authHeader.substring(7));
+      if (user) {
+        const { data: userProfile } = await supabase
+          .from('user_profiles')
+          .select('*')
+          .eq('id', user.id)
+          .maybeSingle();
+
+        if (!userProfile || userProfile.is_active !== false) {
+          c.set('user', user);
+          c.set('userProfile', userProfile);
+        }
+      }
+    } catch (error) {
+      console.warn('Optional authentication failed, continuing as guest:', error);
+    }
+  }
+
+  await next();
+}
+
 // Role-based authorization middleware
 export function requireRole(allowedRoles: string[]) {
   return async (c: any, next: any) => {
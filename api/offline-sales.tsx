@@ -0,0 +1,523 @@
+import { recordStockMovement } from './inventory.tsx';
+import { STANDARD_VAT_RATE } from './pricing.tsx';
+import { getPosPermissions } from '../src/utils/roleRouting.tsx';
+
+// POS sales rung up while the till was offline.
+//
+// The till keeps selling from its cached catalogue and queues each sale with
+// an order id it generated itself. When the connection is back the queue is
+// sent here oldest first. Each sale is kept in `offline_sales` under that id,
+// so a sale sent twice is only recorded once. A sale that still matches the
+// catalogue is recorded as a paid POS order straight away; one that does not
+// (the price changed, stock ran out, the product was withdrawn, the shift was
+// cashed up) is held as a conflict for a manager to accept or void. The
+// customer has already paid and left, so nothing is dropped or re-priced.
+
+export type OfflineSaleStatus = 'conflict' | 'synced' | 'accepted' | 'voided';
+
+export type OfflineSaleConflictType =
+  | 'product_unavailable'
+  | 'price_changed'
+  | 'insufficient_stock'
+  | 'total_mismatch'
+  | 'shift_closed'
+  | 'discount_not_authorised'
+  | 'record_failed';
+
+export interface OfflineSaleConflict {
+  type: OfflineSaleConflictType;
+  message: string;
+  product_id?: string;
+  variant_id?: string | null;
+  charged?: number;
+  current?: number;
+}
+
+export interface OfflineSaleItem {
+  product_id: string;
+  variant_id?: string | null;
+  name: string;
+  sku?: string | null;
+  barcode?: string | null;
+  category?: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface OfflineSalePayload {
+  id: string;
+  sold_at: string;
+  shift_id: string;
+  store_location: string;
+  till_id?: string;
+  cashier_name?: string;
+  items: OfflineSaleItem[];
+  discount_percent: number;
+  subtotal: number;
+  discount_amount: number;
+  total: number;
+  payment_method: string;
+  tenders: any[];
+}
+
+export class OfflineSaleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OfflineSaleError';
+  }
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Offline tills can only take tenders that need no lookup
+const OFFLINE_TENDERS = ['cash', 'card', 'eft'];
+
+const MONEY_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const displayName = (profile: any) =>
+  profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email : null;
+
+const itemKey = (item: { product_id: string; variant_id?: string | null }) => `${item.product_id}|${item.variant_id || ''}`;
+
+function validatePayload(sale: OfflineSalePayload) {
+  if (!sale || !UUID_PATTERN.test(String(sale.id || ''))) {
+    throw new OfflineSaleError('Offline sale id must be a UUID');
+  }
+  if (!sale.shift_id) {
+    throw new OfflineSaleError('Offline sale is not on a shift');
+  }
+  if (!sale.sold_at || isNaN(new Date(sale.sold_at).getTime())) {
+    throw new OfflineSaleError('Offline sale has no valid sale time');
+  }
+  if (!Array.isArray(sale.items) || sale.items.length === 0) {
+    throw new OfflineSaleError('Offline sale has no items');
+  }
+  for (const item of sale.items) {
+    if (!item.product_id || !Number.isInteger(Number(item.quantity)) || Number(item.quantity) < 1 || !(Number(item.unit_price) >= 0)) {
+      throw new OfflineSaleError(`Offline sale line ${item.name || item.product_id} is invalid`);
+    }
+  }
+  if (!Array.isArray(sale.tenders) || sale.tenders.length === 0) {
+    throw new OfflineSaleError('Offline sale has no tenders');
+  }
+  if (sale.tenders.some(tender => !OFFLINE_TENDERS.includes(tender?.method))) {
+    throw new OfflineSaleError('Offline sales can only be paid in cash, by card or by EFT');
+  }
+}
+
+/**
+ * The sale must come from the cashier whose shift it was rung up on (or a
+ * manager syncing on their behalf) and fall within the time that shift was open
+ */
+async function checkSaleShift(supabase: any, userId: string, role: string, sale: OfflineSalePayload) {
+  const { data: shift, error } = await supabase
+    .from('cash_shifts')
+    .select('id, cashier_id, opened_at, closed_at')
+    .eq('id', sale.shift_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new OfflineSaleError(`Failed to load shift: ${error.message}`, 500);
+  }
+  if (!shift) {
+    throw new OfflineSaleError('The shift this sale was taken on does not exist');
+  }
+  if (shift.cashier_id !== userId && !['manager', 'admin'].includes(role)) {
+    throw new OfflineSaleError('This sale was taken on another cashier\'s shift', 403);
+  }
+
+  const soldAt = new Date(sale.sold_at).getTime();
+  if (
+    (shift.opened_at && soldAt < new Date(shift.opened_at).getTime()) ||
+    (shift.closed_at && soldAt > new Date(shift.closed_at).getTime())
+  ) {
+    throw new OfflineSaleError('The sale time is outside the shift it was taken on');
+  }
+}
+
+/**
+ * Compare the sale with the catalogue and stock as they are now
+ */
+async function findConflicts(supabase: any, sale: OfflineSalePayload): Promise<{ conflicts: OfflineSaleConflict[]; products: Map<string, any> }> {
+  const conflicts: OfflineSaleConflict[] = [];
+  const productIds = Array.from(new Set(sale.items.map(item => item.product_id)));
+  const variantIds = Array.from(new Set(sale.items.map(item => item.variant_id).filter(Boolean)));
+
+  const [productsResult, variantsResult, shiftResult] = await Promise.all([
+    supabase.from('products').select('id, name, price, status, stock_quantity, tax_rate, is_taxable').in('id', productIds),
+    variantIds.length > 0
+      ? supabase.from('product_variants').select('id, product_id, name, price, is_active, stock_quantity').in('id', variantIds)
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from('cash_shifts').select('id, status').eq('id', sale.shift_id).maybeSingle(),
+  ]);
+
+  for (const result of [productsResult, variantsResult, shiftResult]) {
+    if (result.error) {
+      throw new OfflineSaleError(`Failed to check offline sale: ${result.error.message}`, 500);
+    }
+  }
+
+  const products = new Map<string, any>((productsResult.data || []).map((product: any) => [product.id, product]));
+  const variants = new Map<string, any>((variantsResult.data || []).map((variant: any) => [variant.id, variant]));
+
+  if (!shiftResult.data) {
+    throw new OfflineSaleError('The shift this sale was taken on does not exist');
+  }
+  if (shiftResult.data.status !== 'open') {
+    conflicts.push({ type: 'shift_closed', message: 'The shift was cashed up before this sale reached the server' });
+  }
+
+  const quantities = new Map<string, number>();
+  for (const item of sale.items) {
+    quantities.set(itemKey(item), (quantities.get(itemKey(item)) || 0) + Number(item.quantity));
+  }
+
+  const checked = new Set<string>();
+  for (const item of sale.items) {
+    const product = products.get(item.product_id);
+    const variant = item.variant_id ? variants.get(item.variant_id) : null;
+    const ref = { product_id: item.product_id, variant_id: item.variant_id || null };
+
+    if (!product || ['inactive', 'discontinued'].includes(product.status) || (item.variant_id && (!variant || variant.product_id !== product.id || variant.is_active === false))) {
+      conflicts.push({ ...ref, type: 'product_unavailable', message: `${item.name} is no longer on sale` });
+      continue;
+    }
+
+    const currentPrice = Number(variant?.price != null ? variant.price : product.price);
+    if (Math.abs(currentPrice - Number(item.unit_price)) > MONEY_TOLERANCE) {
+      conflicts.push({
+        ...ref,
+        type: 'price_changed',
+        message: `${item.name} was sold at R${Number(item.unit_price).toFixed(2)} but is now R${currentPrice.toFixed(2)}`,
+        charged: Number(item.unit_price),
+        current: currentPrice,
+      });
+    }
+
+    if (checked.has(itemKey(item))) continue;
+    checked.add(itemKey(item));
+    const available = Number((variant || product).stock_quantity || 0);
+    const sold = quantities.get(itemKey(item)) || 0;
+    if (available < sold) {
+      conflicts.push({
+        ...ref,
+        type: 'insufficient_stock',
+        message: `${sold} of ${item.name} sold but only ${available} in stock`,
+        charged: sold,
+        current: available,
+      });
+    }
+  }
+
+  const subtotal = roundCurrency(sale.items.reduce((sum, item) => sum + Number(item.unit_price) * Number(item.quantity), 0));
+  const total = roundCurrency(subtotal - roundCurrency(subtotal * Number(sale.discount_percent || 0) / 100));
+  const paid = roundCurrency(sale.tenders.reduce((sum, tender) => sum + Number(tender.amount || 0), 0));
+  if (Math.abs(total - Number(sale.total)) > MONEY_TOLERANCE || Math.abs(paid - Number(sale.total)) > MONEY_TOLERANCE) {
+    conflicts.push({
+      type: 'total_mismatch',
+      message: `The till charged R${Number(sale.total).toFixed(2)} (R${paid.toFixed(2)} tendered) but the lines add up to R${total.toFixed(2)}`,
+      charged: Number(sale.total),
+      current: total,
+    });
+  }
+
+  return { conflicts, products };
+}
+
+/**
+ * Record the sale as the paid POS order the till would have created, at the
+ * prices the customer was charged, and take its stock. Stock may go below
+ * zero: the goods have already left the shelf.
+ */
+async function recordOfflineSale(supabase: any, row: any, products?: Map<string, any>) {
+  const sale: OfflineSalePayload = row.payload;
+
+  const { data: existing } = await supabase.from('orders').select('id').eq('id', sale.id).maybeSingle();
+  if (existing) return existing.id;
+
+  if (!products) {
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, tax_rate, is_taxable')
+      .in('id', Array.from(new Set(sale.items.map(item => item.product_id))));
+    if (error) {
+      throw new OfflineSaleError(`Failed to load products: ${error.message}`, 500);
+    }
+    products = new Map((data || []).map((product: any) => [product.id, product]));
+  }
+
+  const cashTenders = sale.tenders.filter(tender => tender.method === 'cash');
+  const { error: orderError } = await supabase
+    .from('orders')
+    .insert({
+      id: sale.id,
+      order_number: sale.id,
+      tracking_number: sale.id,
+      customer_id: row.sold_by,
+      customer_email: 'pos@bestbrightness.com',
+      customer_info: { name: sale.cashier_name || 'POS Customer', email: 'pos@bestbrightness.com', phone: null },
+      channel: 'pos',
+      payment_method: sale.payment_method,
+      payment_details: {
+        amount_tendered: roundCurrency(cashTenders.reduce((sum, tender) => sum + Number(tender.tendered ?? tender.amount), 0)),
+        change_given: roundCurrency(cashTenders.reduce((sum, tender) => sum + Number(tender.change || 0), 0)),
+        tenders: sale.tenders,
+        transaction_id: sale.id,
+        cashier_id: row.sold_by,
+        cashier_name: sale.cashier_name,
+        pos_location: sale.store_location,
+        till_id: sale.till_id || null,
+        offline: true,
+      },
+      shift_id: sale.shift_id,
+      subtotal: sale.subtotal,
+      tax_amount: 0,
+      shipping_amount: 0,
+      discount_amount: sale.discount_amount,
+      total: sale.total,
+      currency: 'ZAR',
+      notes: `POS Sale (offline) - ${String(sale.payment_method).toUpperCase()} Payment`,
+      status: 'confirmed',
+      payment_status: 'paid',
+      processed_at: sale.sold_at,
+      created_at: sale.sold_at,
+      stock_decremented_at: new Date().toISOString(),
+    });
+
+  if (orderError) {
+    if (orderError.code === '23505') return sale.id;
+    throw new OfflineSaleError(`Failed to record offline sale: ${orderError.message}`, 500);
+  }
+
+  const { error: itemsError } = await supabase
+    .from('order_items')
+    .insert(sale.items.map(item => {
+      const product = products!.get(item.product_id);
+      const rate = product?.is_taxable === false ? 0 : Number(product?.tax_rate ?? STANDARD_VAT_RATE);
+      const total = roundCurrency(Number(item.unit_price) * Number(item.quantity));
+      return {
+        order_id: sale.id,
+        product_id: item.product_id,
+        variant_id: item.variant_id || null,
+        product_snapshot: {
+          name: item.name,
+          price: Number(item.unit_price),
+          image_url: null,
+          description: `${item.category || 'General'} - SKU: ${item.sku || 'N/A'}`,
+          category: item.category,
+          barcode: item.barcode,
+        },
+        quantity: Number(item.quantity),
+        unit_price: Number(item.unit_price),
+        total_price: total,
+        tax_rate: rate,
+        tax_amount: roundCurrency(total - total / (1 + rate)),
+      };
+    }));
+
+  if (itemsError) {
+    // Without its lines the order would count as a sale with nothing sold
+    await supabase.from('orders').delete().eq('id', sale.id);
+    throw new OfflineSaleError(`Failed to record offline sale lines: ${itemsError.message}`, 500);
+  }
+
+  for (const item of sale.items) {
+    try {
+      await recordStockMovement(supabase, {
+        productId: item.product_id,
+        variantId: item.variant_id || null,
+        quantityChange: -Number(item.quantity),
+        movementType: 'pos_sale',
+        referenceType: 'order',
+        referenceId: sale.id,
+        createdBy: row.sold_by,
+        allowNegative: true,
+      });
+    } catch (error) {
+      console.error(`❌ Failed to take stock for ${item.name} on offline sale ${sale.id}:`, error);
+    }
+  }
+
+  return sale.id;
+}
+
+/**
+ * Take one queued sale from a till. Safe to repeat: a sale already received
+ * returns how it was handled the first time.
+ */
+export async function syncOfflineSale(supabase: any, userId: string, sale: OfflineSalePayload, role: string) {
+  validatePayload(sale);
+  await checkSaleShift(supabase, userId, role, sale);
+
+  const { data: existing, error: existingError } = await supabase
+    .from('offline_sales')
+    .select('id, status, order_id, conflicts')
+    .eq('id', sale.id)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new OfflineSaleError(`Failed to check offline sale: ${existingError.message}`, 500);
+  }
+  if (existing) return existing;
+
+  const { conflicts, products } = await findConflicts(supabase, sale);
+
+  // No manager can approve over a dead connection, so the till only allows
+  // the seller's own limit; anything above it was not authorised
+  const maxDiscountPercent = getPosPermissions(role).maxDiscountPercent;
+  if (Number(sale.discount_percent || 0) > maxDiscountPercent) {
+    conflicts.push({
+      type: 'discount_not_authorised',
+      message: `A ${sale.discount_percent}% discount was given but the seller may only give ${maxDiscountPercent}%`,
+      charged: Number(sale.discount_percent),
+      current: maxDiscountPercent,
+    });
+  }
+
+  const { data: row, error: insertError } = await supabase
+    .from('offline_sales')
+    .insert({
+      id: sale.id,
+      payload: sale,
+      till_id: sale.till_id || null,
+      store_location: sale.store_location,
+      shift_id: sale.shift_id,
+      total: sale.total,
+      status: conflicts.length > 0 ? 'conflict' : 'synced',
+      conflicts,
+      sold_at: sale.sold_at,
+      sold_by: userId,
+    })
+    .select()
+    .single();
+
+  if (insertError) {
+    if (insertError.code === '23505') {
+      // Sent twice at once; the other request is handling it
+      return { id: sale.id, status: 'synced', order_id: null, conflicts: [] };
+    }
+    throw new OfflineSaleError(`Failed to save offline sale: ${insertError.message}`, 500);
+  }
+
+  if (conflicts.length > 0) {
+    console.warn(`⚠️ Offline sale ${sale.id} held for review: ${conflicts.map(conflict => conflict.type).join(', ')}`);
+    return { id: row.id, status: row.status, order_id: null, conflicts };
+  }
+
+  try {
+    const orderId = await recordOfflineSale(supabase, row, products);
+    await supabase.from('offline_sales').update({ order_id: orderId }).eq('id', row.id);
+    return { id: row.id, status: 'synced', order_id: orderId, conflicts: [] };
+  } catch (error) {
+    // Hold the sale for a manager, who can accept it again once the cause is fixed
+    console.error(`❌ Failed to record offline sale ${sale.id}:`, error);
+    const held: OfflineSaleConflict[] = [{
+      type: 'record_failed',
+      message: error instanceof Error ? error.message : 'Failed to record sale',
+    }];
+    await supabase.from('offline_sales').update({ status: 'conflict', conflicts: held }).eq('id', row.id);
+    return { id: row.id, status: 'conflict', order_id: null, conflicts: held };
+  }
+}
+
+const OFFLINE_SALE_STATUSES: OfflineSaleStatus[] = ['conflict', 'synced', 'accepted', 'voided'];
+
+/**
+ * An offline sale status from a query string; undefined lists every status
+ */
+export function parseOfflineSaleStatus(value: string | undefined): OfflineSaleStatus | undefined {
+  if (!value) return undefined;
+  const status = OFFLINE_SALE_STATUSES.find(candidate => candidate === value);
+  if (!status) {
+    throw new OfflineSaleError('Unknown offline sale status');
+  }
+  return status;
+}
+
+export async function listOfflineSales(supabase: any, status?: OfflineSaleStatus) {
+  let query = supabase
+    .from('offline_sales')
+    .select('*, sold_by_profile:user_profiles!offline_sales_sold_by_fkey(first_name, last_name, email), resolved_by_profile:user_profiles!offline_sales_resolved_by_fkey(first_name, last_name, email)')
+    .order('sold_at', { ascending: status === 'conflict' })
+    .limit(200);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new OfflineSaleError(`Failed to load offline sales: ${error.message}`, 500);
+  }
+
+  return (data || []).map(({ sold_by_profile, resolved_by_profile, ...row }: any) => ({
+    ...row,
+    sold_by_name: displayName(sold_by_profile),
+    resolved_by_name: displayName(resolved_by_profile),
+  }));
+}
+
+async function getConflict(supabase: any, offlineSaleId: string) {
+  const { data: row, error } = await supabase
+    .from('offline_sales')
+    .select('*')
+    .eq('id', offlineSaleId)
+    .maybeSingle();
+
+  if (error) {
+    throw new OfflineSaleError(`Failed to load offline sale: ${error.message}`, 500);
+  }
+  if (!row) {
+    throw new OfflineSaleError('Offline sale not found', 404);
+  }
+  if (row.status !== 'conflict') {
+    throw new OfflineSaleError(`This sale has already been ${row.status}`, 409);
+  }
+  return row;
+}
+
+async function resolve(supabase: any, row: any, userId: string, status: OfflineSaleStatus, note: string, orderId: string | null) {
+  const { data, error } = await supabase
+    .from('offline_sales')
+    .update({
+      status,
+      order_id: orderId,
+      resolved_by: userId,
+      resolved_at: new Date().toISOString(),
+      resolution_note: note || null,
+    })
+    .eq('id', row.id)
+    .eq('status', 'conflict')
+    .select();
+
+  if (error) {
+    throw new OfflineSaleError(`Failed to update offline sale: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new OfflineSaleError('This sale has already been resolved', 409);
+  }
+  return data[0];
+}
+
+/**
+ * Record a held sale as it was rung up, at the prices charged
+ */
+export async function acceptOfflineSale(supabase: any, offlineSaleId: string, userId: string, note?: string) {
+  const row = await getConflict(supabase, offlineSaleId);
+  const orderId = await recordOfflineSale(supabase, row);
+  return resolve(supabase, row, userId, 'accepted', String(note || '').trim(), orderId);
+}
+
+/**
+ * Leave a held sale out of the books, e.g. a test sale or one rung up twice
+ */
+export async function voidOfflineSale(supabase: any, offlineSaleId: string, userId: string, note?: string) {
+  const reason = String(note || '').trim();
+  if (!reason) {
+    throw new OfflineSaleError('Say why the sale is being voided');
+  }
+  const row = await getConflict(supabase, offlineSaleId);
+  return resolve(supabase, row, userId, 'voided', reason, null);
+}
@@ -0,0 +1,437 @@
+import type Stripe from 'stripe';
+import { notifySharedCartPaid, sendOrderEmail } from './emails.tsx';
+import { LoyaltyError } from './loyalty.tsx';
+import { settleOrderDiscounts } from './pricing.tsx';
+
+// Order payment transitions driven by Stripe webhooks for Best Brightness.
+//
+// Stripe delivers events at least once and may retry or reorder them, so every
+// transition here is written as a conditional update: only the request that
+// actually moves the row gets it back, and side effects (stock, email) are
+// claimed through their own timestamp columns so a retry can finish work that
+// a crashed attempt left behind without repeating work that already happened.
+
+// 'review': money arrived but the order could not be settled as priced; staff settle it by hand
+export type PaymentStatus = 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'review';
+
+export interface PaymentTransitionResult {
+  handled: boolean;
+  orderId?: string;
+  paymentStatus?: PaymentStatus;
+  message: string;
+}
+
+// Find the order a PaymentIntent belongs to. Checkout writes order_id and
+// order_number into the intent metadata; the stored payment_intent_id is the
+// fallback for intents created before that was in place.
+export async function findOrderForPaymentIntent(
+  supabase: any,
+  paymentIntent: Pick<Stripe.PaymentIntent, 'id' | 'metadata'>
+) {
+  const metadata = paymentIntent.metadata || {};
+
+  const lookups: Array<[string, string | undefined]> = [
+    ['id', metadata.order_id],
+    ['order_number', metadata.order_number],
+    ['payment_intent_id', paymentIntent.id],
+  ];
+
+  for (const [column, value] of lookups) {
+    if (!value) continue;
+
+    const { data, error } = await supabase
+      .from('orders')
+      .select('*')
+      .eq(column, value)
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to look up order by ${column}: ${error.message}`);
+    }
+    if (data) return data;
+  }
+
+  return null;
+}
+
+// Record a processed event. Returns false when the event id was already
+// stored, which lets the webhook acknowledge Stripe retries immediately.
+export async function recordWebhookEvent(supabase: any, event: Stripe.Event, orderId?: string): Promise<boolean> {
+  const { error } = await supabase
+    .from('stripe_webhook_events')
+    .insert({
+      id: event.id,
+      type: event.type,
+      order_id: orderId || null,
+      processed_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    if (error.code === '23505') return false;
+    throw new Error(`Failed to record webhook event: ${error.message}`);
+  }
+  return true;
+}
+
+export async function hasProcessedWebhookEvent(supabase: any, eventId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('stripe_webhook_events')
+    .select('id')
+    .eq('id', eventId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check webhook event: ${error.message}`);
+  }
+  return !!data;
+}
+
+// payment_intent.succeeded: pending/failed -> paid, status -> confirmed,
+// then decrement stock and send the confirmation email exactly once.
+export async function markOrderPaid(
+  supabase: any,
+  paymentIntent: Stripe.PaymentIntent,
+  options: { sendConfirmation?: (order: any) => Promise<boolean> } = {}
+): Promise<PaymentTransitionResult> {
+  const order = await findOrderForPaymentIntent(supabase, paymentIntent);
+  if (!order) {
+    return { handled: false, message: `No order found for payment intent ${paymentIntent.id}` };
+  }
+
+  // Only orders checked against a server price quote can be settled by a card
+  // payment; money for anything else is parked for staff rather than left pending
+  if (!order.pricing_verified_at) {
+    console.warn(`⚠️ Payment ${paymentIntent.id} is for order ${order.order_number}, whose pricing was never confirmed`);
+    return holdPaymentForReview(supabase, order, paymentIntent, 'order pricing was never confirmed');
+  }
+
+  const orderTotal = Number(order.total ?? order.total_amount ?? 0);
+  const expectedCents = Math.round(orderTotal * 100);
+  if (expectedCents && paymentIntent.amount_received !== expectedCents) {
+    console.warn(
+      `⚠️ Payment amount mismatch for order ${order.order_number}: expected ${expectedCents}, received ${paymentIntent.amount_received}`
+    );
+  }
+
+  const now = new Date().toISOString();
+
+  // A short payment is held for review: no stock, confirmation or points
+  if (paymentIntent.amount_received < expectedCents) {
+    return holdPaymentForReview(
+      supabase,
+      order,
+      paymentIntent,
+      `received R${(paymentIntent.amount_received / 100).toFixed(2)} of R${orderTotal.toFixed(2)}`
+    );
+  }
+
+  // Loyalty points are spent and promotions counted only once the money is in
+  if (['pending', 'failed'].includes(order.payment_status)) {
+    try {
+      await settleOrderDiscounts(supabase, order);
+    } catch (error) {
+      if (!(error instanceof LoyaltyError)) throw error;
+      return holdPaymentForReview(supabase, order, paymentIntent, error.message);
+    }
+  }
+
+  // Refunds can arrive before a delayed succeeded event; never move those back to paid.
+  const { data: transitioned, error: updateError } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'paid',
+      status: 'confirmed',
+      payment_intent_id: paymentIntent.id,
+      paid_at: now,
+      processed_at: now,
+      payment_details: {
+        ...(order.payment_details || {}),
+        stripe_payment_intent_id: paymentIntent.id,
+        stripe_payment_method_id: paymentIntent.payment_method || order.payment_details?.stripe_payment_method_id,
+        amount_received: paymentIntent.amount_received / 100,
+      },
+      updated_at: now,
+    })
+    .eq('id', order.id)
+    .in('payment_status', ['pending', 'failed'])
+    .select()
+    .maybeSingle();
+
+  if (updateError) {
+    throw new Error(`Failed to mark order paid: ${updateError.message}`);
+  }
+
+  if (!transitioned && order.payment_status !== 'paid') {
+    return {
+      handled: true,
+      orderId: order.id,
+      paymentStatus: order.payment_status,
+      message: `Order ${order.order_number} is ${order.payment_status}; ignoring late success event`,
+    };
+  }
+
+  // Orders paid some other way (POS, or before webhooks were wired up) are
+  // left alone; a retry of our own transition finishes any pending side effects.
+  if (!transitioned && order.payment_intent_id !== paymentIntent.id) {
+    return {
+      handled: true,
+      orderId: order.id,
+      paymentStatus: 'paid',
+      message: `Order ${order.order_number} was already paid outside this payment intent`,
+    };
+  }
+
+  await decrementStockOnce(supabase, order.id);
+
+  if (options.sendConfirmation) {
+    await sendConfirmationOnce(supabase, transitioned || order, options.sendConfirmation);
+  }
+
+  await notifySharedCartPaid(supabase, order.id).catch((error) => {
+    console.error(`❌ Error emailing shared cart owner for ${order.order_number}:`, error);
+  });
+
+  return {
+    handled: true,
+    orderId: order.id,
+    paymentStatus: 'paid',
+    message: transitioned
+      ? `Order ${order.order_number} marked as paid`
+      : `Order ${order.order_number} was already paid`,
+  };
+}
+
+// Money arrived but the order cannot be settled as it stands: the payment is
+// recorded and the order parked as 'review' for staff to settle by hand.
+async function holdPaymentForReview(
+  supabase: any,
+  order: any,
+  paymentIntent: Stripe.PaymentIntent,
+  reason: string
+): Promise<PaymentTransitionResult> {
+  const { data: flagged, error } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'review',
+      payment_intent_id: paymentIntent.id,
+      payment_details: {
+        ...(order.payment_details || {}),
+        stripe_payment_intent_id: paymentIntent.id,
+        amount_received: paymentIntent.amount_received / 100,
+        review_reason: reason,
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .in('payment_status', ['pending', 'failed'])
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to flag order payment for review: ${error.message}`);
+  }
+
+  return {
+    handled: true,
+    orderId: order.id,
+    paymentStatus: flagged ? 'review' : order.payment_status,
+    message: flagged
+      ? `Order ${order.order_number} held for review: ${reason}`
+      : `Order ${order.order_number} is ${order.payment_status}; not holding it for review`,
+  };
+}
+
+// payment_intent.payment_failed: only a pending order can fail. A later
+// successful attempt on the same intent moves it on to paid.
+export async function markOrderPaymentFailed(
+  supabase: any,
+  paymentIntent: Stripe.PaymentIntent
+): Promise<PaymentTransitionResult> {
+  const order = await findOrderForPaymentIntent(supabase, paymentIntent);
+  if (!order) {
+    return { handled: false, message: `No order found for payment intent ${paymentIntent.id}` };
+  }
+
+  const { data: transitioned, error } = await supabase
+    .from('orders')
+    .update({
+      payment_status: 'failed',
+      payment_intent_id: paymentIntent.id,
+      payment_details: {
+        ...(order.payment_details || {}),
+        stripe_payment_intent_id: paymentIntent.id,
+        failure_code: paymentIntent.last_payment_error?.code || null,
+        failure_message: paymentIntent.last_payment_error?.message || null,
+      },
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', order.id)
+    .eq('payment_status', 'pending')
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to mark order payment failed: ${error.message}`);
+  }
+
+  return {
+    handled: true,
+    orderId: order.id,
+    paymentStatus: transitioned ? 'failed' : order.payment_status,
+    message: transitioned
+      ? `Order ${order.order_number} payment failed`
+      : `Order ${order.order_number} is ${order.payment_status}; ignoring failure event`,
+  };
+}
+
+// charge.refunded: the charge carries the cumulative refunded amount, so the
+// resulting status is derived from it rather than incremented.
+export async function markOrderRefunded(
+  supabase: any,
+  charge: Stripe.Charge
+): Promise<PaymentTransitionResult> {
+  const paymentIntentId = typeof charge.payment_intent === 'string'
+    ? charge.payment_intent
+    : charge.payment_intent?.id;
+
+  if (!paymentIntentId) {
+    return { handled: false, message: `Charge ${charge.id} has no payment intent` };
+  }
+
+  const order = await findOrderForPaymentIntent(supabase, {
+    id: paymentIntentId,
+    metadata: charge.metadata || {},
+  });
+  if (!order) {
+    return { handled: false, message: `No order found for payment intent ${paymentIntentId}` };
+  }
+
+  const paymentStatus: PaymentStatus = charge.amount_refunded >= charge.amount ? 'refunded' : 'partially_refunded';
+  const amountRefunded = charge.amount_refunded / 100;
+
+  const updateData: any = {
+    payment_status: paymentStatus,
+    amount_refunded: amountRefunded,
+    updated_at: new Date().toISOString(),
+  };
+  if (paymentStatus === 'refunded') {
+    updateData.status = 'refunded';
+  }
+
+  // Out-of-order deliveries must not shrink the refunded amount.
+  const { data: transitioned, error } = await supabase
+    .from('orders')
+    .update(updateData)
+    .eq('id', order.id)
+    .or(`amount_refunded.is.null,amount_refunded.lt.${amountRefunded}`)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to mark order refunded: ${error.message}`);
+  }
+
+  // Refunds made in admin email from createRefund with the same key
+  if (transitioned) {
+    const totalRefunded = Math.round(amountRefunded * 100) / 100;
+    await sendOrderEmail(supabase, order.id, 'order_refunded', {
+      amount: Math.round((amountRefunded - Number(order.amount_refunded || 0)) * 100) / 100,
+      total_refunded: totalRefunded,
+      method: 'card',
+      fully_refunded: paymentStatus === 'refunded',
+    }, `order_refunded:${order.id}:${totalRefunded.toFixed(2)}`).catch((emailError) => {
+      console.error(`❌ Error emailing refund for ${order.order_number}:`, emailError);
+    });
+  }
+
+  return {
+    handled: true,
+    orderId: order.id,
+    paymentStatus: transitioned ? paymentStatus : order.payment_status,
+    message: transitioned
+      ? `Order ${order.order_number} ${paymentStatus.replace('_', ' ')} (R${amountRefunded.toFixed(2)})`
+      : `Order ${order.order_number} refund already recorded`,
+  };
+}
+
+// Claim the stock decrement for an order, then apply it. The claim is taken
+// before the decrement so concurrent deliveries cannot both run it; if the
+// decrement itself fails the claim is released so the next retry can try again.
+export async function decrementStockOnce(supabase: any, orderId: string): Promise<boolean> {
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({ stock_decremented_at: new Date().toISOString() })
+    .eq('id', orderId)
+    .is('stock_decremented_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim stock decrement: ${claimError.message}`);
+  }
+  if (!claimed) return false;
+
+  const { data: complete, error } = await supabase.rpc('update_stock_levels', { order_id: orderId });
+  if (error) {
+    await supabase
+      .from('orders')
+      .update({ stock_decremented_at: null })
+      .eq('id', orderId);
+    throw new Error(`Failed to update stock levels: ${error.message}`);
+  }
+  if (complete === false) {
+    console.warn(`⚠️ Order ${orderId} has lines whose product no longer exists; their stock was not taken`);
+  }
+
+  return true;
+}
+
+async function sendConfirmationOnce(
+  supabase: any,
+  order: any,
+  send: (order: any) => Promise<boolean>
+): Promise<boolean> {
+  const { data: claimed, error } = await supabase
+    .from('orders')
+    .update({ confirmation_email_sent_at: new Date().toISOString() })
+    .eq('id', order.id)
+    .is('confirmation_email_sent_at', null)
+    .select('id')
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to claim confirmation email: ${error.message}`);
+  }
+  if (!claimed) return false;
+
+  // Email failures should not make Stripe retry the whole event, so the claim
+  // is released and the failure logged instead of thrown.
+  const sent = await send(order).catch((sendError) => {
+    console.error('❌ Order confirmation email error:', sendError);
+    return false;
+  });
+
+  if (!sent) {
+    await supabase
+      .from('orders')
+      .update({ confirmation_email_sent_at: null })
+      .eq('id', order.id);
+  }
+  return sent;
+}
+
+// The order confirmation email. With an invoice number, the tax invoice is
+// attached as a PDF.
+export async function sendOrderConfirmationEmail(
+  supabase: any,
+  order: any,
+  invoiceNumber: string | null = null
+): Promise<boolean> {
+  return sendOrderEmail(supabase, order.id, 'order_confirmation', {
+    subtotal: Number(order.subtotal || 0),
+    shipping: Number(order.shipping_amount || 0),
+    tax: Number(order.tax_amount || 0),
+    total: Number(order.total ?? order.total_amount ?? 0),
+    invoice_number: invoiceNumber,
+  });
+}
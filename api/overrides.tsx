@@ -0,0 +1,314 @@
+import { randomBytes, scryptSync, timingSafeEqual } from 'crypto';
+import { getPosPermissions } from '../src/utils/roleRouting.tsx';
+
+// Manager overrides at the till.
+//
+// Discounts above the cashier's limit, price overrides, voids and no-sale
+// drawer opens need someone whose role allows them; the limits per role are
+// the `pos` permissions in roleConfigs. A cashier without the permission asks
+// a manager, who picks their name on the till and types their override PIN.
+// Every override is written to `pos_overrides` with who asked and who
+// authorised it, including the ones a manager does on their own till.
+
+export type OverrideAction = 'discount' | 'price_override' | 'void' | 'no_sale';
+
+export const OVERRIDE_ACTIONS: OverrideAction[] = ['discount', 'price_override', 'void', 'no_sale'];
+
+export interface OverrideRequest {
+  action: OverrideAction;
+  approver_id?: string | null;
+  pin?: string;
+  reason?: string;
+  details?: Record<string, any>;
+  shift_id?: string | null;
+  store_location?: string | null;
+}
+
+export interface OverrideFilters {
+  action?: string;
+  requested_by?: string;
+  approved_by?: string;
+  from?: string;
+  to?: string;
+}
+
+export class OverrideError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'OverrideError';
+  }
+}
+
+const PIN_PATTERN = /^\d{4,8}$/;
+const MAX_PIN_ATTEMPTS = 5;
+const PIN_LOCK_MS = 15 * 60 * 1000;
+// An approved discount or price is honoured for the rest of the sale
+const OVERRIDE_TTL_MS = 2 * 60 * 60 * 1000;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const displayName = (profile: any) =>
+  profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email : null;
+
+const priceKey = (productId: string, variantId?: string | null) => `${productId}|${variantId || ''}`;
+
+function hashPin(pin: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString('hex')}:${scryptSync(pin, salt, 32).toString('hex')}`;
+}
+
+function pinMatches(stored: string, pin: string): boolean {
+  const [salt, hash] = String(stored || '').split(':');
+  if (!salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = scryptSync(pin, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a role may do this on its own authority
+ */
+function permits(role: string, action: OverrideAction, details: Record<string, any>): boolean {
+  const permissions = getPosPermissions(role);
+  switch (action) {
+    case 'discount':
+      return Number(details.percent) <= permissions.maxDiscountPercent;
+    case 'price_override':
+      return permissions.canOverridePrice;
+    case 'void':
+      return permissions.canVoid;
+    case 'no_sale':
+      return permissions.canOpenDrawer;
+  }
+}
+
+function normaliseDetails(action: OverrideAction, details: Record<string, any> = {}): Record<string, any> {
+  switch (action) {
+    case 'discount': {
+      const percent = Number(details.percent);
+      if (!(percent > 0 && percent <= 100)) {
+        throw new OverrideError('Discount must be between 0 and 100%');
+      }
+      return { percent: roundCurrency(percent), subtotal: roundCurrency(Number(details.subtotal || 0)) };
+    }
+    case 'price_override': {
+      const newPrice = Number(details.new_price);
+      if (!details.product_id || !(newPrice >= 0)) {
+        throw new OverrideError('A price override needs the product and a new price');
+      }
+      return {
+        product_id: details.product_id,
+        variant_id: details.variant_id || null,
+        name: String(details.name || ''),
+        original_price: roundCurrency(Number(details.original_price || 0)),
+        new_price: roundCurrency(newPrice),
+      };
+    }
+    case 'void': {
+      const quantity = Math.floor(Number(details.quantity));
+      if (!details.name || !(quantity > 0)) {
+        throw new OverrideError('A void needs the item and the quantity taken off');
+      }
+      return {
+        product_id: details.product_id || null,
+        variant_id: details.variant_id || null,
+        name: String(details.name),
+        quantity,
+        amount: roundCurrency(Number(details.amount || 0)),
+      };
+    }
+    case 'no_sale':
+      return {};
+  }
+}
+
+export async function setOverridePin(supabase: any, userId: string, pin: string) {
+  if (!PIN_PATTERN.test(String(pin || ''))) {
+    throw new OverrideError('The PIN must be 4 to 8 digits');
+  }
+
+  const { error } = await supabase
+    .from('staff_override_pins')
+    .upsert({
+      user_id: userId,
+      pin_hash: hashPin(pin),
+      failed_attempts: 0,
+      locked_until: null,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    throw new OverrideError(`Failed to save PIN: ${error.message}`, 500);
+  }
+  return { has_pin: true };
+}
+
+/**
+ * Managers and admins who have set an override PIN, for the till to list
+ */
+export async function listApprovers(supabase: any) {
+  const { data, error } = await supabase
+    .from('staff_override_pins')
+    .select('user_id, user:user_profiles!staff_override_pins_user_id_fkey(id, first_name, last_name, email, role, is_active)');
+
+  if (error) {
+    throw new OverrideError(`Failed to load approvers: ${error.message}`, 500);
+  }
+
+  return (data || [])
+    .map((row: any) => row.user)
+    .filter((user: any) => user && user.is_active !== false && ['manager', 'admin'].includes(user.role))
+    .map((user: any) => ({ id: user.id, name: displayName(user), role: user.role, pos: getPosPermissions(user.role) }))
+    .sort((a: any, b: any) => String(a.name).localeCompare(String(b.name)));
+}
+
+/**
+ * Check the approver's PIN, counting failures and locking the PIN after too many
+ */
+async function verifyApprover(supabase: any, approverId: string, pin: string) {
+  const [{ data: profile, error: profileError }, { data: stored, error: pinError }] = await Promise.all([
+    supabase.from('user_profiles').select('id, first_name, last_name, email, role, is_active').eq('id', approverId).maybeSingle(),
+    supabase.from('staff_override_pins').select('*').eq('user_id', approverId).maybeSingle(),
+  ]);
+
+  if (profileError || pinError) {
+    throw new OverrideError(`Failed to check approver: ${(profileError || pinError).message}`, 500);
+  }
+  if (!profile || profile.is_active === false || !stored) {
+    throw new OverrideError('That approver cannot authorise overrides', 403);
+  }
+  if (stored.locked_until && new Date(stored.locked_until) > new Date()) {
+    throw new OverrideError(`${displayName(profile)}'s PIN is locked after too many wrong attempts; try again later`, 423);
+  }
+
+  if (!PIN_PATTERN.test(String(pin || '')) || !pinMatches(stored.pin_hash, String(pin))) {
+    const attempts = Number(stored.failed_attempts || 0) + 1;
+    await supabase
+      .from('staff_override_pins')
+      .update({
+        failed_attempts: attempts >= MAX_PIN_ATTEMPTS ? 0 : attempts,
+        locked_until: attempts >= MAX_PIN_ATTEMPTS ? new Date(Date.now() + PIN_LOCK_MS).toISOString() : null,
+      })
+      .eq('user_id', approverId);
+    throw new OverrideError('Incorrect PIN', 403);
+  }
+
+  if (stored.failed_attempts) {
+    await supabase.from('staff_override_pins').update({ failed_attempts: 0 }).eq('user_id', approverId);
+  }
+  return profile;
+}
+
+/**
+ * Record an override, authorised by the requester's own role or by an
+ * approver's PIN
+ */
+export async function authoriseOverride(supabase: any, requester: { id: string; role: string }, request: OverrideRequest) {
+  if (!OVERRIDE_ACTIONS.includes(request.action)) {
+    throw new OverrideError('Unknown override');
+  }
+  const details = normaliseDetails(request.action, request.details);
+
+  let approvedBy = requester.id;
+  if (!permits(requester.role, request.action, details)) {
+    if (!request.approver_id) {
+      throw new OverrideError('This needs a manager to authorise it', 403);
+    }
+    const approver = await verifyApprover(supabase, request.approver_id, String(request.pin || ''));
+    if (!permits(approver.role, request.action, details)) {
+      throw new OverrideError(`${displayName(approver)} cannot authorise this`, 403);
+    }
+    approvedBy = approver.id;
+  }
+
+  const { data, error } = await supabase
+    .from('pos_overrides')
+    .insert({
+      action: request.action,
+      details,
+      reason: String(request.reason || '').trim() || null,
+      requested_by: requester.id,
+      approved_by: approvedBy,
+      shift_id: request.shift_id || null,
+      store_location: request.store_location || null,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new OverrideError(`Failed to record override: ${error.message}`, 500);
+  }
+
+  console.log(`🔑 ${request.action} override ${data.id} authorised by ${approvedBy === requester.id ? 'the requester' : approvedBy}`);
+  return data;
+}
+
+/**
+ * The manual discount and line prices a POS quote may use. Anything beyond
+ * the caller's own limits must come with an override authorised for them
+ * during this sale.
+ */
+export async function authorisePricing(
+  supabase: any,
+  requester: { id: string; role: string },
+  request: { manualDiscountPercent?: number; overrideIds?: string[] }
+): Promise<{ manualDiscountPercent: number; priceOverrides: Record<string, number> }> {
+  const percent = Math.min(100, Math.max(0, Number(request.manualDiscountPercent || 0)));
+  const ids = Array.from(new Set((request.overrideIds || []).filter(Boolean)));
+
+  let overrides: any[] = [];
+  if (ids.length > 0) {
+    const { data, error } = await supabase
+      .from('pos_overrides')
+      .select('id, action, details, created_at')
+      .in('id', ids)
+      .eq('requested_by', requester.id)
+      .gte('created_at', new Date(Date.now() - OVERRIDE_TTL_MS).toISOString());
+
+    if (error) {
+      throw new OverrideError(`Failed to check overrides: ${error.message}`, 500);
+    }
+    overrides = data || [];
+    if (overrides.length < ids.length) {
+      throw new OverrideError('An approval on this sale has expired; ask a manager again', 403);
+    }
+  }
+
+  if (percent > getPosPermissions(requester.role).maxDiscountPercent &&
+      !overrides.some(override => override.action === 'discount' && Number(override.details?.percent) >= percent)) {
+    throw new OverrideError(`A ${percent}% discount needs a manager's approval`, 403);
+  }
+
+  const priceOverrides: Record<string, number> = {};
+  for (const override of overrides.filter(override => override.action === 'price_override')) {
+    priceOverrides[priceKey(override.details.product_id, override.details.variant_id)] = Number(override.details.new_price);
+  }
+
+  return { manualDiscountPercent: percent, priceOverrides };
+}
+
+export async function listOverrides(supabase: any, filters: OverrideFilters = {}) {
+  let query = supabase
+    .from('pos_overrides')
+    .select('*, requested_by_profile:user_profiles!pos_overrides_requested_by_fkey(first_name, last_name, email), approved_by_profile:user_profiles!pos_overrides_approved_by_fkey(first_name, last_name, email)')
+    .order('created_at', { ascending: false })
+    .limit(500);
+
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.requested_by) query = query.eq('requested_by', filters.requested_by);
+  if (filters.approved_by) query = query.eq('approved_by', filters.approved_by);
+  if (filters.from) query = query.gte('created_at', filters.from);
+  if (filters.to) query = query.lte('created_at', filters.to);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new OverrideError(`Failed to load overrides: ${error.message}`, 500);
+  }
+
+  return (data || []).map(({ requested_by_profile, approved_by_profile, ...row }: any) => ({
+    ...row,
+    requested_by_name: displayName(requested_by_profile),
+    approved_by_name: displayName(approved_by_profile),
+    self_authorised: row.requested_by === row.approved_by,
+  }));
+}
@@ -0,0 +1,139 @@
+// Parked POS sales.
+//
+// A cashier can park the basket they are ringing up (items, customer,
+// discount and points to redeem, under a label such as "Blue shirt, back in
+// 5") and serve the next customer. Parked baskets live in `parked_sales` so
+// they survive a refresh and any till at the same store can recall them.
+// Recalling takes the basket off the list in one guarded update, so two tills
+// cannot recall the same sale. Baskets not recalled by the end of the store's
+// trading day expire.
+
+export type ParkedSaleStatus = 'parked' | 'recalled' | 'discarded';
+
+export interface ParkSaleRequest {
+  label: string;
+  store_location: string;
+  items: any[];
+  customer?: any;
+  discount_percent?: number;
+  redeem_points?: number;
+}
+
+export class ParkedSaleError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ParkedSaleError';
+  }
+}
+
+// The store trades on South African time (UTC+2, no daylight saving)
+const STORE_UTC_OFFSET_MINUTES = 120;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const displayName = (profile: any) =>
+  profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email : null;
+
+/**
+ * Midnight at the end of the store's current trading day
+ */
+export function endOfStoreDay(now: Date = new Date()): string {
+  const offset = STORE_UTC_OFFSET_MINUTES * 60 * 1000;
+  const storeTime = new Date(now.getTime() + offset);
+  storeTime.setUTCHours(24, 0, 0, 0);
+  return new Date(storeTime.getTime() - offset).toISOString();
+}
+
+export async function parkSale(supabase: any, userId: string, request: ParkSaleRequest) {
+  const label = String(request.label || '').trim();
+  const storeLocation = String(request.store_location || '').trim();
+  const items = Array.isArray(request.items) ? request.items.filter(item => item && Number(item.quantity) > 0) : [];
+
+  if (!label) {
+    throw new ParkedSaleError('Give the parked sale a label so it can be found again');
+  }
+  if (!storeLocation) {
+    throw new ParkedSaleError('Store location is required');
+  }
+  if (items.length === 0) {
+    throw new ParkedSaleError('There is nothing in the basket to park');
+  }
+
+  const { data, error } = await supabase
+    .from('parked_sales')
+    .insert({
+      label: label.slice(0, 100),
+      store_location: storeLocation,
+      items,
+      customer: request.customer || null,
+      discount_percent: Math.max(0, Number(request.discount_percent) || 0),
+      redeem_points: Math.max(0, Math.floor(Number(request.redeem_points) || 0)),
+      item_count: items.reduce((count, item) => count + Number(item.quantity), 0),
+      subtotal: roundCurrency(items.reduce((sum, item) => sum + Number(item.price) * Number(item.quantity), 0)),
+      status: 'parked',
+      parked_by: userId,
+      expires_at: endOfStoreDay(),
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new ParkedSaleError(`Failed to park sale: ${error.message}`, 500);
+  }
+  return data;
+}
+
+/**
+ * Baskets waiting to be recalled at a store, oldest first
+ */
+export async function listParkedSales(supabase: any, storeLocation: string) {
+  if (!storeLocation) {
+    throw new ParkedSaleError('Store location is required');
+  }
+
+  const { data, error } = await supabase
+    .from('parked_sales')
+    .select('*, parked_by_profile:user_profiles!parked_sales_parked_by_fkey(first_name, last_name, email)')
+    .eq('store_location', storeLocation)
+    .eq('status', 'parked')
+    .gt('expires_at', new Date().toISOString())
+    .order('created_at');
+
+  if (error) {
+    throw new ParkedSaleError(`Failed to load parked sales: ${error.message}`, 500);
+  }
+
+  return (data || []).map(({ parked_by_profile, ...sale }: any) => ({
+    ...sale,
+    parked_by_name: displayName(parked_by_profile),
+  }));
+}
+
+async function closeParkedSale(supabase: any, parkedSaleId: string, userId: string, status: ParkedSaleStatus) {
+  const { data, error } = await supabase
+    .from('parked_sales')
+    .update({ status, closed_by: userId, closed_at: new Date().toISOString() })
+    .eq('id', parkedSaleId)
+    .eq('status', 'parked')
+    .gt('expires_at', new Date().toISOString())
+    .select();
+
+  if (error) {
+    throw new ParkedSaleError(`Failed to update parked sale: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new ParkedSaleError('This sale has already been recalled, discarded or has expired', 409);
+  }
+  return data[0];
+}
+
+/**
+ * Take a parked basket off the list to finish it on this till
+ */
+export async function recallParkedSale(supabase: any, parkedSaleId: string, userId: string) {
+  return closeParkedSale(supabase, parkedSaleId, userId, 'recalled');
+}
+
+export async function discardParkedSale(supabase: any, parkedSaleId: string, userId: string) {
+  return closeParkedSale(supabase, parkedSaleId, userId, 'discarded');
+}
@@ -0,0 +1,173 @@
+// A small PDF writer for generated documents such as tax invoices.
+//
+// Pages are A4 with text in the two standard Helvetica fonts every PDF reader
+// carries, so nothing is embedded. Text is WinAnsi (Latin-1) encoded;
+// characters outside it print as '?'. Coordinates are points from the
+// top-left of the page, which is how documents are laid out here, and are
+// flipped to PDF's bottom-left origin when written.
+
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+
+export type PdfFont = 'regular' | 'bold';
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  align?: 'left' | 'right' | 'center';
+  colour?: [number, number, number];
+}
+
+// Advance widths per 1000 units for characters 32-126, from the Adobe core font metrics
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+const FONT_RESOURCES: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+const toWinAnsi = (value: string) => Array.from(String(value ?? ''))
+  .map(char => (char.charCodeAt(0) < 256 ? char : '?'))
+  .join('');
+
+const number = (value: number) => String(Math.round(value * 100) / 100);
+
+export function textWidth(value: string, size: number, font: PdfFont = 'regular'): number {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const char of toWinAnsi(value)) {
+    const code = char.charCodeAt(0);
+    units += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (units * size) / 1000;
+}
+
+/**
+ * Break text into lines no wider than maxWidth, splitting on spaces and, for
+ * words that are too long on their own, mid-word
+ */
+export function wrapText(value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] {
+  const lines: string[] = [];
+  let current = '';
+
+  for (const word of String(value ?? '').split(/\s+/).filter(Boolean)) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (textWidth(candidate, size, font) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+    if (current) lines.push(current);
+    current = '';
+    let rest = word;
+    while (textWidth(rest, size, font) > maxWidth) {
+      let cut = rest.length - 1;
+      while (cut > 1 && textWidth(rest.slice(0, cut), size, font) > maxWidth) cut--;
+      lines.push(rest.slice(0, cut));
+      rest = rest.slice(cut);
+    }
+    current = rest;
+  }
+  if (current) lines.push(current);
+  return lines.length > 0 ? lines : [''];
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private title: string = '') {
+    this.addPage();
+  }
+
+  addPage() {
+    this.pages.push([]);
+  }
+
+  private get ops(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, value: string, options: PdfTextOptions = {}) {
+    const size = options.size || 10;
+    const font = options.font || 'regular';
+    const encoded = toWinAnsi(value);
+    const width = textWidth(encoded, size, font);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+    const [r, g, b] = options.colour || [0, 0, 0];
+    const escaped = encoded.replace(/([\\()])/g, '\\$1');
+
+    this.ops.push(
+      `${number(r)} ${number(g)} ${number(b)} rg BT /${FONT_RESOURCES[font]} ${number(size)} Tf ` +
+      `${number(left)} ${number(A4_HEIGHT - y)} Td (${escaped}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width: number = 0.5, colour: [number, number, number] = [0.8, 0.8, 0.8]) {
+    this.ops.push(
+      `${number(colour[0])} ${number(colour[1])} ${number(colour[2])} RG ${number(width)} w ` +
+      `${number(x1)} ${number(A4_HEIGHT - y1)} m ${number(x2)} ${number(A4_HEIGHT - y2)} l S`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: [number, number, number]) {
+    this.ops.push(
+      `${number(fill[0])} ${number(fill[1])} ${number(fill[2])} rg ` +
+      `${number(x)} ${number(A4_HEIGHT - y - height)} ${number(width)} ${number(height)} re f`
+    );
+  }
+
+  /**
+   * The finished file. Content streams are left uncompressed; generated
+   * documents are a few kilobytes.
+   */
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const pageIds: number[] = [];
+
+    // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    objects[5] = `<< /Title (${toWinAnsi(this.title).replace(/([\\()])/g, '\\$1')}) /Producer (Best Brightness) >>`;
+
+    this.pages.forEach((ops, index) => {
+      const pageId = 6 + index * 2;
+      const content = ops.join('\n');
+      pageIds.push(pageId);
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = output.length;
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = output.length;
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    // Every character is below 256, so one character is one byte
+    return Uint8Array.from(output, char => char.charCodeAt(0));
+  }
+}
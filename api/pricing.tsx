@@ -0,0 +1,916 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import { CollectionError, checkPickupSlot } from './collection.tsx';
+import { ComboError, ComboSummary, priceComboLines, recordComboPurchases } from './combos.tsx';
+import { LoyaltyError, awardOrderPoints, pointsForAmount, previewRedemption, redeemOrderPoints } from './loyalty.tsx';
+import { ShippingDestination, ShippingError, ShippingOption, quoteShipping } from './shipping.tsx';
+
+// Server-side cart pricing.
+//
+// The browser only says which products and how many; prices come from
+// `products` and every active promotion is evaluated here in priority order.
+// The result is returned as a signed quote, and an order is only accepted
+// once its stored totals and lines match a quote issued by this module.
+
+export type PricingChannel = 'online' | 'pos';
+
+export interface PricingLineRequest {
+  product_id: string;
+  variant_id?: string; // Required for products sold in variants, except inside a combo
+  quantity: number;
+  combo_id?: string;
+  combo_item_id?: string;
+}
+
+export interface PricingRequest {
+  lines: PricingLineRequest[];
+  customerId?: string | null;
+  promoCodes?: string[];
+  channel?: PricingChannel;
+  manualDiscountPercent?: number; // POS only, checked against the caller's role by the route
+  priceOverrides?: Record<string, number>; // POS only, `product_id|variant_id` to an authorised unit price
+  loyaltyCustomerId?: string | null; // Member who earns points, and whose points are redeemed
+  loyaltyPoints?: number; // Points to redeem
+  destination?: ShippingDestination | null; // Online only; delivery is priced for this address
+  shippingMethodId?: string | null; // Online only; the cheapest delivery when not chosen
+}
+
+export interface QuoteLine {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  line_total: number;
+  promotion_ids: string[];
+  combo_id: string | null;
+  combo_item_id: string | null;
+  tax_rate: number; // VAT included in the price, 0 when the product is not taxable
+}
+
+export interface AppliedPromotion {
+  id: string;
+  name: string;
+  type: PromotionKind;
+  code: string | null;
+  amount: number;
+  free_shipping: boolean;
+}
+
+export interface PricingQuote {
+  quote_id: string;
+  customer_id: string | null;
+  channel: PricingChannel;
+  lines: QuoteLine[];
+  subtotal: number;
+  promotion_discount: number;
+  manual_discount: number;
+  loyalty_customer_id: string | null;
+  loyalty_points_used: number;
+  loyalty_discount: number;
+  loyalty_points_earned: number; // Estimate, awarded once the order is paid
+  discount_amount: number;
+  shipping_amount: number;
+  shipping_required: boolean; // False when nothing in the cart is delivered
+  shipping_destination: ShippingDestination | null;
+  shipping_method: ShippingOption | null;
+  shipping_options: ShippingOption[];
+  tax_amount: number;
+  total: number;
+  free_shipping: boolean;
+  applied_promotions: AppliedPromotion[];
+  combos: ComboSummary[];
+  rejected_codes: { code: string; reason: string }[];
+  issued_at: string;
+  expires_at: string;
+}
+
+export class PricingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PricingError';
+  }
+}
+
+type PromotionKind = 'percentage' | 'fixed_amount' | 'buy_x_get_y' | 'bulk_discount' | 'free_shipping';
+
+interface NormalizedPromotion {
+  id: string;
+  name: string;
+  kind: PromotionKind;
+  value: number;
+  code: string | null;
+  requiresCode: boolean;
+  priority: number;
+  stackable: boolean;
+  appliesToSaleItems: boolean;
+  minimumOrderAmount: number;
+  minimumQuantity: number;
+  maximumDiscount: number | null;
+  usageLimit: number | null;
+  usageCount: number;
+  perCustomerLimit: number | null;
+  conditions: any;
+  productIds: Set<string>;
+  categoryIds: Set<string>;
+  createdAt: string;
+}
+
+interface WorkingLine extends QuoteLine {
+  gross: number; // Price before promotions: shelf price, or the line's share of a combo price
+  category_id: string | null;
+  on_sale: boolean;
+  locked: boolean; // Discounted by a non-stackable promotion, or part of a combo
+}
+
+export const FREE_SHIPPING_THRESHOLD = 500;
+export const STANDARD_SHIPPING_FEE = 50;
+export const STANDARD_VAT_RATE = 0.15;
+const QUOTE_TTL_MS = 15 * 60 * 1000;
+const MONEY_TOLERANCE = 0.01;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const lineKey = (comboId: string | null | undefined, productId: string, variantId: string | null | undefined) =>
+  `${comboId || ''}|${productId}|${comboId ? '' : variantId || ''}`;
+
+function getQuoteSecret(): string {
+  const secret = process.env.PRICING_QUOTE_SECRET || process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!secret) {
+    throw new PricingError('Pricing is not configured', 500);
+  }
+  return secret;
+}
+
+// Both promotion schemas are in use: the admin screen writes type/value/code/
+// start_date, the full schema uses type/discount_type/promo_code/starts_at.
+function normalizePromotion(row: any, productIds: Set<string>, categoryIds: Set<string>): NormalizedPromotion {
+  const rawType = String(row.type || '');
+  const discountType = String(row.discount_type || '');
+
+  let kind: PromotionKind;
+  if (rawType === 'free_shipping' || discountType === 'free_shipping') {
+    kind = 'free_shipping';
+  } else if (rawType === 'buy_x_get_y' || discountType.startsWith('buy_x_get_y')) {
+    kind = 'buy_x_get_y';
+  } else if (rawType === 'bulk_discount') {
+    kind = 'bulk_discount';
+  } else if (rawType === 'fixed_amount' || rawType === 'fixed_amount_off' || discountType === 'fixed_amount') {
+    kind = 'fixed_amount';
+  } else {
+    // percentage, percentage_off, flash_sale, clearance, seasonal
+    kind = 'percentage';
+  }
+
+  let value = Number(row.value ?? row.discount_value ?? 0);
+  if (discountType === 'buy_x_get_y_free') {
+    value = 100;
+  }
+
+  const code = row.code ?? row.promo_code ?? null;
+
+  return {
+    id: row.id,
+    name: row.name || 'Promotion',
+    kind,
+    value,
+    code: code ? String(code) : null,
+    requiresCode: !!code || row.requires_code === true,
+    priority: Number(row.priority || 0),
+    stackable: row.stackable === true,
+    appliesToSaleItems: row.applies_to_sale_items !== false,
+    minimumOrderAmount: Number(row.minimum_order_amount || 0),
+    minimumQuantity: Number(row.minimum_quantity || 0),
+    maximumDiscount: row.maximum_discount_amount != null ? Number(row.maximum_discount_amount) : null,
+    usageLimit: row.usage_limit != null ? Number(row.usage_limit) : null,
+    usageCount: Number(row.times_used ?? row.current_usage_count ?? 0),
+    perCustomerLimit: row.usage_limit_per_customer != null ? Number(row.usage_limit_per_customer) : null,
+    conditions: row.conditions || row.customer_eligibility || {},
+    productIds: row.applies_to === 'all' ? new Set() : productIds,
+    categoryIds: row.applies_to === 'all' ? new Set() : categoryIds,
+    createdAt: row.created_at || '',
+  };
+}
+
+function isPromotionLive(row: any, now: Date): boolean {
+  if (row.is_active === false) return false;
+  if (row.status && row.status !== 'active') return false;
+  const startsAt = row.start_date ?? row.starts_at;
+  const endsAt = row.end_date ?? row.ends_at;
+  if (startsAt && new Date(startsAt) > now) return false;
+  if (endsAt && new Date(endsAt) < now) return false;
+  return true;
+}
+
+async function loadPromotions(supabase: any): Promise<NormalizedPromotion[]> {
+  const { data: rows, error } = await supabase.from('promotions').select('*');
+  if (error) {
+    throw new PricingError(`Failed to load promotions: ${error.message}`, 500);
+  }
+
+  const now = new Date();
+  const live = (rows || []).filter((row: any) => isPromotionLive(row, now));
+  if (live.length === 0) return [];
+
+  const ids = live.map((row: any) => row.id);
+  const [{ data: productLinks }, { data: categoryLinks }] = await Promise.all([
+    supabase.from('promotion_products').select('promotion_id, product_id').in('promotion_id', ids),
+    supabase.from('promotion_categories').select('promotion_id, category_id').in('promotion_id', ids),
+  ]);
+
+  return live
+    .map((row: any) => normalizePromotion(
+      row,
+      new Set((productLinks || []).filter((l: any) => l.promotion_id === row.id).map((l: any) => l.product_id)),
+      new Set((categoryLinks || []).filter((l: any) => l.promotion_id === row.id).map((l: any) => l.category_id))
+    ))
+    .sort((a: NormalizedPromotion, b: NormalizedPromotion) =>
+      b.priority - a.priority || a.createdAt.localeCompare(b.createdAt)
+    );
+}
+
+async function loadCustomerUsage(supabase: any, customerId: string, promotionIds: string[]): Promise<Map<string, number>> {
+  const usage = new Map<string, number>();
+  if (promotionIds.length === 0) return usage;
+
+  const { data, error } = await supabase
+    .from('customer_promotions_usage')
+    .select('promotion_id, usage_count')
+    .eq('customer_id', customerId)
+    .in('promotion_id', promotionIds);
+
+  if (error) {
+    console.warn('⚠️ Could not load promotion usage for customer:', error.message);
+    return usage;
+  }
+
+  for (const row of data || []) {
+    usage.set(row.promotion_id, (usage.get(row.promotion_id) || 0) + Number(row.usage_count || 1));
+  }
+  return usage;
+}
+
+const remainingAmount = (line: WorkingLine) => line.gross - line.discount;
+
+function isLineInScope(promotion: NormalizedPromotion, line: WorkingLine): boolean {
+  if (promotion.productIds.size > 0 || promotion.categoryIds.size > 0) {
+    const byProduct = promotion.productIds.has(line.product_id);
+    const byCategory = !!line.category_id && promotion.categoryIds.has(line.category_id);
+    if (!byProduct && !byCategory) return false;
+  }
+  if (!promotion.appliesToSaleItems && line.on_sale) return false;
+  if (line.locked) return false;
+  if (!promotion.stackable && line.discount > 0) return false;
+  return true;
+}
+
+// Spread an order-level amount over lines in proportion to what is left on each
+function distribute(lines: WorkingLine[], amount: number): Map<WorkingLine, number> {
+  const shares = new Map<WorkingLine, number>();
+  const base = lines.reduce((sum, line) => sum + remainingAmount(line), 0);
+  if (base <= 0) return shares;
+  for (const line of lines) {
+    shares.set(line, (amount * remainingAmount(line)) / base);
+  }
+  return shares;
+}
+
+function computePromotionDiscounts(promotion: NormalizedPromotion, lines: WorkingLine[]): Map<WorkingLine, number> {
+  const eligibleQuantity = lines.reduce((sum, line) => sum + line.quantity, 0);
+  const eligibleAmount = lines.reduce((sum, line) => sum + remainingAmount(line), 0);
+
+  switch (promotion.kind) {
+    case 'percentage': {
+      const result = new Map<WorkingLine, number>();
+      for (const line of lines) {
+        result.set(line, (remainingAmount(line) * promotion.value) / 100);
+      }
+      return result;
+    }
+
+    case 'fixed_amount':
+      return distribute(lines, Math.min(promotion.value, eligibleAmount));
+
+    case 'buy_x_get_y': {
+      const conditions = promotion.conditions || {};
+      const buyQuantity = Number(conditions.buy_quantity || conditions.minimum_quantity || (promotion.minimumQuantity > 1 ? promotion.minimumQuantity : 2));
+      const getQuantity = Number(conditions.get_quantity || 1);
+      const percentOff = promotion.value > 0 ? promotion.value : 100;
+
+      // Same rule the cart has always shown: every X eligible units earns Y of
+      // the cheapest ones at the promotion's percentage off.
+      let toDiscount = Math.floor(eligibleQuantity / buyQuantity) * getQuantity;
+      const result = new Map<WorkingLine, number>();
+      for (const line of [...lines].sort((a, b) => a.unit_price - b.unit_price)) {
+        if (toDiscount <= 0) break;
+        const units = Math.min(line.quantity, toDiscount);
+        const perUnitRemaining = remainingAmount(line) / line.quantity;
+        result.set(line, (perUnitRemaining * units * percentOff) / 100);
+        toDiscount -= units;
+      }
+      return result;
+    }
+
+    case 'bulk_discount': {
+      const tiers: { min_quantity: number; percent: number }[] = Array.isArray(promotion.conditions?.tiers)
+        ? promotion.conditions.tiers.map((tier: any) => ({
+            min_quantity: Number(tier.min_quantity || 0),
+            percent: Number(tier.discount_percent ?? tier.percent ?? 0),
+          }))
+        : [{ min_quantity: promotion.minimumQuantity || 1, percent: promotion.value }];
+
+      const tier = tiers
+        .filter(t => eligibleQuantity >= t.min_quantity)
+        .sort((a, b) => b.min_quantity - a.min_quantity)[0];
+
+      const result = new Map<WorkingLine, number>();
+      if (!tier) return result;
+      for (const line of lines) {
+        result.set(line, (remainingAmount(line) * tier.percent) / 100);
+      }
+      return result;
+    }
+
+    default:
+      return new Map();
+  }
+}
+
+/**
+ * Price a cart from the database and evaluate all active promotions
+ */
+export async function priceCart(supabase: any, request: PricingRequest): Promise<PricingQuote> {
+  const channel: PricingChannel = request.channel === 'pos' ? 'pos' : 'online';
+  const customerId = request.customerId || null;
+
+  if (!Array.isArray(request.lines) || request.lines.length === 0) {
+    throw new PricingError('Cart is empty');
+  }
+
+  // Merge repeated products so per-product rules see the real quantity; combo
+  // lines stay separate per combo and other lines per variant. Bundles sell
+  // the parent product, so a variant on a combo line is ignored.
+  const merged = new Map<string, PricingLineRequest>();
+  for (const requested of request.lines) {
+    const quantity = Math.floor(Number(requested.quantity));
+    if (!requested.product_id || !quantity || quantity < 1) {
+      throw new PricingError('Each cart line needs a product and a quantity of at least 1');
+    }
+    const variantId = requested.combo_id ? undefined : requested.variant_id || undefined;
+    const key = lineKey(requested.combo_id, requested.product_id, variantId);
+    const existing = merged.get(key);
+    merged.set(key, {
+      product_id: requested.product_id,
+      variant_id: variantId,
+      quantity: (existing?.quantity || 0) + quantity,
+      combo_id: requested.combo_id || undefined,
+      combo_item_id: requested.combo_item_id || existing?.combo_item_id,
+    });
+  }
+
+  const { data: products, error: productsError } = await supabase
+    .from('products')
+    .select('*')
+    .in('id', Array.from(new Set(Array.from(merged.values()).map(line => line.product_id))));
+
+  if (productsError) {
+    throw new PricingError(`Failed to load products: ${productsError.message}`, 500);
+  }
+
+  const productsById = new Map<string, any>((products || []).map((p: any) => [p.id, p]));
+
+  const variantIds = Array.from(new Set(Array.from(merged.values()).map(line => line.variant_id).filter(Boolean)));
+  const variantsById = new Map<string, any>();
+  if (variantIds.length > 0) {
+    const { data: variants, error: variantsError } = await supabase
+      .from('product_variants')
+      .select('*')
+      .in('id', variantIds);
+
+    if (variantsError) {
+      throw new PricingError(`Failed to load product variants: ${variantsError.message}`, 500);
+    }
+    for (const variant of variants || []) {
+      variantsById.set(variant.id, variant);
+    }
+  }
+
+  let comboPricing;
+  try {
+    comboPricing = await priceComboLines(
+      supabase,
+      Array.from(merged.values()).filter(line => line.combo_id).map(line => ({ ...line, combo_id: line.combo_id! })),
+      productsById
+    );
+  } catch (error) {
+    if (error instanceof ComboError) throw new PricingError(error.message, error.status);
+    throw error;
+  }
+
+  const lines: WorkingLine[] = Array.from(merged.values()).map(requested => {
+    const product = productsById.get(requested.product_id);
+    if (!product || product.is_active === false || ['inactive', 'discontinued'].includes(product.status)) {
+      throw new PricingError(`Product ${product?.name || requested.product_id} is no longer available`);
+    }
+
+    const variant = requested.variant_id ? variantsById.get(requested.variant_id) : null;
+    if (requested.variant_id && (!variant || variant.product_id !== product.id || variant.is_active === false)) {
+      throw new PricingError(`The selected option of ${product.name} is no longer available`);
+    }
+    if (product.has_variants && !variant && !requested.combo_id) {
+      throw new PricingError(`Please choose an option for ${product.name}`);
+    }
+
+    const comboLine = requested.combo_id
+      ? comboPricing.lines.find(line => line.combo_id === requested.combo_id && line.product_id === requested.product_id)
+      : undefined;
+    const shelfPrice = variant?.price != null ? variant.price : product.price;
+    const overridePrice = comboLine ? undefined : request.priceOverrides?.[`${product.id}|${variant?.id || ''}`];
+    const unitPrice = comboLine
+      ? comboLine.unit_price
+      : roundCurrency(Number(overridePrice ?? shelfPrice ?? 0));
+    const compareAtPrice = variant ? variant.compare_at_price : product.compare_at_price;
+
+    return {
+      product_id: requested.product_id,
+      variant_id: variant ? variant.id : null,
+      name: variant ? `${product.name} (${variant.name})` : product.name,
+      sku: variant?.sku || product.sku || null,
+      quantity: requested.quantity,
+      unit_price: unitPrice,
+      discount: 0,
+      line_total: 0,
+      promotion_ids: [],
+      combo_id: comboLine ? comboLine.combo_id : null,
+      combo_item_id: comboLine ? comboLine.combo_item_id : null,
+      tax_rate: product.is_taxable === false ? 0 : Number(product.tax_rate ?? STANDARD_VAT_RATE),
+      gross: comboLine ? comboLine.line_total : roundCurrency(unitPrice * requested.quantity),
+      category_id: product.category_id || null,
+      on_sale: Number(compareAtPrice || 0) > unitPrice,
+      // Bundles and overridden prices are final, promotions do not apply on top
+      locked: !!comboLine || overridePrice !== undefined,
+    };
+  });
+
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + line.gross, 0));
+
+  const promotions = await loadPromotions(supabase);
+  const customerUsage = customerId
+    ? await loadCustomerUsage(supabase, customerId, promotions.map(p => p.id))
+    : new Map<string, number>();
+
+  const submittedCodes = (request.promoCodes || []).map(code => String(code).trim()).filter(Boolean);
+  const submittedLower = new Set(submittedCodes.map(code => code.toLowerCase()));
+  const rejected = new Map<string, string>();
+  const applied: AppliedPromotion[] = [];
+  let freeShipping = false;
+
+  for (const promotion of promotions) {
+    const submittedCode = promotion.code && submittedLower.has(promotion.code.toLowerCase()) ? promotion.code : null;
+    if (promotion.requiresCode && !submittedCode) continue;
+
+    const reject = (reason: string) => {
+      if (submittedCode) rejected.set(submittedCode.toLowerCase(), reason);
+    };
+
+    if (promotion.usageLimit && promotion.usageCount >= promotion.usageLimit) {
+      reject('This promotion has reached its usage limit');
+      continue;
+    }
+    if (customerId && promotion.perCustomerLimit && (customerUsage.get(promotion.id) || 0) >= promotion.perCustomerLimit) {
+      reject('You have already used this promotion');
+      continue;
+    }
+
+    const eligible = lines.filter(line => isLineInScope(promotion, line));
+    if (eligible.length === 0) {
+      reject('Promotion does not apply to the items in your cart');
+      continue;
+    }
+
+    const eligibleAmount = eligible.reduce((sum, line) => sum + remainingAmount(line), 0);
+    const eligibleQuantity = eligible.reduce((sum, line) => sum + line.quantity, 0);
+    if (promotion.minimumOrderAmount > 0 && eligibleAmount < promotion.minimumOrderAmount) {
+      reject(`Minimum order amount is R${promotion.minimumOrderAmount.toFixed(2)} for this promotion`);
+      continue;
+    }
+    if (promotion.kind !== 'buy_x_get_y' && promotion.minimumQuantity > 1 && eligibleQuantity < promotion.minimumQuantity) {
+      reject(`You need at least ${promotion.minimumQuantity} eligible items for this promotion`);
+      continue;
+    }
+
+    if (promotion.kind === 'free_shipping') {
+      if (channel === 'online') {
+        freeShipping = true;
+        applied.push({ id: promotion.id, name: promotion.name, type: promotion.kind, code: submittedCode, amount: 0, free_shipping: true });
+      }
+      continue;
+    }
+
+    let discounts = computePromotionDiscounts(promotion, eligible);
+    let total = Array.from(discounts.values()).reduce((sum, amount) => sum + amount, 0);
+    if (promotion.maximumDiscount != null && total > promotion.maximumDiscount) {
+      const scale = promotion.maximumDiscount / total;
+      discounts = new Map(Array.from(discounts.entries()).map(([line, amount]) => [line, amount * scale]));
+      total = promotion.maximumDiscount;
+    }
+
+    let appliedAmount = 0;
+    for (const [line, amount] of discounts.entries()) {
+      const rounded = Math.min(roundCurrency(amount), roundCurrency(remainingAmount(line)));
+      if (rounded <= 0) continue;
+      line.discount = roundCurrency(line.discount + rounded);
+      line.promotion_ids.push(promotion.id);
+      if (!promotion.stackable) line.locked = true;
+      appliedAmount += rounded;
+    }
+
+    if (appliedAmount > 0) {
+      applied.push({ id: promotion.id, name: promotion.name, type: promotion.kind, code: submittedCode, amount: roundCurrency(appliedAmount), free_shipping: false });
+    } else {
+      reject('Promotion does not apply to the items in your cart');
+    }
+  }
+
+  const promotionDiscount = roundCurrency(lines.reduce((sum, line) => sum + line.discount, 0));
+
+  // Cashier discount on top of promotions, spread over the lines like a fixed amount
+  let manualDiscount = 0;
+  const manualPercent = Math.min(100, Math.max(0, Number(request.manualDiscountPercent || 0)));
+  if (channel === 'pos' && manualPercent > 0) {
+    for (const [line, amount] of distribute(lines, ((subtotal - promotionDiscount) * manualPercent) / 100).entries()) {
+      const rounded = Math.min(roundCurrency(amount), roundCurrency(remainingAmount(line)));
+      line.discount = roundCurrency(line.discount + rounded);
+      manualDiscount += rounded;
+    }
+    manualDiscount = roundCurrency(manualDiscount);
+  }
+
+  // Free shipping is judged before points are spent, and points never pay for shipping
+  const beforeLoyalty = roundCurrency(subtotal - promotionDiscount - manualDiscount);
+  let shipping = null;
+  if (channel === 'online') {
+    try {
+      shipping = await quoteShipping(supabase, {
+        destination: request.destination,
+        lines: lines.map(line => ({
+          product: productsById.get(line.product_id),
+          variant: line.variant_id ? variantsById.get(line.variant_id) : null,
+          quantity: line.quantity,
+        })),
+        orderValue: beforeLoyalty,
+        freeShipping,
+        methodId: request.shippingMethodId,
+        fallbackFee: STANDARD_SHIPPING_FEE,
+        fallbackThreshold: FREE_SHIPPING_THRESHOLD,
+      });
+    } catch (error) {
+      if (error instanceof ShippingError) throw new PricingError(error.message, error.status);
+      throw error;
+    }
+  }
+  const destination = request.destination?.province || request.destination?.postal_code
+    ? { province: request.destination.province || null, postal_code: request.destination.postal_code || null }
+    : null;
+  if (destination && shipping?.requires_shipping && !shipping.selected) {
+    throw new PricingError('We do not deliver to this address yet', 409);
+  }
+  const shippingAmount = shipping?.selected?.amount || 0;
+
+  const loyaltyCustomerId = request.loyaltyCustomerId || null;
+  let loyaltyDiscount = 0;
+  let loyaltyPointsUsed = 0;
+  if (Number(request.loyaltyPoints || 0) > 0) {
+    let redemption;
+    try {
+      redemption = await previewRedemption(supabase, loyaltyCustomerId, Number(request.loyaltyPoints), beforeLoyalty);
+    } catch (error) {
+      if (error instanceof LoyaltyError) throw new PricingError(error.message, error.status);
+      throw error;
+    }
+
+    const open = lines.filter(line => remainingAmount(line) > 0);
+    const shares = distribute(open, redemption.discount);
+    open.forEach((line, index) => {
+      // The last line takes the rounding so the lines add up to the redemption
+      const amount = index === open.length - 1
+        ? roundCurrency(redemption.discount - loyaltyDiscount)
+        : roundCurrency(shares.get(line) || 0);
+      const rounded = Math.max(0, Math.min(amount, roundCurrency(remainingAmount(line))));
+      line.discount = roundCurrency(line.discount + rounded);
+      loyaltyDiscount = roundCurrency(loyaltyDiscount + rounded);
+    });
+    loyaltyPointsUsed = loyaltyDiscount > 0 ? redemption.points : 0;
+  }
+
+  for (const line of lines) {
+    line.line_total = roundCurrency(line.gross - line.discount);
+  }
+
+  const discountAmount = roundCurrency(promotionDiscount + manualDiscount + loyaltyDiscount);
+  const afterDiscount = roundCurrency(subtotal - discountAmount);
+
+  for (const code of submittedCodes) {
+    const lower = code.toLowerCase();
+    const known = promotions.some(p => p.code && p.code.toLowerCase() === lower);
+    if (!known) {
+      rejected.set(lower, 'Invalid or inactive promo code');
+    } else if (applied.some(p => p.code && p.code.toLowerCase() === lower)) {
+      rejected.delete(lower);
+    } else if (!rejected.has(lower)) {
+      rejected.set(lower, 'Promotion could not be combined with the other discounts in your cart');
+    }
+  }
+
+  const issuedAt = new Date();
+  return {
+    quote_id: randomUUID(),
+    customer_id: customerId,
+    channel,
+    lines: lines.map(({ gross, category_id, on_sale, locked, ...line }) => line),
+    subtotal,
+    promotion_discount: promotionDiscount,
+    manual_discount: manualDiscount,
+    loyalty_customer_id: loyaltyCustomerId,
+    loyalty_points_used: loyaltyPointsUsed,
+    loyalty_discount: loyaltyDiscount,
+    loyalty_points_earned: loyaltyCustomerId ? pointsForAmount(afterDiscount) : 0,
+    discount_amount: discountAmount,
+    shipping_amount: shippingAmount,
+    shipping_required: !!shipping?.requires_shipping,
+    shipping_destination: destination,
+    shipping_method: shipping?.selected || null,
+    shipping_options: shipping?.options || [],
+    tax_amount: 0, // Shelf prices include VAT
+    total: roundCurrency(afterDiscount + shippingAmount),
+    free_shipping: freeShipping,
+    applied_promotions: applied,
+    combos: comboPricing.combos,
+    rejected_codes: Array.from(rejected.entries()).map(([lower, reason]) => ({
+      code: submittedCodes.find(code => code.toLowerCase() === lower) || lower,
+      reason,
+    })),
+    issued_at: issuedAt.toISOString(),
+    expires_at: new Date(issuedAt.getTime() + QUOTE_TTL_MS).toISOString(),
+  };
+}
+
+export function signQuote(quote: PricingQuote): string {
+  const payload = Buffer.from(JSON.stringify(quote)).toString('base64url');
+  const signature = createHmac('sha256', getQuoteSecret()).update(payload).digest('base64url');
+  return `${payload}.${signature}`;
+}
+
+export function verifyQuote(token: string): PricingQuote {
+  const [payload, signature] = String(token || '').split('.');
+  if (!payload || !signature) {
+    throw new PricingError('Price quote is missing or malformed');
+  }
+
+  const expected = createHmac('sha256', getQuoteSecret()).update(payload).digest();
+  const provided = Buffer.from(signature, 'base64url');
+  if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+    throw new PricingError('Price quote signature is invalid', 403);
+  }
+
+  const quote: PricingQuote = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  if (new Date(quote.expires_at).getTime() < Date.now()) {
+    throw new PricingError('Price quote has expired, please review your cart', 409);
+  }
+  return quote;
+}
+
+function findMismatch(order: any, quote: PricingQuote): string | null {
+  const differs = (a: any, b: number) => Math.abs(Number(a || 0) - b) > MONEY_TOLERANCE;
+
+  if (differs(order.subtotal, quote.subtotal)) return 'subtotal';
+  if (differs(order.discount_amount, quote.discount_amount)) return 'discount';
+  if (differs(order.shipping_amount, quote.shipping_amount)) return 'shipping';
+  if (differs(order.total ?? order.total_amount, quote.total)) return 'total';
+  if (quote.customer_id && order.customer_id !== quote.customer_id) return 'customer';
+  if (quote.shipping_method && quote.shipping_method.type !== 'collect') {
+    const same = (a: any, b: any) => String(a || '').trim().toLowerCase() === String(b || '').trim().toLowerCase();
+    const address = order.shipping_address || {};
+    if (!quote.shipping_destination
+      || !same(address.province, quote.shipping_destination.province)
+      || !same(address.postal_code, quote.shipping_destination.postal_code)) {
+      return 'delivery address';
+    }
+  }
+
+  const ordered = new Map<string, { quantity: number; total: number }>();
+  for (const item of order.order_items || []) {
+    const key = lineKey(item.combo_id, item.product_id, item.variant_id);
+    const current = ordered.get(key) || { quantity: 0, total: 0 };
+    current.quantity += Number(item.quantity || 0);
+    current.total += Number(item.total_price || 0);
+    ordered.set(key, current);
+  }
+  if (ordered.size !== quote.lines.length) return 'items';
+  for (const line of quote.lines) {
+    const item = ordered.get(lineKey(line.combo_id, line.product_id, line.variant_id));
+    if (!item || item.quantity !== line.quantity || differs(item.total, line.line_total)) {
+      return `item ${line.name}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Record the VAT in each line of a confirmed order. Shelf prices include VAT,
+ * so a line's VAT is the part of its total at the product's rate. Order-level
+ * discounts (manual and loyalty) are not in the line totals; receipts spread
+ * them over the lines when they summarise VAT.
+ */
+async function recordLineTax(supabase: any, order: any, quote: PricingQuote) {
+  const rates = new Map<string, number>();
+  for (const line of quote.lines) {
+    rates.set(lineKey(line.combo_id, line.product_id, line.variant_id), Number(line.tax_rate ?? STANDARD_VAT_RATE));
+  }
+
+  for (const item of order.order_items || []) {
+    const rate = rates.get(lineKey(item.combo_id, item.product_id, item.variant_id)) ?? STANDARD_VAT_RATE;
+    const total = Number(item.total_price || 0);
+    const { error } = await supabase
+      .from('order_items')
+      .update({ tax_rate: rate, tax_amount: roundCurrency(total - total / (1 + rate)) })
+      .eq('id', item.id);
+    if (error) {
+      console.warn(`⚠️ Could not record VAT on order item ${item.id}:`, error.message);
+    }
+  }
+}
+
+async function recordPromotionUsage(supabase: any, order: any) {
+  for (const promotion of order.applied_promotions || []) {
+    const { error } = await supabase.rpc('record_promotion_usage', {
+      promotion_id: promotion.id,
+      order_id: order.id,
+      customer_id: order.customer_id || null,
+      discount_applied: promotion.amount,
+    });
+    if (error) {
+      console.warn(`⚠️ Could not record usage of promotion ${promotion.id}:`, error.message);
+    }
+  }
+}
+
+/**
+ * Spend the loyalty points and count the promotions and bundles a confirmed
+ * order was priced with. This happens once the order is paid, so a failed or
+ * abandoned payment costs the customer nothing; each step is safe to repeat. Throws
+ * LoyaltyError when the points have been spent elsewhere since the quote.
+ */
+export async function settleOrderDiscounts(supabase: any, order: any): Promise<void> {
+  if (Number(order.loyalty_points_used || 0) > 0) {
+    await redeemOrderPoints(supabase, order, Number(order.loyalty_points_used));
+  }
+  await recordPromotionUsage(supabase, order);
+  await recordComboPurchases(supabase, order);
+}
+
+const STAFF_ROLES = ['cashier', 'staff', 'manager', 'admin'];
+
+// An order that cannot stand at its quoted price is cancelled, so it is
+// neither charged, fulfilled nor counted as a sale
+async function cancelUnpricedOrder(supabase: any, orderId: string) {
+  const { error } = await supabase
+    .from('orders')
+    .update({ status: 'cancelled', payment_status: 'failed', updated_at: new Date().toISOString() })
+    .eq('id', orderId);
+
+  if (error) {
+    console.error(`❌ Failed to cancel order ${orderId}:`, error);
+  }
+}
+
+/**
+ * Check a newly created order against the quote it was priced with. Only the
+ * order's customer or till staff may confirm it; guest and shared cart orders
+ * have no customer and rely on the signed quote. An order that does not match
+ * is cancelled, so it can neither be charged nor take stock.
+ */
+export async function confirmOrderPricing(
+  supabase: any,
+  orderId: string,
+  token: string,
+  caller: { id: string; role?: string } | null
+) {
+  const quote = verifyQuote(token);
+
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('*, order_items (*)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    throw new PricingError(`Failed to load order: ${orderError.message}`, 500);
+  }
+  if (!order) {
+    throw new PricingError('Order not found', 404);
+  }
+
+  const isStaff = STAFF_ROLES.includes(caller?.role || '');
+  if (quote.channel === 'pos' && !isStaff) {
+    throw new PricingError('Till orders can only be confirmed by a cashier', 403);
+  }
+  if (order.customer_id && !isStaff && caller?.id !== order.customer_id) {
+    throw new PricingError('Order not found', 404);
+  }
+
+  if (order.pricing_verified_at) {
+    if (order.pricing_quote_id === quote.quote_id) {
+      return { order_id: order.id, quote_id: quote.quote_id, total: quote.total };
+    }
+    throw new PricingError('Order pricing has already been confirmed', 409);
+  }
+
+  if (quote.channel === 'online' && quote.shipping_required && !quote.shipping_method) {
+    throw new PricingError('Choose a delivery method for this order', 409);
+  }
+
+  const mismatch = findMismatch(order, quote);
+  if (mismatch) {
+    console.warn(`⚠️ Order ${order.order_number} does not match quote ${quote.quote_id} (${mismatch})`);
+    await cancelUnpricedOrder(supabase, order.id);
+    throw new PricingError(`Order ${mismatch} does not match the price quote, please review your cart`, 409);
+  }
+
+  const collecting = quote.shipping_method?.type === 'collect';
+  let pickupSlot: { start: string; end: string } | null = null;
+  if (collecting) {
+    try {
+      pickupSlot = await checkPickupSlot(supabase, order);
+    } catch (error) {
+      if (!(error instanceof CollectionError)) throw error;
+      await cancelUnpricedOrder(supabase, order.id);
+      throw new PricingError(error.message, error.status);
+    }
+  }
+
+  // The unique quote id stops one quote being redeemed for several orders
+  const { data: claimed, error: claimError } = await supabase
+    .from('orders')
+    .update({
+      pricing_quote_id: quote.quote_id,
+      pricing_verified_at: new Date().toISOString(),
+      applied_promotions: quote.applied_promotions,
+      applied_combos: quote.combos || [],
+      loyalty_customer_id: quote.loyalty_customer_id || null,
+      loyalty_points_used: quote.loyalty_points_used || 0,
+      loyalty_discount: quote.loyalty_discount || 0,
+      shipping_method_id: quote.shipping_method?.method_id || null,
+      shipping_method: quote.shipping_method || null,
+      // Till sales leave the counter with the customer and keep the column default
+      ...(quote.channel === 'online' ? {
+        fulfillment_method: collecting ? 'collect' : 'delivery',
+        pickup_slot_start: pickupSlot?.start || null,
+        pickup_slot_end: pickupSlot?.end || null,
+      } : {}),
+    })
+    .eq('id', order.id)
+    .is('pricing_verified_at', null)
+    .select('id');
+
+  if (claimError) {
+    if (claimError.code === '23505') {
+      throw new PricingError('This price quote has already been used for another order', 409);
+    }
+    throw new PricingError(`Failed to confirm order pricing: ${claimError.message}`, 500);
+  }
+
+  if (claimed && claimed.length > 0) {
+    await recordLineTax(supabase, order, quote);
+
+    // Till sales are paid at the counter when they are created; card orders
+    // spend their points and earn new ones from the payment webhook. The
+    // paid status is only trusted from staff, as customers create their own
+    // orders.
+    if (order.payment_status === 'paid' && isStaff) {
+      try {
+        await settleOrderDiscounts(supabase, {
+          ...order,
+          applied_promotions: quote.applied_promotions,
+          applied_combos: quote.combos || [],
+          loyalty_customer_id: quote.loyalty_customer_id,
+          loyalty_points_used: quote.loyalty_points_used,
+        });
+      } catch (error) {
+        // Points were spent elsewhere since the quote; the order cannot stand at this price
+        await cancelUnpricedOrder(supabase, order.id);
+        const message = error instanceof LoyaltyError ? error.message : 'Failed to redeem loyalty points';
+        throw new PricingError(`${message}, please review your cart`, 409);
+      }
+
+      try {
+        await awardOrderPoints(supabase, order.id);
+      } catch (error) {
+        console.warn(`⚠️ Could not award loyalty points for order ${order.order_number}:`, error);
+      }
+    }
+  }
+
+  return { order_id: order.id, quote_id: quote.quote_id, total: quote.total };
+}
@@ -0,0 +1,192 @@
+// Purchasing: goods receiving and landed-cost history.
+//
+// Suppliers and draft purchase orders are kept by managers straight from the
+// admin app. Once an order is sent, its lines are received here: each line
+// goes through receive_purchase_order_item(), which raises stock through the
+// ledger, moves the product's cost_price to the weighted average of stock on
+// hand and the landed cost, and records the receipt in product_cost_history.
+// Landed cost is the supplier's unit cost plus the line's share of freight,
+// duties and other charges on the delivery, split by line value.
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface ReceiveLine {
+  item_id: string;
+  quantity: number;
+}
+
+export interface ReceivePurchaseOrderRequest {
+  lines: ReceiveLine[];
+  additional_costs?: number;
+}
+
+export class PurchasingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PurchasingError';
+  }
+}
+
+// Orders that can take deliveries
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['sent', 'partially_received'];
+
+const COST_HISTORY_LIMIT = 50;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+async function loadPurchaseOrder(supabase: any, purchaseOrderId: string) {
+  const { data, error } = await supabase
+    .from('purchase_orders')
+    .select('*, supplier:suppliers(id, name), purchase_order_items(*, product:products(id, name, sku), variant:product_variants(id, name, sku))')
+    .eq('id', purchaseOrderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new PurchasingError(`Failed to load purchase order: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new PurchasingError('Purchase order not found', 404);
+  }
+  return data;
+}
+
+/**
+ * Split the delivery's extra charges across the received lines by value, or by
+ * units when every line is free of charge, and return each line's landed unit cost
+ */
+export function allocateLandedCosts(
+  lines: { item_id: string; quantity: number; unit_cost: number }[],
+  additionalCosts: number
+): Map<string, number> {
+  const totalValue = lines.reduce((sum, line) => sum + line.quantity * line.unit_cost, 0);
+  const totalUnits = lines.reduce((sum, line) => sum + line.quantity, 0);
+
+  const landed = new Map<string, number>();
+  for (const line of lines) {
+    const share = totalValue > 0
+      ? additionalCosts * (line.quantity * line.unit_cost) / totalValue
+      : additionalCosts * line.quantity / totalUnits;
+    landed.set(line.item_id, line.unit_cost + share / line.quantity);
+  }
+  return landed;
+}
+
+/**
+ * Receive a delivery against a sent purchase order. Lines may be received in
+ * part; the order becomes partially_received until every unit has arrived.
+ */
+export async function receivePurchaseOrder(
+  supabase: any,
+  purchaseOrderId: string,
+  userId: string,
+  request: ReceivePurchaseOrderRequest
+) {
+  const purchaseOrder = await loadPurchaseOrder(supabase, purchaseOrderId);
+  if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+    throw new PurchasingError(
+      purchaseOrder.status === 'draft'
+        ? 'Send the purchase order before receiving stock against it'
+        : `A ${purchaseOrder.status.replace('_', ' ')} purchase order cannot take deliveries`,
+      409
+    );
+  }
+
+  const additionalCosts = roundCurrency(Number(request.additional_costs || 0));
+  if (!Number.isFinite(additionalCosts) || additionalCosts < 0) {
+    throw new PurchasingError('Additional costs must be zero or more');
+  }
+
+  // Merge repeat scans of the same line before checking what is outstanding
+  const quantities = new Map<string, number>();
+  for (const line of request.lines || []) {
+    const quantity = Math.trunc(Number(line.quantity));
+    if (!line.item_id || !Number.isFinite(quantity) || quantity < 0) {
+      throw new PurchasingError('Each received line needs an item and a quantity of zero or more');
+    }
+    if (quantity > 0) {
+      quantities.set(line.item_id, (quantities.get(line.item_id) || 0) + quantity);
+    }
+  }
+  if (quantities.size === 0) {
+    throw new PurchasingError('Enter at least one received quantity');
+  }
+
+  const items = new Map<string, any>(purchaseOrder.purchase_order_items.map((item: any) => [item.id, item]));
+  const lines = Array.from(quantities, ([itemId, quantity]) => {
+    const item = items.get(itemId);
+    if (!item) {
+      throw new PurchasingError('A received line is not on this purchase order');
+    }
+    const outstanding = item.quantity_ordered - item.quantity_received;
+    if (quantity > outstanding) {
+      const name = item.variant ? `${item.product?.name} (${item.variant.name})` : item.product?.name;
+      throw new PurchasingError(`Only ${outstanding} of ${name} still to receive`, 409);
+    }
+    return { item_id: itemId, quantity, unit_cost: Number(item.unit_cost || 0) };
+  });
+
+  const landedCosts = allocateLandedCosts(lines, additionalCosts);
+  const receipts = [];
+  for (const line of lines) {
+    const { data, error } = await supabase.rpc('receive_purchase_order_item', {
+      item_id: line.item_id,
+      quantity: line.quantity,
+      landed_unit_cost: landedCosts.get(line.item_id),
+      received_by: userId,
+    });
+
+    if (error) {
+      throw new PurchasingError(`Failed to receive stock: ${error.message}`, 500);
+    }
+    // A composite NULL comes back as a row of nulls
+    if (!data || !data.id) {
+      throw new PurchasingError('This line was received by someone else in the meantime; reload the order', 409);
+    }
+    receipts.push(data);
+  }
+
+  const { data: refreshedItems, error: itemsError } = await supabase
+    .from('purchase_order_items')
+    .select('quantity_ordered, quantity_received')
+    .eq('purchase_order_id', purchaseOrderId);
+
+  if (itemsError) {
+    throw new PurchasingError(`Failed to load purchase order lines: ${itemsError.message}`, 500);
+  }
+
+  const fullyReceived = (refreshedItems || []).every((item: any) => item.quantity_received >= item.quantity_ordered);
+  const { error: updateError } = await supabase
+    .from('purchase_orders')
+    .update({
+      status: fullyReceived ? 'received' : 'partially_received',
+      received_at: fullyReceived ? new Date().toISOString() : null,
+      additional_costs: roundCurrency(Number(purchaseOrder.additional_costs || 0) + additionalCosts),
+    })
+    .eq('id', purchaseOrderId);
+
+  if (updateError) {
+    throw new PurchasingError(`Failed to update purchase order: ${updateError.message}`, 500);
+  }
+
+  return {
+    purchase_order: await loadPurchaseOrder(supabase, purchaseOrderId),
+    receipts,
+  };
+}
+
+/**
+ * Landed cost of each delivery of a product, newest first
+ */
+export async function getProductCostHistory(supabase: any, productId: string) {
+  const { data, error } = await supabase
+    .from('product_cost_history')
+    .select('*, purchase_order:purchase_orders(id, po_number), supplier:suppliers(id, name), variant:product_variants(id, name)')
+    .eq('product_id', productId)
+    .order('received_at', { ascending: false })
+    .limit(COST_HISTORY_LIMIT);
+
+  if (error) {
+    throw new PurchasingError(`Failed to load cost history: ${error.message}`, 500);
+  }
+  return data || [];
+}
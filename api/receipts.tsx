@@ -0,0 +1,257 @@
+import { getOrderTenders, Tender } from './tenders.tsx';
+
+// Till receipts.
+//
+// The receipt for an order is built here from what was recorded: the lines
+// with the VAT stamped on them when the order's pricing was confirmed, the
+// tenders and change, and the customer's loyalty points. The till renders the
+// model as ESC/POS for the thermal printer or as HTML, laid out by the store's
+// receipt template, which managers edit in admin and is kept in
+// `store_settings` under RECEIPT_TEMPLATE_KEY.
+
+export interface ReceiptTemplate {
+  store_name: string;
+  address_lines: string[];
+  phone: string;
+  vat_number: string;
+  header_message: string;
+  footer_message: string;
+  returns_policy: string;
+  paper_width: 58 | 80;
+  show_vat_summary: boolean;
+  show_loyalty: boolean;
+  show_barcode: boolean;
+  open_cash_drawer: boolean;
+}
+
+export interface ReceiptLine {
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number; // VAT inclusive, after promotions
+  vat_code: string;
+}
+
+export interface ReceiptVatRate {
+  code: string;
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface ReceiptModel {
+  template: ReceiptTemplate;
+  order_id: string;
+  order_number: string;
+  created_at: string;
+  cashier_name: string | null;
+  customer_name: string | null;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  loyalty_discount: number;
+  shipping: number;
+  total: number;
+  vat_summary: ReceiptVatRate[];
+  vat_total: number;
+  tenders: Tender[];
+  change: number;
+  loyalty: { points_used: number; points_earned: number; balance: number } | null;
+  barcode: string;
+}
+
+export class ReceiptError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReceiptError';
+  }
+}
+
+export const RECEIPT_TEMPLATE_KEY = 'receipt_template';
+
+export const DEFAULT_RECEIPT_TEMPLATE: ReceiptTemplate = {
+  store_name: 'BEST BRIGHTNESS',
+  address_lines: [],
+  phone: '',
+  vat_number: '',
+  header_message: 'Your Bright Shopping Experience',
+  footer_message: 'Thank you for shopping with us! Visit us again soon',
+  returns_policy: 'Keep this slip for returns and exchanges',
+  paper_width: 80,
+  show_vat_summary: true,
+  show_loyalty: true,
+  show_barcode: true,
+  open_cash_drawer: true,
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const text = (value: any, maxLength: number) => String(value ?? '').trim().slice(0, maxLength);
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * What the receipt barcode encodes. Order numbers are UUIDs, which are too
+ * long for a Code 128 barcode to fit across 58mm paper, so the barcode
+ * carries their first 12 hex digits; returns look the order up by that.
+ */
+export function receiptBarcode(orderNumber: string): string {
+  return UUID_PATTERN.test(orderNumber) ? orderNumber.replace(/-/g, '').slice(0, 12).toUpperCase() : orderNumber;
+}
+
+export async function getReceiptTemplate(supabase: any): Promise<ReceiptTemplate> {
+  const { data, error } = await supabase
+    .from('store_settings')
+    .select('value')
+    .eq('key', RECEIPT_TEMPLATE_KEY)
+    .maybeSingle();
+
+  if (error) {
+    throw new ReceiptError(`Failed to load receipt template: ${error.message}`, 500);
+  }
+  return { ...DEFAULT_RECEIPT_TEMPLATE, ...(data?.value || {}) };
+}
+
+export async function saveReceiptTemplate(supabase: any, userId: string, input: Partial<ReceiptTemplate>): Promise<ReceiptTemplate> {
+  const current = await getReceiptTemplate(supabase);
+  const merged = { ...current, ...input };
+
+  const template: ReceiptTemplate = {
+    store_name: text(merged.store_name, 48),
+    address_lines: (Array.isArray(merged.address_lines) ? merged.address_lines : [])
+      .map(line => text(line, 48))
+      .filter(Boolean)
+      .slice(0, 4),
+    phone: text(merged.phone, 30),
+    vat_number: text(merged.vat_number, 20),
+    header_message: text(merged.header_message, 200),
+    footer_message: text(merged.footer_message, 200),
+    returns_policy: text(merged.returns_policy, 300),
+    paper_width: Number(merged.paper_width) === 58 ? 58 : 80,
+    show_vat_summary: merged.show_vat_summary !== false,
+    show_loyalty: merged.show_loyalty !== false,
+    show_barcode: merged.show_barcode !== false,
+    open_cash_drawer: merged.open_cash_drawer !== false,
+  };
+
+  if (!template.store_name) {
+    throw new ReceiptError('The receipt needs a store name');
+  }
+  if (template.vat_number && !/^4\d{9}$/.test(template.vat_number)) {
+    throw new ReceiptError('A South African VAT number is 10 digits starting with 4');
+  }
+
+  const { error } = await supabase
+    .from('store_settings')
+    .upsert({ key: RECEIPT_TEMPLATE_KEY, value: template, updated_by: userId, updated_at: new Date().toISOString() });
+
+  if (error) {
+    throw new ReceiptError(`Failed to save receipt template: ${error.message}`, 500);
+  }
+  return template;
+}
+
+/**
+ * VAT per rate, with order-level discounts (manual and loyalty) spread over
+ * the lines in proportion to their value. Standard-rated lines are A, the
+ * next rate B and so on; zero-rated lines are Z.
+ */
+function summariseVat(items: any[], merchandiseTotal: number) {
+  const linesTotal = items.reduce((sum, item) => sum + Number(item.total_price || 0), 0);
+  const factor = linesTotal > 0 ? merchandiseTotal / linesTotal : 0;
+
+  const byRate = new Map<number, number>();
+  for (const item of items) {
+    const rate = Number(item.tax_rate || 0);
+    byRate.set(rate, (byRate.get(rate) || 0) + Number(item.total_price || 0));
+  }
+
+  const taxedRates = Array.from(byRate.keys()).filter(rate => rate > 0).sort((a, b) => b - a);
+  const codeFor = (rate: number) => (rate > 0 ? String.fromCharCode(65 + taxedRates.indexOf(rate)) : 'Z');
+
+  const summary: ReceiptVatRate[] = Array.from(byRate.entries())
+    .sort(([a], [b]) => b - a)
+    .map(([rate, total]) => {
+      const gross = roundCurrency(total * factor);
+      const vat = roundCurrency(gross - gross / (1 + rate));
+      return { code: codeFor(rate), rate, net: roundCurrency(gross - vat), vat, gross };
+    });
+
+  return { summary, codeFor };
+}
+
+async function loadLoyalty(supabase: any, order: any) {
+  if (!order.loyalty_customer_id) return null;
+
+  const { data: profile, error } = await supabase
+    .from('user_profiles')
+    .select('loyalty_points')
+    .eq('id', order.loyalty_customer_id)
+    .maybeSingle();
+
+  if (error) {
+    console.warn(`⚠️ Could not load loyalty balance for receipt ${order.order_number}:`, error.message);
+    return null;
+  }
+
+  return {
+    points_used: Number(order.loyalty_points_used || 0),
+    points_earned: Number(order.loyalty_points_earned || 0),
+    balance: Number(profile?.loyalty_points || 0),
+  };
+}
+
+export async function buildReceipt(supabase: any, orderId: string): Promise<ReceiptModel> {
+  const { data: order, error } = await supabase
+    .from('orders')
+    .select('*, order_items (*)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (error) {
+    throw new ReceiptError(`Failed to load order: ${error.message}`, 500);
+  }
+  if (!order) {
+    throw new ReceiptError('Order not found', 404);
+  }
+
+  const items = order.order_items || [];
+  const total = Number(order.total ?? order.total_amount ?? 0);
+  const shipping = Number(order.shipping_amount || 0);
+  const loyaltyDiscount = Number(order.loyalty_discount || 0);
+  const subtotal = roundCurrency(items.reduce((sum: number, item: any) => sum + Number(item.total_price || 0), 0));
+  const { summary, codeFor } = summariseVat(items, total - shipping);
+  const tenders = getOrderTenders(order);
+  // Walk-in till sales are recorded against the cashier, who is not the customer
+  const walkIn = !!order.payment_details?.cashier_id && order.customer_id === order.payment_details.cashier_id;
+
+  return {
+    template: await getReceiptTemplate(supabase),
+    order_id: order.id,
+    order_number: order.order_number,
+    created_at: order.created_at,
+    cashier_name: order.payment_details?.cashier_name || null,
+    customer_name: walkIn ? null : order.customer_info?.name || null,
+    lines: items.map((item: any) => ({
+      name: item.product_snapshot?.name || item.product_name || 'Item',
+      sku: item.product_sku || null,
+      quantity: Number(item.quantity),
+      unit_price: Number(item.unit_price),
+      amount: Number(item.total_price),
+      vat_code: codeFor(Number(item.tax_rate || 0)),
+    })),
+    subtotal,
+    discount: Math.max(roundCurrency(subtotal + shipping - total - loyaltyDiscount), 0),
+    loyalty_discount: loyaltyDiscount,
+    shipping,
+    total,
+    vat_summary: summary,
+    vat_total: roundCurrency(summary.reduce((sum, rate) => sum + rate.vat, 0)),
+    tenders,
+    change: roundCurrency(tenders.reduce((sum, tender) => sum + Number(tender.change || 0), 0)),
+    loyalty: await loadLoyalty(supabase, order),
+    barcode: receiptBarcode(order.order_number),
+  };
+}
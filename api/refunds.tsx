@@ -0,0 +1,478 @@
+import type Stripe from 'stripe';
+import { sendOrderEmail } from './emails.tsx';
+import { issueGiftCard } from './gift-cards.tsx';
+import { syncOrderLoyalty } from './loyalty.tsx';
+import { getOpenShiftId } from './shifts.tsx';
+import { getOrderTenders } from './tenders.tsx';
+import { generateRefundNumber } from './utils.tsx';
+
+// Refunds for online (Stripe) and POS (cash drawer) orders.
+//
+// A refund either covers the whole order or selected order_items lines. Each
+// one is recorded as its own document in `refunds` with a RF- number and the
+// lines in `refund_items`. Each line's refunded quantity is also counted on
+// `order_items.refunded_quantity`, reserved together with the amount, so two
+// refunds at once cannot both return the same units.
+//
+// Returns at the till go through the same path: the cashier scans the order
+// number off the receipt, picks the lines coming back and how the customer is
+// paid out. Store credit is issued as a gift card; an exchange is store credit
+// the till applies straight to the customer's new basket.
+
+export type RefundMethod = 'card' | 'cash' | 'store_credit';
+
+export const RETURN_REASONS = ['changed_mind', 'damaged', 'faulty', 'wrong_item', 'not_as_described', 'other'] as const;
+export type ReturnReason = typeof RETURN_REASONS[number];
+
+export interface RefundLineRequest {
+  order_item_id: string;
+  quantity: number;
+  restock?: boolean; // Per line, so damaged goods stay off the shelf
+}
+
+export interface RefundRequest {
+  orderId: string;
+  lines?: RefundLineRequest[]; // Omit for a full refund of everything still refundable
+  reason?: string;
+  restock?: boolean;
+  includeShipping?: boolean;
+  processedBy?: string;
+  requestId: string; // Client-generated per attempt; the Stripe idempotency key and a guard against repeats
+  method?: RefundMethod; // Chosen at the till; defaults to how the order was paid
+  exchange?: boolean; // Paid out as store credit for a new basket
+}
+
+export interface RefundableLine {
+  order_item_id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  name: string;
+  quantity: number;
+  refunded_quantity: number;
+  refundable_quantity: number;
+  unit_amount: number;
+}
+
+export class RefundError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RefundError';
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Card orders that went through Stripe are refunded to the card; everything
+// else (POS cash sales, demo card payments) is paid out of the cash drawer.
+export function getRefundMethod(order: any): RefundMethod {
+  const paymentIntentId = order.payment_intent_id || order.payment_details?.stripe_payment_intent_id;
+  return paymentIntentId ? 'card' : 'cash';
+}
+
+/**
+ * How a till may pay a return out. Stripe payments go back to the card; till
+ * sales can be refunded in cash, or to a card when one was used on the
+ * terminal. Store credit is always on offer.
+ */
+export function getRefundMethods(order: any): RefundMethod[] {
+  if (getRefundMethod(order) === 'card') {
+    return ['card', 'store_credit'];
+  }
+  const paidByCard = getOrderTenders(order).some(tender => tender.method === 'card');
+  return paidByCard ? ['cash', 'card', 'store_credit'] : ['cash', 'store_credit'];
+}
+
+// Move an order's refunded total by `amount`, and its lines' refunded
+// quantities by `lines` (negative to release), as long as they stay between
+// zero and what was paid and sold. Null when the refund would go over.
+async function reserveRefund(
+  supabase: any,
+  orderId: string,
+  amount: number,
+  orderTotal: number,
+  lines: Array<{ order_item_id: string; quantity: number }>
+): Promise<number | null> {
+  const { data, error } = await supabase.rpc('reserve_order_refund', {
+    order_id: orderId,
+    amount,
+    order_total: roundCurrency(orderTotal),
+    lines,
+  });
+  if (error) {
+    throw new RefundError(`Failed to reserve refund: ${error.message}`, 500);
+  }
+  return data === null || data === undefined ? null : roundCurrency(Number(data));
+}
+
+// Payment status for a refunded total. Only applied while the total is still
+// the one this refund left, so a slower concurrent refund cannot overwrite it.
+async function updateRefundStatus(supabase: any, orderId: string, totalRefunded: number, orderTotal: number) {
+  const fullyRefunded = totalRefunded >= roundCurrency(orderTotal);
+  const update: any = {
+    payment_status: totalRefunded <= 0 ? 'paid' : fullyRefunded ? 'refunded' : 'partially_refunded',
+    updated_at: new Date().toISOString(),
+  };
+  if (fullyRefunded) {
+    update.status = 'refunded';
+  }
+
+  const { error } = await supabase
+    .from('orders')
+    .update(update)
+    .eq('id', orderId)
+    .eq('amount_refunded', totalRefunded);
+  if (error) {
+    console.error(`❌ Failed to update payment status of order ${orderId}:`, error);
+  }
+  return update.payment_status as string;
+}
+
+export async function getRefundableLines(supabase: any, orderId: string): Promise<{ order: any; lines: RefundableLine[] }> {
+  const { data: order, error: orderError } = await supabase
+    .from('orders')
+    .select('*, order_items (*)')
+    .eq('id', orderId)
+    .maybeSingle();
+
+  if (orderError) {
+    throw new RefundError(`Failed to load order: ${orderError.message}`, 500);
+  }
+  if (!order) {
+    throw new RefundError('Order not found', 404);
+  }
+
+  const lines: RefundableLine[] = (order.order_items || []).map((item: any) => {
+    const quantity = Number(item.quantity || 0);
+    const refunded = Number(item.refunded_quantity || 0);
+    const lineTotal = Number(item.total_price ?? Number(item.unit_price || 0) * quantity);
+    return {
+      order_item_id: item.id,
+      product_id: item.product_id || null,
+      variant_id: item.variant_id || null,
+      name: item.product_snapshot?.name || item.product_name || 'Item',
+      quantity,
+      refunded_quantity: refunded,
+      refundable_quantity: Math.max(0, quantity - refunded),
+      unit_amount: quantity ? lineTotal / quantity : 0,
+    };
+  });
+
+  return { order, lines };
+}
+
+/**
+ * The order behind a scanned receipt, with what can still be returned
+ */
+export async function lookupReturn(supabase: any, orderNumber: string) {
+  const number = String(orderNumber || '').trim();
+  if (!number) {
+    throw new RefundError('Scan or type the order number from the receipt');
+  }
+
+  // Receipt barcodes carry the first 12 hex digits of the order's UUID
+  const shortReference = /^[0-9a-f]{12}$/i.test(number);
+  const query = supabase.from('orders').select('id').limit(2);
+  const { data: found, error } = shortReference
+    ? await query.ilike('order_number', `${number.slice(0, 8)}-${number.slice(8)}%`)
+    : await query.ilike('order_number', number.replace(/[\\%_]/g, '\\$&'));
+
+  if (error) {
+    throw new RefundError(`Failed to look up order: ${error.message}`, 500);
+  }
+  if (!found || found.length === 0) {
+    throw new RefundError(`No order found for ${number}`, 404);
+  }
+  if (found.length > 1) {
+    throw new RefundError('More than one order matches; type the full order number from the receipt', 409);
+  }
+
+  const { order, lines } = await getRefundableLines(supabase, found[0].id);
+  if (!['paid', 'partially_refunded', 'refunded'].includes(order.payment_status)) {
+    throw new RefundError(`Order ${order.order_number} is ${order.payment_status}; only paid orders can be returned`);
+  }
+
+  const total = Number(order.total ?? order.total_amount ?? 0);
+  return {
+    order_id: order.id,
+    order_number: order.order_number,
+    created_at: order.created_at,
+    customer_name: order.customer_info?.name || null,
+    payment_status: order.payment_status,
+    total,
+    amount_refunded: Number(order.amount_refunded || 0),
+    refundable_amount: roundCurrency(Math.max(total - Number(order.amount_refunded || 0), 0)),
+    tenders: getOrderTenders(order),
+    refund_methods: getRefundMethods(order),
+    lines,
+  };
+}
+
+export async function createRefund(
+  supabase: any,
+  request: RefundRequest,
+  stripe?: Stripe
+) {
+  if (!request.requestId) {
+    throw new RefundError('Missing refund request id');
+  }
+  const { data: repeat, error: repeatError } = await supabase
+    .from('refunds')
+    .select('refund_number')
+    .eq('request_id', request.requestId)
+    .maybeSingle();
+  if (repeatError) {
+    throw new RefundError(`Failed to check previous refunds: ${repeatError.message}`, 500);
+  }
+  if (repeat) {
+    throw new RefundError(`This refund was already processed as ${repeat.refund_number}`, 409);
+  }
+
+  const { order, lines } = await getRefundableLines(supabase, request.orderId);
+
+  if (!['paid', 'partially_refunded'].includes(order.payment_status)) {
+    throw new RefundError(`Order is ${order.payment_status}; only paid orders can be refunded`);
+  }
+
+  const orderTotal = Number(order.total ?? order.total_amount ?? 0);
+  const alreadyRefunded = Number(order.amount_refunded || 0);
+  const remaining = roundCurrency(orderTotal - alreadyRefunded);
+  if (remaining <= 0) {
+    throw new RefundError('Order has already been fully refunded');
+  }
+
+  const restock = request.restock !== false;
+
+  // Resolve which quantities are being returned
+  const isFullRefund = !request.lines || request.lines.length === 0;
+  const selected = isFullRefund
+    ? lines.filter(line => line.refundable_quantity > 0).map(line => ({ line, quantity: line.refundable_quantity, restock }))
+    : request.lines!.map(requested => {
+        const line = lines.find(l => l.order_item_id === requested.order_item_id);
+        if (!line) {
+          throw new RefundError(`Order item ${requested.order_item_id} does not belong to this order`);
+        }
+        const quantity = Math.floor(Number(requested.quantity));
+        if (!quantity || quantity < 1) {
+          throw new RefundError(`Invalid quantity for ${line.name}`);
+        }
+        if (quantity > line.refundable_quantity) {
+          throw new RefundError(`Only ${line.refundable_quantity} of ${line.name} can still be refunded`);
+        }
+        return { line, quantity, restock: requested.restock ?? restock };
+      });
+
+  // A full refund returns whatever is left of the order total, including
+  // shipping; line refunds are priced at what the customer paid per unit.
+  let amount = isFullRefund
+    ? remaining
+    : selected.reduce((sum, { line, quantity }) => sum + line.unit_amount * quantity, 0);
+  if (!isFullRefund && request.includeShipping) {
+    amount += Number(order.shipping_amount || 0);
+  }
+  amount = Math.min(roundCurrency(amount), remaining);
+
+  if (amount <= 0) {
+    throw new RefundError('Nothing to refund');
+  }
+
+  const method = request.exchange ? 'store_credit' : request.method || getRefundMethod(order);
+  if (!getRefundMethods(order).includes(method)) {
+    throw new RefundError(`Order ${order.order_number} cannot be refunded by ${method.replace('_', ' ')}`);
+  }
+  const refundNumber = generateRefundNumber();
+  const paidThroughStripe = getRefundMethod(order) === 'card';
+  if (method === 'card' && paidThroughStripe && !stripe) {
+    throw new RefundError('Stripe is not configured for card refunds', 500);
+  }
+
+  // Claim the amount and quantities against the order before any money moves
+  const reservedLines = selected.map(({ line, quantity }) => ({ order_item_id: line.order_item_id, quantity }));
+  const totalRefunded = await reserveRefund(supabase, order.id, amount, orderTotal, reservedLines);
+  if (totalRefunded === null) {
+    throw new RefundError('The order was refunded by someone else in the meantime; reload it and try again', 409);
+  }
+  const release = async () => {
+    const releasedLines = reservedLines.map(line => ({ ...line, quantity: -line.quantity }));
+    const released = await reserveRefund(supabase, order.id, -amount, orderTotal, releasedLines).catch((error) => {
+      console.error(`❌ Failed to release refund ${refundNumber} on order ${order.order_number}:`, error);
+      return null;
+    });
+    if (released !== null) {
+      await updateRefundStatus(supabase, order.id, released, orderTotal);
+    }
+  };
+
+  let stripeRefundId: string | null = null;
+  if (method === 'card' && paidThroughStripe) {
+    const paymentIntentId = order.payment_intent_id || order.payment_details?.stripe_payment_intent_id;
+    try {
+      const stripeRefund = await stripe!.refunds.create(
+        {
+          payment_intent: paymentIntentId,
+          amount: Math.round(amount * 100),
+          reason: 'requested_by_customer',
+          metadata: {
+            order_id: order.id,
+            order_number: order.order_number,
+            refund_number: refundNumber,
+          },
+        },
+        { idempotencyKey: `refund-${request.requestId}` }
+      );
+      stripeRefundId = stripeRefund.id;
+    } catch (error: any) {
+      await release();
+      throw new RefundError(`Stripe refund failed: ${error.message || 'Unknown error'}`, 502);
+    }
+  }
+
+  let giftCard: any = null;
+  if (method === 'store_credit') {
+    try {
+      giftCard = await issueGiftCard(supabase, request.processedBy as string, {
+        amount,
+        notes: `Store credit for ${refundNumber} on order ${order.order_number}`,
+      });
+    } catch (error) {
+      await release();
+      throw error;
+    }
+  }
+
+  // Cash comes out of the drawer of whoever issues the refund, so it counts
+  // against their open shift when they have one
+  let shiftId: string | null = null;
+  try {
+    shiftId = await getOpenShiftId(supabase, request.processedBy);
+  } catch (error) {
+    console.error(`❌ Failed to find the open shift for refund ${refundNumber}:`, error);
+  }
+
+  const { data: refund, error: refundError } = await supabase
+    .from('refunds')
+    .insert({
+      refund_number: refundNumber,
+      order_id: order.id,
+      amount,
+      refund_method: method,
+      status: 'completed',
+      reason: request.reason || null,
+      stripe_refund_id: stripeRefundId,
+      includes_shipping: isFullRefund || !!request.includeShipping,
+      restocked: selected.some(item => item.restock),
+      processed_by: request.processedBy || null,
+      shift_id: shiftId,
+      gift_card_id: giftCard?.id || null,
+      is_exchange: !!request.exchange,
+      request_id: request.requestId,
+    })
+    .select()
+    .single();
+
+  if (refundError?.code === '23505') {
+    // The same request ran twice at once; Stripe paid it out only once
+    await release();
+    throw new RefundError('This refund is already being processed', 409);
+  }
+  if (refundError) {
+    // The money has already moved at this point, so surface it loudly
+    console.error(`❌ Refund ${refundNumber} issued but not recorded:`, refundError);
+    throw new RefundError(`Refund issued but failed to record: ${refundError.message}`, 500);
+  }
+
+  if (selected.length > 0) {
+    const { error: itemsError } = await supabase
+      .from('refund_items')
+      .insert(selected.map(({ line, quantity, restock: restockLine }) => ({
+        refund_id: refund.id,
+        order_item_id: line.order_item_id,
+        product_id: line.product_id,
+        quantity,
+        amount: roundCurrency(line.unit_amount * quantity),
+        restocked: restockLine && !!line.product_id,
+      })));
+
+    if (itemsError) {
+      console.error(`❌ Failed to record lines for refund ${refundNumber}:`, itemsError);
+    }
+  }
+
+  for (const { line, quantity, restock: restockLine } of selected) {
+    if (!restockLine || !line.product_id) continue;
+    const { error: stockError } = await supabase.rpc('restock_product', {
+      product_id: line.product_id,
+      quantity,
+      variant_id: line.variant_id,
+      refund_id: refund.id,
+      created_by: request.processedBy || null,
+    });
+    if (stockError) {
+      console.error(`❌ Failed to restock ${line.name}:`, stockError);
+    }
+  }
+
+  const paymentStatus = await updateRefundStatus(supabase, order.id, totalRefunded, orderTotal);
+  const fullyRefunded = paymentStatus === 'refunded';
+
+  // Take back points earned on the refunded share and return redeemed ones
+  try {
+    await syncOrderLoyalty(supabase, order.id);
+  } catch (error) {
+    console.error(`❌ Failed to adjust loyalty points after refund ${refundNumber}:`, error);
+  }
+
+  // Keyed on the running total so the charge.refunded webhook for the same
+  // card refund does not email again
+  await sendOrderEmail(supabase, order.id, 'order_refunded', {
+    amount,
+    total_refunded: totalRefunded,
+    method,
+    fully_refunded: fullyRefunded,
+  }, `order_refunded:${order.id}:${totalRefunded.toFixed(2)}`).catch((error) => {
+    console.error(`❌ Failed to email refund ${refundNumber}:`, error);
+  });
+
+  return {
+    refund,
+    order_id: order.id,
+    amount,
+    method,
+    gift_card: giftCard,
+    payment_status: paymentStatus,
+    amount_refunded: totalRefunded,
+  };
+}
+
+export interface ReturnRequest {
+  orderId: string;
+  lines: RefundLineRequest[];
+  reason: ReturnReason;
+  note?: string;
+  method?: RefundMethod;
+  exchange?: boolean;
+  processedBy: string;
+  requestId: string;
+}
+
+/**
+ * A return taken at the till: selected lines only, always with a reason
+ */
+export async function createReturn(supabase: any, request: ReturnRequest, stripe?: Stripe) {
+  if (!RETURN_REASONS.includes(request.reason)) {
+    throw new RefundError('Choose why the items are being returned');
+  }
+  if (!Array.isArray(request.lines) || request.lines.length === 0) {
+    throw new RefundError('Pick the items being returned');
+  }
+
+  const note = String(request.note || '').trim();
+  return createRefund(supabase, {
+    orderId: request.orderId,
+    lines: request.lines,
+    reason: note ? `${request.reason}: ${note}` : request.reason,
+    method: request.method,
+    exchange: request.exchange,
+    processedBy: request.processedBy,
+    requestId: request.requestId,
+  }, stripe);
+}
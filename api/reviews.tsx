@@ -0,0 +1,320 @@
+// Product reviews.
+//
+// Only customers with a delivered order line for a product may review it, and
+// each customer has one review per product that they can edit. New and edited
+// reviews wait in a moderation queue; only approved reviews are shown and
+// counted. Whenever that set changes, recalculate_product_rating() refreshes
+// products.rating_average and rating_count.
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ReviewRequest {
+  rating: number;
+  title?: string;
+  text?: string;
+  photos?: string[];
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  breakdown: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export class ReviewError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ReviewError';
+  }
+}
+
+export const MAX_REVIEW_PHOTOS = 4;
+const MAX_TITLE_LENGTH = 255;
+const MAX_TEXT_LENGTH = 5000;
+const REVIEW_PAGE_SIZE = 20;
+
+const REVIEW_SELECT = 'id, product_id, customer_id, order_id, rating, title, review_text, photos, is_verified_purchase, status, rejection_reason, helpful_votes, created_at, updated_at';
+
+// Reviewers are shown by first name and last initial
+function reviewerName(profile: any): string {
+  if (!profile) return 'Customer';
+  const first = String(profile.first_name || '').trim();
+  const last = String(profile.last_name || '').trim();
+  if (!first) return 'Customer';
+  return last ? `${first} ${last[0]}.` : first;
+}
+
+/**
+ * The customer's delivered order containing the product, if any
+ */
+export async function findDeliveredOrder(supabase: any, customerId: string, productId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('order_items')
+    .select('order_id, orders!inner(id, customer_id, status)')
+    .eq('product_id', productId)
+    .eq('orders.customer_id', customerId)
+    .eq('orders.status', 'delivered')
+    .limit(1);
+
+  if (error) {
+    throw new ReviewError(`Failed to check purchase history: ${error.message}`, 500);
+  }
+
+  return data && data.length > 0 ? data[0].order_id : null;
+}
+
+async function getOwnReview(supabase: any, customerId: string, productId: string) {
+  const { data, error } = await supabase
+    .from('product_reviews')
+    .select(REVIEW_SELECT)
+    .eq('product_id', productId)
+    .eq('customer_id', customerId)
+    .order('created_at', { ascending: false })
+    .limit(1);
+
+  if (error) {
+    throw new ReviewError(`Failed to load review: ${error.message}`, 500);
+  }
+  return data && data.length > 0 ? data[0] : null;
+}
+
+export async function recalculateProductRating(supabase: any, productId: string) {
+  const { error } = await supabase.rpc('recalculate_product_rating', { product_id: productId });
+  if (error) {
+    throw new ReviewError(`Failed to update product rating: ${error.message}`, 500);
+  }
+}
+
+/**
+ * Whether the customer may review the product, and their existing review
+ */
+export async function getReviewEligibility(supabase: any, customerId: string, productId: string) {
+  const [orderId, review] = await Promise.all([
+    findDeliveredOrder(supabase, customerId, productId),
+    getOwnReview(supabase, customerId, productId),
+  ]);
+
+  return {
+    can_review: !!orderId,
+    reason: orderId ? null : 'Only customers who have received this product can review it',
+    review,
+  };
+}
+
+function validateReview(request: ReviewRequest) {
+  const rating = Math.floor(Number(request.rating));
+  if (!rating || rating < 1 || rating > 5) {
+    throw new ReviewError('Rating must be between 1 and 5 stars');
+  }
+
+  const title = String(request.title || '').trim();
+  const text = String(request.text || '').trim();
+  if (title.length > MAX_TITLE_LENGTH) {
+    throw new ReviewError(`Title must be at most ${MAX_TITLE_LENGTH} characters`);
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new ReviewError(`Review must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  const photos = Array.isArray(request.photos) ? request.photos.map(url => String(url).trim()).filter(Boolean) : [];
+  if (photos.length > MAX_REVIEW_PHOTOS) {
+    throw new ReviewError(`A review can have at most ${MAX_REVIEW_PHOTOS} photos`);
+  }
+  if (photos.some(url => !/^https:\/\//i.test(url))) {
+    throw new ReviewError('Review photos must be uploaded images');
+  }
+
+  return { rating, title: title || null, review_text: text || null, photos };
+}
+
+/**
+ * Create or replace the customer's review of a product. Either way it goes
+ * back to the moderation queue, so an approved review that is edited stops
+ * counting until it is approved again.
+ */
+export async function submitReview(supabase: any, customerId: string, productId: string, request: ReviewRequest) {
+  const fields = validateReview(request);
+
+  const orderId = await findDeliveredOrder(supabase, customerId, productId);
+  if (!orderId) {
+    throw new ReviewError('Only customers who have received this product can review it', 403);
+  }
+
+  const existing = await getOwnReview(supabase, customerId, productId);
+  const row = {
+    ...fields,
+    order_id: orderId,
+    is_verified_purchase: true,
+    status: 'pending' as ReviewStatus,
+    is_approved: false,
+    rejection_reason: null,
+    moderated_by: null,
+    moderated_at: null,
+    updated_at: new Date().toISOString(),
+  };
+
+  const { data: review, error } = existing
+    ? await supabase.from('product_reviews').update(row).eq('id', existing.id).select(REVIEW_SELECT).single()
+    : await supabase.from('product_reviews').insert({ ...row, product_id: productId, customer_id: customerId }).select(REVIEW_SELECT).single();
+
+  if (error) {
+    throw new ReviewError(`Failed to save review: ${error.message}`, 500);
+  }
+
+  if (existing?.status === 'approved') {
+    await recalculateProductRating(supabase, productId);
+  }
+
+  return review;
+}
+
+/**
+ * Approved reviews of a product, newest first, with the rating breakdown
+ */
+export async function listProductReviews(supabase: any, productId: string, page: number = 1) {
+  const from = (Math.max(1, page) - 1) * REVIEW_PAGE_SIZE;
+
+  const [{ data: reviews, error }, { data: ratings, error: ratingsError }] = await Promise.all([
+    supabase
+      .from('product_reviews')
+      .select(`${REVIEW_SELECT}, customer:user_profiles(first_name, last_name)`)
+      .eq('product_id', productId)
+      .eq('status', 'approved')
+      .order('created_at', { ascending: false })
+      .range(from, from + REVIEW_PAGE_SIZE - 1),
+    supabase
+      .from('product_reviews')
+      .select('rating')
+      .eq('product_id', productId)
+      .eq('status', 'approved'),
+  ]);
+
+  if (error || ratingsError) {
+    throw new ReviewError(`Failed to load reviews: ${(error || ratingsError).message}`, 500);
+  }
+
+  const summary: ReviewSummary = { average: 0, count: 0, breakdown: { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0 } };
+  for (const { rating } of ratings || []) {
+    const stars = Math.min(5, Math.max(1, Number(rating))) as 1 | 2 | 3 | 4 | 5;
+    summary.breakdown[stars] += 1;
+    summary.count += 1;
+    summary.average += stars;
+  }
+  summary.average = summary.count ? Math.round((summary.average / summary.count) * 100) / 100 : 0;
+
+  return {
+    summary,
+    reviews: (reviews || []).map(({ customer, customer_id, rejection_reason, ...review }: any) => ({
+      ...review,
+      reviewer_name: reviewerName(customer),
+    })),
+    page: Math.max(1, page),
+    has_more: (reviews || []).length === REVIEW_PAGE_SIZE,
+  };
+}
+
+const REVIEW_STATUSES: ReviewStatus[] = ['pending', 'approved', 'rejected'];
+
+/**
+ * A moderation status from a query string; pending when none is given
+ */
+export function parseReviewStatus(value: string | undefined): ReviewStatus {
+  if (!value) return 'pending';
+  const status = REVIEW_STATUSES.find(candidate => candidate === value);
+  if (!status) {
+    throw new ReviewError('Unknown review status');
+  }
+  return status;
+}
+
+/**
+ * Reviews waiting for (or past) moderation, oldest pending first
+ */
+export async function listReviewsForModeration(supabase: any, status: ReviewStatus = 'pending') {
+
+  const { data, error } = await supabase
+    .from('product_reviews')
+    .select(`${REVIEW_SELECT}, moderated_at, product:products(id, name, images), customer:user_profiles(first_name, last_name, email)`)
+    .eq('status', status)
+    .order('created_at', { ascending: status === 'pending' })
+    .limit(100);
+
+  if (error) {
+    throw new ReviewError(`Failed to load reviews: ${error.message}`, 500);
+  }
+
+  return (data || []).map((review: any) => ({
+    ...review,
+    reviewer_name: reviewerName(review.customer),
+    reviewer_email: review.customer?.email || null,
+  }));
+}
+
+export async function moderateReview(
+  supabase: any,
+  reviewId: string,
+  action: 'approve' | 'reject',
+  moderatorId: string,
+  reason?: string
+) {
+  if (action !== 'approve' && action !== 'reject') {
+    throw new ReviewError('Action must be approve or reject');
+  }
+  if (action === 'reject' && !String(reason || '').trim()) {
+    throw new ReviewError('Give a reason when rejecting a review');
+  }
+
+  const { data: review, error } = await supabase
+    .from('product_reviews')
+    .update({
+      status: action === 'approve' ? 'approved' : 'rejected',
+      is_approved: action === 'approve',
+      rejection_reason: action === 'reject' ? String(reason).trim() : null,
+      moderated_by: moderatorId,
+      moderated_at: new Date().toISOString(),
+    })
+    .eq('id', reviewId)
+    .select(REVIEW_SELECT)
+    .maybeSingle();
+
+  if (error) {
+    throw new ReviewError(`Failed to moderate review: ${error.message}`, 500);
+  }
+  if (!review) {
+    throw new ReviewError('Review not found', 404);
+  }
+
+  await recalculateProductRating(supabase, review.product_id);
+  return review;
+}
+
+/**
+ * Delete a review; customers may delete their own, moderators any
+ */
+export async function deleteReview(supabase: any, reviewId: string, userId: string, isModerator: boolean) {
+  const { data: review, error } = await supabase
+    .from('product_reviews')
+    .select('id, product_id, customer_id, status')
+    .eq('id', reviewId)
+    .maybeSingle();
+
+  if (error) {
+    throw new ReviewError(`Failed to load review: ${error.message}`, 500);
+  }
+  if (!review) {
+    throw new ReviewError('Review not found', 404);
+  }
+  if (review.customer_id !== userId && !isModerator) {
+    throw new ReviewError('You can only delete your own reviews', 403);
+  }
+
+  const { error: deleteError } = await supabase.from('product_reviews').delete().eq('id', reviewId);
+  if (deleteError) {
+    throw new ReviewError(`Failed to delete review: ${deleteError.message}`, 500);
+  }
+
+  if (review.status === 'approved') {
+    await recalculateProductRating(supabase, review.product_id);
+  }
+  return { id: reviewId };
+}
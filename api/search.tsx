@@ -0,0 +1,382 @@
+// Catalogue search for the products page.
+//
+// Matching, ranking and facet counts run in Postgres (search_products() in
+// ADD_PRODUCT_SEARCH.sql) over a weighted search document of name, brand,
+// SKU, barcode, tags, category and descriptions. This module turns the
+// shopper's words into a tsquery, widening each word with its synonym group
+// ("bleach" also finds "hypochlorite"), and hands back one page of products
+// with an opaque cursor for the next. Typos are caught in the database by
+// trigram similarity on the raw text.
+
+export type ProductSearchSort =
+  | 'relevance'
+  | 'featured'
+  | 'price-low'
+  | 'price-high'
+  | 'name'
+  | 'rating'
+  | 'newest'
+  | 'trending';
+
+export interface ProductSearchParams {
+  query?: string | null;
+  category?: string | null; // category name or slug
+  brand?: string | null;
+  min_price?: number | null;
+  max_price?: number | null;
+  in_stock?: boolean;
+  on_sale?: boolean;
+  featured?: boolean;
+  min_rating?: number | null;
+  sort?: string | null;
+  cursor?: string | null;
+  limit?: number | null;
+}
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetValue[];
+  brands: SearchFacetValue[];
+  price: {
+    min: number;
+    max: number;
+    buckets: { min: number; max: number | null; count: number }[];
+  };
+  in_stock: number;
+  on_sale: number;
+}
+
+export interface ProductSearchResult {
+  products: any[];
+  total: number;
+  next_cursor: string | null;
+  facets: SearchFacets;
+  sort: ProductSearchSort;
+}
+
+export class SearchError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SearchError';
+  }
+}
+
+const SORTS: ProductSearchSort[] = ['relevance', 'featured', 'price-low', 'price-high', 'name', 'rating', 'newest', 'trending'];
+const DEFAULT_PAGE_SIZE = 24;
+const MAX_PAGE_SIZE = 60;
+const MAX_QUERY_WORDS = 10;
+const SYNONYM_CACHE_MS = 5 * 60 * 1000;
+
+let synonymCache: { groups: string[][][]; loadedAt: number } | null = null;
+
+/**
+ * Lowercase, strip accents and split on anything that is not a letter or
+ * digit, so "Sodium-Hypochlorite 5L" becomes ["sodium", "hypochlorite", "5l"]
+ */
+export function searchWords(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 0 && word.length <= 40);
+}
+
+/**
+ * Synonym groups as word lists, e.g. [["bleach"], ["sodium", "hypochlorite"]].
+ * Cached briefly so every keystroke does not reread the table.
+ */
+async function getSynonymGroups(supabase: any): Promise<string[][][]> {
+  if (synonymCache && Date.now() - synonymCache.loadedAt < SYNONYM_CACHE_MS) {
+    return synonymCache.groups;
+  }
+
+  const { data, error } = await supabase.from('search_synonyms').select('terms');
+  if (error) {
+    // Search still works without synonyms, so a missing table is not fatal
+    console.error('❌ Error loading search synonyms:', error);
+    return synonymCache?.groups || [];
+  }
+
+  const groups = (data || [])
+    .map((row: any) => (row.terms || []).map((term: string) => searchWords(term)).filter((words: string[]) => words.length > 0))
+    .filter((group: string[][]) => group.length > 1);
+  synonymCache = { groups, loadedAt: Date.now() };
+  return groups;
+}
+
+const phrase = (words: string[]) => words.join(' <-> ');
+
+/**
+ * Build the tsquery text: every word (or synonym phrase) must match, and each
+ * may match any term in its synonym group. The shopper's own last word is a
+ * prefix so results appear while they are still typing.
+ */
+export function buildSearchQuery(words: string[], groups: string[][][]): string {
+  const clauses: string[] = [];
+
+  let i = 0;
+  while (i < words.length) {
+    // The longest synonym term that starts here, so "toilet paper" is one phrase
+    let match: { group: string[][]; length: number } | null = null;
+    for (const group of groups) {
+      for (const term of group) {
+        const fits = term.length <= words.length - i && term.every((word, offset) => words[i + offset] === word);
+        if (fits && (!match || term.length > match.length)) {
+          match = { group, length: term.length };
+        }
+      }
+    }
+
+    const length = match?.length || 1;
+    const own = words.slice(i, i + length);
+    const isLast = i + length >= words.length;
+    const alternatives = new Set<string>([own.length === 1 && isLast ? `${own[0]}:*` : phrase(own)]);
+    match?.group
+      .filter(term => phrase(term) !== phrase(own))
+      .forEach(term => alternatives.add(phrase(term)));
+
+    clauses.push(alternatives.size > 1 ? `(${Array.from(alternatives).join(' | ')})` : Array.from(alternatives)[0]);
+    i += length;
+  }
+
+  return clauses.join(' & ');
+}
+
+function encodeCursor(item: { n: string; t: string; id: string }): string {
+  return Buffer.from(JSON.stringify({ n: item.n, t: item.t, i: item.id })).toString('base64url');
+}
+
+function decodeCursor(cursor: string): { n: string; t: string; i: string } {
+  try {
+    const value = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (value && typeof value.n === 'string' && typeof value.t === 'string' && typeof value.i === 'string') {
+      return value;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new SearchError('That page of results has expired, please search again');
+}
+
+const optionalNumber = (value: any): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+// A numeric query parameter: absent is null, anything else must be a number in range
+function queryNumber(value: string | undefined, label: string, min: number, max = Infinity): number | null {
+  if (value === undefined || value.trim() === '') return null;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    const range = Number.isFinite(max) ? `from ${min} to ${max}` : `of ${min} or more`;
+    throw new SearchError(`${label} must be a number ${range}`);
+  }
+  return number;
+}
+
+/**
+ * Search parameters from the query string of GET /products/search
+ */
+export function parseSearchParams(query: Record<string, string | undefined>): ProductSearchParams {
+  const flag = (name: string) => query[name] === 'true';
+  const limit = queryNumber(query.limit, 'Page size', 1, MAX_PAGE_SIZE);
+  if (limit !== null && !Number.isInteger(limit)) {
+    throw new SearchError(`Page size must be a number from 1 to ${MAX_PAGE_SIZE}`);
+  }
+
+  return {
+    query: query.q || null,
+    category: query.category || null,
+    brand: query.brand || null,
+    min_price: queryNumber(query.min_price, 'Minimum price', 0),
+    max_price: queryNumber(query.max_price, 'Maximum price', 0),
+    in_stock: flag('in_stock'),
+    on_sale: flag('on_sale'),
+    featured: flag('featured'),
+    min_rating: queryNumber(query.rating, 'Rating', 0, 5),
+    sort: query.sort || null,
+    cursor: query.cursor || null,
+    limit,
+  };
+}
+
+/**
+ * One page of products matching the search and filters, with facet counts.
+ * Without a query the catalogue is browsed in the chosen order; relevance
+ * then falls back to featured first.
+ */
+export async function searchProducts(supabase: any, params: ProductSearchParams): Promise<ProductSearchResult> {
+  const words = searchWords(params.query || '').slice(0, MAX_QUERY_WORDS);
+  const requestedSort = SORTS.includes(params.sort as ProductSearchSort) ? (params.sort as ProductSearchSort) : 'relevance';
+  const sort: ProductSearchSort = requestedSort === 'relevance' && words.length === 0 ? 'featured' : requestedSort;
+  const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Math.floor(Number(params.limit) || DEFAULT_PAGE_SIZE)));
+
+  const minPrice = optionalNumber(params.min_price);
+  const maxPrice = optionalNumber(params.max_price);
+  if (minPrice !== null && maxPrice !== null && maxPrice < minPrice) {
+    throw new SearchError('The price range ends before it starts');
+  }
+
+  const filters: Record<string, any> = {};
+  if (params.category) filters.category = params.category;
+  if (params.brand) filters.brand = params.brand;
+  if (minPrice !== null) filters.min_price = minPrice;
+  if (maxPrice !== null) filters.max_price = maxPrice;
+  if (params.in_stock) filters.in_stock = true;
+  if (params.on_sale) filters.on_sale = true;
+  if (params.featured) filters.featured = true;
+  const minRating = optionalNumber(params.min_rating);
+  if (minRating !== null && minRating > 0) filters.min_rating = minRating;
+
+  const groups = words.length > 0 ? await getSynonymGroups(supabase) : [];
+
+  const { data, error } = await supabase.rpc('search_products', {
+    query: words.length > 0 ? buildSearchQuery(words, groups) : null,
+    fuzzy: words.length > 0 ? words.join(' ') : null,
+    filters,
+    sort,
+    after: params.cursor ? decodeCursor(params.cursor) : null,
+    page_size: pageSize,
+  });
+  if (error) {
+    throw new SearchError(`Search failed: ${error.message}`, 500);
+  }
+
+  const items: { id: string; n: string; t: string }[] = data?.items || [];
+  const ids = items.map(item => item.id);
+
+  let products: any[] = [];
+  if (ids.length > 0) {
+    const { data: rows, error: rowsError } = await supabase
+      .from('products')
+      .select('*, category:categories(id, name, slug, description)')
+      .in('id', ids);
+    if (rowsError) {
+      throw new SearchError(`Failed to load products: ${rowsError.message}`, 500);
+    }
+    // Keep the ranked order; the search document itself is not sent to the browser
+    const byId = new Map((rows || []).map((row: any) => {
+      const { search_vector, search_text, ...product } = row;
+      return [row.id, product];
+    }));
+    products = ids.map(id => byId.get(id)).filter(Boolean);
+  }
+
+  const last = items[items.length - 1];
+  return {
+    products,
+    total: Number(data?.total || 0),
+    next_cursor: data?.has_more && last ? encodeCursor(last) : null,
+    facets: data?.facets || { categories: [], brands: [], price: { min: 0, max: 0, buckets: [] }, in_stock: 0, on_sale: 0 },
+    sort,
+  };
+}
+
+export interface SearchSuggestions {
+  query: string;
+  products: {
+    id: string;
+    name: string;
+    price: number;
+    image_url: string | null;
+    in_stock: boolean;
+    stock_quantity: number;
+  }[];
+  categories: SearchFacetValue[];
+  brands: SearchFacetValue[];
+  queries: string[]; // popular searches that start with what was typed
+}
+
+const SUGGESTION_CACHE_MS = 60 * 1000;
+const SUGGESTION_CACHE_SIZE = 200;
+const suggestionCache = new Map<string, { suggestions: SearchSuggestions; cachedAt: number }>();
+
+async function popularQueries(supabase: any, prefix: string, limit: number): Promise<string[]> {
+  const { data, error } = await supabase.rpc('popular_search_queries', { prefix, max_results: limit });
+  if (error) {
+    // Suggestions still show products without the log
+    console.error('❌ Error loading popular searches:', error);
+    return [];
+  }
+  return (data || []).map((row: any) => row.query);
+}
+
+/**
+ * What the type-ahead shows for the text typed so far: the top few products,
+ * the categories and brands they fall in, and popular searches that start
+ * the same way. Empty text gets just the popular searches. Results are kept
+ * for a minute, as many shoppers type the same first letters.
+ */
+export async function getSearchSuggestions(supabase: any, text: string): Promise<SearchSuggestions> {
+  const normalized = searchWords(text).slice(0, MAX_QUERY_WORDS).join(' ');
+
+  const cached = suggestionCache.get(normalized);
+  if (cached && Date.now() - cached.cachedAt < SUGGESTION_CACHE_MS) {
+    return cached.suggestions;
+  }
+
+  let suggestions: SearchSuggestions;
+  if (!normalized) {
+    suggestions = { query: '', products: [], categories: [], brands: [], queries: await popularQueries(supabase, '', 5) };
+  } else {
+    const [result, queries] = await Promise.all([
+      searchProducts(supabase, { query: normalized, sort: 'relevance', limit: 5 }),
+      popularQueries(supabase, normalized, 4),
+    ]);
+    suggestions = {
+      query: normalized,
+      products: result.products.map(product => ({
+        id: product.id,
+        name: product.name,
+        price: Number(product.price),
+        image_url: product.images?.[0] || null,
+        in_stock: (product.stock_quantity || 0) > 0,
+        stock_quantity: product.stock_quantity || 0,
+      })),
+      categories: result.facets.categories.slice(0, 3),
+      brands: result.facets.brands.slice(0, 3),
+      queries: queries.filter(query => query !== normalized),
+    };
+  }
+
+  // Drop the oldest entry once full; Map keeps insertion order
+  suggestionCache.delete(normalized);
+  if (suggestionCache.size >= SUGGESTION_CACHE_SIZE) {
+    suggestionCache.delete(suggestionCache.keys().next().value as string);
+  }
+  suggestionCache.set(normalized, { suggestions, cachedAt: Date.now() });
+  return suggestions;
+}
+
+/**
+ * Record a search the shopper settled on. The result count is worked out
+ * here rather than trusted from the browser, since zero-result searches are
+ * what managers review.
+ */
+export async function logSearch(supabase: any, text: string, userId?: string | null): Promise<{ results_count: number }> {
+  const query = String(text || '').trim().slice(0, 100);
+  const normalized = searchWords(query).slice(0, MAX_QUERY_WORDS).join(' ').slice(0, 100);
+  if (!normalized) {
+    throw new SearchError('Nothing to log for an empty search');
+  }
+
+  const { total } = await searchProducts(supabase, { query: normalized, limit: 1 });
+
+  const { error } = await supabase.from('search_queries').insert({
+    query,
+    normalized,
+    results_count: total,
+    user_id: userId || null,
+  });
+  if (error) {
+    throw new SearchError(`Failed to log search: ${error.message}`, 500);
+  }
+
+  return { results_count: total };
+}
@@ -0,0 +1,385 @@
+import { getOrderTenders, sumTenders, TenderMethod } from './tenders.tsx';
+import { generateShiftNumber } from './utils.tsx';
+
+// Cashier shifts and cash-up.
+//
+// A cashier opens a shift by counting the float into the drawer. POS sales
+// carry the shift's id, and refunds and pay-ins/pay-outs are attributed to the
+// open shift of whoever handled the cash. The X-report is the running total of
+// an open shift; closing it with a denomination count freezes the figures as
+// the Z-report, with the variance between the cash the drawer should hold and
+// the cash counted. Managers review closed shifts.
+
+export type CashMovementType = 'pay_in' | 'pay_out';
+
+// South African notes and coins, in rand
+export const DENOMINATIONS = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1];
+
+export type DenominationCount = Record<string, number>;
+
+export interface OpenShiftRequest {
+  denominations?: DenominationCount;
+  opening_float?: number;
+}
+
+export interface CashMovementRequest {
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+}
+
+export interface CloseShiftRequest {
+  denominations: DenominationCount;
+  notes?: string;
+}
+
+export interface ShiftTotals {
+  sale_count: number;
+  gross_sales: number;
+  discounts: number;
+  cash_sales: number;
+  card_sales: number;
+  tenders: Record<TenderMethod, number>; // Applied per tender; loyalty is on top of gross sales
+  cash_tendered: number;
+  change_given: number;
+  refund_count: number;
+  cash_refunds: number;
+  card_refunds: number;
+  store_credit_refunds: number;
+  pay_ins: number;
+  pay_outs: number;
+  opening_float: number;
+  expected_cash: number;
+}
+
+export class ShiftError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ShiftError';
+  }
+}
+
+const SHIFT_SELECT = '*, cashier:user_profiles!cash_shifts_cashier_id_fkey(id, first_name, last_name, email)';
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const displayName = (profile: any) =>
+  profile ? [profile.first_name, profile.last_name].filter(Boolean).join(' ') || profile.email : null;
+
+/**
+ * Value of a note-and-coin count. Rejects denominations the till does not
+ * take and anything that is not a whole, non-negative number of pieces.
+ */
+export function countDenominations(denominations: DenominationCount): number {
+  if (!denominations || typeof denominations !== 'object') {
+    throw new ShiftError('Count the cash by denomination');
+  }
+
+  let total = 0;
+  for (const [denomination, pieces] of Object.entries(denominations)) {
+    const value = Number(denomination);
+    if (!DENOMINATIONS.includes(value)) {
+      throw new ShiftError(`R${denomination} is not a valid denomination`);
+    }
+    if (!Number.isInteger(pieces) || pieces < 0) {
+      throw new ShiftError(`The count for R${denomination} must be a whole number of zero or more`);
+    }
+    total += value * pieces;
+  }
+  return roundCurrency(total);
+}
+
+export async function getOpenShift(supabase: any, cashierId: string) {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select(SHIFT_SELECT)
+    .eq('cashier_id', cashierId)
+    .eq('status', 'open')
+    .maybeSingle();
+
+  if (error) {
+    throw new ShiftError(`Failed to load shift: ${error.message}`, 500);
+  }
+  return data;
+}
+
+/**
+ * The shift a refund or drawer movement by this user belongs to, if they
+ * have one open
+ */
+export async function getOpenShiftId(supabase: any, userId: string | null | undefined): Promise<string | null> {
+  if (!userId) return null;
+  const shift = await getOpenShift(supabase, userId);
+  return shift?.id || null;
+}
+
+/**
+ * Load a shift the user may act on: their own, or any shift for a manager
+ */
+async function loadShift(supabase: any, shiftId: string, userId: string, isManager: boolean) {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .select(SHIFT_SELECT)
+    .eq('id', shiftId)
+    .maybeSingle();
+
+  if (error) {
+    throw new ShiftError(`Failed to load shift: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new ShiftError('Shift not found', 404);
+  }
+  if (!isManager && data.cashier_id !== userId) {
+    throw new ShiftError('This shift belongs to another cashier', 403);
+  }
+  return data;
+}
+
+export async function openShift(supabase: any, cashierId: string, request: OpenShiftRequest) {
+  const openingFloat = request.denominations
+    ? countDenominations(request.denominations)
+    : roundCurrency(Number(request.opening_float));
+
+  if (!Number.isFinite(openingFloat) || openingFloat < 0) {
+    throw new ShiftError('Opening float must be zero or more');
+  }
+
+  if (await getOpenShift(supabase, cashierId)) {
+    throw new ShiftError('You already have a shift open; close it before starting another', 409);
+  }
+
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .insert({
+      shift_number: generateShiftNumber(),
+      cashier_id: cashierId,
+      status: 'open',
+      opening_float: openingFloat,
+      opening_denominations: request.denominations || null,
+    })
+    .select(SHIFT_SELECT)
+    .single();
+
+  if (error) {
+    // The one-open-shift index catches a second tab opening at the same time
+    if (error.code === '23505') {
+      throw new ShiftError('You already have a shift open; close it before starting another', 409);
+    }
+    throw new ShiftError(`Failed to open shift: ${error.message}`, 500);
+  }
+  return data;
+}
+
+export async function recordCashMovement(supabase: any, shiftId: string, userId: string, isManager: boolean, request: CashMovementRequest) {
+  const shift = await loadShift(supabase, shiftId, userId, isManager);
+  if (shift.status !== 'open') {
+    throw new ShiftError('Cash can only be moved on an open shift', 409);
+  }
+  if (request.movement_type !== 'pay_in' && request.movement_type !== 'pay_out') {
+    throw new ShiftError('Movement type must be pay_in or pay_out');
+  }
+
+  const amount = roundCurrency(Number(request.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new ShiftError('Amount must be more than zero');
+  }
+  const reason = String(request.reason || '').trim();
+  if (!reason) {
+    throw new ShiftError('Give a reason for the pay-in or pay-out');
+  }
+
+  const { data, error } = await supabase
+    .from('cash_movements')
+    .insert({
+      shift_id: shiftId,
+      movement_type: request.movement_type,
+      amount,
+      reason,
+      created_by: userId,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new ShiftError(`Failed to record ${request.movement_type.replace('_', '-')}: ${error.message}`, 500);
+  }
+  return data;
+}
+
+/**
+ * Add up everything the shift took and paid out so far
+ */
+async function calculateTotals(supabase: any, shift: any) {
+  const [ordersResult, refundsResult, movementsResult] = await Promise.all([
+    supabase
+      .from('orders')
+      .select('id, order_number, total, discount_amount, payment_method, payment_details, customer_info, status, created_at')
+      .eq('shift_id', shift.id)
+      .not('status', 'in', '(pending,cancelled)')
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('refunds')
+      .select('id, refund_number, order_id, amount, refund_method, created_at')
+      .eq('shift_id', shift.id)
+      .eq('status', 'completed'),
+    supabase
+      .from('cash_movements')
+      .select('*')
+      .eq('shift_id', shift.id)
+      .order('created_at'),
+  ]);
+
+  for (const result of [ordersResult, refundsResult, movementsResult]) {
+    if (result.error) {
+      throw new ShiftError(`Failed to total shift: ${result.error.message}`, 500);
+    }
+  }
+
+  const orders = ordersResult.data || [];
+  const refunds = refundsResult.data || [];
+  const movements = movementsResult.data || [];
+  const sum = (rows: any[], pick: (row: any) => number) => roundCurrency(rows.reduce((total, row) => total + (pick(row) || 0), 0));
+
+  // Only the cash part of a split sale goes into the drawer
+  const tenders = sumTenders(orders);
+  const cashTenders = orders.flatMap((order: any) => getOrderTenders(order).filter(tender => tender.method === 'cash'));
+
+  const totals: ShiftTotals = {
+    sale_count: orders.length,
+    gross_sales: sum(orders, order => Number(order.total)),
+    discounts: sum(orders, order => Number(order.discount_amount)),
+    cash_sales: tenders.cash,
+    card_sales: tenders.card,
+    tenders,
+    cash_tendered: sum(cashTenders, tender => Number(tender.tendered ?? tender.amount)),
+    change_given: sum(cashTenders, tender => Number(tender.change)),
+    refund_count: refunds.length,
+    cash_refunds: sum(refunds.filter((refund: any) => refund.refund_method === 'cash'), refund => Number(refund.amount)),
+    card_refunds: sum(refunds.filter((refund: any) => refund.refund_method === 'card'), refund => Number(refund.amount)),
+    store_credit_refunds: sum(refunds.filter((refund: any) => refund.refund_method === 'store_credit'), refund => Number(refund.amount)),
+    pay_ins: sum(movements.filter((movement: any) => movement.movement_type === 'pay_in'), movement => Number(movement.amount)),
+    pay_outs: sum(movements.filter((movement: any) => movement.movement_type === 'pay_out'), movement => Number(movement.amount)),
+    opening_float: Number(shift.opening_float),
+    expected_cash: 0,
+  };
+  totals.expected_cash = roundCurrency(
+    totals.opening_float + totals.cash_sales - totals.cash_refunds + totals.pay_ins - totals.pay_outs
+  );
+
+  return { totals, orders, refunds, movements };
+}
+
+/**
+ * X-report for an open shift (running totals) or Z-report for a closed one
+ * (the figures frozen when it was cashed up)
+ */
+export async function getShiftReport(supabase: any, shiftId: string, userId: string, isManager: boolean) {
+  const shift = await loadShift(supabase, shiftId, userId, isManager);
+  return buildReport(supabase, shift);
+}
+
+async function buildReport(supabase: any, shift: any) {
+  const { totals, orders, refunds, movements } = await calculateTotals(supabase, shift);
+  const closed = shift.status === 'closed';
+
+  return {
+    report_type: closed ? 'Z' : 'X',
+    generated_at: new Date().toISOString(),
+    shift: { ...shift, cashier_name: displayName(shift.cashier) },
+    totals: closed && shift.totals ? shift.totals : totals,
+    counted_cash: closed ? Number(shift.counted_cash) : null,
+    cash_variance: closed ? Number(shift.cash_variance) : null,
+    movements,
+    refunds,
+    recent_sales: orders.slice(0, 10),
+  };
+}
+
+/**
+ * Cash up: count the drawer, compare it with what it should hold and close
+ * the shift so nothing more is attributed to it
+ */
+export async function closeShift(supabase: any, shiftId: string, userId: string, isManager: boolean, request: CloseShiftRequest) {
+  const shift = await loadShift(supabase, shiftId, userId, isManager);
+  if (shift.status !== 'open') {
+    throw new ShiftError('This shift is already closed', 409);
+  }
+
+  const countedCash = countDenominations(request.denominations);
+  const { totals } = await calculateTotals(supabase, shift);
+
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .update({
+      status: 'closed',
+      closing_denominations: request.denominations,
+      counted_cash: countedCash,
+      expected_cash: totals.expected_cash,
+      cash_variance: roundCurrency(countedCash - totals.expected_cash),
+      totals,
+      closing_notes: String(request.notes || '').trim() || null,
+      closed_by: userId,
+      closed_at: new Date().toISOString(),
+    })
+    .eq('id', shiftId)
+    .eq('status', 'open')
+    .select(SHIFT_SELECT);
+
+  if (error) {
+    throw new ShiftError(`Failed to close shift: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new ShiftError('This shift is already closed', 409);
+  }
+
+  return buildReport(supabase, data[0]);
+}
+
+export async function listShifts(supabase: any, filters: { status?: string; from?: string; to?: string }) {
+  let query = supabase
+    .from('cash_shifts')
+    .select(SHIFT_SELECT)
+    .order('opened_at', { ascending: false })
+    .limit(100);
+
+  if (filters.status) {
+    query = query.eq('status', filters.status);
+  }
+  if (filters.from) {
+    query = query.gte('opened_at', filters.from);
+  }
+  if (filters.to) {
+    query = query.lte('opened_at', filters.to);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new ShiftError(`Failed to load shifts: ${error.message}`, 500);
+  }
+  return (data || []).map((shift: any) => ({ ...shift, cashier_name: displayName(shift.cashier) }));
+}
+
+/**
+ * A manager signs off a closed shift's cash-up
+ */
+export async function reviewShift(supabase: any, shiftId: string, managerId: string, notes?: string) {
+  const { data, error } = await supabase
+    .from('cash_shifts')
+    .update({
+      reviewed_by: managerId,
+      reviewed_at: new Date().toISOString(),
+      review_notes: String(notes || '').trim() || null,
+    })
+    .eq('id', shiftId)
+    .eq('status', 'closed')
+    .select(SHIFT_SELECT);
+
+  if (error) {
+    throw new ShiftError(`Failed to review shift: ${error.message}`, 500);
+  }
+  if (!data || data.length === 0) {
+    throw new ShiftError('Only a closed shift can be reviewed', 409);
+  }
+
+  return buildReport(supabase, data[0]);
+}
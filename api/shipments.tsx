@@ -0,0 +1,358 @@
+import { notifyOrderStatus, sendOrderEmail } from './emails.tsx';
+
+// Shipments and order tracking.
+//
+// Staff record each parcel handed to a courier with its tracking number and
+// the order lines (and quantities) inside it, so an order can go out in
+// several parcels. The order's fulfillment status follows what has shipped:
+// partial until every line is in a parcel, then fulfilled and shipped. Once
+// every parcel is delivered the order is too. Status changes themselves are
+// recorded in `order_status_history` by a trigger on orders (ADD_SHIPMENTS.sql,
+// and RECORD_ORDER_STATUS_CHANGE in sql-functions.tsx), which together with
+// the shipments makes the timeline customers see on their order and on the
+// public tracking page.
+
+export type ShipmentStatus = 'shipped' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'returned';
+
+export interface ShipmentInput {
+  courier: string;
+  tracking_number: string;
+  tracking_url?: string | null;
+  items?: { order_item_id: string; quantity: number }[]; // Everything not yet shipped when left out
+}
+
+export interface Shipment {
+  id: string;
+  courier: string;
+  tracking_number: string;
+  tracking_url: string | null;
+  status: ShipmentStatus;
+  shipped_at: string;
+  delivered_at: string | null;
+  items: { order_item_id: string; name: string; quantity: number }[];
+}
+
+export interface OrderStatusChange {
+  status: string;
+  previous_status: string | null;
+  fulfillment_status: string | null;
+  created_at: string;
+}
+
+export interface OrderTracking {
+  order_id: string;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  fulfillment_status: string | null;
+  fulfillment_method: string;
+  created_at: string;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  destination: string | null; // Town and province only, never the street address
+  items: { order_item_id: string; name: string; quantity: number; shipped: number }[];
+  shipments: Shipment[];
+  history: OrderStatusChange[];
+}
+
+export class ShipmentError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ShipmentError';
+  }
+}
+
+export const SHIPMENT_STATUSES: ShipmentStatus[] = ['shipped', 'in_transit', 'out_for_delivery', 'delivered', 'returned'];
+
+const STAFF_ROLES = ['cashier', 'staff', 'manager', 'admin'];
+const SHIPPABLE_PAYMENT_STATUSES = ['paid', 'partially_refunded'];
+
+const ORDER_COLUMNS = `
+  id, order_number, status, payment_status, fulfillment_status, fulfillment_method,
+  created_at, shipped_at, delivered_at, customer_id, customer_email, billing_address, shipping_address,
+  order_items (id, quantity, product_snapshot),
+  shipments (*, shipment_items (order_item_id, quantity))
+`;
+
+async function loadOrder(supabase: any, column: 'id' | 'order_number', value: string | string[]) {
+  const query = supabase.from('orders').select(ORDER_COLUMNS);
+  const { data, error } = await (Array.isArray(value) ? query.in(column, value) : query.eq(column, value)).limit(1);
+  if (error) {
+    throw new ShipmentError(`Failed to load order: ${error.message}`, 500);
+  }
+  return data?.[0] || null;
+}
+
+const itemName = (item: any) => item.product_snapshot?.name || item.product_name || 'Item';
+
+function shippedQuantities(order: any): Map<string, number> {
+  const shipped = new Map<string, number>();
+  for (const shipment of order.shipments || []) {
+    if (shipment.status === 'returned') continue;
+    for (const line of shipment.shipment_items || []) {
+      shipped.set(line.order_item_id, (shipped.get(line.order_item_id) || 0) + Number(line.quantity));
+    }
+  }
+  return shipped;
+}
+
+async function buildTracking(supabase: any, order: any): Promise<OrderTracking> {
+  const { data: history, error } = await supabase
+    .from('order_status_history')
+    .select('status, previous_status, fulfillment_status, created_at')
+    .eq('order_id', order.id)
+    .order('created_at');
+  if (error) {
+    throw new ShipmentError(`Failed to load order history: ${error.message}`, 500);
+  }
+
+  const names = new Map<string, string>((order.order_items || []).map((item: any) => [item.id, itemName(item)]));
+  const shipped = shippedQuantities(order);
+  const address = order.shipping_address || order.billing_address || {};
+
+  return {
+    order_id: order.id,
+    order_number: order.order_number,
+    status: order.status,
+    payment_status: order.payment_status,
+    fulfillment_status: order.fulfillment_status || null,
+    fulfillment_method: order.fulfillment_method || 'delivery',
+    created_at: order.created_at,
+    shipped_at: order.shipped_at || null,
+    delivered_at: order.delivered_at || null,
+    destination: [address.city, address.province || address.state].filter(Boolean).join(', ') || null,
+    items: (order.order_items || []).map((item: any) => ({
+      order_item_id: item.id,
+      name: itemName(item),
+      quantity: Number(item.quantity),
+      shipped: shipped.get(item.id) || 0,
+    })),
+    shipments: [...(order.shipments || [])]
+      .sort((a: any, b: any) => new Date(a.shipped_at).getTime() - new Date(b.shipped_at).getTime())
+      .map((shipment: any) => ({
+        id: shipment.id,
+        courier: shipment.courier,
+        tracking_number: shipment.tracking_number,
+        tracking_url: shipment.tracking_url || null,
+        status: shipment.status,
+        shipped_at: shipment.shipped_at,
+        delivered_at: shipment.delivered_at || null,
+        items: (shipment.shipment_items || []).map((line: any) => ({
+          order_item_id: line.order_item_id,
+          name: names.get(line.order_item_id) || 'Item',
+          quantity: Number(line.quantity),
+        })),
+      })),
+    history: history || [],
+  };
+}
+
+/**
+ * Shipments and status history for an order. Customers may only see their
+ * own orders'.
+ */
+export async function getOrderTracking(supabase: any, orderId: string, requester?: { id: string; role: string }): Promise<OrderTracking> {
+  const order = await loadOrder(supabase, 'id', orderId);
+  if (!order || (requester && !STAFF_ROLES.includes(requester.role) && order.customer_id !== requester.id)) {
+    throw new ShipmentError('Order not found', 404);
+  }
+  return buildTracking(supabase, order);
+}
+
+/**
+ * Tracking for someone without an account, or not signed in: the order
+ * number and the email it was placed with must both match. Either being
+ * wrong gets the same answer, so the form cannot be used to find out which
+ * order numbers exist.
+ */
+export async function trackOrder(supabase: any, orderNumber: string, email: string): Promise<OrderTracking> {
+  const number = String(orderNumber || '').trim();
+  const address = String(email || '').trim().toLowerCase();
+  if (!number || !address) {
+    throw new ShipmentError('Enter your order number and the email address you ordered with');
+  }
+
+  const notFound = new ShipmentError("We couldn't find an order with that number and email address", 404);
+  const order = await loadOrder(supabase, 'order_number', Array.from(new Set([number, number.toUpperCase(), number.toLowerCase()])));
+  if (!order) throw notFound;
+
+  const emails = [order.customer_email, order.billing_address?.email, order.shipping_address?.email];
+  if (order.customer_id) {
+    const { data: profile } = await supabase.from('user_profiles').select('email').eq('id', order.customer_id).maybeSingle();
+    emails.push(profile?.email);
+  }
+  if (!emails.some(value => typeof value === 'string' && value.trim().toLowerCase() === address)) {
+    throw notFound;
+  }
+
+  return buildTracking(supabase, order);
+}
+
+function sendShipmentEmail(supabase: any, order: any, shipment: Shipment): Promise<boolean> {
+  return sendOrderEmail(supabase, order.id, 'order_shipped', {
+    courier: shipment.courier,
+    tracking_number: shipment.tracking_number,
+    tracking_url: shipment.tracking_url,
+    items: shipment.items.map(item => ({ name: item.name, quantity: item.quantity })),
+  }, `order_shipped:${shipment.id}`);
+}
+
+/**
+ * Record a parcel handed to the courier and email the customer its tracking
+ * number. Without a list of lines, everything not yet shipped goes in it.
+ */
+export async function createShipment(
+  supabase: any,
+  orderId: string,
+  userId: string,
+  input: ShipmentInput
+): Promise<{ tracking: OrderTracking; notified: boolean }> {
+  const courier = String(input.courier || '').trim();
+  const trackingNumber = String(input.tracking_number || '').trim();
+  const trackingUrl = String(input.tracking_url || '').trim() || null;
+  if (!courier || courier.length > 50) {
+    throw new ShipmentError('Enter the courier, up to 50 characters');
+  }
+  if (!trackingNumber || trackingNumber.length > 100) {
+    throw new ShipmentError('Enter the tracking number, up to 100 characters');
+  }
+  if (trackingUrl && !/^https?:\/\//i.test(trackingUrl)) {
+    throw new ShipmentError('The tracking link must start with http:// or https://');
+  }
+
+  const order = await loadOrder(supabase, 'id', orderId);
+  if (!order) {
+    throw new ShipmentError('Order not found', 404);
+  }
+  if (order.fulfillment_method === 'collect') {
+    throw new ShipmentError(`Order ${order.order_number} is collected in store, not shipped`, 409);
+  }
+  if (!SHIPPABLE_PAYMENT_STATUSES.includes(order.payment_status)) {
+    throw new ShipmentError(`Order ${order.order_number} is ${order.payment_status}; only paid orders are shipped`, 409);
+  }
+  if (['cancelled', 'refunded', 'delivered'].includes(order.status)) {
+    throw new ShipmentError(`Order ${order.order_number} is ${order.status}`, 409);
+  }
+
+  const shipped = shippedQuantities(order);
+  const remaining = new Map<string, number>(
+    (order.order_items || []).map((item: any) => [item.id, Number(item.quantity) - (shipped.get(item.id) || 0)])
+  );
+
+  const requested = input.items
+    ? input.items.filter(line => Number(line.quantity) > 0)
+    : Array.from(remaining.entries())
+        .filter(([, quantity]) => quantity > 0)
+        .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+  if (requested.length === 0) {
+    throw new ShipmentError(
+      input.items ? 'Choose at least one item to ship' : `Everything on order ${order.order_number} has already shipped`,
+      input.items ? 400 : 409
+    );
+  }
+
+  for (const line of requested) {
+    const left = remaining.get(line.order_item_id);
+    if (left === undefined) {
+      throw new ShipmentError('One of the items is not on this order');
+    }
+    if (!Number.isInteger(Number(line.quantity)) || Number(line.quantity) > left) {
+      throw new ShipmentError(`Only ${left} of an item are left to ship`);
+    }
+    remaining.set(line.order_item_id, left - Number(line.quantity));
+  }
+
+  const { data: shipment, error: shipmentError } = await supabase
+    .from('shipments')
+    .insert({
+      order_id: order.id,
+      courier,
+      tracking_number: trackingNumber,
+      tracking_url: trackingUrl,
+      created_by: userId,
+    })
+    .select()
+    .single();
+  if (shipmentError) {
+    throw new ShipmentError(`Failed to record shipment: ${shipmentError.message}`, 500);
+  }
+
+  const { error: itemsError } = await supabase.from('shipment_items').insert(
+    requested.map(line => ({ shipment_id: shipment.id, order_item_id: line.order_item_id, quantity: Number(line.quantity) }))
+  );
+  if (itemsError) {
+    await supabase.from('shipments').delete().eq('id', shipment.id);
+    throw new ShipmentError(`Failed to record shipped items: ${itemsError.message}`, 500);
+  }
+
+  const allShipped = Array.from(remaining.values()).every(quantity => quantity <= 0);
+  const now = new Date().toISOString();
+  const { error: orderError } = await supabase
+    .from('orders')
+    .update({
+      status: allShipped ? 'shipped' : 'processing',
+      fulfillment_status: allShipped ? 'fulfilled' : 'partial',
+      shipped_at: order.shipped_at || now,
+      updated_at: now,
+    })
+    .eq('id', order.id);
+  if (orderError) {
+    throw new ShipmentError(`Shipment recorded, but the order could not be updated: ${orderError.message}`, 500);
+  }
+
+  const tracking = await getOrderTracking(supabase, order.id);
+  const recorded = tracking.shipments.find(item => item.id === shipment.id)!;
+  const notified = await sendShipmentEmail(supabase, order, recorded).catch((error) => {
+    console.error(`❌ Error emailing tracking for ${order.order_number}:`, error);
+    return false;
+  });
+
+  return { tracking, notified };
+}
+
+/**
+ * Move a parcel along as the courier reports it. When the last parcel of a
+ * fully shipped order is delivered, the order is marked delivered.
+ */
+export async function updateShipmentStatus(supabase: any, shipmentId: string, status: ShipmentStatus): Promise<OrderTracking> {
+  if (!SHIPMENT_STATUSES.includes(status)) {
+    throw new ShipmentError(`Shipment status must be one of: ${SHIPMENT_STATUSES.join(', ')}`);
+  }
+
+  const now = new Date().toISOString();
+  const { data: shipment, error } = await supabase
+    .from('shipments')
+    .update({ status, delivered_at: status === 'delivered' ? now : null })
+    .eq('id', shipmentId)
+    .select('order_id')
+    .maybeSingle();
+  if (error) {
+    throw new ShipmentError(`Failed to update shipment: ${error.message}`, 500);
+  }
+  if (!shipment) {
+    throw new ShipmentError('Shipment not found', 404);
+  }
+
+  const tracking = await getOrderTracking(supabase, shipment.order_id);
+  const parcels = tracking.shipments.filter(item => item.status !== 'returned');
+  const everythingDelivered =
+    tracking.fulfillment_status === 'fulfilled' &&
+    parcels.length > 0 &&
+    parcels.every(item => item.status === 'delivered') &&
+    tracking.status !== 'delivered';
+  if (!everythingDelivered) {
+    return tracking;
+  }
+
+  const { error: orderError } = await supabase
+    .from('orders')
+    .update({ status: 'delivered', delivered_at: now, updated_at: now })
+    .eq('id', shipment.order_id);
+  if (orderError) {
+    throw new ShipmentError(`Shipment updated, but the order could not be marked delivered: ${orderError.message}`, 500);
+  }
+  await notifyOrderStatus(supabase, shipment.order_id).catch((error) => {
+    console.error(`❌ Error emailing delivery of ${tracking.order_number}:`, error);
+  });
+  return getOrderTracking(supabase, shipment.order_id);
+}
@@ -0,0 +1,224 @@
+// Delivery pricing for online orders.
+//
+// Managers keep zones (by postal code or province), methods (standard,
+// express, collect in store) and rate tables by parcel weight and order value.
+// The pricing quote asks this module which methods reach the customer's
+// address and what each costs, so the browser never sets the delivery fee.
+// Until any zones are set up, checkout keeps the old flat rule: standard
+// delivery everywhere, free over the threshold.
+
+export type ShippingMethodType = 'standard' | 'express' | 'collect';
+
+export interface ShippingDestination {
+  province?: string | null;
+  postal_code?: string | null;
+}
+
+export interface ShippingParcelLine {
+  product: any;
+  variant?: any;
+  quantity: number;
+}
+
+export interface ShippingOption {
+  method_id: string | null; // null for the built-in rule used before zones are set up
+  code: string;
+  name: string;
+  description: string | null;
+  type: ShippingMethodType;
+  amount: number;
+  free: boolean;
+  min_days: number;
+  max_days: number;
+}
+
+export interface ShippingQuote {
+  zone_id: string | null;
+  zone_name: string | null;
+  weight_kg: number;
+  requires_shipping: boolean;
+  options: ShippingOption[];
+  selected: ShippingOption | null;
+}
+
+export interface ShippingQuoteRequest {
+  destination?: ShippingDestination | null;
+  lines: ShippingParcelLine[];
+  orderValue: number; // After discounts, before loyalty points
+  freeShipping?: boolean; // Granted by a promotion
+  methodId?: string | null;
+  fallbackFee: number;
+  fallbackThreshold: number;
+}
+
+export class ShippingError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ShippingError';
+  }
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Postal code rules are an exact code ("8001"), a prefix ("80*") or an inclusive range ("7400-7999")
+export function matchesPostalCode(rule: string, postalCode: string): boolean {
+  const pattern = String(rule || '').trim();
+  const code = String(postalCode || '').trim();
+  if (!pattern || !code) return false;
+
+  if (pattern.endsWith('*')) {
+    return code.startsWith(pattern.slice(0, -1));
+  }
+  const range = pattern.match(/^(\d+)\s*-\s*(\d+)$/);
+  if (range) {
+    const value = Number(code);
+    return /^\d+$/.test(code) && value >= Number(range[1]) && value <= Number(range[2]);
+  }
+  return pattern === code;
+}
+
+/**
+ * The zone an address falls in. A postal code rule beats a province, and a
+ * province beats the catch-all zone (one with neither); ties go to the lower
+ * priority number.
+ */
+export function findZone(zones: any[], destination: ShippingDestination | null | undefined): any | null {
+  const province = String(destination?.province || '').trim().toLowerCase();
+  const postalCode = String(destination?.postal_code || '').trim();
+  const byPriority = [...zones].sort((a, b) => Number(a.priority || 0) - Number(b.priority || 0));
+
+  return byPriority.find(zone => postalCode && (zone.postal_codes || []).some((rule: string) => matchesPostalCode(rule, postalCode)))
+    || byPriority.find(zone => province && (zone.provinces || []).some((name: string) => String(name).trim().toLowerCase() === province))
+    || byPriority.find(zone => (zone.postal_codes || []).length === 0 && (zone.provinces || []).length === 0)
+    || null;
+}
+
+function parcelWeight(lines: ShippingParcelLine[]): number {
+  const weight = lines
+    .filter(line => line.product?.requires_shipping !== false)
+    .reduce((sum, line) => {
+      const each = Number(line.variant?.weight ?? line.product?.weight ?? line.product?.weight_kg ?? 0);
+      return sum + each * line.quantity;
+    }, 0);
+  return Math.round(weight * 1000) / 1000;
+}
+
+const inBand = (value: number, min: any, max: any) =>
+  value >= Number(min || 0) && (max === null || max === undefined || value <= Number(max));
+
+/**
+ * Delivery options for a parcel going to an address, and the one the
+ * customer picked (or the cheapest delivery when they have not picked yet).
+ */
+export async function quoteShipping(supabase: any, request: ShippingQuoteRequest): Promise<ShippingQuote> {
+  const requiresShipping = request.lines.some(line => line.product?.requires_shipping !== false);
+  const weight = parcelWeight(request.lines);
+  const orderValue = roundCurrency(request.orderValue);
+
+  if (!requiresShipping) {
+    return { zone_id: null, zone_name: null, weight_kg: 0, requires_shipping: false, options: [], selected: null };
+  }
+
+  const [zonesResult, methodsResult] = await Promise.all([
+    supabase.from('shipping_zones').select('*').eq('is_active', true),
+    supabase.from('shipping_methods').select('*').eq('is_active', true).order('sort_order'),
+  ]);
+  if (zonesResult.error) {
+    throw new ShippingError(`Failed to load shipping zones: ${zonesResult.error.message}`, 500);
+  }
+  if (methodsResult.error) {
+    throw new ShippingError(`Failed to load shipping methods: ${methodsResult.error.message}`, 500);
+  }
+
+  const zones = zonesResult.data || [];
+  const methods = methodsResult.data || [];
+  let zone: any = null;
+  let options: ShippingOption[];
+
+  if (zones.length === 0) {
+    const free = !!request.freeShipping || orderValue >= request.fallbackThreshold;
+    options = [{
+      method_id: null,
+      code: 'standard',
+      name: 'Standard delivery',
+      description: null,
+      type: 'standard',
+      amount: free ? 0 : request.fallbackFee,
+      free,
+      min_days: 3,
+      max_days: 5,
+    }];
+  } else {
+    zone = findZone(zones, request.destination);
+
+    let rates: any[] = [];
+    if (zone) {
+      const { data, error } = await supabase.from('shipping_rates').select('*').eq('zone_id', zone.id);
+      if (error) {
+        throw new ShippingError(`Failed to load shipping rates: ${error.message}`, 500);
+      }
+      rates = data || [];
+    }
+
+    const zoneFree = zone?.free_shipping_threshold != null && orderValue >= Number(zone.free_shipping_threshold);
+    const extraDays = Number(zone?.additional_days || 0);
+
+    options = [];
+    for (const method of methods) {
+      const option = {
+        method_id: method.id,
+        code: method.code,
+        name: method.name,
+        description: method.description || null,
+        type: method.method_type as ShippingMethodType,
+        min_days: Number(method.min_days || 0),
+        max_days: Number(method.max_days || method.min_days || 0),
+      };
+
+      // Collection does not travel, so it is free and offered wherever the customer lives
+      if (method.method_type === 'collect') {
+        options.push({ ...option, amount: 0, free: true });
+        continue;
+      }
+      if (!zone) continue;
+
+      const matching = rates.filter(rate =>
+        rate.method_id === method.id &&
+        inBand(weight, rate.min_weight_kg, rate.max_weight_kg) &&
+        inBand(orderValue, rate.min_order_value, rate.max_order_value)
+      );
+      if (matching.length === 0) continue;
+
+      const price = Math.min(...matching.map(rate => Number(rate.price)));
+      // Free-shipping offers cover standard delivery; express is still charged
+      const free = price === 0 || (method.method_type === 'standard' && (zoneFree || !!request.freeShipping));
+      options.push({
+        ...option,
+        amount: free ? 0 : roundCurrency(price),
+        free,
+        min_days: option.min_days + extraDays,
+        max_days: option.max_days + extraDays,
+      });
+    }
+  }
+
+  let selected: ShippingOption | null;
+  if (request.methodId) {
+    selected = options.find(option => option.method_id === request.methodId) || null;
+    if (!selected) {
+      throw new ShippingError('The selected delivery method is not available for this address', 409);
+    }
+  } else {
+    const delivery = options.filter(option => option.type !== 'collect');
+    selected = [...(delivery.length > 0 ? delivery : options)].sort((a, b) => a.amount - b.amount)[0] || null;
+  }
+
+  return {
+    zone_id: zone?.id || null,
+    zone_name: zone?.name || null,
+    weight_kg: weight,
+    requires_shipping: true,
+    options,
+    selected,
+  };
+}
@@ -326,6 +326,110 @@ export const SQL_FUNCTIONS = {
     $$ LANGUAGE plpgsql;
   `,
 
+  // Move a product's or variant's stock and record the movement in the ledger.
+  // Returns NULL, changing nothing, when a decrease would take stock below zero.
+  RECORD_STOCK_MOVEMENT: `
+    CREATE OR REPLACE FUNCTION record_stock_movement(
+      product_id UUID,
+      quantity_change INTEGER,
+      movement_type VARCHAR,
+      variant_id UUID DEFAULT NULL,
+      reason TEXT DEFAULT NULL,
+      reference_type VARCHAR DEFAULT NULL,
+      reference_id UUID DEFAULT NULL,
+      created_by UUID DEFAULT NULL,
+      allow_negative BOOLEAN DEFAULT FALSE
+    ) RETURNS stock_movements AS $$
+    DECLARE
+      new_quantity INTEGER;
+      result stock_movements;
+    BEGIN
+      IF record_stock_movement.variant_id IS NOT NULL THEN
+        UPDATE product_variants v
+        SET stock_quantity = COALESCE(v.stock_quantity, 0) + record_stock_movement.quantity_change,
+            updated_at = NOW()
+        WHERE v.id = record_stock_movement.variant_id
+          AND v.product_id = record_stock_movement.product_id
+          AND (record_stock_movement.allow_negative
+               OR COALESCE(v.stock_quantity, 0) + record_stock_movement.quantity_change >= 0)
+        RETURNING v.stock_quantity INTO new_quantity;
+      ELSE
+        UPDATE products p
+        SET stock_quantity = COALESCE(p.stock_quantity, 0) + record_stock_movement.quantity_change,
+            updated_at = NOW()
+        WHERE p.id = record_stock_movement.product_id
+          AND (record_stock_movement.allow_negative
+               OR COALESCE(p.stock_quantity, 0) + record_stock_movement.quantity_change >= 0)
+        RETURNING p.stock_quantity INTO new_quantity;
+      END IF;
+
+      IF NOT FOUND THEN
+        RETURN NULL;
+      END IF;
+
+      INSERT INTO stock_movements (
+        product_id, variant_id, movement_type, quantity_change, quantity_after,
+        reason, reference_type, reference_id, created_by
+      ) VALUES (
+        record_stock_movement.product_id,
+        record_stock_movement.variant_id,
+        record_stock_movement.movement_type,
+        record_stock_movement.quantity_change,
+        new_quantity,
+        record_stock_movement.reason,
+        record_stock_movement.reference_type,
+        record_stock_movement.reference_id,
+        record_stock_movement.created_by
+      )
+      RETURNING * INTO result;
+
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // The ledger is append-only; new products and variants open it with their
+  // starting stock
+  STOCK_MOVEMENT_GUARDS: `
+    CREATE OR REPLACE FUNCTION prevent_stock_movement_update() RETURNS TRIGGER AS $$
+    BEGIN
+      RAISE EXCEPTION 'Stock movements cannot be changed; record a correcting movement instead';
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS stock_movements_append_only ON stock_movements;
+    CREATE TRIGGER stock_movements_append_only
+      BEFORE UPDATE ON stock_movements
+      FOR EACH ROW EXECUTE FUNCTION prevent_stock_movement_update();
+
+    CREATE OR REPLACE FUNCTION record_opening_stock() RETURNS TRIGGER AS $$
+    BEGIN
+      IF COALESCE(NEW.stock_quantity, 0) = 0 THEN
+        RETURN NULL;
+      END IF;
+
+      IF TG_TABLE_NAME = 'product_variants' THEN
+        INSERT INTO stock_movements (product_id, variant_id, movement_type, quantity_change, quantity_after, reason)
+        VALUES (NEW.product_id, NEW.id, 'opening_balance', NEW.stock_quantity, NEW.stock_quantity, 'Stock when created');
+      ELSE
+        INSERT INTO stock_movements (product_id, movement_type, quantity_change, quantity_after, reason)
+        VALUES (NEW.id, 'opening_balance', NEW.stock_quantity, NEW.stock_quantity, 'Stock when created');
+      END IF;
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS products_opening_stock ON products;
+    CREATE TRIGGER products_opening_stock
+      AFTER INSERT ON products
+      FOR EACH ROW EXECUTE FUNCTION record_opening_stock();
+
+    DROP TRIGGER IF EXISTS product_variants_opening_stock ON product_variants;
+    CREATE TRIGGER product_variants_opening_stock
+      AFTER INSERT ON product_variants
+      FOR EACH ROW EXECUTE FUNCTION record_opening_stock();
+  `,
+
   // Update Stock Levels
   UPDATE_STOCK_LEVELS: `
     CREATE OR REPLACE FUNCTION update_stock_levels(
@@ -333,22 +437,34 @@ export const SQL_FUNCTIONS = {
     ) RETURNS BOOLEAN AS $$
     DECLARE
       item_record RECORD;
+      sale_type VARCHAR;
       success BOOLEAN := true;
     BEGIN
-      -- Update stock for each order item
+      SELECT CASE WHEN o.channel::TEXT = 'pos' THEN 'pos_sale' ELSE 'sale' END INTO sale_type
+      FROM orders o
+      WHERE o.id = update_stock_levels.order_id;
+
+      -- Take stock for each order item; variant lines draw on the variant,
+      -- whose trigger keeps the parent product's total in step. The order is
+      -- paid and the goods sold, so a line may take stock below zero; FALSE
+      -- when a line's product or variant no longer exists.
       FOR item_record IN 
-        SELECT product_id, quantity
+        SELECT product_id, variant_id, quantity
         FROM order_items
         WHERE order_id = update_stock_levels.order_id
           AND product_id IS NOT NULL
       LOOP
-        UPDATE products
-        SET stock_quantity = stock_quantity - item_record.quantity
-        WHERE id = item_record.product_id
-          AND stock_quantity >= item_record.quantity;
-        
-        -- Check if update was successful
-        IF NOT FOUND THEN
+        IF record_stock_movement(
+          item_record.product_id,
+          -item_record.quantity,
+          COALESCE(sale_type, 'sale'),
+          item_record.variant_id,
+          NULL,
+          'order',
+          update_stock_levels.order_id,
+          NULL,
+          TRUE
+        ) IS NULL THEN
           success := false;
         END IF;
       END LOOP;
@@ -356,6 +472,841 @@ export const SQL_FUNCTIONS = {
       RETURN success;
     END;
     $$ LANGUAGE plpgsql;
+  `,
+
+  // Put returned units back on the shelf (used by refunds)
+  RESTOCK_PRODUCT: `
+    DROP FUNCTION IF EXISTS restock_product(UUID, INTEGER);
+    DROP FUNCTION IF EXISTS restock_product(UUID, INTEGER, UUID);
+    CREATE OR REPLACE FUNCTION restock_product(
+      product_id UUID,
+      quantity INTEGER,
+      variant_id UUID DEFAULT NULL,
+      refund_id UUID DEFAULT NULL,
+      created_by UUID DEFAULT NULL
+    ) RETURNS INTEGER AS $$
+    DECLARE
+      movement stock_movements;
+    BEGIN
+      movement := record_stock_movement(
+        restock_product.product_id,
+        restock_product.quantity,
+        'refund_return',
+        restock_product.variant_id,
+        NULL,
+        'refund',
+        restock_product.refund_id,
+        restock_product.created_by,
+        true
+      );
+      
+      RETURN movement.quantity_after;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Compare each stock-holding product and variant with the sum of its ledger
+  STOCK_RECONCILIATION: `
+    CREATE OR REPLACE FUNCTION stock_reconciliation()
+    RETURNS TABLE (
+      product_id UUID,
+      variant_id UUID,
+      name TEXT,
+      sku TEXT,
+      stock_quantity INTEGER,
+      ledger_quantity INTEGER,
+      difference INTEGER
+    ) AS $$
+    BEGIN
+      RETURN QUERY
+      SELECT p.id, NULL::UUID, p.name::TEXT, p.sku::TEXT,
+             COALESCE(p.stock_quantity, 0),
+             COALESCE(m.total, 0)::INTEGER,
+             (COALESCE(p.stock_quantity, 0) - COALESCE(m.total, 0))::INTEGER
+      FROM products p
+      LEFT JOIN (
+        SELECT sm.product_id, SUM(sm.quantity_change) AS total
+        FROM stock_movements sm
+        WHERE sm.variant_id IS NULL
+        GROUP BY sm.product_id
+      ) m ON m.product_id = p.id
+      WHERE COALESCE(p.has_variants, false) = false
+      UNION ALL
+      SELECT v.product_id, v.id, (p.name || ' (' || v.name || ')')::TEXT, v.sku::TEXT,
+             COALESCE(v.stock_quantity, 0),
+             COALESCE(m.total, 0)::INTEGER,
+             (COALESCE(v.stock_quantity, 0) - COALESCE(m.total, 0))::INTEGER
+      FROM product_variants v
+      JOIN products p ON p.id = v.product_id
+      LEFT JOIN (
+        SELECT sm.variant_id, SUM(sm.quantity_change) AS total
+        FROM stock_movements sm
+        WHERE sm.variant_id IS NOT NULL
+        GROUP BY sm.variant_id
+      ) m ON m.variant_id = v.id;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Receive units of a purchase order line: stock goes up through the ledger,
+  // cost_price moves to the weighted average of stock on hand and the landed
+  // cost, and the receipt is kept in product_cost_history. Returns NULL when
+  // the order is not open for receiving or the line has fewer units outstanding.
+  RECEIVE_PURCHASE_ORDER_ITEM: `
+    CREATE OR REPLACE FUNCTION receive_purchase_order_item(
+      item_id UUID,
+      quantity INTEGER,
+      landed_unit_cost DECIMAL,
+      received_by UUID DEFAULT NULL
+    ) RETURNS product_cost_history AS $$
+    DECLARE
+      line purchase_order_items;
+      po purchase_orders;
+      on_hand INTEGER;
+      cost_before DECIMAL;
+      cost_after DECIMAL;
+      movement stock_movements;
+      result product_cost_history;
+    BEGIN
+      IF receive_purchase_order_item.quantity <= 0 THEN
+        RETURN NULL;
+      END IF;
+
+      UPDATE purchase_order_items i
+      SET quantity_received = i.quantity_received + receive_purchase_order_item.quantity,
+          updated_at = NOW()
+      WHERE i.id = receive_purchase_order_item.item_id
+        AND i.quantity_received + receive_purchase_order_item.quantity <= i.quantity_ordered
+        AND EXISTS (
+          SELECT 1 FROM purchase_orders o
+          WHERE o.id = i.purchase_order_id AND o.status IN ('sent', 'partially_received')
+        )
+      RETURNING * INTO line;
+
+      IF NOT FOUND THEN
+        RETURN NULL;
+      END IF;
+
+      SELECT * INTO po FROM purchase_orders WHERE id = line.purchase_order_id;
+
+      SELECT COALESCE(p.stock_quantity, 0), p.cost_price INTO on_hand, cost_before
+      FROM products p
+      WHERE p.id = line.product_id
+      FOR UPDATE;
+
+      IF cost_before IS NULL OR on_hand <= 0 THEN
+        cost_after := receive_purchase_order_item.landed_unit_cost;
+      ELSE
+        cost_after := (on_hand * cost_before + receive_purchase_order_item.quantity * receive_purchase_order_item.landed_unit_cost)
+          / (on_hand + receive_purchase_order_item.quantity);
+      END IF;
+
+      movement := record_stock_movement(
+        line.product_id,
+        receive_purchase_order_item.quantity,
+        'receiving',
+        line.variant_id,
+        'Received on ' || po.po_number,
+        'purchase_order',
+        po.id,
+        receive_purchase_order_item.received_by
+      );
+
+      IF movement.id IS NULL THEN
+        RAISE EXCEPTION 'Could not record received stock for purchase order line %', line.id;
+      END IF;
+
+      UPDATE products SET cost_price = ROUND(cost_after, 2), updated_at = NOW()
+      WHERE id = line.product_id;
+
+      INSERT INTO product_cost_history (
+        product_id, variant_id, purchase_order_id, purchase_order_item_id, supplier_id,
+        quantity, unit_cost, landed_unit_cost, cost_price_before, cost_price_after, received_by
+      ) VALUES (
+        line.product_id,
+        line.variant_id,
+        po.id,
+        line.id,
+        po.supplier_id,
+        receive_purchase_order_item.quantity,
+        line.unit_cost,
+        ROUND(receive_purchase_order_item.landed_unit_cost, 4),
+        cost_before,
+        ROUND(cost_after, 2),
+        receive_purchase_order_item.received_by
+      )
+      RETURNING * INTO result;
+
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Add to an order's refunded total and its lines' refunded quantities only
+  // while they stay within what was paid and sold; NULL, changing nothing,
+  // when they would go over. Negative amounts release a reservation.
+  RESERVE_ORDER_REFUND: `
+    DROP FUNCTION IF EXISTS reserve_order_refund(UUID, DECIMAL, DECIMAL);
+    CREATE OR REPLACE FUNCTION reserve_order_refund(
+      order_id UUID,
+      amount DECIMAL,
+      order_total DECIMAL,
+      lines JSONB DEFAULT '[]'
+    ) RETURNS DECIMAL AS $$
+    DECLARE
+      new_total DECIMAL;
+    BEGIN
+      -- Lock the order so refunds against it check their lines one at a time
+      PERFORM 1 FROM orders o WHERE o.id = reserve_order_refund.order_id FOR UPDATE;
+
+      IF EXISTS (
+        SELECT 1
+        FROM (
+          SELECT l.order_item_id, SUM(l.quantity) AS quantity
+          FROM jsonb_to_recordset(reserve_order_refund.lines) AS l(order_item_id UUID, quantity INTEGER)
+          GROUP BY l.order_item_id
+        ) requested
+        LEFT JOIN order_items i
+          ON i.id = requested.order_item_id AND i.order_id = reserve_order_refund.order_id
+        WHERE i.id IS NULL
+           OR COALESCE(i.refunded_quantity, 0) + requested.quantity < 0
+           OR COALESCE(i.refunded_quantity, 0) + requested.quantity > i.quantity
+      ) THEN
+        RETURN NULL;
+      END IF;
+
+      UPDATE orders
+      SET amount_refunded = COALESCE(amount_refunded, 0) + reserve_order_refund.amount,
+          updated_at = NOW()
+      WHERE id = reserve_order_refund.order_id
+        AND COALESCE(amount_refunded, 0) + reserve_order_refund.amount >= 0
+        AND COALESCE(amount_refunded, 0) + reserve_order_refund.amount <= reserve_order_refund.order_total
+      RETURNING amount_refunded INTO new_total;
+
+      IF new_total IS NULL THEN
+        RETURN NULL;
+      END IF;
+
+      UPDATE order_items i
+      SET refunded_quantity = COALESCE(i.refunded_quantity, 0) + requested.quantity
+      FROM (
+        SELECT l.order_item_id, SUM(l.quantity) AS quantity
+        FROM jsonb_to_recordset(reserve_order_refund.lines) AS l(order_item_id UUID, quantity INTEGER)
+        GROUP BY l.order_item_id
+      ) requested
+      WHERE i.id = requested.order_item_id
+        AND i.order_id = reserve_order_refund.order_id;
+
+      RETURN new_total;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Customers create their own orders, but only the payment webhook (service
+  // role) and till staff may say one is paid
+  ORDER_PAYMENT_GUARD: `
+    CREATE OR REPLACE FUNCTION force_customer_orders_pending() RETURNS TRIGGER AS $$
+    BEGIN
+      IF auth.role() IN ('anon', 'authenticated') AND NOT EXISTS (
+        SELECT 1 FROM user_profiles WHERE id = auth.uid() AND role IN ('cashier', 'staff', 'manager', 'admin')
+      ) THEN
+        NEW.payment_status := 'pending';
+        NEW.status := 'pending';
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+    DROP TRIGGER IF EXISTS orders_force_customer_pending ON orders;
+    CREATE TRIGGER orders_force_customer_pending
+      BEFORE INSERT ON orders
+      FOR EACH ROW EXECUTE FUNCTION force_customer_orders_pending();
+  `,
+
+  // Count bundles sold once an order is paid
+  INCREMENT_COMBO_PURCHASES: `
+    CREATE OR REPLACE FUNCTION increment_combo_purchases(
+      combo_id UUID,
+      quantity INTEGER
+    ) RETURNS INTEGER AS $$
+    DECLARE
+      new_total INTEGER;
+    BEGIN
+      UPDATE combos
+      SET times_purchased = COALESCE(times_purchased, 0) + increment_combo_purchases.quantity,
+          updated_at = NOW()
+      WHERE id = increment_combo_purchases.combo_id
+      RETURNING times_purchased INTO new_total;
+      
+      RETURN new_total;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Count one use of a promotion on a paid order; FALSE when the order was
+  // already counted
+  RECORD_PROMOTION_USAGE: `
+    CREATE OR REPLACE FUNCTION record_promotion_usage(
+      promotion_id UUID,
+      order_id UUID,
+      customer_id UUID,
+      discount_applied DECIMAL
+    ) RETURNS BOOLEAN AS $$
+    #variable_conflict use_column
+    DECLARE
+      usage_id UUID;
+    BEGIN
+      INSERT INTO customer_promotions_usage (customer_id, promotion_id, order_id, usage_count, discount_applied)
+      VALUES (
+        record_promotion_usage.customer_id,
+        record_promotion_usage.promotion_id,
+        record_promotion_usage.order_id,
+        1,
+        record_promotion_usage.discount_applied
+      )
+      ON CONFLICT (promotion_id, order_id) DO NOTHING
+      RETURNING id INTO usage_id;
+
+      IF usage_id IS NULL THEN
+        RETURN FALSE;
+      END IF;
+
+      -- Promotions from the older schema count their uses in current_usage_count
+      IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'promotions' AND column_name = 'times_used'
+      ) THEN
+        UPDATE promotions
+        SET times_used = COALESCE(times_used, 0) + 1, updated_at = NOW()
+        WHERE id = record_promotion_usage.promotion_id;
+      ELSE
+        UPDATE promotions
+        SET current_usage_count = COALESCE(current_usage_count, 0) + 1, updated_at = NOW()
+        WHERE id = record_promotion_usage.promotion_id;
+      END IF;
+
+      RETURN TRUE;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Record a loyalty points change and move the member's balance with it.
+  // Returns NULL when the same (type, reference) was already recorded.
+  APPLY_LOYALTY_TRANSACTION: `
+    CREATE OR REPLACE FUNCTION apply_loyalty_transaction(
+      customer_id UUID,
+      transaction_type VARCHAR,
+      points INTEGER,
+      reference VARCHAR,
+      order_id UUID DEFAULT NULL,
+      description TEXT DEFAULT NULL,
+      expires_at TIMESTAMP DEFAULT NULL,
+      clamp BOOLEAN DEFAULT FALSE
+    ) RETURNS loyalty_transactions AS $$
+    DECLARE
+      current_balance INTEGER;
+      applied_points INTEGER := apply_loyalty_transaction.points;
+      result loyalty_transactions;
+    BEGIN
+      SELECT COALESCE(p.loyalty_points, 0) INTO current_balance
+      FROM user_profiles p
+      WHERE p.id = apply_loyalty_transaction.customer_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Loyalty member % not found', apply_loyalty_transaction.customer_id;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM loyalty_transactions lt
+        WHERE lt.type = apply_loyalty_transaction.transaction_type
+          AND lt.reference = apply_loyalty_transaction.reference
+      ) THEN
+        RETURN NULL;
+      END IF;
+
+      IF current_balance + applied_points < 0 THEN
+        IF apply_loyalty_transaction.clamp THEN
+          applied_points := -current_balance;
+        ELSE
+          RAISE EXCEPTION 'Insufficient loyalty points: balance %, requested %', current_balance, -applied_points;
+        END IF;
+      END IF;
+
+      IF applied_points = 0 THEN
+        RETURN NULL;
+      END IF;
+
+      -- The balance guard lets this one update through
+      PERFORM set_config('loyalty.applying_transaction', 'on', true);
+      UPDATE user_profiles
+      SET loyalty_points = current_balance + applied_points,
+          updated_at = NOW()
+      WHERE id = apply_loyalty_transaction.customer_id;
+      PERFORM set_config('loyalty.applying_transaction', 'off', true);
+
+      INSERT INTO loyalty_transactions (
+        customer_id, order_id, type, points, balance_after, reference, description, expires_at
+      ) VALUES (
+        apply_loyalty_transaction.customer_id,
+        apply_loyalty_transaction.order_id,
+        apply_loyalty_transaction.transaction_type,
+        applied_points,
+        current_balance + applied_points,
+        apply_loyalty_transaction.reference,
+        apply_loyalty_transaction.description,
+        apply_loyalty_transaction.expires_at
+      )
+      RETURNING * INTO result;
+
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // A member's balance only moves with a ledger entry, through
+  // apply_loyalty_transaction; profile updates from anywhere else may not touch it
+  LOYALTY_BALANCE_GUARD: `
+    CREATE OR REPLACE FUNCTION prevent_loyalty_balance_update() RETURNS TRIGGER AS $$
+    BEGIN
+      IF NEW.loyalty_points IS DISTINCT FROM OLD.loyalty_points
+         AND COALESCE(current_setting('loyalty.applying_transaction', true), 'off') <> 'on' THEN
+        RAISE EXCEPTION 'Loyalty points can only be changed through a loyalty transaction';
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS user_profiles_loyalty_balance_guard ON user_profiles;
+    CREATE TRIGGER user_profiles_loyalty_balance_guard
+      BEFORE UPDATE OF loyalty_points ON user_profiles
+      FOR EACH ROW EXECUTE FUNCTION prevent_loyalty_balance_update();
+  `,
+
+  // Move a gift card's balance and record the change. Redemptions are
+  // negative and fail rather than take the balance below zero. Returns NULL
+  // when the same (type, reference) was already recorded for the card.
+  APPLY_GIFT_CARD_TRANSACTION: `
+    CREATE OR REPLACE FUNCTION apply_gift_card_transaction(
+      gift_card_id UUID,
+      transaction_type VARCHAR,
+      amount DECIMAL,
+      reference VARCHAR,
+      order_id UUID DEFAULT NULL,
+      created_by UUID DEFAULT NULL
+    ) RETURNS gift_card_transactions AS $$
+    DECLARE
+      card gift_cards;
+      result gift_card_transactions;
+    BEGIN
+      SELECT * INTO card
+      FROM gift_cards g
+      WHERE g.id = apply_gift_card_transaction.gift_card_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Gift card % not found', apply_gift_card_transaction.gift_card_id;
+      END IF;
+
+      IF EXISTS (
+        SELECT 1 FROM gift_card_transactions t
+        WHERE t.gift_card_id = apply_gift_card_transaction.gift_card_id
+          AND t.transaction_type = apply_gift_card_transaction.transaction_type
+          AND t.reference = apply_gift_card_transaction.reference
+      ) THEN
+        RETURN NULL;
+      END IF;
+
+      IF card.balance + apply_gift_card_transaction.amount < 0 THEN
+        RAISE EXCEPTION 'Insufficient gift card balance: balance %, requested %', card.balance, -apply_gift_card_transaction.amount;
+      END IF;
+
+      UPDATE gift_cards
+      SET balance = card.balance + apply_gift_card_transaction.amount,
+          updated_at = NOW()
+      WHERE id = card.id;
+
+      INSERT INTO gift_card_transactions (
+        gift_card_id, transaction_type, amount, balance_after, reference, order_id, created_by
+      ) VALUES (
+        card.id,
+        apply_gift_card_transaction.transaction_type,
+        apply_gift_card_transaction.amount,
+        card.balance + apply_gift_card_transaction.amount,
+        apply_gift_card_transaction.reference,
+        apply_gift_card_transaction.order_id,
+        apply_gift_card_transaction.created_by
+      )
+      RETURNING * INTO result;
+
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Issue an order's tax invoice with the next number. The counter row is
+  // locked and moved in the same transaction as the insert, so a failure
+  // leaves no gap. Returns the existing invoice if the order already has one.
+  ISSUE_TAX_INVOICE: `
+    CREATE OR REPLACE FUNCTION issue_tax_invoice(
+      order_id UUID,
+      invoice JSONB
+    ) RETURNS tax_invoices AS $$
+    DECLARE
+      next_number BIGINT;
+      result tax_invoices;
+    BEGIN
+      SELECT * INTO result FROM tax_invoices t WHERE t.order_id = issue_tax_invoice.order_id;
+      IF FOUND THEN
+        RETURN result;
+      END IF;
+
+      UPDATE invoice_sequence
+      SET last_number = last_number + 1
+      WHERE id = 1
+      RETURNING last_number INTO next_number;
+
+      IF next_number IS NULL THEN
+        RAISE EXCEPTION 'Invoice sequence is not set up';
+      END IF;
+
+      INSERT INTO tax_invoices (
+        invoice_number, sequence_number, order_id, order_number, seller, buyer, lines,
+        discount_amount, total_excl_vat, vat_amount, total_incl_vat
+      ) VALUES (
+        'INV-' || LPAD(next_number::TEXT, 6, '0'),
+        next_number,
+        issue_tax_invoice.order_id,
+        issue_tax_invoice.invoice->>'order_number',
+        issue_tax_invoice.invoice->'seller',
+        issue_tax_invoice.invoice->'buyer',
+        issue_tax_invoice.invoice->'lines',
+        (issue_tax_invoice.invoice->>'discount_amount')::DECIMAL,
+        (issue_tax_invoice.invoice->>'total_excl_vat')::DECIMAL,
+        (issue_tax_invoice.invoice->>'vat_amount')::DECIMAL,
+        (issue_tax_invoice.invoice->>'total_incl_vat')::DECIMAL
+      )
+      RETURNING * INTO result;
+
+      RETURN result;
+    EXCEPTION WHEN unique_violation THEN
+      -- Issued by a concurrent request; its number stands and ours is rolled back
+      SELECT * INTO result FROM tax_invoices t WHERE t.order_id = issue_tax_invoice.order_id;
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Keep a product's stock at the sum of its active variants' stock
+  SYNC_PRODUCT_VARIANT_STOCK: `
+    CREATE OR REPLACE FUNCTION sync_product_variant_stock() RETURNS TRIGGER AS $$
+    DECLARE
+      parent_id UUID := COALESCE(NEW.product_id, OLD.product_id);
+    BEGIN
+      UPDATE products
+      SET stock_quantity = (
+            SELECT COALESCE(SUM(v.stock_quantity), 0)
+            FROM product_variants v
+            WHERE v.product_id = parent_id
+              AND v.is_active = true
+          ),
+          has_variants = EXISTS (
+            SELECT 1 FROM product_variants v WHERE v.product_id = parent_id
+          ),
+          updated_at = NOW()
+      WHERE id = parent_id;
+
+      IF TG_OP = 'UPDATE' AND OLD.product_id <> NEW.product_id THEN
+        UPDATE products
+        SET stock_quantity = (
+              SELECT COALESCE(SUM(v.stock_quantity), 0)
+              FROM product_variants v
+              WHERE v.product_id = OLD.product_id
+                AND v.is_active = true
+            ),
+            updated_at = NOW()
+        WHERE id = OLD.product_id;
+      END IF;
+
+      RETURN NULL;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS product_variants_sync_stock ON product_variants;
+    CREATE TRIGGER product_variants_sync_stock
+      AFTER INSERT OR UPDATE OR DELETE ON product_variants
+      FOR EACH ROW EXECUTE FUNCTION sync_product_variant_stock();
+  `,
+
+  // Refresh a product's rating from its approved reviews
+  RECALCULATE_PRODUCT_RATING: `
+    CREATE OR REPLACE FUNCTION recalculate_product_rating(
+      product_id UUID
+    ) RETURNS VOID AS $$
+    BEGIN
+      UPDATE products p
+      SET rating_average = COALESCE(r.average, 0),
+          rating_count = COALESCE(r.total, 0),
+          updated_at = NOW()
+      FROM (
+        SELECT ROUND(AVG(rating)::numeric, 2) AS average, COUNT(*) AS total
+        FROM product_reviews
+        WHERE product_reviews.product_id = recalculate_product_rating.product_id
+          AND status = 'approved'
+      ) r
+      WHERE p.id = recalculate_product_rating.product_id;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // A product's search document: name, brand, SKU and barcode rank highest,
+  // then tags and category, then the descriptions, plus the short text typos
+  // are matched against. Kept current by a trigger; products not yet indexed
+  // are indexed without touching updated_at.
+  PRODUCT_SEARCH_DOCUMENT: `
+    CREATE OR REPLACE FUNCTION product_search_vector(p products) RETURNS TSVECTOR AS $$
+      SELECT
+        setweight(to_tsvector('english', COALESCE(p.name, '')), 'A') ||
+        setweight(to_tsvector('simple', concat_ws(' ', p.brand, p.sku, p.barcode)), 'A') ||
+        setweight(to_tsvector('english', COALESCE(array_to_string(p.tags, ' '), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE((SELECT c.name FROM categories c WHERE c.id = p.category_id), '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(p.short_description, '')), 'C') ||
+        setweight(to_tsvector('english', COALESCE(p.description, '')), 'D');
+    $$ LANGUAGE sql STABLE;
+
+    CREATE OR REPLACE FUNCTION product_search_text(p products) RETURNS TEXT AS $$
+      SELECT lower(concat_ws(' ', p.name, p.brand, p.sku, p.barcode, array_to_string(p.tags, ' ')));
+    $$ LANGUAGE sql IMMUTABLE;
+
+    CREATE OR REPLACE FUNCTION update_product_search_document() RETURNS TRIGGER AS $$
+    BEGIN
+      NEW.search_vector := product_search_vector(NEW);
+      NEW.search_text := product_search_text(NEW);
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql;
+
+    DROP TRIGGER IF EXISTS update_products_search_document ON products;
+    CREATE TRIGGER update_products_search_document
+      BEFORE INSERT OR UPDATE ON products
+      FOR EACH ROW EXECUTE FUNCTION update_product_search_document();
+
+    ALTER TABLE products DISABLE TRIGGER update_products_updated_at;
+    UPDATE products p
+    SET search_vector = product_search_vector(p),
+        search_text = product_search_text(p)
+    WHERE p.search_vector IS NULL;
+    ALTER TABLE products ENABLE TRIGGER update_products_updated_at;
+  `,
+
+  // One page of matching products with facet counts for the filter panel.
+  // query is the server-built tsquery, fuzzy the raw text for trigram typo
+  // matching; pages follow a keyset (see ADD_PRODUCT_SEARCH.sql)
+  SEARCH_PRODUCTS: `
+    CREATE OR REPLACE FUNCTION search_products(
+      query TEXT,
+      fuzzy TEXT,
+      filters JSONB DEFAULT '{}',
+      sort TEXT DEFAULT 'relevance',
+      after JSONB DEFAULT NULL,
+      page_size INTEGER DEFAULT 24
+    ) RETURNS JSONB AS $$
+    DECLARE
+      tsq TSQUERY := CASE WHEN COALESCE(query, '') = '' THEN NULL ELSE to_tsquery('english', query) END;
+      term TEXT := NULLIF(lower(trim(COALESCE(fuzzy, ''))), '');
+      result JSONB;
+    BEGIN
+      PERFORM set_config('pg_trgm.word_similarity_threshold', '0.5', true);
+
+      WITH matched AS (
+        SELECT
+          p.id, p.name, p.brand, p.price, p.compare_at_price, p.stock_quantity,
+          p.is_featured, p.rating_average, p.rating_count, p.created_at,
+          c.name AS category,
+          (CASE WHEN tsq IS NULL THEN 0 ELSE ts_rank(p.search_vector, tsq) END
+            + CASE WHEN term IS NULL THEN 0 ELSE word_similarity(term, p.search_text) * 0.5 END
+            + CASE WHEN term IS NOT NULL AND (lower(p.sku) = term OR p.barcode = term) THEN 10 ELSE 0 END
+          )::NUMERIC AS rank,
+          (filters->>'category' IS NULL OR c.name = filters->>'category' OR c.slug = filters->>'category') AS in_category,
+          (filters->>'brand' IS NULL OR p.brand = filters->>'brand') AS in_brand,
+          ((filters->>'min_price' IS NULL OR p.price >= (filters->>'min_price')::DECIMAL)
+            AND (filters->>'max_price' IS NULL OR p.price <= (filters->>'max_price')::DECIMAL)) AS in_price,
+          (NOT COALESCE((filters->>'in_stock')::BOOLEAN, FALSE) OR COALESCE(p.stock_quantity, 0) > 0) AS in_stock,
+          (NOT COALESCE((filters->>'on_sale')::BOOLEAN, FALSE) OR p.compare_at_price > p.price) AS on_sale,
+          (filters->>'min_rating' IS NULL OR COALESCE(p.rating_average, 0) >= (filters->>'min_rating')::DECIMAL) AS in_rating
+        FROM products p
+        LEFT JOIN categories c ON c.id = p.category_id
+        WHERE COALESCE(p.is_active, TRUE)
+          AND COALESCE(p.status::TEXT, 'active') NOT IN ('inactive', 'discontinued')
+          AND (NOT COALESCE((filters->>'featured')::BOOLEAN, FALSE) OR p.is_featured)
+          AND (
+            (tsq IS NULL AND term IS NULL)
+            OR (tsq IS NOT NULL AND p.search_vector @@ tsq)
+            OR (term IS NOT NULL AND (term <% p.search_text OR lower(p.sku) = term OR p.barcode = term))
+          )
+      ),
+      results AS (
+        SELECT
+          m.*,
+          (CASE sort
+            WHEN 'price-low' THEN -m.price
+            WHEN 'price-high' THEN m.price
+            WHEN 'rating' THEN COALESCE(m.rating_average, 0) * 100000 + COALESCE(m.rating_count, 0)
+            WHEN 'trending' THEN COALESCE(m.rating_count, 0)
+            WHEN 'newest' THEN EXTRACT(EPOCH FROM m.created_at)::NUMERIC
+            WHEN 'name' THEN 0
+            WHEN 'featured' THEN COALESCE(m.is_featured, FALSE)::INTEGER * 100 + m.rank
+            ELSE m.rank
+          END)::NUMERIC AS sort_num,
+          lower(m.name) AS sort_text
+        FROM matched m
+        WHERE m.in_category AND m.in_brand AND m.in_price AND m.in_stock AND m.on_sale AND m.in_rating
+      ),
+      page AS (
+        SELECT r.id, r.rank, r.sort_num, r.sort_text
+        FROM results r
+        WHERE after IS NULL
+          OR r.sort_num < (after->>'n')::NUMERIC
+          OR (r.sort_num = (after->>'n')::NUMERIC AND (
+            r.sort_text > after->>'t'
+            OR (r.sort_text = after->>'t' AND r.id > (after->>'i')::UUID)
+          ))
+        ORDER BY r.sort_num DESC, r.sort_text, r.id
+        LIMIT page_size + 1
+      )
+      SELECT jsonb_build_object(
+        'total', (SELECT COUNT(*) FROM results),
+        'items', COALESCE((
+          SELECT jsonb_agg(jsonb_build_object('id', pg.id, 'rank', pg.rank, 'n', pg.sort_num::TEXT, 't', pg.sort_text)
+            ORDER BY pg.sort_num DESC, pg.sort_text, pg.id)
+          FROM (SELECT * FROM page ORDER BY sort_num DESC, sort_text, id LIMIT page_size) pg
+        ), '[]'::JSONB),
+        'has_more', (SELECT COUNT(*) FROM page) > page_size,
+        'facets', jsonb_build_object(
+          'categories', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('value', f.category, 'count', f.n) ORDER BY f.n DESC, f.category)
+            FROM (
+              SELECT category, COUNT(*) AS n FROM matched
+              WHERE category IS NOT NULL AND in_brand AND in_price AND in_stock AND on_sale AND in_rating
+              GROUP BY category
+            ) f
+          ), '[]'::JSONB),
+          'brands', COALESCE((
+            SELECT jsonb_agg(jsonb_build_object('value', f.brand, 'count', f.n) ORDER BY f.n DESC, f.brand)
+            FROM (
+              SELECT brand, COUNT(*) AS n FROM matched
+              WHERE brand IS NOT NULL AND brand <> '' AND in_category AND in_price AND in_stock AND on_sale AND in_rating
+              GROUP BY brand
+            ) f
+          ), '[]'::JSONB),
+          'price', (
+            SELECT jsonb_build_object(
+              'min', COALESCE(MIN(price), 0),
+              'max', COALESCE(MAX(price), 0),
+              'buckets', jsonb_build_array(
+                jsonb_build_object('min', 0, 'max', 50, 'count', COUNT(*) FILTER (WHERE price < 50)),
+                jsonb_build_object('min', 50, 'max', 100, 'count', COUNT(*) FILTER (WHERE price >= 50 AND price < 100)),
+                jsonb_build_object('min', 100, 'max', 250, 'count', COUNT(*) FILTER (WHERE price >= 100 AND price < 250)),
+                jsonb_build_object('min', 250, 'max', 500, 'count', COUNT(*) FILTER (WHERE price >= 250 AND price < 500)),
+                jsonb_build_object('min', 500, 'max', NULL, 'count', COUNT(*) FILTER (WHERE price >= 500))
+              )
+            )
+            FROM matched
+            WHERE in_category AND in_brand AND in_stock AND on_sale AND in_rating
+          ),
+          'in_stock', (
+            SELECT COUNT(*) FROM matched
+            WHERE COALESCE(stock_quantity, 0) > 0 AND in_category AND in_brand AND in_price AND on_sale AND in_rating
+          ),
+          'on_sale', (
+            SELECT COUNT(*) FROM matched
+            WHERE compare_at_price > price AND in_category AND in_brand AND in_price AND in_stock AND in_rating
+          )
+        )
+      ) INTO result;
+
+      RETURN result;
+    END;
+    $$ LANGUAGE plpgsql;
+  `,
+
+  // Queries that found products and were run more than once, most searched
+  // first, optionally starting with what is being typed
+  POPULAR_SEARCH_QUERIES: `
+    CREATE OR REPLACE FUNCTION popular_search_queries(
+      prefix TEXT DEFAULT '',
+      max_results INTEGER DEFAULT 5,
+      days INTEGER DEFAULT 30
+    ) RETURNS TABLE (query TEXT, searches BIGINT) AS $$
+      SELECT q.normalized::TEXT, COUNT(*) AS searches
+      FROM search_queries q
+      WHERE q.results_count > 0
+        AND q.created_at >= NOW() - make_interval(days => popular_search_queries.days)
+        AND q.normalized LIKE COALESCE(popular_search_queries.prefix, '') || '%'
+      GROUP BY q.normalized
+      HAVING COUNT(*) > 1
+      ORDER BY COUNT(*) DESC, q.normalized
+      LIMIT popular_search_queries.max_results;
+    $$ LANGUAGE sql STABLE;
+  `,
+
+  // Searches that found nothing and have not been dismissed, grouped by the
+  // words searched for
+  ZERO_RESULT_SEARCHES: `
+    CREATE OR REPLACE FUNCTION zero_result_searches(
+      days INTEGER DEFAULT 30
+    ) RETURNS TABLE (
+      normalized TEXT,
+      sample_query TEXT,
+      searches BIGINT,
+      shoppers BIGINT,
+      last_searched_at TIMESTAMP
+    ) AS $$
+      SELECT
+        q.normalized::TEXT,
+        (ARRAY_AGG(q.query ORDER BY q.created_at DESC))[1]::TEXT,
+        COUNT(*),
+        COUNT(DISTINCT q.user_id),
+        MAX(q.created_at)
+      FROM search_queries q
+      WHERE q.results_count = 0
+        AND q.dismissed_at IS NULL
+        AND q.created_at >= NOW() - make_interval(days => zero_result_searches.days)
+      GROUP BY q.normalized
+      ORDER BY COUNT(*) DESC, MAX(q.created_at) DESC;
+    $$ LANGUAGE sql STABLE;
+  `,
+
+  // Every order status or fulfilment change, in order_status_history. Orders
+  // placed before the history existed start with the status they are in now.
+  RECORD_ORDER_STATUS_CHANGE: `
+    CREATE OR REPLACE FUNCTION record_order_status_change() RETURNS TRIGGER AS $$
+    BEGIN
+      IF TG_OP = 'INSERT'
+         OR NEW.status IS DISTINCT FROM OLD.status
+         OR NEW.fulfillment_status IS DISTINCT FROM OLD.fulfillment_status THEN
+        INSERT INTO order_status_history (order_id, status, previous_status, fulfillment_status, changed_by)
+        VALUES (
+          NEW.id,
+          NEW.status::TEXT,
+          CASE WHEN TG_OP = 'UPDATE' THEN OLD.status::TEXT END,
+          NEW.fulfillment_status::TEXT,
+          auth.uid()
+        );
+      END IF;
+      RETURN NEW;
+    END;
+    $$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+    DROP TRIGGER IF EXISTS record_order_status_change ON orders;
+    CREATE TRIGGER record_order_status_change
+      AFTER INSERT OR UPDATE OF status, fulfillment_status ON orders
+      FOR EACH ROW EXECUTE FUNCTION record_order_status_change();
+
+    INSERT INTO order_status_history (order_id, status, fulfillment_status, created_at)
+    SELECT o.id, o.status::TEXT, o.fulfillment_status::TEXT, COALESCE(o.updated_at, o.created_at)
+    FROM orders o
+    WHERE NOT EXISTS (SELECT 1 FROM order_status_history h WHERE h.order_id = o.id);
   `
 };
 
@@ -377,4 +1328,4 @@ export async function installSQLFunctions(supabase: any) {
   }
   
   console.log('SQL functions installation completed');
-}
\ No newline at end of file
+}
@@ -0,0 +1,413 @@
+import { recordStockMovement } from './inventory.tsx';
+import { generateStockTakeReference } from './utils.tsx';
+
+// Stock-takes (cycle counts).
+//
+// Staff open a session for a category or a shelf, scan items and enter the
+// quantities they count. Each count records the stock the system expected at
+// the moment it reached the server, so the variance is counted - expected.
+// Counts can be queued on the device while offline and sent later; they are
+// absolute quantities, so sending the same count twice changes nothing. A
+// manager approves the submitted session, which posts every variance to the
+// ledger as a stock_take movement. Posting the difference rather than setting
+// stock to the counted figure keeps sales made since the count.
+
+export type StockTakeStatus = 'counting' | 'submitted' | 'approved' | 'cancelled';
+
+export interface CreateStockTakeRequest {
+  name?: string;
+  category_id?: string | null;
+  location?: string | null;
+  notes?: string | null;
+}
+
+export interface StockCount {
+  product_id: string;
+  variant_id?: string | null;
+  counted_quantity: number;
+}
+
+export interface ReviewStockTakeRequest {
+  action: 'approve' | 'recount' | 'cancel';
+  notes?: string;
+}
+
+export class StockTakeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'StockTakeError';
+  }
+}
+
+const LINE_SELECT = `*, product:products(id, name, sku, barcode, cost_price),
+  variant:product_variants(id, name, sku, barcode),
+  counter:user_profiles(first_name, last_name, email)`;
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+async function loadSession(supabase: any, stockTakeId: string) {
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .select('*, category:categories(id, name)')
+    .eq('id', stockTakeId)
+    .maybeSingle();
+
+  if (error) {
+    throw new StockTakeError(`Failed to load stock-take: ${error.message}`, 500);
+  }
+  if (!data) {
+    throw new StockTakeError('Stock-take not found', 404);
+  }
+  return data;
+}
+
+async function setStatus(supabase: any, stockTakeId: string, from: StockTakeStatus[], changes: Record<string, any>) {
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .update(changes)
+    .eq('id', stockTakeId)
+    .in('status', from)
+    .select('id');
+
+  if (error) {
+    throw new StockTakeError(`Failed to update stock-take: ${error.message}`, 500);
+  }
+  return (data || []).length > 0;
+}
+
+export async function createStockTake(supabase: any, userId: string, request: CreateStockTakeRequest) {
+  const location = String(request.location || '').trim() || null;
+  let name = String(request.name || '').trim();
+
+  let categoryName: string | null = null;
+  if (request.category_id) {
+    const { data: category, error } = await supabase
+      .from('categories')
+      .select('id, name')
+      .eq('id', request.category_id)
+      .maybeSingle();
+    if (error) {
+      throw new StockTakeError(`Failed to load category: ${error.message}`, 500);
+    }
+    if (!category) {
+      throw new StockTakeError('Category not found', 404);
+    }
+    categoryName = category.name;
+  }
+
+  if (!name) {
+    name = [categoryName, location].filter(Boolean).join(' – ') || 'Full count';
+  }
+
+  const { data, error } = await supabase
+    .from('stock_takes')
+    .insert({
+      reference: generateStockTakeReference(),
+      name,
+      category_id: request.category_id || null,
+      location,
+      notes: String(request.notes || '').trim() || null,
+      created_by: userId,
+    })
+    .select('*, category:categories(id, name)')
+    .single();
+
+  if (error) {
+    throw new StockTakeError(`Failed to start stock-take: ${error.message}`, 500);
+  }
+  return data;
+}
+
+export async function listStockTakes(supabase: any, status?: string) {
+  let query = supabase
+    .from('stock_takes')
+    .select('*, category:categories(id, name), stock_take_items(count)')
+    .order('created_at', { ascending: false })
+    .limit(100);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new StockTakeError(`Failed to load stock-takes: ${error.message}`, 500);
+  }
+
+  return (data || []).map(({ stock_take_items, ...session }: any) => ({
+    ...session,
+    line_count: stock_take_items?.[0]?.count || 0,
+  }));
+}
+
+/**
+ * Products a session covers, with barcodes so counters can scan offline. A
+ * shelf session without a category covers every active product.
+ */
+async function getCatalog(supabase: any, categoryId: string | null) {
+  let query = supabase
+    .from('products')
+    .select('id, name, sku, barcode, has_variants, product_variants(id, name, sku, barcode, is_active)')
+    .eq('status', 'active')
+    .order('name');
+
+  if (categoryId) {
+    query = query.eq('category_id', categoryId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new StockTakeError(`Failed to load products to count: ${error.message}`, 500);
+  }
+
+  return (data || []).map(({ product_variants, ...product }: any) => ({
+    ...product,
+    variants: (product_variants || []).filter((variant: any) => variant.is_active),
+  }));
+}
+
+/**
+ * A session with its counted lines, their variances and value impact at cost,
+ * and the products it covers
+ */
+export async function getStockTake(supabase: any, stockTakeId: string) {
+  const session = await loadSession(supabase, stockTakeId);
+
+  const [{ data: rows, error }, catalog] = await Promise.all([
+    supabase.from('stock_take_items').select(LINE_SELECT).eq('stock_take_id', stockTakeId).order('counted_at'),
+    getCatalog(supabase, session.category_id),
+  ]);
+
+  if (error) {
+    throw new StockTakeError(`Failed to load counts: ${error.message}`, 500);
+  }
+
+  const lines = (rows || []).map(({ counter, ...line }: any) => {
+    const variance = line.counted_quantity - line.expected_quantity;
+    return {
+      ...line,
+      counted_by_name: counter
+        ? [counter.first_name, counter.last_name].filter(Boolean).join(' ') || counter.email
+        : null,
+      variance,
+      value_impact: roundCurrency(variance * Number(line.product?.cost_price || 0)),
+    };
+  });
+
+  const withVariance = lines.filter((line: any) => line.variance !== 0);
+  return {
+    stock_take: session,
+    lines,
+    catalog,
+    summary: {
+      lines_counted: lines.length,
+      lines_with_variance: withVariance.length,
+      units_over: withVariance.filter((line: any) => line.variance > 0).reduce((sum: number, line: any) => sum + line.variance, 0),
+      units_short: withVariance.filter((line: any) => line.variance < 0).reduce((sum: number, line: any) => sum - line.variance, 0),
+      value_impact: roundCurrency(withVariance.reduce((sum: number, line: any) => sum + line.value_impact, 0)),
+    },
+  };
+}
+
+async function getExpectedStock(supabase: any, count: StockCount) {
+  const { data: product, error } = await supabase
+    .from('products')
+    .select('id, name, stock_quantity, has_variants')
+    .eq('id', count.product_id)
+    .maybeSingle();
+
+  if (error) {
+    throw new StockTakeError(`Failed to load product: ${error.message}`, 500);
+  }
+  if (!product) {
+    throw new StockTakeError('Product not found', 404);
+  }
+  if (!count.variant_id) {
+    if (product.has_variants) {
+      throw new StockTakeError(`${product.name} is counted per variant; scan or choose a variant`);
+    }
+    return Number(product.stock_quantity || 0);
+  }
+
+  const { data: variant, error: variantError } = await supabase
+    .from('product_variants')
+    .select('id, stock_quantity')
+    .eq('id', count.variant_id)
+    .eq('product_id', count.product_id)
+    .maybeSingle();
+
+  if (variantError) {
+    throw new StockTakeError(`Failed to load variant: ${variantError.message}`, 500);
+  }
+  if (!variant) {
+    throw new StockTakeError('Variant not found for this product', 404);
+  }
+  return Number(variant.stock_quantity || 0);
+}
+
+/**
+ * Save counted quantities for a session that is still counting. A recount of
+ * a line replaces its quantity and takes a fresh expected figure.
+ */
+export async function recordCounts(supabase: any, stockTakeId: string, userId: string, counts: StockCount[]) {
+  const session = await loadSession(supabase, stockTakeId);
+  if (session.status !== 'counting') {
+    throw new StockTakeError('This stock-take is no longer taking counts', 409);
+  }
+  if (!Array.isArray(counts) || counts.length === 0) {
+    throw new StockTakeError('Send at least one count');
+  }
+
+  for (const count of counts) {
+    const countedQuantity = Math.trunc(Number(count.counted_quantity));
+    if (!count.product_id || !Number.isFinite(countedQuantity) || countedQuantity < 0) {
+      throw new StockTakeError('Each count needs a product and a quantity of zero or more');
+    }
+
+    const expectedQuantity = await getExpectedStock(supabase, count);
+    const variantId = count.variant_id || null;
+
+    let existingQuery = supabase
+      .from('stock_take_items')
+      .select('id')
+      .eq('stock_take_id', stockTakeId)
+      .eq('product_id', count.product_id);
+    existingQuery = variantId ? existingQuery.eq('variant_id', variantId) : existingQuery.is('variant_id', null);
+    const { data: existing, error: existingError } = await existingQuery.maybeSingle();
+
+    if (existingError) {
+      throw new StockTakeError(`Failed to load count: ${existingError.message}`, 500);
+    }
+
+    const row = {
+      expected_quantity: expectedQuantity,
+      counted_quantity: countedQuantity,
+      counted_by: userId,
+      counted_at: new Date().toISOString(),
+    };
+    const { error } = existing
+      ? await supabase.from('stock_take_items').update(row).eq('id', existing.id)
+      : await supabase.from('stock_take_items').insert({
+          ...row,
+          stock_take_id: stockTakeId,
+          product_id: count.product_id,
+          variant_id: variantId,
+        });
+
+    if (error) {
+      throw new StockTakeError(`Failed to save count: ${error.message}`, 500);
+    }
+  }
+
+  return getStockTake(supabase, stockTakeId);
+}
+
+/**
+ * Hand a finished count to a manager for approval
+ */
+export async function submitStockTake(supabase: any, stockTakeId: string, userId: string) {
+  const { count, error } = await supabase
+    .from('stock_take_items')
+    .select('id', { count: 'exact', head: true })
+    .eq('stock_take_id', stockTakeId);
+
+  if (error) {
+    throw new StockTakeError(`Failed to load counts: ${error.message}`, 500);
+  }
+  if (!count) {
+    throw new StockTakeError('Count at least one item before submitting');
+  }
+
+  const submitted = await setStatus(supabase, stockTakeId, ['counting'], {
+    status: 'submitted',
+    submitted_by: userId,
+    submitted_at: new Date().toISOString(),
+  });
+  if (!submitted) {
+    throw new StockTakeError('Only a stock-take that is counting can be submitted', 409);
+  }
+
+  return getStockTake(supabase, stockTakeId);
+}
+
+/**
+ * Approve a submitted count and post its variances, send it back for a
+ * recount, or cancel it
+ */
+export async function reviewStockTake(supabase: any, stockTakeId: string, userId: string, request: ReviewStockTakeRequest) {
+  const notes = String(request.notes || '').trim();
+  const session = await loadSession(supabase, stockTakeId);
+  const withNotes = notes ? { notes: [session.notes, notes].filter(Boolean).join('\n') } : {};
+
+  if (request.action === 'recount') {
+    if (!await setStatus(supabase, stockTakeId, ['submitted'], { status: 'counting', submitted_by: null, submitted_at: null, ...withNotes })) {
+      throw new StockTakeError('Only a submitted stock-take can be sent back for a recount', 409);
+    }
+    return getStockTake(supabase, stockTakeId);
+  }
+
+  if (request.action === 'cancel') {
+    if (!await setStatus(supabase, stockTakeId, ['counting', 'submitted'], { status: 'cancelled', ...withNotes })) {
+      throw new StockTakeError('An approved stock-take cannot be cancelled', 409);
+    }
+    return getStockTake(supabase, stockTakeId);
+  }
+
+  if (request.action !== 'approve') {
+    throw new StockTakeError('Action must be approve, recount or cancel');
+  }
+
+  // Claim the session so a second approval cannot post the variances again
+  const claimed = await setStatus(supabase, stockTakeId, ['submitted'], {
+    status: 'approved',
+    approved_by: userId,
+    approved_at: new Date().toISOString(),
+    ...withNotes,
+  });
+  if (!claimed) {
+    throw new StockTakeError('Only a submitted stock-take can be approved', 409);
+  }
+
+  const { data: lines, error } = await supabase
+    .from('stock_take_items')
+    .select('id, product_id, variant_id, expected_quantity, counted_quantity, movement_id')
+    .eq('stock_take_id', stockTakeId)
+    .is('movement_id', null);
+
+  if (error) {
+    await setStatus(supabase, stockTakeId, ['approved'], { status: 'submitted', approved_by: null, approved_at: null });
+    throw new StockTakeError(`Failed to load counts: ${error.message}`, 500);
+  }
+
+  for (const line of lines || []) {
+    const variance = line.counted_quantity - line.expected_quantity;
+    if (variance === 0) continue;
+
+    let movement;
+    try {
+      // Stock may have moved since the count, so the correction may take it below zero
+      movement = await recordStockMovement(supabase, {
+        productId: line.product_id,
+        variantId: line.variant_id,
+        quantityChange: variance,
+        movementType: 'stock_take',
+        reason: `Stock-take ${session.reference}`,
+        referenceType: 'stock_take',
+        referenceId: stockTakeId,
+        createdBy: userId,
+        allowNegative: true,
+      });
+    } catch (postError: any) {
+      // Posted lines keep their movement, so approving again picks up where this stopped
+      await setStatus(supabase, stockTakeId, ['approved'], { status: 'submitted', approved_by: null, approved_at: null });
+      throw new StockTakeError(postError.message || 'Failed to post stock-take variances', 500);
+    }
+
+    const { error: linkError } = await supabase.from('stock_take_items').update({ movement_id: movement.id }).eq('id', line.id);
+    if (linkError) {
+      console.error('❌ Error linking stock-take line to its movement:', linkError);
+    }
+  }
+
+  return getStockTake(supabase, stockTakeId);
+}
@@ -60,58 +60,6 @@ app.post('/create-payment-intent', async (c) => {
   }
 });
 
-// Confirm payment endpoint
-app.post('/confirm-payment', async (c) => {
-  try {
-    const { paymentMethodId, amount, currency, customerEmail } = await c.req.json();
-
-    if (!paymentMethodId || !amount || !currency) {
-      return c.json({ 
-        success: false, 
-        error: 'Missing required fields' 
-      }, 400);
-    }
-
-    // Get Stripe secret key from environment
-    const stripeSecretKey = process.env.STRIPE_SECRET_KEY;
-    
-    if (!stripeSecretKey) {
-      return c.json({ 
-        success: false, 
-        error: 'Stripe configuration error' 
-      }, 500);
-    }
-
-    const stripe = require('stripe')(stripeSecretKey);
-
-    // Create and confirm payment intent in one step
-    const paymentIntent = await stripe.paymentIntents.create({
-      amount: Math.round(amount * 100),
-      currency: currency.toLowerCase(),
-      payment_method: paymentMethodId,
-      confirm: true,
-      receipt_email: customerEmail,
-      return_url: `${process.env.FRONTEND_URL || 'http://localhost:5173'}/orders`,
-    });
-
-    return c.json({
-      success: true,
-      paymentIntent: {
-        id: paymentIntent.id,
-        status: paymentIntent.status,
-        amount: paymentIntent.amount,
-        currency: paymentIntent.currency,
-      },
-    });
-  } catch (error: any) {
-    console.error('❌ Error confirming payment:', error);
-    return c.json({ 
-      success: false, 
-      error: error.message || 'Failed to confirm payment' 
-    }, 500);
-  }
-});
-
 // Retrieve payment method details
 app.post('/payment-method-details', async (c) => {
   try {
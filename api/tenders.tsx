@@ -0,0 +1,60 @@
+// How a sale was paid for.
+//
+// A POS sale can be settled with several tenders: part cash, part card, a
+// gift card, an EFT with its bank reference, and loyalty points. Each one is
+// stored on the order in payment_details.tenders. Points are already taken
+// off the total when the sale is priced, so the loyalty tender is there for
+// reporting and the other tenders add up to the order total. Orders from
+// before split tender only have a single payment_method, so they read back
+// as one tender for the whole total.
+
+export type TenderMethod = 'cash' | 'card' | 'voucher' | 'eft' | 'loyalty';
+
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'card', 'voucher', 'eft', 'loyalty'];
+
+export interface Tender {
+  method: TenderMethod;
+  amount: number; // Applied to the sale
+  tendered?: number; // Cash handed over
+  change?: number; // Cash handed back
+  reference?: string | null; // Gift card code, EFT reference or card slip number
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function getOrderTenders(order: any): Tender[] {
+  const tenders = order.payment_details?.tenders;
+  if (Array.isArray(tenders) && tenders.length > 0) {
+    return tenders.map((tender: any) => ({
+      method: TENDER_METHODS.includes(tender.method) ? tender.method : 'card',
+      amount: Number(tender.amount) || 0,
+      tendered: tender.tendered != null ? Number(tender.tendered) : undefined,
+      change: tender.change != null ? Number(tender.change) : undefined,
+      reference: tender.reference || null,
+    }));
+  }
+
+  const total = Number(order.total ?? order.total_amount) || 0;
+  if (order.payment_method === 'cash') {
+    return [{
+      method: 'cash',
+      amount: total,
+      tendered: Number(order.payment_details?.amount_tendered) || total,
+      change: Number(order.payment_details?.change_given) || 0,
+    }];
+  }
+  return [{ method: 'card', amount: total }];
+}
+
+/**
+ * Amount applied per tender method across a set of orders
+ */
+export function sumTenders(orders: any[]): Record<TenderMethod, number> {
+  const totals = Object.fromEntries(TENDER_METHODS.map(method => [method, 0])) as Record<TenderMethod, number>;
+  for (const order of orders) {
+    for (const tender of getOrderTenders(order)) {
+      totals[tender.method] = roundCurrency(totals[tender.method] + tender.amount);
+    }
+  }
+  return totals;
+}
@@ -7,6 +7,38 @@ export function generateOrderNumber(): string {
   return `ORD-${timestamp}-${random}`.toUpperCase();
 }
 
+// Generate unique refund document number (RF prefix matches ID_PREFIXES.REFUND)
+export function generateRefundNumber(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 6);
+  return `RF-${timestamp}${random}`.toUpperCase();
+}
+
+// Generate unique stock-take reference (IN prefix matches ID_PREFIXES.INVENTORY)
+export function generateStockTakeReference(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 6);
+  return `IN-${timestamp}${random}`.toUpperCase();
+}
+
+// Generate unique shift number (SH prefix matches ID_PREFIXES.SHIFT)
+export function generateShiftNumber(): string {
+  const timestamp = Date.now().toString(36);
+  const random = Math.random().toString(36).substring(2, 6);
+  return `SH-${timestamp}${random}`.toUpperCase();
+}
+
+// Generate a gift card code (GC prefix matches ID_PREFIXES.GIFT_CARD). No
+// 0/O or 1/I so it can be read off a printed voucher and typed in.
+export function generateGiftCardCode(): string {
+  const alphabet = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  let code = '';
+  for (let i = 0; i < 12; i++) {
+    code += alphabet[Math.floor(Math.random() * alphabet.length)];
+  }
+  return `GC-${code.slice(0, 4)}-${code.slice(4, 8)}-${code.slice(8)}`;
+}
+
 // Generate unique product SKU
 export function generateSKU(category: string, name: string): string {
   const categoryPrefix = category.substring(0, 3).toUpperCase();
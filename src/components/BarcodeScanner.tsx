@@ -23,11 +23,22 @@ interface Product {
 }
 
 interface BarcodeScannerProps {
-  onProductScanned: (product: Product) => void;
+  onProductScanned?: (product: Product) => void;
+  // When given, each scanned code is handed back as-is and the scanner stays
+  // open for the next one, instead of looking up a new product to add
+  onBarcodeScanned?: (barcode: string) => void;
+  title?: string;
+  description?: string;
   onClose: () => void;
 }
 
-export function BarcodeScanner({ onProductScanned, onClose }: BarcodeScannerProps) {
+export function BarcodeScanner({
+  onProductScanned,
+  onBarcodeScanned,
+  title = 'Barcode Scanner',
+  description = 'Scan or enter a barcode to add products automatically',
+  onClose
+}: BarcodeScannerProps) {
   const [scanMode, setScanMode] = useState<'camera' | 'manual' | 'demo'>('demo');
   const [manualBarcode, setManualBarcode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -71,6 +82,12 @@ export function BarcodeScanner({ onProductScanned, onClose }: BarcodeScannerProp
   };
 
   const lookupBarcode = async (barcode: string) => {
+    if (onBarcodeScanned) {
+      onBarcodeScanned(barcode);
+      setManualBarcode('');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
     
@@ -129,7 +146,7 @@ export function BarcodeScanner({ onProductScanned, onClose }: BarcodeScannerProp
 
   const handleAddProduct = () => {
     if (scannedProduct) {
-      onProductScanned(scannedProduct);
+      onProductScanned?.(scannedProduct);
       setScannedProduct(null);
       setManualBarcode('');
       onClose();
@@ -153,10 +170,10 @@ export function BarcodeScanner({ onProductScanned, onClose }: BarcodeScannerProp
             <div>
               <CardTitle className="flex items-center gap-2">
                 <Camera className="h-5 w-5" />
-                Barcode Scanner
+                {title}
               </CardTitle>
               <CardDescription>
-                Scan or enter a barcode to add products automatically
+                {description}
               </CardDescription>
             </div>
             <Button variant="ghost" size="sm" onClick={onClose}>
@@ -243,7 +260,7 @@ export function BarcodeScanner({ onProductScanned, onClose }: BarcodeScannerProp
                     disabled={!manualBarcode.trim() || isLoading}
                     className="w-full"
                   >
-                    {isLoading ? 'Looking up...' : 'Lookup Product'}
+                    {isLoading ? 'Looking up...' : onBarcodeScanned ? 'Scan' : 'Lookup Product'}
                   </Button>
                 </form>
               )}
@@ -24,11 +24,26 @@ interface Product {
 }
 
 interface FastBarcodeScannerProps {
-  onProductScanned: (product: Product) => void;
+  onProductScanned?: (product: Product) => void;
+  // When given, each scanned code is handed back as-is and scanning carries on,
+  // instead of looking up a new product to add
+  onBarcodeScanned?: (barcode: string) => void;
+  title?: string;
+  description?: string;
   onClose: () => void;
 }
 
-export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeScannerProps) {
+// A code held in front of the camera is read again after this long when
+// counting, rather than every few frames
+const REPEAT_SCAN_DELAY_MS = 1500;
+
+export function FastBarcodeScanner({
+  onProductScanned,
+  onBarcodeScanned,
+  title = 'Fast Barcode Scanner',
+  description = 'High-speed barcode scanning with optimized performance',
+  onClose
+}: FastBarcodeScannerProps) {
   const [scanMode, setScanMode] = useState<'camera' | 'manual' | 'demo'>('demo');
   const [manualBarcode, setManualBarcode] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -43,6 +58,9 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
   const lastScanRef = useRef<{ code: string; at: number } | null>(null);
   const scanTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // The camera callback outlives renders, so read the latest handler from a ref
+  const onBarcodeScannedRef = useRef(onBarcodeScanned);
+  onBarcodeScannedRef.current = onBarcodeScanned;
 
   // Optimized camera settings for faster scanning
   const cameraConstraints = {
@@ -126,7 +144,7 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
             if (
               !lastScanRef.current ||
               lastScanRef.current.code !== text ||
-              now - lastScanRef.current.at > 300 // Reduced from 800ms to 300ms
+              now - lastScanRef.current.at > (onBarcodeScannedRef.current ? REPEAT_SCAN_DELAY_MS : 300) // Reduced from 800ms to 300ms
             ) {
               lastScanRef.current = { code: text, at: now };
               setScanCount(prev => prev + 1);
@@ -158,6 +176,12 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
 
   const handleBarcodeScanned = async (barcode: string) => {
     if (!barcode.trim()) return;
+
+    if (onBarcodeScannedRef.current) {
+      onBarcodeScannedRef.current(barcode.trim());
+      setManualBarcode('');
+      return;
+    }
     
     setIsLoading(true);
     setError(null);
@@ -221,7 +245,7 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
 
   const handleAddProduct = () => {
     if (scannedProduct) {
-      onProductScanned(scannedProduct);
+      onProductScanned?.(scannedProduct);
       setScannedProduct(null);
       setManualBarcode('');
       onClose();
@@ -255,10 +279,10 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
               <div>
                 <CardTitle className="flex items-center gap-2">
                   <Zap className="h-5 w-5 text-yellow-500" />
-                  Fast Barcode Scanner
+                  {title}
                 </CardTitle>
                 <CardDescription>
-                  High-speed barcode scanning with optimized performance
+                  {description}
                 </CardDescription>
               </div>
               <Button variant="ghost" size="sm" onClick={onClose}>
@@ -366,7 +390,7 @@ export function FastBarcodeScanner({ onProductScanned, onClose }: FastBarcodeSca
                       disabled={!manualBarcode.trim() || isLoading}
                       className="w-full"
                     >
-                      {isLoading ? 'Looking up...' : 'Lookup Product'}
+                      {isLoading ? 'Looking up...' : onBarcodeScanned ? 'Scan' : 'Lookup Product'}
                     </Button>
                   </form>
                 )}
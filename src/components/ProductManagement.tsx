@@ -10,9 +10,13 @@ import { QuickStartGuide } from './QuickStartGuide';
 import { ImageWithFallback } from './figma/ImageWithFallback';
 import ProductCard from './common/ProductCard';
 import StorageDiagnostic from './admin/StorageDiagnostic';
+import { VariantEditor } from './admin/VariantEditor';
+import { StockChangeReasonFields } from './admin/StockChangeReasonFields';
 import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { StorageSetup } from '../utils/storage-setup';
+import { VariantDraft, VariantService } from '../utils/variant-service';
+import { InventoryService, StockChangeReason } from '../utils/inventory-service';
 
 interface Product {
   id: string;
@@ -80,6 +84,9 @@ export function ProductManagement() {
     is_active: true,
     is_featured: false,
   });
+  const [editVariants, setEditVariants] = useState<VariantDraft[]>([]);
+  const [savedVariantStock, setSavedVariantStock] = useState<Record<string, number>>({});
+  const [stockChange, setStockChange] = useState<StockChangeReason>({ movement_type: 'adjustment', reason: '' });
   const [showNewCategoryInput, setShowNewCategoryInput] = useState(false);
   const [newCategoryName, setNewCategoryName] = useState('');
   const [isCreatingCategory, setIsCreatingCategory] = useState(false);
@@ -379,7 +386,14 @@ export function ProductManagement() {
         is_active: fullProduct.is_active,
         is_featured: fullProduct.is_featured,
       });
+      setEditVariants([]);
+      setSavedVariantStock({});
+      setStockChange({ movement_type: 'adjustment', reason: '' });
       setShowEditModal(true);
+      VariantService.getVariants(fullProduct.id, true).then(variants => {
+        setEditVariants(variants);
+        setSavedVariantStock(Object.fromEntries(variants.map(variant => [variant.id, variant.stock_quantity])));
+      });
     }
   };
 
@@ -522,6 +536,14 @@ export function ProductManagement() {
     }
   };
 
+  // Products sold in variants hold the sum of their active variants' stock
+  const editVariantStock = editVariants
+    .filter(variant => variant.is_active)
+    .reduce((sum, variant) => sum + Number(variant.stock_quantity || 0), 0);
+  const editStockEdited = editVariants.length > 0
+    ? editVariants.some(variant => variant.id && variant.id in savedVariantStock && Number(variant.stock_quantity || 0) !== savedVariantStock[variant.id])
+    : editFormData.stock_quantity !== (productToEdit?.stock_quantity || 0);
+
   const handleUpdateProduct = async () => {
     if (!productToEdit) return;
     
@@ -538,17 +560,29 @@ export function ProductManagement() {
         setError('Stock quantity cannot be negative');
         return;
       }
+      const variantSkus = editVariants.map(variant => variant.sku.trim());
+      if (variantSkus.some(sku => !sku) || new Set(variantSkus).size !== variantSkus.length) {
+        setIsUpdating(false);
+        setError('Every variant needs its own SKU');
+        return;
+      }
+      
+      if (editStockEdited && !stockChange.reason.trim()) {
+        setIsUpdating(false);
+        setError('Give a reason for the stock change');
+        return;
+      }
       
       // Store old stock quantity for notification check
       const oldStock = productToEdit.stock_quantity || 0;
-      const newStock = editFormData.stock_quantity;
+      const newStock = editVariants.length > 0 ? editVariantStock : editFormData.stock_quantity;
       
       const { error } = await supabase
         .from('products')
         .update({
           name: editFormData.name,
           price: editFormData.price,
-          stock_quantity: editFormData.stock_quantity,
+          has_variants: editVariants.length > 0,
           description: editFormData.description,
           is_active: editFormData.is_active,
           is_featured: editFormData.is_featured,
@@ -560,6 +594,21 @@ export function ProductManagement() {
         throw new Error(error.message);
       }
 
+      // Stock moves through the ledger rather than with the product details
+      if (editVariants.length === 0 && newStock !== oldStock) {
+        const stockResult = await InventoryService.adjustStock({
+          product_id: productToEdit.id,
+          new_quantity: newStock,
+          movement_type: stockChange.movement_type,
+          reason: stockChange.reason.trim(),
+        });
+        if (!stockResult.success) {
+          throw new Error(stockResult.error || 'Failed to update stock');
+        }
+      }
+
+      await VariantService.saveVariants(productToEdit.id, editVariants, stockChange);
+
       // Clear product details cache since product was updated
       const { stockNotificationCache } = await import('../services/stockNotificationCacheService');
       stockNotificationCache.clearProductDetailsCache(productToEdit.id);
@@ -1473,14 +1522,31 @@ export function ProductManagement() {
                   </label>
                   <Input
                     type="number"
-                    value={editFormData.stock_quantity}
+                    value={editVariants.length > 0 ? editVariantStock : editFormData.stock_quantity}
                     onChange={(e) => setEditFormData({...editFormData, stock_quantity: parseInt(e.target.value) || 0})}
+                    disabled={editVariants.length > 0}
+                    title={editVariants.length > 0 ? 'Stock is kept per variant' : undefined}
                     className="w-full"
                     placeholder="0"
                   />
                 </div>
               </div>
 
+              {/* Variants */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Variants
+                </label>
+                <VariantEditor
+                  variants={editVariants}
+                  onChange={setEditVariants}
+                  basePrice={editFormData.price}
+                  baseSku={productToEdit.sku}
+                />
+              </div>
+
+              {editStockEdited && <StockChangeReasonFields value={stockChange} onChange={setStockChange} />}
+
               {/* Description */}
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -918,7 +919,12 @@ function PredictiveInventoryComponent() {
             <Package className="h-5 w-5" />
             Reorder Recommendations
           </CardTitle>
-          <CardDescription>Products that should be reordered soon</CardDescription>
+          <CardDescription>
+            Products that should be reordered soon.{' '}
+            <Link to="/admin/purchase-orders" className="text-green-700 hover:underline">
+              Turn them into purchase orders
+            </Link>
+          </CardDescription>
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
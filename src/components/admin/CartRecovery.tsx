@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { Play, RefreshCw, Settings, ShoppingCart } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import {
+  CartRecoveryEntry,
+  CartRecoveryReport,
+  CartRecoveryService,
+  CartRecoverySettings,
+} from '../../utils/cart-recovery-service';
+
+const PERIODS = [7, 30, 90];
+
+type NumberSetting = Exclude<keyof CartRecoverySettings, 'enabled'>;
+
+// The same limits the server holds the settings to
+const NUMBER_FIELDS: Array<{ key: NumberSetting; label: string; min: number; max: number }> = [
+  { key: 'idle_hours', label: 'Remind after (hours idle)', min: 1, max: 168 },
+  { key: 'max_idle_days', label: 'Ignore carts older than (days)', min: 1, max: 60 },
+  { key: 'discount_percent', label: 'Discount (%, 0 for none)', min: 0, max: 50 },
+  { key: 'discount_valid_days', label: 'Code valid for (days)', min: 1, max: 60 },
+  { key: 'attribution_days', label: 'Credit orders within (days)', min: 1, max: 60 },
+];
+
+const formatZAR = (amount: number) => `R${Number(amount).toFixed(2)}`;
+
+const customerName = (entry: CartRecoveryEntry) =>
+  [entry.user?.first_name, entry.user?.last_name].filter(Boolean).join(' ') || entry.user?.email || 'Customer';
+
+/**
+ * Abandoned cart reminders: when they go out and with what discount, and
+ * how many carts and how much revenue they won back
+ */
+export function CartRecovery() {
+  const [settings, setSettings] = useState<CartRecoverySettings | null>(null);
+  const [report, setReport] = useState<CartRecoveryReport | null>(null);
+  const [days, setDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [running, setRunning] = useState(false);
+
+  const loadReport = async () => {
+    setLoading(true);
+    const result = await CartRecoveryService.getReport(days);
+    setLoading(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to load cart recovery report');
+      return;
+    }
+    setReport(result.data);
+  };
+
+  useEffect(() => {
+    CartRecoveryService.getSettings().then(result => {
+      if (!result.success) {
+        toast.error(result.error || 'Failed to load cart recovery settings');
+        return;
+      }
+      setSettings(result.data || null);
+    });
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [days]);
+
+  const update = (changes: Partial<CartRecoverySettings>) => settings && setSettings({ ...settings, ...changes });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    const invalid = NUMBER_FIELDS.find(({ key, min, max }) =>
+      !Number.isInteger(settings[key]) || settings[key] < min || settings[key] > max
+    );
+    if (invalid) {
+      toast.error(`${invalid.label} must be a whole number from ${invalid.min} to ${invalid.max}`);
+      return;
+    }
+    setSaving(true);
+    const result = await CartRecoveryService.saveSettings(settings);
+    setSaving(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to save cart recovery settings');
+      return;
+    }
+    setSettings(result.data);
+    toast.success('Cart recovery settings saved');
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    const result = await CartRecoveryService.runNow();
+    setRunning(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to send cart reminders');
+      return;
+    }
+    const run = result.data;
+    if (!run.enabled) {
+      toast.info('Cart reminders are turned off');
+    } else {
+      toast.success(`${run.reminded} reminder${run.reminded === 1 ? '' : 's'} sent`, {
+        description: `${run.already_ordered} already ordered, ${run.opted_out} opted out, ${run.failed} failed`,
+      });
+    }
+    loadReport();
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-3">
+        <div>
+          <h1 className="text-3xl font-bold text-gray-900">Cart Recovery</h1>
+          <p className="text-gray-600 mt-1">Reminder emails for carts signed-in customers left behind, and the orders they brought back</p>
+        </div>
+        <Button onClick={handleRun} disabled={running}>
+          <Play className="h-4 w-4 mr-2" />
+          {running ? 'Sending...' : 'Send reminders now'}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <ShoppingCart className="h-5 w-5" />
+            Recovered revenue
+          </CardTitle>
+          <div className="flex items-center gap-2">
+            <select
+              value={days}
+              onChange={(e) => setDays(Number(e.target.value))}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              {PERIODS.map(period => (
+                <option key={period} value={period}>Last {period} days</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={loadReport} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {loading && !report ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : !report ? (
+            <p className="text-gray-500">No report available.</p>
+          ) : (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                <div>
+                  <p className="text-sm text-gray-500">Reminders sent</p>
+                  <p className="text-2xl font-bold">{report.reminders}</p>
+                  <p className="text-xs text-gray-400">{formatZAR(report.abandoned_value)} in carts</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Carts restored</p>
+                  <p className="text-2xl font-bold">{report.restored}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Orders recovered</p>
+                  <p className="text-2xl font-bold">{report.recovered}</p>
+                  <p className="text-xs text-gray-400">{report.recovery_rate}% of reminders</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Recovered revenue</p>
+                  <p className="text-2xl font-bold text-[#09215F]">{formatZAR(report.recovered_revenue)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-gray-500">Waiting for a reminder</p>
+                  <p className="text-2xl font-bold">{report.waiting}</p>
+                </div>
+              </div>
+
+              {report.recent.length === 0 ? (
+                <p className="text-gray-500">No reminders sent in this period.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4 font-medium">Sent</th>
+                        <th className="py-2 pr-4 font-medium">Customer</th>
+                        <th className="py-2 pr-4 font-medium">Cart</th>
+                        <th className="py-2 pr-4 font-medium">Code</th>
+                        <th className="py-2 font-medium">Outcome</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.recent.map(entry => (
+                        <tr key={entry.id} className="border-b last:border-0 align-top">
+                          <td className="py-3 pr-4 text-gray-600 whitespace-nowrap">{new Date(entry.sent_at).toLocaleString()}</td>
+                          <td className="py-3 pr-4">
+                            <p className="font-medium text-gray-900">{customerName(entry)}</p>
+                            {entry.user?.email && <p className="text-xs text-gray-500">{entry.user.email}</p>}
+                          </td>
+                          <td className="py-3 pr-4 text-gray-700">{formatZAR(entry.cart_value)}</td>
+                          <td className="py-3 pr-4 text-gray-700 font-mono text-xs">{entry.discount_code || '—'}</td>
+                          <td className="py-3">
+                            {entry.recovered_at ? (
+                              <>
+                                <Badge className="bg-green-100 text-green-800">Recovered</Badge>
+                                <p className="mt-1 text-xs text-gray-500">
+                                  {entry.order?.order_number} · {formatZAR(entry.order_total || 0)}
+                                </p>
+                              </>
+                            ) : entry.restored_at ? (
+                              <Badge className="bg-blue-100 text-blue-800">Restored</Badge>
+                            ) : (
+                              <Badge className="bg-gray-100 text-gray-600">Sent</Badge>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {settings && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Settings className="h-5 w-5" />
+              Reminder settings
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-6">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={settings.enabled}
+                  onChange={(e) => update({ enabled: e.target.checked })}
+                />
+                <span className="text-sm font-medium">Send abandoned cart reminders</span>
+              </label>
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                {NUMBER_FIELDS.map(({ key, label, min, max }) => (
+                  <div key={key}>
+                    <label className="block text-sm font-medium mb-1">{label}</label>
+                    <Input
+                      type="number"
+                      min={min}
+                      max={max}
+                      step="1"
+                      value={settings[key]}
+                      onChange={(e) => update({ [key]: Number(e.target.value) })}
+                    />
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-gray-500">
+                Reminders go out hourly. Customers who have ordered since filling their cart, or who turned off cart
+                reminders, are skipped. A paid order placed within the credit window counts as recovered.
+              </p>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
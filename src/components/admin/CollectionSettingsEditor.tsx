@@ -0,0 +1,140 @@
+import React, { useEffect, useState } from 'react';
+import { Store } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { CollectionSettings, CollectionService } from '../../utils/collection-service';
+
+const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+type NumberSetting = 'slot_minutes' | 'capacity_per_slot' | 'lead_time_hours' | 'days_ahead';
+
+// The same limits the server holds the settings to
+const NUMBER_FIELDS: Array<{ key: NumberSetting; label: string; min: number; max: number; step: number }> = [
+  { key: 'slot_minutes', label: 'Slot length (minutes)', min: 15, max: 240, step: 15 },
+  { key: 'capacity_per_slot', label: 'Orders per slot', min: 1, max: 500, step: 1 },
+  { key: 'lead_time_hours', label: 'Packing time (hours)', min: 0, max: 168, step: 1 },
+  { key: 'days_ahead', label: 'Days bookable ahead', min: 1, max: 30, step: 1 },
+];
+
+/**
+ * Collection counter hours and how pickup slots are cut from them
+ */
+export function CollectionSettingsEditor() {
+  const [settings, setSettings] = useState<CollectionSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    CollectionService.getSettings().then(result => {
+      if (!result.success) {
+        toast.error(result.error || 'Failed to load collection settings');
+        return;
+      }
+      setSettings(result.data || null);
+    });
+  }, []);
+
+  if (!settings) return null;
+
+  const update = (changes: Partial<CollectionSettings>) => setSettings({ ...settings, ...changes });
+
+  const updateDay = (day: string, hours: { open: string; close: string } | null) =>
+    update({ hours: { ...settings.hours, [day]: hours } });
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const invalid = NUMBER_FIELDS.find(({ key, min, max }) =>
+      !Number.isInteger(settings[key]) || settings[key] < min || settings[key] > max
+    );
+    if (invalid) {
+      toast.error(`${invalid.label} must be a whole number from ${invalid.min} to ${invalid.max}`);
+      return;
+    }
+    setSaving(true);
+    const result = await CollectionService.saveSettings(settings);
+    setSaving(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to save collection settings');
+      return;
+    }
+    setSettings(result.data);
+    toast.success('Collection settings saved');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Store className="h-5 w-5" />
+          Click and Collect
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <form onSubmit={handleSave} className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            {NUMBER_FIELDS.map(({ key, label, min, max, step }) => (
+              <div key={key}>
+                <label className="block text-sm font-medium mb-1">{label}</label>
+                <Input
+                  type="number"
+                  min={min}
+                  max={max}
+                  step={step}
+                  value={settings[key]}
+                  onChange={(e) => update({ [key]: Number(e.target.value) })}
+                />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <p className="text-sm font-medium mb-2">Counter hours</p>
+            <div className="space-y-2">
+              {WEEKDAYS.map((name, index) => {
+                const day = String(index);
+                const hours = settings.hours[day];
+                return (
+                  <div key={day} className="flex items-center gap-3 text-sm">
+                    <label className="flex items-center gap-2 w-32">
+                      <input
+                        type="checkbox"
+                        checked={!!hours}
+                        onChange={(e) => updateDay(day, e.target.checked ? { open: '08:00', close: '17:00' } : null)}
+                      />
+                      {name}
+                    </label>
+                    {hours ? (
+                      <>
+                        <Input type="time" className="w-32" value={hours.open} onChange={(e) => updateDay(day, { ...hours, open: e.target.value })} />
+                        <span className="text-gray-500">to</span>
+                        <Input type="time" className="w-32" value={hours.close} onChange={(e) => updateDay(day, { ...hours, close: e.target.value })} />
+                      </>
+                    ) : (
+                      <span className="text-gray-500">Closed</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium mb-1">Collection instructions</label>
+            <textarea
+              value={settings.instructions}
+              onChange={(e) => update({ instructions: e.target.value })}
+              rows={3}
+              placeholder="Sent with the collection code, e.g. where the counter is and what to bring"
+              className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-green-500"
+            />
+          </div>
+
+          <div className="flex justify-end">
+            <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
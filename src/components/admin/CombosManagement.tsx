@@ -0,0 +1,884 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Calendar, Package, Percent, ShoppingBag, Eye, EyeOff, X } from 'lucide-react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { Combo, ComboService, ComboType, PRICED_COMBO_TYPES } from '../../utils/combo-service';
+
+interface Category {
+  id: string;
+  name: string;
+}
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  price: number;
+}
+
+interface ComboItemForm {
+  product_id: string;
+  quantity: string;
+  is_required: boolean;
+  can_substitute: boolean;
+  substitute_category_id: string;
+}
+
+const COMBO_TYPE_LABELS: Record<ComboType, string> = {
+  bundle: 'Bundle',
+  mix_match: 'Mix & Match',
+  tiered: 'Tiered',
+  bogo: 'Buy One Get One',
+};
+
+const emptyItem = (): ComboItemForm => ({
+  product_id: '',
+  quantity: '1',
+  is_required: true,
+  can_substitute: false,
+  substitute_category_id: '',
+});
+
+export function CombosManagement() {
+  const [combos, setCombos] = useState<Combo[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [products, setProducts] = useState<Product[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreateForm, setShowCreateForm] = useState(false);
+  const [editingCombo, setEditingCombo] = useState<Combo | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const { user } = useAuth();
+
+  // Form data
+  const [formData, setFormData] = useState({
+    name: '',
+    description: '',
+    combo_type: 'bundle' as ComboType,
+    combo_price: '',
+    image_url: '',
+    is_featured: false,
+    minimum_quantity: '1',
+    maximum_quantity: '10',
+    usage_limit: '',
+    requires_all_items: true,
+    starts_at: '',
+    ends_at: '',
+    is_active: true,
+    items: [emptyItem(), emptyItem()] as ComboItemForm[],
+  });
+
+  useEffect(() => {
+    if (user) {
+      fetchCombos();
+      fetchCategories();
+      fetchProducts();
+    }
+  }, [user]);
+
+  const fetchCombos = async () => {
+    try {
+      setLoading(true);
+      console.log('📋 Fetching combos...');
+
+      const { data: combosData, error: combosError } = await supabase
+        .from('combos')
+        .select('*, combo_items (*, product:products (id, name, price, sku))')
+        .order('created_at', { ascending: false });
+
+      if (combosError) {
+        console.error('❌ Error fetching combos:', combosError);
+        throw new Error(`Failed to fetch combos: ${combosError.message}`);
+      }
+
+      console.log('✅ Combos fetched:', combosData);
+      setCombos(combosData || []);
+      setError(null);
+    } catch (error) {
+      console.error('Error fetching combos:', error);
+      setError('Failed to load combos. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchCategories = async () => {
+    try {
+      const { data: categoriesData, error: categoriesError } = await supabase
+        .from('categories')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (categoriesError) {
+        console.error('❌ Error fetching categories:', categoriesError);
+        return;
+      }
+
+      setCategories(categoriesData || []);
+    } catch (error) {
+      console.error('Error fetching categories:', error);
+    }
+  };
+
+  const fetchProducts = async () => {
+    try {
+      const { data: productsData, error: productsError } = await supabase
+        .from('products')
+        .select('id, name, sku, price')
+        .eq('is_active', true)
+        .order('name');
+
+      if (productsError) {
+        console.error('❌ Error fetching products:', productsError);
+        return;
+      }
+
+      setProducts(productsData || []);
+    } catch (error) {
+      console.error('Error fetching products:', error);
+    }
+  };
+
+  // What the chosen items cost when bought separately
+  const originalPrice = formData.items.reduce((sum, item) => {
+    const product = products.find(p => p.id === item.product_id);
+    return sum + Number(product?.price || 0) * (parseInt(item.quantity) || 0);
+  }, 0);
+
+  const updateItem = (index: number, changes: Partial<ComboItemForm>) => {
+    setFormData({
+      ...formData,
+      items: formData.items.map((item, i) => (i === index ? { ...item, ...changes } : item)),
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    const items = formData.items.filter(item => item.product_id);
+    if (items.length < 2) {
+      setError('A combo needs at least two products.');
+      return;
+    }
+    if (new Set(items.map(item => item.product_id)).size !== items.length) {
+      setError('Each product can only appear once in a combo.');
+      return;
+    }
+    if (items.some(item => item.can_substitute && !item.substitute_category_id)) {
+      setError('Choose the category substitutes may come from.');
+      return;
+    }
+
+    if (!PRICED_COMBO_TYPES.includes(formData.combo_type)) {
+      setError('Only bundles can be sold. Change the combo type to Bundle.');
+      return;
+    }
+
+    const comboPrice = parseFloat(formData.combo_price);
+    if (!(comboPrice > 0) || comboPrice >= originalPrice) {
+      setError('The combo price must be above zero and below the price of the items bought separately.');
+      return;
+    }
+
+    try {
+      console.log('💾 Saving combo...', formData);
+
+      const comboData = {
+        name: formData.name,
+        description: formData.description || null,
+        combo_type: formData.combo_type,
+        status: formData.is_active ? 'active' : 'inactive',
+        original_price: Math.round(originalPrice * 100) / 100,
+        combo_price: comboPrice,
+        image_url: formData.image_url || null,
+        is_featured: formData.is_featured,
+        minimum_quantity: parseInt(formData.minimum_quantity) || 1,
+        maximum_quantity: formData.maximum_quantity ? parseInt(formData.maximum_quantity) : null,
+        usage_limit: formData.usage_limit ? parseInt(formData.usage_limit) : null,
+        requires_all_items: formData.requires_all_items,
+        starts_at: formData.starts_at || new Date().toISOString(),
+        ends_at: formData.ends_at || null,
+      };
+
+      let comboId: string;
+
+      if (editingCombo) {
+        const { error } = await supabase
+          .from('combos')
+          .update(comboData)
+          .eq('id', editingCombo.id);
+
+        if (error) throw error;
+        comboId = editingCombo.id;
+      } else {
+        const { data, error } = await supabase
+          .from('combos')
+          .insert([{ ...comboData, created_by: user?.id }])
+          .select()
+          .single();
+
+        if (error) throw error;
+        comboId = data.id;
+      }
+
+      // Replace the combo's items
+      await supabase
+        .from('combo_items')
+        .delete()
+        .eq('combo_id', comboId);
+
+      const comboItems = items.map((item, index) => ({
+        combo_id: comboId,
+        product_id: item.product_id,
+        quantity: parseInt(item.quantity) || 1,
+        is_required: formData.requires_all_items || item.is_required,
+        can_substitute: item.can_substitute,
+        substitute_category_id: item.can_substitute ? item.substitute_category_id : null,
+        sort_order: index,
+      }));
+
+      const { error: itemsError } = await supabase
+        .from('combo_items')
+        .insert(comboItems);
+
+      if (itemsError) throw itemsError;
+
+      console.log('✅ Combo saved successfully');
+      await fetchCombos();
+      resetForm();
+      setShowCreateForm(false);
+      setEditingCombo(null);
+    } catch (error) {
+      console.error('Error saving combo:', error);
+      setError(error instanceof Error ? error.message : 'Failed to save combo. Please try again.');
+    }
+  };
+
+  const handleEdit = (combo: Combo) => {
+    setEditingCombo(combo);
+    setFormData({
+      name: combo.name,
+      description: combo.description || '',
+      combo_type: combo.combo_type,
+      combo_price: combo.combo_price.toString(),
+      image_url: combo.image_url || '',
+      is_featured: combo.is_featured,
+      minimum_quantity: (combo.minimum_quantity || 1).toString(),
+      maximum_quantity: combo.maximum_quantity?.toString() || '',
+      usage_limit: combo.usage_limit?.toString() || '',
+      requires_all_items: combo.requires_all_items !== false,
+      starts_at: combo.starts_at ? combo.starts_at.split('T')[0] : '',
+      ends_at: combo.ends_at ? combo.ends_at.split('T')[0] : '',
+      is_active: combo.status === 'active',
+      items: [...(combo.combo_items || [])]
+        .sort((a, b) => a.sort_order - b.sort_order)
+        .map(item => ({
+          product_id: item.product_id,
+          quantity: item.quantity.toString(),
+          is_required: item.is_required,
+          can_substitute: item.can_substitute,
+          substitute_category_id: item.substitute_category_id || '',
+        })),
+    });
+    setShowCreateForm(true);
+  };
+
+  const handleDelete = async (comboId: string) => {
+    if (!confirm('Are you sure you want to delete this combo?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('combos')
+        .delete()
+        .eq('id', comboId);
+
+      if (error) throw error;
+
+      console.log('✅ Combo deleted successfully');
+      await fetchCombos();
+    } catch (error) {
+      console.error('Error deleting combo:', error);
+      setError('Failed to delete combo. It may already be part of past orders; deactivate it instead.');
+    }
+  };
+
+  const toggleComboStatus = async (combo: Combo) => {
+    try {
+      const { error } = await supabase
+        .from('combos')
+        .update({ status: combo.status === 'active' ? 'inactive' : 'active' })
+        .eq('id', combo.id);
+
+      if (error) throw error;
+
+      console.log('✅ Combo status updated');
+      await fetchCombos();
+    } catch (error) {
+      console.error('Error updating combo status:', error);
+      setError('Failed to update combo status. Please try again.');
+    }
+  };
+
+  const resetForm = () => {
+    setFormData({
+      name: '',
+      description: '',
+      combo_type: 'bundle',
+      combo_price: '',
+      image_url: '',
+      is_featured: false,
+      minimum_quantity: '1',
+      maximum_quantity: '10',
+      usage_limit: '',
+      requires_all_items: true,
+      starts_at: '',
+      ends_at: '',
+      is_active: true,
+      items: [emptyItem(), emptyItem()],
+    });
+  };
+
+  const getStatusColor = (combo: Combo) => {
+    if (combo.status !== 'active') return 'bg-gray-100 text-gray-800';
+    if (!ComboService.isAvailable(combo)) return 'bg-red-100 text-red-800';
+    return 'bg-green-100 text-green-800';
+  };
+
+  const getStatusText = (combo: Combo) => {
+    const now = new Date();
+    if (combo.status !== 'active') return combo.status === 'draft' ? 'Draft' : 'Inactive';
+    if (!PRICED_COMBO_TYPES.includes(combo.combo_type)) return 'Not Sold';
+    if (combo.starts_at && new Date(combo.starts_at) > now) return 'Scheduled';
+    if (combo.ends_at && new Date(combo.ends_at) < now) return 'Expired';
+    if (combo.usage_limit && combo.times_purchased >= combo.usage_limit) return 'Sold Out';
+    return 'Active';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Combos & Bundles</h1>
+          <p className="text-gray-600">Sell groups of products together at a bundle price</p>
+        </div>
+        <Button
+          onClick={() => {
+            resetForm();
+            setEditingCombo(null);
+            setShowCreateForm(true);
+          }}
+          className="flex items-center gap-2 bg-gradient-to-r from-[#4682B4] to-[#97CF50] text-white hover:from-[#2C3E50] hover:to-[#4682B4] transition-all duration-300 shadow-lg hover:shadow-xl"
+        >
+          <Plus className="h-4 w-4" />
+          Create Combo
+        </Button>
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center">
+              <Package className="h-8 w-8 text-green-600" />
+              <div className="ml-3">
+                <p className="text-sm font-medium text-gray-500">Total Combos</p>
+                <p className="text-2xl font-bold text-gray-900">{combos.length}</p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center">
+              <Calendar className="h-8 w-8 text-green-600" />
+              <div className="ml-3">
+                <p className="text-sm font-medium text-gray-500">Active Combos</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {combos.filter(c => ComboService.isAvailable(c)).length}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center">
+              <ShoppingBag className="h-8 w-8 text-purple-600" />
+              <div className="ml-3">
+                <p className="text-sm font-medium text-gray-500">Bundles Sold</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {combos.reduce((sum, c) => sum + (c.times_purchased || 0), 0)}
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardContent className="p-4">
+            <div className="flex items-center">
+              <Percent className="h-8 w-8 text-orange-600" />
+              <div className="ml-3">
+                <p className="text-sm font-medium text-gray-500">Avg. Savings</p>
+                <p className="text-2xl font-bold text-gray-900">
+                  {combos.length > 0
+                    ? Math.round(combos.reduce((sum, c) => sum + ComboService.getSavingsPercent(c), 0) / combos.length)
+                    : 0}%
+                </p>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Create/Edit Form */}
+      {showCreateForm && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{editingCombo ? 'Edit Combo' : 'Create New Combo'}</CardTitle>
+            <CardDescription>
+              Pick the products in the bundle and the price they sell for together
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSubmit} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Name */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Combo Name *
+                  </label>
+                  <Input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                    placeholder="e.g., Kitchen Deep Clean Kit"
+                    required
+                  />
+                </div>
+
+                {/* Type */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Combo Type *
+                  </label>
+                  <select
+                    value={formData.combo_type}
+                    onChange={(e) => setFormData({ ...formData, combo_type: e.target.value as ComboType })}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                    required
+                  >
+                    {PRICED_COMBO_TYPES.map(type => (
+                      <option key={type} value={type}>{COMBO_TYPE_LABELS[type]}</option>
+                    ))}
+                    {!PRICED_COMBO_TYPES.includes(formData.combo_type) && (
+                      <option value={formData.combo_type} disabled>{COMBO_TYPE_LABELS[formData.combo_type]} (not sold)</option>
+                    )}
+                  </select>
+                </div>
+              </div>
+
+              {/* Description */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Description
+                </label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                  placeholder="Describe the bundle..."
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                  rows={3}
+                />
+              </div>
+
+              {/* Items */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Products in this Combo *
+                </label>
+                <div className="space-y-3">
+                  {formData.items.map((item, index) => (
+                    <div key={index} className="border border-gray-300 rounded-md p-3 space-y-2">
+                      <div className="flex gap-2">
+                        <select
+                          value={item.product_id}
+                          onChange={(e) => updateItem(index, { product_id: e.target.value })}
+                          className="flex-1 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                        >
+                          <option value="">Select a product</option>
+                          {products.map(product => (
+                            <option key={product.id} value={product.id}>
+                              {product.name} ({product.sku}) - R{Number(product.price).toFixed(2)}
+                            </option>
+                          ))}
+                        </select>
+                        <Input
+                          type="number"
+                          min="1"
+                          value={item.quantity}
+                          onChange={(e) => updateItem(index, { quantity: e.target.value })}
+                          className="w-24"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={() => setFormData({ ...formData, items: formData.items.filter((_, i) => i !== index) })}
+                          className="text-red-600 hover:text-red-800"
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-4 text-sm">
+                        {!formData.requires_all_items && (
+                          <label className="flex items-center">
+                            <input
+                              type="checkbox"
+                              checked={item.is_required}
+                              onChange={(e) => updateItem(index, { is_required: e.target.checked })}
+                              className="mr-2"
+                            />
+                            Required
+                          </label>
+                        )}
+                        <label className="flex items-center">
+                          <input
+                            type="checkbox"
+                            checked={item.can_substitute}
+                            onChange={(e) => updateItem(index, { can_substitute: e.target.checked })}
+                            className="mr-2"
+                          />
+                          Allow substitutes from
+                        </label>
+                        {item.can_substitute && (
+                          <select
+                            value={item.substitute_category_id}
+                            onChange={(e) => updateItem(index, { substitute_category_id: e.target.value })}
+                            className="px-2 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-green-500"
+                          >
+                            <option value="">Select a category</option>
+                            {categories.map(category => (
+                              <option key={category.id} value={category.id}>{category.name}</option>
+                            ))}
+                          </select>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, items: [...formData.items, emptyItem()] })}
+                  className="mt-3 flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Product
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {/* Combo Price */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Combo Price *
+                  </label>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    value={formData.combo_price}
+                    onChange={(e) => setFormData({ ...formData, combo_price: e.target.value })}
+                    placeholder="0.00"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Bought separately: R{originalPrice.toFixed(2)}
+                  </p>
+                </div>
+
+                {/* Bundles per order */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Min. Bundles per Order
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.minimum_quantity}
+                    onChange={(e) => setFormData({ ...formData, minimum_quantity: e.target.value })}
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Max. Bundles per Order
+                  </label>
+                  <Input
+                    type="number"
+                    min="1"
+                    value={formData.maximum_quantity}
+                    onChange={(e) => setFormData({ ...formData, maximum_quantity: e.target.value })}
+                    placeholder="No limit"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                {/* Start Date */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Start Date
+                  </label>
+                  <Input
+                    type="date"
+                    value={formData.starts_at}
+                    onChange={(e) => setFormData({ ...formData, starts_at: e.target.value })}
+                  />
+                </div>
+
+                {/* End Date */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    End Date
+                  </label>
+                  <Input
+                    type="date"
+                    value={formData.ends_at}
+                    onChange={(e) => setFormData({ ...formData, ends_at: e.target.value })}
+                  />
+                </div>
+
+                {/* Usage Limit */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Total Bundles Available
+                  </label>
+                  <Input
+                    type="number"
+                    value={formData.usage_limit}
+                    onChange={(e) => setFormData({ ...formData, usage_limit: e.target.value })}
+                    placeholder="Unlimited"
+                  />
+                </div>
+              </div>
+
+              {/* Image */}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Image URL
+                </label>
+                <Input
+                  type="url"
+                  value={formData.image_url}
+                  onChange={(e) => setFormData({ ...formData, image_url: e.target.value })}
+                  placeholder="https://..."
+                />
+              </div>
+
+              {/* Flags */}
+              <div className="flex flex-wrap gap-6">
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.requires_all_items}
+                    onChange={(e) => setFormData({ ...formData, requires_all_items: e.target.checked })}
+                    className="mr-2"
+                  />
+                  All products required
+                </label>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_featured}
+                    onChange={(e) => setFormData({ ...formData, is_featured: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Feature on the home page
+                </label>
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={formData.is_active}
+                    onChange={(e) => setFormData({ ...formData, is_active: e.target.checked })}
+                    className="mr-2"
+                  />
+                  Activate combo immediately
+                </label>
+              </div>
+
+              {/* Submit Buttons */}
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => {
+                    setShowCreateForm(false);
+                    setEditingCombo(null);
+                    resetForm();
+                  }}
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" className="bg-gradient-to-r from-[#4682B4] to-[#97CF50] text-white hover:from-[#2C3E50] hover:to-[#4682B4] transition-all duration-300 shadow-lg hover:shadow-xl">
+                  {editingCombo ? 'Update Combo' : 'Create Combo'}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Combos List */}
+      <div className="grid grid-cols-1 lg:grid-cols-2 xl:grid-cols-3 gap-6">
+        {combos.map((combo) => (
+          <Card key={combo.id} className="relative">
+            <CardHeader className="pb-3">
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <CardTitle className="text-lg">{combo.name}</CardTitle>
+                  <div className="mt-1 flex gap-1">
+                    <Badge variant="outline" className="text-xs">
+                      {COMBO_TYPE_LABELS[combo.combo_type] || combo.combo_type}
+                    </Badge>
+                    {combo.is_featured && (
+                      <Badge variant="outline" className="text-xs">
+                        Featured
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+                <Badge className={getStatusColor(combo)}>
+                  {getStatusText(combo)}
+                </Badge>
+              </div>
+            </CardHeader>
+
+            <CardContent className="space-y-4">
+              {/* Price Display */}
+              <div className="bg-gradient-to-r from-green-50 to-purple-50 rounded-lg p-4">
+                <div className="text-2xl font-bold text-green-600">
+                  R{Number(combo.combo_price).toFixed(2)}
+                </div>
+                <div className="text-sm text-gray-600">
+                  <span className="line-through">R{Number(combo.original_price).toFixed(2)}</span>
+                  {' '}Save {ComboService.getSavingsPercent(combo)}%
+                </div>
+              </div>
+
+              {/* Items */}
+              <ul className="text-sm text-gray-600 space-y-1">
+                {(combo.combo_items || []).map(item => (
+                  <li key={item.id}>
+                    {item.quantity} × {item.product?.name || 'Unknown product'}
+                    {!item.is_required && !combo.requires_all_items && ' (optional)'}
+                    {item.can_substitute && ' (swappable)'}
+                  </li>
+                ))}
+              </ul>
+
+              {/* Dates */}
+              {(combo.starts_at || combo.ends_at) && (
+                <div className="text-xs text-gray-500 space-y-1">
+                  {combo.starts_at && (
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      Start: {new Date(combo.starts_at).toLocaleDateString()}
+                    </div>
+                  )}
+                  {combo.ends_at && (
+                    <div className="flex items-center gap-1">
+                      <Calendar className="h-3 w-3" />
+                      End: {new Date(combo.ends_at).toLocaleDateString()}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Usage Stats */}
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Sold: {combo.times_purchased || 0}</span>
+                <span>
+                  Limit: {combo.usage_limit || 'Unlimited'}
+                </span>
+              </div>
+
+              {/* Actions */}
+              <div className="flex justify-between pt-2">
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleEdit(combo)}
+                  >
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => toggleComboStatus(combo)}
+                  >
+                    {combo.status === 'active' ? <EyeOff className="h-3 w-3" /> : <Eye className="h-3 w-3" />}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleDelete(combo.id)}
+                    className="text-red-600 hover:text-red-800"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+
+      {/* Empty State */}
+      {combos.length === 0 && (
+        <Card>
+          <CardContent className="text-center py-12">
+            <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No combos yet</h3>
+            <p className="text-gray-500 mb-4">
+              Group products into a bundle and sell them together at a lower price.
+            </p>
+            <Button
+              onClick={() => {
+                resetForm();
+                setShowCreateForm(true);
+              }}
+              className="bg-gradient-to-r from-[#4682B4] to-[#97CF50] text-white hover:from-[#2C3E50] hover:to-[#4682B4] transition-all duration-300 shadow-lg hover:shadow-xl"
+            >
+              Create Your First Combo
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
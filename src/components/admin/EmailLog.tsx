@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { Mail, RefreshCw, RotateCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import {
+  EMAIL_STATUS_LABELS,
+  EMAIL_TYPE_LABELS,
+  EmailLogEntry,
+  EmailService,
+  EmailStatus,
+  EmailType,
+} from '../../utils/email-service';
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  queued: 'bg-gray-100 text-gray-700',
+  sent: 'bg-blue-100 text-blue-800',
+  delivered: 'bg-green-100 text-green-800',
+  bounced: 'bg-orange-100 text-orange-800',
+  failed: 'bg-red-100 text-red-800',
+  skipped: 'bg-gray-100 text-gray-500',
+};
+
+/**
+ * Every email the server has sent, newest first, with where it got to.
+ * Failed and bounced emails show the provider's reason and can be resent.
+ */
+export function EmailLog() {
+  const [emails, setEmails] = useState<EmailLogEntry[]>([]);
+  const [status, setStatus] = useState<EmailStatus | 'all'>('all');
+  const [type, setType] = useState<EmailType | 'all'>('all');
+  const [recipient, setRecipient] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [resending, setResending] = useState<string | null>(null);
+
+  const loadEmails = async () => {
+    setLoading(true);
+    try {
+      setEmails(await EmailService.getLog({ status, type, recipient }));
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to load sent emails');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEmails();
+  }, [status, type]);
+
+  const handleResend = async (email: EmailLogEntry) => {
+    setResending(email.id);
+    const result = await EmailService.resend(email.id);
+    setResending(null);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to resend email');
+      return;
+    }
+    const updated = result.data;
+    setEmails(current => current.map(item => (item.id === updated.id ? { ...item, ...updated } : item)));
+    if (updated.status === 'sent') {
+      toast.success(`Sent again to ${updated.recipient}`);
+    } else {
+      toast.error(updated.error || 'The email could not be sent');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Emails</h1>
+        <p className="text-gray-600 mt-1">Order, account and cart emails sent to customers, and whether they arrived</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Mail className="h-5 w-5" />
+            Sent emails
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                loadEmails();
+              }}
+            >
+              <Input
+                value={recipient}
+                onChange={(e) => setRecipient(e.target.value)}
+                placeholder="Search by recipient"
+                className="w-56"
+              />
+            </form>
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as EmailType | 'all')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="all">All emails</option>
+              {(Object.keys(EMAIL_TYPE_LABELS) as EmailType[]).map(value => (
+                <option key={value} value={value}>{EMAIL_TYPE_LABELS[value]}</option>
+              ))}
+            </select>
+            <select
+              value={status}
+              onChange={(e) => setStatus(e.target.value as EmailStatus | 'all')}
+              className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+            >
+              <option value="all">Any status</option>
+              {(Object.keys(EMAIL_STATUS_LABELS) as EmailStatus[]).map(value => (
+                <option key={value} value={value}>{EMAIL_STATUS_LABELS[value]}</option>
+              ))}
+            </select>
+            <Button variant="outline" size="sm" onClick={loadEmails} title="Refresh">
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : emails.length === 0 ? (
+            <p className="text-gray-500">No emails match.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Sent</th>
+                    <th className="py-2 pr-4 font-medium">Email</th>
+                    <th className="py-2 pr-4 font-medium">Recipient</th>
+                    <th className="py-2 pr-4 font-medium">Order</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {emails.map(email => (
+                    <tr key={email.id} className="border-b last:border-0 align-top">
+                      <td className="py-3 pr-4 text-gray-600 whitespace-nowrap">
+                        {new Date(email.sent_at || email.created_at).toLocaleString()}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-gray-900">{EMAIL_TYPE_LABELS[email.email_type] || email.email_type}</p>
+                        {email.subject && <p className="text-xs text-gray-500">{email.subject}</p>}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-700">{email.recipient}</td>
+                      <td className="py-3 pr-4 text-gray-700 font-mono text-xs">{email.order?.order_number || '—'}</td>
+                      <td className="py-3 pr-4">
+                        <Badge className={STATUS_STYLES[email.status]}>{EMAIL_STATUS_LABELS[email.status]}</Badge>
+                        {email.error && <p className="mt-1 text-xs text-red-600 max-w-xs">{email.error}</p>}
+                        {email.provider && <p className="mt-1 text-xs text-gray-400">via {email.provider}</p>}
+                      </td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        {email.status !== 'skipped' && email.status !== 'queued' && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={resending === email.id}
+                            onClick={() => handleResend(email)}
+                          >
+                            <RotateCw className="h-4 w-4 mr-1" />
+                            {resending === email.id ? 'Sending...' : 'Resend'}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
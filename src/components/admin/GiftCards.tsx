@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { Gift, Plus, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { GiftCard, TenderService } from '../../utils/tender-service';
+
+const isExpired = (card: GiftCard) => !!card.expires_at && new Date(card.expires_at).getTime() <= Date.now();
+
+/**
+ * Issue store gift cards and look up their balances. Cashiers take them as a
+ * tender at the POS; managers can cancel a card that was lost or stolen.
+ */
+export function GiftCards() {
+  const [cards, setCards] = useState<GiftCard[]>([]);
+  const [search, setSearch] = useState('');
+  const [form, setForm] = useState({ amount: '', expires_at: '', notes: '' });
+  const [issued, setIssued] = useState<GiftCard | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchCards();
+  }, []);
+
+  const fetchCards = async (query = search) => {
+    setLoading(true);
+    const result = await TenderService.listGiftCards(query.trim() || undefined);
+    if (result.success) {
+      setCards(result.data || []);
+    } else {
+      toast.error(result.error || 'Failed to load gift cards');
+    }
+    setLoading(false);
+  };
+
+  const handleIssue = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    const result = await TenderService.issueGiftCard(
+      Number(form.amount),
+      form.expires_at ? new Date(`${form.expires_at}T23:59:59`).toISOString() : null,
+      form.notes
+    );
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to issue gift card');
+      return;
+    }
+
+    toast.success(`Gift card ${result.data.code} issued`);
+    setIssued(result.data);
+    setForm({ amount: '', expires_at: '', notes: '' });
+    fetchCards();
+  };
+
+  const toggleActive = async (card: GiftCard) => {
+    if (card.is_active && !window.confirm(`Cancel gift card ${card.code}? Its R${Number(card.balance).toFixed(2)} balance can no longer be spent.`)) {
+      return;
+    }
+    setBusy(true);
+    const result = await TenderService.setGiftCardActive(card.id, !card.is_active);
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to update gift card');
+      return;
+    }
+    toast.success(`Gift card ${card.code} ${card.is_active ? 'cancelled' : 'reinstated'}`);
+    fetchCards();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Gift Cards</h1>
+        <p className="text-gray-600">Store vouchers customers can pay with at the till</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="h-5 w-5" /> Issue a gift card
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleIssue} className="space-y-3">
+              <Input
+                type="number"
+                min="1"
+                step="0.01"
+                value={form.amount}
+                onChange={(e) => setForm({ ...form, amount: e.target.value })}
+                placeholder="Value (R)"
+              />
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Expires (optional)</label>
+                <Input
+                  type="date"
+                  value={form.expires_at}
+                  onChange={(e) => setForm({ ...form, expires_at: e.target.value })}
+                />
+              </div>
+              <Input
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                placeholder="Notes, e.g. who it was sold to (optional)"
+              />
+              <Button type="submit" disabled={busy || !form.amount} className="w-full">
+                Issue gift card
+              </Button>
+            </form>
+
+            {issued && (
+              <div className="mt-4 p-4 rounded-lg bg-green-50 border border-green-200 text-center">
+                <div className="text-sm text-green-700">Write this code on the voucher</div>
+                <div className="text-xl font-mono font-bold text-green-900 mt-1">{issued.code}</div>
+                <div className="text-sm text-green-700 mt-1">R{Number(issued.initial_value).toFixed(2)}</div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="lg:col-span-2">
+          <CardContent className="p-0">
+            <form
+              onSubmit={(e) => { e.preventDefault(); fetchCards(); }}
+              className="flex gap-2 p-4 border-b"
+            >
+              <Input value={search} onChange={(e) => setSearch(e.target.value)} placeholder="Search by code" />
+              <Button type="submit" variant="outline">
+                <Search className="h-4 w-4" />
+              </Button>
+            </form>
+
+            {loading ? (
+              <div className="flex justify-center py-12">
+                <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+              </div>
+            ) : cards.length === 0 ? (
+              <div className="text-center py-12 text-gray-500">
+                <Gift className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+                No gift cards found
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500 border-b">
+                    <tr>
+                      <th className="px-4 py-3 font-medium">Code</th>
+                      <th className="px-4 py-3 font-medium">Issued</th>
+                      <th className="px-4 py-3 font-medium text-right">Value</th>
+                      <th className="px-4 py-3 font-medium text-right">Balance</th>
+                      <th className="px-4 py-3 font-medium">Status</th>
+                      <th className="px-4 py-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {cards.map(card => (
+                      <tr key={card.id}>
+                        <td className="px-4 py-3 font-mono font-medium text-gray-900">
+                          {card.code}
+                          {card.notes && <div className="font-sans text-xs text-gray-500">{card.notes}</div>}
+                        </td>
+                        <td className="px-4 py-3 text-gray-600">{new Date(card.created_at).toLocaleDateString()}</td>
+                        <td className="px-4 py-3 text-right">R{Number(card.initial_value).toFixed(2)}</td>
+                        <td className="px-4 py-3 text-right font-medium">R{Number(card.balance).toFixed(2)}</td>
+                        <td className="px-4 py-3">
+                          {!card.is_active ? (
+                            <Badge className="bg-red-100 text-red-800">Cancelled</Badge>
+                          ) : isExpired(card) ? (
+                            <Badge className="bg-gray-100 text-gray-800">Expired</Badge>
+                          ) : Number(card.balance) === 0 ? (
+                            <Badge className="bg-gray-100 text-gray-800">Spent</Badge>
+                          ) : (
+                            <Badge className="bg-green-100 text-green-800">Active</Badge>
+                          )}
+                          {card.expires_at && (
+                            <div className="text-xs text-gray-500 mt-1">Expires {new Date(card.expires_at).toLocaleDateString()}</div>
+                          )}
+                        </td>
+                        <td className="px-4 py-3 text-right">
+                          <Button variant="outline" size="sm" disabled={busy} onClick={() => toggleActive(card)}>
+                            {card.is_active ? 'Cancel' : 'Reinstate'}
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { ArrowLeft, PackageCheck, ScanLine } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { BarcodeScanner } from '../BarcodeScanner';
+import { PurchaseOrder, PurchaseOrderItem, PurchasingService } from '../../utils/purchasing-service';
+
+interface GoodsReceivingProps {
+  order: PurchaseOrder;
+  onReceived: (order: PurchaseOrder) => void;
+  onClose: () => void;
+}
+
+const lineName = (item: PurchaseOrderItem) =>
+  item.variant ? `${item.product?.name} (${item.variant.name})` : item.product?.name || 'Unknown product';
+
+/**
+ * Count a delivery against a purchase order. Each scan adds one unit to its
+ * line; quantities can also be typed in for cases of stock.
+ */
+export function GoodsReceiving({ order, onReceived, onClose }: GoodsReceivingProps) {
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [scanCode, setScanCode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [additionalCosts, setAdditionalCosts] = useState('');
+  const [lastScannedId, setLastScannedId] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const outstanding = (item: PurchaseOrderItem) => item.quantity_ordered - item.quantity_received;
+
+  const setCount = (item: PurchaseOrderItem, value: number) => {
+    const quantity = Math.max(0, Math.min(outstanding(item), Math.floor(value) || 0));
+    setCounts(current => ({ ...current, [item.id]: quantity }));
+  };
+
+  const handleScan = (code: string) => {
+    const item = PurchasingService.findLineByCode(order, code);
+    if (!item) {
+      toast.error(`${code} is not on ${order.po_number}`);
+      return;
+    }
+
+    const counted = counts[item.id] || 0;
+    if (counted >= outstanding(item)) {
+      toast.error(`All ${outstanding(item)} of ${lineName(item)} are already counted`);
+      return;
+    }
+    setCount(item, counted + 1);
+    setLastScannedId(item.id);
+  };
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scanCode.trim()) {
+      handleScan(scanCode.trim());
+      setScanCode('');
+    }
+  };
+
+  const totalUnits = Object.values(counts).reduce((sum, quantity) => sum + quantity, 0);
+
+  const handleReceive = async () => {
+    const extra = Number(additionalCosts || 0);
+    if (!Number.isFinite(extra) || extra < 0) {
+      toast.error('Additional costs must be zero or more');
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await PurchasingService.receive(
+      order.id,
+      Object.entries(counts)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([item_id, quantity]) => ({ item_id, quantity })),
+      extra
+    );
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to receive stock');
+      return;
+    }
+
+    toast.success(`${totalUnits} units received on ${order.po_number}`);
+    onReceived(result.data.purchase_order);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Receive {order.po_number}</h1>
+          <p className="text-gray-600">{order.supplier?.name}</p>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" /> Scan items
+          </CardTitle>
+          <CardDescription>
+            Scan each unit as it comes off the delivery, or type the quantity against its line.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleScanSubmit} className="flex gap-2">
+            <Input
+              autoFocus
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Scan or type a barcode or SKU"
+            />
+            <Button type="submit" variant="outline" disabled={!scanCode.trim()}>Add</Button>
+            <Button type="button" variant="outline" onClick={() => setShowScanner(true)}>Camera</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 border-b">
+              <tr>
+                <th className="px-4 py-3 font-medium">Product</th>
+                <th className="px-4 py-3 font-medium">SKU</th>
+                <th className="px-4 py-3 font-medium text-right">Ordered</th>
+                <th className="px-4 py-3 font-medium text-right">Received</th>
+                <th className="px-4 py-3 font-medium text-right">Unit cost</th>
+                <th className="px-4 py-3 font-medium text-right">Receiving now</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {order.purchase_order_items.map(item => {
+                const done = outstanding(item) === 0;
+                return (
+                  <tr key={item.id} className={item.id === lastScannedId ? 'bg-green-50' : done ? 'text-gray-400' : ''}>
+                    <td className="px-4 py-3">{lineName(item)}</td>
+                    <td className="px-4 py-3 text-gray-600">{item.variant?.sku || item.product?.sku}</td>
+                    <td className="px-4 py-3 text-right">{item.quantity_ordered}</td>
+                    <td className="px-4 py-3 text-right">{item.quantity_received}</td>
+                    <td className="px-4 py-3 text-right">R{Number(item.unit_cost).toFixed(2)}</td>
+                    <td className="px-4 py-3 text-right">
+                      {done ? (
+                        'Complete'
+                      ) : (
+                        <Input
+                          type="number"
+                          min="0"
+                          max={outstanding(item)}
+                          value={counts[item.id] || 0}
+                          onChange={(e) => setCount(item, Number(e.target.value))}
+                          className="w-24 ml-auto text-right"
+                        />
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-end gap-4 justify-between">
+          <div className="max-w-xs">
+            <label className="block text-sm font-medium mb-1">Freight, duties and other charges (R)</label>
+            <Input
+              type="number"
+              min="0"
+              step="0.01"
+              value={additionalCosts}
+              onChange={(e) => setAdditionalCosts(e.target.value)}
+              placeholder="0.00"
+            />
+            <p className="text-xs text-gray-500 mt-1">Spread over this delivery's lines by value to give their landed cost.</p>
+          </div>
+          <Button onClick={handleReceive} disabled={submitting || totalUnits === 0} className="flex items-center gap-2">
+            <PackageCheck className="h-4 w-4" />
+            {submitting ? 'Receiving...' : `Receive ${totalUnits} units`}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {showScanner && (
+        <BarcodeScanner
+          title="Scan delivery"
+          description={`Each scan counts one unit against ${order.po_number}`}
+          onBarcodeScanned={handleScan}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+    </div>
+  );
+}
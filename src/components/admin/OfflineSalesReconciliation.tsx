@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, CheckCircle, CloudOff, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { OfflineSaleRecord, OfflineSaleService, OfflineSaleStatus } from '../../utils/offline-sale-service';
+import { TenderService } from '../../utils/tender-service';
+
+const STATUS_TABS: { status: OfflineSaleStatus; label: string }[] = [
+  { status: 'conflict', label: 'Needs review' },
+  { status: 'synced', label: 'Synced' },
+  { status: 'accepted', label: 'Accepted' },
+  { status: 'voided', label: 'Voided' },
+];
+
+const CONFLICT_LABELS: Record<string, string> = {
+  product_unavailable: 'No longer sold',
+  price_changed: 'Price changed',
+  insufficient_stock: 'Not enough stock',
+  total_mismatch: 'Total does not add up',
+  shift_closed: 'Shift already cashed up',
+  discount_not_authorised: 'Discount over limit',
+  record_failed: 'Could not be recorded',
+};
+
+/**
+ * Sales tills took while offline. Those that no longer matched the catalogue
+ * or stock when they synced wait here: accept records the sale as charged
+ * (stock may go negative), void leaves it out of the books.
+ */
+export function OfflineSalesReconciliation() {
+  const [status, setStatus] = useState<OfflineSaleStatus>('conflict');
+  const [sales, setSales] = useState<OfflineSaleRecord[]>([]);
+  const [selected, setSelected] = useState<OfflineSaleRecord | null>(null);
+  const [note, setNote] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchSales();
+  }, [status]);
+
+  const fetchSales = async () => {
+    setLoading(true);
+    const result = await OfflineSaleService.list(status);
+    if (result.success) {
+      setSales(result.data || []);
+    } else {
+      toast.error(result.error || 'Failed to load offline sales');
+    }
+    setLoading(false);
+  };
+
+  const select = (sale: OfflineSaleRecord) => {
+    setSelected(selected?.id === sale.id ? null : sale);
+    setNote('');
+  };
+
+  const resolve = async (action: 'accept' | 'void') => {
+    if (!selected) return;
+    if (action === 'void' && !note.trim()) {
+      toast.error('Say why the sale is being voided');
+      return;
+    }
+
+    setBusy(true);
+    const result = action === 'accept'
+      ? await OfflineSaleService.accept(selected.id, note)
+      : await OfflineSaleService.void(selected.id, note);
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || `Failed to ${action} sale`);
+      return;
+    }
+
+    toast.success(action === 'accept' ? 'Sale recorded as charged' : 'Sale voided');
+    setSelected(null);
+    setNote('');
+    fetchSales();
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Offline Sales</h1>
+        <p className="text-gray-600">Sales tills took without a connection, and the ones that need a decision</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.status}
+            variant={status === tab.status ? 'default' : 'outline'}
+            onClick={() => { setStatus(tab.status); setSelected(null); }}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : sales.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <CloudOff className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              {status === 'conflict' ? 'Nothing waiting for review' : 'No offline sales here'}
+            </div>
+          ) : (
+            <div className="divide-y">
+              {sales.map(sale => (
+                <div key={sale.id}>
+                  <button
+                    onClick={() => select(sale)}
+                    className="w-full px-4 py-3 flex items-center justify-between text-left text-sm hover:bg-gray-50"
+                  >
+                    <div>
+                      <div className="font-medium text-gray-900 font-mono">{sale.id.slice(0, 13).toUpperCase()}</div>
+                      <div className="text-gray-600">
+                        {new Date(sale.sold_at).toLocaleString()} · {sale.sold_by_name || 'Unknown cashier'}
+                        {sale.till_id ? ` · ${sale.till_id}` : ''}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      {sale.status === 'conflict' && sale.conflicts.map((conflict, index) => (
+                        <Badge key={index} className="bg-amber-100 text-amber-800">
+                          {CONFLICT_LABELS[conflict.type] || conflict.type}
+                        </Badge>
+                      ))}
+                      <span className="font-medium">R{Number(sale.total).toFixed(2)}</span>
+                    </div>
+                  </button>
+
+                  {selected?.id === sale.id && (
+                    <div className="px-4 pb-4 grid grid-cols-1 lg:grid-cols-2 gap-4 text-sm">
+                      <div className="space-y-3">
+                        <table className="w-full">
+                          <thead className="text-left text-gray-500 border-b">
+                            <tr>
+                              <th className="py-2 font-medium">Item</th>
+                              <th className="py-2 font-medium text-right">Qty</th>
+                              <th className="py-2 font-medium text-right">Charged</th>
+                            </tr>
+                          </thead>
+                          <tbody className="divide-y">
+                            {sale.payload.items.map((item, index) => (
+                              <tr key={index}>
+                                <td className="py-2">{item.name}</td>
+                                <td className="py-2 text-right">{item.quantity}</td>
+                                <td className="py-2 text-right">R{(item.unit_price * item.quantity).toFixed(2)}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                        {sale.payload.discount_amount > 0 && (
+                          <div className="flex justify-between text-gray-600">
+                            <span>Discount ({sale.payload.discount_percent}%)</span>
+                            <span>-R{Number(sale.payload.discount_amount).toFixed(2)}</span>
+                          </div>
+                        )}
+                        {sale.payload.tenders.map((tender, index) => (
+                          <div key={index} className="flex justify-between text-gray-600">
+                            <span>{TenderService.getLabel(tender.method)}{tender.reference ? ` (${tender.reference})` : ''}</span>
+                            <span>R{Number(tender.amount).toFixed(2)}</span>
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="space-y-3">
+                        {sale.conflicts.length > 0 && (
+                          <ul className="space-y-2">
+                            {sale.conflicts.map((conflict, index) => (
+                              <li key={index} className="flex items-start gap-2 text-amber-800">
+                                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                                {conflict.message}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+
+                        {sale.status === 'conflict' ? (
+                          <>
+                            <textarea
+                              value={note}
+                              onChange={(e) => setNote(e.target.value)}
+                              placeholder="Note, e.g. stock found in the back room (required to void)"
+                              rows={2}
+                              className="w-full px-3 py-2 border rounded-md text-sm"
+                            />
+                            <div className="flex gap-2">
+                              <Button onClick={() => resolve('accept')} disabled={busy} className="flex-1 flex items-center justify-center gap-2">
+                                <CheckCircle className="h-4 w-4" /> Accept as charged
+                              </Button>
+                              <Button variant="outline" onClick={() => resolve('void')} disabled={busy} className="flex-1 flex items-center justify-center gap-2">
+                                <XCircle className="h-4 w-4" /> Void
+                              </Button>
+                            </div>
+                            <p className="text-xs text-gray-500">
+                              The customer has already paid. Accepting records the sale at the prices charged and takes the stock, even below zero.
+                            </p>
+                          </>
+                        ) : (
+                          <div className="text-gray-600 space-y-1">
+                            {sale.order_id && <div>Order <span className="font-mono">{sale.order_id}</span></div>}
+                            {sale.resolved_at && (
+                              <div>
+                                {sale.status === 'voided' ? 'Voided' : 'Accepted'} by {sale.resolved_by_name || 'a manager'} on {new Date(sale.resolved_at).toLocaleString()}
+                              </div>
+                            )}
+                            {sale.resolution_note && <div>{sale.resolution_note}</div>}
+                          </div>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Truck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  COURIERS,
+  OrderTracking,
+  SHIPMENT_STATUS_LABELS,
+  ShipmentService,
+  ShipmentStatus,
+} from '../../utils/shipment-service';
+
+interface OrderShipmentsProps {
+  orderId: string;
+  onChanged: () => void; // The order's status may have moved
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' });
+
+/**
+ * Parcels sent for an order, recording a new one with its courier, tracking
+ * number and the quantities in it, and the order's status history
+ */
+export default function OrderShipments({ orderId, onChanged }: OrderShipmentsProps) {
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [adding, setAdding] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [courier, setCourier] = useState('');
+  const [trackingNumber, setTrackingNumber] = useState('');
+  const [trackingUrl, setTrackingUrl] = useState('');
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    ShipmentService.getTracking(orderId).then(result => {
+      if (!result.success) {
+        toast.error(result.error || 'Failed to load shipments');
+        return;
+      }
+      setTracking(result.data || null);
+    });
+  }, [orderId]);
+
+  if (!tracking) return null;
+
+  const shipping = tracking.fulfillment_method !== 'collect';
+  const unshipped = tracking.items.filter(item => item.shipped < item.quantity);
+
+  const startAdding = () => {
+    setCourier('');
+    setTrackingNumber('');
+    setTrackingUrl('');
+    setQuantities(Object.fromEntries(unshipped.map(item => [item.order_item_id, item.quantity - item.shipped])));
+    setAdding(true);
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    const result = await ShipmentService.createShipment(orderId, {
+      courier,
+      tracking_number: trackingNumber,
+      tracking_url: trackingUrl || null,
+      items: Object.entries(quantities)
+        .filter(([, quantity]) => quantity > 0)
+        .map(([order_item_id, quantity]) => ({ order_item_id, quantity })),
+    });
+    setSaving(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to record shipment');
+      return;
+    }
+    setTracking(result.data.tracking);
+    setAdding(false);
+    if (result.data.notified) {
+      toast.success('Shipment recorded and the customer has been emailed the tracking number');
+    } else {
+      toast.warning('Shipment recorded, but the customer email could not be sent');
+    }
+    onChanged();
+  };
+
+  const handleStatusChange = async (shipmentId: string, status: ShipmentStatus) => {
+    const result = await ShipmentService.updateStatus(shipmentId, status);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to update shipment');
+      return;
+    }
+    const orderDelivered = result.data.status === 'delivered' && tracking.status !== 'delivered';
+    setTracking(result.data);
+    toast.success(orderDelivered ? 'Every parcel is delivered, so the order is marked delivered' : 'Shipment updated');
+    if (result.data.status !== tracking.status) onChanged();
+  };
+
+  return (
+    <div className="mt-6 bg-white rounded-xl border border-gray-200">
+      <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-xl flex items-center justify-between">
+        <h4 className="text-sm font-semibold text-gray-700">{shipping ? `Shipments (${tracking.shipments.length})` : 'Status history'}</h4>
+        {shipping && !adding && unshipped.length > 0 && (
+          <button onClick={startAdding} className="inline-flex items-center gap-1 text-sm text-[#09215F] hover:underline">
+            <Plus className="h-4 w-4" />
+            Add shipment
+          </button>
+        )}
+      </div>
+      <div className="p-4 space-y-4">
+        {adding && (
+          <form onSubmit={handleCreate} className="p-4 bg-gray-50 rounded-lg space-y-3">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Courier</label>
+                <input
+                  list="order-shipment-couriers"
+                  value={courier}
+                  onChange={(e) => setCourier(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+                <datalist id="order-shipment-couriers">
+                  {COURIERS.map(name => <option key={name} value={name} />)}
+                </datalist>
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Tracking number</label>
+                <input
+                  value={trackingNumber}
+                  onChange={(e) => setTrackingNumber(e.target.value)}
+                  required
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm font-mono"
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-gray-600 mb-1">Tracking link (optional)</label>
+                <input
+                  type="url"
+                  value={trackingUrl}
+                  onChange={(e) => setTrackingUrl(e.target.value)}
+                  placeholder="https://"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
+                />
+              </div>
+            </div>
+
+            <div>
+              <p className="text-xs font-medium text-gray-600 mb-1">In this parcel</p>
+              <div className="space-y-1">
+                {unshipped.map(item => (
+                  <div key={item.order_item_id} className="flex items-center justify-between text-sm">
+                    <span>{item.name}</span>
+                    <span className="flex items-center gap-2 text-gray-500">
+                      <input
+                        type="number"
+                        min="0"
+                        max={item.quantity - item.shipped}
+                        value={quantities[item.order_item_id] ?? 0}
+                        onChange={(e) => setQuantities({ ...quantities, [item.order_item_id]: Math.max(0, Number(e.target.value) || 0) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-md text-right"
+                      />
+                      of {item.quantity - item.shipped} left
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setAdding(false)}
+                className="px-3 py-2 rounded-lg border border-gray-300 text-gray-700 text-sm hover:bg-white"
+              >
+                <X className="h-4 w-4" />
+              </button>
+              <button
+                type="submit"
+                disabled={saving}
+                className="px-4 py-2 rounded-lg bg-[#09215F] text-white text-sm hover:bg-[#09215F]/90 disabled:opacity-50"
+              >
+                {saving ? 'Saving...' : 'Record shipment'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {shipping && tracking.shipments.length === 0 && !adding && (
+          <p className="text-sm text-gray-500">Nothing has shipped yet.</p>
+        )}
+
+        {tracking.shipments.map(shipment => (
+          <div key={shipment.id} className="flex items-start justify-between gap-3 text-sm">
+            <div>
+              <p className="flex items-center gap-2 font-medium text-gray-900">
+                <Truck className="h-4 w-4 text-[#09215F]" />
+                {shipment.courier}
+                {shipment.tracking_url ? (
+                  <a href={shipment.tracking_url} target="_blank" rel="noopener noreferrer" className="font-mono text-blue-600 hover:underline">
+                    {shipment.tracking_number}
+                  </a>
+                ) : (
+                  <span className="font-mono">{shipment.tracking_number}</span>
+                )}
+              </p>
+              <p className="text-gray-500">{shipment.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}</p>
+              <p className="text-xs text-gray-400">Sent {formatDateTime(shipment.shipped_at)}</p>
+            </div>
+            <select
+              value={shipment.status}
+              onChange={(e) => handleStatusChange(shipment.id, e.target.value as ShipmentStatus)}
+              className="px-2 py-1 border border-gray-300 rounded-md text-sm"
+            >
+              {(Object.keys(SHIPMENT_STATUS_LABELS) as ShipmentStatus[]).map(status => (
+                <option key={status} value={status}>{SHIPMENT_STATUS_LABELS[status]}</option>
+              ))}
+            </select>
+          </div>
+        ))}
+
+        {tracking.history.length > 0 && (
+          <div className={shipping ? 'pt-3 border-t border-gray-100' : ''}>
+            {shipping && <p className="text-xs font-medium text-gray-600 mb-2">Status history</p>}
+            <ul className="space-y-1 text-xs text-gray-600">
+              {tracking.history.map((change, index) => (
+                <li key={index} className="flex justify-between">
+                  <span className="capitalize">
+                    {change.previous_status && change.previous_status !== change.status
+                      ? `${change.previous_status.replace(/_/g, ' ')} → ${change.status.replace(/_/g, ' ')}`
+                      : change.status.replace(/_/g, ' ')}
+                    {change.fulfillment_status && ` · ${change.fulfillment_status}`}
+                  </span>
+                  <span className="text-gray-400">{formatDateTime(change.created_at)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
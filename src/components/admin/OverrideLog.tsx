@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, ShieldCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { supabase } from '../../lib/supabase';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Input } from '../ui/input';
+import { useAuth } from '../../contexts/AuthContext';
+import { Approver, Override, OverrideAction, OverrideFilters, OverrideService, OVERRIDE_LABELS } from '../../utils/override-service';
+import { getPosPermissions } from '../../utils/roleRouting';
+
+interface StaffMember {
+  id: string;
+  name: string;
+  role: string;
+}
+
+const ACTION_COLOURS: Record<OverrideAction, string> = {
+  discount: 'bg-green-100 text-green-800',
+  price_override: 'bg-blue-100 text-blue-800',
+  void: 'bg-red-100 text-red-800',
+  no_sale: 'bg-amber-100 text-amber-800',
+};
+
+/**
+ * Every discount, price override, void and no-sale drawer open taken at the
+ * tills, with who asked for it and who authorised it. Managers also set the
+ * PIN they type on a till to approve a cashier's override here.
+ */
+export function OverrideLog() {
+  const { userProfile } = useAuth();
+  const [overrides, setOverrides] = useState<Override[]>([]);
+  const [staff, setStaff] = useState<StaffMember[]>([]);
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [filters, setFilters] = useState<OverrideFilters>({});
+  const [pin, setPin] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [savingPin, setSavingPin] = useState(false);
+
+  useEffect(() => {
+    fetchStaff();
+    fetchApprovers();
+  }, []);
+
+  useEffect(() => {
+    fetchOverrides();
+  }, [filters]);
+
+  const fetchOverrides = async () => {
+    setLoading(true);
+    const result = await OverrideService.list({
+      ...filters,
+      // Whole days in the store's time zone
+      from: filters.from ? new Date(`${filters.from}T00:00:00`).toISOString() : undefined,
+      to: filters.to ? new Date(`${filters.to}T23:59:59.999`).toISOString() : undefined,
+    });
+    if (result.success) {
+      setOverrides(result.data || []);
+    } else {
+      toast.error(result.error || 'Failed to load overrides');
+    }
+    setLoading(false);
+  };
+
+  const fetchStaff = async () => {
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id, first_name, last_name, email, role')
+      .in('role', ['cashier', 'staff', 'manager', 'admin'])
+      .order('first_name');
+    if (error) {
+      console.error('Failed to load staff:', error);
+      return;
+    }
+    setStaff((data || []).map((member: any) => ({
+      id: member.id,
+      name: [member.first_name, member.last_name].filter(Boolean).join(' ') || member.email,
+      role: member.role,
+    })));
+  };
+
+  const fetchApprovers = async () => {
+    const result = await OverrideService.listApprovers();
+    if (result.success) setApprovers(result.data || []);
+  };
+
+  const setFilter = (key: keyof OverrideFilters, value: string) => {
+    setFilters(current => ({ ...current, [key]: value || undefined }));
+  };
+
+  const handleSavePin = async () => {
+    setSavingPin(true);
+    const result = await OverrideService.setPin(pin);
+    setSavingPin(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to save PIN');
+      return;
+    }
+    toast.success('Override PIN saved');
+    setPin('');
+    fetchApprovers();
+  };
+
+  const hasPin = approvers.some(approver => approver.id === userProfile?.id);
+  const permissions = getPosPermissions(userProfile?.role);
+  const selectClass = 'w-full px-3 py-2 border rounded-md text-sm bg-white';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Overrides</h1>
+        <p className="text-gray-600">Discounts, price overrides, voids and no-sales at the tills, and who authorised them</p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-center gap-4">
+          <div className="flex items-start gap-3 flex-1">
+            <KeyRound className="h-5 w-5 mt-0.5 text-gray-500" />
+            <div className="text-sm">
+              <div className="font-medium text-gray-900">Your override PIN</div>
+              <div className="text-gray-600">
+                {hasPin ? 'Set. ' : 'Not set yet. '}
+                You can approve discounts up to {permissions.maxDiscountPercent}%
+                {permissions.canOverridePrice ? ', price overrides' : ''}
+                {permissions.canVoid ? ', voids' : ''}
+                {permissions.canOpenDrawer ? ' and no-sales' : ''} on any till.
+              </div>
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="password"
+              inputMode="numeric"
+              autoComplete="new-password"
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+              placeholder="4 to 8 digits"
+              className="w-36"
+            />
+            <Button onClick={handleSavePin} disabled={savingPin || pin.length < 4}>
+              {hasPin ? 'Change PIN' : 'Set PIN'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+        <select value={filters.action || ''} onChange={(e) => setFilter('action', e.target.value)} className={selectClass}>
+          <option value="">All overrides</option>
+          {(Object.keys(OVERRIDE_LABELS) as OverrideAction[]).map(action => (
+            <option key={action} value={action}>{OVERRIDE_LABELS[action]}</option>
+          ))}
+        </select>
+        <select value={filters.requested_by || ''} onChange={(e) => setFilter('requested_by', e.target.value)} className={selectClass}>
+          <option value="">Any cashier</option>
+          {staff.map(member => <option key={member.id} value={member.id}>{member.name}</option>)}
+        </select>
+        <select value={filters.approved_by || ''} onChange={(e) => setFilter('approved_by', e.target.value)} className={selectClass}>
+          <option value="">Any approver</option>
+          {staff.filter(member => ['manager', 'admin', 'staff'].includes(member.role)).map(member => (
+            <option key={member.id} value={member.id}>{member.name}</option>
+          ))}
+        </select>
+        <Input type="date" value={filters.from || ''} onChange={(e) => setFilter('from', e.target.value)} />
+        <Input type="date" value={filters.to || ''} onChange={(e) => setFilter('to', e.target.value)} />
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : overrides.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <ShieldCheck className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No overrides match these filters
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-2 font-medium">When</th>
+                  <th className="px-4 py-2 font-medium">Override</th>
+                  <th className="px-4 py-2 font-medium">Details</th>
+                  <th className="px-4 py-2 font-medium">Cashier</th>
+                  <th className="px-4 py-2 font-medium">Authorised by</th>
+                  <th className="px-4 py-2 font-medium">Reason</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {overrides.map(override => (
+                  <tr key={override.id}>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">{new Date(override.created_at).toLocaleString()}</td>
+                    <td className="px-4 py-2">
+                      <Badge className={ACTION_COLOURS[override.action]}>{OVERRIDE_LABELS[override.action]}</Badge>
+                    </td>
+                    <td className="px-4 py-2">{OverrideService.describe(override)}</td>
+                    <td className="px-4 py-2">{override.requested_by_name || 'Unknown'}</td>
+                    <td className="px-4 py-2">
+                      {override.self_authorised ? <span className="text-gray-500">Own authority</span> : override.approved_by_name || 'Unknown'}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600">{override.reason || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
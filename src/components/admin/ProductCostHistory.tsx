@@ -0,0 +1,90 @@
+import React, { useEffect, useState } from 'react';
+import { Loader2, Receipt } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { CostHistoryEntry, PurchasingService } from '../../utils/purchasing-service';
+
+interface ProductCostHistoryProps {
+  productId: string;
+  refreshKey?: number;
+}
+
+/**
+ * Landed cost of each delivery of a product and the cost price it left,
+ * newest first
+ */
+export function ProductCostHistory({ productId, refreshKey = 0 }: ProductCostHistoryProps) {
+  const [entries, setEntries] = useState<CostHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const fetchHistory = async () => {
+      setLoading(true);
+      const result = await PurchasingService.getCostHistory(productId);
+      if (result.success) {
+        setEntries(result.data || []);
+        setError(null);
+      } else {
+        setError(result.error || 'Failed to load cost history');
+      }
+      setLoading(false);
+    };
+
+    fetchHistory();
+  }, [productId, refreshKey]);
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center gap-2 px-4 py-3 border-b bg-gray-50 font-medium text-gray-900">
+        <Receipt className="h-4 w-4" /> Landed cost history
+      </div>
+
+      {error && <p className="px-4 py-3 text-sm text-red-700">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      ) : !error && entries.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-gray-500 text-center">No deliveries received yet.</p>
+      ) : entries.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">Received</th>
+                <th className="px-4 py-2 font-medium">Order</th>
+                <th className="px-4 py-2 font-medium">Supplier</th>
+                <th className="px-4 py-2 font-medium text-right">Qty</th>
+                <th className="px-4 py-2 font-medium text-right">Unit cost</th>
+                <th className="px-4 py-2 font-medium text-right">Landed</th>
+                <th className="px-4 py-2 font-medium text-right">Cost price</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {entries.map(entry => (
+                <tr key={entry.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{new Date(entry.received_at).toLocaleDateString()}</td>
+                  <td className="px-4 py-2">
+                    <Link to="/admin/purchase-orders" className="text-green-700 hover:underline">
+                      {entry.purchase_order?.po_number || '—'}
+                    </Link>
+                    {entry.variant && <span className="text-gray-500"> · {entry.variant.name}</span>}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{entry.supplier?.name || '—'}</td>
+                  <td className="px-4 py-2 text-right">{entry.quantity}</td>
+                  <td className="px-4 py-2 text-right">R{Number(entry.unit_cost).toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right font-medium">R{Number(entry.landed_unit_cost).toFixed(2)}</td>
+                  <td className="px-4 py-2 text-right text-gray-600">
+                    {entry.cost_price_before != null && `R${Number(entry.cost_price_before).toFixed(2)} → `}
+                    R{Number(entry.cost_price_after).toFixed(2)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
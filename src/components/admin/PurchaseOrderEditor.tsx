@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { supabase } from '../../lib/supabase';
+import { useAuth } from '../../contexts/AuthContext';
+import { ProductVariant, VariantService } from '../../utils/variant-service';
+import {
+  PurchaseOrder,
+  PurchaseOrderLineDraft,
+  PurchasingService,
+  Supplier,
+} from '../../utils/purchasing-service';
+
+interface Product {
+  id: string;
+  name: string;
+  sku: string;
+  cost_price: number | null;
+  has_variants: boolean;
+  supplier_id: string | null;
+}
+
+interface PurchaseOrderEditorProps {
+  order?: PurchaseOrder | null;
+  suppliers: Supplier[];
+  onSaved: (order: PurchaseOrder) => void;
+  onClose: () => void;
+}
+
+const EMPTY_LINE: PurchaseOrderLineDraft = { product_id: '', variant_id: null, quantity_ordered: 1, unit_cost: 0 };
+
+/**
+ * Create a purchase order or change a draft one
+ */
+export function PurchaseOrderEditor({ order, suppliers, onSaved, onClose }: PurchaseOrderEditorProps) {
+  const { user } = useAuth();
+  const [supplierId, setSupplierId] = useState(order?.supplier_id || '');
+  const [expectedAt, setExpectedAt] = useState(order?.expected_at || '');
+  const [notes, setNotes] = useState(order?.notes || '');
+  const [lines, setLines] = useState<PurchaseOrderLineDraft[]>(
+    order?.purchase_order_items.map(item => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      quantity_ordered: item.quantity_ordered,
+      unit_cost: Number(item.unit_cost),
+    })) || [{ ...EMPTY_LINE }]
+  );
+  const [products, setProducts] = useState<Product[]>([]);
+  const [variants, setVariants] = useState<Record<string, ProductVariant[]>>({});
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchProducts = async () => {
+      const { data, error } = await supabase
+        .from('products')
+        .select('id, name, sku, cost_price, has_variants, supplier_id')
+        .order('name');
+
+      if (error) {
+        toast.error('Failed to load products');
+        return;
+      }
+      setProducts(data || []);
+
+      const variantProductIds = (data || []).filter(product => product.has_variants).map(product => product.id);
+      setVariants(await VariantService.getVariantsForProducts(variantProductIds));
+    };
+
+    fetchProducts();
+  }, []);
+
+  // Offer the chosen supplier's products first
+  const sortedProducts = supplierId
+    ? [...products].sort((a, b) => Number(b.supplier_id === supplierId) - Number(a.supplier_id === supplierId))
+    : products;
+
+  const updateLine = (index: number, changes: Partial<PurchaseOrderLineDraft>) => {
+    setLines(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const handleProductChange = (index: number, productId: string) => {
+    const product = products.find(p => p.id === productId);
+    updateLine(index, { product_id: productId, variant_id: null, unit_cost: Number(product?.cost_price || 0) });
+  };
+
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0);
+
+  const handleSave = async () => {
+    const incomplete = lines.find(line => {
+      const product = products.find(p => p.id === line.product_id);
+      return !product || (product.has_variants && !line.variant_id);
+    });
+    if (incomplete) {
+      toast.error('Choose a product, and a variant where it has them, on every line');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const saved = await PurchasingService.saveDraft(
+        { id: order?.id, supplier_id: supplierId, expected_at: expectedAt || null, notes, lines },
+        user?.id
+      );
+      toast.success(order ? `${saved.po_number} updated` : `${saved.po_number} created as a draft`);
+      onSaved(saved);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save purchase order');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>{order ? `Edit ${order.po_number}` : 'New purchase order'}</CardTitle>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium mb-1">Supplier *</label>
+            <select
+              className="w-full px-3 py-2 border rounded-md"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+            >
+              <option value="">Choose a supplier</option>
+              {suppliers.map(supplier => (
+                <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Expected delivery</label>
+            <Input type="date" value={expectedAt} onChange={(e) => setExpectedAt(e.target.value)} />
+          </div>
+          <div>
+            <label className="block text-sm font-medium mb-1">Notes</label>
+            <Input value={notes} onChange={(e) => setNotes(e.target.value)} />
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          {lines.map((line, index) => {
+            const product = products.find(p => p.id === line.product_id);
+            return (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end">
+                <div className="col-span-12 md:col-span-4">
+                  {index === 0 && <label className="block text-sm font-medium mb-1">Product</label>}
+                  <select
+                    className="w-full px-3 py-2 border rounded-md"
+                    value={line.product_id}
+                    onChange={(e) => handleProductChange(index, e.target.value)}
+                  >
+                    <option value="">Choose a product</option>
+                    {sortedProducts.map(p => (
+                      <option key={p.id} value={p.id}>{p.name} ({p.sku})</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-12 md:col-span-3">
+                  {index === 0 && <label className="block text-sm font-medium mb-1">Variant</label>}
+                  <select
+                    className="w-full px-3 py-2 border rounded-md disabled:bg-gray-50"
+                    value={line.variant_id || ''}
+                    disabled={!product?.has_variants}
+                    onChange={(e) => updateLine(index, { variant_id: e.target.value || null })}
+                  >
+                    <option value="">{product?.has_variants ? 'Choose a variant' : '—'}</option>
+                    {(variants[line.product_id] || []).map(variant => (
+                      <option key={variant.id} value={variant.id}>{variant.name}</option>
+                    ))}
+                  </select>
+                </div>
+                <div className="col-span-4 md:col-span-2">
+                  {index === 0 && <label className="block text-sm font-medium mb-1">Quantity</label>}
+                  <Input
+                    type="number"
+                    min="1"
+                    value={line.quantity_ordered}
+                    onChange={(e) => updateLine(index, { quantity_ordered: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                  />
+                </div>
+                <div className="col-span-6 md:col-span-2">
+                  {index === 0 && <label className="block text-sm font-medium mb-1">Unit cost (R)</label>}
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={line.unit_cost}
+                    onChange={(e) => updateLine(index, { unit_cost: Math.max(0, Number(e.target.value) || 0) })}
+                  />
+                </div>
+                <div className="col-span-2 md:col-span-1">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setLines(lines.filter((_, i) => i !== index))}
+                    disabled={lines.length === 1}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            );
+          })}
+          <Button variant="outline" size="sm" onClick={() => setLines([...lines, { ...EMPTY_LINE }])} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" /> Add line
+          </Button>
+        </div>
+
+        <div className="flex items-center justify-between border-t pt-4">
+          <p className="text-lg font-semibold">Subtotal: R{subtotal.toFixed(2)}</p>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={onClose}>Cancel</Button>
+            <Button onClick={handleSave} disabled={saving}>{saving ? 'Saving...' : 'Save Draft'}</Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,215 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardList, Edit, PackageCheck, Plus, Send, Sparkles, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { useAuth } from '../../contexts/AuthContext';
+import { PurchaseOrder, PurchaseOrderStatus, PurchasingService, Supplier } from '../../utils/purchasing-service';
+import { PurchaseOrderEditor } from './PurchaseOrderEditor';
+import { ReorderSuggestions } from './ReorderSuggestions';
+import { GoodsReceiving } from './GoodsReceiving';
+
+type View = 'list' | 'edit' | 'suggestions' | 'receive';
+
+const STATUS_TABS: { status: PurchaseOrderStatus | 'open'; label: string }[] = [
+  { status: 'open', label: 'Open' },
+  { status: 'draft', label: 'Draft' },
+  { status: 'sent', label: 'Sent' },
+  { status: 'partially_received', label: 'Partially received' },
+  { status: 'received', label: 'Received' },
+  { status: 'cancelled', label: 'Cancelled' },
+];
+
+const STATUS_COLOURS: Record<PurchaseOrderStatus, string> = {
+  draft: 'bg-gray-100 text-gray-800',
+  sent: 'bg-blue-100 text-blue-800',
+  partially_received: 'bg-amber-100 text-amber-800',
+  received: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function PurchaseOrders() {
+  const { isAtLeastRole } = useAuth();
+  const canManage = isAtLeastRole('manager');
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [statusTab, setStatusTab] = useState<PurchaseOrderStatus | 'open'>('open');
+  const [view, setView] = useState<View>('list');
+  const [current, setCurrent] = useState<PurchaseOrder | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    PurchasingService.getSuppliers().then(setSuppliers);
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [statusTab]);
+
+  const fetchOrders = async () => {
+    setLoading(true);
+    const data = await PurchasingService.getPurchaseOrders(statusTab === 'open' ? undefined : statusTab);
+    setOrders(statusTab === 'open' ? data.filter(PurchasingService.isOpen) : data);
+    setLoading(false);
+  };
+
+  const openView = (next: View, order: PurchaseOrder | null = null) => {
+    setCurrent(order);
+    setView(next);
+  };
+
+  const backToList = () => {
+    openView('list');
+    fetchOrders();
+  };
+
+  const runAction = async (order: PurchaseOrder, action: () => Promise<void>, success: string) => {
+    setBusyId(order.id);
+    try {
+      await action();
+      toast.success(success);
+      fetchOrders();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to update purchase order');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (view === 'receive' && current) {
+    return <GoodsReceiving order={current} onReceived={backToList} onClose={backToList} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Purchase Orders</h1>
+          <p className="text-gray-600">Order stock from suppliers and receive deliveries into stock</p>
+        </div>
+        {canManage && view === 'list' && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => openView('suggestions')} className="flex items-center gap-2">
+              <Sparkles className="h-4 w-4" /> From Reorder Suggestions
+            </Button>
+            <Button onClick={() => openView('edit')} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" /> New Purchase Order
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {view === 'edit' && (
+        <PurchaseOrderEditor order={current} suppliers={suppliers} onSaved={backToList} onClose={() => openView('list')} />
+      )}
+
+      {view === 'suggestions' && (
+        <ReorderSuggestions suppliers={suppliers} onCreated={backToList} onClose={() => openView('list')} />
+      )}
+
+      {/* Status tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.status}
+            variant={statusTab === tab.status ? 'default' : 'outline'}
+            onClick={() => setStatusTab(tab.status)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <ClipboardList className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No purchase orders here
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 border-b">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Order</th>
+                    <th className="px-4 py-3 font-medium">Supplier</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Units</th>
+                    <th className="px-4 py-3 font-medium text-right">Subtotal</th>
+                    <th className="px-4 py-3 font-medium">Expected</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {orders.map(order => {
+                    const ordered = order.purchase_order_items.reduce((sum, item) => sum + item.quantity_ordered, 0);
+                    const received = order.purchase_order_items.reduce((sum, item) => sum + item.quantity_received, 0);
+                    return (
+                      <tr key={order.id}>
+                        <td className="px-4 py-3">
+                          <div className="font-medium text-gray-900">{order.po_number}</div>
+                          <div className="text-xs text-gray-500">{new Date(order.created_at).toLocaleDateString()}</div>
+                        </td>
+                        <td className="px-4 py-3">{order.supplier?.name || '—'}</td>
+                        <td className="px-4 py-3">
+                          <Badge className={STATUS_COLOURS[order.status]}>{PurchasingService.getStatusLabel(order.status)}</Badge>
+                        </td>
+                        <td className="px-4 py-3 text-right">{received > 0 ? `${received} / ${ordered}` : ordered}</td>
+                        <td className="px-4 py-3 text-right">R{Number(order.subtotal).toFixed(2)}</td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {order.expected_at ? new Date(order.expected_at).toLocaleDateString() : '—'}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex justify-end gap-2">
+                            {canManage && order.status === 'draft' && (
+                              <>
+                                <Button variant="outline" size="sm" onClick={() => openView('edit', order)}>
+                                  <Edit className="h-4 w-4" />
+                                </Button>
+                                <Button
+                                  size="sm"
+                                  disabled={busyId === order.id}
+                                  onClick={() => runAction(order, () => PurchasingService.markSent(order.id), `${order.po_number} marked as sent`)}
+                                  className="flex items-center gap-1"
+                                >
+                                  <Send className="h-4 w-4" /> Send
+                                </Button>
+                              </>
+                            )}
+                            {(order.status === 'sent' || order.status === 'partially_received') && (
+                              <Button size="sm" onClick={() => openView('receive', order)} className="flex items-center gap-1">
+                                <PackageCheck className="h-4 w-4" /> Receive
+                              </Button>
+                            )}
+                            {canManage && (order.status === 'draft' || order.status === 'sent') && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                disabled={busyId === order.id}
+                                onClick={() => runAction(order, () => PurchasingService.cancel(order.id), `${order.po_number} cancelled`)}
+                              >
+                                <XCircle className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Printer, Save } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Input } from '../ui/input';
+import { ReceiptModel, ReceiptService, ReceiptTemplate } from '../../utils/receipt-service';
+import { renderReceiptHtml } from '../../utils/receipt-renderer';
+
+// A made-up sale so the preview shows every part of the receipt
+const sampleReceipt = (template: ReceiptTemplate): ReceiptModel => ({
+  template,
+  order_id: 'preview',
+  order_number: '3f9c2a71-8b4e-4d2a-9c1f-6e0b7a5d4c21',
+  created_at: new Date().toISOString(),
+  cashier_name: 'Thandi M',
+  customer_name: 'Sipho Dlamini',
+  lines: [
+    { name: 'Sunlight Dishwashing Liquid 750ml', sku: 'SUN-750', quantity: 2, unit_price: 32.99, amount: 65.98, vat_code: 'A' },
+    { name: 'Brown Bread 700g', sku: 'BRD-700', quantity: 1, unit_price: 18.5, amount: 18.5, vat_code: 'Z' },
+  ],
+  subtotal: 84.48,
+  discount: 0,
+  loyalty_discount: 5,
+  shipping: 0,
+  total: 79.48,
+  vat_summary: [
+    { code: 'A', rate: 0.15, net: 53.97, vat: 8.1, gross: 62.07 },
+    { code: 'Z', rate: 0, net: 17.41, vat: 0, gross: 17.41 },
+  ],
+  vat_total: 8.1,
+  tenders: [
+    { method: 'loyalty', amount: 5 },
+    { method: 'cash', amount: 79.48, tendered: 100, change: 20.52 },
+  ],
+  change: 20.52,
+  loyalty: { points_used: 50, points_earned: 7, balance: 312 },
+  barcode: '3F9C2A718B4E',
+});
+
+/**
+ * Edit what goes on the till receipt, with a preview at the chosen paper width
+ */
+export function ReceiptTemplateEditor() {
+  const [template, setTemplate] = useState<ReceiptTemplate | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [printerConnected, setPrinterConnected] = useState(ReceiptService.hasThermalPrinter());
+
+  useEffect(() => {
+    fetchTemplate();
+  }, []);
+
+  const fetchTemplate = async () => {
+    const result = await ReceiptService.getTemplate();
+    if (result.success && result.data) {
+      setTemplate(result.data);
+    } else {
+      toast.error(result.error || 'Failed to load receipt template');
+    }
+  };
+
+  const preview = useMemo(() => (template ? renderReceiptHtml(sampleReceipt(template)) : ''), [template]);
+
+  const update = (changes: Partial<ReceiptTemplate>) => {
+    if (template) setTemplate({ ...template, ...changes });
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!template) return;
+    setSaving(true);
+    const result = await ReceiptService.saveTemplate(template);
+    setSaving(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to save receipt template');
+      return;
+    }
+    setTemplate(result.data);
+    toast.success('Receipt template saved');
+  };
+
+  const handleTestPrint = async () => {
+    if (!template) return;
+    const printed = await ReceiptService.print(sampleReceipt(template));
+    if (!printed) toast.error('Allow pop-ups to print receipts from the browser');
+  };
+
+  const handleConnectPrinter = async () => {
+    if (printerConnected) {
+      ReceiptService.disconnectThermalPrinter();
+      setPrinterConnected(false);
+      return;
+    }
+    const connected = await ReceiptService.connectThermalPrinter();
+    setPrinterConnected(connected);
+    if (connected) toast.success('Receipts on this device will print to the thermal printer');
+  };
+
+  if (!template) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Receipts</h1>
+        <p className="text-gray-600">What prints on till slips, and the thermal printer on this device</p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Receipt template</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Store name</label>
+                <Input value={template.store_name} onChange={(e) => update({ store_name: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Address (one line each)</label>
+                <textarea
+                  value={template.address_lines.join('\n')}
+                  onChange={(e) => update({ address_lines: e.target.value.split('\n') })}
+                  rows={3}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                />
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">Phone</label>
+                  <Input value={template.phone} onChange={(e) => update({ phone: e.target.value })} />
+                </div>
+                <div>
+                  <label className="block text-sm text-gray-600 mb-1">VAT number</label>
+                  <Input value={template.vat_number} onChange={(e) => update({ vat_number: e.target.value })} placeholder="4xxxxxxxxx" />
+                </div>
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Header message</label>
+                <Input value={template.header_message} onChange={(e) => update({ header_message: e.target.value })} />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Footer message</label>
+                <textarea
+                  value={template.footer_message}
+                  onChange={(e) => update({ footer_message: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Returns policy</label>
+                <textarea
+                  value={template.returns_policy}
+                  onChange={(e) => update({ returns_policy: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                />
+              </div>
+              <div>
+                <label className="block text-sm text-gray-600 mb-1">Paper width</label>
+                <select
+                  value={template.paper_width}
+                  onChange={(e) => update({ paper_width: Number(e.target.value) === 58 ? 58 : 80 })}
+                  className="w-full px-3 py-2 border rounded-md text-sm"
+                >
+                  <option value={80}>80mm (48 characters)</option>
+                  <option value={58}>58mm (32 characters)</option>
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.show_vat_summary}
+                    onChange={(e) => update({ show_vat_summary: e.target.checked })}
+                  />
+                  VAT summary
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.show_loyalty}
+                    onChange={(e) => update({ show_loyalty: e.target.checked })}
+                  />
+                  Loyalty points
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.show_barcode}
+                    onChange={(e) => update({ show_barcode: e.target.checked })}
+                  />
+                  Order barcode for returns
+                </label>
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={template.open_cash_drawer}
+                    onChange={(e) => update({ open_cash_drawer: e.target.checked })}
+                  />
+                  Open cash drawer on cash sales
+                </label>
+              </div>
+              <Button type="submit" disabled={saving} className="w-full flex items-center justify-center gap-2">
+                <Save className="h-4 w-4" /> Save template
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        <div className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>Preview</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="bg-white border rounded-md p-4 overflow-x-auto" dangerouslySetInnerHTML={{ __html: preview }} />
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Printer className="h-5 w-5" /> Thermal printer
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {ReceiptService.supportsThermalPrinter() ? (
+                <p className="text-sm text-gray-600">
+                  {printerConnected
+                    ? 'Receipts on this device print to the connected ESC/POS printer.'
+                    : 'Receipts on this device print through the browser. Connect a USB or serial ESC/POS printer to print directly.'}
+                </p>
+              ) : (
+                <p className="text-sm text-gray-600">
+                  This browser cannot talk to serial printers; receipts print through the browser print dialog.
+                </p>
+              )}
+              <div className="flex gap-2">
+                {ReceiptService.supportsThermalPrinter() && (
+                  <Button variant="outline" onClick={handleConnectPrinter}>
+                    {printerConnected ? 'Disconnect printer' : 'Connect printer'}
+                  </Button>
+                )}
+                <Button variant="outline" onClick={handleTestPrint}>
+                  Print test receipt
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+}
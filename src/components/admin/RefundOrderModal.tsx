@@ -0,0 +1,264 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { toast } from 'sonner';
+import LoadingSpinner from '../common/LoadingSpinner';
+import { serverRequest } from '../../utils/server-api';
+
+interface RefundableLine {
+  order_item_id: string;
+  product_id: string | null;
+  name: string;
+  quantity: number;
+  refunded_quantity: number;
+  refundable_quantity: number;
+  unit_amount: number;
+}
+
+interface RefundRecord {
+  id: string;
+  refund_number: string;
+  amount: number;
+  refund_method: 'card' | 'cash' | 'store_credit';
+  reason?: string;
+  created_at: string;
+}
+
+interface RefundDetails {
+  order_number: string;
+  payment_status: string;
+  total: number;
+  amount_refunded: number;
+  shipping_amount: number;
+  lines: RefundableLine[];
+  refunds: RefundRecord[];
+}
+
+interface RefundOrderModalProps {
+  open: boolean;
+  orderId: string;
+  onClose: () => void;
+  onRefunded: () => void;
+}
+
+const formatZAR = (amount: number) =>
+  new Intl.NumberFormat('en-ZA', { style: 'currency', currency: 'ZAR' }).format(amount);
+
+export default function RefundOrderModal({ open, orderId, onClose, onRefunded }: RefundOrderModalProps) {
+  const [details, setDetails] = useState<RefundDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [fullRefund, setFullRefund] = useState(true);
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [includeShipping, setIncludeShipping] = useState(false);
+  const [restock, setRestock] = useState(true);
+  const [reason, setReason] = useState('');
+  // One id per dialog session so a double submit cannot refund the card twice
+  const [requestId, setRequestId] = useState(() => crypto.randomUUID());
+
+  const loadDetails = async () => {
+    setLoading(true);
+    setError(null);
+    const result = await serverRequest<RefundDetails>(`/orders/${orderId}/refunds`);
+    if (result.success && result.data) {
+      setDetails(result.data);
+    } else {
+      setError(result.error || 'Failed to load refund details');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (open && orderId) {
+      setFullRefund(true);
+      setQuantities({});
+      setIncludeShipping(false);
+      setRestock(true);
+      setReason('');
+      setRequestId(crypto.randomUUID());
+      loadDetails();
+    }
+  }, [open, orderId]);
+
+  const remaining = details ? Math.max(0, details.total - details.amount_refunded) : 0;
+
+  const refundAmount = useMemo(() => {
+    if (!details) return 0;
+    if (fullRefund) return remaining;
+    const linesTotal = details.lines.reduce(
+      (sum, line) => sum + line.unit_amount * (quantities[line.order_item_id] || 0),
+      0
+    );
+    return Math.min(remaining, linesTotal + (includeShipping ? details.shipping_amount : 0));
+  }, [details, fullRefund, quantities, includeShipping, remaining]);
+
+  if (!open) return null;
+
+  const handleQuantityChange = (line: RefundableLine, value: string) => {
+    const quantity = Math.max(0, Math.min(line.refundable_quantity, parseInt(value, 10) || 0));
+    setQuantities(prev => ({ ...prev, [line.order_item_id]: quantity }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details) return;
+
+    const lines = fullRefund
+      ? undefined
+      : Object.entries(quantities)
+          .filter(([, quantity]) => quantity > 0)
+          .map(([order_item_id, quantity]) => ({ order_item_id, quantity }));
+
+    if (!fullRefund && (!lines || lines.length === 0)) {
+      setError('Select at least one item to refund');
+      return;
+    }
+
+    if (!window.confirm(`Refund ${formatZAR(refundAmount)} for order ${details.order_number}?`)) {
+      return;
+    }
+
+    setSubmitting(true);
+    setError(null);
+    const result = await serverRequest(`/orders/${orderId}/refunds`, {
+      method: 'POST',
+      body: { lines, reason: reason.trim() || undefined, restock, includeShipping, requestId },
+    });
+    setSubmitting(false);
+
+    if (!result.success) {
+      setError(result.error || 'Refund failed');
+      return;
+    }
+
+    toast.success(`Refund ${result.data?.refund?.refund_number} processed (${formatZAR(result.data?.amount || refundAmount)})`);
+    onRefunded();
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/40">
+      <div className="bg-white w-full max-w-2xl mx-4 rounded-2xl shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex items-center justify-between p-5 border-b">
+          <h3 className="text-xl font-semibold text-[#2C3E50]">
+            Refund {details ? `Order ${details.order_number}` : 'Order'}
+          </h3>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-gray-100 transition-colors" aria-label="Close">
+            <X className="h-5 w-5 text-[#2C3E50]" />
+          </button>
+        </div>
+
+        {loading || !details ? (
+          <div className="p-10 flex justify-center">
+            {error ? <p className="text-sm text-red-700">{error}</p> : <LoadingSpinner />}
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="p-5 space-y-5">
+            {error && (
+              <div className="bg-red-50 border border-red-200 rounded-xl p-3 text-sm text-red-700">{error}</div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3 text-sm">
+              <div className="bg-gray-50 rounded-xl p-3">
+                <div className="text-gray-500">Order total</div>
+                <div className="font-semibold text-gray-900">{formatZAR(details.total)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-3">
+                <div className="text-gray-500">Already refunded</div>
+                <div className="font-semibold text-gray-900">{formatZAR(details.amount_refunded)}</div>
+              </div>
+              <div className="bg-gray-50 rounded-xl p-3">
+                <div className="text-gray-500">Refundable</div>
+                <div className="font-semibold text-gray-900">{formatZAR(remaining)}</div>
+              </div>
+            </div>
+
+            <div className="flex gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={fullRefund} onChange={() => setFullRefund(true)} />
+                Full refund
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" checked={!fullRefund} onChange={() => setFullRefund(false)} />
+                Selected items
+              </label>
+            </div>
+
+            {!fullRefund && (
+              <div className="border border-gray-200 rounded-xl divide-y">
+                {details.lines.map(line => (
+                  <div key={line.order_item_id} className="flex items-center justify-between p-3 text-sm">
+                    <div>
+                      <div className="font-medium text-gray-900">{line.name}</div>
+                      <div className="text-gray-500">
+                        {formatZAR(line.unit_amount)} each • bought {line.quantity}
+                        {line.refunded_quantity > 0 && ` • ${line.refunded_quantity} already refunded`}
+                      </div>
+                    </div>
+                    <input
+                      type="number"
+                      min={0}
+                      max={line.refundable_quantity}
+                      disabled={line.refundable_quantity === 0}
+                      value={quantities[line.order_item_id] || 0}
+                      onChange={(e) => handleQuantityChange(line, e.target.value)}
+                      className="w-20 border border-gray-300 rounded-lg px-2 py-1 text-right disabled:bg-gray-100"
+                    />
+                  </div>
+                ))}
+                {details.shipping_amount > 0 && (
+                  <label className="flex items-center gap-2 p-3 text-sm">
+                    <input type="checkbox" checked={includeShipping} onChange={(e) => setIncludeShipping(e.target.checked)} />
+                    Also refund shipping ({formatZAR(details.shipping_amount)})
+                  </label>
+                )}
+              </div>
+            )}
+
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={restock} onChange={(e) => setRestock(e.target.checked)} />
+              Return refunded items to stock
+            </label>
+
+            <div>
+              <label className="block text-sm text-[#2C3E50] mb-1">Reason</label>
+              <textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={2}
+                className="w-full border border-gray-300 rounded-xl px-3 py-2.5 focus:outline-none focus:ring-2 focus:ring-[#4682B4] focus:border-transparent"
+                placeholder="e.g. Damaged on arrival"
+              />
+            </div>
+
+            {details.refunds.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-700 mb-2">Previous refunds</h4>
+                <div className="space-y-1 text-sm">
+                  {details.refunds.map(refund => (
+                    <div key={refund.id} className="flex justify-between text-gray-600">
+                      <span>{refund.refund_number} • {refund.refund_method.replace('_', ' ')} • {new Date(refund.created_at).toLocaleDateString('en-ZA')}</span>
+                      <span>{formatZAR(refund.amount)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between pt-2 border-t">
+              <div className="text-lg font-semibold text-gray-900">Refund {formatZAR(refundAmount)}</div>
+              <button
+                type="submit"
+                disabled={submitting || refundAmount <= 0}
+                className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                <RotateCcw className="h-4 w-4" />
+                {submitting ? 'Processing...' : 'Process Refund'}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+}
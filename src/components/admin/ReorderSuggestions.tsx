@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Sparkles, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { useAuth } from '../../contexts/AuthContext';
+import { PurchaseOrder, PurchasingService, ReorderSuggestion, Supplier } from '../../utils/purchasing-service';
+
+interface ReorderSuggestionsProps {
+  suppliers: Supplier[];
+  onCreated: (orders: PurchaseOrder[]) => void;
+  onClose: () => void;
+}
+
+interface Selection {
+  selected: boolean;
+  quantity: number;
+  supplier_id: string;
+}
+
+const RISK_COLOURS: Record<string, string> = {
+  Critical: 'bg-red-100 text-red-800',
+  High: 'bg-orange-100 text-orange-800',
+  Medium: 'bg-yellow-100 text-yellow-800',
+  Low: 'bg-gray-100 text-gray-700',
+};
+
+/**
+ * The predictive-inventory reorder list, turned into draft purchase orders
+ * grouped by supplier
+ */
+export function ReorderSuggestions({ suppliers, onCreated, onClose }: ReorderSuggestionsProps) {
+  const { user } = useAuth();
+  const [suggestions, setSuggestions] = useState<ReorderSuggestion[]>([]);
+  const [selections, setSelections] = useState<Record<string, Selection>>({});
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    const fetchSuggestions = async () => {
+      const data = await PurchasingService.getReorderSuggestions();
+      setSuggestions(data);
+      setSelections(Object.fromEntries(data.map(suggestion => [suggestion.product_id, {
+        selected: !suggestion.has_variants && !!suggestion.supplier_id,
+        quantity: suggestion.suggested_quantity,
+        supplier_id: suggestion.supplier_id || '',
+      }])));
+      setLoading(false);
+    };
+
+    fetchSuggestions();
+  }, []);
+
+  const update = (productId: string, changes: Partial<Selection>) => {
+    setSelections(current => ({ ...current, [productId]: { ...current[productId], ...changes } }));
+  };
+
+  const chosen = suggestions.filter(suggestion => selections[suggestion.product_id]?.selected);
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const orders = await PurchasingService.createFromSuggestions(
+        chosen.map(suggestion => ({ suggestion, ...selections[suggestion.product_id] })),
+        user?.id
+      );
+      toast.success(`${orders.length} draft purchase order${orders.length === 1 ? '' : 's'} created`);
+      onCreated(orders);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to create purchase orders');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Sparkles className="h-5 w-5" /> Reorder suggestions
+          </CardTitle>
+          <CardDescription>
+            Products forecast to run low within 30 days, with 90 days of sales as the order quantity, less what is
+            already on order.
+          </CardDescription>
+        </div>
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <X className="h-4 w-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+          </div>
+        ) : suggestions.length === 0 ? (
+          <p className="text-center py-8 text-gray-500">Nothing needs reordering right now.</p>
+        ) : (
+          <>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 border-b">
+                  <tr>
+                    <th className="py-2 pr-2"></th>
+                    <th className="py-2 pr-4 font-medium">Product</th>
+                    <th className="py-2 pr-4 font-medium">Risk</th>
+                    <th className="py-2 pr-4 font-medium text-right">In stock</th>
+                    <th className="py-2 pr-4 font-medium text-right">On order</th>
+                    <th className="py-2 pr-4 font-medium">Supplier</th>
+                    <th className="py-2 font-medium text-right">Order qty</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {suggestions.map(suggestion => {
+                    const selection = selections[suggestion.product_id];
+                    return (
+                      <tr key={suggestion.product_id} className={suggestion.has_variants ? 'text-gray-400' : ''}>
+                        <td className="py-2 pr-2">
+                          <input
+                            type="checkbox"
+                            checked={selection.selected}
+                            disabled={suggestion.has_variants}
+                            onChange={(e) => update(suggestion.product_id, { selected: e.target.checked })}
+                          />
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="font-medium">{suggestion.name}</div>
+                          <div className="text-xs text-gray-500">
+                            {suggestion.has_variants
+                              ? 'Stocked per variant; add it to an order by variant'
+                              : `${suggestion.days_until_stockout} days of stock left`}
+                          </div>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <Badge className={RISK_COLOURS[suggestion.risk_level] || RISK_COLOURS.Low}>{suggestion.risk_level}</Badge>
+                        </td>
+                        <td className="py-2 pr-4 text-right">{suggestion.current_stock}</td>
+                        <td className="py-2 pr-4 text-right">{suggestion.on_order}</td>
+                        <td className="py-2 pr-4">
+                          <select
+                            className="px-2 py-1 border rounded-md"
+                            value={selection.supplier_id}
+                            disabled={suggestion.has_variants}
+                            onChange={(e) => update(suggestion.product_id, { supplier_id: e.target.value })}
+                          >
+                            <option value="">Choose a supplier</option>
+                            {suppliers.map(supplier => (
+                              <option key={supplier.id} value={supplier.id}>{supplier.name}</option>
+                            ))}
+                          </select>
+                        </td>
+                        <td className="py-2 text-right">
+                          <Input
+                            type="number"
+                            min="1"
+                            value={selection.quantity}
+                            disabled={suggestion.has_variants}
+                            onChange={(e) => update(suggestion.product_id, { quantity: Math.max(0, Math.floor(Number(e.target.value) || 0)) })}
+                            className="w-24 ml-auto text-right"
+                          />
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleCreate} disabled={creating || chosen.length === 0}>
+                {creating ? 'Creating...' : `Create draft orders for ${chosen.length} products`}
+              </Button>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useEffect, useState } from 'react';
+import { Check, X, Star, MessageSquare, CheckCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { ImageWithFallback } from '../figma/ImageWithFallback';
+import { ModerationReview, ReviewService, ReviewStatus } from '../../utils/review-service';
+
+const STATUS_TABS: { status: ReviewStatus; label: string }[] = [
+  { status: 'pending', label: 'Pending' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'rejected', label: 'Rejected' },
+];
+
+export function ReviewsModeration() {
+  const [status, setStatus] = useState<ReviewStatus>('pending');
+  const [reviews, setReviews] = useState<ModerationReview[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<string | null>(null);
+  const [reason, setReason] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchReviews();
+  }, [status]);
+
+  const fetchReviews = async () => {
+    setLoading(true);
+    const result = await ReviewService.getModerationQueue(status);
+    if (result.success) {
+      setReviews(result.data || []);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load reviews. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  const handleModerate = async (review: ModerationReview, action: 'approve' | 'reject') => {
+    if (action === 'reject' && !reason.trim()) {
+      toast.error('Give a reason for rejecting the review');
+      return;
+    }
+
+    setBusyId(review.id);
+    const result = await ReviewService.moderate(review.id, action, action === 'reject' ? reason.trim() : undefined);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to moderate review');
+      return;
+    }
+
+    toast.success(action === 'approve' ? 'Review published' : 'Review rejected');
+    setRejecting(null);
+    setReason('');
+    setReviews(reviews.filter(r => r.id !== review.id));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Product Reviews</h1>
+        <p className="text-gray-600">Check customer reviews before they appear on the store</p>
+      </div>
+
+      {/* Status tabs */}
+      <div className="flex gap-2">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.status}
+            variant={status === tab.status ? 'default' : 'outline'}
+            onClick={() => setStatus(tab.status)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      {/* Error Display */}
+      {error && (
+        <div className="bg-red-50 border border-red-200 rounded-md p-4">
+          <p className="text-red-800">{error}</p>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="flex items-center justify-center min-h-[200px]">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+        </div>
+      ) : reviews.length === 0 ? (
+        <Card>
+          <CardContent className="text-center py-12">
+            <MessageSquare className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">No {status} reviews</h3>
+            <p className="text-gray-500">
+              {status === 'pending' ? 'New reviews will show up here for checking.' : 'Nothing to show in this list yet.'}
+            </p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-4">
+          {reviews.map(review => (
+            <Card key={review.id}>
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between gap-4">
+                  <div>
+                    <p className="font-semibold text-gray-900">{review.product?.name || 'Deleted product'}</p>
+                    <p className="text-sm text-gray-500">
+                      {review.reviewer_name}
+                      {review.reviewer_email && ` · ${review.reviewer_email}`}
+                      {' · '}
+                      {new Date(review.created_at).toLocaleString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {review.is_verified_purchase && (
+                      <Badge variant="outline" className="text-xs text-green-700">
+                        <CheckCircle className="h-3 w-3 mr-1" /> Verified purchase
+                      </Badge>
+                    )}
+                    <div className="flex">
+                      {[1, 2, 3, 4, 5].map(star => (
+                        <Star
+                          key={star}
+                          className={`h-4 w-4 ${star <= review.rating ? 'text-yellow-400 fill-current' : 'text-gray-300'}`}
+                        />
+                      ))}
+                    </div>
+                  </div>
+                </div>
+
+                {review.title && <p className="font-medium text-gray-900">{review.title}</p>}
+                {review.review_text && <p className="text-gray-700 whitespace-pre-line">{review.review_text}</p>}
+
+                {review.photos?.length > 0 && (
+                  <div className="flex gap-2">
+                    {review.photos.map(photo => (
+                      <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="w-20 h-20 rounded-md overflow-hidden border">
+                        <ImageWithFallback src={photo} alt="Review photo" className="w-full h-full object-cover" />
+                      </a>
+                    ))}
+                  </div>
+                )}
+
+                {review.status === 'rejected' && review.rejection_reason && (
+                  <p className="text-sm text-red-700">Rejected: {review.rejection_reason}</p>
+                )}
+
+                {rejecting === review.id ? (
+                  <div className="flex flex-col md:flex-row gap-2">
+                    <input
+                      className="flex-1 px-3 py-2 border rounded-md"
+                      placeholder="Reason for rejecting (shown to the customer)"
+                      value={reason}
+                      onChange={(e) => setReason(e.target.value)}
+                      autoFocus
+                    />
+                    <Button
+                      variant="destructive"
+                      disabled={busyId === review.id}
+                      onClick={() => handleModerate(review, 'reject')}
+                    >
+                      Reject
+                    </Button>
+                    <Button variant="outline" onClick={() => { setRejecting(null); setReason(''); }}>
+                      Cancel
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    {review.status !== 'approved' && (
+                      <Button
+                        size="sm"
+                        disabled={busyId === review.id}
+                        onClick={() => handleModerate(review, 'approve')}
+                        className="bg-green-600 hover:bg-green-700 text-white"
+                      >
+                        <Check className="h-4 w-4 mr-1" /> Approve
+                      </Button>
+                    )}
+                    {review.status !== 'rejected' && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={busyId === review.id}
+                        onClick={() => { setRejecting(review.id); setReason(''); }}
+                      >
+                        <X className="h-4 w-4 mr-1" /> Reject
+                      </Button>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
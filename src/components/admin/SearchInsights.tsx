@@ -0,0 +1,218 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Edit, Plus, SearchX, Shuffle, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { useAuth } from '../../contexts/AuthContext';
+import { SearchService, SearchSynonym, ZeroResultSearch } from '../../utils/search-service';
+
+const PERIODS = [7, 30, 90];
+
+/**
+ * What shoppers searched for and found nothing, next to the synonym list that
+ * usually fixes it. Adding a synonym from a search prefills its words; once a
+ * search is dealt with it can be dismissed until it fails again.
+ */
+export function SearchInsights() {
+  const { user } = useAuth();
+  const [days, setDays] = useState(30);
+  const [searches, setSearches] = useState<ZeroResultSearch[]>([]);
+  const [synonyms, setSynonyms] = useState<SearchSynonym[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<{ id?: string; terms: string } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const loadSearches = async () => {
+    setLoading(true);
+    setSearches(await SearchService.getZeroResultSearches(days));
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSearches();
+  }, [days]);
+
+  useEffect(() => {
+    SearchService.getSynonyms().then(setSynonyms);
+  }, []);
+
+  const handleDismiss = async (search: ZeroResultSearch) => {
+    if (!user) return;
+    try {
+      await SearchService.dismissZeroResultSearch(search.normalized, user.id);
+      setSearches(current => current.filter(item => item.normalized !== search.normalized));
+      toast.success(`Dismissed "${search.sample_query}"`);
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to dismiss search');
+    }
+  };
+
+  const handleSaveSynonym = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    setSaving(true);
+    try {
+      const saved = await SearchService.saveSynonym(editing.terms.split(','), editing.id);
+      setSynonyms(current =>
+        editing.id ? current.map(item => (item.id === saved.id ? saved : item)) : [...current, saved]
+      );
+      setEditing(null);
+      toast.success('Synonym saved. Searches pick it up within a few minutes.');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save synonym');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteSynonym = async (synonym: SearchSynonym) => {
+    if (!confirm(`Delete the synonym "${synonym.terms.join(', ')}"?`)) return;
+    try {
+      await SearchService.deleteSynonym(synonym.id);
+      setSynonyms(current => current.filter(item => item.id !== synonym.id));
+      toast.success('Synonym deleted');
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete synonym');
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold text-gray-900">Search</h1>
+        <p className="text-gray-600 mt-1">Searches that found nothing, and the synonyms that widen what a word matches</p>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <SearchX className="h-5 w-5" />
+            Searches with no results
+          </CardTitle>
+          <select
+            value={days}
+            onChange={(e) => setDays(Number(e.target.value))}
+            className="border border-gray-300 rounded-md px-3 py-2 text-sm"
+          >
+            {PERIODS.map(period => (
+              <option key={period} value={period}>Last {period} days</option>
+            ))}
+          </select>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-gray-500">Loading...</p>
+          ) : searches.length === 0 ? (
+            <p className="text-gray-500">Every search in this period found something.</p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Search</th>
+                    <th className="py-2 pr-4 font-medium text-right">Searches</th>
+                    <th className="py-2 pr-4 font-medium text-right">Shoppers</th>
+                    <th className="py-2 pr-4 font-medium">Last searched</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {searches.map(search => (
+                    <tr key={search.normalized} className="border-b last:border-0">
+                      <td className="py-3 pr-4">
+                        <p className="font-medium text-gray-900">{search.sample_query}</p>
+                        {search.sample_query.toLowerCase() !== search.normalized && (
+                          <p className="text-xs text-gray-500">{search.normalized}</p>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-right">{search.searches}</td>
+                      <td className="py-3 pr-4 text-right">{search.shoppers}</td>
+                      <td className="py-3 pr-4 text-gray-600">{new Date(search.last_searched_at).toLocaleString()}</td>
+                      <td className="py-3 text-right whitespace-nowrap">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="mr-2"
+                          onClick={() => setEditing({ terms: `${search.normalized}, ` })}
+                        >
+                          <Shuffle className="h-4 w-4 mr-1" />
+                          Add synonym
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => handleDismiss(search)}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Dismiss
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle className="flex items-center gap-2">
+            <Shuffle className="h-5 w-5" />
+            Synonyms
+          </CardTitle>
+          <Button size="sm" onClick={() => setEditing({ terms: '' })}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Synonym
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {editing && (
+            <form onSubmit={handleSaveSynonym} className="flex flex-col md:flex-row gap-2 p-4 bg-gray-50 rounded-lg">
+              <Input
+                autoFocus
+                value={editing.terms}
+                onChange={(e) => setEditing({ ...editing, terms: e.target.value })}
+                placeholder="Words that mean the same, separated by commas, e.g. bleach, hypochlorite"
+                className="flex-1"
+              />
+              <div className="flex gap-2">
+                <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </form>
+          )}
+
+          {synonyms.length === 0 ? (
+            <p className="text-gray-500">No synonyms yet.</p>
+          ) : (
+            <div className="divide-y">
+              {synonyms.map(synonym => (
+                <div key={synonym.id} className="flex items-center justify-between py-3">
+                  <div className="flex flex-wrap gap-2">
+                    {synonym.terms.map(term => (
+                      <Badge key={term} variant="secondary">{term}</Badge>
+                    ))}
+                  </div>
+                  <div className="flex gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing({ id: synonym.id, terms: synonym.terms.join(', ') })}
+                    >
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteSynonym(synonym)}>
+                      <Trash2 className="h-4 w-4 text-red-600" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
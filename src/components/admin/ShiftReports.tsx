@@ -0,0 +1,194 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, Clock } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent } from '../ui/card';
+import { Badge } from '../ui/badge';
+import ShiftReportView from '../cashier/ShiftReportView';
+import { Shift, ShiftReport, ShiftService, ShiftStatus } from '../../utils/shift-service';
+
+type Filter = 'to_review' | ShiftStatus;
+
+const FILTER_TABS: { filter: Filter; label: string }[] = [
+  { filter: 'to_review', label: 'To review' },
+  { filter: 'open', label: 'Open' },
+  { filter: 'closed', label: 'Closed' },
+];
+
+const formatRand = (value: number | null) =>
+  value == null ? '—' : `${value < 0 ? '-' : ''}R${Math.abs(Number(value)).toFixed(2)}`;
+
+/**
+ * Every till's shifts with their cash-up results. Managers open a shift's
+ * X- or Z-report here, print it and sign off the cash-up.
+ */
+export function ShiftReports() {
+  const [shifts, setShifts] = useState<Shift[]>([]);
+  const [filter, setFilter] = useState<Filter>('to_review');
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchShifts();
+  }, [filter]);
+
+  const fetchShifts = async () => {
+    setLoading(true);
+    const result = await ShiftService.list({ status: filter === 'to_review' ? 'closed' : filter });
+    if (result.success) {
+      const data = result.data || [];
+      setShifts(filter === 'to_review' ? data.filter(shift => !shift.reviewed_at) : data);
+    } else {
+      toast.error(result.error || 'Failed to load shifts');
+    }
+    setLoading(false);
+  };
+
+  const openReport = async (shift: Shift) => {
+    setBusy(true);
+    const result = await ShiftService.getReport(shift.id);
+    setBusy(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to load shift report');
+      return;
+    }
+    setReviewNotes('');
+    setReport(result.data);
+  };
+
+  const handleReview = async () => {
+    if (!report) return;
+    setBusy(true);
+    const result = await ShiftService.review(report.shift.id, reviewNotes);
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to review shift');
+      return;
+    }
+
+    toast.success(`Shift ${report.shift.shift_number} reviewed`);
+    setReport(result.data);
+    fetchShifts();
+  };
+
+  if (report) {
+    const canReview = report.shift.status === 'closed' && !report.shift.reviewed_at;
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={() => setReport(null)}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">Shift {report.shift.shift_number}</h1>
+            <p className="text-gray-600">{report.shift.cashier_name}</p>
+          </div>
+        </div>
+
+        <ShiftReportView report={report} />
+
+        {canReview && (
+          <Card className="max-w-sm mx-auto">
+            <CardContent className="p-4 space-y-3">
+              <textarea
+                value={reviewNotes}
+                onChange={(e) => setReviewNotes(e.target.value)}
+                placeholder="Review notes, e.g. how a shortage was resolved (optional)"
+                rows={2}
+                className="w-full px-3 py-2 border rounded-md text-sm"
+              />
+              <Button onClick={handleReview} disabled={busy} className="w-full flex items-center justify-center gap-2">
+                <CheckCircle className="h-4 w-4" /> Sign off cash-up
+              </Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Shifts</h1>
+        <p className="text-gray-600">Cash-ups from every till, with expected against counted cash</p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {FILTER_TABS.map(tab => (
+          <Button
+            key={tab.filter}
+            variant={filter === tab.filter ? 'default' : 'outline'}
+            onClick={() => setFilter(tab.filter)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : shifts.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Clock className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No shifts here
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 border-b">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Shift</th>
+                    <th className="px-4 py-3 font-medium">Cashier</th>
+                    <th className="px-4 py-3 font-medium">Opened</th>
+                    <th className="px-4 py-3 font-medium">Closed</th>
+                    <th className="px-4 py-3 font-medium text-right">Expected cash</th>
+                    <th className="px-4 py-3 font-medium text-right">Counted</th>
+                    <th className="px-4 py-3 font-medium text-right">Variance</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {shifts.map(shift => {
+                    const variance = shift.cash_variance == null ? null : Number(shift.cash_variance);
+                    return (
+                      <tr key={shift.id}>
+                        <td className="px-4 py-3 font-medium text-gray-900">{shift.shift_number}</td>
+                        <td className="px-4 py-3">{shift.cashier_name || '—'}</td>
+                        <td className="px-4 py-3 text-gray-600">{new Date(shift.opened_at).toLocaleString()}</td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {shift.closed_at ? new Date(shift.closed_at).toLocaleString() : <Badge className="bg-blue-100 text-blue-800">Open</Badge>}
+                        </td>
+                        <td className="px-4 py-3 text-right">{formatRand(shift.expected_cash)}</td>
+                        <td className="px-4 py-3 text-right">{formatRand(shift.counted_cash)}</td>
+                        <td className={`px-4 py-3 text-right font-medium ${variance && variance < 0 ? 'text-red-700' : variance ? 'text-amber-700' : ''}`}>
+                          {formatRand(variance)}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex justify-end items-center gap-2">
+                            {shift.reviewed_at && <Badge className="bg-green-100 text-green-800">Reviewed</Badge>}
+                            <Button variant="outline" size="sm" disabled={busy} onClick={() => openReport(shift)}>
+                              {shift.status === 'open' ? 'X-report' : 'Z-report'}
+                            </Button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
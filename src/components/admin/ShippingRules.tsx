@@ -0,0 +1,489 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Trash2, Truck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import {
+  SHIPPING_METHOD_TYPES,
+  ShippingMethod,
+  ShippingMethodDraft,
+  ShippingRate,
+  ShippingRateDraft,
+  ShippingService,
+  ShippingZone,
+  ShippingZoneDraft,
+} from '../../utils/shipping-service';
+
+const PROVINCES = [
+  'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal',
+  'Limpopo', 'Mpumalanga', 'North West', 'Northern Cape', 'Western Cape'
+];
+
+const EMPTY_ZONE: ShippingZoneDraft = {
+  name: '',
+  provinces: [],
+  postal_codes: [],
+  free_shipping_threshold: null,
+  additional_days: 0,
+  priority: 0,
+  is_active: true,
+};
+
+const EMPTY_METHOD: ShippingMethodDraft = {
+  code: '',
+  name: '',
+  description: '',
+  method_type: 'standard',
+  min_days: 3,
+  max_days: 5,
+  sort_order: 0,
+  is_active: true,
+};
+
+type Editing =
+  | { kind: 'zone'; draft: ShippingZoneDraft }
+  | { kind: 'method'; draft: ShippingMethodDraft }
+  | { kind: 'rate'; draft: ShippingRateDraft };
+
+const formatZAR = (amount: number) => `R${Number(amount).toFixed(2)}`;
+
+const describeBand = (min: number, max: number | null, format: (value: number) => string) =>
+  max === null ? `${format(min)} and up` : `${format(min)} – ${format(max)}`;
+
+/**
+ * Delivery zones, methods and the rate table checkout prices delivery from.
+ * Postal code rules beat provinces, and a zone with neither covers everywhere
+ * else.
+ */
+export function ShippingRules() {
+  const [zones, setZones] = useState<ShippingZone[]>([]);
+  const [methods, setMethods] = useState<ShippingMethod[]>([]);
+  const [rates, setRates] = useState<ShippingRate[]>([]);
+  const [zoneFilter, setZoneFilter] = useState<string>('');
+  const [editing, setEditing] = useState<Editing | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    setLoading(true);
+    const [zoneRows, methodRows, rateRows] = await Promise.all([
+      ShippingService.getZones(),
+      ShippingService.getMethods(),
+      ShippingService.getRates(),
+    ]);
+    setZones(zoneRows);
+    setMethods(methodRows);
+    setRates(rateRows);
+    setLoading(false);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      if (editing.kind === 'zone') await ShippingService.saveZone(editing.draft);
+      if (editing.kind === 'method') await ShippingService.saveMethod(editing.draft);
+      if (editing.kind === 'rate') await ShippingService.saveRate(editing.draft);
+      toast.success(editing.draft.id ? 'Shipping rule updated' : 'Shipping rule added');
+      setEditing(null);
+      fetchRules();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save shipping rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDeleteRate = async (rate: ShippingRate) => {
+    if (!window.confirm('Delete this rate?')) return;
+    try {
+      await ShippingService.deleteRate(rate.id);
+      toast.success('Rate deleted');
+      fetchRules();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to delete rate');
+    }
+  };
+
+  const update = (changes: Record<string, any>) => {
+    if (editing) setEditing({ ...editing, draft: { ...editing.draft, ...changes } } as Editing);
+  };
+
+  const field = (key: string) => ({
+    value: ((editing?.draft as any)?.[key] as string | number | null) ?? '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => update({ [key]: e.target.value }),
+  });
+
+  const zoneName = (id: string) => zones.find(zone => zone.id === id)?.name || 'Unknown zone';
+  const methodName = (id: string) => methods.find(method => method.id === id)?.name || 'Unknown method';
+  const deliveryMethods = methods.filter(method => method.method_type !== 'collect');
+  const visibleRates = rates.filter(rate => !zoneFilter || rate.zone_id === zoneFilter);
+  const selectClass = 'w-full px-3 py-2 border rounded-md text-sm bg-white';
+
+  const renderForm = () => {
+    if (!editing) return null;
+    const title = editing.kind === 'zone' ? 'zone' : editing.kind === 'method' ? 'method' : 'rate';
+
+    return (
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>{editing.draft.id ? `Edit ${title}` : `New ${title}`}</CardTitle>
+          <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+            <X className="h-4 w-4" />
+          </Button>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {editing.kind === 'zone' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Name *</label>
+                  <Input {...field('name')} required />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Free delivery from (R)</label>
+                  <Input type="number" min="0" step="0.01" {...field('free_shipping_threshold')} placeholder="No free delivery" />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-1">Provinces</label>
+                  <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                    {PROVINCES.map(province => (
+                      <label key={province} className="flex items-center gap-2 text-sm">
+                        <input
+                          type="checkbox"
+                          checked={editing.draft.provinces.includes(province)}
+                          onChange={(e) => update({
+                            provinces: e.target.checked
+                              ? [...editing.draft.provinces, province]
+                              : editing.draft.provinces.filter(name => name !== province),
+                          })}
+                        />
+                        {province}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-1">Postal codes</label>
+                  <Input
+                    value={editing.draft.postal_codes.join(', ')}
+                    onChange={(e) => update({ postal_codes: e.target.value.split(',').map(code => code.trim()) })}
+                    placeholder="e.g. 8001, 74*, 7400-7999"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Exact codes, a prefix ending in *, or a range. Leave provinces and postal codes empty for the rest of the country.
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Extra delivery days</label>
+                  <Input type="number" min="0" {...field('additional_days')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Priority (lower wins)</label>
+                  <Input type="number" {...field('priority')} />
+                </div>
+              </>
+            )}
+
+            {editing.kind === 'method' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Name *</label>
+                  <Input {...field('name')} required />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Code *</label>
+                  <Input {...field('code')} placeholder="e.g. express" required />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Type</label>
+                  <select {...field('method_type')} className={selectClass}>
+                    {SHIPPING_METHOD_TYPES.map(type => <option key={type.value} value={type.value}>{type.label}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Display order</label>
+                  <Input type="number" {...field('sort_order')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Fastest (business days)</label>
+                  <Input type="number" min="0" {...field('min_days')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Slowest (business days)</label>
+                  <Input type="number" min="0" {...field('max_days')} />
+                </div>
+                <div className="md:col-span-2">
+                  <label className="block text-sm font-medium mb-1">Description shown at checkout</label>
+                  <Input {...field('description')} />
+                </div>
+              </>
+            )}
+
+            {editing.kind === 'rate' && (
+              <>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Zone *</label>
+                  <select {...field('zone_id')} className={selectClass} required>
+                    <option value="">Choose a zone</option>
+                    {zones.map(zone => <option key={zone.id} value={zone.id}>{zone.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Method *</label>
+                  <select {...field('method_id')} className={selectClass} required>
+                    <option value="">Choose a method</option>
+                    {deliveryMethods.map(method => <option key={method.id} value={method.id}>{method.name}</option>)}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Parcel from (kg)</label>
+                  <Input type="number" min="0" step="0.01" {...field('min_weight_kg')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Parcel up to (kg)</label>
+                  <Input type="number" min="0" step="0.01" {...field('max_weight_kg')} placeholder="No limit" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Order value from (R)</label>
+                  <Input type="number" min="0" step="0.01" {...field('min_order_value')} />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Order value up to (R)</label>
+                  <Input type="number" min="0" step="0.01" {...field('max_order_value')} placeholder="No limit" />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-1">Price (R) *</label>
+                  <Input type="number" min="0" step="0.01" {...field('price')} required />
+                </div>
+              </>
+            )}
+
+            {editing.kind !== 'rate' && (
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={editing.draft.is_active}
+                  onChange={(e) => update({ is_active: e.target.checked })}
+                />
+                Active (offered at checkout)
+              </label>
+            )}
+            <div className="md:col-span-2 flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+              <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save'}</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+    );
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Shipping</h1>
+        <p className="text-gray-600">Where you deliver, how, and what it costs by parcel weight and order value</p>
+      </div>
+
+      {zones.length === 0 && (
+        <Card>
+          <CardContent className="p-4 text-sm text-amber-800 bg-amber-50">
+            No zones yet, so checkout charges the standard R50 delivery everywhere, free from R500.
+          </CardContent>
+        </Card>
+      )}
+
+      {renderForm()}
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Methods</CardTitle>
+          <Button size="sm" onClick={() => setEditing({ kind: 'method', draft: { ...EMPTY_METHOD } })} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" /> Add Method
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500 border-b">
+              <tr>
+                <th className="px-4 py-3 font-medium">Method</th>
+                <th className="px-4 py-3 font-medium">Type</th>
+                <th className="px-4 py-3 font-medium">Delivery time</th>
+                <th className="px-4 py-3 font-medium">Status</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {methods.map(method => (
+                <tr key={method.id}>
+                  <td className="px-4 py-3">
+                    <div className="font-medium text-gray-900">{method.name}</div>
+                    <div className="text-xs text-gray-500">{method.code}</div>
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">
+                    {SHIPPING_METHOD_TYPES.find(type => type.value === method.method_type)?.label}
+                  </td>
+                  <td className="px-4 py-3 text-gray-600">{ShippingService.describeEstimate(method.min_days, method.max_days)}</td>
+                  <td className="px-4 py-3">
+                    <Badge variant={method.is_active ? 'default' : 'secondary'}>{method.is_active ? 'Active' : 'Inactive'}</Badge>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <Button variant="outline" size="sm" onClick={() => setEditing({ kind: 'method', draft: { ...method } })}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Zones</CardTitle>
+          <Button size="sm" onClick={() => setEditing({ kind: 'zone', draft: { ...EMPTY_ZONE } })} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" /> Add Zone
+          </Button>
+        </CardHeader>
+        <CardContent className="p-0">
+          {zones.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Truck className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No zones yet
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Zone</th>
+                  <th className="px-4 py-3 font-medium">Covers</th>
+                  <th className="px-4 py-3 font-medium">Free delivery from</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {zones.map(zone => (
+                  <tr key={zone.id}>
+                    <td className="px-4 py-3">
+                      <div className="font-medium text-gray-900">{zone.name}</div>
+                      <div className="text-xs text-gray-500">Priority {zone.priority}</div>
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {[...(zone.postal_codes || []), ...(zone.provinces || [])].join(', ') || 'Everywhere else'}
+                      {zone.additional_days > 0 && <div className="text-xs">+{zone.additional_days} days</div>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {zone.free_shipping_threshold !== null ? formatZAR(zone.free_shipping_threshold) : '—'}
+                    </td>
+                    <td className="px-4 py-3">
+                      <Badge variant={zone.is_active ? 'default' : 'secondary'}>{zone.is_active ? 'Active' : 'Inactive'}</Badge>
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <Button variant="outline" size="sm" onClick={() => setEditing({ kind: 'zone', draft: { ...zone } })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between gap-4">
+          <CardTitle>Rates</CardTitle>
+          <div className="flex gap-2">
+            <select value={zoneFilter} onChange={(e) => setZoneFilter(e.target.value)} className={selectClass}>
+              <option value="">All zones</option>
+              {zones.map(zone => <option key={zone.id} value={zone.id}>{zone.name}</option>)}
+            </select>
+            <Button
+              size="sm"
+              disabled={zones.length === 0 || deliveryMethods.length === 0}
+              onClick={() => setEditing({
+                kind: 'rate',
+                draft: {
+                  zone_id: zoneFilter || zones[0]?.id || '',
+                  method_id: deliveryMethods[0]?.id || '',
+                  min_weight_kg: 0,
+                  max_weight_kg: null,
+                  min_order_value: 0,
+                  max_order_value: null,
+                  price: 0,
+                },
+              })}
+              className="flex items-center gap-2 whitespace-nowrap"
+            >
+              <Plus className="h-4 w-4" /> Add Rate
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="p-0">
+          {visibleRates.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              No rates yet. A delivery method is only offered in zones where it has a rate.
+            </div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Zone</th>
+                  <th className="px-4 py-3 font-medium">Method</th>
+                  <th className="px-4 py-3 font-medium">Parcel weight</th>
+                  <th className="px-4 py-3 font-medium">Order value</th>
+                  <th className="px-4 py-3 font-medium text-right">Price</th>
+                  <th className="px-4 py-3"></th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {visibleRates.map(rate => (
+                  <tr key={rate.id}>
+                    <td className="px-4 py-3">{zoneName(rate.zone_id)}</td>
+                    <td className="px-4 py-3">{methodName(rate.method_id)}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {describeBand(Number(rate.min_weight_kg), rate.max_weight_kg === null ? null : Number(rate.max_weight_kg), value => `${value} kg`)}
+                    </td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {describeBand(Number(rate.min_order_value), rate.max_order_value === null ? null : Number(rate.max_order_value), formatZAR)}
+                    </td>
+                    <td className="px-4 py-3 text-right font-medium">{formatZAR(rate.price)}</td>
+                    <td className="px-4 py-3 text-right space-x-2 whitespace-nowrap">
+                      <Button variant="outline" size="sm" onClick={() => setEditing({ kind: 'rate', draft: { ...rate } })}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="outline" size="sm" onClick={() => handleDeleteRate(rate)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
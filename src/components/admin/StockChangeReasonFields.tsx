@@ -0,0 +1,39 @@
+import React from 'react';
+import { MANUAL_MOVEMENT_TYPES, ManualMovementType, StockChangeReason } from '../../utils/inventory-service';
+
+interface StockChangeReasonFieldsProps {
+  value: StockChangeReason;
+  onChange: (value: StockChangeReason) => void;
+}
+
+/**
+ * Asks why stock was edited; shown by the product editors once a stock
+ * quantity differs from what was loaded.
+ */
+export function StockChangeReasonFields({ value, onChange }: StockChangeReasonFieldsProps) {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-3 p-3 rounded-md border border-amber-200 bg-amber-50">
+      <div>
+        <label className="block text-sm text-gray-700 mb-1">Stock change type</label>
+        <select
+          className="w-full px-3 py-2 border rounded-md bg-white"
+          value={value.movement_type}
+          onChange={(e) => onChange({ ...value, movement_type: e.target.value as ManualMovementType })}
+        >
+          {MANUAL_MOVEMENT_TYPES.map(type => (
+            <option key={type.value} value={type.value}>{type.label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="md:col-span-2">
+        <label className="block text-sm text-gray-700 mb-1">Reason for stock change</label>
+        <input
+          className="w-full px-3 py-2 border rounded-md bg-white"
+          value={value.reason}
+          placeholder="e.g. Recount after delivery, broken bottles"
+          onChange={(e) => onChange({ ...value, reason: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+}
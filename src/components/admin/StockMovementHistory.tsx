@@ -0,0 +1,118 @@
+import React, { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { InventoryService, StockMovement } from '../../utils/inventory-service';
+
+interface StockMovementHistoryProps {
+  productId: string;
+  variants?: { id?: string; name: string }[];
+  refreshKey?: number;
+}
+
+/**
+ * The stock ledger of one product, newest first, with a variant filter for
+ * products sold in variants.
+ */
+export function StockMovementHistory({ productId, variants = [], refreshKey = 0 }: StockMovementHistoryProps) {
+  const [movements, setMovements] = useState<StockMovement[]>([]);
+  const [variantId, setVariantId] = useState('');
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMovements = async (nextPage: number) => {
+    setLoading(true);
+    const result = await InventoryService.getMovements(productId, { variantId: variantId || undefined, page: nextPage });
+    if (result.success && result.data) {
+      setMovements(nextPage === 1 ? result.data.movements : [...movements, ...result.data.movements]);
+      setPage(result.data.page);
+      setHasMore(result.data.has_more);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to load stock history');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadMovements(1);
+  }, [productId, variantId, refreshKey]);
+
+  const savedVariants = variants.filter(variant => variant.id);
+
+  return (
+    <div className="border rounded-lg">
+      <div className="flex items-center justify-between px-4 py-3 border-b bg-gray-50">
+        <div className="flex items-center gap-2 font-medium text-gray-900">
+          <History className="h-4 w-4" /> Stock history
+        </div>
+        {savedVariants.length > 0 && (
+          <select
+            className="px-2 py-1 border rounded-md text-sm"
+            value={variantId}
+            onChange={(e) => setVariantId(e.target.value)}
+          >
+            <option value="">All variants</option>
+            {savedVariants.map(variant => (
+              <option key={variant.id} value={variant.id}>{variant.name}</option>
+            ))}
+          </select>
+        )}
+      </div>
+
+      {error && <p className="px-4 py-3 text-sm text-red-700">{error}</p>}
+
+      {!error && movements.length === 0 && !loading && (
+        <p className="px-4 py-6 text-sm text-gray-500 text-center">No stock movements recorded yet.</p>
+      )}
+
+      {movements.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead className="text-left text-gray-500">
+              <tr>
+                <th className="px-4 py-2 font-medium">Date</th>
+                <th className="px-4 py-2 font-medium">Type</th>
+                {savedVariants.length > 0 && <th className="px-4 py-2 font-medium">Variant</th>}
+                <th className="px-4 py-2 font-medium text-right">Change</th>
+                <th className="px-4 py-2 font-medium text-right">Stock after</th>
+                <th className="px-4 py-2 font-medium">Reason</th>
+                <th className="px-4 py-2 font-medium">By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {movements.map(movement => (
+                <tr key={movement.id}>
+                  <td className="px-4 py-2 whitespace-nowrap text-gray-600">{new Date(movement.created_at).toLocaleString()}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{InventoryService.getMovementLabel(movement.movement_type)}</td>
+                  {savedVariants.length > 0 && <td className="px-4 py-2 text-gray-600">{movement.variant?.name || '—'}</td>}
+                  <td className={`px-4 py-2 text-right font-medium ${movement.quantity_change > 0 ? 'text-green-700' : 'text-red-700'}`}>
+                    {movement.quantity_change > 0 ? `+${movement.quantity_change}` : movement.quantity_change}
+                  </td>
+                  <td className="px-4 py-2 text-right">{movement.quantity_after}</td>
+                  <td className="px-4 py-2 text-gray-600">{movement.reason || '—'}</td>
+                  <td className="px-4 py-2 text-gray-600">{movement.created_by_name || 'System'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {loading && (
+        <div className="flex justify-center py-3">
+          <Loader2 className="h-5 w-5 animate-spin text-gray-400" />
+        </div>
+      )}
+
+      {!loading && hasMore && (
+        <button
+          onClick={() => loadMovements(page + 1)}
+          className="w-full py-2 border-t text-sm text-gray-600 hover:bg-gray-50"
+        >
+          Show older movements
+        </button>
+      )}
+    </div>
+  );
+}
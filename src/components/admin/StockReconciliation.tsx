@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { CheckCircle, AlertTriangle, RefreshCw } from 'lucide-react';
+import { Link } from 'react-router-dom';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { InventoryService, ReconciliationReport } from '../../utils/inventory-service';
+
+export function StockReconciliation() {
+  const [report, setReport] = useState<ReconciliationReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    const result = await InventoryService.getReconciliation();
+    if (result.success && result.data) {
+      setReport(result.data);
+      setError(null);
+    } else {
+      setError(result.error || 'Failed to reconcile stock. Please try again.');
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    fetchReport();
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>Stock reconciliation</CardTitle>
+          <CardDescription>
+            Compares each product's stock with the sum of its stock movements. A difference means stock
+            was changed without going through the ledger.
+          </CardDescription>
+        </div>
+        <Button variant="outline" onClick={fetchReport} disabled={loading} className="flex items-center gap-2">
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-md p-4">
+            <p className="text-red-800">{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-gray-500">Items checked</p>
+                <p className="text-2xl font-bold text-gray-900">{report.checked}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-gray-500">In balance</p>
+                <p className="text-2xl font-bold text-green-700">{report.in_balance}</p>
+              </div>
+              <div className="rounded-lg border p-4">
+                <p className="text-sm text-gray-500">Out of balance</p>
+                <p className={`text-2xl font-bold ${report.discrepancies.length ? 'text-red-700' : 'text-gray-900'}`}>
+                  {report.discrepancies.length}
+                </p>
+              </div>
+            </div>
+
+            {report.discrepancies.length === 0 ? (
+              <div className="flex items-center gap-2 text-green-700">
+                <CheckCircle className="h-5 w-5" /> Every product's stock matches its ledger.
+              </div>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead className="text-left text-gray-500 border-b">
+                    <tr>
+                      <th className="py-2 pr-4 font-medium">Product</th>
+                      <th className="py-2 pr-4 font-medium">SKU</th>
+                      <th className="py-2 pr-4 font-medium text-right">Stock</th>
+                      <th className="py-2 pr-4 font-medium text-right">Ledger</th>
+                      <th className="py-2 font-medium text-right">Difference</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y">
+                    {report.discrepancies.map(row => (
+                      <tr key={row.variant_id || row.product_id}>
+                        <td className="py-2 pr-4">
+                          <Link to={`/admin/products/${row.product_id}`} className="text-green-700 hover:underline">
+                            {row.name}
+                          </Link>
+                        </td>
+                        <td className="py-2 pr-4 text-gray-600">{row.sku || '—'}</td>
+                        <td className="py-2 pr-4 text-right">{row.stock_quantity}</td>
+                        <td className="py-2 pr-4 text-right">{row.ledger_quantity}</td>
+                        <td className="py-2 text-right font-medium text-red-700">
+                          <span className="inline-flex items-center gap-1">
+                            <AlertTriangle className="h-3 w-3" />
+                            {row.difference > 0 ? `+${row.difference}` : row.difference}
+                          </span>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            <p className="text-xs text-gray-500">Generated {new Date(report.generated_at).toLocaleString()}</p>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
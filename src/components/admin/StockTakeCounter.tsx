@@ -0,0 +1,309 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ArrowLeft, CloudOff, RefreshCw, ScanLine, Send, Wifi } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { FastBarcodeScanner } from '../FastBarcodeScanner';
+import { useOfflineStatus } from '../../utils/offline-manager';
+import { CatalogMatch, StockTakeDetail, StockTakeService } from '../../utils/stock-take-service';
+
+interface StockTakeCounterProps {
+  stockTakeId: string;
+  onShowVariances: () => void;
+  onClose: () => void;
+}
+
+interface CountedItem extends CatalogMatch {
+  quantity: number;
+}
+
+const itemKey = (productId: string, variantId: string | null) => `${productId}:${variantId || ''}`;
+
+const itemName = ({ product, variant }: CatalogMatch) =>
+  variant ? `${product.name} (${variant.name})` : product.name;
+
+// Counts are sent in one batch once scanning pauses for this long
+const SYNC_DELAY_MS = 2000;
+
+/**
+ * Count a shelf or category. Each scan adds one unit to its item and
+ * quantities can be typed in for boxed stock. Counts are saved on the device
+ * as they are taken and synced whenever there is a connection.
+ */
+export function StockTakeCounter({ stockTakeId, onShowVariances, onClose }: StockTakeCounterProps) {
+  const { isOnline } = useOfflineStatus();
+  const [detail, setDetail] = useState<StockTakeDetail | null>(null);
+  const [counted, setCounted] = useState<Record<string, CountedItem>>({});
+  const [pendingCount, setPendingCount] = useState(0);
+  const [scanCode, setScanCode] = useState('');
+  const [showScanner, setShowScanner] = useState(false);
+  const [lastKey, setLastKey] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const syncTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  const applyDetail = (data: StockTakeDetail) => {
+    setDetail(data);
+    const items: Record<string, CountedItem> = {};
+    for (const line of data.lines) {
+      const match = findInCatalog(data, line.product_id, line.variant_id);
+      if (match) items[itemKey(line.product_id, line.variant_id)] = { ...match, quantity: line.counted_quantity };
+    }
+    // Counts still waiting to sync are newer than the server's
+    for (const count of StockTakeService.getPendingCounts(stockTakeId)) {
+      const match = findInCatalog(data, count.product_id, count.variant_id);
+      if (match) items[itemKey(count.product_id, count.variant_id)] = { ...match, quantity: count.counted_quantity };
+    }
+    setCounted(items);
+    setPendingCount(StockTakeService.getPendingCounts(stockTakeId).length);
+  };
+
+  const sync = async () => {
+    if (!navigator.onLine) return;
+    setSyncing(true);
+    const result = await StockTakeService.syncPendingCounts(stockTakeId);
+    setSyncing(false);
+    setPendingCount(StockTakeService.getPendingCounts(stockTakeId).length);
+
+    if (result && !result.success && result.status) {
+      toast.error(result.error || 'Counts could not be saved');
+    }
+  };
+
+  useEffect(() => {
+    const load = async () => {
+      if (navigator.onLine) {
+        await StockTakeService.syncPendingCounts(stockTakeId);
+        const result = await StockTakeService.get(stockTakeId);
+        if (result.success && result.data) {
+          applyDetail(result.data);
+          setLoading(false);
+          return;
+        }
+      }
+
+      const cached = StockTakeService.getCachedSession(stockTakeId);
+      if (cached) {
+        applyDetail(cached);
+      } else {
+        toast.error('This stock-take has not been opened on this device yet; connect to load it');
+      }
+      setLoading(false);
+    };
+
+    load();
+    return () => clearTimeout(syncTimer.current);
+  }, [stockTakeId]);
+
+  useEffect(() => {
+    if (isOnline && pendingCount > 0) {
+      sync();
+    }
+  }, [isOnline]);
+
+  const setCount = (match: CatalogMatch, value: number) => {
+    const quantity = Math.max(0, Math.floor(value) || 0);
+    const key = itemKey(match.product.id, match.variant?.id || null);
+
+    setCounted(current => ({ ...current, [key]: { ...match, quantity } }));
+    StockTakeService.queueCount(stockTakeId, {
+      product_id: match.product.id,
+      variant_id: match.variant?.id || null,
+      counted_quantity: quantity,
+    });
+    setPendingCount(StockTakeService.getPendingCounts(stockTakeId).length);
+
+    clearTimeout(syncTimer.current);
+    syncTimer.current = setTimeout(sync, SYNC_DELAY_MS);
+  };
+
+  const handleScan = (code: string) => {
+    if (!detail) return;
+
+    const match = StockTakeService.findByCode(detail.catalog, code);
+    if (!match) {
+      toast.error(`${code} is not part of this stock-take`);
+      return;
+    }
+    if (match.product.has_variants && !match.variant) {
+      toast.error(`${match.product.name} is counted per variant; scan the variant's barcode`);
+      return;
+    }
+
+    const key = itemKey(match.product.id, match.variant?.id || null);
+    setCount(match, (counted[key]?.quantity || 0) + 1);
+    setLastKey(key);
+  };
+
+  const handleScanSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (scanCode.trim()) {
+      handleScan(scanCode.trim());
+      setScanCode('');
+    }
+  };
+
+  const handleSubmit = async () => {
+    clearTimeout(syncTimer.current);
+    setSubmitting(true);
+    await sync();
+
+    if (StockTakeService.getPendingCounts(stockTakeId).length > 0) {
+      setSubmitting(false);
+      toast.error('Some counts have not synced yet; submit once they have');
+      return;
+    }
+
+    const result = await StockTakeService.submit(stockTakeId);
+    setSubmitting(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to submit stock-take');
+      return;
+    }
+
+    toast.success(`${detail?.stock_take.reference} sent for approval`);
+    onClose();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <Button variant="outline" onClick={onClose} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back to stock-takes
+      </Button>
+    );
+  }
+
+  const items = Object.entries(counted).sort(([a], [b]) => (a === lastKey ? -1 : b === lastKey ? 1 : 0));
+  const totalUnits = items.reduce((sum, [, item]) => sum + item.quantity, 0);
+  const countable = detail.catalog.reduce((sum, product) => sum + (product.has_variants ? product.variants.length : 1), 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-3">
+          <Button variant="outline" size="sm" onClick={onClose}>
+            <ArrowLeft className="h-4 w-4" />
+          </Button>
+          <div>
+            <h1 className="text-2xl font-bold text-gray-900">{detail.stock_take.name}</h1>
+            <p className="text-gray-600">{detail.stock_take.reference}</p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2">
+          {isOnline ? (
+            <Badge className="bg-green-100 text-green-800 flex items-center gap-1">
+              <Wifi className="h-3 w-3" /> Online
+            </Badge>
+          ) : (
+            <Badge className="bg-amber-100 text-amber-800 flex items-center gap-1">
+              <CloudOff className="h-3 w-3" /> Offline
+            </Badge>
+          )}
+          {pendingCount > 0 && (
+            <Button variant="outline" size="sm" disabled={!isOnline || syncing} onClick={sync} className="flex items-center gap-1">
+              <RefreshCw className={`h-4 w-4 ${syncing ? 'animate-spin' : ''}`} /> {pendingCount} to sync
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ScanLine className="h-5 w-5" /> Scan items
+          </CardTitle>
+          <CardDescription>
+            {items.length} of {countable} items counted, {totalUnits} units. Items not scanned are left out of the
+            count rather than counted as zero; enter 0 for anything that should be on the shelf but is not.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleScanSubmit} className="flex gap-2">
+            <Input
+              autoFocus
+              value={scanCode}
+              onChange={(e) => setScanCode(e.target.value)}
+              placeholder="Scan or type a barcode or SKU"
+            />
+            <Button type="submit" variant="outline" disabled={!scanCode.trim()}>Add</Button>
+            <Button type="button" variant="outline" onClick={() => setShowScanner(true)}>Camera</Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0 overflow-x-auto">
+          {items.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">Nothing counted yet. Scan the first item to begin.</p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Product</th>
+                  <th className="px-4 py-3 font-medium">SKU</th>
+                  <th className="px-4 py-3 font-medium text-right">Counted</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {items.map(([key, item]) => (
+                  <tr key={key} className={key === lastKey ? 'bg-green-50' : ''}>
+                    <td className="px-4 py-3">{itemName(item)}</td>
+                    <td className="px-4 py-3 text-gray-600">{item.variant?.sku || item.product.sku}</td>
+                    <td className="px-4 py-3 text-right">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={item.quantity}
+                        onChange={(e) => setCount(item, Number(e.target.value))}
+                        className="w-24 ml-auto text-right"
+                      />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex justify-end gap-2">
+        <Button variant="outline" disabled={!isOnline} onClick={onShowVariances}>View variances</Button>
+        <Button
+          onClick={handleSubmit}
+          disabled={!isOnline || submitting || items.length === 0}
+          className="flex items-center gap-2"
+        >
+          <Send className="h-4 w-4" /> {submitting ? 'Submitting...' : 'Submit for approval'}
+        </Button>
+      </div>
+
+      {showScanner && (
+        <FastBarcodeScanner
+          title="Count stock"
+          description="Each scan adds one unit to the count"
+          onBarcodeScanned={handleScan}
+          onClose={() => setShowScanner(false)}
+        />
+      )}
+    </div>
+  );
+}
+
+function findInCatalog(detail: StockTakeDetail, productId: string, variantId: string | null): CatalogMatch | undefined {
+  const product = detail.catalog.find(entry => entry.id === productId);
+  if (!product) return undefined;
+  if (!variantId) return { product, variant: null };
+  const variant = product.variants.find(entry => entry.id === variantId);
+  return variant ? { product, variant } : undefined;
+}
@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, CheckCircle, RotateCcw, XCircle } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { useAuth } from '../../contexts/AuthContext';
+import { StockTakeDetail, StockTakeLine, StockTakeReviewAction, StockTakeService } from '../../utils/stock-take-service';
+
+interface StockTakeReviewProps {
+  stockTakeId: string;
+  onReviewed: () => void;
+  onClose: () => void;
+}
+
+const lineName = (line: StockTakeLine) =>
+  line.variant ? `${line.product?.name} (${line.variant.name})` : line.product?.name || 'Unknown product';
+
+const formatRand = (value: number) => `${value < 0 ? '-' : ''}R${Math.abs(value).toFixed(2)}`;
+
+const REVIEW_MESSAGES: Record<StockTakeReviewAction, string> = {
+  approve: 'approved and stock adjusted',
+  recount: 'sent back for a recount',
+  cancel: 'cancelled',
+};
+
+/**
+ * Counted against expected stock for every line in a stock-take, with the
+ * value of each difference at cost. Managers approve a submitted count here,
+ * which posts the differences to the stock ledger.
+ */
+export function StockTakeReview({ stockTakeId, onReviewed, onClose }: StockTakeReviewProps) {
+  const { isAtLeastRole } = useAuth();
+  const [detail, setDetail] = useState<StockTakeDetail | null>(null);
+  const [notes, setNotes] = useState('');
+  const [varianceOnly, setVarianceOnly] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    const fetchDetail = async () => {
+      const result = await StockTakeService.get(stockTakeId);
+      if (result.success && result.data) {
+        setDetail(result.data);
+      } else {
+        toast.error(result.error || 'Failed to load stock-take');
+      }
+      setLoading(false);
+    };
+
+    fetchDetail();
+  }, [stockTakeId]);
+
+  const handleReview = async (action: StockTakeReviewAction) => {
+    if (action === 'approve' && !window.confirm('Post these differences to stock? This cannot be undone.')) {
+      return;
+    }
+
+    setBusy(true);
+    const result = await StockTakeService.review(stockTakeId, action, notes);
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to review stock-take');
+      return;
+    }
+
+    if (action !== 'recount') {
+      StockTakeService.clearDeviceCopy(stockTakeId);
+    }
+    toast.success(`${detail?.stock_take.reference} ${REVIEW_MESSAGES[action]}`);
+    onReviewed();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+      </div>
+    );
+  }
+
+  if (!detail) {
+    return (
+      <Button variant="outline" onClick={onClose} className="flex items-center gap-2">
+        <ArrowLeft className="h-4 w-4" /> Back to stock-takes
+      </Button>
+    );
+  }
+
+  const { stock_take: stockTake, summary } = detail;
+  const lines = varianceOnly ? detail.lines.filter(line => line.variance !== 0) : detail.lines;
+  const canReview = isAtLeastRole('manager') && stockTake.status === 'submitted';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-3">
+        <Button variant="outline" size="sm" onClick={onClose}>
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{stockTake.name}</h1>
+          <p className="text-gray-600">
+            {stockTake.reference} · {StockTakeService.getStatusLabel(stockTake.status)}
+          </p>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Items counted</p>
+            <p className="text-2xl font-bold">{summary.lines_counted}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Items with a difference</p>
+            <p className="text-2xl font-bold">{summary.lines_with_variance}</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Units over / short</p>
+            <p className="text-2xl font-bold">
+              <span className="text-green-700">+{summary.units_over}</span>
+              {' / '}
+              <span className="text-red-700">-{summary.units_short}</span>
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm text-gray-500">Value impact at cost</p>
+            <p className={`text-2xl font-bold ${summary.value_impact < 0 ? 'text-red-700' : 'text-green-700'}`}>
+              {formatRand(summary.value_impact)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between">
+          <CardTitle>Variances</CardTitle>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input type="checkbox" checked={varianceOnly} onChange={(e) => setVarianceOnly(e.target.checked)} />
+            Only items with a difference
+          </label>
+        </CardHeader>
+        <CardContent className="p-0 overflow-x-auto">
+          {lines.length === 0 ? (
+            <p className="text-center py-12 text-gray-500">
+              {detail.lines.length === 0 ? 'Nothing has been counted yet.' : 'Every count matches the stock on record.'}
+            </p>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="text-left text-gray-500 border-b">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Product</th>
+                  <th className="px-4 py-3 font-medium text-right">Expected</th>
+                  <th className="px-4 py-3 font-medium text-right">Counted</th>
+                  <th className="px-4 py-3 font-medium text-right">Difference</th>
+                  <th className="px-4 py-3 font-medium text-right">Unit cost</th>
+                  <th className="px-4 py-3 font-medium text-right">Value</th>
+                  <th className="px-4 py-3 font-medium">Counted by</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {lines.map(line => (
+                  <tr key={line.id}>
+                    <td className="px-4 py-3">
+                      <div>{lineName(line)}</div>
+                      <div className="text-xs text-gray-500">{line.variant?.sku || line.product?.sku}</div>
+                    </td>
+                    <td className="px-4 py-3 text-right">{line.expected_quantity}</td>
+                    <td className="px-4 py-3 text-right">{line.counted_quantity}</td>
+                    <td className={`px-4 py-3 text-right font-medium ${line.variance < 0 ? 'text-red-700' : line.variance > 0 ? 'text-green-700' : ''}`}>
+                      {line.variance > 0 ? `+${line.variance}` : line.variance}
+                    </td>
+                    <td className="px-4 py-3 text-right text-gray-600">
+                      {line.product?.cost_price != null ? `R${Number(line.product.cost_price).toFixed(2)}` : '—'}
+                    </td>
+                    <td className="px-4 py-3 text-right">{formatRand(line.value_impact)}</td>
+                    <td className="px-4 py-3 text-gray-600">
+                      {line.counted_by_name || '—'}
+                      {line.movement_id && <Badge className="ml-2 bg-green-100 text-green-800">Posted</Badge>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </CardContent>
+      </Card>
+
+      {stockTake.notes && <p className="text-sm text-gray-600">Notes: {stockTake.notes}</p>}
+
+      {canReview && (
+        <Card>
+          <CardContent className="p-4 space-y-3">
+            <textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Review notes (optional)"
+              rows={2}
+              className="w-full px-3 py-2 border rounded-md text-sm"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" disabled={busy} onClick={() => handleReview('cancel')} className="flex items-center gap-2">
+                <XCircle className="h-4 w-4" /> Cancel count
+              </Button>
+              <Button variant="outline" disabled={busy} onClick={() => handleReview('recount')} className="flex items-center gap-2">
+                <RotateCcw className="h-4 w-4" /> Send back for recount
+              </Button>
+              <Button disabled={busy} onClick={() => handleReview('approve')} className="flex items-center gap-2">
+                <CheckCircle className="h-4 w-4" /> Approve and adjust stock
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
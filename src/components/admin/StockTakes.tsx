@@ -0,0 +1,251 @@
+import React, { useEffect, useState } from 'react';
+import { ClipboardCheck, Plus, ScanLine, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { supabase } from '../../lib/supabase';
+import { StockTake, StockTakeService, StockTakeStatus } from '../../utils/stock-take-service';
+import { StockTakeCounter } from './StockTakeCounter';
+import { StockTakeReview } from './StockTakeReview';
+
+type View = 'list' | 'count' | 'review';
+
+const STATUS_TABS: { status: StockTakeStatus; label: string }[] = [
+  { status: 'counting', label: 'Counting' },
+  { status: 'submitted', label: 'Awaiting approval' },
+  { status: 'approved', label: 'Approved' },
+  { status: 'cancelled', label: 'Cancelled' },
+];
+
+const STATUS_COLOURS: Record<StockTakeStatus, string> = {
+  counting: 'bg-blue-100 text-blue-800',
+  submitted: 'bg-amber-100 text-amber-800',
+  approved: 'bg-green-100 text-green-800',
+  cancelled: 'bg-red-100 text-red-800',
+};
+
+export function StockTakes() {
+  const [stockTakes, setStockTakes] = useState<StockTake[]>([]);
+  const [categories, setCategories] = useState<{ id: string; name: string }[]>([]);
+  const [statusTab, setStatusTab] = useState<StockTakeStatus>('counting');
+  const [view, setView] = useState<View>('list');
+  const [currentId, setCurrentId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState({ name: '', category_id: '', location: '' });
+  const [loading, setLoading] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  useEffect(() => {
+    fetchCategories();
+  }, []);
+
+  useEffect(() => {
+    fetchStockTakes();
+  }, [statusTab]);
+
+  const fetchCategories = async () => {
+    const { data, error } = await supabase
+      .from('categories')
+      .select('id, name')
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('❌ Error fetching categories:', error);
+      return;
+    }
+    setCategories(data || []);
+  };
+
+  const fetchStockTakes = async () => {
+    setLoading(true);
+    const result = await StockTakeService.list(statusTab);
+    if (result.success) {
+      setStockTakes(result.data || []);
+    } else {
+      toast.error(result.error || 'Failed to load stock-takes');
+    }
+    setLoading(false);
+  };
+
+  const openView = (next: View, stockTakeId: string | null = null) => {
+    setCurrentId(stockTakeId);
+    setView(next);
+  };
+
+  const backToList = () => {
+    openView('list');
+    fetchStockTakes();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setCreating(true);
+    const result = await StockTakeService.create({
+      name: form.name,
+      category_id: form.category_id || null,
+      location: form.location,
+    });
+    setCreating(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to start stock-take');
+      return;
+    }
+
+    toast.success(`${result.data.reference} started`);
+    setForm({ name: '', category_id: '', location: '' });
+    setShowForm(false);
+    openView('count', result.data.id);
+  };
+
+  if (view === 'count' && currentId) {
+    return <StockTakeCounter stockTakeId={currentId} onShowVariances={() => openView('review', currentId)} onClose={backToList} />;
+  }
+
+  if (view === 'review' && currentId) {
+    return <StockTakeReview stockTakeId={currentId} onReviewed={backToList} onClose={backToList} />;
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Stock-takes</h1>
+          <p className="text-gray-600">Count a category or shelf with the scanner and correct stock from the results</p>
+        </div>
+        {!showForm && (
+          <Button onClick={() => setShowForm(true)} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" /> New Stock-take
+          </Button>
+        )}
+      </div>
+
+      {showForm && (
+        <Card>
+          <CardHeader className="flex flex-row items-start justify-between">
+            <div>
+              <CardTitle>New stock-take</CardTitle>
+              <CardDescription>Leave the category empty to count across the whole store.</CardDescription>
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setShowForm(false)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Category</label>
+                <select
+                  value={form.category_id}
+                  onChange={(e) => setForm({ ...form, category_id: e.target.value })}
+                  className="w-full px-3 py-2 border rounded-md"
+                >
+                  <option value="">All categories</option>
+                  {categories.map(category => (
+                    <option key={category.id} value={category.id}>{category.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Shelf or location</label>
+                <Input
+                  value={form.location}
+                  onChange={(e) => setForm({ ...form, location: e.target.value })}
+                  placeholder="e.g. Aisle 3, bay 2"
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+                <Input
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                  placeholder="Named from the category and shelf"
+                />
+              </div>
+              <Button type="submit" disabled={creating}>
+                {creating ? 'Starting...' : 'Start counting'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Status tabs */}
+      <div className="flex flex-wrap gap-2">
+        {STATUS_TABS.map(tab => (
+          <Button
+            key={tab.status}
+            variant={statusTab === tab.status ? 'default' : 'outline'}
+            onClick={() => setStatusTab(tab.status)}
+          >
+            {tab.label}
+          </Button>
+        ))}
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : stockTakes.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <ClipboardCheck className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No stock-takes here
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 border-b">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Stock-take</th>
+                    <th className="px-4 py-3 font-medium">Category</th>
+                    <th className="px-4 py-3 font-medium">Location</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3 font-medium text-right">Items counted</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {stockTakes.map(stockTake => (
+                    <tr key={stockTake.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{stockTake.name}</div>
+                        <div className="text-xs text-gray-500">
+                          {stockTake.reference} · {new Date(stockTake.created_at).toLocaleDateString()}
+                        </div>
+                      </td>
+                      <td className="px-4 py-3">{stockTake.category?.name || 'All'}</td>
+                      <td className="px-4 py-3 text-gray-600">{stockTake.location || '—'}</td>
+                      <td className="px-4 py-3">
+                        <Badge className={STATUS_COLOURS[stockTake.status]}>{StockTakeService.getStatusLabel(stockTake.status)}</Badge>
+                      </td>
+                      <td className="px-4 py-3 text-right">{stockTake.line_count ?? 0}</td>
+                      <td className="px-4 py-3">
+                        <div className="flex justify-end gap-2">
+                          {stockTake.status === 'counting' && (
+                            <Button size="sm" onClick={() => openView('count', stockTake.id)} className="flex items-center gap-1">
+                              <ScanLine className="h-4 w-4" /> Count
+                            </Button>
+                          )}
+                          <Button variant="outline" size="sm" onClick={() => openView('review', stockTake.id)}>
+                            {stockTake.status === 'submitted' ? 'Review' : 'Variances'}
+                          </Button>
+                        </div>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
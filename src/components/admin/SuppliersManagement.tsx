@@ -0,0 +1,197 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Edit, Truck, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { PurchasingService, Supplier, SupplierDraft } from '../../utils/purchasing-service';
+
+const EMPTY_SUPPLIER: SupplierDraft = {
+  name: '',
+  contact_name: '',
+  email: '',
+  phone: '',
+  address: '',
+  payment_terms: '',
+  lead_time_days: 7,
+  notes: '',
+  is_active: true,
+};
+
+export function SuppliersManagement() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editing, setEditing] = useState<SupplierDraft | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, []);
+
+  const fetchSuppliers = async () => {
+    setLoading(true);
+    setSuppliers(await PurchasingService.getSuppliers(true));
+    setLoading(false);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    const { supplier_code, ...draft } = supplier;
+    setEditing(draft);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+
+    setSaving(true);
+    try {
+      await PurchasingService.saveSupplier(editing);
+      toast.success(editing.id ? 'Supplier updated' : 'Supplier added');
+      setEditing(null);
+      fetchSuppliers();
+    } catch (error: any) {
+      toast.error(error.message || 'Failed to save supplier');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const field = (key: keyof SupplierDraft) => ({
+    value: (editing?.[key] as string | number | null) ?? '',
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      editing && setEditing({ ...editing, [key]: e.target.value }),
+  });
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Suppliers</h1>
+          <p className="text-gray-600">Who you buy stock from, and how long their deliveries take</p>
+        </div>
+        {!editing && (
+          <Button onClick={() => setEditing({ ...EMPTY_SUPPLIER })} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" /> Add Supplier
+          </Button>
+        )}
+      </div>
+
+      {editing && (
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between">
+            <CardTitle>{editing.id ? `Edit ${editing.name}` : 'New supplier'}</CardTitle>
+            <Button variant="outline" size="sm" onClick={() => setEditing(null)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleSave} className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium mb-1">Name *</label>
+                <Input {...field('name')} required />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Contact person</label>
+                <Input {...field('contact_name')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Email</label>
+                <Input type="email" {...field('email')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Phone</label>
+                <Input {...field('phone')} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Payment terms</label>
+                <Input {...field('payment_terms')} placeholder="e.g. 30 days from statement" />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1">Lead time (days)</label>
+                <Input type="number" min="0" {...field('lead_time_days')} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium mb-1">Address</label>
+                <textarea className="w-full px-3 py-2 border rounded-md" rows={2} {...field('address')} />
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium mb-1">Notes</label>
+                <textarea className="w-full px-3 py-2 border rounded-md" rows={2} {...field('notes')} />
+              </div>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={editing.is_active}
+                  onChange={(e) => setEditing({ ...editing, is_active: e.target.checked })}
+                />
+                Active (can be ordered from)
+              </label>
+              <div className="md:col-span-2 flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+                <Button type="submit" disabled={saving}>{saving ? 'Saving...' : 'Save Supplier'}</Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-green-600"></div>
+            </div>
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-12 text-gray-500">
+              <Truck className="h-10 w-10 mx-auto mb-3 text-gray-300" />
+              No suppliers yet
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead className="text-left text-gray-500 border-b">
+                  <tr>
+                    <th className="px-4 py-3 font-medium">Supplier</th>
+                    <th className="px-4 py-3 font-medium">Contact</th>
+                    <th className="px-4 py-3 font-medium">Payment terms</th>
+                    <th className="px-4 py-3 font-medium text-right">Lead time</th>
+                    <th className="px-4 py-3 font-medium">Status</th>
+                    <th className="px-4 py-3"></th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {suppliers.map(supplier => (
+                    <tr key={supplier.id}>
+                      <td className="px-4 py-3">
+                        <div className="font-medium text-gray-900">{supplier.name}</div>
+                        <div className="text-xs text-gray-500">{supplier.supplier_code}</div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">
+                        <div>{supplier.contact_name || '—'}</div>
+                        <div className="text-xs">{[supplier.email, supplier.phone].filter(Boolean).join(' · ')}</div>
+                      </td>
+                      <td className="px-4 py-3 text-gray-600">{supplier.payment_terms || '—'}</td>
+                      <td className="px-4 py-3 text-right">{supplier.lead_time_days} days</td>
+                      <td className="px-4 py-3">
+                        <Badge variant={supplier.is_active ? 'default' : 'secondary'}>
+                          {supplier.is_active ? 'Active' : 'Inactive'}
+                        </Badge>
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <Button variant="outline" size="sm" onClick={() => handleEdit(supplier)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
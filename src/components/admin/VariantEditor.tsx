@@ -0,0 +1,184 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { BarcodeInput } from '../BarcodeInput';
+import { VariantDraft, VariantService } from '../../utils/variant-service';
+
+interface VariantEditorProps {
+  variants: VariantDraft[];
+  onChange: (variants: VariantDraft[]) => void;
+  basePrice: number;
+  baseSku?: string;
+}
+
+const parseOptionNames = (value: string) =>
+  value.split(',').map(name => name.trim()).filter(Boolean);
+
+/**
+ * Edits the variants of one product. Shared by the product editor page and
+ * the quick edit dialog in product management; saving is left to the caller.
+ */
+export function VariantEditor({ variants, onChange, basePrice, baseSku = '' }: VariantEditorProps) {
+  const [optionText, setOptionText] = useState(() => VariantService.getOptionNames(variants).join(', '));
+
+  // Pick up option names once the caller has loaded the variants
+  useEffect(() => {
+    if (!optionText && variants.length > 0) {
+      setOptionText(VariantService.getOptionNames(variants).join(', '));
+    }
+  }, [variants]);
+
+  const optionNames = parseOptionNames(optionText);
+
+  const updateVariant = (index: number, changes: Partial<VariantDraft>) => {
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)));
+  };
+
+  const setOption = (index: number, name: string, value: string) => {
+    const options = { ...variants[index].options, [name]: value };
+    const previousName = VariantService.describe(variants[index].options);
+    // Keep the display name in step with the options until it is edited by hand
+    const autoName = !variants[index].name || variants[index].name === previousName;
+    updateVariant(index, { options, ...(autoName ? { name: VariantService.describe(options) } : {}) });
+  };
+
+  const addVariant = () => {
+    onChange([
+      ...variants,
+      {
+        name: '',
+        options: Object.fromEntries(optionNames.map(name => [name, ''])),
+        sku: baseSku ? `${baseSku}-${variants.length + 1}` : '',
+        barcode: null,
+        price: null,
+        compare_at_price: null,
+        stock_quantity: 0,
+        image_url: null,
+        is_active: true,
+        sort_order: variants.length,
+      },
+    ]);
+  };
+
+  const removeVariant = (index: number) => {
+    onChange(variants.filter((_, i) => i !== index));
+  };
+
+  const totalStock = variants
+    .filter(variant => variant.is_active)
+    .reduce((sum, variant) => sum + Number(variant.stock_quantity || 0), 0);
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm text-gray-700 mb-1">Option names</label>
+        <input
+          className="w-full px-3 py-2 border rounded-md"
+          value={optionText}
+          onChange={(e) => setOptionText(e.target.value)}
+          placeholder="e.g. Size, Scent"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Separate option names with commas. Leave the price empty to use the product price (R{Number(basePrice || 0).toFixed(2)}).
+        </p>
+      </div>
+
+      {variants.map((variant, index) => (
+        <div key={variant.id || `new-${index}`} className="border rounded-lg p-3 space-y-2 bg-white">
+          <div className="flex items-center gap-2">
+            <input
+              className="flex-1 px-3 py-2 border rounded-md font-medium"
+              value={variant.name}
+              onChange={(e) => updateVariant(index, { name: e.target.value })}
+              placeholder="Variant name, e.g. 1L Lavender"
+            />
+            <label className="inline-flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={variant.is_active}
+                onChange={(e) => updateVariant(index, { is_active: e.target.checked })}
+              />
+              <span>Active</span>
+            </label>
+            <button
+              type="button"
+              onClick={() => removeVariant(index)}
+              className="p-2 rounded-md border text-red-600"
+              title="Remove variant"
+            >
+              <Trash2 className="h-4 w-4" />
+            </button>
+          </div>
+
+          {optionNames.length > 0 && (
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {optionNames.map(name => (
+                <div key={name}>
+                  <label className="block text-xs text-gray-500 mb-1">{name}</label>
+                  <input
+                    className="w-full px-3 py-2 border rounded-md"
+                    value={variant.options[name] || ''}
+                    onChange={(e) => setOption(index, name, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">SKU</label>
+              <input
+                className="w-full px-3 py-2 border rounded-md"
+                value={variant.sku}
+                onChange={(e) => updateVariant(index, { sku: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Price (R)</label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                className="w-full px-3 py-2 border rounded-md"
+                value={variant.price ?? ''}
+                placeholder={Number(basePrice || 0).toFixed(2)}
+                onChange={(e) => updateVariant(index, { price: e.target.value === '' ? null : Number(e.target.value) })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Stock</label>
+              <input
+                type="number"
+                min="0"
+                className="w-full px-3 py-2 border rounded-md"
+                value={variant.stock_quantity}
+                onChange={(e) => updateVariant(index, { stock_quantity: parseInt(e.target.value || '0') || 0 })}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 mb-1">Barcode</label>
+              <BarcodeInput
+                value={variant.barcode || ''}
+                onChange={(barcode) => updateVariant(index, { barcode })}
+                placeholder="Barcode"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={addVariant}
+          className="inline-flex items-center gap-2 px-3 py-2 rounded-lg border bg-white hover:bg-gray-50 text-sm"
+        >
+          <Plus className="h-4 w-4" /> Add variant
+        </button>
+        {variants.length > 0 && (
+          <span className="text-sm text-gray-600">{totalStock} units across active variants</span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -8,6 +8,7 @@ import {
   LogOut, 
   User, 
   Clock,
+  PackageCheck,
   Home,
   Receipt,
   Package,
@@ -49,6 +50,8 @@ export default function CashierNavbar() {
   const cashierLinks = [
     { to: '/cashier/dashboard', label: 'Dashboard', icon: BarChart3 },
     { to: '/cashier/pos', label: 'POS System', icon: ShoppingCart },
+    { to: '/cashier/shift', label: 'My Shift', icon: Clock },
+    { to: '/cashier/collections', label: 'Collections', icon: PackageCheck },
     { to: '/cashier/reports', label: 'Reports', icon: TrendingUp },
   ];
 
@@ -0,0 +1,42 @@
+import React from 'react';
+import { DENOMINATIONS, DenominationCount, ShiftService } from '../../utils/shift-service';
+
+interface DenominationCounterProps {
+  value: DenominationCount;
+  onChange: (value: DenominationCount) => void;
+}
+
+/**
+ * Number of each note and coin in the drawer, with the running total
+ */
+export default function DenominationCounter({ value, onChange }: DenominationCounterProps) {
+  const setPieces = (denomination: number, pieces: string) => {
+    onChange({ ...value, [denomination]: Math.max(0, Math.floor(Number(pieces) || 0)) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-3">
+        {DENOMINATIONS.map(denomination => (
+          <label key={denomination} className="flex items-center gap-2 p-2 rounded-xl border border-[#97CF50]/30 bg-white">
+            <span className="w-12 text-right font-semibold text-[#09215F]">{ShiftService.formatDenomination(denomination)}</span>
+            <span className="text-gray-400">×</span>
+            <input
+              type="number"
+              min="0"
+              inputMode="numeric"
+              value={value[denomination] || ''}
+              onChange={(e) => setPieces(denomination, e.target.value)}
+              placeholder="0"
+              className="w-full px-2 py-1 border rounded-lg text-right"
+            />
+          </label>
+        ))}
+      </div>
+      <div className="flex justify-between items-center px-3 py-2 rounded-xl bg-[#97CF50]/10 font-semibold text-[#09215F]">
+        <span>Total counted</span>
+        <span>R{ShiftService.countTotal(value).toFixed(2)}</span>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { KeyRound, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Approver, Override, OverrideRequest, OverrideService } from '../../utils/override-service';
+
+interface ManagerOverrideModalProps {
+  title: string;
+  request: OverrideRequest;
+  onClose: () => void;
+  onApproved: (override: Override) => void;
+}
+
+/**
+ * A manager picks their name and types their override PIN on the till to
+ * authorise something the cashier's role does not allow
+ */
+export default function ManagerOverrideModal({ title, request, onClose, onApproved }: ManagerOverrideModalProps) {
+  const [approvers, setApprovers] = useState<Approver[]>([]);
+  const [approverId, setApproverId] = useState('');
+  const [pin, setPin] = useState('');
+  const [reason, setReason] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    OverrideService.listApprovers().then(result => {
+      if (result.success) {
+        setApprovers(result.data || []);
+        if (result.data?.length === 1) setApproverId(result.data[0].id);
+      } else {
+        toast.error(result.error || 'Failed to load managers');
+      }
+      setLoading(false);
+    });
+  }, []);
+
+  const handleApprove = async () => {
+    if (!approverId || !pin) {
+      toast.error('Choose a manager and enter their PIN');
+      return;
+    }
+    setSubmitting(true);
+    const result = await OverrideService.request({ ...request, approver_id: approverId, pin, reason });
+    setSubmitting(false);
+
+    if (!result.success || !result.data) {
+      setPin('');
+      toast.error('Not Authorised', { description: result.error || 'The override was not approved', duration: 5000 });
+      return;
+    }
+    onApproved(result.data);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-2xl font-bold text-[#09215F] flex items-center">
+            <KeyRound className="h-6 w-6 mr-2 text-[#97CF50]" />
+            Manager Approval
+          </h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <div className="space-y-4">
+          <p className="text-[#09215F] font-semibold">{title}</p>
+
+          {loading ? (
+            <div className="flex justify-center py-4">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#97CF50]"></div>
+            </div>
+          ) : approvers.length === 0 ? (
+            <p className="text-sm text-red-600">
+              No manager has set an override PIN yet. A manager can set one under Overrides in the admin area.
+            </p>
+          ) : (
+            <>
+              <select
+                value={approverId}
+                onChange={(e) => setApproverId(e.target.value)}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+              >
+                <option value="">Select manager</option>
+                {approvers.map(approver => (
+                  <option key={approver.id} value={approver.id}>{approver.name}</option>
+                ))}
+              </select>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoComplete="off"
+                value={pin}
+                onChange={(e) => setPin(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                onKeyDown={(e) => { if (e.key === 'Enter') handleApprove(); }}
+                placeholder="Manager PIN"
+                autoFocus
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl text-center text-2xl tracking-widest focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+              />
+              <input
+                type="text"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder="Reason (optional)"
+                maxLength={200}
+                className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+              />
+            </>
+          )}
+
+          <div className="flex space-x-4">
+            <button
+              onClick={onClose}
+              className="flex-1 bg-gray-200 text-[#09215F] py-3 px-4 rounded-xl hover:bg-gray-300 transition-all duration-300 font-semibold"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleApprove}
+              disabled={submitting || approvers.length === 0}
+              className="flex-1 bg-[#97CF50] text-white py-3 px-4 rounded-xl hover:bg-[#09215F] transition-all duration-300 font-semibold disabled:opacity-50"
+            >
+              {submitting ? 'Checking...' : 'Approve'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
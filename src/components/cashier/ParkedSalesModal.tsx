@@ -0,0 +1,129 @@
+import React, { useEffect, useState } from 'react';
+import { PauseCircle, RefreshCw, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { ParkedSale, ParkedSaleService } from '../../utils/parked-sale-service';
+
+interface ParkedSalesModalProps {
+  onClose: () => void;
+  onRecall: (sale: ParkedSale) => void;
+  basketEmpty: boolean;
+}
+
+/**
+ * Baskets parked at this store today, for recalling onto the till
+ */
+export default function ParkedSalesModal({ onClose, onRecall, basketEmpty }: ParkedSalesModalProps) {
+  const [sales, setSales] = useState<ParkedSale[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchSales();
+  }, []);
+
+  const fetchSales = async () => {
+    setLoading(true);
+    const result = await ParkedSaleService.list();
+    if (result.success) {
+      setSales(result.data || []);
+    } else {
+      toast.error(result.error || 'Failed to load parked sales');
+    }
+    setLoading(false);
+  };
+
+  const handleRecall = async (sale: ParkedSale) => {
+    if (!basketEmpty) {
+      toast.error('Finish or park the current sale first');
+      return;
+    }
+    setBusyId(sale.id);
+    const result = await ParkedSaleService.recall(sale.id);
+    setBusyId(null);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to recall sale');
+      fetchSales();
+      return;
+    }
+    onRecall(result.data);
+  };
+
+  const handleDiscard = async (sale: ParkedSale) => {
+    if (!window.confirm(`Discard the parked sale "${sale.label}"?`)) return;
+    setBusyId(sale.id);
+    const result = await ParkedSaleService.discard(sale.id);
+    setBusyId(null);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to discard parked sale');
+    } else {
+      toast.success(`Parked sale "${sale.label}" discarded`);
+    }
+    fetchSales();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-lg w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-[#09215F]">Parked Sales</h3>
+          <div className="flex items-center space-x-1">
+            <button onClick={fetchSales} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+              <RefreshCw className="h-5 w-5" />
+            </button>
+            <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+              <X className="h-6 w-6" />
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-y-auto space-y-3">
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-[#97CF50]"></div>
+            </div>
+          ) : sales.length === 0 ? (
+            <div className="text-center py-8 text-[#09215F]/70">
+              <PauseCircle className="h-10 w-10 mx-auto mb-2 text-[#97CF50]" />
+              No sales parked at this store
+            </div>
+          ) : (
+            sales.map(sale => (
+              <div key={sale.id} className="rounded-xl border border-[#97CF50]/30 p-4">
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="font-semibold text-[#09215F]">{sale.label}</div>
+                    <div className="text-sm text-[#09215F]/70">
+                      {sale.item_count} item{sale.item_count === 1 ? '' : 's'} · R{Number(sale.subtotal).toFixed(2)}
+                      {sale.customer ? ` · ${sale.customer.name}` : ''}
+                    </div>
+                    <div className="text-xs text-[#09215F]/50">
+                      Parked {new Date(sale.created_at).toLocaleTimeString()}{sale.parked_by_name ? ` by ${sale.parked_by_name}` : ''}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-2">
+                    <button
+                      onClick={() => handleDiscard(sale)}
+                      disabled={busyId === sale.id}
+                      className="text-red-500 hover:text-red-700 p-2 disabled:opacity-50"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => handleRecall(sale)}
+                      disabled={busyId === sale.id}
+                      className="px-4 py-2 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors disabled:opacity-50"
+                    >
+                      Recall
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
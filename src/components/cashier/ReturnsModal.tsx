@@ -0,0 +1,273 @@
+import React, { useState } from 'react';
+import { RotateCcw, Search, X } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  RefundMethod,
+  RETURN_REASONS,
+  ReturnLookup,
+  ReturnReason,
+  ReturnResult,
+  ReturnService,
+} from '../../utils/return-service';
+import type { GiftCard } from '../../utils/tender-service';
+
+interface ReturnsModalProps {
+  onClose: () => void;
+  onExchange: (credit: GiftCard) => void;
+  basketEmpty: boolean;
+}
+
+interface LineSelection {
+  quantity: number;
+  restock: boolean;
+}
+
+/**
+ * Take back items from a receipt: scan the order number, pick the lines and
+ * pay out as cash, card or store credit, or start an exchange
+ */
+export default function ReturnsModal({ onClose, onExchange, basketEmpty }: ReturnsModalProps) {
+  const [orderNumber, setOrderNumber] = useState('');
+  const [order, setOrder] = useState<ReturnLookup | null>(null);
+  const [selection, setSelection] = useState<Record<string, LineSelection>>({});
+  const [reason, setReason] = useState<ReturnReason | ''>('');
+  const [note, setNote] = useState('');
+  const [method, setMethod] = useState<RefundMethod | 'exchange' | ''>('');
+  const [requestId, setRequestId] = useState(() => crypto.randomUUID());
+  const [completed, setCompleted] = useState<ReturnResult | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!orderNumber.trim()) return;
+    setBusy(true);
+    const result = await ReturnService.lookup(orderNumber);
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Order not found');
+      return;
+    }
+    setOrder(result.data);
+    setSelection({});
+    setReason('');
+    setNote('');
+    setMethod(result.data.refund_methods[0] || '');
+    setCompleted(null);
+    setRequestId(crypto.randomUUID());
+  };
+
+  const restockDefault = (value: ReturnReason | '') => RETURN_REASONS.find(r => r.value === value)?.restock ?? true;
+
+  const setLineQuantity = (orderItemId: string, quantity: number) => {
+    setSelection(prev => ({
+      ...prev,
+      [orderItemId]: { quantity, restock: prev[orderItemId]?.restock ?? restockDefault(reason) },
+    }));
+  };
+
+  const handleReasonChange = (value: ReturnReason | '') => {
+    setReason(value);
+    // Damaged and faulty goods stay off the shelf unless the cashier says otherwise
+    setSelection(prev => Object.fromEntries(
+      Object.entries(prev).map(([id, line]) => [id, { ...line, restock: restockDefault(value) }])
+    ));
+  };
+
+  const selectedLines = order
+    ? order.lines.filter(line => (selection[line.order_item_id]?.quantity || 0) > 0)
+    : [];
+  const refundAmount = Math.min(
+    Math.round(selectedLines.reduce((sum, line) => sum + line.unit_amount * selection[line.order_item_id].quantity, 0) * 100) / 100,
+    order?.refundable_amount || 0
+  );
+
+  const handleSubmit = async () => {
+    if (!order || !reason || !method || selectedLines.length === 0) return;
+    if (method === 'exchange' && !basketEmpty) {
+      toast.error('Finish or park the current sale before starting an exchange');
+      return;
+    }
+
+    setBusy(true);
+    const result = await ReturnService.process({
+      orderId: order.order_id,
+      lines: selectedLines.map(line => ({
+        order_item_id: line.order_item_id,
+        quantity: selection[line.order_item_id].quantity,
+        restock: selection[line.order_item_id].restock,
+      })),
+      reason,
+      note,
+      method: method === 'exchange' ? 'store_credit' : method,
+      exchange: method === 'exchange',
+      requestId,
+    });
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Return failed');
+      return;
+    }
+
+    const done = result.data;
+    if (method === 'exchange' && done.gift_card) {
+      toast.success(`Exchange credit of R${done.amount.toFixed(2)} ready`, {
+        description: 'Scan the new items; the credit is taken off at payment',
+      });
+      onExchange(done.gift_card);
+      onClose();
+      return;
+    }
+
+    toast.success(`Return ${done.refund.refund_number} processed`);
+    setCompleted(done);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-2xl shadow-2xl p-6 max-w-2xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-2xl font-bold text-[#09215F]">Returns &amp; Exchanges</h3>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+            <X className="h-6 w-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleLookup} className="flex space-x-2 mb-4">
+          <input
+            autoFocus
+            value={orderNumber}
+            onChange={(e) => setOrderNumber(e.target.value)}
+            placeholder="Scan the receipt barcode or type the order number"
+            className="flex-1 px-4 py-3 border-2 border-[#97CF50]/30 rounded-xl focus:outline-none focus:border-[#97CF50] text-[#09215F]"
+          />
+          <button
+            type="submit"
+            disabled={busy || !orderNumber.trim()}
+            className="px-4 rounded-xl bg-[#09215F] text-white hover:bg-[#97CF50] transition-colors disabled:opacity-50"
+          >
+            <Search className="h-5 w-5" />
+          </button>
+        </form>
+
+        <div className="overflow-y-auto space-y-4">
+          {completed ? (
+            <div className="rounded-xl bg-green-50 border border-green-200 p-5 text-center space-y-2">
+              <div className="text-lg font-semibold text-green-900">
+                {completed.method === 'store_credit'
+                  ? 'Give the customer their store credit'
+                  : completed.method === 'cash'
+                    ? `Pay out R${completed.amount.toFixed(2)} from the drawer`
+                    : `Refund R${completed.amount.toFixed(2)} to the customer's card`}
+              </div>
+              {completed.gift_card && (
+                <>
+                  <div className="text-2xl font-mono font-bold text-green-900">{completed.gift_card.code}</div>
+                  <div className="text-sm text-green-700">R{Number(completed.gift_card.balance).toFixed(2)} to spend in store</div>
+                </>
+              )}
+              {completed.method === 'card' && (
+                <div className="text-sm text-green-700">Process the refund on the card terminal if it was a till card payment</div>
+              )}
+              <div className="text-xs text-green-700">{completed.refund.refund_number}</div>
+            </div>
+          ) : order && (
+            <>
+              <div className="flex justify-between text-sm text-[#09215F]/80">
+                <span>
+                  <span className="font-semibold text-[#09215F]">{order.order_number}</span>
+                  {' · '}{new Date(order.created_at).toLocaleDateString('en-ZA')}
+                  {order.customer_name ? ` · ${order.customer_name}` : ''}
+                </span>
+                <span>R{order.refundable_amount.toFixed(2)} returnable of R{order.total.toFixed(2)}</span>
+              </div>
+
+              <div className="rounded-xl border border-[#97CF50]/30 divide-y">
+                {order.lines.map(line => {
+                  const selected = selection[line.order_item_id];
+                  return (
+                    <div key={line.order_item_id} className="p-3 flex items-center justify-between">
+                      <div>
+                        <div className="font-medium text-[#09215F]">{line.name}</div>
+                        <div className="text-xs text-[#09215F]/60">
+                          Bought {line.quantity} · R{line.unit_amount.toFixed(2)} each
+                          {line.refunded_quantity > 0 ? ` · ${line.refunded_quantity} already returned` : ''}
+                        </div>
+                        {selected?.quantity > 0 && (
+                          <label className="flex items-center gap-2 text-xs text-[#09215F]/80 mt-1">
+                            <input
+                              type="checkbox"
+                              checked={selected.restock}
+                              onChange={(e) => setSelection({ ...selection, [line.order_item_id]: { ...selected, restock: e.target.checked } })}
+                            />
+                            Back into stock
+                          </label>
+                        )}
+                      </div>
+                      {line.refundable_quantity > 0 ? (
+                        <select
+                          value={selected?.quantity || 0}
+                          onChange={(e) => setLineQuantity(line.order_item_id, Number(e.target.value))}
+                          className="px-3 py-2 border rounded-lg text-[#09215F]"
+                        >
+                          {Array.from({ length: line.refundable_quantity + 1 }, (_, n) => (
+                            <option key={n} value={n}>{n}</option>
+                          ))}
+                        </select>
+                      ) : (
+                        <span className="text-xs text-[#09215F]/50">Returned</span>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <select
+                  value={reason}
+                  onChange={(e) => handleReasonChange(e.target.value as ReturnReason | '')}
+                  className="px-3 py-2 border rounded-lg text-[#09215F]"
+                >
+                  <option value="">Reason for return…</option>
+                  {RETURN_REASONS.map(r => (
+                    <option key={r.value} value={r.value}>{r.label}</option>
+                  ))}
+                </select>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="Note (optional)"
+                  className="px-3 py-2 border rounded-lg text-[#09215F]"
+                />
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                {[...order.refund_methods, 'exchange' as const].map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setMethod(option)}
+                    className={`px-4 py-2 rounded-xl font-semibold border-2 transition-colors ${
+                      method === option ? 'border-[#97CF50] bg-[#97CF50]/20 text-[#09215F]' : 'border-gray-200 text-[#09215F]/70 hover:border-[#97CF50]/50'
+                    }`}
+                  >
+                    {option === 'exchange' ? 'Exchange' : ReturnService.getMethodLabel(option)}
+                  </button>
+                ))}
+              </div>
+
+              <button
+                onClick={handleSubmit}
+                disabled={busy || !reason || !method || selectedLines.length === 0}
+                className="w-full py-3 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors disabled:opacity-50 flex items-center justify-center"
+              >
+                <RotateCcw className="h-5 w-5 mr-2" />
+                {method === 'exchange' ? 'Start exchange' : 'Refund'} R{refundAmount.toFixed(2)}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useRef } from 'react';
+import { Printer } from 'lucide-react';
+import { ShiftReport, ShiftService } from '../../utils/shift-service';
+import { TENDER_METHODS, TenderService } from '../../utils/tender-service';
+
+interface ShiftReportViewProps {
+  report: ShiftReport;
+}
+
+const formatRand = (value: number | null | undefined) => {
+  const amount = Number(value || 0);
+  return `${amount < 0 ? '-' : ''}R${Math.abs(amount).toFixed(2)}`;
+};
+
+/**
+ * X- or Z-report for a shift, laid out to print on a receipt printer
+ */
+export default function ShiftReportView({ report }: ShiftReportViewProps) {
+  const reportRef = useRef<HTMLDivElement | null>(null);
+  const { shift, totals } = report;
+  const closed = report.report_type === 'Z';
+
+  const handlePrint = () => {
+    const content = reportRef.current?.innerHTML || '';
+    const printWindow = window.open('', '_blank', 'width=360,height=640');
+    if (!printWindow) return;
+    printWindow.document.open();
+    printWindow.document.write(`<!doctype html><html><head><title>${report.report_type}-report ${shift.shift_number}</title>
+      <style>
+        body { font-family: ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace; padding: 16px; }
+        .receipt { width: 280px; margin: 0 auto; }
+        .center { text-align: center; }
+        .hr { border-top: 1px dashed #999; margin: 8px 0; }
+        .row { display: flex; justify-content: space-between; }
+        .small { font-size: 12px; color: #444; }
+        .bold { font-weight: bold; }
+      </style>
+    </head><body onload="window.print();window.close()"><div class="receipt">${content}</div></body></html>`);
+    printWindow.document.close();
+  };
+
+  const row = (label: string, value: string, bold = false) => (
+    <div className={`row flex justify-between ${bold ? 'bold font-semibold' : ''}`}>
+      <span>{label}</span>
+      <span>{value}</span>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div ref={reportRef} className="font-mono text-sm text-gray-800 bg-white border rounded-xl p-4 max-w-sm mx-auto space-y-1">
+        <div className="center text-center bold font-semibold">BEST BRIGHTNESS</div>
+        <div className="center text-center">{report.report_type}-REPORT {closed ? '(END OF SHIFT)' : '(SHIFT SO FAR)'}</div>
+        <div className="hr border-t border-dashed my-2"></div>
+        {row('Shift', shift.shift_number)}
+        {row('Cashier', shift.cashier_name || '—')}
+        {row('Opened', new Date(shift.opened_at).toLocaleString())}
+        {shift.closed_at && row('Closed', new Date(shift.closed_at).toLocaleString())}
+        <div className="small text-xs text-gray-500">Printed {new Date(report.generated_at).toLocaleString()}</div>
+        <div className="hr border-t border-dashed my-2"></div>
+        {row('Sales', String(totals.sale_count))}
+        {row('Gross sales', formatRand(totals.gross_sales))}
+        {row('Discounts given', formatRand(totals.discounts))}
+        {totals.tenders ? (
+          TENDER_METHODS.filter(method => method === 'cash' || method === 'card' || Number(totals.tenders?.[method]) > 0).map(method => (
+            <div key={method}>{row(`${TenderService.getLabel(method)} sales`, formatRand(totals.tenders?.[method]))}</div>
+          ))
+        ) : (
+          <>
+            {row('Cash sales', formatRand(totals.cash_sales))}
+            {row('Card sales', formatRand(totals.card_sales))}
+          </>
+        )}
+        {row('Cash tendered', formatRand(totals.cash_tendered))}
+        {row('Change given', formatRand(totals.change_given))}
+        <div className="hr border-t border-dashed my-2"></div>
+        {row(`Refunds (${totals.refund_count})`, formatRand(totals.cash_refunds + totals.card_refunds + Number(totals.store_credit_refunds || 0)))}
+        {row('  Cash', formatRand(totals.cash_refunds))}
+        {row('  Card', formatRand(totals.card_refunds))}
+        {Number(totals.store_credit_refunds) > 0 && row('  Store credit', formatRand(totals.store_credit_refunds))}
+        {row('Pay-ins', formatRand(totals.pay_ins))}
+        {row('Pay-outs', formatRand(totals.pay_outs))}
+        <div className="hr border-t border-dashed my-2"></div>
+        {row('Opening float', formatRand(totals.opening_float))}
+        {row('Expected cash', formatRand(totals.expected_cash), true)}
+        {closed && (
+          <>
+            {row('Counted cash', formatRand(report.counted_cash), true)}
+            {row(
+              Number(report.cash_variance) < 0 ? 'Cash short' : Number(report.cash_variance) > 0 ? 'Cash over' : 'Variance',
+              formatRand(report.cash_variance),
+              true
+            )}
+          </>
+        )}
+        {closed && shift.closing_denominations && (
+          <>
+            <div className="hr border-t border-dashed my-2"></div>
+            <div className="small text-xs text-gray-500">Cash count</div>
+            {Object.entries(shift.closing_denominations)
+              .filter(([, pieces]) => pieces > 0)
+              .sort(([a], [b]) => Number(b) - Number(a))
+              .map(([denomination, pieces]) => (
+                <div key={denomination}>
+                  {row(
+                    `${ShiftService.formatDenomination(Number(denomination))} × ${pieces}`,
+                    formatRand(Number(denomination) * pieces)
+                  )}
+                </div>
+              ))}
+          </>
+        )}
+        {report.movements.length > 0 && (
+          <>
+            <div className="hr border-t border-dashed my-2"></div>
+            <div className="small text-xs text-gray-500">Pay-ins and pay-outs</div>
+            {report.movements.map(movement => (
+              <div key={movement.id}>
+                {row(
+                  `${movement.movement_type === 'pay_in' ? 'In' : 'Out'}: ${movement.reason}`,
+                  formatRand(movement.movement_type === 'pay_in' ? movement.amount : -movement.amount)
+                )}
+              </div>
+            ))}
+          </>
+        )}
+        {shift.closing_notes && <div className="small text-xs text-gray-500">Notes: {shift.closing_notes}</div>}
+        {shift.reviewed_at && (
+          <div className="small text-xs text-gray-500">
+            Reviewed {new Date(shift.reviewed_at).toLocaleString()}{shift.review_notes ? `: ${shift.review_notes}` : ''}
+          </div>
+        )}
+      </div>
+
+      <div className="flex justify-center">
+        <button
+          onClick={handlePrint}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl bg-[#09215F] text-white hover:bg-[#97CF50] transition-colors"
+        >
+          <Printer className="h-4 w-4" /> Print {report.report_type}-report
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -92,6 +92,11 @@ export default function Footer() {
                   Contact
                 </Link>
               </li>
+              <li>
+                <Link to="/track-order" className="text-gray-300 hover:text-white transition-colors hover:pl-2 duration-200">
+                  Track Order
+                </Link>
+              </li>
               <li>
                 <a href="#" className="text-gray-300 hover:text-white transition-colors hover:pl-2 duration-200">
                   Bulk Orders
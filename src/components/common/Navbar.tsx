@@ -1,16 +1,16 @@
 import React, { useState } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { Search, User, Menu, X, LogOut, Settings, Package, BarChart3, Users, Sparkles, Heart, Bell } from 'lucide-react';
+import { User, Menu, X, LogOut, Settings, Package, BarChart3, Users, Sparkles, Heart, Bell } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useFavourites } from '../../contexts/FavouritesContext';
 import { useStockNotifications } from '../../contexts/StockNotificationsContext';
 import CartIcon from './CartIcon';
+import SearchAutocomplete from './SearchAutocomplete';
 import ShareableCartNotifications from './ShareableCartNotifications';
 
 export default function Navbar() {
   const [isMenuOpen, setIsMenuOpen] = useState(false);
   const [isProfileOpen, setIsProfileOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
   const { user, profile, signOut, isAtLeastRole } = useAuth();
   const { items: favouriteItems } = useFavourites();
   const { notifications } = useStockNotifications();
@@ -26,20 +26,6 @@ export default function Navbar() {
     }
   };
 
-  const handleSearch = (query: string) => {
-    if (query.trim()) {
-      navigate(`/products?search=${encodeURIComponent(query.trim())}`);
-      setSearchQuery('');
-      setIsMenuOpen(false); // Close mobile menu after search
-    }
-  };
-
-  const handleSearchKeyPress = (e: React.KeyboardEvent<HTMLInputElement>) => {
-    if (e.key === 'Enter') {
-      handleSearch(searchQuery);
-    }
-  };
-
   const navigationLinks = [
     { to: '/', label: 'Home' },
     { to: '/products', label: 'Products' },
@@ -49,8 +35,23 @@ export default function Navbar() {
   const adminLinks = [
     { to: '/admin', label: 'Dashboard', icon: BarChart3 },
     { to: '/admin/products', label: 'Products', icon: Package },
+    { to: '/admin/inventory', label: 'Inventory', icon: Package },
+    { to: '/admin/purchase-orders', label: 'Purchase Orders', icon: Package },
+    { to: '/admin/stock-takes', label: 'Stock-takes', icon: Package },
+    { to: '/admin/suppliers', label: 'Suppliers', icon: Users },
     { to: '/admin/promotions', label: 'Promotions', icon: Settings },
+    { to: '/admin/combos', label: 'Combos', icon: Settings },
+    { to: '/admin/reviews', label: 'Reviews', icon: Settings },
     { to: '/admin/orders', label: 'Orders', icon: Package },
+    { to: '/admin/shifts', label: 'Shifts', icon: Package },
+    { to: '/admin/gift-cards', label: 'Gift Cards', icon: Package },
+    { to: '/admin/offline-sales', label: 'Offline Sales', icon: Package },
+    { to: '/admin/overrides', label: 'Overrides', icon: Package },
+    { to: '/admin/receipt-template', label: 'Receipts', icon: Settings },
+    { to: '/admin/shipping', label: 'Shipping', icon: Settings },
+    { to: '/admin/search', label: 'Search', icon: Settings },
+    { to: '/admin/emails', label: 'Emails', icon: Settings },
+    { to: '/admin/cart-recovery', label: 'Cart Recovery', icon: Settings },
     { to: '/admin/users', label: 'Users', icon: Users },
   ];
 
@@ -222,26 +223,7 @@ export default function Navbar() {
 
           {/* Search Bar */}
           <div className="hidden md:flex flex-1 max-w-md mx-8">
-            <div className="relative w-full">
-              <input
-                type="text"
-                placeholder="Search cleaning products..."
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-                onKeyPress={handleSearchKeyPress}
-                className="w-full pl-10 pr-10 py-2 border border-[#B0E0E6] dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent bg-[#F8F9FA]/50 dark:bg-gray-800 hover:bg-white dark:hover:bg-gray-700 transition-colors text-[#09215F] dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400"
-              />
-              <Search className="absolute left-3 top-2.5 h-5 w-5 text-[#97CF50] dark:text-green-400" />
-              {searchQuery && (
-                <button
-                  onClick={() => handleSearch(searchQuery)}
-                  className="absolute right-3 top-2.5 text-[#97CF50] dark:text-green-400 hover:text-[#09215F] dark:hover:text-white transition-colors"
-                  title="Search"
-                >
-                  <Search className="h-5 w-5" />
-                </button>
-              )}
-            </div>
+            <SearchAutocomplete inputClassName="w-full pl-10 pr-10 py-2 border border-[#B0E0E6] dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent bg-[#F8F9FA]/50 dark:bg-gray-800 hover:bg-white dark:hover:bg-gray-700 transition-colors text-[#09215F] dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400" />
           </div>
 
           {/* Right Side - Desktop only */}
@@ -382,26 +364,10 @@ export default function Navbar() {
             <div className="py-4 space-y-2">
               {/* Search */}
               <div className="px-4 pb-4">
-                <div className="relative">
-                  <input
-                    type="text"
-                    placeholder="Search cleaning products..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    onKeyPress={handleSearchKeyPress}
-                    className="w-full pl-10 pr-10 py-2 border border-[#B0E0E6] dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] bg-[#F8F9FA]/50 dark:bg-gray-800 text-[#09215F] dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400"
-                  />
-                  <Search className="absolute left-3 top-2.5 h-5 w-5 text-[#97CF50] dark:text-green-400" />
-                  {searchQuery && (
-                    <button
-                      onClick={() => handleSearch(searchQuery)}
-                      className="absolute right-3 top-2.5 text-[#97CF50] dark:text-green-400 hover:text-[#09215F] dark:hover:text-white transition-colors"
-                      title="Search"
-                    >
-                      <Search className="h-5 w-5" />
-                    </button>
-                  )}
-                </div>
+                <SearchAutocomplete
+                  inputClassName="w-full pl-10 pr-10 py-2 border border-[#B0E0E6] dark:border-gray-600 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] bg-[#F8F9FA]/50 dark:bg-gray-800 text-[#09215F] dark:text-gray-200 placeholder-gray-500 dark:placeholder-gray-400"
+                  onNavigate={() => setIsMenuOpen(false)}
+                />
               </div>
 
               {/* Mobile Favourites */}
@@ -0,0 +1,114 @@
+import React from 'react';
+import { CheckCircle, Circle, ExternalLink, Truck } from 'lucide-react';
+import { Badge } from '../ui/badge';
+import { OrderTracking, SHIPMENT_STATUS_LABELS, ShipmentService } from '../../utils/shipment-service';
+
+interface OrderTimelineProps {
+  tracking: OrderTracking;
+}
+
+const DELIVERY_STEPS = [
+  { label: 'Placed', statuses: ['pending', 'confirmed', 'processing', 'shipped', 'delivered'] },
+  { label: 'Confirmed', statuses: ['confirmed', 'processing', 'shipped', 'delivered'] },
+  { label: 'Shipped', statuses: ['shipped', 'delivered'] },
+  { label: 'Delivered', statuses: ['delivered'] },
+];
+
+const COLLECTION_STEPS = [
+  { label: 'Placed', statuses: ['pending', 'confirmed', 'processing', 'ready_for_collection', 'delivered'] },
+  { label: 'Confirmed', statuses: ['confirmed', 'processing', 'ready_for_collection', 'delivered'] },
+  { label: 'Ready', statuses: ['ready_for_collection', 'delivered'] },
+  { label: 'Collected', statuses: ['delivered'] },
+];
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-ZA', { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Where an order is: a step bar for the usual path, then every status change
+ * and parcel, newest first, with courier tracking numbers
+ */
+export default function OrderTimeline({ tracking }: OrderTimelineProps) {
+  const steps = tracking.fulfillment_method === 'collect' ? COLLECTION_STEPS : DELIVERY_STEPS;
+  const stopped = ['cancelled', 'refunded'].includes(tracking.status);
+  const partlyShipped = tracking.fulfillment_status === 'partial';
+  const events = ShipmentService.timeline(tracking);
+
+  return (
+    <div className="space-y-6">
+      {stopped ? (
+        <div className="p-3 rounded-lg bg-red-50 text-red-800 text-sm font-medium capitalize">
+          This order was {tracking.status}
+        </div>
+      ) : (
+        <div className="flex items-center">
+          {steps.map((step, index) => {
+            const done = step.statuses.includes(tracking.status);
+            return (
+              <React.Fragment key={step.label}>
+                <div className="flex flex-col items-center text-center w-20">
+                  {done ? (
+                    <CheckCircle className="h-6 w-6 text-[#97CF50]" />
+                  ) : (
+                    <Circle className="h-6 w-6 text-gray-300" />
+                  )}
+                  <span className={`mt-1 text-xs ${done ? 'text-[#09215F] font-medium' : 'text-gray-400'}`}>
+                    {step.label === 'Shipped' && partlyShipped && !done ? 'Part shipped' : step.label}
+                  </span>
+                </div>
+                {index < steps.length - 1 && (
+                  <div className={`flex-1 h-0.5 -mt-5 ${steps[index + 1].statuses.includes(tracking.status) ? 'bg-[#97CF50]' : 'bg-gray-200'}`} />
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+
+      {tracking.shipments.length > 0 && (
+        <div className="space-y-3">
+          {tracking.shipments.map(shipment => (
+            <div key={shipment.id} className="p-3 border rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-2 text-sm">
+                  <Truck className="h-4 w-4 text-[#09215F]" />
+                  <span className="font-medium">{shipment.courier}</span>
+                  {shipment.tracking_url ? (
+                    <a
+                      href={shipment.tracking_url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-mono text-blue-600 hover:underline inline-flex items-center gap-1"
+                    >
+                      {shipment.tracking_number}
+                      <ExternalLink className="h-3 w-3" />
+                    </a>
+                  ) : (
+                    <span className="font-mono">{shipment.tracking_number}</span>
+                  )}
+                </div>
+                <Badge variant={shipment.status === 'delivered' ? 'default' : 'secondary'}>
+                  {SHIPMENT_STATUS_LABELS[shipment.status]}
+                </Badge>
+              </div>
+              <p className="mt-1 text-xs text-gray-500">
+                {shipment.items.map(item => `${item.quantity}x ${item.name}`).join(', ')}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+        {events.map(event => (
+          <li key={event.key} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full bg-[#97CF50] border-2 border-white" />
+            <p className="text-sm font-medium text-gray-900">{event.title}</p>
+            {event.detail && <p className="text-xs text-gray-600">{event.detail}</p>}
+            <time className="text-xs text-gray-400">{formatDateTime(event.at)}</time>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
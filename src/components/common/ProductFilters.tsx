@@ -1,8 +1,9 @@
 import React, { useState } from 'react';
 import { Search, Filter, X, SlidersHorizontal, Star, Percent, Package, Tag } from 'lucide-react';
 import { motion, AnimatePresence } from 'framer-motion';
+import { SearchFacets } from '../../utils/search-service';
 
-interface FilterState {
+export interface FilterState {
   search: string;
   category: string;
   priceRange: [number, number];
@@ -13,12 +14,75 @@ interface FilterState {
   brand: string;
 }
 
+interface FilterableProduct {
+  name: string;
+  brand?: string;
+  category?: string;
+  description?: string;
+  price: number;
+  original_price?: number | null;
+  rating?: number;
+  in_stock?: boolean;
+  featured?: boolean;
+  created_at?: string;
+}
+
+export function hasActiveFilters(filters: FilterState, maxPrice: number): boolean {
+  return !!(
+    filters.search ||
+    filters.category ||
+    filters.brand ||
+    filters.onlyInStock ||
+    filters.onlyOnSale ||
+    filters.rating > 0 ||
+    filters.priceRange[0] > 0 ||
+    filters.priceRange[1] < maxPrice
+  );
+}
+
+/**
+ * Apply the filter panel to a product list. Ratings are the products' average
+ * approved review rating, so unreviewed products drop out of a rating filter.
+ */
+export function applyProductFilters<T extends FilterableProduct>(products: T[], filters: FilterState): T[] {
+  const search = filters.search.trim().toLowerCase();
+
+  const filtered = products.filter(product => {
+    if (search && ![product.name, product.brand, product.category, product.description]
+      .some(value => value?.toLowerCase().includes(search))) {
+      return false;
+    }
+    if (filters.category && product.category !== filters.category) return false;
+    if (filters.brand && product.brand !== filters.brand) return false;
+    if (filters.onlyInStock && !product.in_stock) return false;
+    if (filters.onlyOnSale && !(product.original_price && product.original_price > product.price)) return false;
+    if (filters.rating > 0 && (product.rating || 0) < filters.rating) return false;
+    return product.price >= filters.priceRange[0] && product.price <= filters.priceRange[1];
+  });
+
+  switch (filters.sortBy) {
+    case 'price-low':
+      return filtered.sort((a, b) => a.price - b.price);
+    case 'price-high':
+      return filtered.sort((a, b) => b.price - a.price);
+    case 'name':
+      return filtered.sort((a, b) => a.name.localeCompare(b.name));
+    case 'rating':
+      return filtered.sort((a, b) => (b.rating || 0) - (a.rating || 0));
+    case 'newest':
+      return filtered.sort((a, b) => new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime());
+    default:
+      return filtered.sort((a, b) => Number(!!b.featured) - Number(!!a.featured));
+  }
+}
+
 interface ProductFiltersProps {
   filters: FilterState;
   onFiltersChange: (filters: FilterState) => void;
   categories: string[];
   brands: string[];
   maxPrice: number;
+  facets?: SearchFacets | null; // counts from the server search, shown beside each option
   className?: string;
 }
 
@@ -28,11 +92,17 @@ export default function ProductFilters({
   categories,
   brands,
   maxPrice,
+  facets,
   className = ''
 }: ProductFiltersProps) {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [activeFilters, setActiveFilters] = useState<string[]>([]);
 
+  const withCount = (label: string, values: { value: string; count: number }[] | undefined) => {
+    const facet = values?.find(value => value.value === label);
+    return facets ? `${label} (${facet?.count || 0})` : label;
+  };
+
   const updateFilter = (key: keyof FilterState, value: any) => {
     const newFilters = { ...filters, [key]: value };
     onFiltersChange(newFilters);
@@ -105,7 +175,7 @@ export default function ProductFilters({
           >
             <option value="">All Categories</option>
             {categories.map(category => (
-              <option key={category} value={category}>{category}</option>
+              <option key={category} value={category}>{withCount(category, facets?.categories)}</option>
             ))}
           </select>
 
@@ -115,6 +185,7 @@ export default function ProductFilters({
             value={filters.sortBy}
             onChange={(e) => updateFilter('sortBy', e.target.value)}
           >
+            {filters.search && <option value="relevance">Best Match</option>}
             <option value="featured">Featured</option>
             <option value="price-low">Price: Low to High</option>
             <option value="price-high">Price: High to Low</option>
@@ -202,6 +273,20 @@ export default function ProductFilters({
                     <span>R0</span>
                     <span>R{maxPrice}</span>
                   </div>
+                  {facets && (
+                    <div className="flex flex-wrap gap-1 pt-1">
+                      {facets.price.buckets.filter(bucket => bucket.count > 0).map(bucket => (
+                        <button
+                          key={bucket.min}
+                          type="button"
+                          onClick={() => updateFilter('priceRange', [bucket.min, bucket.max ?? maxPrice])}
+                          className="px-2 py-1 rounded-full bg-gray-100 text-xs text-gray-700 hover:bg-green-100"
+                        >
+                          {bucket.max === null ? `R${bucket.min}+` : `R${bucket.min}-R${bucket.max}`} ({bucket.count})
+                        </button>
+                      ))}
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -239,7 +324,7 @@ export default function ProductFilters({
                 >
                   <option value="">All Brands</option>
                   {brands.map(brand => (
-                    <option key={brand} value={brand}>{brand}</option>
+                    <option key={brand} value={brand}>{withCount(brand, facets?.brands)}</option>
                   ))}
                 </select>
               </div>
@@ -259,7 +344,7 @@ export default function ProductFilters({
                     />
                     <span className="ml-2 text-sm text-gray-700 flex items-center">
                       <Package className="h-4 w-4 mr-1" />
-                      In Stock Only
+                      In Stock Only{facets ? ` (${facets.in_stock})` : ''}
                     </span>
                   </label>
                   <label className="flex items-center">
@@ -271,7 +356,7 @@ export default function ProductFilters({
                     />
                     <span className="ml-2 text-sm text-gray-700 flex items-center">
                       <Percent className="h-4 w-4 mr-1" />
-                      On Sale Only
+                      On Sale Only{facets ? ` (${facets.on_sale})` : ''}
                     </span>
                   </label>
                 </div>
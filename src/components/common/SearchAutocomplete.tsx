@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Clock, Folder, Search, Tag, TrendingUp, X } from 'lucide-react';
+import { ImageWithFallback } from '../figma/ImageWithFallback';
+import { SearchService, SearchSuggestions } from '../../utils/search-service';
+
+type Option =
+  | { kind: 'recent' | 'query'; label: string }
+  | { kind: 'product'; label: string; product: SearchSuggestions['products'][number] }
+  | { kind: 'category' | 'brand'; label: string; count: number };
+
+interface SearchAutocompleteProps {
+  inputClassName: string;
+  onNavigate?: () => void; // e.g. close the mobile menu
+}
+
+const stockLabel = (product: SearchSuggestions['products'][number]) => {
+  if (!product.in_stock) return { text: 'Out of stock', className: 'text-red-600' };
+  if (product.stock_quantity <= 3) return { text: `Only ${product.stock_quantity} left`, className: 'text-orange-600' };
+  return { text: 'In stock', className: 'text-green-600' };
+};
+
+/**
+ * The search box with its type-ahead: matching products, the categories and
+ * brands they are in, popular searches and this browser's recent searches.
+ * Arrow keys move through the list, Enter opens the highlighted entry or
+ * searches for the text, Escape closes it.
+ */
+export default function SearchAutocomplete({ inputClassName, onNavigate }: SearchAutocompleteProps) {
+  const navigate = useNavigate();
+  const [text, setText] = useState('');
+  const [open, setOpen] = useState(false);
+  const [suggestions, setSuggestions] = useState<SearchSuggestions | null>(null);
+  const [recent, setRecent] = useState<string[]>([]);
+  const [highlighted, setHighlighted] = useState(-1);
+  const latestRequest = useRef(0);
+  const listId = useRef(`search-suggestions-${Math.random().toString(36).slice(2)}`).current;
+
+  useEffect(() => {
+    if (!open) return;
+    const requestId = ++latestRequest.current;
+    const timer = setTimeout(async () => {
+      const result = await SearchService.suggest(text);
+      if (requestId === latestRequest.current && result.success) {
+        setSuggestions(result.data || null);
+      }
+    }, 200);
+    return () => clearTimeout(timer);
+  }, [text, open]);
+
+  const typed = text.trim();
+  const options: Option[] = typed
+    ? [
+        ...(suggestions?.queries || []).map(query => ({ kind: 'query' as const, label: query })),
+        ...(suggestions?.products || []).map(product => ({ kind: 'product' as const, label: product.name, product })),
+        ...(suggestions?.categories || []).map(facet => ({ kind: 'category' as const, label: facet.value, count: facet.count })),
+        ...(suggestions?.brands || []).map(facet => ({ kind: 'brand' as const, label: facet.value, count: facet.count })),
+      ]
+    : [
+        ...recent.map(query => ({ kind: 'recent' as const, label: query })),
+        ...(suggestions?.queries || [])
+          .filter(query => !recent.some(item => item.toLowerCase() === query))
+          .map(query => ({ kind: 'query' as const, label: query })),
+      ];
+
+  const finish = (path: string) => {
+    setText('');
+    setOpen(false);
+    setHighlighted(-1);
+    navigate(path);
+    onNavigate?.();
+  };
+
+  const searchFor = (query: string) => {
+    if (!query.trim()) return;
+    SearchService.addRecentSearch(query);
+    finish(`/products?search=${encodeURIComponent(query.trim())}`);
+  };
+
+  const choose = (option: Option) => {
+    switch (option.kind) {
+      case 'recent':
+      case 'query':
+        searchFor(option.label);
+        break;
+      case 'product':
+        if (typed) SearchService.addRecentSearch(typed);
+        finish(`/products/${option.product.id}`);
+        break;
+      case 'category':
+      case 'brand': {
+        const params = new URLSearchParams({ search: typed, [option.kind]: option.label });
+        SearchService.addRecentSearch(typed);
+        finish(`/products?${params.toString()}`);
+        break;
+      }
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setOpen(true);
+      setHighlighted(index => (options.length === 0 ? -1 : (index + 1) % options.length));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(index => (options.length === 0 ? -1 : index <= 0 ? options.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (open && highlighted >= 0 && options[highlighted]) {
+        choose(options[highlighted]);
+      } else {
+        searchFor(text);
+      }
+    } else if (e.key === 'Escape') {
+      setOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  const removeRecent = (query: string) => {
+    setRecent(SearchService.removeRecentSearch(query));
+    setHighlighted(-1);
+  };
+
+  const sectionTitle = (index: number, option: Option) => {
+    const previous = options[index - 1];
+    if (previous && previous.kind === option.kind) return null;
+    const titles: Record<Option['kind'], string> = {
+      recent: 'Recent searches',
+      query: 'Popular searches',
+      product: 'Products',
+      category: 'Categories',
+      brand: 'Brands',
+    };
+    return (
+      <li className="flex items-center justify-between px-3 pt-3 pb-1 text-xs font-semibold uppercase tracking-wide text-gray-400" role="presentation">
+        {titles[option.kind]}
+        {option.kind === 'recent' && (
+          <button
+            onClick={() => {
+              SearchService.clearRecentSearches();
+              setRecent([]);
+              setHighlighted(-1);
+            }}
+            className="normal-case font-medium text-[#09215F] dark:text-gray-300 hover:underline"
+          >
+            Clear
+          </button>
+        )}
+      </li>
+    );
+  };
+
+  const icon = (option: Option) => {
+    switch (option.kind) {
+      case 'recent':
+        return <Clock className="h-4 w-4 text-gray-400" />;
+      case 'query':
+        return <TrendingUp className="h-4 w-4 text-[#97CF50]" />;
+      case 'category':
+        return <Folder className="h-4 w-4 text-[#97CF50]" />;
+      case 'brand':
+        return <Tag className="h-4 w-4 text-[#97CF50]" />;
+      default:
+        return null;
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <input
+        type="text"
+        role="combobox"
+        aria-expanded={open && options.length > 0}
+        aria-controls={listId}
+        aria-autocomplete="list"
+        aria-activedescendant={highlighted >= 0 ? `${listId}-${highlighted}` : undefined}
+        placeholder="Search cleaning products..."
+        value={text}
+        onChange={(e) => {
+          setText(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => {
+          setRecent(SearchService.getRecentSearches());
+          setOpen(true);
+        }}
+        onBlur={() => setOpen(false)}
+        onKeyDown={handleKeyDown}
+        className={inputClassName}
+      />
+      <Search className="absolute left-3 top-2.5 h-5 w-5 text-[#97CF50] dark:text-green-400" />
+      {text && (
+        <button
+          onClick={() => searchFor(text)}
+          className="absolute right-3 top-2.5 text-[#97CF50] dark:text-green-400 hover:text-[#09215F] dark:hover:text-white transition-colors"
+          title="Search"
+        >
+          <Search className="h-5 w-5" />
+        </button>
+      )}
+
+      {open && options.length > 0 && (
+        <ul
+          id={listId}
+          role="listbox"
+          // Keep focus in the input so clicking an entry does not blur and close the list first
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-50 mt-2 w-full max-h-[70vh] overflow-y-auto rounded-xl border border-gray-200 bg-white dark:bg-gray-800 dark:border-gray-700 shadow-xl pb-2"
+        >
+          {options.map((option, index) => (
+            <React.Fragment key={`${option.kind}-${option.label}-${index}`}>
+              {sectionTitle(index, option)}
+              <li
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={highlighted === index}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => choose(option)}
+                className={`flex items-center gap-3 px-3 py-2 cursor-pointer text-sm text-[#09215F] dark:text-gray-200 ${
+                  highlighted === index ? 'bg-[#97CF50]/15' : ''
+                }`}
+              >
+                {option.kind === 'product' ? (
+                  <>
+                    <ImageWithFallback
+                      src={option.product.image_url || ''}
+                      alt={option.product.name}
+                      className="h-10 w-10 rounded-md object-contain bg-gray-50 flex-shrink-0"
+                    />
+                    <div className="flex-1 min-w-0">
+                      <p className="truncate font-medium">{option.product.name}</p>
+                      <p className={`text-xs ${stockLabel(option.product).className}`}>{stockLabel(option.product).text}</p>
+                    </div>
+                    <span className="font-semibold">R{option.product.price.toFixed(2)}</span>
+                  </>
+                ) : (
+                  <>
+                    {icon(option)}
+                    <span className="flex-1 truncate">
+                      {option.kind === 'category' || option.kind === 'brand' ? (
+                        <>
+                          "{typed}" in <span className="font-semibold">{option.label}</span>
+                        </>
+                      ) : (
+                        option.label
+                      )}
+                    </span>
+                    {(option.kind === 'category' || option.kind === 'brand') && (
+                      <span className="text-xs text-gray-400">{option.count}</span>
+                    )}
+                    {option.kind === 'recent' && (
+                      <button
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          removeRecent(option.label);
+                        }}
+                        className="text-gray-400 hover:text-gray-600"
+                        title="Remove from recent searches"
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    )}
+                  </>
+                )}
+              </li>
+            </React.Fragment>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
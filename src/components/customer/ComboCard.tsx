@@ -0,0 +1,96 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Package, ShoppingCart, ArrowRight } from 'lucide-react';
+import { useCart } from '../../contexts/CartContext';
+import { ImageWithFallback } from '../figma/ImageWithFallback';
+import { Combo, ComboService } from '../../utils/combo-service';
+
+interface ComboCardProps {
+  combo: Combo;
+}
+
+export function ComboCard({ combo }: ComboCardProps) {
+  const { addCombo } = useCart();
+
+  const savings = ComboService.getSavingsPercent(combo);
+  const items = combo.combo_items || [];
+  const image = combo.image_url || items[0]?.product?.images?.[0] || '';
+  // Bundles with choices to make are added from the detail page
+  const needsChoices = items.some(item => item.can_substitute || (!combo.requires_all_items && !item.is_required));
+  const outOfStock = items.some(item => (item.product?.stock_quantity ?? 1) < item.quantity);
+
+  const handleAddToCart = async () => {
+    const selections = items
+      .filter(item => item.product)
+      .map(item => ({ item, product: item.product! }));
+    await addCombo(combo, selections, Math.max(1, combo.minimum_quantity || 1));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow group flex flex-col">
+      <div className="relative bg-gray-50 flex items-center justify-center overflow-hidden">
+        <ImageWithFallback
+          src={image}
+          alt={combo.name}
+          className="w-full h-48 object-contain group-hover:scale-105 transition-transform duration-300"
+        />
+        {savings > 0 && (
+          <div className="absolute top-2 left-2 bg-red-500 text-white px-2 py-1 rounded-md text-xs font-bold">
+            Save {savings}%
+          </div>
+        )}
+        <div className="absolute top-2 right-2 bg-blue-600 text-white px-2 py-1 rounded-md text-xs font-bold flex items-center gap-1">
+          <Package className="h-3 w-3" />
+          BUNDLE
+        </div>
+      </div>
+
+      <div className="p-4 flex flex-col flex-1">
+        <h4 className="font-semibold text-gray-900 mb-2 line-clamp-2">
+          <Link to={`/combos/${combo.id}`} className="hover:text-green-600">
+            {combo.name}
+          </Link>
+        </h4>
+
+        <ul className="text-xs text-gray-500 mb-3 space-y-0.5">
+          {items.slice(0, 4).map(item => (
+            <li key={item.id}>
+              {item.quantity} × {item.product?.name}
+            </li>
+          ))}
+          {items.length > 4 && <li>+{items.length - 4} more</li>}
+        </ul>
+
+        <div className="flex items-center gap-2 mb-3 mt-auto">
+          <span className="text-xl font-bold text-gray-900">
+            R{Number(combo.combo_price).toFixed(2)}
+          </span>
+          {combo.original_price > combo.combo_price && (
+            <span className="text-sm text-gray-500 line-through">
+              R{Number(combo.original_price).toFixed(2)}
+            </span>
+          )}
+        </div>
+
+        {needsChoices ? (
+          <Link
+            to={`/combos/${combo.id}`}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            Choose Items
+            <ArrowRight className="h-4 w-4" />
+          </Link>
+        ) : (
+          <button
+            onClick={handleAddToCart}
+            disabled={outOfStock}
+            className="w-full flex items-center justify-center gap-2 bg-blue-600 text-white py-2 px-4 rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
+          >
+            <ShoppingCart className="h-4 w-4" />
+            {outOfStock ? 'Out of Stock' : 'Add Bundle to Cart'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { Mail } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  EMAIL_CATEGORY_LABELS,
+  EmailCategory,
+  EmailPreferences as Preferences,
+  EmailService,
+} from '../../utils/email-service';
+
+/**
+ * Which emails the signed-in customer receives. Account emails such as a
+ * password change notice are always sent, so only the optional categories
+ * are listed.
+ */
+export function EmailPreferences() {
+  const [preferences, setPreferences] = useState<Preferences | null>(null);
+  const [saving, setSaving] = useState<EmailCategory | null>(null);
+
+  useEffect(() => {
+    EmailService.getPreferences().then(result => {
+      if (result.success && result.data) {
+        setPreferences(result.data);
+      }
+    });
+  }, []);
+
+  const toggle = async (category: EmailCategory) => {
+    if (!preferences) return;
+    setSaving(category);
+    const result = await EmailService.savePreferences({ [category]: !preferences[category] });
+    setSaving(null);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to save your email preferences');
+      return;
+    }
+    setPreferences(result.data);
+    toast.success(`${EMAIL_CATEGORY_LABELS[category].label} ${result.data[category] ? 'turned on' : 'turned off'}`);
+  };
+
+  return (
+    <div id="email-preferences" className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6">
+      <h2 className="text-lg font-bold text-[#09215F] mb-1 flex items-center gap-2">
+        <Mail className="h-5 w-5 text-[#97CF50]" />
+        Email Preferences
+      </h2>
+      {preferences && <p className="text-xs text-[#09215F]/60 mb-4">Sent to {preferences.email}</p>}
+      {!preferences ? (
+        <p className="text-sm text-[#09215F]/60">Loading...</p>
+      ) : (
+        <div className="space-y-4">
+          {(Object.keys(EMAIL_CATEGORY_LABELS) as EmailCategory[]).map(category => (
+            <label key={category} className="flex items-start justify-between gap-3 cursor-pointer">
+              <span>
+                <span className="block text-sm font-semibold text-[#09215F]">{EMAIL_CATEGORY_LABELS[category].label}</span>
+                <span className="block text-xs text-[#09215F]/60">{EMAIL_CATEGORY_LABELS[category].description}</span>
+              </span>
+              <input
+                type="checkbox"
+                checked={preferences[category]}
+                disabled={saving === category}
+                onChange={() => toggle(category)}
+                className="mt-1 h-4 w-4 accent-[#97CF50]"
+              />
+            </label>
+          ))}
+          <p className="text-xs text-[#09215F]/50">We always email you about your account, such as when your password changes.</p>
+        </div>
+      )}
+    </div>
+  );
+}
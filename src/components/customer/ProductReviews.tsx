@@ -0,0 +1,327 @@
+import React, { useEffect, useState } from 'react';
+import { Star, Camera, Loader2, CheckCircle, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '../../contexts/AuthContext';
+import { ImageWithFallback } from '../figma/ImageWithFallback';
+import {
+  MAX_REVIEW_PHOTOS,
+  ProductReview,
+  ReviewEligibility,
+  ReviewService,
+  ReviewSummary,
+} from '../../utils/review-service';
+
+interface ProductReviewsProps {
+  productId: string;
+  onSummaryChange?: (summary: ReviewSummary) => void;
+}
+
+export function StarRating({ rating, size = 'h-5 w-5' }: { rating: number; size?: string }) {
+  return (
+    <div className="flex items-center">
+      {[1, 2, 3, 4, 5].map(star => (
+        <Star
+          key={star}
+          className={`${size} ${star <= Math.round(rating) ? 'text-yellow-400 fill-current' : 'text-muted-foreground/40'}`}
+        />
+      ))}
+    </div>
+  );
+}
+
+export function ProductReviews({ productId, onSummaryChange }: ProductReviewsProps) {
+  const { user } = useAuth();
+  const [summary, setSummary] = useState<ReviewSummary | null>(null);
+  const [reviews, setReviews] = useState<ProductReview[]>([]);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [eligibility, setEligibility] = useState<ReviewEligibility | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [uploading, setUploading] = useState(false);
+  const [form, setForm] = useState({ rating: 0, title: '', text: '', photos: [] as string[] });
+
+  const loadReviews = async (nextPage: number = 1) => {
+    setLoading(true);
+    const result = await ReviewService.getReviews(productId, nextPage);
+    if (result.success && result.data) {
+      setSummary(result.data.summary);
+      setReviews(nextPage === 1 ? result.data.reviews : [...reviews, ...result.data.reviews]);
+      setPage(result.data.page);
+      setHasMore(result.data.has_more);
+      onSummaryChange?.(result.data.summary);
+    }
+    setLoading(false);
+  };
+
+  const loadEligibility = async () => {
+    if (!user) {
+      setEligibility(null);
+      return;
+    }
+    const result = await ReviewService.getEligibility(productId);
+    if (result.success && result.data) {
+      setEligibility(result.data);
+      const own = result.data.review;
+      if (own) {
+        setForm({ rating: own.rating, title: own.title || '', text: own.review_text || '', photos: own.photos || [] });
+      }
+    }
+  };
+
+  useEffect(() => {
+    loadReviews(1);
+  }, [productId]);
+
+  useEffect(() => {
+    loadEligibility();
+  }, [productId, user?.id]);
+
+  const handlePhotos = async (files: FileList | null) => {
+    if (!files || !user) return;
+    const room = MAX_REVIEW_PHOTOS - form.photos.length;
+    if (room <= 0) {
+      toast.error(`You can add up to ${MAX_REVIEW_PHOTOS} photos`);
+      return;
+    }
+
+    setUploading(true);
+    try {
+      const uploaded: string[] = [];
+      for (const file of Array.from(files).slice(0, room)) {
+        uploaded.push(await ReviewService.uploadPhoto(user.id, file));
+      }
+      setForm(prev => ({ ...prev, photos: [...prev.photos, ...uploaded] }));
+    } catch (error: any) {
+      toast.error(error?.message || 'Failed to upload photo');
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (form.rating < 1) {
+      toast.error('Please choose a star rating');
+      return;
+    }
+
+    setSubmitting(true);
+    const result = await ReviewService.submitReview(productId, form);
+    setSubmitting(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to submit review');
+      return;
+    }
+
+    toast.success('Thanks! Your review will appear once it has been checked.');
+    setShowForm(false);
+    await Promise.all([loadEligibility(), loadReviews(1)]);
+  };
+
+  const handleDelete = async (reviewId: string) => {
+    if (!window.confirm('Delete your review?')) return;
+    const result = await ReviewService.deleteReview(reviewId);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to delete review');
+      return;
+    }
+    toast.success('Review deleted');
+    setForm({ rating: 0, title: '', text: '', photos: [] });
+    await Promise.all([loadEligibility(), loadReviews(1)]);
+  };
+
+  const ownReview = eligibility?.review || null;
+
+  return (
+    <div className="mt-12 bg-card text-card-foreground rounded-2xl shadow-lg p-8">
+      <div className="flex flex-col md:flex-row md:items-start md:justify-between gap-6 mb-8">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground mb-2">Customer Reviews</h2>
+          {summary && summary.count > 0 ? (
+            <div className="flex items-center gap-3">
+              <StarRating rating={summary.average} />
+              <span className="text-lg font-semibold text-foreground">{summary.average.toFixed(1)}</span>
+              <span className="text-sm text-muted-foreground">
+                {summary.count} {summary.count === 1 ? 'review' : 'reviews'}
+              </span>
+            </div>
+          ) : (
+            <p className="text-muted-foreground">No reviews yet.</p>
+          )}
+        </div>
+
+        {summary && summary.count > 0 && (
+          <div className="w-full md:w-72 space-y-1">
+            {([5, 4, 3, 2, 1] as const).map(stars => {
+              const count = summary.breakdown[stars] || 0;
+              const percent = summary.count ? (count / summary.count) * 100 : 0;
+              return (
+                <div key={stars} className="flex items-center gap-2 text-sm">
+                  <span className="w-10 text-muted-foreground">{stars} star</span>
+                  <div className="flex-1 h-2 bg-muted rounded-full overflow-hidden">
+                    <div className="h-full bg-yellow-400" style={{ width: `${percent}%` }} />
+                  </div>
+                  <span className="w-8 text-right text-muted-foreground">{count}</span>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* Write a review */}
+      {user && eligibility && (
+        <div className="mb-8 border border-border rounded-lg p-4">
+          {ownReview && !showForm ? (
+            <div className="flex items-start justify-between gap-4">
+              <div>
+                <p className="text-sm font-medium text-foreground">Your review</p>
+                <div className="flex items-center gap-2 mt-1">
+                  <StarRating rating={ownReview.rating} size="h-4 w-4" />
+                  <span className="text-xs text-muted-foreground">{ReviewService.getStatusLabel(ownReview.status)}</span>
+                </div>
+                {ownReview.status === 'rejected' && ownReview.rejection_reason && (
+                  <p className="text-xs text-destructive mt-1">{ownReview.rejection_reason}</p>
+                )}
+              </div>
+              <div className="flex gap-2">
+                <button onClick={() => setShowForm(true)} className="text-sm text-primary hover:underline">Edit</button>
+                <button onClick={() => handleDelete(ownReview.id)} className="p-1 text-destructive" title="Delete review">
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ) : eligibility.can_review ? (
+            showForm ? (
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-foreground mb-2">Your rating</label>
+                  <div className="flex items-center gap-1">
+                    {[1, 2, 3, 4, 5].map(star => (
+                      <button key={star} type="button" onClick={() => setForm({ ...form, rating: star })}>
+                        <Star className={`h-7 w-7 ${star <= form.rating ? 'text-yellow-400 fill-current' : 'text-muted-foreground/40'}`} />
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <input
+                  className="w-full px-3 py-2 border border-input rounded-md bg-card"
+                  placeholder="Title (optional)"
+                  maxLength={255}
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                />
+                <textarea
+                  className="w-full px-3 py-2 border border-input rounded-md bg-card"
+                  rows={4}
+                  placeholder="What did you think of this product?"
+                  maxLength={5000}
+                  value={form.text}
+                  onChange={(e) => setForm({ ...form, text: e.target.value })}
+                />
+                <div className="flex flex-wrap items-center gap-2">
+                  {form.photos.map(photo => (
+                    <div key={photo} className="relative w-16 h-16 rounded-md overflow-hidden border border-border">
+                      <ImageWithFallback src={photo} alt="Review photo" className="w-full h-full object-cover" />
+                      <button
+                        type="button"
+                        onClick={() => setForm({ ...form, photos: form.photos.filter(p => p !== photo) })}
+                        className="absolute top-0 right-0 bg-background/80 rounded-bl p-0.5"
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {form.photos.length < MAX_REVIEW_PHOTOS && (
+                    <label className="w-16 h-16 flex items-center justify-center border border-dashed border-input rounded-md cursor-pointer text-muted-foreground hover:text-foreground">
+                      {uploading ? <Loader2 className="h-5 w-5 animate-spin" /> : <Camera className="h-5 w-5" />}
+                      <input
+                        type="file"
+                        accept="image/*"
+                        multiple
+                        className="hidden"
+                        disabled={uploading}
+                        onChange={(e) => handlePhotos(e.target.files)}
+                      />
+                    </label>
+                  )}
+                </div>
+                <div className="flex gap-3">
+                  <button
+                    onClick={handleSubmit}
+                    disabled={submitting || uploading}
+                    className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90 disabled:opacity-50 flex items-center gap-2"
+                  >
+                    {submitting && <Loader2 className="h-4 w-4 animate-spin" />}
+                    Submit Review
+                  </button>
+                  <button onClick={() => setShowForm(false)} className="px-4 py-2 rounded-md border border-input">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setShowForm(true)}
+                className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90"
+              >
+                Write a Review
+              </button>
+            )
+          ) : (
+            <p className="text-sm text-muted-foreground">{eligibility.reason}</p>
+          )}
+        </div>
+      )}
+
+      {/* Reviews */}
+      <div className="space-y-6">
+        {reviews.map(review => (
+          <div key={review.id} className="border-b border-border pb-6 last:border-0">
+            <div className="flex items-center gap-3 mb-1">
+              <StarRating rating={review.rating} size="h-4 w-4" />
+              {review.title && <span className="font-semibold text-foreground">{review.title}</span>}
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground mb-2">
+              <span>{review.reviewer_name}</span>
+              <span>·</span>
+              <span>{new Date(review.created_at).toLocaleDateString()}</span>
+              {review.is_verified_purchase && (
+                <span className="flex items-center gap-1 text-green-600">
+                  <CheckCircle className="h-3 w-3" /> Verified purchase
+                </span>
+              )}
+            </div>
+            {review.review_text && <p className="text-muted-foreground whitespace-pre-line">{review.review_text}</p>}
+            {review.photos?.length > 0 && (
+              <div className="flex gap-2 mt-3">
+                {review.photos.map(photo => (
+                  <a key={photo} href={photo} target="_blank" rel="noopener noreferrer" className="w-20 h-20 rounded-md overflow-hidden border border-border">
+                    <ImageWithFallback src={photo} alt="Review photo" className="w-full h-full object-cover" />
+                  </a>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {loading && (
+          <div className="flex justify-center">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        )}
+
+        {!loading && hasMore && (
+          <button
+            onClick={() => loadReviews(page + 1)}
+            className="w-full py-2 rounded-md border border-input text-sm text-muted-foreground hover:bg-accent"
+          >
+            Show more reviews
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
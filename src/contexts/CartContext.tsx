@@ -1,7 +1,10 @@
-import React, { createContext, useContext, useReducer, useEffect } from 'react';
+import React, { createContext, useContext, useReducer, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
 import { toast } from 'sonner';
 import { useAuth } from './AuthContext';
+import { Combo, ComboSelection, ComboService } from '../utils/combo-service';
+import { ProductVariant } from '../utils/variant-service';
+import { CartRecoveryService } from '../utils/cart-recovery-service';
 
 export interface CartItem {
   id: string;
@@ -17,8 +20,12 @@ export interface CartItem {
   promotion_id?: string;
   promotion_discount?: number;
   combo_id?: string;
+  combo_name?: string;
+  combo_item_id?: string; // The combo_items entry this line fills
+  combo_quantity?: number; // Bundles of the combo in the cart
   in_stock: boolean;
   added_at: string;
+  variant_id?: string; // The product_variants row for products sold in variants
   variant?: {
     color?: string;
     size?: string;
@@ -34,6 +41,7 @@ export interface Promotion {
   discount_value: number;
   minimum_quantity?: number;
   maximum_discount_amount?: number;
+  code?: string; // Sent with the server price quote so the promotion is re-checked there
 }
 
 interface GuestCart {
@@ -67,6 +75,8 @@ type CartAction =
   | { type: 'ADD_ITEM'; payload: CartItem }
   | { type: 'UPDATE_ITEM'; payload: { id: string; quantity: number } }
   | { type: 'REMOVE_ITEM'; payload: string }
+  | { type: 'ADD_COMBO'; payload: { comboId: string; items: CartItem[] } }
+  | { type: 'UPDATE_COMBO'; payload: { comboId: string; bundles: number } }
   | { type: 'CLEAR_CART' }
   | { type: 'APPLY_PROMOTION'; payload: Promotion }
   | { type: 'REMOVE_PROMOTION'; payload: string }
@@ -93,6 +103,8 @@ const initialState: CartState = {
 };
 
 const GUEST_CART_KEY = 'ecommerce_guest_cart';
+// Signed-in carts are saved to the server once changes settle for this long
+const CART_SYNC_DELAY_MS = 1500;
 
 // localStorage utilities
 const saveGuestCart = (cartData: GuestCart) => {
@@ -123,6 +135,12 @@ const clearGuestCart = () => {
   }
 };
 
+// Lines from another cart that this one does not already have
+const mergeCartItems = (items: CartItem[], incoming: CartItem[]): CartItem[] => [
+  ...items,
+  ...incoming.filter(item => !items.some(existing => existing.id === item.id)),
+];
+
 function calculateTotals(state: CartState): CartState {
   const subtotal = state.items.reduce((sum, item) => sum + (item.price * item.quantity), 0);
   const promotion_discount = state.items.reduce((sum, item) => sum + ((item.promotion_discount || 0) * item.quantity), 0);
@@ -149,7 +167,9 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 
     case 'ADD_ITEM': {
       const existingItem = state.items.find(item => 
+        !item.combo_id &&
         item.product_id === action.payload.product_id &&
+        (item.variant_id || null) === (action.payload.variant_id || null) &&
         JSON.stringify(item.variant) === JSON.stringify(action.payload.variant)
       );
       
@@ -178,7 +198,31 @@ function cartReducer(state: CartState, action: CartAction): CartState {
     }
 
     case 'REMOVE_ITEM': {
-      const updatedItems = state.items.filter(item => item.id !== action.payload);
+      // Removing any line of a combo removes the whole bundle
+      const removed = state.items.find(item => item.id === action.payload);
+      const updatedItems = state.items.filter(item =>
+        item.id !== action.payload && !(removed?.combo_id && item.combo_id === removed.combo_id)
+      );
+      newState = calculateTotals({ ...state, items: updatedItems });
+      break;
+    }
+
+    case 'ADD_COMBO': {
+      // A combo is held once per cart; adding it again replaces its lines
+      const otherItems = state.items.filter(item => item.combo_id !== action.payload.comboId);
+      newState = calculateTotals({ ...state, items: [...otherItems, ...action.payload.items] });
+      break;
+    }
+
+    case 'UPDATE_COMBO': {
+      const { comboId, bundles } = action.payload;
+      const updatedItems = state.items
+        .map(item => {
+          if (item.combo_id !== comboId) return item;
+          const perBundle = item.quantity / (item.combo_quantity || 1);
+          return { ...item, quantity: perBundle * bundles, combo_quantity: bundles };
+        })
+        .filter(item => item.quantity > 0);
       newState = calculateTotals({ ...state, items: updatedItems });
       break;
     }
@@ -285,7 +329,9 @@ function cartReducer(state: CartState, action: CartAction): CartState {
 }
 
 interface CartContextType extends CartState {
-  addToCart: (product: any, quantity?: number, variant?: any) => Promise<void>;
+  addToCart: (product: any, quantity?: number, variant?: ProductVariant) => Promise<void>;
+  addCombo: (combo: Combo, selections: ComboSelection[], bundles?: number) => Promise<void>;
+  updateComboQuantity: (comboId: string, bundles: number) => Promise<void>;
   updateQuantity: (itemId: string, quantity: number) => Promise<void>;
   removeFromCart: (itemId: string) => Promise<void>;
   clearCart: () => Promise<void>;
@@ -294,6 +340,7 @@ interface CartContextType extends CartState {
   redeemLoyaltyPoints: (points: number) => Promise<void>;
   refreshCart: () => Promise<void>;
   mergeGuestCartWithUser: () => Promise<void>;
+  restoreItems: (items: CartItem[]) => void;
   getTotalItemCount: () => number;
   canShareCart: () => boolean;
   getCartSummary: () => {
@@ -321,29 +368,41 @@ export function useCart() {
 export function CartProvider({ children }: { children: React.ReactNode }) {
   const [state, dispatch] = useReducer(cartReducer, initialState);
   const { user } = useAuth();
+  // Items as last saved to the server; null until the saved cart has loaded
+  const lastSynced = useRef<string | null>(null);
 
   // Load cart when component mounts or user changes
   useEffect(() => {
+    let cancelled = false;
+
     const loadCart = async () => {
       if (user) {
         // User is authenticated - switch to user cart
         dispatch({ type: 'SET_GUEST_MODE', payload: false });
-        
-        // If there's a guest cart, merge it
-        const guestCart = loadGuestCart();
-        if (guestCart && guestCart.items.length > 0) {
-          console.log('Found guest cart to merge with user cart');
-          // Merge guest cart items
-          dispatch({ type: 'SET_CART', payload: guestCart.items });
-          // Clear the guest cart from localStorage
+        lastSynced.current = null;
+
+        const guestItems = loadGuestCart()?.items || [];
+        if (guestItems.length > 0) {
+          // Held in state below; the account cart keeps them from here on
           clearGuestCart();
         }
-        
-        // Load user's cart from server (if implemented)
-        // await refreshCart();
+
+        const saved = await CartRecoveryService.getSavedCart();
+        if (cancelled) return;
+        if (!saved.success || !saved.data) {
+          console.warn('Failed to load saved cart:', saved.error);
+          dispatch({ type: 'SET_CART', payload: guestItems });
+          return;
+        }
+
+        const savedItems = saved.data.items || [];
+        lastSynced.current = JSON.stringify(savedItems);
+        // Anything added before signing in joins the saved cart
+        dispatch({ type: 'SET_CART', payload: mergeCartItems(savedItems, guestItems) });
       } else {
         // User is not authenticated - load guest cart
         dispatch({ type: 'SET_GUEST_MODE', payload: true });
+        lastSynced.current = null;
         
         const guestCart = loadGuestCart();
         if (guestCart) {
@@ -355,30 +414,57 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     };
 
     loadCart();
+    return () => {
+      cancelled = true;
+    };
   }, [user]);
 
-  const addToCart = async (product: any, quantity: number = 1, variant?: any) => {
+  // Save a signed-in customer's cart as it changes, so it follows them across
+  // devices and an idle cart can be followed up by email
+  useEffect(() => {
+    if (!user || state.isGuestCart || lastSynced.current === null) return;
+    const snapshot = JSON.stringify(state.items);
+    if (snapshot === lastSynced.current) return;
+
+    const timer = setTimeout(async () => {
+      const result = await CartRecoveryService.saveCart(state.items);
+      if (result.success) {
+        lastSynced.current = snapshot;
+      } else {
+        console.warn('Failed to save cart:', result.error);
+      }
+    }, CART_SYNC_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [user, state.isGuestCart, state.items]);
+
+  const addToCart = async (product: any, quantity: number = 1, variant?: ProductVariant) => {
     try {
+      if (product.has_variants && !variant) {
+        toast.error(`Please choose an option for ${product.name}`);
+        return;
+      }
+
       const cartItem: CartItem = {
         id: `${product.id}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
         product_id: product.id.toString(),
-        name: product.name,
+        name: variant ? `${product.name} (${variant.name})` : product.name,
         price: product.current_price || product.price,
         original_price: product.original_price || product.price,
         quantity,
-        image_url: product.image_url || product.image,
-        sku: product.sku,
+        image_url: variant?.image_url || product.image_url || product.image,
+        sku: variant?.sku || product.sku,
         brand: product.brand,
         category: product.category,
         promotion_discount: product.promotion_discount || 0,
         promotion_id: product.promotion_id,
         in_stock: product.in_stock !== false,
         added_at: new Date().toISOString(),
-        variant,
+        variant_id: variant?.id,
+        variant: variant?.options,
       };
 
       dispatch({ type: 'ADD_ITEM', payload: cartItem });
-      toast.success(`${product.name} added to cart`, {
+      toast.success(`${cartItem.name} added to cart`, {
         description: state.isGuestCart ? 'Added to guest cart' : undefined,
       });
     } catch (error) {
@@ -387,7 +473,63 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const addCombo = async (combo: Combo, selections: ComboSelection[], bundles: number = 1) => {
+    try {
+      const { lines } = ComboService.previewSelection(combo, selections);
+      const addedAt = new Date().toISOString();
+      const existing = state.items.find(item => item.combo_id === combo.id);
+      const sameSelection = existing && state.items.filter(item => item.combo_id === combo.id).length === lines.length &&
+        lines.every(line => state.items.some(item => item.combo_id === combo.id && item.product_id === line.product.id));
+
+      if (existing && sameSelection) {
+        dispatch({ type: 'UPDATE_COMBO', payload: { comboId: combo.id, bundles: (existing.combo_quantity || 1) + bundles } });
+        toast.success(`${combo.name} added to cart`);
+        return;
+      }
+
+      const items: CartItem[] = lines.map(line => ({
+        id: `${combo.id}_${line.item.id}_${Date.now()}`,
+        product_id: line.product.id,
+        name: line.product.name,
+        price: line.unit_price,
+        original_price: Number(line.product.price || 0),
+        quantity: line.quantity * bundles,
+        image_url: line.product.images?.[0] || line.product.image_url,
+        sku: line.product.sku,
+        combo_id: combo.id,
+        combo_name: combo.name,
+        combo_item_id: line.item.id,
+        combo_quantity: bundles,
+        in_stock: (line.product.stock_quantity ?? 1) > 0,
+        added_at: addedAt,
+      }));
+
+      dispatch({ type: 'ADD_COMBO', payload: { comboId: combo.id, items } });
+      toast.success(existing ? `${combo.name} updated in cart` : `${combo.name} added to cart`);
+    } catch (error) {
+      console.error('Error adding combo to cart:', error);
+      toast.error('Failed to add bundle to cart');
+    }
+  };
+
+  const updateComboQuantity = async (comboId: string, bundles: number) => {
+    try {
+      dispatch({ type: 'UPDATE_COMBO', payload: { comboId, bundles } });
+      toast.success(bundles === 0 ? 'Bundle removed from cart' : 'Cart updated');
+    } catch (error) {
+      console.error('Error updating bundle:', error);
+      toast.error('Failed to update cart');
+    }
+  };
+
   const updateQuantity = async (itemId: string, quantity: number) => {
+    const comboItem = state.items.find(item => item.id === itemId && item.combo_id);
+    if (comboItem) {
+      // Combo lines change a whole bundle at a time
+      const perBundle = comboItem.quantity / (comboItem.combo_quantity || 1);
+      return updateComboQuantity(comboItem.combo_id!, Math.max(0, Math.round(quantity / perBundle)));
+    }
+
     try {
       dispatch({ type: 'UPDATE_ITEM', payload: { id: itemId, quantity } });
       
@@ -436,7 +578,6 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
 
       // 1) Look up promotion by code
-      const nowIso = new Date().toISOString();
       const { data: promo, error: promoErr } = await supabase
         .from('promotions')
         .select('*')
@@ -463,8 +604,10 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         return;
       }
 
-      // 3) Determine eligible items in the cart based on scope
-      const allItemProductIds = Array.from(new Set(state.items.map(i => i.product_id)));
+      // 3) Determine eligible items in the cart based on scope (bundles are
+      // already discounted and never take promotions)
+      const promoItems = state.items.filter(i => !i.combo_id);
+      const allItemProductIds = Array.from(new Set(promoItems.map(i => i.product_id)));
 
       // Fetch product categories for category-based promos
       let productInfo: Record<string, { category_id: string | null; price: number }> = {};
@@ -495,7 +638,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
           .select('category_id')
           .eq('promotion_id', promo.id);
         const catIds = new Set((links || []).map((l: any) => l.category_id));
-        state.items.forEach(i => {
+        promoItems.forEach(i => {
           const info = productInfo[i.product_id];
           if (info && info.category_id && catIds.has(info.category_id)) {
             eligibleProductIds.add(i.product_id);
@@ -504,9 +647,9 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
 
       // 4) Calculate eligible subtotal
-      const eligibleItems = state.items.filter(i => eligibleProductIds.has(i.product_id));
-      const allSubtotal = state.items.reduce((s, i) => s + i.price * i.quantity, 0);
-      const eligibleSubtotal = (eligibleItems.length > 0 ? eligibleItems : state.items)
+      const eligibleItems = promoItems.filter(i => eligibleProductIds.has(i.product_id));
+      const allSubtotal = promoItems.reduce((s, i) => s + i.price * i.quantity, 0);
+      const eligibleSubtotal = (eligibleItems.length > 0 ? eligibleItems : promoItems)
         .reduce((s, i) => s + i.price * i.quantity, 0);
 
       // Minimum order amount check
@@ -523,6 +666,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'SET_FREE_SHIPPING', payload: { enabled: true, promotionId: promo.id } });
         dispatch({ type: 'APPLY_PROMOTION', payload: {
           id: promo.id,
+          code: trimmed,
           name: promo.name || `Promo Code: ${trimmed}`,
           description: promo.description || 'Free Shipping',
           discount_type: 'free_shipping',
@@ -580,6 +724,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         dispatch({ type: 'APPLY_PROMOTION_TO_ITEMS', payload: { promotionId: promo.id, perUnitDiscountByItemId } });
         dispatch({ type: 'APPLY_PROMOTION', payload: {
           id: promo.id,
+          code: trimmed,
           name: promo.name || `Promo Code: ${trimmed}`,
           description: promo.description || `Buy ${buyQuantity} Get ${getQuantity} ${getDiscountPercent === 100 ? 'Free' : `${getDiscountPercent}% Off`}`,
           discount_type: 'buy_x_get_y',
@@ -610,7 +755,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       }
 
       // 6) Distribute discount proportionally over eligible items (per-unit)
-      const itemsForDiscount = (eligibleItems.length > 0 ? eligibleItems : state.items);
+      const itemsForDiscount = (eligibleItems.length > 0 ? eligibleItems : promoItems);
       const baseSubtotal = itemsForDiscount.reduce((s, i) => s + i.price * i.quantity, 0) || 1;
       const perUnitDiscountByItemId: Record<string, number> = {};
       itemsForDiscount.forEach(item => {
@@ -626,6 +771,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
       dispatch({ type: 'APPLY_PROMOTION_TO_ITEMS', payload: { promotionId: promo.id, perUnitDiscountByItemId } });
       dispatch({ type: 'APPLY_PROMOTION', payload: {
         id: promo.id,
+        code: trimmed,
         name: promo.name || `Promo Code: ${trimmed}`,
         description: promo.description || '',
         discount_type: (promo.type === 'fixed_amount' ? 'fixed_amount' : 'percentage'),
@@ -634,13 +780,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
         maximum_discount_amount: promo.maximum_discount_amount || undefined,
       } });
 
-      // 8) Track usage (best-effort)
-      try {
-        await supabase
-          .from('promotions')
-          .update({ current_usage_count: (promo.current_usage_count || 0) + 1, updated_at: nowIso })
-          .eq('id', promo.id);
-      } catch {}
+      // Usage is counted by the server once an order using this code is confirmed
 
       toast.success('Promo code applied successfully!');
     } catch (error) {
@@ -677,13 +817,18 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   const refreshCart = async () => {
     try {
       dispatch({ type: 'SET_LOADING', payload: true });
-      // This would typically load cart from server for authenticated users
-      // For guest cart, we reload from localStorage
+      // Signed-in carts reload from the server, guest carts from localStorage
       if (state.isGuestCart) {
         const guestCart = loadGuestCart();
         if (guestCart) {
           dispatch({ type: 'SET_CART', payload: guestCart.items });
         }
+      } else {
+        const saved = await CartRecoveryService.getSavedCart();
+        if (saved.success && saved.data) {
+          lastSynced.current = JSON.stringify(saved.data.items || []);
+          dispatch({ type: 'SET_CART', payload: saved.data.items || [] });
+        }
       }
     } catch (error) {
       console.error('Error refreshing cart:', error);
@@ -707,6 +852,14 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  /**
+   * Put back the items from a cart reminder email, keeping whatever is
+   * already in the cart
+   */
+  const restoreItems = (items: CartItem[]) => {
+    dispatch({ type: 'SET_CART', payload: mergeCartItems(state.items, items) });
+  };
+
   const getTotalItemCount = () => {
     return state.items.reduce((total, item) => total + item.quantity, 0);
   };
@@ -731,6 +884,8 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
   const value: CartContextType = {
     ...state,
     addToCart,
+    addCombo,
+    updateComboQuantity,
     updateQuantity,
     removeFromCart,
     clearCart,
@@ -739,6 +894,7 @@ export function CartProvider({ children }: { children: React.ReactNode }) {
     redeemLoyaltyPoints,
     refreshCart,
     mergeGuestCartWithUser,
+    restoreItems,
     getTotalItemCount,
     canShareCart,
     getCartSummary,
@@ -68,7 +68,7 @@ export default function AdminDashboard() {
   const [stock50, setStock50] = useState<Array<{ id: string; name: string; soldThisMonth: number; startingStock: number; percentSold: number }>>([]);
   const [series, setSeries] = useState<Array<{ date: string; revenue: number; orders: number }>>([]);
   const [error, setError] = useState<string | null>(null);
-  const [revBreakdown, setRevBreakdown] = useState<{ subtotal: number; tax: number; shipping: number; discount: number; total: number } | null>(null);
+  const [revBreakdown, setRevBreakdown] = useState<{ subtotal: number; tax: number; shipping: number; discount: number; total: number; refunds: number; net: number } | null>(null);
   const [inventory, setInventory] = useState<{ totalProducts: number; active: number; outOfStock: number; lowStock: number } | null>(null);
   const [salesByCat, setSalesByCat] = useState<Array<{ categoryId: string; categoryName: string; revenue: number; orders: number; items: number }>>([]);
   const [topCustomers, setTopCustomers] = useState<Array<{ id: string; name: string; email: string; total: number; orders: number }>>([]);
@@ -638,9 +638,17 @@ export default function AdminDashboard() {
                         <div className="text-[#6C757D]">Discount</div>
                         <div className="text-[#09215F] font-semibold">-R{revBreakdown.discount.toLocaleString()}</div>
                       </div>
+                      <div className="p-3 bg-[#F8F9FA] rounded-lg">
+                        <div className="text-[#6C757D]">Gross Total</div>
+                        <div className="text-[#09215F] font-semibold">R{revBreakdown.total.toLocaleString()}</div>
+                      </div>
+                      <div className="p-3 bg-[#F8F9FA] rounded-lg">
+                        <div className="text-[#6C757D]">Refunds</div>
+                        <div className="text-[#09215F] font-semibold">-R{revBreakdown.refunds.toLocaleString()}</div>
+                      </div>
                       <div className="col-span-2 p-3 bg-[#E8F5E9] rounded-lg">
-                        <div className="text-[#2E7D32]">Total</div>
-                        <div className="text-[#1B5E20] font-semibold text-lg">R{revBreakdown.total.toLocaleString()}</div>
+                        <div className="text-[#2E7D32]">Net Revenue</div>
+                        <div className="text-[#1B5E20] font-semibold text-lg">R{revBreakdown.net.toLocaleString()}</div>
                       </div>
                     </div>
                   ) : (
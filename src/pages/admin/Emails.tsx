@@ -0,0 +1,12 @@
+import React from 'react';
+import { EmailLog } from '../../components/admin/EmailLog';
+
+export default function AdminEmails() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <EmailLog />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,16 @@
+import React from 'react';
+import { StockReconciliation } from '../../components/admin/StockReconciliation';
+
+export default function AdminInventory() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Inventory</h1>
+          <p className="text-gray-600">Check stock levels against the stock movements ledger</p>
+        </div>
+        <StockReconciliation />
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,16 @@
 import React, { useEffect, useState } from 'react';
 import { Package, Search, Filter, Eye, Download } from 'lucide-react';
+import { toast } from 'sonner';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { supabase } from '../../lib/supabase';
 import { Button } from '../../components/ui/button';
 import { Input } from '../../components/ui/input';
+import RefundOrderModal from '../../components/admin/RefundOrderModal';
+import OrderShipments from '../../components/admin/OrderShipments';
+import { LoyaltyService } from '../../utils/loyalty-service';
+import { InvoiceService } from '../../utils/invoice-service';
+import { CollectionService } from '../../utils/collection-service';
+import { EmailService } from '../../utils/email-service';
 
 interface Product {
   id: string;
@@ -37,7 +44,7 @@ interface OrderItem {
   total_price: number;
 }
 
-type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+type OrderStatus = 'pending' | 'processing' | 'ready_for_collection' | 'shipped' | 'delivered' | 'cancelled' | 'refunded';
 
 interface Order {
   id: string;
@@ -55,9 +62,16 @@ interface Order {
   shipping_amount: number;
   discount_amount: number;
   total: number; // Note: using 'total' instead of 'total_amount'
+  amount_refunded?: number;
   notes?: string;
   billing_address?: any;
   shipping_address?: any;
+  shipping_method?: string | null;
+  fulfillment_method?: 'delivery' | 'collect';
+  pickup_slot_start?: string | null;
+  pickup_slot_end?: string | null;
+  ready_for_collection_at?: string | null;
+  collected_at?: string | null;
   processed_at?: string;
   created_at: string;
   updated_at: string;
@@ -70,6 +84,8 @@ export default function AdminOrders() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [isDetailsOpen, setIsDetailsOpen] = useState<boolean>(false);
+  const [isRefundOpen, setIsRefundOpen] = useState<boolean>(false);
+  const [downloadingInvoice, setDownloadingInvoice] = useState<boolean>(false);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [error, setError] = useState<string | null>(null);
@@ -117,120 +133,25 @@ export default function AdminOrders() {
     downloadFile(csv, `orders-export-${new Date().toISOString().slice(0,10)}.csv`, 'text/csv;charset=utf-8;');
   };
 
-  const handlePrintInvoice = (order: Order) => {
+  // The numbered VAT invoice the server issued for the order, as a PDF
+  const handleDownloadInvoice = async (order: Order) => {
     if (!order) return;
-    const win = window.open('', '_blank');
-    if (!win) return;
-    const doc = win.document;
-    
-    const customerName = order.customer ? `${order.customer.first_name} ${order.customer.last_name}` : 
-                        order.customer_info?.name || 'Unknown Customer';
-    const customerEmail = order.customer?.email || order.customer_email || '';
-    
-    const orderItemsHtml = order.order_items?.map(item => `
-      <tr>
-        <td>${item.product_snapshot?.name || 'Unknown Product'}</td>
-        <td class="right">${item.quantity}</td>
-        <td class="right">${formatZAR(item.unit_price)}</td>
-        <td class="right">${formatZAR(item.total_price)}</td>
-      </tr>
-    `).join('') || '<tr><td colspan="4" class="text-center">No items found</td></tr>';
-    
-    const html = `<!DOCTYPE html>
-      <html>
-      <head>
-        <meta charset="utf-8" />
-        <meta name="viewport" content="width=device-width, initial-scale=1" />
-        <title>Invoice ${order.order_number}</title>
-        <style>
-          :root { color-scheme: light; }
-          body { font-family: system-ui, -apple-system, Segoe UI, Roboto, Helvetica, Arial, sans-serif; background: #fff; color: #111827; margin: 0; }
-          .container { max-width: 800px; margin: 32px auto; padding: 24px; border: 1px solid #E5E7EB; border-radius: 16px; }
-          .header { display:flex; justify-content: space-between; align-items:center; border-bottom: 1px solid #E5E7EB; padding-bottom: 12px; }
-          .brand { font-size: 20px; font-weight: 700; }
-          .muted { color: #6B7280; }
-          .row { display:flex; gap: 16px; }
-          .card { border: 1px solid #E5E7EB; border-radius: 12px; padding: 12px; }
-          .grid { display:grid; grid-template-columns: 1fr 1fr; gap: 16px; }
-          .title { font-weight: 600; font-size: 14px; color: #374151; margin-bottom: 8px; }
-          .totals { display:flex; justify-content:flex-end; margin-top: 12px; }
-          table { width: 100%; border-collapse: collapse; }
-          th, td { text-align: left; padding: 10px; border-bottom: 1px solid #E5E7EB; }
-          th { background: #F9FAFB; font-size: 12px; text-transform: uppercase; color: #6B7280; }
-          .right { text-align: right; }
-          .text-center { text-align: center; }
-          @media print { .container { box-shadow: none; border: 0; } }
-        </style>
-      </head>
-      <body>
-        <div class="container">
-          <div class="header">
-            <div class="brand">Best Brightness</div>
-            <div class="muted">Invoice • ${order.order_number}</div>
-          </div>
-          <div style="margin-top:16px" class="grid">
-            <div class="card">
-              <div class="title">Billed To</div>
-              <div>${customerName}</div>
-              <div class="muted">${customerEmail}</div>
-              <div class="muted">Order ID: ${order.id}</div>
-            </div>
-            <div class="card">
-              <div class="title">Order Details</div>
-              <div>Status: ${order.status}</div>
-              <div>Payment: ${order.payment_status}</div>
-              <div class="muted">Placed: ${new Date(order.created_at).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' })}</div>
-            </div>
-          </div>
-          <div style="margin-top:16px">
-            <table>
-              <thead>
-                <tr>
-                  <th>Item</th>
-                  <th class="right">Qty</th>
-                  <th class="right">Unit Price</th>
-                  <th class="right">Total</th>
-                </tr>
-              </thead>
-              <tbody>
-                ${orderItemsHtml}
-              </tbody>
-            </table>
-            <div class="totals">
-              <div>
-                <div class="row" style="justify-content: space-between; min-width:280px">
-                  <div class="muted">Subtotal</div>
-                  <div>${formatZAR(order.subtotal)}</div>
-                </div>
-                <div class="row" style="justify-content: space-between; min-width:280px">
-                  <div class="muted">Tax</div>
-                  <div>${formatZAR(order.tax_amount)}</div>
-                </div>
-                <div class="row" style="justify-content: space-between; min-width:280px">
-                  <div class="muted">Shipping</div>
-                  <div>${formatZAR(order.shipping_amount)}</div>
-                </div>
-                <div class="row" style="justify-content: space-between; min-width:280px">
-                  <div class="muted">Discount</div>
-                  <div>-${formatZAR(order.discount_amount)}</div>
-                </div>
-                <div class="row" style="justify-content: space-between; min-width:280px; font-weight:700; margin-top: 8px;">
-                  <div>Total</div>
-                  <div>${formatZAR(order.total)}</div>
-                </div>
-              </div>
-            </div>
-          </div>
-          <div style="margin-top:24px" class="muted">Thank you for your business.</div>
-        </div>
-        <script>window.onload = () => { window.print(); }</script>
-      </body>
-      </html>`;
-    doc.open();
-    doc.write(html);
-    doc.close();
+    setDownloadingInvoice(true);
+    const invoice = await InvoiceService.get(order.id);
+    const result = invoice.success && invoice.data
+      ? await InvoiceService.download(order.id, invoice.data.invoice_number)
+      : invoice;
+    setDownloadingInvoice(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to download tax invoice');
+    }
   };
 
+  // Keep the open order in step with the list after a refresh
+  useEffect(() => {
+    setSelectedOrder(current => current && (orders.find(order => order.id === current.id) || current));
+  }, [orders]);
+
   // Fetch real orders from database
   const fetchOrders = async () => {
     try {
@@ -257,9 +178,16 @@ export default function AdminOrders() {
           shipping_amount,
           discount_amount,
           total,
+          amount_refunded,
           notes,
           billing_address,
           shipping_address,
+          shipping_method,
+          fulfillment_method,
+          pickup_slot_start,
+          pickup_slot_end,
+          ready_for_collection_at,
+          collected_at,
           processed_at,
           created_at,
           updated_at
@@ -330,6 +258,22 @@ export default function AdminOrders() {
   const updateOrderStatus = async (orderId: string, newStatus: OrderStatus) => {
     try {
       console.log(`🔄 Updating order ${orderId} status to ${newStatus}`);
+
+      // The server issues the collection code and emails the customer
+      if (newStatus === 'ready_for_collection') {
+        const result = await CollectionService.markReady(orderId);
+        if (!result.success) {
+          toast.error(result.error || 'Could not mark the order ready for collection');
+          return;
+        }
+        if (result.data?.notified) {
+          toast.success('Order is ready and the customer has been emailed their collection code');
+        } else {
+          toast.warning('Order is ready, but the customer email could not be sent');
+        }
+        await fetchOrders();
+        return;
+      }
       
       const { error } = await supabase
         .from('orders')
@@ -345,6 +289,22 @@ export default function AdminOrders() {
       }
 
       console.log('✅ Order status updated successfully');
+
+      // Cancelled orders give back the points they earned and redeemed
+      if (newStatus === 'cancelled') {
+        const loyaltyResult = await LoyaltyService.syncOrder(orderId);
+        if (!loyaltyResult.success) {
+          console.error('❌ Error reversing loyalty points:', loyaltyResult.error);
+        }
+      }
+
+      if (newStatus === 'delivered' || newStatus === 'cancelled') {
+        const emailResult = await EmailService.notifyOrderStatus(orderId);
+        if (!emailResult.success) {
+          console.error('❌ Error emailing customer:', emailResult.error);
+          toast.warning(`Order ${newStatus}, but the customer email could not be sent`);
+        }
+      }
       
       // Refresh orders list
       await fetchOrders();
@@ -465,9 +425,11 @@ export default function AdminOrders() {
                 <option value="all">All Status</option>
                 <option value="pending">Pending</option>
                 <option value="processing">Processing</option>
+                <option value="ready_for_collection">Ready for collection</option>
                 <option value="shipped">Shipped</option>
                 <option value="delivered">Delivered</option>
                 <option value="cancelled">Cancelled</option>
+                <option value="refunded">Refunded</option>
               </select>
             </div>
           </div>
@@ -563,12 +525,13 @@ export default function AdminOrders() {
                             `inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ` +
                             (order.status === 'delivered' ? 'bg-green-100 text-green-800' :
                              order.status === 'shipped' ? 'bg-[#97CF50]/20 text-[#09215F]' :
+                             order.status === 'ready_for_collection' ? 'bg-blue-100 text-blue-800' :
                              order.status === 'processing' ? 'bg-yellow-100 text-yellow-800' :
                              order.status === 'pending' ? 'bg-gray-100 text-gray-800' :
                              'bg-red-100 text-red-800')
                           }
                         >
-                          {order.status}
+                          {order.status.replace(/_/g, ' ')}
                         </span>
                       </td>
                       <td className="px-4 py-3 text-sm text-gray-700">{new Date(order.created_at).toLocaleDateString('en-ZA', { timeZone: 'Africa/Johannesburg' })}</td>
@@ -685,12 +648,13 @@ export default function AdminOrders() {
                             `inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ` +
                             (selectedOrder.status === 'delivered' ? 'bg-green-100 text-green-800' :
                              selectedOrder.status === 'shipped' ? 'bg-[#97CF50]/20 text-[#09215F]' :
+                             selectedOrder.status === 'ready_for_collection' ? 'bg-blue-100 text-blue-800' :
                              selectedOrder.status === 'processing' ? 'bg-yellow-100 text-yellow-800' :
                              selectedOrder.status === 'pending' ? 'bg-gray-100 text-gray-800' :
                              'bg-red-100 text-red-800')
                           }
                         >
-                          {selectedOrder.status}
+                          {selectedOrder.status.replace(/_/g, ' ')}
                         </span>
                         <span className="text-gray-500 text-sm">Payment: {selectedOrder.payment_status}</span>
                       </div>
@@ -698,6 +662,19 @@ export default function AdminOrders() {
                         <span className="text-gray-900 font-semibold">{formatZAR(selectedOrder.total)}</span>
                         <span className="text-gray-500 text-sm">• {selectedOrder.order_items?.length || 0} items</span>
                       </div>
+                      {selectedOrder.fulfillment_method === 'collect' && (
+                        <div className="text-sm text-gray-600">
+                          <p>
+                            Collect in store
+                            {selectedOrder.pickup_slot_start && ` · ${CollectionService.formatSlot(selectedOrder.pickup_slot_start, selectedOrder.pickup_slot_end)}`}
+                          </p>
+                          {selectedOrder.collected_at ? (
+                            <p className="text-gray-500">Collected {new Date(selectedOrder.collected_at).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' })}</p>
+                          ) : selectedOrder.ready_for_collection_at && (
+                            <p className="text-gray-500">Ready since {new Date(selectedOrder.ready_for_collection_at).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' })}</p>
+                          )}
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -750,6 +727,9 @@ export default function AdminOrders() {
                   </div>
                 </div>
 
+                {/* Remounted on a status change so the history reloads */}
+                <OrderShipments key={`${selectedOrder.id}-${selectedOrder.status}`} orderId={selectedOrder.id} onChanged={fetchOrders} />
+
                 <div className="mt-6 bg-white rounded-xl border border-gray-200">
                   <div className="px-4 py-3 border-b border-gray-200 bg-gray-50 rounded-t-xl">
                     <h4 className="text-sm font-semibold text-gray-700">Order Totals</h4>
@@ -776,6 +756,18 @@ export default function AdminOrders() {
                         <span className="text-gray-900">Total:</span>
                         <span className="text-gray-900">{formatZAR(selectedOrder.total)}</span>
                       </div>
+                      {Number(selectedOrder.amount_refunded || 0) > 0 && (
+                        <>
+                          <div className="flex justify-between">
+                            <span className="text-gray-600">Refunded:</span>
+                            <span className="text-red-600">-{formatZAR(Number(selectedOrder.amount_refunded))}</span>
+                          </div>
+                          <div className="flex justify-between font-semibold">
+                            <span className="text-gray-900">Net:</span>
+                            <span className="text-gray-900">{formatZAR(selectedOrder.total - Number(selectedOrder.amount_refunded))}</span>
+                          </div>
+                        </>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -789,6 +781,9 @@ export default function AdminOrders() {
                   >
                     <option value="pending">Pending</option>
                     <option value="processing">Processing</option>
+                    {selectedOrder.fulfillment_method === 'collect' && (
+                      <option value="ready_for_collection">Ready for collection</option>
+                    )}
                     <option value="shipped">Shipped</option>
                     <option value="delivered">Delivered</option>
                     <option value="cancelled">Cancelled</option>
@@ -801,17 +796,39 @@ export default function AdminOrders() {
                   >
                     Close
                   </button>
-                  <button
-                    onClick={() => selectedOrder && handlePrintInvoice(selectedOrder)}
-                    className="px-4 py-2 rounded-lg bg-[#97CF50] text-white hover:bg-[#09215F]"
-                  >
-                    Print Invoice
-                  </button>
+                  {['paid', 'partially_refunded'].includes(selectedOrder.payment_status) && (
+                    <button
+                      onClick={() => setIsRefundOpen(true)}
+                      className="px-4 py-2 rounded-lg border border-red-300 text-red-700 hover:bg-red-50"
+                    >
+                      Refund
+                    </button>
+                  )}
+                  {['paid', 'partially_refunded', 'refunded'].includes(selectedOrder.payment_status) && (
+                    <button
+                      onClick={() => selectedOrder && handleDownloadInvoice(selectedOrder)}
+                      disabled={downloadingInvoice}
+                      className="px-4 py-2 rounded-lg bg-[#97CF50] text-white hover:bg-[#09215F] disabled:opacity-50"
+                    >
+                      {downloadingInvoice ? 'Preparing...' : 'Tax Invoice'}
+                    </button>
+                  )}
                 </div>
               </div>
             </div>
           </div>
         )}
+        {isRefundOpen && selectedOrder && (
+          <RefundOrderModal
+            open={isRefundOpen}
+            orderId={selectedOrder.id}
+            onClose={() => setIsRefundOpen(false)}
+            onRefunded={async () => {
+              setIsDetailsOpen(false);
+              await fetchOrders();
+            }}
+          />
+        )}
       </div>
     </div>
   );
@@ -4,6 +4,14 @@ import { ArrowLeft, Loader2, Plus, Trash2, Upload, CheckCircle, AlertTriangle }
 import { supabase } from '../../lib/supabase';
 import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import { BarcodeInput } from '../../components/BarcodeInput';
+import { VariantEditor } from '../../components/admin/VariantEditor';
+import { VariantDraft, VariantService } from '../../utils/variant-service';
+import { InventoryService, StockChangeReason } from '../../utils/inventory-service';
+import { StockChangeReasonFields } from '../../components/admin/StockChangeReasonFields';
+import { StockMovementHistory } from '../../components/admin/StockMovementHistory';
+import { ProductCostHistory } from '../../components/admin/ProductCostHistory';
+import { PurchasingService, Supplier } from '../../utils/purchasing-service';
+import { useAuth } from '../../contexts/AuthContext';
 
 interface Product {
   id: string;
@@ -17,6 +25,7 @@ interface Product {
   price: number;
   cost_price: number;
   compare_at_price?: number | null;
+  supplier_id?: string | null;
   currency: string;
   images: string[];
   specifications?: Record<string, any>;
@@ -39,13 +48,20 @@ interface Category { id: string; name: string; slug: string; }
 export default function AdminProductEditor() {
   const { id } = useParams();
   const navigate = useNavigate();
+  const { isAtLeastRole } = useAuth();
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<string | null>(null);
   const [categories, setCategories] = useState<Category[]>([]);
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
   const [selectedImage, setSelectedImage] = useState(0);
   const [originalStock, setOriginalStock] = useState<number>(0);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
+  // Variant stock as saved, to tell which variants' stock was edited
+  const [savedVariantStock, setSavedVariantStock] = useState<Record<string, number>>({});
+  const [stockChange, setStockChange] = useState<StockChangeReason>({ movement_type: 'adjustment', reason: '' });
+  const [historyKey, setHistoryKey] = useState(0);
 
   // Form state mirrors manual add + a few extras (tags/specifications/dimensions)
   const [form, setForm] = useState({
@@ -58,6 +74,7 @@ export default function AdminProductEditor() {
     price: '',
     cost_price: '',
     compare_at_price: '',
+    supplier_id: '',
     images: [] as string[],
     features: [''] as string[],
     weight_kg: '',
@@ -78,15 +95,20 @@ export default function AdminProductEditor() {
       try {
         setLoading(true);
 
-        const [{ data: product, error: productError }, { data: cats, error: catsError }] = await Promise.all([
+        const [{ data: product, error: productError }, { data: cats, error: catsError }, productVariants, activeSuppliers] = await Promise.all([
           supabase.from('products').select(`*, category:categories(id,name,slug)`).eq('id', id).single(),
           supabase.from('categories').select('id,name,slug').eq('is_active', true).order('name'),
+          VariantService.getVariants(id, true),
+          PurchasingService.getSuppliers(),
         ]);
 
         if (productError) throw productError;
         if (catsError) throw catsError;
 
         setCategories(cats || []);
+        setSuppliers(activeSuppliers);
+        setVariants(productVariants);
+        setSavedVariantStock(Object.fromEntries(productVariants.map(variant => [variant.id, variant.stock_quantity])));
         if (product) {
           const stockQty = product.stock_quantity || 0;
           setOriginalStock(stockQty);
@@ -100,6 +122,7 @@ export default function AdminProductEditor() {
             price: product.price?.toString?.() || '',
             cost_price: product.cost_price?.toString?.() || '',
             compare_at_price: product.compare_at_price?.toString?.() || '',
+            supplier_id: product.supplier_id || '',
             images: Array.isArray(product.images) ? product.images : [],
             features: Array.isArray(product.features) && product.features.length ? product.features : [''],
             weight_kg: product.weight_kg?.toString?.() || '',
@@ -142,7 +165,15 @@ export default function AdminProductEditor() {
     if (stockCount <= 10) return { message: `${stockCount} units in stock - running low`, color: 'text-yellow-600 bg-yellow-50 border-yellow-200' };
     return { message: `${stockCount} units in stock`, color: 'text-green-600 bg-green-50 border-green-200' };
   };
-  const stockInfo = getStockStatus(parseInt(form.stock_quantity || '0'));
+  // A product sold in variants holds the sum of their stock
+  const variantStock = variants
+    .filter(variant => variant.is_active)
+    .reduce((sum, variant) => sum + Number(variant.stock_quantity || 0), 0);
+  const effectiveStock = variants.length > 0 ? variantStock : parseInt(form.stock_quantity || '0');
+  const stockInfo = getStockStatus(effectiveStock);
+  const stockEdited = variants.length > 0
+    ? variants.some(variant => variant.id && variant.id in savedVariantStock && Number(variant.stock_quantity || 0) !== savedVariantStock[variant.id])
+    : parseInt(form.stock_quantity || '0') !== originalStock;
 
   const handleUploadImages = async (files: FileList | null) => {
     if (!files || !files.length) return;
@@ -205,8 +236,14 @@ export default function AdminProductEditor() {
       if (cost > price) throw new Error('Cost price cannot exceed selling price');
       if (compareAt !== null && compareAt <= price) throw new Error('Compare at price must be greater than the regular price');
 
+      const variantSkus = variants.map(variant => variant.sku.trim());
+      if (variantSkus.some(sku => !sku)) throw new Error('Every variant needs a SKU');
+      if (new Set(variantSkus).size !== variantSkus.length) throw new Error('Variant SKUs must be unique');
+
       const oldStock = originalStock;
-      const newStock = form.stock_quantity ? parseInt(form.stock_quantity) : 0;
+      const newStock = variants.length > 0 ? variantStock : (form.stock_quantity ? parseInt(form.stock_quantity) : 0);
+      if (!Number.isFinite(newStock) || newStock < 0) throw new Error('Stock quantity cannot be negative');
+      if (stockEdited && !stockChange.reason.trim()) throw new Error('Give a reason for the stock change');
 
       const payload: any = {
         name: form.name.trim(),
@@ -218,11 +255,12 @@ export default function AdminProductEditor() {
         price,
         cost_price: cost,
         compare_at_price: compareAt,
+        supplier_id: form.supplier_id || null,
         currency: 'USD',
         images: form.images.filter(Boolean),
         features: form.features.map(f => f.trim()).filter(Boolean),
         weight_kg: form.weight_kg ? parseFloat(form.weight_kg) : null,
-        stock_quantity: newStock,
+        has_variants: variants.length > 0,
         is_active: form.is_active,
         is_featured: form.is_featured,
         stock_tracking: form.stock_tracking,
@@ -239,6 +277,23 @@ export default function AdminProductEditor() {
       const { error: upErr } = await supabase.from('products').update(payload).eq('id', id);
       if (upErr) throw upErr;
 
+      // Stock moves through the ledger rather than with the product details
+      if (id && variants.length === 0 && newStock !== oldStock) {
+        const stockResult = await InventoryService.adjustStock({
+          product_id: id,
+          new_quantity: newStock,
+          movement_type: stockChange.movement_type,
+          reason: stockChange.reason.trim(),
+        });
+        if (!stockResult.success) throw new Error(stockResult.error || 'Failed to update stock');
+      }
+
+      if (id) {
+        const savedVariants = await VariantService.saveVariants(id, variants, stockChange);
+        setVariants(savedVariants);
+        setSavedVariantStock(Object.fromEntries(savedVariants.map(variant => [variant.id, variant.stock_quantity])));
+      }
+
       // Clear product details cache since product was updated
       if (id) {
         const { stockNotificationCache } = await import('../../services/stockNotificationCacheService');
@@ -273,6 +328,8 @@ export default function AdminProductEditor() {
       }
 
       setOriginalStock(newStock);
+      setStockChange({ movement_type: 'adjustment', reason: '' });
+      setHistoryKey(key => key + 1);
       setSuccess('Product updated successfully');
     } catch (e: any) {
       setError(e?.message || 'Failed to save changes');
@@ -421,7 +478,7 @@ export default function AdminProductEditor() {
             </div>
 
             {/* Pricing */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
               <div>
                 <label className="block text-sm text-gray-700 mb-1">Price (R)</label>
                 <input className="w-full px-3 py-2 border rounded-md" value={form.price} onChange={(e) => setForm({ ...form, price: e.target.value })} />
@@ -434,6 +491,17 @@ export default function AdminProductEditor() {
                 <label className="block text-sm text-gray-700 mb-1">Cost Price</label>
                 <input className="w-full px-3 py-2 border rounded-md" value={form.cost_price} onChange={(e) => setForm({ ...form, cost_price: e.target.value })} />
               </div>
+              <div>
+                <label className="block text-sm text-gray-700 mb-1">Supplier</label>
+                <select
+                  className="w-full px-3 py-2 border rounded-md"
+                  value={form.supplier_id}
+                  onChange={(e) => setForm({ ...form, supplier_id: e.target.value })}
+                >
+                  <option value="">No regular supplier</option>
+                  {suppliers.map(s => (<option key={s.id} value={s.id}>{s.name}</option>))}
+                </select>
+              </div>
             </div>
 
             {/* Category and Stock */}
@@ -451,7 +519,13 @@ export default function AdminProductEditor() {
               </div>
               <div>
                 <label className="block text-sm text-gray-700 mb-1">Stock Quantity</label>
-                <input className="w-full px-3 py-2 border rounded-md" value={form.stock_quantity} onChange={(e) => setForm({ ...form, stock_quantity: e.target.value })} />
+                <input
+                  className="w-full px-3 py-2 border rounded-md disabled:bg-gray-100"
+                  value={variants.length > 0 ? variantStock.toString() : form.stock_quantity}
+                  disabled={variants.length > 0}
+                  title={variants.length > 0 ? 'Stock is kept per variant' : undefined}
+                  onChange={(e) => setForm({ ...form, stock_quantity: e.target.value })}
+                />
               </div>
               <div className="flex items-end gap-3">
                 <label className="inline-flex items-center gap-2">
@@ -465,6 +539,25 @@ export default function AdminProductEditor() {
               </div>
             </div>
 
+            {/* Variants */}
+            <div>
+              <label className="block text-sm text-gray-700 mb-2">Variants</label>
+              <VariantEditor
+                variants={variants}
+                onChange={setVariants}
+                basePrice={parseFloat(form.price || '0')}
+                baseSku={form.sku}
+              />
+            </div>
+
+            {stockEdited && <StockChangeReasonFields value={stockChange} onChange={setStockChange} />}
+
+            {/* Stock history */}
+            {id && <StockMovementHistory productId={id} variants={variants} refreshKey={historyKey} />}
+
+            {/* Landed cost of deliveries; cost prices are for managers */}
+            {id && isAtLeastRole('manager') && <ProductCostHistory productId={id} />}
+
             {/* Description */}
             <div>
               <label className="block text-sm text-gray-700 mb-1">Short Description</label>
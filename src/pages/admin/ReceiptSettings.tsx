@@ -0,0 +1,12 @@
+import React from 'react';
+import { ReceiptTemplateEditor } from '../../components/admin/ReceiptTemplateEditor';
+
+export default function AdminReceiptSettings() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <ReceiptTemplateEditor />
+      </div>
+    </div>
+  );
+}
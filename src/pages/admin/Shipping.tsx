@@ -0,0 +1,14 @@
+import React from 'react';
+import { ShippingRules } from '../../components/admin/ShippingRules';
+import { CollectionSettingsEditor } from '../../components/admin/CollectionSettingsEditor';
+
+export default function AdminShipping() {
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 space-y-6">
+        <ShippingRules />
+        <CollectionSettingsEditor />
+      </div>
+    </div>
+  );
+}
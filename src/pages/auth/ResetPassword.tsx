@@ -3,6 +3,7 @@ import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { supabase } from '../../utils/supabase/client';
 import { Eye, EyeOff, Package, CheckCircle, AlertTriangle, ArrowLeft, Mail, Key } from 'lucide-react';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { EmailService } from '../../utils/email-service';
 
 export default function ResetPassword() {
   const [searchParams] = useSearchParams();
@@ -151,6 +152,12 @@ export default function ResetPassword() {
         return;
       }
 
+      // A notice to the account's address, in case the change was not them
+      const notice = await EmailService.notifyPasswordChanged();
+      if (!notice.success) {
+        console.error('Password change notice error:', notice.error);
+      }
+
       setSuccess(true);
       
       // Redirect to login after a short delay
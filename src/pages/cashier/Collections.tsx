@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft, CheckCircle, PackageCheck, ScanLine, ShieldAlert } from 'lucide-react';
+import { toast } from 'sonner';
+import CashierLayout from '../../components/cashier/CashierLayout';
+import { CollectionOrder, CollectionService } from '../../utils/collection-service';
+
+/**
+ * The collection counter: scan or type the customer's collection code,
+ * receipt barcode or order number, check the parcel and hand it over
+ */
+export default function CashierCollections() {
+  const navigate = useNavigate();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [reference, setReference] = useState('');
+  const [order, setOrder] = useState<CollectionOrder | null>(null);
+  const [matchedCode, setMatchedCode] = useState<string | null>(null);
+  const [idChecked, setIdChecked] = useState(false);
+  const [handedOver, setHandedOver] = useState<CollectionOrder | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [order, handedOver]);
+
+  const reset = () => {
+    setReference('');
+    setOrder(null);
+    setMatchedCode(null);
+    setIdChecked(false);
+  };
+
+  const handleLookup = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reference.trim()) return;
+
+    setBusy(true);
+    const result = await CollectionService.lookup(reference);
+    setBusy(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'No collection order found');
+      return;
+    }
+
+    setHandedOver(null);
+    setOrder(result.data);
+    setMatchedCode(result.data.matched_by === 'code' ? reference.trim() : null);
+    setIdChecked(false);
+    setReference('');
+  };
+
+  const handleCollect = async () => {
+    if (!order) return;
+
+    setBusy(true);
+    const result = await CollectionService.collect(order.order_id, matchedCode);
+    setBusy(false);
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to record the collection');
+      return;
+    }
+
+    toast.success(`Order ${order.order_number.slice(0, 8).toUpperCase()} handed over`);
+    setHandedOver(result.data);
+    reset();
+  };
+
+  const alreadyCollected = !!order?.collected_at;
+  const notReady = !!order && !alreadyCollected && order.status !== 'ready_for_collection';
+  // Without the code the customer proves who they are with ID
+  const canHandOver = !!order && !alreadyCollected && !notReady && (!!matchedCode || idChecked);
+
+  return (
+    <CashierLayout>
+      <div className="min-h-screen bg-gradient-to-br from-[#F8F9FA] to-[#B0E0E6]/20 p-8">
+        <div className="max-w-3xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center space-x-4">
+            <button
+              onClick={() => navigate('/cashier')}
+              className="p-3 rounded-2xl bg-white/80 border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300 hover:-translate-y-1"
+            >
+              <ArrowLeft className="h-6 w-6 text-[#09215F]" />
+            </button>
+            <div>
+              <h1 className="text-3xl font-bold text-[#09215F]">Collections</h1>
+              <p className="text-[#09215F]/70">Hand over click-and-collect orders at the counter</p>
+            </div>
+          </div>
+
+          <form onSubmit={handleLookup} className="bg-white rounded-2xl shadow-xl p-6">
+            <label className="block text-sm font-semibold text-[#09215F] mb-2">
+              Collection code, receipt barcode or order number
+            </label>
+            <div className="flex gap-3">
+              <div className="relative flex-1">
+                <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 h-5 w-5 text-[#09215F]/40" />
+                <input
+                  ref={inputRef}
+                  value={reference}
+                  onChange={(e) => setReference(e.target.value)}
+                  placeholder="Scan or type"
+                  className="w-full pl-10 pr-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:border-[#97CF50] text-lg font-mono"
+                  autoComplete="off"
+                />
+              </div>
+              <button
+                type="submit"
+                disabled={busy || !reference.trim()}
+                className="px-6 py-3 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors disabled:opacity-50"
+              >
+                Find
+              </button>
+            </div>
+          </form>
+
+          {handedOver && (
+            <div className="bg-green-50 border border-green-200 rounded-2xl p-4 flex items-center gap-3 text-green-800">
+              <CheckCircle className="h-6 w-6" />
+              <span>
+                Order {handedOver.order_number.slice(0, 8).toUpperCase()} collected by {handedOver.customer_name || 'the customer'}
+              </span>
+            </div>
+          )}
+
+          {order && (
+            <div className="bg-white rounded-2xl shadow-xl p-6 space-y-5">
+              <div className="flex items-start justify-between">
+                <div>
+                  <p className="text-sm text-[#09215F]/60">Order</p>
+                  <p className="text-2xl font-bold text-[#09215F] font-mono">{order.order_number.slice(0, 8).toUpperCase()}</p>
+                  <p className="text-[#09215F]/80 mt-1">{order.customer_name || order.customer_email || 'Guest'}</p>
+                  {order.customer_phone && <p className="text-sm text-[#09215F]/60">{order.customer_phone}</p>}
+                </div>
+                <div className="text-right text-sm text-[#09215F]/70">
+                  {order.pickup_slot_start && (
+                    <p>Booked for {CollectionService.formatSlot(order.pickup_slot_start, order.pickup_slot_end)}</p>
+                  )}
+                  <p className="mt-1">Matched by {order.matched_by === 'code' ? 'collection code' : 'order number'}</p>
+                </div>
+              </div>
+
+              <div className="border-t border-gray-100 pt-4">
+                <p className="text-sm font-semibold text-[#09215F] mb-2">Check the parcel</p>
+                <ul className="space-y-1">
+                  {order.items.map((item, index) => (
+                    <li key={index} className="flex justify-between text-[#09215F]/80">
+                      <span>{item.name}</span>
+                      <span className="font-semibold">× {item.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {alreadyCollected && (
+                <p className="bg-red-50 border border-red-200 text-red-700 rounded-xl p-3 text-sm">
+                  Already collected on {new Date(order.collected_at as string).toLocaleString('en-ZA', { timeZone: 'Africa/Johannesburg' })}
+                </p>
+              )}
+              {notReady && (
+                <p className="bg-yellow-50 border border-yellow-200 text-yellow-800 rounded-xl p-3 text-sm">
+                  This order is {order.status.replace(/_/g, ' ')} and has not been packed for collection yet.
+                </p>
+              )}
+
+              {!alreadyCollected && !notReady && !matchedCode && (
+                <label className="flex items-start gap-3 bg-yellow-50 border border-yellow-200 rounded-xl p-3 text-sm text-yellow-800">
+                  <ShieldAlert className="h-5 w-5 flex-shrink-0" />
+                  <span className="flex-1">
+                    The customer has no collection code. Check their ID matches the name on the order before handing it over.
+                  </span>
+                  <input
+                    type="checkbox"
+                    checked={idChecked}
+                    onChange={(e) => setIdChecked(e.target.checked)}
+                    className="mt-0.5 h-4 w-4"
+                  />
+                </label>
+              )}
+
+              <div className="flex justify-end gap-3">
+                <button
+                  onClick={reset}
+                  className="px-4 py-2 rounded-xl border border-gray-300 text-[#09215F] hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleCollect}
+                  disabled={busy || !canHandOver}
+                  className="flex items-center gap-2 px-6 py-2 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors disabled:opacity-50"
+                >
+                  <PackageCheck className="h-5 w-5" /> Hand over
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </CashierLayout>
+  );
+}
@@ -25,6 +25,7 @@ import {
 import CashierLayout from '../../components/cashier/CashierLayout';
 import { supabase } from '../../lib/supabase';
 import { getSalesReport } from '../../services/reportsService';
+import { ShiftService, type ShiftReport } from '../../utils/shift-service';
 
 // Custom South African Rand icon component
 const RandIcon = ({ className = "h-8 w-8" }: { className?: string }) => (
@@ -67,11 +68,26 @@ export default function EnhancedCashierDashboard() {
     growthPct: 0
   });
 
+  const [shiftReport, setShiftReport] = useState<ShiftReport | null>(null);
+
   useEffect(() => {
     const timer = setInterval(() => setCurrentTime(new Date()), 1000);
     return () => clearInterval(timer);
   }, []);
 
+  // Recent transactions are the latest sales on the cashier's open shift
+  useEffect(() => {
+    const fetchShift = async () => {
+      const current = await ShiftService.getCurrent();
+      if (!current.success || !current.data) return;
+      const report = await ShiftService.getReport(current.data.id);
+      if (report.success && report.data) {
+        setShiftReport(report.data);
+      }
+    };
+    fetchShift();
+  }, []);
+
   function getSince(period: 'today' | 'week' | 'month'): string {
     const now = new Date();
     const start = new Date(now);
@@ -159,13 +175,14 @@ export default function EnhancedCashierDashboard() {
     fetchStats();
   }, [selectedPeriod]);
 
-  const recentTransactions = [
-    { id: 1, customer: 'Clean Home Restaurant', amount: 'R845.99', time: '2 min ago', items: 8, status: 'completed' },
-    { id: 2, customer: 'Sparkle Office Solutions', amount: 'R1,128.45', time: '5 min ago', items: 12, status: 'completed' },
-    { id: 3, customer: 'Fresh Start Catering', amount: 'R367.20', time: '8 min ago', items: 6, status: 'completed' },
-    { id: 4, customer: 'Pristine Hotel Group', amount: 'R2,234.78', time: '12 min ago', items: 25, status: 'refunded' },
-    { id: 5, customer: 'Bright Future Daycare', amount: 'R289.34', time: '15 min ago', items: 9, status: 'completed' }
-  ];
+  const recentTransactions = (shiftReport?.recent_sales || []).slice(0, 5).map(sale => ({
+    id: sale.id,
+    customer: sale.customer_info?.name || 'Walk-in customer',
+    amount: `R${Number(sale.total).toFixed(2)}`,
+    time: new Date(sale.created_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }),
+    method: sale.payment_method,
+    status: sale.status === 'refunded' ? 'refunded' : 'completed'
+  }));
 
   const topProducts = [
     { name: 'All-Purpose Cleaner 500ml', sold: 24, revenue: 'R383.76', trend: '+15%' },
@@ -426,15 +443,15 @@ export default function EnhancedCashierDashboard() {
               </button>
 
               <button 
-                onClick={() => window.print()}
+                onClick={() => navigate('/cashier/shift')}
                 className="flex items-center p-4 rounded-xl border-2 border-[#97CF50]/20 hover:bg-gradient-to-r hover:from-[#97CF50]/10 hover:to-[#97CF50]/10 transition-all duration-300 group hover:border-[#97CF50]/40 hover:shadow-lg"
               >
                 <div className="p-3 rounded-xl bg-gradient-to-br from-orange-500 to-orange-600 text-white mr-4 group-hover:shadow-lg group-hover:scale-110 transition-all duration-300">
                   <Receipt className="h-6 w-6" />
                 </div>
                 <div className="text-left">
-                  <p className="font-bold text-[#09215F] group-hover:text-[#97CF50] transition-colors">Print End-of-Day Report</p>
-                  <p className="text-sm text-[#09215F]/80">Generate shift summary</p>
+                  <p className="font-bold text-[#09215F] group-hover:text-[#97CF50] transition-colors">Cash Up My Shift</p>
+                  <p className="text-sm text-[#09215F]/80">Count the drawer and print the X or Z report</p>
                 </div>
               </button>
             </div>
@@ -447,6 +464,11 @@ export default function EnhancedCashierDashboard() {
               Recent Transactions
             </h2>
             <div className="space-y-3">
+              {recentTransactions.length === 0 && (
+                <p className="text-center py-8 text-[#09215F]/60">
+                  {shiftReport ? 'No sales on this shift yet' : 'Open a shift to start taking sales'}
+                </p>
+              )}
               {recentTransactions.map((transaction) => (
                 <div key={transaction.id} className="flex items-center justify-between p-4 bg-gradient-to-r from-[#97CF50]/10 to-transparent rounded-xl border border-[#97CF50]/20 hover:from-[#97CF50]/20 hover:border-[#97CF50]/30 transition-all duration-300">
                   <div className="flex items-center space-x-3">
@@ -455,7 +477,7 @@ export default function EnhancedCashierDashboard() {
                     </div>
                     <div>
                       <p className="font-semibold text-[#09215F]">{transaction.customer}</p>
-                      <p className="text-sm text-[#09215F]/80">{transaction.items} items • {transaction.time}</p>
+                      <p className="text-sm text-[#09215F]/80">{transaction.method} • {transaction.time}</p>
                     </div>
                   </div>
                   <div className="text-right">
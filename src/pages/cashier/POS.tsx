@@ -1,4 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
 import {
   Scan,
   ShoppingCart,
@@ -18,13 +19,36 @@ import {
   Printer,
   Mail,
   X,
-  Delete
+  Delete,
+  PauseCircle,
+  PlayCircle,
+  RotateCcw,
+  CloudOff,
+  RefreshCw,
+  Percent,
+  Pencil,
+  Lock
 } from 'lucide-react';
 import { supabase } from '../../lib/supabase';
 import { BrowserMultiFormatReader, type Result } from '@zxing/browser';
 import CashierLayout from '../../components/cashier/CashierLayout';
+import ParkedSalesModal from '../../components/cashier/ParkedSalesModal';
+import ReturnsModal from '../../components/cashier/ReturnsModal';
+import ManagerOverrideModal from '../../components/cashier/ManagerOverrideModal';
 import { useAuth } from '../../contexts/AuthContext';
 import { OrderService, type OrderData } from '../../utils/order-service';
+import { PricingService, type PricingQuote } from '../../utils/pricing-service';
+import { LoyaltyService, MIN_REDEMPTION_POINTS, type LoyaltyMember } from '../../utils/loyalty-service';
+import { VariantService } from '../../utils/variant-service';
+import { ShiftService, type Shift } from '../../utils/shift-service';
+import { TenderService, type GiftCard, type Tender, type TenderMethod } from '../../utils/tender-service';
+import { ParkedSaleService, POS_LOCATION, type ParkedSale } from '../../utils/parked-sale-service';
+import { ReceiptService, type ReceiptModel } from '../../utils/receipt-service';
+import { renderReceiptHtml } from '../../utils/receipt-renderer';
+import { OfflineSaleService, OFFLINE_TENDER_METHODS, type OfflineSale } from '../../utils/offline-sale-service';
+import { useOfflineStatus } from '../../utils/offline-manager';
+import { OverrideService, type Override, type OverrideRequest } from '../../utils/override-service';
+import { getPosPermissions } from '../../utils/roleRouting';
 import { toast } from 'sonner';
 
 // Custom South African Rand icon component
@@ -59,6 +83,15 @@ type CartItem = {
   barcode: string;
   quantity: number;
   sku?: string;
+  // Set when a manager authorised a different price for this line
+  price_override_id?: string;
+};
+
+// An override waiting for a manager's PIN, and what to do once approved
+type PendingOverride = {
+  title: string;
+  request: OverrideRequest;
+  onApproved: (override: Override) => void;
 };
 
 type OnScreenKeyboardProps = {
@@ -67,7 +100,7 @@ type OnScreenKeyboardProps = {
   target: 'barcode' | 'customer' | 'payment';
 };
 
-type Customer = { name: string; email: string; points: number } | null;
+type Customer = LoyaltyMember | null;
 
 export default function EnhancedPOS() {
   const { userProfile } = useAuth();
@@ -75,29 +108,133 @@ export default function EnhancedPOS() {
   const [customer, setCustomer] = useState<Customer>(null);
   const [barcodeInput, setBarcodeInput] = useState<string>('');
   const [customerSearch, setCustomerSearch] = useState<string>('');
+  const [customerMatches, setCustomerMatches] = useState<LoyaltyMember[]>([]);
+  const [redeemPoints, setRedeemPoints] = useState<number>(0);
+  const [redeemInput, setRedeemInput] = useState<string>('');
   const [showKeyboard, setShowKeyboard] = useState<boolean>(false);
   const [keyboardTarget, setKeyboardTarget] = useState<'barcode' | 'customer' | 'payment'>('barcode');
   const [discountPercent, setDiscountPercent] = useState<number>(0);
   const [showDiscountModal, setShowDiscountModal] = useState<boolean>(false);
+  const [discountInput, setDiscountInput] = useState<string>('');
+  // Discounts above the cashier's limit, price overrides and voids need a manager
+  const posPermissions = getPosPermissions(userProfile?.role);
+  const [overrideIds, setOverrideIds] = useState<string[]>([]);
+  const [pendingOverride, setPendingOverride] = useState<PendingOverride | null>(null);
+  const [priceEditItem, setPriceEditItem] = useState<CartItem | null>(null);
+  const [priceInput, setPriceInput] = useState<string>('');
   const [showPaymentModal, setShowPaymentModal] = useState<boolean>(false);
   const [paymentAmount, setPaymentAmount] = useState<string>('');
   const [activeInput, setActiveInput] = useState<string>('');
   const [productsByBarcode, setProductsByBarcode] = useState<Record<string, any>>({});
   const [productsLoading, setProductsLoading] = useState<boolean>(false);
   const [productsError, setProductsError] = useState<string>('');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card'>('cash');
+  const [tenderMethod, setTenderMethod] = useState<Exclude<TenderMethod, 'loyalty'>>('cash');
+  const [tenderReference, setTenderReference] = useState<string>('');
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  const [isAddingTender, setIsAddingTender] = useState(false);
   const [showReceipt, setShowReceipt] = useState(false);
   const [changeDue, setChangeDue] = useState(0);
   const [transactionId, setTransactionId] = useState('');
   const [transactionDate, setTransactionDate] = useState<Date | null>(null);
   const [isProcessingPayment, setIsProcessingPayment] = useState(false);
   const [orderRecord, setOrderRecord] = useState<any>(null);
+  // Receipt built by the server from the recorded sale, for thermal printing
+  const [receipt, setReceipt] = useState<ReceiptModel | null>(null);
+  const [printerConnected, setPrinterConnected] = useState(ReceiptService.hasThermalPrinter());
+  const [priced, setPriced] = useState<{ key: string; quote: PricingQuote; token: string } | null>(null);
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [shiftLoaded, setShiftLoaded] = useState<boolean>(false);
+  const [showParkModal, setShowParkModal] = useState<boolean>(false);
+  const [parkLabel, setParkLabel] = useState<string>('');
+  const [isParking, setIsParking] = useState(false);
+  const [showParkedSales, setShowParkedSales] = useState<boolean>(false);
+  const [parkedCount, setParkedCount] = useState<number>(0);
+  const [showReturns, setShowReturns] = useState<boolean>(false);
+  // Store credit from an exchange, taken off the new basket at payment
+  const [exchangeCredit, setExchangeCredit] = useState<GiftCard | null>(null);
+  // The till sells from its cached catalogue and queues sales while offline
+  const { isOnline } = useOfflineStatus();
+  const [serverUnreachable, setServerUnreachable] = useState(false);
+  const [catalogueCachedAt, setCatalogueCachedAt] = useState<string | null>(null);
+  const [pendingSync, setPendingSync] = useState(0);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const offline = !isOnline || serverUnreachable;
   const receiptRef = useRef<HTMLDivElement | null>(null);
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const codeReaderRef = useRef<BrowserMultiFormatReader | null>(null);
   const [scanning, setScanning] = useState<boolean>(false);
   const lastScanRef = useRef<{ code: string; at: number } | null>(null);
 
+  // Every sale is taken on the cashier's open shift
+  useEffect(() => {
+    ShiftService.getCurrent().then(async result => {
+      if (result.status === undefined) {
+        // No connection: carry on with the shift this till last had open
+        setShift(await OfflineSaleService.loadShift());
+      } else {
+        setShift(result.data || null);
+        if (result.success) OfflineSaleService.cacheShift(result.data || null);
+      }
+      setShiftLoaded(true);
+    });
+  }, []);
+
+  useEffect(() => OfflineSaleService.subscribe(setPendingSync), []);
+
+  useEffect(() => {
+    if (isOnline) setServerUnreachable(false);
+  }, [isOnline]);
+
+  // The browser can think it is online while the store's connection is down; keep checking
+  useEffect(() => {
+    if (!isOnline || !serverUnreachable) return;
+    const timer = setInterval(async () => {
+      if (await OfflineSaleService.isServerReachable()) setServerUnreachable(false);
+    }, 30000);
+    return () => clearInterval(timer);
+  }, [isOnline, serverUnreachable]);
+
+  const syncOfflineSales = async () => {
+    setIsSyncing(true);
+    const summary = await OfflineSaleService.sync();
+    setIsSyncing(false);
+
+    if (summary.remaining > 0 && !(await OfflineSaleService.isServerReachable())) {
+      setServerUnreachable(true);
+    }
+
+    if (summary.synced > 0) {
+      toast.success('Offline Sales Sent', {
+        description: `${summary.synced} sale${summary.synced === 1 ? '' : 's'} taken offline ${summary.synced === 1 ? 'is' : 'are'} now recorded`,
+        duration: 4000,
+      });
+    }
+    if (summary.held > 0) {
+      toast.warning('Offline Sales Need Review', {
+        description: `${summary.held} sale${summary.held === 1 ? ' no longer matches' : 's no longer match'} the catalogue or stock. A manager can accept or void ${summary.held === 1 ? 'it' : 'them'} under Offline Sales.`,
+        duration: 8000,
+      });
+    }
+  };
+
+  useEffect(() => {
+    if (!offline && pendingSync > 0) {
+      syncOfflineSales();
+    }
+  }, [offline, pendingSync > 0]);
+
+  // Baskets parked on any till at this store
+  const refreshParkedCount = async () => {
+    const result = await ParkedSaleService.list();
+    if (result.success) {
+      setParkedCount(result.data?.length || 0);
+    }
+  };
+
+  useEffect(() => {
+    refreshParkedCount();
+  }, []);
+
   // Fetch products like the customer pages (active products)
   useEffect(() => {
     const fetchProducts = async () => {
@@ -115,9 +252,27 @@ export default function EnhancedPOS() {
 
         if (error) throw error;
 
+        // Products sold in variants are scanned by the variant's own barcode
+        const variantsByProduct = await VariantService.getVariantsForProducts(
+          (data || []).filter((p: any) => p.has_variants).map((p: any) => p.id)
+        );
+
         const map: Record<string, any> = {};
         (data || []).forEach((p: any) => {
-          if (p.barcode) {
+          const variants = variantsByProduct[p.id] || [];
+          variants.forEach(variant => {
+            if (!variant.barcode) return;
+            map[variant.barcode] = {
+              id: p.id,
+              variant_id: variant.id,
+              name: `${p.name} (${variant.name})`,
+              price: VariantService.priceOf(variant, p.price),
+              category: p.category?.name || 'General',
+              sku: variant.sku,
+              barcode: variant.barcode,
+            };
+          });
+          if (p.barcode && variants.length === 0) {
             map[p.barcode] = {
               id: p.id,
               name: p.name,
@@ -129,9 +284,17 @@ export default function EnhancedPOS() {
           }
         });
         setProductsByBarcode(map);
+        setCatalogueCachedAt(null);
+        OfflineSaleService.cacheCatalogue(map);
       } catch (err: any) {
         console.error('Failed to load products for POS:', err);
-        setProductsError(err?.message || 'Failed to load products');
+        const cached = await OfflineSaleService.loadCatalogue();
+        if (cached) {
+          setProductsByBarcode(cached.value);
+          setCatalogueCachedAt(cached.cached_at);
+        } else {
+          setProductsError(err?.message || 'Failed to load products');
+        }
       } finally {
         setProductsLoading(false);
       }
@@ -209,13 +372,6 @@ export default function EnhancedPOS() {
     };
   }, [scanning]);
 
-  // Sample customers database
-  const customers: Record<string, { name: string; email: string; points: number }> = {
-    '0821234567': { name: 'John Smith', email: 'john@email.com', points: 150 },
-    '0739876543': { name: 'Sarah Johnson', email: 'sarah@email.com', points: 220 },
-    'customer@demo.com': { name: 'Demo Customer', email: 'customer@demo.com', points: 500 }
-  };
-
   const handleBarcodeInput = (value: string) => {
     const product = productsByBarcode[value];
     if (product) {
@@ -250,20 +406,123 @@ export default function EnhancedPOS() {
     }
   };
 
-  const handleCustomerSearch = (query: string) => {
-    const foundCustomer = customers[query];
-    if (foundCustomer) {
-      setCustomer(foundCustomer);
-      setCustomerSearch('');
-      toast.success('Customer Selected', {
-        description: `${foundCustomer.name} (${foundCustomer.email})`,
-        duration: 3000,
+  const selectCustomer = (member: LoyaltyMember) => {
+    setCustomer(member);
+    setCustomerMatches([]);
+    setCustomerSearch('');
+    setRedeemPoints(0);
+    setRedeemInput('');
+    toast.success('Customer Selected', {
+      description: `${member.name} (${member.email})`,
+      duration: 3000,
+    });
+  };
+
+  const handleCustomerSearch = async (query: string) => {
+    if (query.trim().length < 3) {
+      toast.error('Enter at least 3 characters to search');
+      return;
+    }
+
+    const result = await LoyaltyService.searchMembers(query.trim());
+    if (!result.success) {
+      toast.error('Customer Lookup Failed', {
+        description: result.error || 'Could not search customers',
+        duration: 5000,
       });
+      return;
+    }
+
+    const members = result.data || [];
+    if (members.length === 0) {
+      setCustomerMatches([]);
+      toast.error('No loyalty member found', { description: query });
+    } else if (members.length === 1) {
+      selectCustomer(members[0]);
+    } else {
+      setCustomerMatches(members);
+    }
+  };
+
+  const handleRedeemPoints = () => {
+    const points = parseInt(redeemInput, 10) || 0;
+    if (!customer) return;
+    if (points < MIN_REDEMPTION_POINTS) {
+      toast.error(`At least ${MIN_REDEMPTION_POINTS} points are needed to redeem`);
+      return;
+    }
+    if (points > customer.points) {
+      toast.error(`${customer.name} only has ${customer.points} points`);
+      return;
     }
+    setRedeemPoints(points);
+  };
+
+  const handleParkSale = async () => {
+    if (isParking || cartItems.length === 0) return;
+    setIsParking(true);
+    const result = await ParkedSaleService.park({
+      label: parkLabel.trim() || customer?.name || `Sale parked at ${new Date().toLocaleTimeString()}`,
+      items: cartItems,
+      customer,
+      discountPercent,
+      redeemPoints,
+    });
+    setIsParking(false);
+
+    if (!result.success || !result.data) {
+      toast.error('Could Not Park Sale', {
+        description: result.error || 'The basket was not parked. Please try again.',
+        duration: 5000,
+      });
+      return;
+    }
+
+    toast.success('Sale Parked', {
+      description: `"${result.data.label}" can be recalled from any till until the end of the day`,
+      duration: 4000,
+    });
+    setCartItems([]);
+    setCustomer(null);
+    setRedeemPoints(0);
+    setRedeemInput('');
+    setDiscountPercent(0);
+    setOverrideIds([]);
+    setParkLabel('');
+    setShowParkModal(false);
+    setParkedCount(count => count + 1);
+  };
+
+  const handleRecallSale = (sale: ParkedSale) => {
+    // Approvals belong to the sale as it was rung up; recalled baskets go back
+    // to shelf prices and the cashier's own discount limit
+    const parkedDiscount = Number(sale.discount_percent) || 0;
+    const items = sale.items.map(({ price_override_id, ...item }: CartItem) => ({
+      ...item,
+      price: price_override_id ? Number(productsByBarcode[item.barcode]?.price ?? item.price) : item.price,
+    }));
+    if (items.some((item, index) => item.price !== sale.items[index].price) || parkedDiscount > posPermissions.maxDiscountPercent) {
+      toast.info('Approvals Not Carried Over', {
+        description: 'Price overrides and discounts above your limit need a manager to approve them again',
+        duration: 6000,
+      });
+    }
+    setCartItems(items);
+    setOverrideIds([]);
+    setCustomer(sale.customer);
+    setDiscountPercent(Math.min(parkedDiscount, posPermissions.maxDiscountPercent));
+    setRedeemPoints(sale.redeem_points || 0);
+    setRedeemInput(sale.redeem_points ? String(sale.redeem_points) : '');
+    setShowParkedSales(false);
+    refreshParkedCount();
+    toast.success('Sale Recalled', {
+      description: `"${sale.label}" is back on the till`,
+      duration: 3000,
+    });
   };
 
   const updateQuantity = (id: number, change: number) => {
-    const updated = cartItems
+    setCartItems(items => items
       .map((item) => {
         if (item.id === id) {
           const newQuantity = item.quantity + change;
@@ -271,60 +530,492 @@ export default function EnhancedPOS() {
         }
         return item;
       })
-      .filter((i): i is CartItem => i !== null);
-    setCartItems(updated);
+      .filter((i): i is CartItem => i !== null));
   };
 
   const removeItem = (id: number) => {
-    setCartItems(cartItems.filter(item => item.id !== id));
+    setCartItems(items => items.filter(item => item.id !== id));
+  };
+
+  // Log an override, asking for a manager's PIN first when the cashier's role
+  // does not allow it. Overrides are checked by the server, so they need a connection.
+  const authorise = async (
+    title: string,
+    request: OverrideRequest,
+    allowed: boolean,
+    onApproved: (override: Override) => void
+  ) => {
+    if (offline) {
+      toast.error('Needs a Connection', {
+        description: `${title} has to be authorised and logged on the server. Try again when the till is back online.`,
+        duration: 6000,
+      });
+      return;
+    }
+    const full: OverrideRequest = { ...request, shift_id: shift?.id || null, store_location: POS_LOCATION };
+    if (!allowed) {
+      setPendingOverride({ title, request: full, onApproved });
+      return;
+    }
+    const result = await OverrideService.request(full);
+    if (!result.success || !result.data) {
+      toast.error('Override Not Recorded', { description: result.error || 'Please try again', duration: 5000 });
+      return;
+    }
+    onApproved(result.data);
+  };
+
+  // Taking scanned items off the sale is a void
+  const voidItem = (item: CartItem, quantity: number) => {
+    const product = productsByBarcode[item.barcode];
+    authorise(
+      `Void ${quantity} × ${item.name}`,
+      {
+        action: 'void',
+        details: {
+          product_id: product?.id || null,
+          variant_id: product?.variant_id || null,
+          name: item.name,
+          quantity,
+          amount: item.price * quantity,
+        },
+      },
+      posPermissions.canVoid,
+      () => quantity >= item.quantity ? removeItem(item.id) : updateQuantity(item.id, -quantity)
+    );
+  };
+
+  const openDiscount = () => {
+    setDiscountInput(discountPercent > 0 ? String(discountPercent) : '');
+    setShowDiscountModal(true);
+  };
+
+  const applyDiscount = () => {
+    const percent = Math.round(Number(discountInput || '0') * 100) / 100;
+    if (isNaN(percent) || percent < 0 || percent > 100) {
+      toast.error('Enter a discount between 0 and 100%');
+      return;
+    }
+    const apply = (override?: Override) => {
+      setDiscountPercent(percent);
+      if (override) setOverrideIds(ids => [...ids, override.id]);
+      setShowDiscountModal(false);
+    };
+    // Offline the till can only give what the cashier may give themselves; the server checks it on sync
+    if (percent === 0 || (offline && percent <= posPermissions.maxDiscountPercent)) {
+      apply();
+      return;
+    }
+    authorise(
+      `${percent}% discount on R${subtotal.toFixed(2)}`,
+      { action: 'discount', details: { percent, subtotal } },
+      percent <= posPermissions.maxDiscountPercent,
+      apply
+    );
+  };
+
+  const openPriceOverride = (item: CartItem) => {
+    setPriceEditItem(item);
+    setPriceInput(item.price.toFixed(2));
+  };
+
+  const applyPriceOverride = () => {
+    const item = priceEditItem;
+    const newPrice = Math.round(Number(priceInput) * 100) / 100;
+    if (!item) return;
+    const product = productsByBarcode[item.barcode];
+    if (!product?.id || isNaN(newPrice) || newPrice < 0) {
+      toast.error('Enter a valid price');
+      return;
+    }
+    authorise(
+      `${item.name}: R${item.price.toFixed(2)} → R${newPrice.toFixed(2)}`,
+      {
+        action: 'price_override',
+        details: {
+          product_id: product.id,
+          variant_id: product.variant_id || null,
+          name: item.name,
+          original_price: Number(product.price ?? item.price),
+          new_price: newPrice,
+        },
+      },
+      posPermissions.canOverridePrice,
+      override => {
+        setCartItems(items => items.map(cartItem =>
+          cartItem.id === item.id ? { ...cartItem, price: newPrice, price_override_id: override.id } : cartItem
+        ));
+        setOverrideIds(ids => [...ids, override.id]);
+        setPriceEditItem(null);
+      }
+    );
+  };
+
+  // Open the cash drawer without a sale, e.g. to give change for the float
+  const handleNoSale = () => {
+    authorise('Open the cash drawer (no sale)', { action: 'no_sale' }, posPermissions.canOpenDrawer, async () => {
+      if (await ReceiptService.openCashDrawer()) {
+        toast.success('Cash drawer opened');
+      } else {
+        toast.info('No Sale Logged', {
+          description: 'No receipt printer is connected to kick the drawer; open it with the key',
+          duration: 5000,
+        });
+      }
+    });
   };
 
-  const subtotal = cartItems.reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0);
-  const discountAmount = subtotal * (discountPercent / 100);
-  const total = subtotal - discountAmount;
+  // Sale totals come from the server quote (promotions + cashier discount); the
+  // local sum is only shown while a quote for the current basket is loading
+  const quoteItems = cartItems
+    .map(item => ({
+      product_id: productsByBarcode[item.barcode]?.id,
+      variant_id: productsByBarcode[item.barcode]?.variant_id,
+      quantity: item.quantity,
+    }))
+    .filter((item): item is { product_id: string; variant_id: string | undefined; quantity: number } => !!item.product_id);
+  const quoteKey = quoteItems.map(item => `${item.product_id}:${item.variant_id || ''}:${item.quantity}`).join(',') + `|${discountPercent}|${overrideIds.join(',')}|${customer?.id || ''}:${redeemPoints}`;
+  const quote = priced?.key === quoteKey ? priced.quote : null;
+
+  const refreshQuote = async () => {
+    if (quoteItems.length === 0 || offline) {
+      setPriced(null);
+      return null;
+    }
+    const result = await PricingService.getQuote({
+      items: quoteItems,
+      channel: 'pos',
+      manualDiscountPercent: discountPercent,
+      overrideIds,
+      loyaltyCustomerId: customer?.id || null,
+      loyaltyPoints: customer ? redeemPoints : 0,
+    });
+    if (result.status === undefined) {
+      setServerUnreachable(true);
+      toast.warning('Connection Lost', {
+        description: 'The till is now selling offline at shelf prices. Sales are sent to the server when the connection is back.',
+        duration: 7000,
+      });
+      return null;
+    }
+    if (!result.success || !result.data) {
+      toast.error('Pricing Failed', {
+        description: result.error || 'Could not price this sale',
+        duration: 5000,
+      });
+      return null;
+    }
+    const next = { key: quoteKey, quote: result.data.quote, token: result.data.token };
+    setPriced(next);
+    return next;
+  };
+
+  useEffect(() => {
+    refreshQuote();
+  }, [quoteKey, offline]);
+
+  // Offline sales are charged at these shelf-price totals; the server checks them when they sync
+  const localSubtotal = Math.round(cartItems.reduce((sum: number, item: CartItem) => sum + (item.price * item.quantity), 0) * 100) / 100;
+  const subtotal = quote ? quote.subtotal : localSubtotal;
+  const discountAmount = quote ? quote.discount_amount : Math.round(localSubtotal * discountPercent) / 100;
+  const loyaltyDiscount = quote ? quote.loyalty_discount : 0;
+  const total = quote ? quote.total : subtotal - discountAmount;
+
+  const balanceDue = TenderService.balanceDue(total, tenders);
+
+  const openPayment = (method: Exclude<TenderMethod, 'loyalty'>) => {
+    const credit = exchangeCredit && total > 0 && !offline
+      ? [TenderService.createTender('voucher', Math.min(Number(exchangeCredit.balance), total), total, exchangeCredit.code)]
+      : [];
+    const due = TenderService.balanceDue(total, credit);
+    setTenders(credit);
+    setTenderMethod(method);
+    setTenderReference('');
+    setPaymentAmount(method === 'cash' || due <= 0 ? '' : due.toFixed(2));
+    setShowPaymentModal(true);
+  };
+
+  const closePayment = () => {
+    setShowPaymentModal(false);
+    setTenders([]);
+    setPaymentAmount('');
+    setTenderReference('');
+  };
+
+  const selectTenderMethod = (method: Exclude<TenderMethod, 'loyalty'>) => {
+    setTenderMethod(method);
+    setTenderReference('');
+    setPaymentAmount(method === 'cash' ? '' : balanceDue.toFixed(2));
+  };
+
+  // Check the tender being keyed in and turn it into a tender against the
+  // balance still due. Gift cards are looked up but only charged on confirm.
+  const takePendingTender = async (taken: Tender[], saleTotal: number): Promise<Tender | null> => {
+    const due = TenderService.balanceDue(saleTotal, taken);
+    const amount = Number(paymentAmount || '0');
+    const reference = tenderReference.trim();
+    const label = TenderService.getLabel(tenderMethod);
+
+    if (due <= 0) {
+      toast.error('Nothing Left to Pay', { description: 'The sale is already fully paid', duration: 5000 });
+      return null;
+    }
+    if (isNaN(amount) || amount <= 0) {
+      toast.error(`Invalid ${label} Amount`, { description: `Please enter a valid amount for the ${label.toLowerCase()} payment`, duration: 5000 });
+      return null;
+    }
+    if (tenderMethod !== 'cash' && amount > due) {
+      toast.error(`${label} Amount Too High`, {
+        description: `${label} (R${amount.toFixed(2)}) cannot be more than the balance due (R${due.toFixed(2)}). Only cash gives change.`,
+        duration: 7000,
+      });
+      return null;
+    }
+    if ((tenderMethod === 'voucher' || tenderMethod === 'eft') && !reference) {
+      toast.error(tenderMethod === 'voucher' ? 'Gift Card Code Required' : 'EFT Reference Required', {
+        description: tenderMethod === 'voucher' ? 'Scan or type the code on the gift card' : 'Enter the bank reference of the transfer',
+        duration: 5000,
+      });
+      return null;
+    }
+
+    if (tenderMethod === 'voucher') {
+      if (taken.some(tender => tender.method === 'voucher' && tender.reference?.toUpperCase() === reference.toUpperCase())) {
+        toast.error('Gift Card Already Used', { description: 'This gift card is already on the sale', duration: 5000 });
+        return null;
+      }
+      const card = await TenderService.lookupGiftCard(reference);
+      if (!card.success || !card.data) {
+        toast.error('Gift Card Not Accepted', { description: card.error || 'The gift card could not be found', duration: 7000 });
+        return null;
+      }
+      if (Number(card.data.balance) < amount) {
+        toast.error('Insufficient Gift Card Balance', {
+          description: `${card.data.code} only has R${Number(card.data.balance).toFixed(2)} left`,
+          duration: 7000,
+        });
+        return null;
+      }
+      return TenderService.createTender('voucher', amount, due, card.data.code);
+    }
+
+    return TenderService.createTender(tenderMethod, amount, due, reference);
+  };
+
+  const handleAddTender = async () => {
+    if (isAddingTender) return;
+    setIsAddingTender(true);
+    try {
+      const tender = await takePendingTender(tenders, total);
+      if (!tender) return;
+      const taken = [...tenders, tender];
+      setTenders(taken);
+      setTenderReference('');
+      const remaining = TenderService.balanceDue(total, taken);
+      setPaymentAmount(remaining > 0 && tenderMethod !== 'cash' ? remaining.toFixed(2) : '');
+    } finally {
+      setIsAddingTender(false);
+    }
+  };
+
+  // Without a connection the sale is charged at the local total and kept on
+  // the till until it can be sent; only tenders needing no lookup are taken
+  const queueOfflineSale = async (saleShift: Shift) => {
+    if (redeemPoints > 0) {
+      toast.error('Points Need a Connection', {
+        description: 'Remove the points redemption to finish this sale offline',
+        duration: 5000,
+      });
+      return;
+    }
+
+    let taken = tenders;
+    if (paymentAmount && Number(paymentAmount) > 0 && TenderService.balanceDue(total, taken) > 0) {
+      const pending = await takePendingTender(taken, total);
+      if (!pending) return;
+      taken = [...taken, pending];
+    }
+
+    if (taken.some(tender => !(OFFLINE_TENDER_METHODS as readonly string[]).includes(tender.method))) {
+      setTenders(taken.filter(tender => (OFFLINE_TENDER_METHODS as readonly string[]).includes(tender.method)));
+      toast.error('Gift Cards Need a Connection', {
+        description: 'Take cash, card or EFT while the till is offline',
+        duration: 7000,
+      });
+      return;
+    }
+
+    const paid = taken.reduce((sum, tender) => sum + tender.amount, 0);
+    if (Math.abs(paid - total) >= 0.005) {
+      setTenders(paid > total ? [] : taken);
+      toast.error(paid > total ? 'Total Changed' : 'Balance Due', {
+        description: paid > total
+          ? `The total is now R${total.toFixed(2)}. Please take payment again.`
+          : `R${(total - paid).toFixed(2)} still to pay. Add another tender.`,
+        duration: 7000,
+      });
+      return;
+    }
+
+    const unknown = cartItems.find(item => !productsByBarcode[item.barcode]?.id);
+    if (unknown) {
+      toast.error('Item Not in Offline Catalogue', {
+        description: `Remove ${unknown.name}; this till cannot sell it until the connection is back`,
+        duration: 7000,
+      });
+      return;
+    }
+
+    const cashierName = `${userProfile?.first_name || 'Cashier'} ${userProfile?.last_name || 'User'}`;
+    const sale: OfflineSale = {
+      id: crypto.randomUUID(),
+      sold_at: new Date().toISOString(),
+      shift_id: saleShift.id,
+      store_location: POS_LOCATION,
+      till_id: OfflineSaleService.getTillId(),
+      cashier_name: cashierName,
+      items: cartItems.map(item => {
+        const product = productsByBarcode[item.barcode];
+        return {
+          product_id: product.id,
+          variant_id: product.variant_id || null,
+          name: item.name,
+          sku: item.sku || null,
+          barcode: item.barcode,
+          category: item.category,
+          quantity: item.quantity,
+          unit_price: item.price,
+        };
+      }),
+      discount_percent: discountPercent,
+      subtotal,
+      discount_amount: discountAmount,
+      total,
+      payment_method: TenderService.paymentMethodFor(taken),
+      tenders: taken,
+    };
+
+    try {
+      await OfflineSaleService.queue(sale);
+    } catch (error) {
+      console.error('❌ Failed to save offline sale:', error);
+      setTenders(taken);
+      toast.error('Sale Not Saved', {
+        description: 'This device could not store the sale. Do not hand over the goods; try again.',
+        duration: 10000,
+      });
+      return;
+    }
+
+    setTenders(taken);
+    setTransactionId(sale.id);
+    setTransactionDate(new Date(sale.sold_at));
+    setChangeDue(Number(taken.reduce((sum, tender) => sum + (tender.change || 0), 0).toFixed(2)));
+    setOrderRecord({ id: sale.id, order_number: sale.id, offline: true });
+
+    toast.success('Sale Saved Offline', {
+      description: `R${total.toFixed(2)} is kept on this till and sent to the server when the connection is back`,
+      duration: 5000,
+    });
+    setShowPaymentModal(false);
+    setShowReceipt(true);
+  };
 
   const handleConfirmPayment = async () => {
     if (isProcessingPayment) return;
+    if (!shift) {
+      toast.error('No Shift Open', {
+        description: 'Open a shift with your float before taking payment',
+        duration: 5000,
+      });
+      return;
+    }
     
     setIsProcessingPayment(true);
+
+    if (offline) {
+      try {
+        await queueOfflineSale(shift);
+      } finally {
+        setIsProcessingPayment(false);
+      }
+      return;
+    }
     
     try {
-      const amountNumber = Number(paymentAmount || '0');
-      const safeAmount = isNaN(amountNumber) ? 0 : amountNumber;
-      
-      // Validate payment amount
-      if (paymentMethod === 'cash') {
-        if (safeAmount < total) {
-          toast.error('Insufficient Cash', {
-            description: `Cash tendered (R${safeAmount.toFixed(2)}) is less than total (R${total.toFixed(2)}). Shortfall: R${(total - safeAmount).toFixed(2)}`,
-            duration: 7000,
-          });
+      // Charge what the server priced, fetching a fresh quote if the basket changed or it is expiring
+      const current = priced?.key === quoteKey && !PricingService.isStale(priced.quote) ? priced : await refreshQuote();
+      if (!current) {
+        setIsProcessingPayment(false);
+        return;
+      }
+      const saleTotal = current.quote.total;
+
+      // The tender still in the amount field counts, so a single-tender sale needs no "Add"
+      let taken = tenders;
+      if (paymentAmount && Number(paymentAmount) > 0 && TenderService.balanceDue(saleTotal, taken) > 0) {
+        const pending = await takePendingTender(taken, saleTotal);
+        if (!pending) {
           setIsProcessingPayment(false);
           return;
         }
-      } else if (paymentMethod === 'card') {
-        if (safeAmount <= 0) {
-          toast.error('Invalid Card Amount', {
-            description: 'Please enter a valid amount for card payment',
-            duration: 5000,
+        taken = [...taken, pending];
+      }
+
+      const paid = taken.reduce((sum, tender) => sum + tender.amount, 0);
+      if (Math.abs(paid - saleTotal) >= 0.005) {
+        if (paid > saleTotal) {
+          // The total dropped after tendering (e.g. the basket was re-priced); start the tenders again
+          setTenders([]);
+          toast.error('Total Changed', {
+            description: `The total is now R${saleTotal.toFixed(2)}. Please take payment again.`,
+            duration: 7000,
           });
-          setIsProcessingPayment(false);
-          return;
-        }
-        if (safeAmount !== total) {
-          toast.error('Card Amount Mismatch', {
-            description: `Card amount (R${safeAmount.toFixed(2)}) must equal total (R${total.toFixed(2)})`,
-            duration: 5000,
+        } else {
+          setTenders(taken);
+          toast.error('Balance Due', {
+            description: `R${(saleTotal - paid).toFixed(2)} still to pay. Add another tender.`,
+            duration: 7000,
           });
-          setIsProcessingPayment(false);
-          return;
         }
+        setIsProcessingPayment(false);
+        return;
       }
-      
-      const computedChange = paymentMethod === 'cash' ? Math.max(safeAmount - total, 0) : 0;
+
+      const paymentTenders = [...taken];
+      if (current.quote.loyalty_discount > 0) {
+        paymentTenders.push({
+          method: 'loyalty',
+          amount: current.quote.loyalty_discount,
+          reference: `${current.quote.loyalty_points_used} points`,
+        });
+      }
+      const paymentMethod = TenderService.paymentMethodFor(taken);
+      const cashTendered = taken.reduce((sum, tender) => sum + (tender.tendered ?? tender.amount), 0);
+      const computedChange = taken.reduce((sum, tender) => sum + (tender.change || 0), 0);
       
       // Generate transaction ID
       const txId = `POS-${Date.now()}`;
+
+      // Charge gift cards before recording the sale; they are put back if it fails
+      const vouchers = taken.filter(tender => tender.method === 'voucher');
+      if (vouchers.length > 0) {
+        const redeemed = await TenderService.redeemGiftCards(
+          txId,
+          vouchers.map(tender => ({ code: tender.reference || '', amount: tender.amount }))
+        );
+        if (!redeemed.success) {
+          setTenders(taken.filter(tender => tender.method !== 'voucher'));
+          toast.error('Gift Card Declined', {
+            description: redeemed.error || 'The gift card could not be charged. Take another tender.',
+            duration: 7000,
+          });
+          setIsProcessingPayment(false);
+          return;
+        }
+      }
+
+      setTenders(paymentTenders);
       setTransactionId(txId);
       setTransactionDate(new Date());
       setChangeDue(Number(computedChange.toFixed(2)));
@@ -336,7 +1027,7 @@ export default function EnhancedPOS() {
         customer_info: customer ? {
           name: customer.name,
           email: customer.email,
-          phone: null
+          phone: customer.phone
         } : {
           name: `${userProfile?.first_name || 'Cashier'} ${userProfile?.last_name || 'User'}`,
           email: userProfile?.email || 'pos@bestbrightness.com',
@@ -345,35 +1036,45 @@ export default function EnhancedPOS() {
         billing_address: null,
         shipping_address: null,
         payment_method: paymentMethod,
+        shift_id: shift.id,
         payment_details: {
-          amount_tendered: safeAmount,
-          change_given: computedChange,
+          amount_tendered: Number(cashTendered.toFixed(2)),
+          change_given: Number(computedChange.toFixed(2)),
+          tenders: paymentTenders,
           transaction_id: txId,
           cashier_id: userProfile?.id,
           cashier_name: `${userProfile?.first_name || 'Cashier'} ${userProfile?.last_name || 'User'}`,
-          pos_location: 'Store POS'
+          pos_location: POS_LOCATION
         },
-        subtotal: subtotal,
+        subtotal: current.quote.subtotal,
         tax_amount: 0, // No tax for POS sales
         shipping_amount: 0,
-        discount_amount: discountAmount,
-        total_amount: total,
+        discount_amount: current.quote.discount_amount,
+        total_amount: saleTotal,
         currency: 'ZAR',
         notes: `POS Sale - ${paymentMethod.toUpperCase()} Payment`,
-        items: cartItems.map(item => ({
-          product_id: productsByBarcode[item.barcode]?.id || null,
-          product_snapshot: {
-            name: item.name,
-            price: item.price,
-            image_url: null,
-            description: `${item.category} - SKU: ${item.sku || 'N/A'}`,
-            category: item.category,
-            barcode: item.barcode
-          },
-          quantity: item.quantity,
-          unit_price: item.price,
-          total_price: item.price * item.quantity,
-        })),
+        pricing_quote: current.token,
+        items: current.quote.lines.map(line => {
+          const item = cartItems.find(cartItem =>
+            productsByBarcode[cartItem.barcode]?.id === line.product_id &&
+            (productsByBarcode[cartItem.barcode]?.variant_id || null) === line.variant_id
+          );
+          return {
+            product_id: line.product_id,
+            variant_id: line.variant_id,
+            product_snapshot: {
+              name: line.name,
+              price: line.unit_price,
+              image_url: null,
+              description: `${item?.category || 'General'} - SKU: ${line.sku || 'N/A'}`,
+              category: item?.category,
+              barcode: item?.barcode
+            },
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            total_price: line.line_total,
+          };
+        }),
         isSharedCartOrder: false,
         isCashierOrder: true // Flag to identify cashier orders
       };
@@ -386,10 +1087,17 @@ export default function EnhancedPOS() {
       if (result.success) {
         console.log('✅ POS sale recorded successfully:', result.data);
         setOrderRecord(result.data);
+        ReceiptService.getReceipt(result.data.id).then(built => {
+          if (built.success && built.data) {
+            setReceipt(built.data);
+          } else {
+            console.warn('⚠️ Could not build receipt, printing the on-screen slip instead:', built.error);
+          }
+        });
         
         // Show success toast
         toast.success('Payment Successful!', {
-          description: `Sale recorded for R${total.toFixed(2)}. Order #${result.data?.order_number || 'N/A'}`,
+          description: `Sale recorded for R${saleTotal.toFixed(2)}. Order #${result.data?.order_number || 'N/A'}`,
           duration: 5000,
         });
         
@@ -398,6 +1106,10 @@ export default function EnhancedPOS() {
         setShowReceipt(true);
       } else {
         console.error('❌ Failed to record POS sale:', result.error);
+        if (vouchers.length > 0) {
+          await TenderService.reverseGiftCards(txId);
+        }
+        setTenders(taken);
         toast.error('Payment Failed', {
           description: result.error || 'Failed to record sale. Please try again.',
           duration: 7000,
@@ -417,7 +1129,13 @@ export default function EnhancedPOS() {
     }
   };
 
-  const handlePrintReceipt = () => {
+  const handlePrintReceipt = async () => {
+    if (receipt) {
+      const printed = await ReceiptService.print(receipt);
+      if (!printed) toast.error('Allow pop-ups to print receipts from the browser');
+      return;
+    }
+
     const content = receiptRef.current?.innerHTML || '';
     const printWindow = window.open('', '_blank', 'width=360,height=640');
     if (!printWindow) return;
@@ -435,6 +1153,12 @@ export default function EnhancedPOS() {
     printWindow.document.close();
   };
 
+  const handleConnectPrinter = async () => {
+    const connected = await ReceiptService.connectThermalPrinter();
+    setPrinterConnected(connected);
+    if (connected) toast.success('Receipts will print to the thermal printer');
+  };
+
   const OnScreenKeyboard = ({ onKeyPress, onClose, target }: OnScreenKeyboardProps) => {
     const keys = [
       ['1', '2', '3', '4', '5', '6', '7', '8', '9', '0'],
@@ -559,6 +1283,28 @@ export default function EnhancedPOS() {
               <p className="text-[#09215F]/80 mt-2">Process in-store sales and transactions</p>
             </div>
             <div className="flex items-center space-x-4">
+              {offline && (
+                <div className="flex items-center px-3 py-2 rounded-xl bg-amber-100 text-amber-800 text-sm font-semibold">
+                  <CloudOff className="h-4 w-4 mr-1" />
+                  Offline
+                </div>
+              )}
+              {pendingSync > 0 && (
+                <button
+                  onClick={syncOfflineSales}
+                  disabled={offline || isSyncing}
+                  className="flex items-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300 disabled:opacity-60 disabled:cursor-not-allowed"
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isSyncing ? 'animate-spin' : ''}`} />
+                  {pendingSync} to sync
+                </button>
+              )}
+              {shift && (
+                <Link to="/cashier/shift" className="text-right text-sm text-[#09215F]/80 hover:text-[#09215F]">
+                  <div className="font-semibold">Shift {shift.shift_number}</div>
+                  <div>Opened {new Date(shift.opened_at).toLocaleTimeString()}</div>
+                </Link>
+              )}
               <div className="bg-[#97CF50] text-white p-4 rounded-2xl shadow-lg">
                 <Scan className="h-8 w-8" />
               </div>
@@ -566,6 +1312,30 @@ export default function EnhancedPOS() {
           </div>
         </div>
 
+        {offline && (
+          <div className="mb-8 bg-amber-50 border border-amber-200 rounded-2xl p-4 text-amber-800">
+            <p className="font-medium">
+              Selling offline{catalogueCachedAt ? ` from the catalogue saved ${new Date(catalogueCachedAt).toLocaleString()}` : ''}.
+            </p>
+            <p className="text-sm mt-1">
+              Sales are charged at shelf prices, kept on this till and sent to the server when the connection is back.
+              Promotions, loyalty points and gift cards need a connection.
+            </p>
+          </div>
+        )}
+
+        {shiftLoaded && !shift && (
+          <div className="mb-8 flex items-center justify-between bg-amber-50 border border-amber-200 rounded-2xl p-4">
+            <p className="text-amber-800 font-medium">You need an open shift before you can take payment.</p>
+            <Link
+              to="/cashier/shift"
+              className="px-4 py-2 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors"
+            >
+              Open shift
+            </Link>
+          </div>
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Left Section - Scanner & Customer */}
           <div className="lg:col-span-2 space-y-6">
@@ -688,6 +1458,58 @@ export default function EnhancedPOS() {
                       </div>
                     </div>
                   </div>
+
+                  {customer.points >= MIN_REDEMPTION_POINTS && (
+                    <div className="flex items-center space-x-3 mt-4">
+                      <input
+                        type="number"
+                        value={redeemInput}
+                        onChange={(e) => setRedeemInput(e.target.value)}
+                        placeholder={`Points to redeem (min ${MIN_REDEMPTION_POINTS})`}
+                        max={customer.points}
+                        className="flex-1 px-4 py-2 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+                      />
+                      {redeemPoints > 0 ? (
+                        <button
+                          onClick={() => { setRedeemPoints(0); setRedeemInput(''); }}
+                          className="bg-gray-200 text-[#09215F] px-4 py-2 rounded-xl hover:bg-gray-300 transition-all duration-300"
+                        >
+                          Remove
+                        </button>
+                      ) : (
+                        <button
+                          onClick={handleRedeemPoints}
+                          className="bg-purple-600 text-white px-4 py-2 rounded-xl hover:bg-purple-700 transition-all duration-300"
+                        >
+                          Redeem
+                        </button>
+                      )}
+                    </div>
+                  )}
+                  <button
+                    onClick={() => { setCustomer(null); setRedeemPoints(0); setRedeemInput(''); }}
+                    className="mt-3 text-sm text-[#09215F]/70 hover:text-[#09215F]"
+                  >
+                    Clear customer
+                  </button>
+                </div>
+              )}
+
+              {!customer && customerMatches.length > 0 && (
+                <div className="space-y-2">
+                  {customerMatches.map(member => (
+                    <button
+                      key={member.id}
+                      onClick={() => selectCustomer(member)}
+                      className="w-full flex items-center justify-between p-3 border-2 border-gray-200 rounded-xl hover:border-[#97CF50] text-left"
+                    >
+                      <div>
+                        <p className="font-semibold text-[#09215F]">{member.name}</p>
+                        <p className="text-sm text-[#09215F]/70">{member.email}{member.phone ? ` • ${member.phone}` : ''}</p>
+                      </div>
+                      <span className="text-sm text-[#09215F]">{member.points} points</span>
+                    </button>
+                  ))}
                 </div>
               )}
             </div>
@@ -696,7 +1518,33 @@ export default function EnhancedPOS() {
           {/* Right Section - Cart & Checkout */}
           <div className="lg:col-span-1">
             <div className="bg-white rounded-2xl shadow-xl p-6 sticky top-4">
-              <h2 className="text-2xl font-semibold text-[#09215F] mb-6">Transaction</h2>
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-semibold text-[#09215F]">Transaction</h2>
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowReturns(true)}
+                    className="flex items-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-1" />
+                    Return
+                  </button>
+                  <button
+                    onClick={() => setShowParkModal(true)}
+                    disabled={cartItems.length === 0}
+                    className="flex items-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    <PauseCircle className="h-4 w-4 mr-1" />
+                    Park
+                  </button>
+                  <button
+                    onClick={() => setShowParkedSales(true)}
+                    className="flex items-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300"
+                  >
+                    <PlayCircle className="h-4 w-4 mr-1" />
+                    Parked{parkedCount > 0 ? ` (${parkedCount})` : ''}
+                  </button>
+                </div>
+              </div>
 
               {cartItems.length === 0 ? (
                 <div className="text-center py-8 border-2 border-dashed border-[#97CF50]/30 rounded-xl mb-6 bg-gradient-to-br from-[#97CF50]/10 to-transparent">
@@ -712,19 +1560,30 @@ export default function EnhancedPOS() {
                         <div className="flex-1">
                           <h4 className="font-semibold text-[#09215F]">{item.name}</h4>
                           <p className="text-sm text-[#09215F]/80">{item.category}</p>
-                          <p className="text-[#97CF50] font-bold">R{item.price} each</p>
+                          <p className="text-[#97CF50] font-bold">
+                            R{item.price} each
+                            {item.price_override_id && <span className="ml-2 text-xs font-medium text-amber-600">price overridden</span>}
+                          </p>
+                        </div>
+                        <div className="flex items-center">
+                          <button
+                            onClick={() => openPriceOverride(item)}
+                            className="text-[#09215F]/60 hover:text-[#09215F] p-1"
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </button>
+                          <button
+                            onClick={() => voidItem(item, item.quantity)}
+                            className="text-red-500 hover:text-red-700 p-1"
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </button>
                         </div>
-                        <button
-                          onClick={() => removeItem(item.id)}
-                          className="text-red-500 hover:text-red-700 p-1"
-                        >
-                          <Trash2 className="h-4 w-4" />
-                        </button>
                       </div>
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-2">
                           <button
-                            onClick={() => updateQuantity(item.id, -1)}
+                            onClick={() => voidItem(item, 1)}
                             className="bg-red-500 text-white p-1 rounded-lg hover:bg-red-600"
                           >
                             <Minus className="h-4 w-4" />
@@ -744,7 +1603,24 @@ export default function EnhancedPOS() {
                 </div>
               )}
 
-              {/* Quick Actions removed: discount and manual entry per requirements */}
+              {/* Quick Actions */}
+              <div className="grid grid-cols-2 gap-3 mb-6">
+                <button
+                  onClick={openDiscount}
+                  disabled={cartItems.length === 0}
+                  className="flex items-center justify-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  <Percent className="h-4 w-4 mr-1" />
+                  Discount
+                </button>
+                <button
+                  onClick={handleNoSale}
+                  className="flex items-center justify-center px-3 py-2 rounded-xl bg-[#97CF50]/20 text-[#09215F] text-sm font-semibold hover:bg-[#97CF50]/30 transition-all duration-300"
+                >
+                  <Lock className="h-4 w-4 mr-1" />
+                  No Sale
+                </button>
+              </div>
 
               {/* Total Display */}
               <div className="border-t-2 border-[#97CF50]/20 pt-4 mb-6 space-y-2">
@@ -755,7 +1631,13 @@ export default function EnhancedPOS() {
                 {discountPercent > 0 && (
                   <div className="flex justify-between text-green-600">
                     <span>Discount ({discountPercent}%):</span>
-                    <span>-R{discountAmount.toFixed(2)}</span>
+                    <span>-R{(discountAmount - loyaltyDiscount).toFixed(2)}</span>
+                  </div>
+                )}
+                {loyaltyDiscount > 0 && (
+                  <div className="flex justify-between text-purple-600">
+                    <span>Loyalty ({quote?.loyalty_points_used} points):</span>
+                    <span>-R{loyaltyDiscount.toFixed(2)}</span>
                   </div>
                 )}
                 <div className="flex justify-between text-2xl font-bold text-[#09215F] border-t border-gray-200 pt-2">
@@ -767,11 +1649,26 @@ export default function EnhancedPOS() {
                 </div>
               </div>
 
+              {exchangeCredit && (
+                <div className="flex items-center justify-between mb-4 px-4 py-3 rounded-xl bg-purple-50 border border-purple-200 text-sm text-purple-800">
+                  <span>Exchange credit {exchangeCredit.code}: R{Number(exchangeCredit.balance).toFixed(2)}</span>
+                  <button
+                    onClick={() => {
+                      toast.info(`The credit stays on gift card ${exchangeCredit.code}`);
+                      setExchangeCredit(null);
+                    }}
+                    className="text-purple-500 hover:text-purple-700"
+                  >
+                    <X className="h-4 w-4" />
+                  </button>
+                </div>
+              )}
+
               {/* Payment Buttons */}
               <div className="space-y-3">
                 <button
                   disabled={cartItems.length === 0}
-                  onClick={() => { setPaymentMethod('cash'); setShowPaymentModal(true); }}
+                  onClick={() => openPayment('cash')}
                   className="w-full bg-gradient-to-r from-green-500 to-green-600 text-white py-4 px-4 rounded-xl hover:from-green-600 hover:to-green-700 transition-all duration-300 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-1 font-semibold flex items-center justify-center"
                 >
                   <Banknote className="h-5 w-5 mr-2" />
@@ -779,7 +1676,7 @@ export default function EnhancedPOS() {
                 </button>
                 <button
                   disabled={cartItems.length === 0}
-                  onClick={() => { setPaymentMethod('card'); setShowPaymentModal(true); }}
+                  onClick={() => openPayment('card')}
                   className="w-full bg-gradient-to-r from-[#97CF50] to-[#09215F] text-white py-4 px-4 rounded-xl hover:from-[#09215F] hover:to-[#1a252f] transition-all duration-300 disabled:from-gray-300 disabled:to-gray-400 disabled:cursor-not-allowed shadow-lg hover:shadow-xl transform hover:-translate-y-1 font-semibold flex items-center justify-center"
                 >
                   <CreditCard className="h-5 w-5 mr-2" />
@@ -816,13 +1713,183 @@ export default function EnhancedPOS() {
           />
         )}
 
-        {/* Payment Modal (Dummy, non-persistent) */}
-        {showPaymentModal && (
+        {/* Park Sale Modal */}
+        {showParkModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-[#09215F]">Park Sale</h3>
+                <button onClick={() => setShowParkModal(false)} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+              <div className="space-y-4">
+                <p className="text-sm text-[#09215F]/70">
+                  {cartItems.reduce((count, item) => count + item.quantity, 0)} items, R{subtotal.toFixed(2)}{customer ? ` for ${customer.name}` : ''}. Parked sales expire at the end of the day.
+                </p>
+                <input
+                  type="text"
+                  value={parkLabel}
+                  onChange={(e) => setParkLabel(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleParkSale(); }}
+                  placeholder={customer?.name || 'e.g. Lady in the red jacket'}
+                  maxLength={100}
+                  autoFocus
+                  className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+                />
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => setShowParkModal(false)}
+                    className="flex-1 bg-gray-200 text-[#09215F] py-3 px-4 rounded-xl hover:bg-gray-300 transition-all duration-300 font-semibold"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={handleParkSale}
+                    disabled={isParking}
+                    className="flex-1 bg-[#97CF50] text-white py-3 px-4 rounded-xl hover:bg-[#09215F] transition-all duration-300 font-semibold disabled:opacity-50"
+                  >
+                    {isParking ? 'Parking...' : 'Park Sale'}
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Discount Modal - above the cashier's limit a manager approves it */}
+        {showDiscountModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-[#09215F]">Discount</h3>
+                <button onClick={() => setShowDiscountModal(false)} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+              <div className="space-y-4">
+                <p className="text-sm text-[#09215F]/70">
+                  {posPermissions.maxDiscountPercent > 0
+                    ? `You can give up to ${posPermissions.maxDiscountPercent}% yourself. More needs a manager's approval.`
+                    : 'Every discount needs a manager\'s approval.'}
+                </p>
+                <div className="relative">
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    step="0.5"
+                    value={discountInput}
+                    onChange={(e) => setDiscountInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') applyDiscount(); }}
+                    placeholder="0"
+                    autoFocus
+                    className="w-full px-4 py-3 pr-10 border-2 border-gray-200 rounded-xl text-2xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+                  />
+                  <Percent className="absolute right-4 top-1/2 -translate-y-1/2 h-5 w-5 text-[#09215F]/50" />
+                </div>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => setShowDiscountModal(false)}
+                    className="flex-1 bg-gray-200 text-[#09215F] py-3 px-4 rounded-xl hover:bg-gray-300 transition-all duration-300 font-semibold"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={applyDiscount}
+                    className="flex-1 bg-[#97CF50] text-white py-3 px-4 rounded-xl hover:bg-[#09215F] transition-all duration-300 font-semibold"
+                  >
+                    Apply
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Price Override Modal */}
+        {priceEditItem && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4">
               <div className="flex items-center justify-between mb-6">
-                <h3 className="text-2xl font-bold text-[#09215F]">Enter Payment</h3>
-                <button onClick={() => setShowPaymentModal(false)} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+                <h3 className="text-2xl font-bold text-[#09215F]">Change Price</h3>
+                <button onClick={() => setPriceEditItem(null)} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
+                  <X className="h-6 w-6" />
+                </button>
+              </div>
+              <div className="space-y-4">
+                <p className="text-sm text-[#09215F]/70">
+                  {priceEditItem.name}, shelf price R{Number(productsByBarcode[priceEditItem.barcode]?.price ?? priceEditItem.price).toFixed(2)}.
+                  {!posPermissions.canOverridePrice && ' A manager has to approve the new price.'}
+                </p>
+                <div className="relative">
+                  <RandIcon className="absolute left-3 top-1/2 -translate-y-1/2 h-6 w-6 text-[#09215F]/50" />
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={priceInput}
+                    onChange={(e) => setPriceInput(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') applyPriceOverride(); }}
+                    autoFocus
+                    className="w-full pl-11 pr-4 py-3 border-2 border-gray-200 rounded-xl text-2xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent"
+                  />
+                </div>
+                <div className="flex space-x-4">
+                  <button
+                    onClick={() => setPriceEditItem(null)}
+                    className="flex-1 bg-gray-200 text-[#09215F] py-3 px-4 rounded-xl hover:bg-gray-300 transition-all duration-300 font-semibold"
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    onClick={applyPriceOverride}
+                    className="flex-1 bg-[#97CF50] text-white py-3 px-4 rounded-xl hover:bg-[#09215F] transition-all duration-300 font-semibold"
+                  >
+                    Change Price
+                  </button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {pendingOverride && (
+          <ManagerOverrideModal
+            title={pendingOverride.title}
+            request={pendingOverride.request}
+            onClose={() => setPendingOverride(null)}
+            onApproved={(override) => {
+              setPendingOverride(null);
+              toast.success('Approved', { description: OverrideService.describe(override), duration: 3000 });
+              pendingOverride.onApproved(override);
+            }}
+          />
+        )}
+
+        {showReturns && (
+          <ReturnsModal
+            onClose={() => setShowReturns(false)}
+            onExchange={setExchangeCredit}
+            basketEmpty={cartItems.length === 0}
+          />
+        )}
+
+        {showParkedSales && (
+          <ParkedSalesModal
+            onClose={() => { setShowParkedSales(false); refreshParkedCount(); }}
+            onRecall={handleRecallSale}
+            basketEmpty={cartItems.length === 0}
+          />
+        )}
+
+        {/* Payment Modal - one or more tenders until the balance is paid */}
+        {showPaymentModal && (
+          <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+            <div className="bg-white rounded-2xl shadow-2xl p-8 max-w-md w-full mx-4 max-h-[90vh] overflow-y-auto">
+              <div className="flex items-center justify-between mb-6">
+                <h3 className="text-2xl font-bold text-[#09215F]">Take Payment</h3>
+                <button onClick={closePayment} disabled={isProcessingPayment} className="text-gray-400 hover:text-gray-600 p-2 rounded-full hover:bg-gray-100">
                   <X className="h-6 w-6" />
                 </button>
               </div>
@@ -836,57 +1903,128 @@ export default function EnhancedPOS() {
                   </div>
                 </div>
 
-                <div className="flex items-center space-x-2">
-                  <button onClick={() => setPaymentMethod('cash')} className={`flex-1 px-4 py-3 rounded-xl border-2 ${paymentMethod === 'cash' ? 'border-green-500 bg-green-50 text-green-700' : 'border-gray-200 text-[#09215F]'} font-semibold`}>Cash</button>
-                  <button onClick={() => setPaymentMethod('card')} className={`flex-1 px-4 py-3 rounded-xl border-2 ${paymentMethod === 'card' ? 'border-[#97CF50] bg-[#97CF50]/20 text-[#09215F]' : 'border-gray-200 text-[#09215F]'} font-semibold`}>Card</button>
+                {loyaltyDiscount > 0 && (
+                  <div className="flex items-center justify-between text-sm text-purple-600">
+                    <span>Loyalty points ({quote?.loyalty_points_used}) already deducted</span>
+                    <span>R{loyaltyDiscount.toFixed(2)}</span>
+                  </div>
+                )}
+
+                {tenders.length > 0 && (
+                  <div className="rounded-xl border border-gray-200 divide-y">
+                    {tenders.map((tender, index) => (
+                      <div key={index} className="flex items-center justify-between px-3 py-2 text-sm text-[#09215F]">
+                        <div>
+                          <span className="font-semibold">{TenderService.getLabel(tender.method)}</span>
+                          {tender.reference && <span className="ml-2 text-[#09215F]/60">{tender.reference}</span>}
+                          {tender.change ? <div className="text-xs text-[#09215F]/60">R{tender.tendered?.toFixed(2)} tendered, R{tender.change.toFixed(2)} change</div> : null}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-semibold">R{tender.amount.toFixed(2)}</span>
+                          <button
+                            onClick={() => setTenders(tenders.filter((_, i) => i !== index))}
+                            disabled={isProcessingPayment}
+                            className="text-gray-400 hover:text-red-600 p-1 rounded-full"
+                          >
+                            <X className="h-4 w-4" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className={`flex items-center justify-between font-semibold ${balanceDue > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                  <span>Balance Due</span>
+                  <span className="text-xl">R{balanceDue.toFixed(2)}</span>
                 </div>
 
-                {paymentMethod === 'cash' && (
-                  <div>
-                    <label className="block text-sm font-medium text-[#09215F] mb-2">Amount Tendered</label>
-                    <div className="flex space-x-2">
+                {balanceDue > 0 && (
+                  <>
+                    <div className={`grid ${offline ? 'grid-cols-3' : 'grid-cols-4'} gap-2`}>
+                      {([
+                        { method: 'cash', label: 'Cash', icon: Banknote },
+                        { method: 'card', label: 'Card', icon: CreditCard },
+                        { method: 'voucher', label: 'Gift Card', icon: Gift },
+                        { method: 'eft', label: 'EFT', icon: Wallet },
+                      ] as const).filter(({ method }) => !offline || method !== 'voucher').map(({ method, label, icon: Icon }) => (
+                        <button
+                          key={method}
+                          onClick={() => selectTenderMethod(method)}
+                          className={`flex flex-col items-center px-2 py-3 rounded-xl border-2 text-sm font-semibold ${tenderMethod === method ? 'border-[#97CF50] bg-[#97CF50]/20 text-[#09215F]' : 'border-gray-200 text-[#09215F]'}`}
+                        >
+                          <Icon className="h-5 w-5 mb-1" />
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+
+                    {(tenderMethod === 'voucher' || tenderMethod === 'eft') && (
                       <input
-                        type="number"
-                        value={paymentAmount}
-                        onChange={(e) => setPaymentAmount(e.target.value)}
-                        placeholder="Enter cash received"
-                        className={`flex-1 px-4 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent ${
-                          paymentAmount && Number(paymentAmount) < total 
-                            ? 'border-red-500 bg-red-50' 
-                            : 'border-gray-200'
-                        }`}
-                        min="0"
-                        step="0.01"
+                        type="text"
+                        value={tenderReference}
+                        onChange={(e) => setTenderReference(e.target.value)}
+                        placeholder={tenderMethod === 'voucher' ? 'Gift card code, e.g. GC-ABCD-EFGH-JKLM' : 'EFT bank reference'}
+                        className="w-full px-4 py-3 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent uppercase"
                       />
-                      <button onClick={() => openKeyboard('payment')} className="bg-[#97CF50] text-white px-4 py-3 rounded-xl hover:bg-[#09215F] transition-all duration-300">
-                        <Calculator className="h-5 w-5" />
-                      </button>
-                    </div>
-                    {paymentAmount && Number(paymentAmount) < total && (
-                      <div className="mt-2 text-sm text-red-600 flex items-center">
-                        <X className="h-4 w-4 mr-1" />
-                        Insufficient cash. Need R{(total - Number(paymentAmount)).toFixed(2)} more.
-                      </div>
                     )}
-                    {paymentAmount && Number(paymentAmount) >= total && (
-                      <div className="mt-2 text-sm text-green-600 flex items-center">
-                        <UserCheck className="h-4 w-4 mr-1" />
-                        Sufficient cash. Change: R{(Number(paymentAmount) - total).toFixed(2)}
+
+                    <div>
+                      <label className="block text-sm font-medium text-[#09215F] mb-2">
+                        {tenderMethod === 'cash' ? 'Cash Received' : `${TenderService.getLabel(tenderMethod)} Amount`}
+                      </label>
+                      <div className="flex space-x-2">
+                        <input
+                          type="number"
+                          value={paymentAmount}
+                          onChange={(e) => setPaymentAmount(e.target.value)}
+                          placeholder={tenderMethod === 'cash' ? 'Enter cash received' : `Up to R${balanceDue.toFixed(2)}`}
+                          className={`flex-1 px-4 py-3 border-2 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent ${
+                            tenderMethod !== 'cash' && Number(paymentAmount) > balanceDue
+                              ? 'border-red-500 bg-red-50'
+                              : 'border-gray-200'
+                          }`}
+                          min="0"
+                          step="0.01"
+                        />
+                        <button onClick={() => openKeyboard('payment')} className="bg-[#97CF50] text-white px-4 py-3 rounded-xl hover:bg-[#09215F] transition-all duration-300">
+                          <Calculator className="h-5 w-5" />
+                        </button>
                       </div>
-                    )}
-                  </div>
-                )}
+                      {paymentAmount && tenderMethod === 'cash' && Number(paymentAmount) < balanceDue && (
+                        <div className="mt-2 text-sm text-amber-600 flex items-center">
+                          <Coins className="h-4 w-4 mr-1" />
+                          Part payment. R{(balanceDue - Number(paymentAmount)).toFixed(2)} left to pay by another tender.
+                        </div>
+                      )}
+                      {paymentAmount && tenderMethod === 'cash' && Number(paymentAmount) >= balanceDue && (
+                        <div className="mt-2 text-sm text-green-600 flex items-center">
+                          <UserCheck className="h-4 w-4 mr-1" />
+                          Change: R{(Number(paymentAmount) - balanceDue).toFixed(2)}
+                        </div>
+                      )}
+                      {paymentAmount && tenderMethod !== 'cash' && Number(paymentAmount) > balanceDue && (
+                        <div className="mt-2 text-sm text-red-600 flex items-center">
+                          <X className="h-4 w-4 mr-1" />
+                          Only cash gives change. Enter at most R{balanceDue.toFixed(2)}.
+                        </div>
+                      )}
+                    </div>
 
-                {paymentMethod === 'cash' && paymentAmount && Number(paymentAmount) >= 0 && (
-                  <div className="flex items-center justify-between text-[#09215F]">
-                    <span>Change (if any)</span>
-                    <span className="font-bold">R{Math.max(Number(paymentAmount || '0') - total, 0).toFixed(2)}</span>
-                  </div>
+                    <button
+                      onClick={handleAddTender}
+                      disabled={isAddingTender || isProcessingPayment || !paymentAmount || Number(paymentAmount) <= 0}
+                      className="w-full flex items-center justify-center py-2 px-4 rounded-xl border-2 border-[#09215F] text-[#09215F] font-semibold hover:bg-[#09215F] hover:text-white transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      <Plus className="h-4 w-4 mr-2" />
+                      {isAddingTender ? 'Checking...' : 'Add Tender'}
+                    </button>
+                  </>
                 )}
 
                 <div className="flex space-x-4 pt-2">
                   <button 
-                    onClick={() => setShowPaymentModal(false)} 
+                    onClick={closePayment} 
                     disabled={isProcessingPayment}
                     className="flex-1 bg-gray-200 text-[#09215F] py-3 px-4 rounded-xl hover:bg-gray-300 transition-all duration-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   >
@@ -895,9 +2033,11 @@ export default function EnhancedPOS() {
                   <button 
                     onClick={handleConfirmPayment} 
                     disabled={
-                      isProcessingPayment || 
-                      (paymentMethod === 'cash' && paymentAmount && Number(paymentAmount) < total) ||
-                      (paymentMethod === 'card' && (!paymentAmount || Number(paymentAmount) !== total))
+                      isProcessingPayment || isAddingTender ||
+                      (balanceDue > 0 && (
+                        !paymentAmount ||
+                        (tenderMethod === 'cash' ? Number(paymentAmount) < balanceDue : Number(paymentAmount) !== balanceDue)
+                      ))
                     }
                     className="flex-1 bg-green-600 text-white py-3 px-4 rounded-xl hover:bg-green-700 transition-all duration-300 font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center"
                   >
@@ -911,7 +2051,7 @@ export default function EnhancedPOS() {
                     )}
                   </button>
                 </div>
-                <p className="text-xs text-[#09215F]/70">Note: This is a demo payment. No data will be saved.</p>
+                <p className="text-xs text-[#09215F]/70">Take card and EFT payments on the terminal or banking app first, then record them here.</p>
               </div>
             </div>
           </div>
@@ -928,46 +2068,69 @@ export default function EnhancedPOS() {
                 </button>
               </div>
 
-              <div ref={receiptRef} className="text-sm text-[#09215F]">
-                <div className="text-center mb-2">
-                  <div className="font-extrabold text-[#97CF50]">BEST BRIGHTNESS</div>
-                  <div className="small text-[#09215F]/80">Point of Sale Receipt</div>
-                  <div className="small text-[#97CF50]">Your Bright Shopping Experience</div>
-                </div>
-                <div className="hr" />
-                <div className="flex justify-between text-xs"><span>Order #</span><span>{orderRecord?.order_number || transactionId}</span></div>
-                <div className="flex justify-between text-xs"><span>Date</span><span>{transactionDate ? transactionDate.toLocaleString() : ''}</span></div>
-                <div className="flex justify-between text-xs"><span>Cashier</span><span>{userProfile ? `${userProfile.first_name} ${userProfile.last_name}` : 'System User'}</span></div>
-                {customer && (
-                  <div className="flex justify-between text-xs"><span>Customer</span><span>{customer.name}</span></div>
-                )}
-                <div className="hr" />
-                {cartItems.map((item) => (
-                  <div key={item.id}>
-                    <div className="flex justify-between"><span>{item.name} x{item.quantity}</span><span>R{(item.price * item.quantity).toFixed(2)}</span></div>
-                    <div className="text-xs text-[#09215F]/70 ml-2">R{item.price.toFixed(2)} each</div>
+              {receipt ? (
+                <div className="max-h-[60vh] overflow-y-auto overflow-x-auto" dangerouslySetInnerHTML={{ __html: renderReceiptHtml(receipt) }} />
+              ) : (
+                <div ref={receiptRef} className="text-sm text-[#09215F]">
+                  <div className="text-center mb-2">
+                    <div className="font-extrabold text-[#97CF50]">BEST BRIGHTNESS</div>
+                    <div className="small text-[#09215F]/80">Point of Sale Receipt</div>
+                    <div className="small text-[#97CF50]">Your Bright Shopping Experience</div>
                   </div>
-                ))}
-                <div className="hr" />
-                <div className="flex justify-between"><span>Subtotal</span><span>R{subtotal.toFixed(2)}</span></div>
-                {discountPercent > 0 && (
-                  <div className="flex justify-between text-xs text-green-600"><span>Discount {discountPercent}%</span><span>-R{discountAmount.toFixed(2)}</span></div>
-                )}
-                <div className="flex justify-between font-bold text-[#97CF50]"><span>Total</span><span>R{total.toFixed(2)}</span></div>
-                <div className="flex justify-between text-xs"><span>Payment Method</span><span>{paymentMethod.toUpperCase()}</span></div>
-                {paymentMethod === 'cash' && (
-                  <>
-                    <div className="flex justify-between text-xs"><span>Amount Tendered</span><span>R{Number(paymentAmount || '0').toFixed(2)}</span></div>
+                  <div className="hr" />
+                  <div className="flex justify-between text-xs"><span>Order #</span><span>{orderRecord?.order_number || transactionId}</span></div>
+                  <div className="flex justify-between text-xs"><span>Date</span><span>{transactionDate ? transactionDate.toLocaleString() : ''}</span></div>
+                  <div className="flex justify-between text-xs"><span>Cashier</span><span>{userProfile ? `${userProfile.first_name} ${userProfile.last_name}` : 'System User'}</span></div>
+                  {customer && (
+                    <div className="flex justify-between text-xs"><span>Customer</span><span>{customer.name}</span></div>
+                  )}
+                  <div className="hr" />
+                  {cartItems.map((item) => (
+                    <div key={item.id}>
+                      <div className="flex justify-between"><span>{item.name} x{item.quantity}</span><span>R{(item.price * item.quantity).toFixed(2)}</span></div>
+                      <div className="text-xs text-[#09215F]/70 ml-2">R{item.price.toFixed(2)} each</div>
+                    </div>
+                  ))}
+                  <div className="hr" />
+                  <div className="flex justify-between"><span>Subtotal</span><span>R{subtotal.toFixed(2)}</span></div>
+                  {discountPercent > 0 && (
+                    <div className="flex justify-between text-xs text-green-600"><span>Discount {discountPercent}%</span><span>-R{(discountAmount - loyaltyDiscount).toFixed(2)}</span></div>
+                  )}
+                  {loyaltyDiscount > 0 && (
+                    <div className="flex justify-between text-xs text-purple-600"><span>Points redeemed ({quote?.loyalty_points_used})</span><span>-R{loyaltyDiscount.toFixed(2)}</span></div>
+                  )}
+                  <div className="flex justify-between font-bold text-[#97CF50]"><span>Total</span><span>R{total.toFixed(2)}</span></div>
+                  {tenders.map((tender, index) => (
+                    <div key={index}>
+                      <div className="flex justify-between text-xs">
+                        <span>{TenderService.getLabel(tender.method)}{tender.reference ? ` (${tender.reference})` : ''}</span>
+                        <span>R{tender.amount.toFixed(2)}</span>
+                      </div>
+                      {tender.method === 'cash' && (
+                        <div className="flex justify-between text-xs ml-2"><span>Amount Tendered</span><span>R{Number(tender.tendered ?? tender.amount).toFixed(2)}</span></div>
+                      )}
+                    </div>
+                  ))}
+                  {customer && quote && quote.loyalty_points_earned > 0 && (
+                    <div className="flex justify-between text-xs"><span>Points earned</span><span>{quote.loyalty_points_earned}</span></div>
+                  )}
+                  {tenders.some(tender => tender.method === 'cash') && (
                     <div className="flex justify-between text-xs"><span>Change</span><span>R{changeDue.toFixed(2)}</span></div>
-                  </>
-                )}
-                <div className="hr" />
-                <div className="text-center text-xs text-[#97CF50]">Thank you for shopping with us!</div>
-                <div className="text-center text-xs text-[#09215F]/70">Visit us again soon</div>
-                {orderRecord && (
-                  <div className="text-center text-xs text-[#09215F]/50 mt-2">Order ID: {orderRecord.id}</div>
-                )}
-              </div>
+                  )}
+                  <div className="hr" />
+                  <div className="text-center text-xs text-[#97CF50]">Thank you for shopping with us!</div>
+                  <div className="text-center text-xs text-[#09215F]/70">Visit us again soon</div>
+                  {orderRecord && (
+                    <div className="text-center text-xs text-[#09215F]/50 mt-2">Order ID: {orderRecord.id}</div>
+                  )}
+                </div>
+              )}
+
+              {ReceiptService.supportsThermalPrinter() && !printerConnected && (
+                <button onClick={handleConnectPrinter} className="mt-3 w-full text-xs text-[#09215F]/70 hover:text-[#09215F] underline">
+                  Connect thermal printer
+                </button>
+              )}
 
               <div className="mt-4 flex space-x-3">
                 <button onClick={() => { const el = document.activeElement as HTMLElement | null; el?.blur(); setTimeout(() => { /* small delay for UI */ }, 0); window.setTimeout(() => { }, 0); }} className="hidden" />
@@ -1004,10 +2167,17 @@ export default function EnhancedPOS() {
                     setShowReceipt(false); 
                     setCartItems([]); 
                     setPaymentAmount(''); 
-                    setPaymentMethod('cash'); 
+                    setTenders([]);
+                    setTenderMethod('cash');
+                    setTenderReference(''); 
                     setDiscountPercent(0);
+                    setOverrideIds([]);
                     setCustomer(null);
+                    setRedeemPoints(0);
+                    setRedeemInput('');
                     setOrderRecord(null);
+                    setReceipt(null);
+                    setExchangeCredit(null);
                     setTransactionId('');
                     setTransactionDate(null);
                     setChangeDue(0);
@@ -1017,7 +2187,11 @@ export default function EnhancedPOS() {
                   New Sale
                 </button>
               </div>
-              <p className="mt-2 text-xs text-[#09215F]/70">Sale recorded successfully in the system.</p>
+              <p className="mt-2 text-xs text-[#09215F]/70">
+                {orderRecord?.offline
+                  ? 'Sale saved on this till. It is sent to the server when the connection is back.'
+                  : 'Sale recorded successfully in the system.'}
+              </p>
             </div>
           </div>
         )}
@@ -24,6 +24,7 @@ import {
 } from 'lucide-react';
 import CashierLayout from '../../components/cashier/CashierLayout';
 import { getSalesReport, getProductPerformance, getCustomerReport, getTransactionReport, DateRange } from '../../services/reportsService';
+import { TENDER_METHODS, TenderService } from '../../utils/tender-service';
 
 // Custom South African Rand icon component
 const RandIcon = ({ className = "h-5 w-5" }: { className?: string }) => (
@@ -156,7 +157,11 @@ export default function CashierReportsRealData() {
           { metric: 'Total Transactions', value: transactionData.totalTransactions },
           { metric: 'Successful', value: transactionData.successfulTransactions },
           { metric: 'Failed', value: transactionData.failedTransactions },
-          { metric: 'Avg Value', value: formatCurrency(transactionData.avgTransactionValue) }
+          { metric: 'Avg Value', value: formatCurrency(transactionData.avgTransactionValue) },
+          ...TENDER_METHODS.map(method => ({
+            metric: `${TenderService.getLabel(method)} (${transactionData.byTender[method].count})`,
+            value: formatCurrency(transactionData.byTender[method].amount)
+          }))
         ] : [];
       default:
         return [];
@@ -421,6 +426,20 @@ export default function CashierReportsRealData() {
                     <div className="text-sm text-purple-700 font-medium">Avg Value</div>
                   </div>
                 </div>
+
+                <h4 className="text-lg font-semibold text-[#09215F] mt-8 mb-4">By Tender</h4>
+                <div className="space-y-3">
+                  {TENDER_METHODS.map(method => (
+                    <div key={method} className="flex items-center justify-between bg-gradient-to-r from-[#F8F9FA] to-[#B0E0E6]/20 p-4 rounded-2xl border border-[rgba(44,62,80,0.1)]">
+                      <div>
+                        <div className="font-semibold text-[#09215F]">{TenderService.getLabel(method)}</div>
+                        <div className="text-sm text-[#09215F]/70">{transactionData.byTender[method].count} transactions</div>
+                      </div>
+                      <div className="font-bold text-[#09215F]">{formatCurrency(transactionData.byTender[method].amount)}</div>
+                    </div>
+                  ))}
+                </div>
+                <p className="text-xs text-[#09215F]/70 mt-2">Split payments count under each tender used. Loyalty points are redeemed on top of the amounts paid.</p>
               </div>
             )}
 
@@ -0,0 +1,272 @@
+import React, { useEffect, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowDownLeft, ArrowLeft, ArrowUpRight, Lock, PlayCircle, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import CashierLayout from '../../components/cashier/CashierLayout';
+import DenominationCounter from '../../components/cashier/DenominationCounter';
+import ShiftReportView from '../../components/cashier/ShiftReportView';
+import { CashMovementType, DenominationCount, Shift, ShiftReport, ShiftService } from '../../utils/shift-service';
+
+/**
+ * Open a shift with a counted float, move cash in and out of the drawer,
+ * and cash up at the end of the shift to produce the Z-report
+ */
+export default function CashierShift() {
+  const navigate = useNavigate();
+  const [shift, setShift] = useState<Shift | null>(null);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [closedReport, setClosedReport] = useState<ShiftReport | null>(null);
+  const [floatCount, setFloatCount] = useState<DenominationCount>({});
+  const [closingCount, setClosingCount] = useState<DenominationCount>({});
+  const [closingNotes, setClosingNotes] = useState('');
+  const [showClose, setShowClose] = useState(false);
+  const [movement, setMovement] = useState<{ type: CashMovementType; amount: string; reason: string }>({ type: 'pay_out', amount: '', reason: '' });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetchShift();
+  }, []);
+
+  const fetchShift = async () => {
+    setLoading(true);
+    const result = await ShiftService.getCurrent();
+    if (!result.success) {
+      toast.error(result.error || 'Failed to load your shift');
+    }
+    setShift(result.data || null);
+    if (result.data) {
+      await fetchReport(result.data.id);
+    }
+    setLoading(false);
+  };
+
+  const fetchReport = async (shiftId: string) => {
+    const result = await ShiftService.getReport(shiftId);
+    if (result.success && result.data) {
+      setReport(result.data);
+    } else {
+      toast.error(result.error || 'Failed to load the X-report');
+    }
+  };
+
+  const handleOpen = async () => {
+    setBusy(true);
+    const result = await ShiftService.open(floatCount);
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to open shift');
+      return;
+    }
+
+    toast.success(`Shift ${result.data.shift_number} opened with a R${Number(result.data.opening_float).toFixed(2)} float`);
+    setFloatCount({});
+    setClosedReport(null);
+    setShift(result.data);
+    fetchReport(result.data.id);
+  };
+
+  const handleMovement = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!shift) return;
+
+    setBusy(true);
+    const result = await ShiftService.recordCashMovement(shift.id, movement.type, Number(movement.amount), movement.reason);
+    setBusy(false);
+
+    if (!result.success) {
+      toast.error(result.error || 'Failed to record cash movement');
+      return;
+    }
+
+    toast.success(`${movement.type === 'pay_in' ? 'Pay-in' : 'Pay-out'} of R${Number(movement.amount).toFixed(2)} recorded`);
+    setMovement({ ...movement, amount: '', reason: '' });
+    fetchReport(shift.id);
+  };
+
+  const handleClose = async () => {
+    if (!shift) return;
+    if (!window.confirm(`Close shift with R${ShiftService.countTotal(closingCount).toFixed(2)} counted? Sales cannot be added to it afterwards.`)) {
+      return;
+    }
+
+    setBusy(true);
+    const result = await ShiftService.close(shift.id, closingCount, closingNotes);
+    setBusy(false);
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Failed to close shift');
+      return;
+    }
+
+    toast.success(`Shift ${shift.shift_number} closed`);
+    setClosedReport(result.data);
+    setShift(null);
+    setReport(null);
+    setClosingCount({});
+    setClosingNotes('');
+    setShowClose(false);
+  };
+
+  return (
+    <CashierLayout>
+      <div className="min-h-screen bg-gradient-to-br from-[#F8F9FA] to-[#B0E0E6]/20 p-8">
+        <div className="max-w-5xl mx-auto space-y-6">
+          {/* Header */}
+          <div className="flex items-center justify-between">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => navigate('/cashier')}
+                className="p-3 rounded-2xl bg-white/80 border border-white/20 shadow-lg hover:shadow-xl transition-all duration-300 hover:-translate-y-1"
+              >
+                <ArrowLeft className="h-6 w-6 text-[#09215F]" />
+              </button>
+              <div>
+                <h1 className="text-3xl font-bold text-[#09215F]">My Shift</h1>
+                <p className="text-[#09215F]/70">
+                  {shift ? `${shift.shift_number} · opened ${new Date(shift.opened_at).toLocaleTimeString()}` : 'No shift open'}
+                </p>
+              </div>
+            </div>
+            {shift && (
+              <button
+                onClick={() => fetchReport(shift.id)}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white shadow text-[#09215F] hover:shadow-lg"
+              >
+                <RefreshCw className="h-4 w-4" /> Refresh
+              </button>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#97CF50]"></div>
+            </div>
+          ) : !shift ? (
+            <>
+              {closedReport && (
+                <div className="bg-white rounded-2xl shadow-xl p-6">
+                  <h2 className="text-xl font-semibold text-[#09215F] mb-4">Z-report</h2>
+                  <ShiftReportView report={closedReport} />
+                </div>
+              )}
+
+              <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+                <div>
+                  <h2 className="text-xl font-semibold text-[#09215F] flex items-center gap-2">
+                    <PlayCircle className="h-5 w-5 text-[#97CF50]" /> Open a shift
+                  </h2>
+                  <p className="text-sm text-[#09215F]/70">Count the float into the drawer before your first sale.</p>
+                </div>
+                <DenominationCounter value={floatCount} onChange={setFloatCount} />
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleOpen}
+                    disabled={busy}
+                    className="px-6 py-3 rounded-xl bg-[#97CF50] text-white font-semibold hover:bg-[#09215F] transition-colors disabled:opacity-50"
+                  >
+                    {busy ? 'Opening...' : 'Open shift'}
+                  </button>
+                </div>
+              </div>
+            </>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className="bg-white rounded-2xl shadow-xl p-6">
+                <h2 className="text-xl font-semibold text-[#09215F] mb-4">X-report</h2>
+                {report ? <ShiftReportView report={report} /> : <p className="text-gray-500">Loading totals...</p>}
+              </div>
+
+              <div className="space-y-6">
+                <form onSubmit={handleMovement} className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+                  <h2 className="text-xl font-semibold text-[#09215F]">Pay-in or pay-out</h2>
+                  <div className="grid grid-cols-2 gap-2">
+                    {(['pay_in', 'pay_out'] as CashMovementType[]).map(type => (
+                      <button
+                        key={type}
+                        type="button"
+                        onClick={() => setMovement({ ...movement, type })}
+                        className={`flex items-center justify-center gap-2 py-2 rounded-xl border-2 font-semibold ${
+                          movement.type === type ? 'border-[#97CF50] bg-[#97CF50]/10 text-[#09215F]' : 'border-gray-200 text-gray-500'
+                        }`}
+                      >
+                        {type === 'pay_in' ? <ArrowDownLeft className="h-4 w-4" /> : <ArrowUpRight className="h-4 w-4" />}
+                        {type === 'pay_in' ? 'Pay-in' : 'Pay-out'}
+                      </button>
+                    ))}
+                  </div>
+                  <input
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={movement.amount}
+                    onChange={(e) => setMovement({ ...movement, amount: e.target.value })}
+                    placeholder="Amount (R)"
+                    className="w-full px-3 py-2 border rounded-xl"
+                  />
+                  <input
+                    value={movement.reason}
+                    onChange={(e) => setMovement({ ...movement, reason: e.target.value })}
+                    placeholder={movement.type === 'pay_in' ? 'e.g. Extra change from safe' : 'e.g. Milk for the staff room'}
+                    className="w-full px-3 py-2 border rounded-xl"
+                  />
+                  <button
+                    type="submit"
+                    disabled={busy || !movement.amount || !movement.reason.trim()}
+                    className="w-full py-2 rounded-xl bg-[#09215F] text-white font-semibold hover:bg-[#97CF50] transition-colors disabled:opacity-50"
+                  >
+                    Record {movement.type === 'pay_in' ? 'pay-in' : 'pay-out'}
+                  </button>
+                </form>
+
+                <div className="bg-white rounded-2xl shadow-xl p-6 space-y-4">
+                  <h2 className="text-xl font-semibold text-[#09215F] flex items-center gap-2">
+                    <Lock className="h-5 w-5 text-[#97CF50]" /> Cash up and close
+                  </h2>
+                  {!showClose ? (
+                    <button
+                      onClick={() => setShowClose(true)}
+                      className="w-full py-2 rounded-xl border-2 border-[#09215F] text-[#09215F] font-semibold hover:bg-[#09215F] hover:text-white transition-colors"
+                    >
+                      Count the drawer
+                    </button>
+                  ) : (
+                    <>
+                      <p className="text-sm text-[#09215F]/70">
+                        Count everything in the drawer, including the float.
+                      </p>
+                      <DenominationCounter value={closingCount} onChange={setClosingCount} />
+                      <textarea
+                        value={closingNotes}
+                        onChange={(e) => setClosingNotes(e.target.value)}
+                        placeholder="Notes for the manager (optional)"
+                        rows={2}
+                        className="w-full px-3 py-2 border rounded-xl text-sm"
+                      />
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setShowClose(false)}
+                          className="flex-1 py-2 rounded-xl border text-gray-600"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={handleClose}
+                          disabled={busy}
+                          className="flex-1 py-2 rounded-xl bg-red-600 text-white font-semibold hover:bg-red-700 disabled:opacity-50"
+                        >
+                          {busy ? 'Closing...' : 'Close shift'}
+                        </button>
+                      </div>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </CashierLayout>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
 import { Minus, Plus, Trash2, ShoppingBag, ArrowRight, Tag, Gift, AlertCircle, Package, AlertTriangle, Share2 } from 'lucide-react';
 import { useCart } from '../../contexts/CartContext';
 import { useAuth } from '../../contexts/AuthContext';
@@ -7,6 +7,7 @@ import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import ShareCartModal from '../../components/common/ShareCartModal';
 import { ShareableCartService } from '../../utils/shareable-cart';
+import { MIN_REDEMPTION_POINTS } from '../../utils/loyalty-service';
 import { supabase } from '../../lib/supabase';
 import { toast } from 'sonner';
 
@@ -31,10 +32,13 @@ export default function Cart() {
     canShareCart,
   } = useCart();
 
-  const { user } = useAuth();
+  const { user, userProfile } = useAuth();
+  const availablePoints = userProfile?.loyalty_points || 0;
   const navigate = useNavigate();
+  const location = useLocation();
 
-  const [promoCode, setPromoCode] = useState('');
+  // A cart reminder email's discount code arrives with the restored cart
+  const [promoCode, setPromoCode] = useState<string>((location.state as { promoCode?: string } | null)?.promoCode || '');
   const [loyaltyPointsToRedeem, setLoyaltyPointsToRedeem] = useState('');
   const [isApplyingPromo, setIsApplyingPromo] = useState(false);
   const [stockStatuses, setStockStatuses] = useState<Record<string, any>>({});
@@ -197,8 +201,12 @@ export default function Cart() {
       return;
     }
 
-    const userPoints = user?.user_metadata?.loyalty_points || 0;
-    if (points > userPoints) {
+    if (points < MIN_REDEMPTION_POINTS) {
+      toast.error(`At least ${MIN_REDEMPTION_POINTS} points are needed to redeem`);
+      return;
+    }
+
+    if (points > availablePoints) {
       toast.error('You don\'t have enough loyalty points');
       return;
     }
@@ -305,6 +313,8 @@ export default function Cart() {
                     const stockStatus = stockStatuses[item.id] || { status: 'unknown', message: 'Checking...', color: 'text-gray-500 bg-gray-50' };
                     const productStock = realStockData[item.product_id] || { stock_count: 0, in_stock: false, stock_tracking: true };
                     const maxAvailable = productStock.stock_tracking ? productStock.stock_count : 10;
+                    // Bundle lines move a whole bundle at a time
+                    const step = item.combo_id ? item.quantity / (item.combo_quantity || 1) : 1;
                     
                     return (
                       <div key={item.id} className={`flex items-center space-x-6 py-6 ${
@@ -345,6 +355,15 @@ export default function Cart() {
                           </div>
 
                           <div className="flex flex-wrap gap-2">
+                            {item.combo_id && (
+                              <div className="flex items-center bg-blue-50 px-3 py-1 rounded-full border border-blue-200">
+                                <Gift className="h-3 w-3 text-blue-600 mr-1" />
+                                <span className="text-xs text-blue-700 font-medium">
+                                  Bundle: {item.combo_name} ×{item.combo_quantity || 1}
+                                </span>
+                              </div>
+                            )}
+
                             {item.promotion_id && (
                               <div className="flex items-center bg-green-50 px-3 py-1 rounded-full border border-green-200">
                                 <Tag className="h-3 w-3 text-green-600 mr-1" />
@@ -387,9 +406,9 @@ export default function Cart() {
                           {/* Quantity Controls */}
                           <div className="flex items-center bg-gray-50 rounded-xl border border-gray-200">
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity - 1)}
+                              onClick={() => handleQuantityChange(item.id, item.quantity - step)}
                               className="p-2 hover:bg-gray-100 disabled:opacity-50 rounded-l-xl transition-colors"
-                              disabled={item.quantity <= 1}
+                              disabled={item.quantity <= step}
                             >
                               <Minus className="h-4 w-4 text-[#09215F]" />
                             </button>
@@ -397,9 +416,9 @@ export default function Cart() {
                               {item.quantity}
                             </span>
                             <button
-                              onClick={() => handleQuantityChange(item.id, item.quantity + 1)}
+                              onClick={() => handleQuantityChange(item.id, item.quantity + step)}
                               className="p-2 hover:bg-gray-100 rounded-r-xl transition-colors disabled:opacity-50"
-                              disabled={!productStock.in_stock || item.quantity >= Math.min(maxAvailable, 10)}
+                              disabled={!productStock.in_stock || item.quantity + step > Math.min(maxAvailable, 10)}
                             >
                               <Plus className="h-4 w-4 text-[#09215F]" />
                             </button>
@@ -501,7 +520,7 @@ export default function Cart() {
               {user && (
                 <div>
                   <label className="block text-lg font-semibold text-[#09215F] mb-3">
-                    Loyalty Points (Available: {user.user_metadata?.loyalty_points || 0})
+                    Loyalty Points (Available: {availablePoints})
                   </label>
                   <div className="flex space-x-3">
                     <input
@@ -509,7 +528,7 @@ export default function Cart() {
                       value={loyaltyPointsToRedeem}
                       onChange={(e) => setLoyaltyPointsToRedeem(e.target.value)}
                       placeholder="Points to redeem"
-                      max={user.user_metadata?.loyalty_points || 0}
+                      max={availablePoints}
                       className="flex-1 px-4 py-3 border border-gray-300 rounded-xl focus:outline-none focus:ring-2 focus:ring-[#97CF50] focus:border-transparent transition-all duration-300"
                     />
                     <button
@@ -521,7 +540,7 @@ export default function Cart() {
                     </button>
                   </div>
                   <p className="text-sm text-[#09215F]/60 mt-2">
-                    1 point = R0.01 • Minimum 100 points
+                    1 point = R0.01 • Minimum {MIN_REDEMPTION_POINTS} points • Confirmed at checkout
                   </p>
                 </div>
               )}
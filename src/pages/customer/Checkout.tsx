@@ -1,25 +1,26 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate, useParams, useLocation, useSearchParams } from 'react-router-dom';
-import { CreditCard, Truck, MapPin, Check, ArrowLeft, Package, ShoppingBag } from 'lucide-react';
-// import { Elements } from '@stripe/react-stripe-js';
+import { CreditCard, Truck, MapPin, Check, ArrowLeft, Package, ShoppingBag, Clock } from 'lucide-react';
+import { Elements } from '@stripe/react-stripe-js';
 import { useCart } from '../../contexts/CartContext';
 import { useAuth } from '../../contexts/AuthContext';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import { OrderService, OrderData } from '../../utils/order-service';
+import { PricingService, PricingQuote } from '../../utils/pricing-service';
 import { ShareableCartService, ShareableCart } from '../../utils/shareable-cart';
-import { sendOrderConfirmation } from '../../utils/order-email-integration';
-// import { getStripe } from '../../config/stripe';
-// import StripePaymentForm from '../../components/payment/StripePaymentForm';
-import CustomPaymentForm from '../../components/payment/CustomPaymentForm';
+import { ShippingService } from '../../utils/shipping-service';
+import { CollectionService, PickupSlot } from '../../utils/collection-service';
+import { getStripe } from '../../config/stripe';
+import StripePaymentForm from '../../components/payment/StripePaymentForm';
 import AddressSelector from '../../components/address/AddressSelector';
 import { Address } from '../../utils/address-service';
 import { toast } from 'sonner';
 
 
 export default function Checkout() {
-  const { items, subtotal, discount_amount, total, loyalty_points_used, loyalty_discount, free_shipping, clearCart } = useCart();
-  const { user, userProfile } = useAuth();
+  const { items, subtotal, discount_amount, total, loyalty_points_used, loyalty_discount, free_shipping, applied_promotions, clearCart } = useCart();
+  const { user, userProfile, refreshUserProfile } = useAuth();
   const navigate = useNavigate();
   const location = useLocation();
   const [searchParams] = useSearchParams();
@@ -55,15 +56,96 @@ export default function Checkout() {
   });
 
   const [stripePaymentMethodId, setStripePaymentMethodId] = useState<string>('');
+  // An order whose card payment did not go through; paying again reuses it
+  const [unpaidOrder, setUnpaidOrder] = useState<{ id: string; order_number: string; quoteToken: string } | null>(null);
+  const [quote, setQuote] = useState<PricingQuote | null>(null);
+  const [quoteToken, setQuoteToken] = useState<string>('');
+  const [shippingMethodId, setShippingMethodId] = useState<string | null>(null);
+  const [pickupSlots, setPickupSlots] = useState<PickupSlot[]>([]);
+  const [pickupSlot, setPickupSlot] = useState<PickupSlot | null>(null);
 
   // Calculate totals based on whether it's a shared cart or regular cart
   const cartItems = isSharedCart && sharedCart ? sharedCart.cart_data.items : items;
-  const cartSubtotal = isSharedCart && sharedCart ? sharedCart.cart_data.subtotal : subtotal;
-  const cartDiscount = isSharedCart && sharedCart ? sharedCart.cart_data.discount_amount : discount_amount;
+  const cartPromotions = isSharedCart && sharedCart ? sharedCart.cart_data.applied_promotions : applied_promotions;
+  const promoCodes = (cartPromotions || []).map((p: any) => p.code).filter(Boolean);
+  // Points belong to the signed-in shopper, never to whoever shared the cart
+  const redeemPoints = user && !isSharedCart ? loyalty_points_used : 0;
+  const cartSubtotal = quote ? quote.subtotal : (isSharedCart && sharedCart ? sharedCart.cart_data.subtotal : subtotal);
+  const cartDiscount = quote ? quote.discount_amount : (isSharedCart && sharedCart ? sharedCart.cart_data.discount_amount : discount_amount);
   const cartTotal = isSharedCart && sharedCart ? sharedCart.cart_data.total : total;
   
-  const shippingCost = (free_shipping || cartTotal >= 500) ? 0 : 50;
-  const finalTotal = cartTotal + shippingCost;
+  // The server quote is authoritative; the cart's own numbers are shown until it arrives
+  const shippingCost = quote ? quote.shipping_amount : ((free_shipping || cartTotal >= 500) ? 0 : 50);
+  const finalTotal = quote ? quote.total : cartTotal + shippingCost;
+
+  // Delivery is priced for the address once the postal code is complete
+  const destination = shippingInfo.province || shippingInfo.postalCode.trim().length >= 4
+    ? { province: shippingInfo.province || undefined, postal_code: shippingInfo.postalCode.trim().length >= 4 ? shippingInfo.postalCode.trim() : undefined }
+    : null;
+
+  const quoteKey = cartItems.map((item: any) => `${item.combo_id || ''}:${item.product_id}:${item.variant_id || ''}:${item.quantity}`).join(',') + '|' + promoCodes.join(',') + '|' + redeemPoints
+    + '|' + (destination ? `${destination.province || ''}:${destination.postal_code || ''}` : '') + '|' + (shippingMethodId || '');
+
+  const refreshQuote = async () => {
+    const result = await PricingService.getQuote({
+      items: cartItems.map((item: any) => ({
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        quantity: item.quantity,
+        combo_id: item.combo_id,
+        combo_item_id: item.combo_item_id,
+      })),
+      promoCodes,
+      channel: 'online',
+      loyaltyPoints: redeemPoints || undefined,
+      destination,
+      shippingMethodId,
+    });
+
+    // A method picked for the old address may not reach the new one; fall back to the cheapest
+    if (!result.success && shippingMethodId && result.status === 409) {
+      setShippingMethodId(null);
+      return null;
+    }
+
+    if (!result.success || !result.data) {
+      toast.error(result.error || 'Could not confirm cart prices');
+      setQuote(null);
+      setQuoteToken('');
+      return null;
+    }
+
+    result.data.quote.rejected_codes.forEach(rejected => {
+      toast.error(`${rejected.code}: ${rejected.reason}`);
+    });
+    setQuote(result.data.quote);
+    setQuoteToken(result.data.token);
+    return result.data;
+  };
+
+  useEffect(() => {
+    if (cartItems.length > 0) {
+      refreshQuote();
+    }
+  }, [quoteKey]);
+
+  const collecting = quote?.shipping_method?.type === 'collect';
+
+  // Slots fill up, so they are fetched fresh whenever collection is chosen
+  useEffect(() => {
+    if (!collecting) {
+      setPickupSlot(null);
+      return;
+    }
+    CollectionService.getSlots().then(result => {
+      if (!result.success) {
+        toast.error(result.error || 'Could not load pickup times');
+        return;
+      }
+      setPickupSlots(result.data || []);
+      setPickupSlot(current => (result.data || []).find(slot => slot.start === current?.start) || null);
+    });
+  }, [collecting]);
 
   // Load shared cart data if this is a shared cart checkout
   useEffect(() => {
@@ -169,6 +251,19 @@ export default function Checkout() {
       }
     }
 
+    if (!quote) {
+      toast.error('We could not price delivery to this address, please check it and try again');
+      return;
+    }
+    if (quote.shipping_required && !quote.shipping_method) {
+      toast.error('Please choose a delivery method');
+      return;
+    }
+    if (collecting && !pickupSlot) {
+      toast.error('Please choose when you will collect your order');
+      return;
+    }
+
     setCurrentStep(2);
   };
 
@@ -207,6 +302,21 @@ export default function Checkout() {
     setLoading(true);
     
     try {
+      const stripe = await getStripe();
+      if (!stripe) {
+        toast.error('Card payments are not available right now. Please try again later.');
+        return;
+      }
+
+      // Re-price if the quote is about to expire so the order is checked against current prices
+      const priced = unpaidOrder?.quoteToken === quoteToken
+        ? { quote: quote!, token: quoteToken }
+        : PricingService.isStale(quote) ? await refreshQuote() : { quote: quote!, token: quoteToken };
+      if (!priced) {
+        return;
+      }
+      const pricedQuote = priced.quote;
+
       // Prepare order data
       const orderData: OrderData = {
         customer_id: isSharedCart ? null : userProfile?.id, // No user ID for shared cart
@@ -236,6 +346,8 @@ export default function Checkout() {
           postal_code: shippingInfo.postalCode,
           province: shippingInfo.province,
         },
+        pickup_slot_start: collecting ? pickupSlot?.start : null,
+        pickup_slot_end: collecting ? pickupSlot?.end : null,
         payment_method: 'credit_card',
         payment_details: {
           card_name: paymentInfo.cardName || shippingInfo.firstName + ' ' + shippingInfo.lastName,
@@ -243,94 +355,81 @@ export default function Checkout() {
           card_last_four: paymentInfo.cardNumber.slice(-4) || '****',
           stripe_payment_method_id: stripePaymentMethodId,
         },
-        subtotal: cartSubtotal,
-        shipping_amount: shippingCost,
-        discount_amount: cartDiscount,
-        total_amount: finalTotal,
-        currency: 'USD',
-        items: cartItems.map(item => ({
-          product_id: item.product_id,
-          product_snapshot: {
-            name: item.name,
-            price: item.price,
-            image_url: item.image_url,
-            description: item.description,
-            category: item.category,
-          },
-          quantity: item.quantity,
-          unit_price: item.price,
-          total_price: item.price * item.quantity,
-        })),
+        subtotal: pricedQuote.subtotal,
+        shipping_amount: pricedQuote.shipping_amount,
+        discount_amount: pricedQuote.discount_amount,
+        total_amount: pricedQuote.total,
+        currency: 'ZAR',
+        pricing_quote: priced.token,
+        // Stays pending until the Stripe webhook reports the card payment
+        awaitingPayment: true,
+        items: pricedQuote.lines.map(line => {
+          const item: any = cartItems.find((cartItem: any) =>
+            cartItem.product_id === line.product_id &&
+            (cartItem.combo_id || null) === line.combo_id &&
+            (!!line.combo_id || (cartItem.variant_id || null) === line.variant_id)
+          );
+          const combo = line.combo_id ? pricedQuote.combos.find(c => c.combo_id === line.combo_id) : undefined;
+          return {
+            product_id: line.product_id,
+            variant_id: line.variant_id,
+            item_type: combo ? 'combo' as const : 'product' as const,
+            combo_id: line.combo_id,
+            combo_snapshot: combo ? { ...combo, combo_item_id: line.combo_item_id } : null,
+            product_snapshot: {
+              name: line.name,
+              price: line.unit_price,
+              image_url: item?.image_url,
+              description: item?.description,
+              category: item?.category,
+            },
+            quantity: line.quantity,
+            unit_price: line.unit_price,
+            total_price: line.line_total,
+          };
+        }),
       };
 
-      // Create the order in the database
-      const result = await OrderService.createOrder(orderData);
+      // Create the order in the database, unless an earlier attempt to pay for it failed
+      const result = unpaidOrder?.quoteToken === priced.token
+        ? { success: true, data: unpaidOrder }
+        : await OrderService.createOrder(orderData);
       
       if (result.success) {
+        const order = { id: result.data.id, order_number: result.data.order_number, quoteToken: priced.token };
+        setUnpaidOrder(order);
+
+        // The server charges the order's confirmed total; the card is confirmed here and the
+        // webhook marks the order paid, takes the stock and emails the confirmation
+        const intent = await OrderService.createPaymentIntent(
+          { id: order.id, order_number: order.order_number, total: pricedQuote.total, currency: 'ZAR', customer_email: shippingInfo.email },
+          `${shippingInfo.firstName} ${shippingInfo.lastName}`
+        );
+        if (!intent.success || !intent.data?.clientSecret) {
+          toast.error(intent.error || 'Could not start the card payment');
+          return;
+        }
+
+        const { error: paymentError, paymentIntent } = await stripe.confirmCardPayment(intent.data.clientSecret, {
+          payment_method: stripePaymentMethodId,
+        });
+        if (paymentError || !paymentIntent || !['succeeded', 'processing'].includes(paymentIntent.status)) {
+          toast.error(`Payment failed: ${paymentError?.message || 'the card was not charged'}`);
+          setStripePaymentMethodId('');
+          setCurrentStep(2);
+          return;
+        }
+        setUnpaidOrder(null);
+
         // If this is a shared cart, mark it as paid
         if (isSharedCart && sharedCartToken) {
-          await ShareableCartService.markAsPaid(sharedCartToken, result.data?.id || '');
+          await ShareableCartService.markAsPaid(sharedCartToken, order.id);
         }
         
-        const orderNumber = result.data?.order_number || 'Unknown';
-        const orderId = result.data?.id;
+        const orderNumber = order.order_number;
         
-        // Send order confirmation email
-        try {
-          console.log('📧 Sending order confirmation email...');
-          
-          // Prepare order data for email
-          const emailOrderData = {
-            id: orderId,
-            customer_email: shippingInfo.email,
-            customer_name: `${shippingInfo.firstName} ${shippingInfo.lastName}`,
-            order_number: orderNumber,
-            order_date: new Date().toLocaleDateString('en-US', {
-              year: 'numeric',
-              month: 'long',
-              day: 'numeric'
-            }),
-            status: 'Processing',
-            payment_method: 'Credit Card', // You can make this dynamic based on payment info
-            items: cartItems.map(item => ({
-              product_id: item.product_id,
-              name: item.name,
-              sku: item.product_id, // You might want to add SKU to your product data
-              quantity: item.quantity,
-              price: item.price,
-              image_url: item.image_url || 'https://via.placeholder.com/300x300?text=Product+Image'
-            })),
-            subtotal: subtotal,
-            shipping_cost: 0, // Free shipping for now
-            discount_amount: discount_amount || 0,
-            discount_code: '', // Add discount code if applicable
-            tax_amount: 0, // You can calculate tax if needed
-            total_amount: total,
-            shipping_address: {
-              name: `${shippingInfo.firstName} ${shippingInfo.lastName}`,
-              line1: shippingInfo.address,
-              line2: '',
-              city: shippingInfo.city,
-              state: shippingInfo.province,
-              zip: shippingInfo.postalCode,
-              country: 'South Africa' // Default to South Africa
-            },
-            estimated_delivery_days: 3
-          };
-          
-          const emailResult = await sendOrderConfirmation(emailOrderData);
-          
-          if (emailResult.success) {
-            console.log('✅ Order confirmation email sent successfully');
-            toast.success(`Order ${orderNumber} placed successfully! Confirmation email sent.`);
-          } else {
-            console.warn('⚠️ Order placed but email failed:', emailResult.error);
-            toast.success(`Order ${orderNumber} placed successfully! (Email notification failed)`);
-          }
-        } catch (emailError) {
-          console.error('❌ Error sending order confirmation email:', emailError);
-          toast.success(`Order ${orderNumber} placed successfully! (Email notification failed)`);
-        }
+        // The server emails the confirmation once the payment is received
+        toast.success(`Order ${orderNumber} placed successfully!`);
         
         if (isSharedCart) {
           // For shared cart, redirect to home with success message
@@ -342,6 +441,9 @@ export default function Checkout() {
         } else {
           // Clear cart and navigate to orders for regular checkout
           await clearCart();
+          if (pricedQuote.loyalty_points_used > 0) {
+            await refreshUserProfile();
+          }
           navigate('/orders');
         }
       } else {
@@ -620,6 +722,88 @@ export default function Checkout() {
                     </div>
                   )}
                   
+                  {quote && quote.shipping_options.length > 0 && (
+                    <div className="mt-8">
+                      <h3 className="text-lg font-semibold text-[#09215F] mb-4 flex items-center">
+                        <Truck className="h-5 w-5 mr-2 text-[#97CF50]" />
+                        Delivery Method
+                      </h3>
+                      <div className="space-y-3">
+                        {quote.shipping_options.map(option => {
+                          const selected = quote.shipping_method?.code === option.code;
+                          return (
+                            <label
+                              key={option.code}
+                              className={`flex items-center justify-between p-4 border-2 rounded-xl cursor-pointer transition-all duration-300 ${
+                                selected ? 'border-[#97CF50] bg-[#97CF50]/5' : 'border-gray-200 hover:border-[#97CF50]/50'
+                              }`}
+                            >
+                              <div className="flex items-center">
+                                <input
+                                  type="radio"
+                                  name="shipping-method"
+                                  checked={selected}
+                                  onChange={() => setShippingMethodId(option.method_id)}
+                                  className="mr-4 accent-[#97CF50]"
+                                />
+                                <div>
+                                  <p className="font-semibold text-[#09215F]">{option.name}</p>
+                                  <p className="text-sm text-[#09215F]/60">
+                                    {[option.description, ShippingService.describeEstimate(option.min_days, option.max_days)].filter(Boolean).join(' · ')}
+                                  </p>
+                                </div>
+                              </div>
+                              <span className="font-semibold text-[#09215F]">
+                                {option.amount === 0 ? <span className="text-green-600">FREE</span> : `R${option.amount.toFixed(2)}`}
+                              </span>
+                            </label>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  )}
+
+                  {collecting && (
+                    <div className="mt-8">
+                      <h3 className="text-lg font-semibold text-[#09215F] mb-2 flex items-center">
+                        <Clock className="h-5 w-5 mr-2 text-[#97CF50]" />
+                        Pickup Time
+                      </h3>
+                      <p className="text-sm text-[#09215F]/60 mb-4">
+                        We'll email you a collection code when your order is packed and waiting at the counter.
+                      </p>
+                      {pickupSlots.length === 0 ? (
+                        <p className="text-sm text-[#09215F]/70 bg-gray-50 border border-gray-200 p-4 rounded-xl">
+                          There are no pickup times left this week. Please choose delivery instead.
+                        </p>
+                      ) : (
+                        <div className="space-y-4 max-h-72 overflow-y-auto">
+                          {Array.from(new Set(pickupSlots.map(slot => CollectionService.slotDay(slot.start)))).map(day => (
+                            <div key={day}>
+                              <p className="text-sm font-semibold text-[#09215F] mb-2">{day}</p>
+                              <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                {pickupSlots.filter(slot => CollectionService.slotDay(slot.start) === day).map(slot => (
+                                  <button
+                                    type="button"
+                                    key={slot.start}
+                                    onClick={() => setPickupSlot(slot)}
+                                    className={`px-3 py-2 rounded-xl border-2 text-sm font-medium transition-all duration-300 ${
+                                      pickupSlot?.start === slot.start
+                                        ? 'border-[#97CF50] bg-[#97CF50]/10 text-[#09215F]'
+                                        : 'border-gray-200 text-[#09215F]/80 hover:border-[#97CF50]/50'
+                                    }`}
+                                  >
+                                    {new Date(slot.start).toLocaleTimeString('en-ZA', { timeZone: 'Africa/Johannesburg', hour: '2-digit', minute: '2-digit' })}
+                                  </button>
+                                ))}
+                              </div>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   <div className="mt-8">
                     <button
                       type="submit"
@@ -635,15 +819,17 @@ export default function Checkout() {
             {/* Step 2: Payment Information */}
             {currentStep === 2 && (
               <>
-                <CustomPaymentForm
-                  amount={finalTotal}
-                  currency="zar"
-                  onSuccess={handleStripePaymentSuccess}
-                  onError={handleStripePaymentError}
-                  onBack={() => setCurrentStep(1)}
-                  customerEmail={shippingInfo.email}
-                  customerName={`${shippingInfo.firstName} ${shippingInfo.lastName}`}
-                />
+                <Elements stripe={getStripe()}>
+                  <StripePaymentForm
+                    amount={finalTotal}
+                    currency="zar"
+                    onSuccess={handleStripePaymentSuccess}
+                    onError={handleStripePaymentError}
+                    onBack={() => setCurrentStep(1)}
+                    customerEmail={shippingInfo.email}
+                    customerName={`${shippingInfo.firstName} ${shippingInfo.lastName}`}
+                  />
+                </Elements>
               </>
             )}
 
@@ -668,6 +854,14 @@ export default function Checkout() {
                     <p className="text-[#09215F]/80 mt-1">{shippingInfo.address}</p>
                     <p className="text-[#09215F]/80">{shippingInfo.city}, {shippingInfo.province} {shippingInfo.postalCode}</p>
                     <p className="text-[#09215F]/80">{shippingInfo.phone}</p>
+                    {quote?.shipping_method && (
+                      <p className="text-[#09215F]/80 mt-3 flex items-center">
+                        <Truck className="h-4 w-4 mr-2 text-[#97CF50]" />
+                        {collecting && pickupSlot
+                          ? `${quote.shipping_method.name} · ${CollectionService.formatSlot(pickupSlot.start, pickupSlot.end)}`
+                          : `${quote.shipping_method.name} · ${ShippingService.describeEstimate(quote.shipping_method.min_days, quote.shipping_method.max_days)}`}
+                      </p>
+                    )}
                   </div>
                   <button
                     onClick={() => setCurrentStep(1)}
@@ -758,15 +952,22 @@ export default function Checkout() {
                   <span className="font-semibold text-[#09215F]">R{cartSubtotal.toFixed(2)}</span>
                 </div>
                 
-                {cartDiscount > 0 && (
+                {cartDiscount - (quote?.loyalty_discount || 0) > 0 && (
                   <div className="flex justify-between text-lg">
                     <span className="text-green-600">Discounts</span>
-                    <span className="text-green-600 font-semibold">-R{cartDiscount.toFixed(2)}</span>
+                    <span className="text-green-600 font-semibold">-R{(cartDiscount - (quote?.loyalty_discount || 0)).toFixed(2)}</span>
+                  </div>
+                )}
+
+                {quote && quote.loyalty_discount > 0 && (
+                  <div className="flex justify-between text-lg">
+                    <span className="text-purple-600">Loyalty Points ({quote.loyalty_points_used} points)</span>
+                    <span className="text-purple-600 font-semibold">-R{quote.loyalty_discount.toFixed(2)}</span>
                   </div>
                 )}
                 
                 <div className="flex justify-between text-lg">
-                  <span className="text-[#09215F]/80">Shipping</span>
+                  <span className="text-[#09215F]/80">{quote?.shipping_method?.name || 'Shipping'}</span>
                   <span className="font-semibold text-[#09215F]">
                     {shippingCost === 0 ? (
                       <span className="text-green-600">FREE</span>
@@ -780,6 +981,12 @@ export default function Checkout() {
                   <span>Total</span>
                   <span>R{finalTotal.toFixed(2)}</span>
                 </div>
+
+                {quote && quote.loyalty_points_earned > 0 && (
+                  <p className="text-sm text-purple-600 text-center">
+                    You'll earn {quote.loyalty_points_earned} loyalty points once payment is received
+                  </p>
+                )}
               </div>
 
               {/* Security Badge */}
@@ -0,0 +1,259 @@
+import React, { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { Plus, Minus, ShoppingCart, ArrowLeft, Package, AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import { useCart } from '../../contexts/CartContext';
+import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
+import LoadingSpinner from '../../components/common/LoadingSpinner';
+import { Combo, ComboItem, ComboProduct, ComboService } from '../../utils/combo-service';
+
+export default function ComboDetails() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { addCombo } = useCart();
+
+  const [combo, setCombo] = useState<Combo | null>(null);
+  const [comboLoading, setComboLoading] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [bundles, setBundles] = useState(1);
+  // Chosen product per combo item, and which optional items are left out
+  const [chosen, setChosen] = useState<Record<string, ComboProduct>>({});
+  const [excluded, setExcluded] = useState<Record<string, boolean>>({});
+  const [substitutes, setSubstitutes] = useState<Record<string, ComboProduct[]>>({});
+
+  useEffect(() => {
+    const fetchCombo = async () => {
+      if (!id) return;
+      setComboLoading(true);
+
+      const data = await ComboService.getCombo(id);
+      setCombo(data);
+
+      if (data) {
+        setBundles(Math.max(1, data.minimum_quantity || 1));
+        setChosen(Object.fromEntries(
+          data.combo_items.filter(item => item.product).map(item => [item.id, item.product!])
+        ));
+
+        const options = await Promise.all(
+          data.combo_items.map(async item => [item.id, await ComboService.getSubstitutes(item)] as const)
+        );
+        setSubstitutes(Object.fromEntries(options));
+      }
+
+      setComboLoading(false);
+    };
+
+    fetchCombo();
+  }, [id]);
+
+  if (comboLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <LoadingSpinner />
+      </div>
+    );
+  }
+
+  if (!combo || !ComboService.isAvailable(combo)) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <AlertTriangle className="h-12 w-12 text-destructive mx-auto mb-4" />
+          <h2 className="text-xl font-semibold text-foreground mb-2">Bundle Not Available</h2>
+          <p className="text-muted-foreground mb-4">This bundle has ended or does not exist.</p>
+          <button
+            onClick={() => navigate('/products')}
+            className="bg-primary text-primary-foreground px-4 py-2 rounded-md hover:bg-primary/90"
+          >
+            Back to Products
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const isOptional = (item: ComboItem) => !combo.requires_all_items && !item.is_required;
+  const selections = combo.combo_items
+    .filter(item => chosen[item.id] && !excluded[item.id])
+    .map(item => ({ item, product: chosen[item.id] }));
+  const preview = ComboService.previewSelection(combo, selections);
+  const minimum = Math.max(1, combo.minimum_quantity || 1);
+  const maximum = combo.maximum_quantity || 10;
+  const outOfStock = selections.some(({ item, product }) =>
+    product.stock_quantity != null && product.stock_quantity < item.quantity * bundles
+  );
+
+  const handleAddToCart = async () => {
+    setLoading(true);
+    try {
+      await addCombo(combo, selections, bundles);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Back Navigation */}
+      <div className="bg-card text-card-foreground shadow-sm border-b">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center py-4">
+            <button
+              onClick={() => navigate(-1)}
+              className="flex items-center text-muted-foreground hover:text-foreground transition-colors"
+            >
+              <ArrowLeft className="h-5 w-5 mr-2" />
+              Back
+            </button>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          {/* Bundle Image */}
+          <div className="aspect-square bg-card rounded-2xl overflow-hidden shadow-lg relative flex items-center justify-center">
+            <ImageWithFallback
+              src={combo.image_url || combo.combo_items[0]?.product?.images?.[0] || ''}
+              alt={combo.name}
+              className="w-full h-full object-contain"
+            />
+            {ComboService.getSavingsPercent(combo) > 0 && (
+              <div className="absolute top-4 left-4 bg-destructive text-destructive-foreground px-3 py-1 rounded-full text-sm font-semibold">
+                Save {ComboService.getSavingsPercent(combo)}%
+              </div>
+            )}
+          </div>
+
+          {/* Bundle Info */}
+          <div className="space-y-6">
+            <div>
+              <div className="flex items-center gap-2 text-sm text-muted-foreground mb-2">
+                <Package className="h-4 w-4" />
+                Bundle
+              </div>
+              <h1 className="text-3xl font-bold text-foreground mb-2">{combo.name}</h1>
+              {combo.description && (
+                <p className="text-muted-foreground">{combo.description}</p>
+              )}
+            </div>
+
+            <div className="flex items-baseline gap-3">
+              <span className="text-3xl font-bold text-foreground">R{preview.bundlePrice.toFixed(2)}</span>
+              {preview.originalPrice > preview.bundlePrice && (
+                <span className="text-lg text-muted-foreground line-through">R{preview.originalPrice.toFixed(2)}</span>
+              )}
+            </div>
+
+            {/* Items */}
+            <div className="space-y-3">
+              <h3 className="font-semibold text-foreground">What's in the bundle</h3>
+              {combo.combo_items.map(item => {
+                const product = chosen[item.id];
+                const options = substitutes[item.id] || [];
+                const line = preview.lines.find(l => l.item.id === item.id);
+
+                return (
+                  <div key={item.id} className={`border rounded-lg p-3 ${excluded[item.id] ? 'opacity-50' : ''}`}>
+                    <div className="flex items-center gap-3">
+                      <ImageWithFallback
+                        src={product?.images?.[0] || ''}
+                        alt={product?.name || ''}
+                        className="w-14 h-14 object-contain rounded-md bg-card"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground">
+                          {item.quantity} × {product?.name}
+                        </p>
+                        {line && (
+                          <p className="text-sm text-muted-foreground">
+                            R{line.bundle_share.toFixed(2)} in this bundle
+                          </p>
+                        )}
+                      </div>
+                      {isOptional(item) && (
+                        <label className="flex items-center text-sm text-muted-foreground">
+                          <input
+                            type="checkbox"
+                            checked={!excluded[item.id]}
+                            onChange={(e) => setExcluded({ ...excluded, [item.id]: !e.target.checked })}
+                            className="mr-2"
+                          />
+                          Include
+                        </label>
+                      )}
+                    </div>
+
+                    {item.can_substitute && options.length > 0 && !excluded[item.id] && (
+                      <div className="mt-3 flex items-center gap-2">
+                        <RefreshCw className="h-4 w-4 text-muted-foreground" />
+                        <select
+                          value={product?.id || item.product_id}
+                          onChange={(e) => {
+                            const next = e.target.value === item.product_id
+                              ? item.product
+                              : options.find(option => option.id === e.target.value);
+                            if (next) setChosen({ ...chosen, [item.id]: next });
+                          }}
+                          className="flex-1 px-3 py-2 border border-input rounded-md bg-card text-sm"
+                        >
+                          {item.product && <option value={item.product_id}>{item.product.name}</option>}
+                          {options
+                            .filter(option => option.id !== item.product_id)
+                            .map(option => (
+                              <option key={option.id} value={option.id}>{option.name}</option>
+                            ))}
+                        </select>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Bundles */}
+            <div className="flex items-center gap-4">
+              <span className="text-sm font-medium text-foreground">Bundles:</span>
+              <div className="flex items-center border border-input rounded-lg bg-card">
+                <button
+                  onClick={() => setBundles(Math.max(minimum, bundles - 1))}
+                  disabled={bundles <= minimum}
+                  className="p-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <Minus className="h-4 w-4" />
+                </button>
+                <span className="px-4 py-2 text-center min-w-[3rem]">{bundles}</span>
+                <button
+                  onClick={() => setBundles(Math.min(maximum, bundles + 1))}
+                  disabled={bundles >= maximum}
+                  className="p-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
+                >
+                  <Plus className="h-4 w-4" />
+                </button>
+              </div>
+              <span className="text-sm text-muted-foreground">
+                Total R{(preview.bundlePrice * bundles).toFixed(2)}
+              </span>
+            </div>
+
+            <button
+              onClick={handleAddToCart}
+              disabled={loading || outOfStock || selections.length === 0}
+              className="w-full bg-primary text-primary-foreground py-3 px-6 rounded-lg font-semibold hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+            >
+              {loading ? (
+                <Loader2 className="h-5 w-5 animate-spin" />
+              ) : (
+                <ShoppingCart className="h-5 w-5" />
+              )}
+              {outOfStock ? 'Out of Stock' : 'Add Bundle to Cart'}
+            </button>
+            <p className="text-xs text-muted-foreground">
+              Final prices are confirmed at checkout.
+            </p>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
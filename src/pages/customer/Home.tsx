@@ -6,7 +6,9 @@ import ProductCard from '../../components/common/ProductCard';
 import ProductCarousel from '../../components/common/ProductCarousel';
 import SalesSection from '../../components/common/SalesSection';
 import CategoryShowcase from '../../components/common/CategoryShowcase';
-import ProductFilters from '../../components/common/ProductFilters';
+import ProductFilters, { applyProductFilters, hasActiveFilters } from '../../components/common/ProductFilters';
+import { ComboCard } from '../../components/customer/ComboCard';
+import { Combo, ComboService } from '../../utils/combo-service';
 import { supabase } from '../../lib/supabase';
 import { projectId, publicAnonKey } from '../../utils/supabase/info';
 import { motion, AnimatePresence } from 'framer-motion';
@@ -316,6 +318,7 @@ export default function Home() {
   const [trendingProducts, setTrendingProducts] = useState<any[]>([]);
   const [newProducts, setNewProducts] = useState<any[]>([]);
   const [topRatedProducts, setTopRatedProducts] = useState<any[]>([]);
+  const [bundleDeals, setBundleDeals] = useState<Combo[]>([]);
   const [showFilters, setShowFilters] = useState(false);
   
   // Filter state
@@ -398,8 +401,8 @@ export default function Home() {
           null,
         category: product.categories?.name || 'General',
         image_url: product.images?.[0] || '/api/placeholder/400/400',
-        rating: 4.5, // Default rating - can be enhanced with reviews table later
-        reviews: Math.floor(Math.random() * 200) + 50, // Default reviews count
+        rating: Number(product.rating_average || 0),
+        reviews: product.rating_count || 0,
         featured: true,
         description: product.short_description || product.description || 'High-quality cleaning product',
         in_stock: product.stock_quantity > 0,
@@ -514,8 +517,8 @@ export default function Home() {
           null,
         category: product.categories?.name || 'General',
         image_url: product.images?.[0] || '/api/placeholder/400/400',
-        rating: 4.5, // Default rating - can be enhanced with reviews table later
-        reviews: Math.floor(Math.random() * 200) + 50, // Default reviews count
+        rating: Number(product.rating_average || 0),
+        reviews: product.rating_count || 0,
         featured: product.is_featured,
         description: product.short_description || product.description || 'High-quality cleaning product',
         in_stock: product.stock_quantity > 0,
@@ -532,7 +535,12 @@ export default function Home() {
       // Set different product collections
       setTrendingProducts(transformedProducts.filter(p => p.featured).slice(0, 8));
       setNewProducts(transformedProducts.slice(0, 8));
-      setTopRatedProducts([...transformedProducts].sort((a, b) => b.rating - a.rating).slice(0, 8));
+      setTopRatedProducts(
+        transformedProducts
+          .filter(p => p.reviews > 0)
+          .sort((a, b) => b.rating - a.rating || b.reviews - a.reviews)
+          .slice(0, 8)
+      );
       
     } catch (err) {
       console.error('Failed to fetch all products:', err);
@@ -557,6 +565,10 @@ export default function Home() {
     return `/products?${params.toString()}`;
   };
 
+  useEffect(() => {
+    ComboService.getActiveCombos(4).then(setBundleDeals);
+  }, []);
+
   // Add this useEffect for slide rotation
   useEffect(() => {
     if (activePromotions.length === 0) return;
@@ -612,6 +624,9 @@ export default function Home() {
     return Math.max(...allProducts.map(p => p.price), 1000);
   };
 
+  const filtersActive = hasActiveFilters(filters, getMaxPrice());
+  const filteredProducts = filtersActive ? applyProductFilters(allProducts, filters) : [];
+
   return (
     <div className="min-h-screen bg-white dark:bg-gray-900">
       {/* Server Status Diagnostic Banner - HIDDEN */}
@@ -766,6 +781,23 @@ export default function Home() {
         </div>
       </section>
 
+      {/* Bundle Deals */}
+      {bundleDeals.length > 0 && (
+        <section className="py-12 sm:py-16 bg-white dark:bg-gray-900">
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+            <div className="text-center mb-8">
+              <h2 className="text-3xl font-bold text-[#09215F] dark:text-white mb-2">📦 Bundle Deals</h2>
+              <p className="text-gray-600 dark:text-gray-400">Save more when you buy these products together</p>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+              {bundleDeals.map(combo => (
+                <ComboCard key={combo.id} combo={combo} />
+              ))}
+            </div>
+          </div>
+        </section>
+      )}
+
       {/* Hot Deals & Promotions Section */}
       {/* <PromotionsSection /> Removed as promotions are now in the hero section */}
 
@@ -784,6 +816,25 @@ export default function Home() {
         </section>
       )}
 
+      {/* Filter Results */}
+      {filtersActive && (
+        filteredProducts.length > 0 ? (
+          <ProductCarousel
+            products={filteredProducts}
+            title="Matching Products"
+            subtitle={`${filteredProducts.length} ${filteredProducts.length === 1 ? 'product matches' : 'products match'} your filters`}
+            showViewAll={false}
+            maxItems={8}
+          />
+        ) : (
+          <section className="py-12">
+            <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 text-center text-gray-600">
+              No products match your filters.
+            </div>
+          </section>
+        )
+      )}
+
       {/* Featured Products */}
       <ProductCarousel
         products={featuredProducts}
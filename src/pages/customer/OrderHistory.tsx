@@ -1,20 +1,28 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Package, Truck, CheckCircle, XCircle, Eye, RotateCcw, Calendar, Clock, ShoppingBag } from 'lucide-react';
+import { Package, Truck, CheckCircle, XCircle, Eye, RotateCcw, Calendar, Clock, ShoppingBag, FileText } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
 import { useCart } from '../../contexts/CartContext';
 import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import { OrderService } from '../../utils/order-service';
+import { InvoiceService } from '../../utils/invoice-service';
+import { CollectionService } from '../../utils/collection-service';
+import { OrderTracking, ShipmentService } from '../../utils/shipment-service';
+import OrderTimeline from '../../components/common/OrderTimeline';
 import { toast } from 'sonner';
 
 interface Order {
   id: string;
   order_number: string;
-  status: 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'confirmed';
-  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded';
+  status: 'pending' | 'processing' | 'ready_for_collection' | 'shipped' | 'delivered' | 'cancelled' | 'confirmed';
+  payment_status: 'pending' | 'paid' | 'failed' | 'refunded' | 'partially_refunded' | 'review';
   total_amount: number;
   items_count: number;
   created_at: string;
+  fulfillment_method?: 'delivery' | 'collect';
+  pickup_slot_start?: string | null;
+  pickup_slot_end?: string | null;
+  collected_at?: string | null;
   order_items?: Array<{
     id: string;
     product_snapshot: {
@@ -34,10 +42,25 @@ export default function OrderHistory() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string>('');
+  const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
   const { user, userProfile } = useAuth();
   const { addToCart } = useCart();
   const navigate = useNavigate();
 
+  // Tracking loads with the order details; if it fails the rest of the details still show
+  useEffect(() => {
+    setTracking(null);
+    if (!selectedOrder) return;
+    let cancelled = false;
+    ShipmentService.getTracking(selectedOrder.id).then(result => {
+      if (!cancelled && result.success) setTracking(result.data || null);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedOrder?.id]);
+
   // Fetch orders from the database
   useEffect(() => {
     const fetchOrders = async () => {
@@ -62,6 +85,10 @@ export default function OrderHistory() {
             total_amount: order.total || order.total_amount, // Handle both field names
             items_count: order.order_items?.length || 0,
             created_at: order.created_at,
+            fulfillment_method: order.fulfillment_method,
+            pickup_slot_start: order.pickup_slot_start,
+            pickup_slot_end: order.pickup_slot_end,
+            collected_at: order.collected_at,
             order_items: order.order_items?.map((item: any) => ({
               id: item.id,
               product_snapshot: item.product_snapshot,
@@ -178,6 +205,8 @@ export default function OrderHistory() {
         return 'bg-yellow-100 text-yellow-800 border-yellow-200';
       case 'processing':
         return 'bg-green-100 text-green-800 border-green-200';
+      case 'ready_for_collection':
+        return 'bg-blue-100 text-blue-800 border-blue-200';
       case 'shipped':
         return 'bg-purple-100 text-purple-800 border-purple-200';
       case 'delivered':
@@ -197,6 +226,8 @@ export default function OrderHistory() {
         return <Clock className="h-4 w-4" />;
       case 'processing':
         return <Package className="h-4 w-4" />;
+      case 'ready_for_collection':
+        return <ShoppingBag className="h-4 w-4" />;
       case 'shipped':
         return <Truck className="h-4 w-4" />;
       case 'delivered':
@@ -234,6 +265,22 @@ export default function OrderHistory() {
     }
   };
 
+  // Tax invoices are issued once an order is paid, including after a refund
+  const hasTaxInvoice = (order: Order) =>
+    ['paid', 'partially_refunded', 'refunded'].includes(order.payment_status);
+
+  const handleDownloadInvoice = async (order: Order) => {
+    setDownloadingInvoice(order.id);
+    const invoice = await InvoiceService.get(order.id);
+    const result = invoice.success && invoice.data
+      ? await InvoiceService.download(order.id, invoice.data.invoice_number)
+      : invoice;
+    setDownloadingInvoice(null);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to download tax invoice');
+    }
+  };
+
   const filteredOrders = filterStatus === 'all' 
     ? displayOrders 
     : displayOrders.filter(order => order.status === filterStatus);
@@ -365,7 +412,7 @@ export default function OrderHistory() {
                       <div className="text-right">
                         <div className={`inline-flex items-center px-3 py-2 rounded-xl text-sm font-bold border ${getStatusColor(order.status)} shadow-sm`}>
                           {getStatusIcon(order.status)}
-                          <span className="ml-2 capitalize">{order.status}</span>
+                          <span className="ml-2 capitalize">{order.status.replace(/_/g, ' ')}</span>
                         </div>
                         <p className="text-2xl font-bold text-[#09215F] mt-2">R{order.total_amount.toFixed(2)}</p>
                       </div>
@@ -423,6 +470,16 @@ export default function OrderHistory() {
                             Reorder
                           </button>
                         )}
+                        {hasTaxInvoice(order) && (
+                          <button
+                            onClick={() => handleDownloadInvoice(order)}
+                            disabled={downloadingInvoice === order.id}
+                            className="flex items-center border-2 border-[#09215F] text-[#09215F] px-4 py-2 rounded-xl hover:bg-[#09215F] hover:text-white transition-all duration-300 font-semibold disabled:opacity-50"
+                          >
+                            <FileText className="h-4 w-4 mr-2" />
+                            {downloadingInvoice === order.id ? 'Preparing...' : 'Tax Invoice'}
+                          </button>
+                        )}
                       </div>
                       <div className="text-sm text-[#09215F]/60 font-medium">
                         Order #{order.id.split('-')[1]}
@@ -469,10 +526,35 @@ export default function OrderHistory() {
                     <span className="text-sm font-bold text-[#09215F]">Status</span>
                     <div className={`inline-flex items-center px-3 py-2 rounded-xl text-sm font-bold border ${getStatusColor(selectedOrder.status)}`}>
                       {getStatusIcon(selectedOrder.status)}
-                      <span className="ml-2 capitalize">{selectedOrder.status}</span>
+                      <span className="ml-2 capitalize">{selectedOrder.status.replace(/_/g, ' ')}</span>
                     </div>
                   </div>
 
+                  {/* Collection */}
+                  {selectedOrder.fulfillment_method === 'collect' && (
+                    <div className="p-4 bg-gray-50 rounded-xl border border-gray-200 text-sm text-[#09215F]">
+                      <p className="font-bold mb-1">Collect in store</p>
+                      {selectedOrder.pickup_slot_start && (
+                        <p className="text-[#09215F]/80">{CollectionService.formatSlot(selectedOrder.pickup_slot_start, selectedOrder.pickup_slot_end)}</p>
+                      )}
+                      {selectedOrder.collected_at ? (
+                        <p className="text-[#09215F]/70 mt-1">Collected on {new Date(selectedOrder.collected_at).toLocaleDateString('en-ZA', { timeZone: 'Africa/Johannesburg' })}</p>
+                      ) : selectedOrder.status === 'ready_for_collection' ? (
+                        <p className="text-[#09215F]/70 mt-1">Your order is waiting at the counter. Show the collection code we emailed you, or your order number and ID.</p>
+                      ) : (
+                        <p className="text-[#09215F]/70 mt-1">We'll email you a collection code when your order is ready.</p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Tracking */}
+                  {tracking && (
+                    <div>
+                      <h4 className="font-bold text-[#09215F] mb-4 text-lg">Tracking</h4>
+                      <OrderTimeline tracking={tracking} />
+                    </div>
+                  )}
+
                   {/* Items */}
                   <div>
                     <h4 className="font-bold text-[#09215F] mb-4 text-lg">Items Ordered</h4>
@@ -521,6 +603,15 @@ export default function OrderHistory() {
                         Reorder Items
                       </button>
                     )}
+                    {hasTaxInvoice(selectedOrder) && (
+                      <button
+                        onClick={() => handleDownloadInvoice(selectedOrder)}
+                        disabled={downloadingInvoice === selectedOrder.id}
+                        className="w-full border-2 border-[#09215F] text-[#09215F] py-3 px-4 rounded-xl hover:bg-[#09215F] hover:text-white transition-all duration-300 text-sm font-bold disabled:opacity-50"
+                      >
+                        {downloadingInvoice === selectedOrder.id ? 'Preparing...' : 'Download Tax Invoice'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
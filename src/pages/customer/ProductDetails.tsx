@@ -7,6 +7,8 @@ import { useAuth } from '../../contexts/AuthContext';
 import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import { supabase } from '../../lib/supabase';
+import { ProductVariant, VariantService } from '../../utils/variant-service';
+import { ProductReviews } from '../../components/customer/ProductReviews';
 
 interface Product {
   id: string;
@@ -32,6 +34,9 @@ interface Product {
   is_featured: boolean;
   stock_tracking: boolean;
   requires_shipping: boolean;
+  has_variants?: boolean;
+  rating_average?: number;
+  rating_count?: number;
   created_at: string;
   updated_at: string;
 }
@@ -58,6 +63,8 @@ export default function ProductDetails() {
   const [category, setCategory] = useState<Category | null>(null);
   const [productLoading, setProductLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [chosenOptions, setChosenOptions] = useState<Record<string, string>>({});
 
   // Fetch product data from Supabase
   useEffect(() => {
@@ -88,6 +95,11 @@ export default function ProductDetails() {
         }
 
         console.log('✅ Product fetched:', productData);
+        const productVariants = productData.has_variants ? await VariantService.getVariants(productData.id) : [];
+        // Start on the first variant that can be bought
+        const firstVariant = productVariants.find(v => v.stock_quantity > 0) || productVariants[0];
+        setVariants(productVariants);
+        setChosenOptions(firstVariant ? { ...firstVariant.options } : {});
         setProduct(productData);
         setCategory(productData.category);
         setError(null);
@@ -168,27 +180,56 @@ export default function ProductDetails() {
     }
   };
 
+  // Price, stock and SKU follow the chosen variant when the product has them
+  const optionNames = VariantService.getOptionNames(variants);
+  const selectedVariant = variants.length > 0 && optionNames.every(name => chosenOptions[name])
+    ? VariantService.findVariant(variants, chosenOptions)
+    : undefined;
+  const needsVariant = variants.length > 0 && !selectedVariant;
+  const price = VariantService.priceOf(selectedVariant, product.price);
+  const compareAtPrice = selectedVariant ? selectedVariant.compare_at_price : product.compare_at_price;
+  const stockCount = selectedVariant ? selectedVariant.stock_quantity : (needsVariant ? 0 : product.stock_quantity);
+  const sku = selectedVariant?.sku || product.sku;
+  const mainImage = selectedVariant?.image_url || product.images[selectedImage] || product.images[0];
+
   const isProductFavourite = isFavourite(product.id);
-  const stockInfo = getStockStatus(product.stock_quantity);
-  const discount = product.compare_at_price 
-    ? Math.round(((product.compare_at_price - product.price) / product.compare_at_price) * 100)
+  const stockInfo = getStockStatus(stockCount);
+  const discount = compareAtPrice && compareAtPrice > price
+    ? Math.round(((compareAtPrice - price) / compareAtPrice) * 100)
     : 0;
 
+  const optionValues = (name: string) =>
+    Array.from(new Set(variants.map(variant => variant.options[name]).filter(Boolean)));
+
+  // A value is available if some in-stock variant has it alongside the other chosen options
+  const isOptionAvailable = (name: string, value: string) =>
+    variants.some(variant =>
+      variant.options[name] === value &&
+      variant.stock_quantity > 0 &&
+      Object.entries(chosenOptions).every(([other, chosen]) => other === name || variant.options[other] === chosen)
+    );
+
+  const handleOptionChange = (name: string, value: string) => {
+    setChosenOptions({ ...chosenOptions, [name]: value });
+    setQuantity(1);
+  };
+
   const handleAddToCart = async () => {
     try {
       setLoading(true);
       await addToCart({
         id: product.id,
         name: product.name,
-        price: product.price,
-        original_price: product.compare_at_price,
+        price,
+        original_price: compareAtPrice,
         image_url: product.images[0],
         sku: product.sku,
-        in_stock: product.is_active && (product.stock_quantity || 0) > 0,
-        stock_count: product.stock_quantity || 0,
+        in_stock: product.is_active && (stockCount || 0) > 0,
+        stock_count: stockCount || 0,
         brand: category?.name,
         category: category?.name,
-      }, quantity);
+        has_variants: variants.length > 0,
+      }, quantity, selectedVariant);
       
       console.log(`Added ${quantity} ${product.name} to cart!`);
     } catch (error) {
@@ -207,7 +248,7 @@ export default function ProductDetails() {
         await addToFavourites({
           ...product,
           product_id: product.id,
-          reviews_count: 0
+          reviews_count: product.rating_count || 0
         });
       }
     } catch (error) {
@@ -218,7 +259,7 @@ export default function ProductDetails() {
   };
 
   const handleQuantityChange = (newQuantity: number) => {
-    const maxQuantity = Math.min(10, product.stock_quantity || 0);
+    const maxQuantity = Math.min(10, stockCount || 0);
     if (newQuantity >= 1 && newQuantity <= maxQuantity) {
       setQuantity(newQuantity);
     }
@@ -269,7 +310,7 @@ export default function ProductDetails() {
             {/* Main Image */}
             <div className="aspect-square bg-card rounded-2xl overflow-hidden shadow-lg relative flex items-center justify-center">
               <ImageWithFallback
-                src={product.images[selectedImage] || product.images[0]}
+                src={mainImage}
                 alt={product.name}
                 className="w-full h-full object-contain"
               />
@@ -314,10 +355,14 @@ export default function ProductDetails() {
               <h1 className="text-3xl font-bold text-foreground mb-2">{product.name}</h1>
               <div className="flex items-center gap-4">
                 <div className="flex items-center">
-                  <Star className="h-5 w-5 text-yellow-400 fill-current" />
-                  <span className="ml-1 text-sm text-muted-foreground">4.8 (124 reviews)</span>
+                  <Star className={`h-5 w-5 ${product.rating_count ? 'text-yellow-400 fill-current' : 'text-muted-foreground'}`} />
+                  <span className="ml-1 text-sm text-muted-foreground">
+                    {product.rating_count
+                      ? `${Number(product.rating_average || 0).toFixed(1)} (${product.rating_count} ${product.rating_count === 1 ? 'review' : 'reviews'})`
+                      : 'No reviews yet'}
+                  </span>
                 </div>
-                <span className="text-sm text-muted-foreground">SKU: {product.sku}</span>
+                <span className="text-sm text-muted-foreground">SKU: {sku}</span>
               </div>
             </div>
 
@@ -331,16 +376,16 @@ export default function ProductDetails() {
             <div className="space-y-1">
               <div className="flex items-baseline gap-3">
                 <span className="text-3xl font-bold text-foreground">
-                  R{product.price.toFixed(2)}
+                  R{price.toFixed(2)}
                 </span>
-                {product.compare_at_price && (
+                {discount > 0 && compareAtPrice && (
                   <span className="text-lg text-muted-foreground line-through">
-                    R{product.compare_at_price.toFixed(2)}
+                    R{Number(compareAtPrice).toFixed(2)}
                   </span>
                 )}
-                {discount > 0 && (
+                {discount > 0 && compareAtPrice && (
                   <span className="text-lg font-medium text-green-600">
-                    Save R{(product.compare_at_price! - product.price).toFixed(2)}
+                    Save R{(Number(compareAtPrice) - price).toFixed(2)}
                   </span>
                 )}
               </div>
@@ -370,6 +415,41 @@ export default function ProductDetails() {
               </div>
             )}
 
+            {/* Variant Picker */}
+            {variants.length > 0 && (
+              <div className="space-y-4">
+                {optionNames.map(name => (
+                  <div key={name}>
+                    <label className="block text-sm font-medium text-foreground mb-2">
+                      {name}{chosenOptions[name] ? `: ${chosenOptions[name]}` : ''}
+                    </label>
+                    <div className="flex flex-wrap gap-2">
+                      {optionValues(name).map(value => {
+                        const selected = chosenOptions[name] === value;
+                        const available = isOptionAvailable(name, value);
+                        return (
+                          <button
+                            key={value}
+                            onClick={() => handleOptionChange(name, value)}
+                            className={`px-4 py-2 rounded-lg border text-sm transition-colors ${
+                              selected
+                                ? 'border-primary bg-primary/10 text-foreground'
+                                : 'border-input bg-card text-muted-foreground hover:border-accent'
+                            } ${available ? '' : 'line-through opacity-60'}`}
+                          >
+                            {value}
+                          </button>
+                        );
+                      })}
+                    </div>
+                  </div>
+                ))}
+                {needsVariant && (
+                  <p className="text-sm text-muted-foreground">This combination is not available, please choose another option.</p>
+                )}
+              </div>
+            )}
+
             {/* Quantity and Add to Cart */}
             <div className="space-y-4">
               <div>
@@ -388,14 +468,14 @@ export default function ProductDetails() {
                     <span className="px-4 py-2 text-center min-w-[3rem]">{quantity}</span>
                     <button
                       onClick={() => handleQuantityChange(quantity + 1)}
-                      disabled={quantity >= Math.min(10, product.stock_quantity || 0)}
+                      disabled={quantity >= Math.min(10, stockCount || 0)}
                       className="p-2 text-muted-foreground hover:text-foreground disabled:opacity-50"
                     >
                       <Plus className="h-4 w-4" />
                     </button>
                   </div>
                   <span className="text-sm text-muted-foreground">
-                    Maximum {Math.min(10, product.stock_quantity || 0)} per order
+                    Maximum {Math.min(10, stockCount || 0)} per order
                   </span>
                 </div>
               </div>
@@ -404,7 +484,7 @@ export default function ProductDetails() {
               <div className="flex gap-3">
                 <button
                   onClick={handleAddToCart}
-                  disabled={loading || stockInfo.status === 'out-of-stock'}
+                  disabled={loading || needsVariant || stockInfo.status === 'out-of-stock'}
                   className="flex-1 bg-primary text-primary-foreground py-3 px-6 rounded-lg font-semibold hover:bg-primary/90 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
                 >
                   {loading ? (
@@ -412,7 +492,7 @@ export default function ProductDetails() {
                   ) : (
                     <ShoppingCart className="h-5 w-5" />
                   )}
-                  {stockInfo.status === 'out-of-stock' ? 'Out of Stock' : 'Add to Cart'}
+                  {needsVariant ? 'Choose an Option' : stockInfo.status === 'out-of-stock' ? 'Out of Stock' : 'Add to Cart'}
                 </button>
                 
                 <button
@@ -472,6 +552,14 @@ export default function ProductDetails() {
             </dl>
           </div>
         )}
+
+        {/* Reviews */}
+        <ProductReviews
+          productId={product.id}
+          onSummaryChange={(summary) =>
+            setProduct(prev => prev ? { ...prev, rating_average: summary.average, rating_count: summary.count } : prev)
+          }
+        />
       </div>
     </div>
   );
@@ -1,11 +1,12 @@
-import React, { useState, useEffect, useMemo } from 'react';
-import { useSearchParams, Link, useLocation } from 'react-router-dom';
-import { Search, Filter, Grid, List, Star, ShoppingCart, Percent, Package, AlertTriangle, X, Tag } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { Grid, List, Star, ShoppingCart, Percent, Package, AlertTriangle, X, Tag } from 'lucide-react';
 import { useCart } from '../../contexts/CartContext';
 import { ImageWithFallback } from '../../components/figma/ImageWithFallback';
 import LoadingSpinner from '../../components/common/LoadingSpinner';
 import ProductCard from '../../components/common/ProductCard';
-import { supabase } from '../../lib/supabase';
+import ProductFilters, { FilterState } from '../../components/common/ProductFilters';
+import { ProductSearchQuery, SearchFacets, SearchService } from '../../utils/search-service';
 
 interface Product {
   id: string;
@@ -16,6 +17,7 @@ interface Product {
   sku: string;
   barcode: string;
   category_id: string;
+  brand?: string | null;
   price: number;
   cost_price: number;
   compare_at_price?: number;
@@ -31,6 +33,8 @@ interface Product {
   is_featured: boolean;
   stock_tracking: boolean;
   requires_shipping: boolean;
+  rating_average?: number;
+  rating_count?: number;
   created_at: string;
   updated_at: string;
   category?: {
@@ -61,300 +65,147 @@ interface DisplayProduct {
   created_at?: string;
 }
 
+function toDisplayProduct(product: Product): DisplayProduct {
+  const stockCount = product.stock_quantity || 0;
+  const hasDiscount = product.compare_at_price && product.compare_at_price > product.price;
+
+  return {
+    id: product.id,
+    name: product.name,
+    price: product.price,
+    original_price: hasDiscount ? product.compare_at_price : undefined,
+    image_url: product.images && product.images.length > 0 ? product.images[0] : '',
+    rating: Number(product.rating_average || 0),
+    reviews_count: product.rating_count || 0,
+    promotion_badge: hasDiscount ? `${Math.round(((product.compare_at_price! - product.price) / product.compare_at_price!) * 100)}% OFF` : undefined,
+    promotion_discount: hasDiscount ? product.compare_at_price! - product.price : undefined,
+    in_stock: stockCount > 0,
+    stock_count: stockCount,
+    category: product.category?.name || 'Uncategorized',
+    sku: product.sku,
+    description: product.description,
+    brand: product.brand || 'Best Brightness',
+    featured: product.is_featured,
+    created_at: product.created_at,
+  };
+}
+
 export default function Products() {
   const [searchParams, setSearchParams] = useSearchParams();
-  const location = useLocation();
   const [products, setProducts] = useState<DisplayProduct[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [total, setTotal] = useState(0);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
-  const [fetchTimeout, setFetchTimeout] = useState<NodeJS.Timeout | null>(null);
-  const [retryCount, setRetryCount] = useState(0);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
-  const [showFilters, setShowFilters] = useState(false);
+  const latestRequest = useRef(0);
 
   const { addToCart } = useCart();
-  
-  // Filter states - initialize from URL params
-  const [searchQuery, setSearchQuery] = useState(searchParams.get('search') || '');
-  const [selectedCategory, setSelectedCategory] = useState(searchParams.get('category') || '');
-  const [priceRange, setPriceRange] = useState([0, 500]);
-  const [sortBy, setSortBy] = useState('featured');
-  const [onlyInStock, setOnlyInStock] = useState(false);
-  const [onlyOnSale, setOnlyOnSale] = useState(searchParams.get('on_sale') === 'true');
-  
-  // Handle promotion filters from URL - memoize to prevent infinite loops
+
+  // The URL is the source of truth for the search, so results can be shared
+  const query = useMemo(() => SearchService.fromUrl(searchParams), [searchParams]);
+  const queryKey = JSON.stringify(query);
   const promotionIds = useMemo(() => searchParams.getAll('promotion'), [searchParams]);
-  
-  // Handle additional filters from home page
-  const featuredFilter = searchParams.get('featured') === 'true';
-  const sortFilter = searchParams.get('sort') || 'featured';
 
-  // Fetch real products from Supabase
-  useEffect(() => {
-    const fetchProducts = async () => {
-      try {
-        setLoading(true);
-        console.log('📦 Fetching products for customer view...');
-        
-        // Set a timeout to prevent infinite loading
-        const timeout = setTimeout(() => {
-          console.warn('⚠️ Products fetch timeout - forcing loading to false');
-          setLoading(false);
-        }, 5000); // 5 second timeout (reduced for faster UX)
-        
-        setFetchTimeout(timeout);
-        
-        const { data: productsData, error: productsError } = await supabase
-          .from('products')
-          .select(`
-            *,
-            category:categories(id, name, slug, description)
-          `)
-          .eq('is_active', true)
-          .order('created_at', { ascending: false });
-
-        // Clear timeout if request completes
-        if (fetchTimeout) {
-          clearTimeout(fetchTimeout);
-          setFetchTimeout(null);
-        }
-
-        if (productsError) {
-          console.warn('❌ Error fetching products, using fallback:', productsError);
-          // Don't throw error, just use empty array
-          setProducts([]);
-          setCategories([]);
-          return;
-        }
-
-        console.log('✅ Products fetched for customer view:', productsData);
-        
-        // Transform real products to display format
-        const displayProducts: DisplayProduct[] = (productsData || []).map((product: Product) => {
-          const stockCount = product.stock_quantity || 0;
-          const isInStock = stockCount > 0;
-          const hasDiscount = product.compare_at_price && product.compare_at_price > product.price;
-          
-          return {
-            id: product.id,
-            name: product.name,
-            price: product.price,
-            original_price: hasDiscount ? product.compare_at_price : undefined,
-            image_url: product.images && product.images.length > 0 ? product.images[0] : '',
-            rating: 4.5, // Default rating - you can add a ratings table later
-            reviews_count: Math.floor(Math.random() * 100) + 10, // Default - you can add a reviews table later
-            promotion_badge: hasDiscount ? `${Math.round(((product.compare_at_price! - product.price) / product.compare_at_price!) * 100)}% OFF` : undefined,
-            promotion_discount: hasDiscount ? product.compare_at_price! - product.price : undefined,
-            in_stock: isInStock,
-            stock_count: stockCount,
-            category: product.category?.name || 'Uncategorized',
-            sku: product.sku,
-            description: product.description,
-            brand: 'Best Brightness', // Default brand - you can add a brand field later
-          };
-        });
-
-        setProducts(displayProducts);
-        
-        // Extract unique categories
-        const uniqueCategories = [...new Set(displayProducts.map(p => p.category))].filter(Boolean);
-        setCategories(uniqueCategories);
-        
-        // Reset retry count on successful fetch
-        setRetryCount(0);
-        
-      } catch (error) {
-        console.error('Error fetching products:', error);
-        console.error('Failed to load products. Please try again.');
-        
-        // Retry mechanism - retry up to 3 times
-        if (retryCount < 3) {
-          console.log(`🔄 Retrying products fetch (attempt ${retryCount + 1}/3)...`);
-          setRetryCount(prev => prev + 1);
-          // Retry after a short delay
-          setTimeout(() => {
-            fetchProducts();
-          }, 1000 * (retryCount + 1)); // Exponential backoff
-        } else {
-          // Reset products and categories on final error to prevent stale data
-          setProducts([]);
-          setCategories([]);
-          setRetryCount(0); // Reset retry count
-        }
-      } finally {
-        setLoading(false);
-        // Clear timeout in finally block
-        if (fetchTimeout) {
-          clearTimeout(fetchTimeout);
-          setFetchTimeout(null);
-        }
-      }
-    };
-
-    fetchProducts();
-    
-    // Cleanup function to clear timeout
-    return () => {
-      if (fetchTimeout) {
-        clearTimeout(fetchTimeout);
-        setFetchTimeout(null);
-      }
-    };
-  }, []); // Keep empty dependency array for initial load
+  const maxPrice = Math.max(50, Math.ceil((facets?.price.max || 500) / 50) * 50);
+  const defaultSort = query.search ? 'relevance' : 'featured';
+
+  const filters: FilterState = {
+    search: query.search,
+    category: query.category,
+    brand: query.brand,
+    priceRange: [query.minPrice || 0, query.maxPrice ?? maxPrice],
+    sortBy: query.sort || defaultSort,
+    onlyInStock: query.inStock,
+    onlyOnSale: query.onSale,
+    rating: query.rating,
+  };
 
-  // Add effect to handle component remounting/navigation issues
+  // Typing in the search box updates the URL on every key, so wait for a pause
   useEffect(() => {
-    // If we have no products and we're not loading, trigger a fresh fetch
-    // This handles cases where the component doesn't properly remount after navigation
-    if (products.length === 0 && !loading) {
-      console.log('🔄 Products component detected empty state - triggering fresh data load');
-      const fetchProducts = async () => {
-        try {
-          setLoading(true);
-          console.log('📦 Re-fetching products after detecting empty state...');
-          
-          const { data: productsData, error: productsError } = await supabase
-            .from('products')
-            .select(`
-              *,
-              category:categories(id, name, slug, description)
-            `)
-            .eq('is_active', true)
-            .order('created_at', { ascending: false });
-
-          if (productsError) {
-            console.error('❌ Error re-fetching products:', productsError);
-            throw new Error(`Failed to fetch products: ${productsError.message}`);
-          }
-
-          console.log('✅ Products re-fetched after empty state detection:', productsData);
-          
-          // Transform real products to display format
-          const displayProducts: DisplayProduct[] = (productsData || []).map((product: Product) => {
-            const stockCount = product.stock_quantity || 0;
-            const isInStock = stockCount > 0;
-            const hasDiscount = product.compare_at_price && product.compare_at_price > product.price;
-            
-            return {
-              id: product.id,
-              name: product.name,
-              price: product.price,
-              original_price: hasDiscount ? product.compare_at_price : undefined,
-              image_url: product.images && product.images.length > 0 ? product.images[0] : '',
-              rating: 4.5,
-              reviews_count: Math.floor(Math.random() * 100) + 10,
-              promotion_badge: hasDiscount ? `${Math.round(((product.compare_at_price! - product.price) / product.compare_at_price!) * 100)}% OFF` : undefined,
-              promotion_discount: hasDiscount ? product.compare_at_price! - product.price : undefined,
-              in_stock: isInStock,
-              stock_count: stockCount,
-              category: product.category?.name || 'Uncategorized',
-              sku: product.sku,
-              description: product.description,
-              brand: 'Best Brightness',
-            };
-          });
-
-          setProducts(displayProducts);
-          
-          // Extract unique categories
-          const uniqueCategories = [...new Set(displayProducts.map(p => p.category))].filter(Boolean);
-          setCategories(uniqueCategories);
-          
-        } catch (error) {
-          console.error('Error re-fetching products:', error);
-          setProducts([]);
-          setCategories([]);
-        } finally {
-          setLoading(false);
-        }
-      };
+    const requestId = ++latestRequest.current;
+    const timer = setTimeout(async () => {
+      setLoading(true);
+      const result = await SearchService.search(query);
+      if (requestId !== latestRequest.current) return;
+
+      if (!result.success || !result.data) {
+        console.error('❌ Error searching products:', result.error);
+        setError(result.error || 'Failed to load products');
+        setProducts([]);
+        setTotal(0);
+        setNextCursor(null);
+      } else {
+        setError(null);
+        setProducts(result.data.products.map(toDisplayProduct));
+        setFacets(result.data.facets);
+        setTotal(result.data.total);
+        setNextCursor(result.data.next_cursor);
+      }
+      setLoading(false);
+    }, 250);
 
-      fetchProducts();
-    }
-  }, [products.length, loading]); // Monitor products.length and loading state
+    return () => clearTimeout(timer);
+  }, [queryKey]);
 
-  // Add effect to handle location changes (navigation)
+  // A search left alone for a moment is one the shopper settled on rather
+  // than a word still being typed; only those are logged and remembered
   useEffect(() => {
-    // When navigating to products page, ensure we have fresh data
-    if (location.pathname === '/products' && products.length === 0 && !loading) {
-      console.log('🔄 Navigation to products page detected - ensuring fresh data');
-      // Reset state to trigger fresh fetch
-      setProducts([]);
-      setCategories([]);
-      setLoading(true);
+    if (!query.search.trim()) return;
+    const timer = setTimeout(() => {
+      SearchService.addRecentSearch(query.search);
+      SearchService.logSearch(query.search);
+    }, 1500);
+    return () => clearTimeout(timer);
+  }, [query.search]);
+
+  const loadMore = async () => {
+    if (!nextCursor) return;
+    const requestId = latestRequest.current;
+    setLoadingMore(true);
+    const result = await SearchService.search(query, nextCursor);
+    setLoadingMore(false);
+    if (requestId !== latestRequest.current) return;
+
+    if (!result.success || !result.data) {
+      setError(result.error || 'Failed to load more products');
+      return;
     }
-  }, [location.pathname, products.length, loading]);
+    setProducts(current => [...current, ...result.data!.products.map(toDisplayProduct)]);
+    setNextCursor(result.data.next_cursor);
+  };
 
-  // Cleanup effect to prevent memory leaks
-  useEffect(() => {
-    return () => {
-      // Clear any pending timeouts when component unmounts
-      if (fetchTimeout) {
-        clearTimeout(fetchTimeout);
-        setFetchTimeout(null);
-      }
-    };
-  }, [fetchTimeout]);
+  const updateQuery = (changes: Partial<ProductSearchQuery>) => {
+    setSearchParams(SearchService.toUrl({ ...query, ...changes }, searchParams), { replace: true });
+  };
 
-  // Update URL when filters change
-  useEffect(() => {
-    const params = new URLSearchParams();
-    
-    if (searchQuery) params.set('search', searchQuery);
-    if (selectedCategory) params.set('category', selectedCategory);
-    if (onlyOnSale) params.set('on_sale', 'true');
-    
-    // Preserve promotion IDs from URL
-    promotionIds.forEach(id => params.append('promotion', id));
-    
-    setSearchParams(params, { replace: true });
-  }, [searchQuery, selectedCategory, onlyOnSale, promotionIds]);
-
-  // Filter products based on search and filters
-  const filteredProducts = products.filter(product => {
-    if (searchQuery && !product.name.toLowerCase().includes(searchQuery.toLowerCase())) {
-      return false;
-    }
-    if (selectedCategory && product.category !== selectedCategory) {
-      return false;
-    }
-    if (product.price < priceRange[0] || product.price > priceRange[1]) {
-      return false;
-    }
-    if (onlyInStock && !product.in_stock) {
-      return false;
-    }
-    if (onlyOnSale && !product.original_price) {
-      return false;
-    }
-    if (featuredFilter && !product.featured) {
-      return false;
-    }
-    return true;
-  });
-
-  // Sort products
-  const sortedProducts = [...filteredProducts].sort((a, b) => {
-    const currentSort = sortFilter !== 'featured' ? sortFilter : sortBy;
-    switch (currentSort) {
-      case 'price-low':
-        return a.price - b.price;
-      case 'price-high':
-        return b.price - a.price;
-      case 'name':
-        return a.name.localeCompare(b.name);
-      case 'rating':
-        return b.rating - a.rating;
-      case 'stock':
-        return b.stock_count - a.stock_count;
-      case 'newest':
-        return new Date(b.created_at || 0).getTime() - new Date(a.created_at || 0).getTime();
-      case 'trending':
-        return (b.reviews_count || 0) - (a.reviews_count || 0);
-      default:
-        return 0;
-    }
-  });
+  const handleFiltersChange = (next: FilterState) => {
+    const nextDefaultSort = next.search ? 'relevance' : 'featured';
+    const sort = next.sortBy === nextDefaultSort || (next.sortBy === 'relevance' && !next.search) ? '' : next.sortBy;
+    updateQuery({
+      search: next.search,
+      category: next.category,
+      brand: next.brand,
+      minPrice: next.priceRange[0] > 0 ? next.priceRange[0] : null,
+      maxPrice: next.priceRange[1] < maxPrice ? next.priceRange[1] : null,
+      inStock: next.onlyInStock,
+      onSale: next.onlyOnSale,
+      rating: next.rating,
+      sort,
+    });
+  };
+
+  // A category linked by slug is kept selectable until the facets name it
+  const categoryOptions = useMemo(() => {
+    const names = (facets?.categories || []).map(facet => facet.value);
+    return query.category && !names.includes(query.category) ? [query.category, ...names] : names;
+  }, [facets, query.category]);
+  const brandOptions = useMemo(() => {
+    const names = (facets?.brands || []).map(facet => facet.value);
+    return query.brand && !names.includes(query.brand) ? [query.brand, ...names] : names;
+  }, [facets, query.brand]);
 
   const handleAddToCart = async (product: DisplayProduct) => {
     try {
@@ -377,11 +228,6 @@ export default function Products() {
   };
 
   const clearAllFilters = () => {
-    setSearchQuery('');
-    setSelectedCategory('');
-    setPriceRange([0, 500]);
-    setOnlyInStock(true);
-    setOnlyOnSale(false);
     setSearchParams({});
   };
 
@@ -410,7 +256,7 @@ export default function Products() {
     }
   };
 
-  if (loading) {
+  if (loading && !facets) {
     return (
       <div className="flex items-center justify-center min-h-[60vh]">
         <LoadingSpinner />
@@ -430,16 +276,29 @@ export default function Products() {
         </div>
 
         {/* Active Filters Display */}
-        {(selectedCategory || onlyOnSale || promotionIds.length > 0) && (
+        {(query.category || query.onSale || query.featured || promotionIds.length > 0) && (
           <div className="mb-6 bg-[#97CF50]/10 border border-[#97CF50]/30 rounded-2xl p-4">
             <div className="flex flex-wrap items-center gap-2">
               <span className="text-sm font-medium text-green-800 mr-2">Active Filters:</span>
               
-              {selectedCategory && (
+              {query.category && (
+                <div className="flex items-center bg-[#97CF50]/20 text-[#09215F] px-3 py-1 rounded-full text-sm">
+                  <span>Category: {query.category}</span>
+                  <button
+                    onClick={() => updateQuery({ category: '' })}
+                    className="ml-2 hover:text-green-600"
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </div>
+              )}
+
+              {query.featured && (
                 <div className="flex items-center bg-[#97CF50]/20 text-[#09215F] px-3 py-1 rounded-full text-sm">
-                  <span>Category: {selectedCategory}</span>
+                  <Star className="h-3 w-3 mr-1" />
+                  <span>Featured</span>
                   <button
-                    onClick={() => setSelectedCategory('')}
+                    onClick={() => updateQuery({ featured: false })}
                     className="ml-2 hover:text-green-600"
                   >
                     <X className="h-3 w-3" />
@@ -447,12 +306,12 @@ export default function Products() {
                 </div>
               )}
 
-              {onlyOnSale && (
+              {query.onSale && (
                 <div className="flex items-center bg-orange-100 text-orange-800 px-3 py-1 rounded-full text-sm">
                   <Percent className="h-3 w-3 mr-1" />
                   <span>On Sale</span>
                   <button
-                    onClick={() => setOnlyOnSale(false)}
+                    onClick={() => updateQuery({ onSale: false })}
                     className="ml-2 hover:text-orange-600"
                   >
                     <X className="h-3 w-3" />
@@ -477,141 +336,54 @@ export default function Products() {
           </div>
         )}
 
-        {/* Search and Filter Bar */}
-        <div className="bg-[#F8F9FA] rounded-2xl shadow-lg p-6 mb-8">
-          <div className="flex flex-col lg:flex-row lg:items-center gap-4">
-            {/* Search Bar */}
-            <div className="relative flex-1">
-              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-5 w-5" />
-              <input
-                type="text"
-                placeholder="Search cleaning supplies..."
-                className="w-full pl-10 pr-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
-                value={searchQuery}
-                onChange={(e) => setSearchQuery(e.target.value)}
-              />
-            </div>
+        <ProductFilters
+          filters={filters}
+          onFiltersChange={handleFiltersChange}
+          categories={categoryOptions}
+          brands={brandOptions}
+          maxPrice={maxPrice}
+          facets={facets}
+          className="mb-8"
+        />
 
-            {/* Category Filter */}
-            <select
-              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-            >
-              <option value="">All categories</option>
-              {categories.map(category => (
-                <option key={category} value={category}>{category}</option>
-              ))}
-            </select>
-
-            {/* Sort */}
-            <select
-              className="px-4 py-3 border border-gray-300 rounded-xl focus:ring-2 focus:ring-green-500 focus:border-transparent bg-white"
-              value={sortBy}
-              onChange={(e) => setSortBy(e.target.value)}
+        {/* Results Count */}
+        <div className="flex items-center justify-between mb-6">
+          <p className="text-gray-600">
+            {total === 0 ? 'No products' : `Showing ${products.length} of ${total} product${total === 1 ? '' : 's'}`}
+            {query.search && ` for "${query.search}"`}
+          </p>
+          <div className="flex bg-white border border-gray-300 rounded-xl p-1">
+            <button
+              onClick={() => setViewMode('grid')}
+              className={`p-2 rounded-lg ${viewMode === 'grid' ? 'bg-[#97CF50] text-white' : 'text-gray-500 hover:text-gray-700'}`}
             >
-              <option value="featured">Featured</option>
-              <option value="name">Name A-Z</option>
-              <option value="price-low">Price: Low to High</option>
-              <option value="price-high">Price: High to Low</option>
-              <option value="rating">Top Rated</option>
-              <option value="stock">Stock Level</option>
-            </select>
-
-            {/* View Mode Toggle */}
-            <div className="flex bg-white border border-gray-300 rounded-xl p-1">
-              <button
-                onClick={() => setViewMode('grid')}
-                className={`p-2 rounded-lg ${viewMode === 'grid' ? 'bg-[#97CF50] text-white' : 'text-gray-500 hover:text-gray-700'}`}
-              >
-                <Grid className="h-5 w-5" />
-              </button>
-              <button
-                onClick={() => setViewMode('list')}
-                className={`p-2 rounded-lg ${viewMode === 'list' ? 'bg-[#97CF50] text-white' : 'text-gray-500 hover:text-gray-700'}`}
-              >
-                <List className="h-5 w-5" />
-              </button>
-            </div>
-
-            {/* Filters Toggle */}
+              <Grid className="h-5 w-5" />
+            </button>
             <button
-              onClick={() => setShowFilters(!showFilters)}
-              className="flex items-center gap-2 px-4 py-3 bg-gray-200 text-gray-700 rounded-xl hover:bg-gray-300 transition-colors"
+              onClick={() => setViewMode('list')}
+              className={`p-2 rounded-lg ${viewMode === 'list' ? 'bg-[#97CF50] text-white' : 'text-gray-500 hover:text-gray-700'}`}
             >
-              <Filter className="h-5 w-5" />
-              <span>Filters</span>
+              <List className="h-5 w-5" />
             </button>
           </div>
-
-          {/* Advanced Filters */}
-          {showFilters && (
-            <div className="mt-6 pt-6 border-t border-gray-200">
-              <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                {/* Price Range */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Price Range: R{priceRange[0]} - R{priceRange[1]}
-                  </label>
-                  <input
-                    type="range"
-                    min="0"
-                    max="500"
-                    value={priceRange[1]}
-                    onChange={(e) => setPriceRange([0, parseInt(e.target.value)])}
-                    className="w-full"
-                  />
-                </div>
-
-                {/* Stock Filter */}
-                <div className="flex items-center">
-                  <input
-                    type="checkbox"
-                    id="in-stock"
-                    checked={onlyInStock}
-                    onChange={(e) => setOnlyInStock(e.target.checked)}
-                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
-                  />
-                  <label htmlFor="in-stock" className="ml-2 text-sm text-gray-700">
-                    Only show in stock
-                  </label>
-                </div>
-
-                {/* Sale Filter */}
-                <div className="flex items-center">
-                  <input
-                    type="checkbox"
-                    id="on-sale"
-                    checked={onlyOnSale}
-                    onChange={(e) => setOnlyOnSale(e.target.checked)}
-                    className="h-4 w-4 text-green-600 focus:ring-green-500 border-gray-300 rounded"
-                  />
-                  <label htmlFor="on-sale" className="ml-2 text-sm text-gray-700">
-                    On sale only
-                  </label>
-                </div>
-              </div>
-            </div>
-          )}
-        </div>
-
-        {/* Results Count */}
-        <div className="flex items-center justify-between mb-6">
-          <p className="text-gray-600">
-            Showing {sortedProducts.length} of {products.length} products
-          </p>
         </div>
 
         {/* Products Grid/List */}
-        {sortedProducts.length === 0 ? (
+        {error ? (
+          <div className="text-center py-12">
+            <AlertTriangle className="h-12 w-12 text-red-400 mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-gray-900 mb-2">We couldn't load products</h3>
+            <p className="text-gray-500">{error}</p>
+          </div>
+        ) : products.length === 0 ? (
           <div className="text-center py-12">
             <Package className="h-12 w-12 text-gray-400 mx-auto mb-4" />
             <h3 className="text-lg font-medium text-gray-900 mb-2">No products found</h3>
             <p className="text-gray-500">Try adjusting your search or filter criteria.</p>
           </div>
         ) : viewMode === 'grid' ? (
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-            {sortedProducts.map((product) => (
+          <div className={`grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6 ${loading ? 'opacity-60' : ''}`}>
+            {products.map((product) => (
               <ProductCard
                 key={product.id}
                 product={product}
@@ -619,8 +391,8 @@ export default function Products() {
             ))}
           </div>
         ) : (
-          <div className="space-y-4">
-            {sortedProducts.map((product) => {
+          <div className={`space-y-4 ${loading ? 'opacity-60' : ''}`}>
+            {products.map((product) => {
               const stockStatus = getStockStatus(product.stock_count);
               
               return (
@@ -655,7 +427,7 @@ export default function Products() {
                             <div className="flex items-center ml-4">
                               <Star className="h-4 w-4 text-yellow-400 fill-current" />
                               <span className="text-sm text-gray-600 ml-1">
-                                {product.rating} ({product.reviews_count})
+                                {product.reviews_count > 0 ? `${product.rating.toFixed(1)} (${product.reviews_count})` : 'No reviews'}
                               </span>
                             </div>
                           </div>
@@ -705,6 +477,18 @@ export default function Products() {
             })}
           </div>
         )}
+
+        {nextCursor && !error && (
+          <div className="flex justify-center mt-8">
+            <button
+              onClick={loadMore}
+              disabled={loadingMore}
+              className="px-6 py-3 rounded-xl border-2 border-[#97CF50] text-[#09215F] font-semibold hover:bg-[#97CF50] hover:text-white transition-colors disabled:opacity-50"
+            >
+              {loadingMore ? 'Loading...' : 'Load more products'}
+            </button>
+          </div>
+        )}
       </div>
     </div>
   );
@@ -1,6 +1,8 @@
 import React, { useEffect, useState } from 'react';
 import { User, Mail, Phone, MapPin, Gift, Star, Edit2, Save, X, Package, Settings, Bell } from 'lucide-react';
 import { useAuth } from '../../contexts/AuthContext';
+import { LoyaltyService, LoyaltySummary } from '../../utils/loyalty-service';
+import { EmailPreferences } from '../../components/customer/EmailPreferences';
 
 export default function Profile() {
   const { user, userProfile, loading, refreshUserProfile } = useAuth();
@@ -12,6 +14,23 @@ export default function Profile() {
     }
   }, [user]);
 
+  const [loyalty, setLoyalty] = useState<LoyaltySummary | null>(null);
+  const [loyaltyLoading, setLoyaltyLoading] = useState(false);
+
+  // Points history comes from the ledger; loading it also applies any expiry
+  useEffect(() => {
+    if (!user) return;
+    const loadLoyalty = async () => {
+      setLoyaltyLoading(true);
+      const result = await LoyaltyService.getSummary();
+      if (result.success && result.data) {
+        setLoyalty(result.data);
+      }
+      setLoyaltyLoading(false);
+    };
+    loadLoyalty();
+  }, [user?.id]);
+
   const [isEditing, setIsEditing] = useState(false);
   const [formData, setFormData] = useState({
     firstName: userProfile?.first_name || '',
@@ -30,7 +49,7 @@ export default function Profile() {
     });
   }, [userProfile, user?.email]);
 
-  const loyaltyPoints = userProfile?.loyalty_points || 0;
+  const loyaltyPoints = loyalty ? loyalty.balance : userProfile?.loyalty_points || 0;
   const totalSpent = (userProfile as any)?.total_spent || 0;
 
   const loyaltyTiers = [
@@ -270,6 +289,55 @@ export default function Profile() {
                 </div>
               </div>
             </div>
+
+            {/* Points History */}
+            <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-8">
+              <div className="flex items-center justify-between mb-6">
+                <h2 className="text-2xl font-bold text-[#09215F]">Points History</h2>
+                <span className="text-sm text-[#09215F]/70">
+                  Worth R{LoyaltyService.pointsValue(loyaltyPoints).toFixed(2)}
+                </span>
+              </div>
+
+              {loyalty && loyalty.expiring_points > 0 && (
+                <div className="mb-6 p-4 rounded-xl bg-yellow-50 border border-yellow-200 text-sm text-yellow-800">
+                  {loyalty.expiring_points.toLocaleString()} points expire
+                  {loyalty.next_expiry ? ` from ${new Date(loyalty.next_expiry).toLocaleDateString('en-ZA')}` : ' soon'}.
+                  Redeem them at checkout before they lapse.
+                </div>
+              )}
+
+              {loyaltyLoading && !loyalty ? (
+                <p className="text-[#09215F]/60">Loading points history...</p>
+              ) : !loyalty || loyalty.transactions.length === 0 ? (
+                <p className="text-[#09215F]/60">
+                  No points activity yet. You earn 1 point for every R1 spent.
+                </p>
+              ) : (
+                <div className="divide-y divide-gray-100">
+                  {loyalty.transactions.map(transaction => (
+                    <div key={transaction.id} className="flex items-center justify-between py-3">
+                      <div>
+                        <p className="font-semibold text-[#09215F]">
+                          {LoyaltyService.getTransactionLabel(transaction.type)}
+                        </p>
+                        <p className="text-sm text-[#09215F]/60">
+                          {transaction.description || transaction.reference}
+                          {' • '}
+                          {new Date(transaction.created_at).toLocaleDateString('en-ZA')}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className={`font-bold ${transaction.points > 0 ? 'text-green-600' : 'text-red-600'}`}>
+                          {transaction.points > 0 ? '+' : ''}{transaction.points.toLocaleString()}
+                        </p>
+                        <p className="text-xs text-[#09215F]/50">Balance {transaction.balance_after.toLocaleString()}</p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Sidebar */}
@@ -354,6 +422,8 @@ export default function Profile() {
               </div>
             </div>
 
+            <EmailPreferences />
+
             {/* Quick Actions */}
             <div className="bg-white rounded-2xl shadow-xl border border-gray-100 p-6">
               <h2 className="text-lg font-bold text-[#09215F] mb-4">Quick Actions</h2>
@@ -370,7 +440,10 @@ export default function Profile() {
                   </div>
                 </button>
                 
-                <button className="w-full text-left p-4 rounded-xl border border-gray-200 hover:border-[#97CF50] hover:bg-gradient-to-r hover:from-[#97CF50]/5 hover:to-[#09215F]/5 transition-all duration-300 group">
+                <button
+                  onClick={() => document.getElementById('email-preferences')?.scrollIntoView({ behavior: 'smooth' })}
+                  className="w-full text-left p-4 rounded-xl border border-gray-200 hover:border-[#97CF50] hover:bg-gradient-to-r hover:from-[#97CF50]/5 hover:to-[#09215F]/5 transition-all duration-300 group"
+                >
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-3">
                       <Bell className="h-5 w-5 text-[#97CF50] group-hover:text-[#09215F]" />
@@ -0,0 +1,61 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { ShoppingCart } from 'lucide-react';
+import { Card, CardContent } from '../../components/ui/card';
+import { useAuth } from '../../contexts/AuthContext';
+import { useCart } from '../../contexts/CartContext';
+import { CartRecoveryService } from '../../utils/cart-recovery-service';
+
+/**
+ * The link in a cart reminder email. Puts the reminded items back in the
+ * cart, alongside anything already there, and opens the cart with the
+ * email's discount code ready to apply.
+ */
+export default function RestoreCart() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const navigate = useNavigate();
+  const { loading: authLoading } = useAuth();
+  const { restoreItems } = useCart();
+  const [error, setError] = useState(token ? '' : 'This cart link is incomplete.');
+  const started = useRef(false);
+
+  useEffect(() => {
+    // Wait for sign-in to settle so the items land in the right cart
+    if (!token || authLoading || started.current) return;
+    started.current = true;
+
+    CartRecoveryService.restore(token).then(result => {
+      if (!result.success || !result.data) {
+        setError(result.error || 'We could not find that cart.');
+        return;
+      }
+      restoreItems(result.data.items);
+      navigate('/cart', { replace: true, state: { promoCode: result.data.discount_code } });
+    });
+  }, [token, authLoading]);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-lg mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Card>
+          <CardContent className="pt-6 text-center space-y-4">
+            <ShoppingCart className="h-12 w-12 text-[#97CF50] mx-auto" />
+            {error ? (
+              <>
+                <h1 className="text-2xl font-bold text-[#09215F]">Cart not found</h1>
+                <p className="text-gray-600">{error}</p>
+                <Link to="/products" className="inline-block text-sm text-[#09215F] hover:underline">Continue shopping</Link>
+              </>
+            ) : (
+              <>
+                <h1 className="text-2xl font-bold text-[#09215F]">Restoring your cart</h1>
+                <p className="text-gray-600">Just a moment...</p>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
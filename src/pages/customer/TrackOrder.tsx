@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { PackageSearch } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { Input } from '../../components/ui/input';
+import OrderTimeline from '../../components/common/OrderTimeline';
+import { OrderTracking, ShipmentService } from '../../utils/shipment-service';
+
+/**
+ * Order tracking without signing in: the order number (prefilled from the
+ * link in the shipping email) and the email address the order was placed with
+ */
+export default function TrackOrder() {
+  const [searchParams] = useSearchParams();
+  const [orderNumber, setOrderNumber] = useState(searchParams.get('order') || '');
+  const [email, setEmail] = useState('');
+  const [tracking, setTracking] = useState<OrderTracking | null>(null);
+  const [error, setError] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+    setError('');
+    const result = await ShipmentService.track(orderNumber.trim(), email.trim());
+    setLoading(false);
+    if (!result.success || !result.data) {
+      setTracking(null);
+      setError(result.error || "We couldn't find that order");
+      return;
+    }
+    setTracking(result.data);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8 py-12 space-y-6">
+        <div className="text-center">
+          <PackageSearch className="h-12 w-12 text-[#97CF50] mx-auto mb-3" />
+          <h1 className="text-3xl font-bold text-[#09215F]">Track Your Order</h1>
+          <p className="text-gray-600 mt-2">Enter your order number and the email address you ordered with.</p>
+        </div>
+
+        <Card>
+          <CardContent className="pt-6">
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium mb-1" htmlFor="track-order-number">Order number</label>
+                <Input
+                  id="track-order-number"
+                  value={orderNumber}
+                  onChange={(e) => setOrderNumber(e.target.value)}
+                  placeholder="From your order confirmation email"
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium mb-1" htmlFor="track-order-email">Email address</label>
+                <Input
+                  id="track-order-email"
+                  type="email"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  required
+                />
+              </div>
+              {error && <p className="text-sm text-red-600">{error}</p>}
+              <Button type="submit" disabled={loading} className="w-full bg-[#09215F] hover:bg-[#09215F]/90">
+                {loading ? 'Looking up...' : 'Track Order'}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {tracking && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span>{tracking.order_number}</span>
+                <span className="text-sm font-normal text-gray-500 capitalize">{tracking.status.replace(/_/g, ' ')}</span>
+              </CardTitle>
+              {tracking.destination && tracking.fulfillment_method !== 'collect' && (
+                <p className="text-sm text-gray-500">Delivering to {tracking.destination}</p>
+              )}
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <OrderTimeline tracking={tracking} />
+              <div>
+                <h3 className="text-sm font-semibold text-gray-900 mb-2">Items</h3>
+                <ul className="text-sm text-gray-700 space-y-1">
+                  {tracking.items.map(item => (
+                    <li key={item.order_item_id} className="flex justify-between">
+                      <span>{item.quantity}x {item.name}</span>
+                      {tracking.fulfillment_method !== 'collect' && (
+                        <span className="text-gray-500">
+                          {item.shipped >= item.quantity ? 'Shipped' : item.shipped > 0 ? `${item.shipped} shipped` : 'Not shipped yet'}
+                        </span>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
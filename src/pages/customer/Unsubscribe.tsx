@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { MailX } from 'lucide-react';
+import { Card, CardContent } from '../../components/ui/card';
+import { Button } from '../../components/ui/button';
+import { EMAIL_CATEGORY_LABELS, EmailCategory, EmailService } from '../../utils/email-service';
+
+/**
+ * The unsubscribe link at the foot of an email. The signed token says which
+ * address and kind of email; confirming is a button press rather than the
+ * page load, so link scanners in mail clients do not unsubscribe anyone.
+ */
+export default function Unsubscribe() {
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token') || '';
+  const [result, setResult] = useState<{ email: string; category: EmailCategory } | null>(null);
+  const [error, setError] = useState(token ? '' : 'This unsubscribe link is incomplete.');
+  const [loading, setLoading] = useState(false);
+
+  const handleUnsubscribe = async () => {
+    setLoading(true);
+    setError('');
+    const response = await EmailService.unsubscribe(token);
+    setLoading(false);
+    if (!response.success || !response.data) {
+      setError(response.error || 'We could not unsubscribe you. Please try again.');
+      return;
+    }
+    setResult(response.data);
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <div className="max-w-lg mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        <Card>
+          <CardContent className="pt-6 text-center space-y-4">
+            <MailX className="h-12 w-12 text-[#97CF50] mx-auto" />
+            {result ? (
+              <>
+                <h1 className="text-2xl font-bold text-[#09215F]">You're unsubscribed</h1>
+                <p className="text-gray-600">
+                  {result.email} will no longer receive {EMAIL_CATEGORY_LABELS[result.category].label.toLowerCase()}.
+                  You can turn them back on from your profile at any time.
+                </p>
+                <Link to="/" className="inline-block text-sm text-[#09215F] hover:underline">Continue shopping</Link>
+              </>
+            ) : (
+              <>
+                <h1 className="text-2xl font-bold text-[#09215F]">Unsubscribe</h1>
+                <p className="text-gray-600">Stop receiving these emails from us? Emails about your account will still be sent.</p>
+                {error && <p className="text-sm text-red-600">{error}</p>}
+                <Button
+                  onClick={handleUnsubscribe}
+                  disabled={loading || !token}
+                  className="w-full bg-[#09215F] hover:bg-[#09215F]/90"
+                >
+                  {loading ? 'Unsubscribing...' : 'Unsubscribe'}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { useAuth } from '../contexts/AuthContext';
 import Home from '../pages/customer/Home';
 import Products from '../pages/customer/Products';
 import ProductDetails from '../pages/customer/ProductDetails';
+import ComboDetails from '../pages/customer/ComboDetails';
 import Cart from '../pages/customer/Cart';
 import Favourites from '../pages/customer/Favourites';
 import Notifications from '../pages/customer/Notifications';
@@ -18,6 +19,9 @@ import EmailConfirm from '../pages/auth/EmailConfirm';
 import Profile from '../pages/customer/Profile';
 import OrderHistory from '../pages/customer/OrderHistory';
 import Contact from '../pages/customer/Contact';
+import TrackOrder from '../pages/customer/TrackOrder';
+import Unsubscribe from '../pages/customer/Unsubscribe';
+import RestoreCart from '../pages/customer/RestoreCart';
 import PrivacyPolicy from '../pages/customer/PrivacyPolicy';
 import TermsOfService from '../pages/customer/TermsOfService';
 
@@ -26,6 +30,21 @@ import AdminDashboard from '../pages/admin/Dashboard';
 import AdminProducts from '../pages/admin/Products';
 import AdminProductEditor from '../pages/admin/ProductEditor';
 import AdminPromotions from '../pages/admin/Promotions';
+import AdminCombos from '../pages/admin/Combos';
+import AdminReviews from '../pages/admin/Reviews';
+import AdminInventory from '../pages/admin/Inventory';
+import AdminSuppliers from '../pages/admin/Suppliers';
+import AdminPurchaseOrders from '../pages/admin/PurchaseOrders';
+import AdminStockTakes from '../pages/admin/StockTakes';
+import AdminShifts from '../pages/admin/Shifts';
+import AdminGiftCards from '../pages/admin/GiftCards';
+import AdminReceiptSettings from '../pages/admin/ReceiptSettings';
+import AdminOfflineSales from '../pages/admin/OfflineSales';
+import AdminOverrides from '../pages/admin/Overrides';
+import AdminShipping from '../pages/admin/Shipping';
+import AdminSearch from '../pages/admin/Search';
+import AdminEmails from '../pages/admin/Emails';
+import AdminCartRecovery from '../pages/admin/CartRecovery';
 import AdminOrders from '../pages/admin/Orders';
 import AdminUsers from '../pages/admin/Users';
 
@@ -33,6 +52,8 @@ import AdminUsers from '../pages/admin/Users';
 import CashierDashboard from '../pages/cashier/Dashboard';
 import POS from '../pages/cashier/POS';
 import CashierReports from '../pages/cashier/Reports';
+import CashierShift from '../pages/cashier/Shift';
+import CashierCollections from '../pages/cashier/Collections';
 // Components
 import ProtectedRoute from '../components/common/ProtectedRoute';
 import AuthGate from '../components/common/AuthGate';
@@ -48,12 +69,16 @@ export default function AppRoutes() {
       <Route path="/" element={<Home />} />
       <Route path="/products" element={<Products />} />
       <Route path="/products/:id" element={<ProductDetails />} />
+      <Route path="/combos/:id" element={<ComboDetails />} />
       <Route path="/contact" element={<Contact />} />
+      <Route path="/track-order" element={<TrackOrder />} />
+      <Route path="/unsubscribe" element={<Unsubscribe />} />
       <Route path="/privacy-policy" element={<PrivacyPolicy />} />
       <Route path="/terms-of-service" element={<TermsOfService />} />
       
       {/* Cart and Favourites - Public but enhanced experience for authenticated users */}
       <Route path="/cart" element={<Cart />} />
+      <Route path="/cart/restore" element={<RestoreCart />} />
       <Route path="/favourites" element={<Favourites />} />
       <Route path="/notifications" element={<Notifications />} />
       
@@ -132,6 +157,22 @@ export default function AppRoutes() {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/cashier/shift" 
+        element={
+          <ProtectedRoute allowedRoles={['cashier', 'staff', 'manager', 'admin']}>
+            <CashierShift />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/cashier/collections" 
+        element={
+          <ProtectedRoute allowedRoles={['cashier', 'staff', 'manager', 'admin']}>
+            <CashierCollections />
+          </ProtectedRoute>
+        } 
+      />
 
       {/* Admin Routes - require admin/manager roles */}
       <Route 
@@ -166,6 +207,126 @@ export default function AppRoutes() {
           </ProtectedRoute>
         } 
       />
+      <Route 
+        path="/admin/combos" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminCombos />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/reviews" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminReviews />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/inventory" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminInventory />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/suppliers" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminSuppliers />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/purchase-orders" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager', 'staff']}>
+            <AdminPurchaseOrders />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/stock-takes" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager', 'staff']}>
+            <AdminStockTakes />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/shifts" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminShifts />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/gift-cards" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminGiftCards />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/receipt-template" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminReceiptSettings />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/offline-sales" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminOfflineSales />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/overrides" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminOverrides />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/shipping" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminShipping />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/search" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminSearch />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/emails" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminEmails />
+          </ProtectedRoute>
+        } 
+      />
+      <Route 
+        path="/admin/cart-recovery" 
+        element={
+          <ProtectedRoute allowedRoles={['admin', 'manager']}>
+            <AdminCartRecovery />
+          </ProtectedRoute>
+        } 
+      />
       <Route 
         path="/admin/orders" 
         element={
@@ -32,6 +32,18 @@ function isCompletedStatus(status?: string | null): boolean {
   return ["confirmed", "processing", "shipped", "delivered", "completed", "paid"].includes(status);
 }
 
+// Orders whose takings count toward gross revenue; fully refunded orders are
+// kept so their refunds can be netted off against the original sale.
+function isRevenueStatus(status?: string | null): boolean {
+  return isCompletedStatus(status) || status === "refunded";
+}
+
+function sumRefunds(orders: Array<{ status?: string | null; amount_refunded?: number | string | null }>): number {
+  return orders
+    .filter(o => isRevenueStatus(o.status))
+    .reduce((sum, o) => sum + Number(o.amount_refunded ?? 0), 0);
+}
+
 export async function getSummary(range: TimeRange) {
   const since = getRangeStart(range);
 
@@ -43,7 +55,7 @@ export async function getSummary(range: TimeRange) {
   ] = await Promise.all([
     supabase
       .from("orders")
-      .select("id, total, status, created_at")
+      .select("id, total, amount_refunded, status, created_at")
       .gte("created_at", since),
     // Avoid head:true to work around some RLS/count header issues
     supabase
@@ -72,7 +84,10 @@ export async function getSummary(range: TimeRange) {
   const orders = ordersData || [];
   const completedOrders = orders.filter(o => isCompletedStatus(o.status));
   const grossSales = orders.reduce((sum, o) => sum + Number(o.total ?? 0), 0);
-  let sales = completedOrders.reduce((sum, o) => sum + Number(o.total ?? 0), 0);
+  let sales = orders
+    .filter(o => isRevenueStatus(o.status))
+    .reduce((sum, o) => sum + Number(o.total ?? 0), 0);
+  const refunds = sumRefunds(orders);
   
   // Debug logging
   if (process.env.NODE_ENV === 'development') {
@@ -82,7 +97,8 @@ export async function getSummary(range: TimeRange) {
       totalOrders: orders.length, 
       completedOrders: completedOrders.length,
       grossSales,
-      sales 
+      sales,
+      refunds
     });
   }
 
@@ -105,7 +121,10 @@ export async function getSummary(range: TimeRange) {
 
   return {
     ordersCount: orders.length,
-    salesAmount: sales,
+    // Net of refunds; gross is kept alongside for reconciliation
+    salesAmount: Math.max(0, sales - refunds),
+    grossSalesAmount: sales,
+    refundsAmount: refunds,
     productsCount: productsCount || 0,
     usersCount: usersCount || 0,
     pendingOrders,
@@ -256,17 +275,18 @@ export async function getRevenueBreakdown(range: TimeRange) {
   // Orders in range
   const { data: orders, error } = await supabase
     .from('orders')
-    .select('id, status, subtotal, tax_amount, shipping_amount, discount_amount, total, created_at')
+    .select('id, status, subtotal, tax_amount, shipping_amount, discount_amount, total, amount_refunded, created_at')
     .gte('created_at', since);
   if (error) throw error;
 
-  const completed = (orders || []).filter(o => isCompletedStatus(o.status));
+  const completed = (orders || []).filter(o => isRevenueStatus(o.status));
   const sum = (arr: any[], key: string) => arr.reduce((s, o) => s + Number(o[key] || 0), 0);
   const subtotal = sum(completed, 'subtotal');
   const tax = sum(completed, 'tax_amount');
   const shipping = sum(completed, 'shipping_amount');
   const discount = sum(completed, 'discount_amount');
-  const total = sum(completed, 'total');
+  let total = sum(completed, 'total');
+  const refunds = sumRefunds(orders || []);
 
   // Fallback: compute from items if totals missing
   if (!total && completed.length) {
@@ -278,7 +298,7 @@ export async function getRevenueBreakdown(range: TimeRange) {
     total = (items || []).reduce((s, it) => s + Number(it.total_price ?? ((it.unit_price || 0) * (it.quantity || 0))), 0);
   }
 
-  return { subtotal, tax, shipping, discount, total };
+  return { subtotal, tax, shipping, discount, total, refunds, net: Math.max(0, total - refunds) };
 }
 
 export async function getInventoryKpis() {
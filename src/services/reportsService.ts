@@ -1,4 +1,5 @@
 import { supabase } from '../lib/supabase';
+import { TENDER_METHODS, TenderMethod, TenderService } from '../utils/tender-service';
 
 export type DateRange = 'today' | 'week' | 'month' | 'quarter' | 'year';
 
@@ -30,8 +31,12 @@ export interface TransactionReport {
   successfulTransactions: number;
   failedTransactions: number;
   avgTransactionValue: number;
+  byTender: Record<TenderMethod, { count: number; amount: number }>; // Successful transactions only
 }
 
+const emptyTenderBreakdown = (): TransactionReport['byTender'] =>
+  Object.fromEntries(TENDER_METHODS.map(method => [method, { count: 0, amount: 0 }])) as TransactionReport['byTender'];
+
 function getDateRangeStart(range: DateRange): string {
   const now = new Date();
   const start = new Date(now);
@@ -310,7 +315,7 @@ export async function getTransactionReport(range: DateRange): Promise<Transactio
     
     const { data: orders, error } = await supabase
       .from('orders')
-      .select('id, total, status, payment_status, created_at')
+      .select('id, total, status, payment_status, payment_method, payment_details, created_at')
       .gte('created_at', since);
     
     if (error) {
@@ -327,6 +332,18 @@ export async function getTransactionReport(range: DateRange): Promise<Transactio
     const totalValue = (orders || []).reduce((sum, order) => 
       sum + (order.total || 0), 0);
     const avgTransactionValue = totalTransactions > 0 ? totalValue / totalTransactions : 0;
+
+    // A split sale counts once under each tender it used
+    const byTender = emptyTenderBreakdown();
+    (orders || [])
+      .filter(order => order.status === 'completed' || order.payment_status === 'paid')
+      .forEach(order => {
+        TenderService.getOrderTenders(order).forEach(tender => {
+          const entry = byTender[tender.method] || byTender.card;
+          entry.count += 1;
+          entry.amount = Math.round((entry.amount + Number(tender.amount || 0)) * 100) / 100;
+        });
+      });
     
     console.log(`💳 Transaction report: ${totalTransactions} total, ${successfulTransactions} successful, ${failedTransactions} failed`);
     
@@ -334,7 +351,8 @@ export async function getTransactionReport(range: DateRange): Promise<Transactio
       totalTransactions,
       successfulTransactions,
       failedTransactions,
-      avgTransactionValue
+      avgTransactionValue,
+      byTender
     };
   } catch (error) {
     console.error('❌ Error in getTransactionReport:', error);
@@ -342,7 +360,8 @@ export async function getTransactionReport(range: DateRange): Promise<Transactio
       totalTransactions: 0,
       successfulTransactions: 0,
       failedTransactions: 0,
-      avgTransactionValue: 0
+      avgTransactionValue: 0,
+      byTender: emptyTenderBreakdown()
     };
   }
 }
@@ -0,0 +1,97 @@
+import { serverRequest, ServerResult } from './server-api';
+import type { CartItem } from '../contexts/CartContext';
+
+/**
+ * Cart Recovery Service
+ *
+ * A signed-in customer's cart is saved on the server as it changes. Carts
+ * left idle get a reminder email, optionally with a single-use discount code,
+ * whose link restores the cart on any device. Managers set the timing and
+ * discount and see how much revenue the reminders won back.
+ */
+
+export interface SavedCart {
+  items: CartItem[];
+  item_count: number;
+  subtotal: number;
+  last_activity_at: string | null;
+}
+
+export interface CartRecoverySettings {
+  enabled: boolean;
+  idle_hours: number;
+  max_idle_days: number;
+  discount_percent: number; // 0 sends no code
+  discount_valid_days: number;
+  attribution_days: number;
+}
+
+export interface AbandonedCartRun {
+  enabled: boolean;
+  idle_carts: number;
+  reminded: number;
+  already_ordered: number;
+  opted_out: number;
+  failed: number;
+  recovered: number;
+}
+
+export interface CartRecoveryEntry {
+  id: string;
+  cart_value: number;
+  discount_code: string | null;
+  sent_at: string;
+  restored_at: string | null;
+  order_total: number | null;
+  recovered_at: string | null;
+  user?: { email: string; first_name: string | null; last_name: string | null } | null;
+  order?: { order_number: string } | null;
+}
+
+export interface CartRecoveryReport {
+  days: number;
+  waiting: number;
+  reminders: number;
+  restored: number;
+  recovered: number;
+  abandoned_value: number;
+  recovered_revenue: number;
+  recovery_rate: number;
+  recent: CartRecoveryEntry[];
+}
+
+export class CartRecoveryService {
+  static async getSavedCart(): Promise<ServerResult<SavedCart>> {
+    return serverRequest<SavedCart>('/cart');
+  }
+
+  static async saveCart(items: CartItem[]): Promise<ServerResult<SavedCart>> {
+    return serverRequest<SavedCart>('/cart', { method: 'POST', body: { items } });
+  }
+
+  /**
+   * The cart and discount code behind a reminder email's link
+   */
+  static async restore(token: string): Promise<ServerResult<{ items: CartItem[]; discount_code: string | null }>> {
+    return serverRequest<{ items: CartItem[]; discount_code: string | null }>('/carts/restore', { method: 'POST', body: { token } });
+  }
+
+  static async getReport(days: number): Promise<ServerResult<CartRecoveryReport>> {
+    return serverRequest<CartRecoveryReport>(`/carts/recovery/report?days=${days}`);
+  }
+
+  static async getSettings(): Promise<ServerResult<CartRecoverySettings>> {
+    return serverRequest<CartRecoverySettings>('/carts/recovery/settings');
+  }
+
+  static async saveSettings(settings: CartRecoverySettings): Promise<ServerResult<CartRecoverySettings>> {
+    return serverRequest<CartRecoverySettings>('/carts/recovery/settings', { method: 'POST', body: settings });
+  }
+
+  /**
+   * Remind idle carts now instead of waiting for the hourly job
+   */
+  static async runNow(): Promise<ServerResult<AbandonedCartRun>> {
+    return serverRequest<AbandonedCartRun>('/carts/abandoned/run', { method: 'POST' });
+  }
+}
@@ -45,6 +45,7 @@ const mockOrderData: OrderData = {
   discount_amount: 0.00,
   total_amount: 115.00,
   currency: 'USD',
+  pricing_quote: 'test-quote.signature', // Issued by /pricing/quote in the real flow
   items: [
     {
       product_id: 'test-product-1',
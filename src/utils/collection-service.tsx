@@ -0,0 +1,98 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Collection Service
+ *
+ * Click-and-collect. Customers book a pickup slot at checkout; staff mark
+ * the packed order ready, which emails the customer a one-time collection
+ * code; at the counter the code, the receipt barcode or the order number
+ * brings the order up so it can be handed over.
+ */
+
+export interface CollectionHours {
+  open: string;
+  close: string;
+}
+
+export interface CollectionSettings {
+  slot_minutes: number;
+  capacity_per_slot: number;
+  lead_time_hours: number;
+  days_ahead: number;
+  hours: Record<string, CollectionHours | null>; // "0" Sunday to "6" Saturday
+  instructions: string;
+}
+
+export interface PickupSlot {
+  start: string;
+  end: string;
+  remaining: number;
+}
+
+export interface CollectionOrder {
+  order_id: string;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  customer_phone: string | null;
+  pickup_slot_start: string | null;
+  pickup_slot_end: string | null;
+  ready_for_collection_at: string | null;
+  collected_at: string | null;
+  items: { name: string; quantity: number }[];
+  matched_by: 'code' | 'order_number';
+}
+
+const SHOP_TIME_ZONE = 'Africa/Johannesburg';
+
+export class CollectionService {
+  static async getSlots(): Promise<ServerResult<PickupSlot[]>> {
+    return serverRequest<PickupSlot[]>('/collection/slots');
+  }
+
+  static async getSettings(): Promise<ServerResult<CollectionSettings>> {
+    return serverRequest<CollectionSettings>('/collection/settings');
+  }
+
+  static async saveSettings(settings: CollectionSettings): Promise<ServerResult<CollectionSettings>> {
+    return serverRequest<CollectionSettings>('/collection/settings', { method: 'POST', body: settings });
+  }
+
+  /**
+   * Mark a packed order ready; the customer is emailed their collection code
+   */
+  static async markReady(orderId: string): Promise<ServerResult<{ order: CollectionOrder; notified: boolean }>> {
+    return serverRequest<{ order: CollectionOrder; notified: boolean }>(`/orders/${orderId}/ready-for-collection`, { method: 'POST' });
+  }
+
+  static async lookup(reference: string): Promise<ServerResult<CollectionOrder>> {
+    return serverRequest<CollectionOrder>(`/collection/lookup?reference=${encodeURIComponent(reference.trim())}`);
+  }
+
+  /**
+   * Hand the order over. Pass the code when the customer showed one;
+   * without it staff confirm the customer's ID against the order.
+   */
+  static async collect(orderId: string, code?: string | null): Promise<ServerResult<CollectionOrder>> {
+    return serverRequest<CollectionOrder>(`/orders/${orderId}/collect`, { method: 'POST', body: { code: code || null } });
+  }
+
+  /**
+   * "Tuesday 14 May, 09:00 – 10:00" in shop time
+   */
+  static formatSlot(start: string, end?: string | null): string {
+    const time = (value: string) =>
+      new Date(value).toLocaleTimeString('en-ZA', { timeZone: SHOP_TIME_ZONE, hour: '2-digit', minute: '2-digit' });
+    const day = new Date(start).toLocaleDateString('en-ZA', { timeZone: SHOP_TIME_ZONE, weekday: 'long', day: 'numeric', month: 'long' });
+    return end ? `${day}, ${time(start)} – ${time(end)}` : `${day}, ${time(start)}`;
+  }
+
+  /**
+   * The shop-time date of a slot, for grouping slots by day
+   */
+  static slotDay(start: string): string {
+    return new Date(start).toLocaleDateString('en-ZA', { timeZone: SHOP_TIME_ZONE, weekday: 'short', day: 'numeric', month: 'short' });
+  }
+}
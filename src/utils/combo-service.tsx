@@ -0,0 +1,196 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Combo Service
+ *
+ * Reads combos (bundles) for the storefront and previews what a chosen set of
+ * items costs. The preview follows the server's split of combo_price across
+ * the combo's items; the server quote remains the price that is charged.
+ */
+
+export type ComboType = 'bundle' | 'mix_match' | 'tiered' | 'bogo';
+
+/** The types the server quote can price; other types are never sold */
+export const PRICED_COMBO_TYPES: ComboType[] = ['bundle'];
+export type ComboStatus = 'draft' | 'active' | 'inactive' | 'expired';
+
+export interface ComboProduct {
+  id: string;
+  name: string;
+  price: number;
+  sku?: string;
+  images?: string[];
+  image_url?: string;
+  category_id?: string | null;
+  stock_quantity?: number;
+}
+
+export interface ComboItem {
+  id: string;
+  combo_id: string;
+  product_id: string;
+  quantity: number;
+  is_required: boolean;
+  can_substitute: boolean;
+  substitute_category_id: string | null;
+  sort_order: number;
+  product?: ComboProduct;
+}
+
+export interface Combo {
+  id: string;
+  name: string;
+  description: string | null;
+  combo_type: ComboType;
+  status: ComboStatus;
+  original_price: number;
+  combo_price: number;
+  image_url: string | null;
+  is_featured: boolean;
+  minimum_quantity: number;
+  maximum_quantity: number | null;
+  usage_limit: number | null;
+  times_purchased: number;
+  requires_all_items: boolean;
+  starts_at: string | null;
+  ends_at: string | null;
+  combo_items: ComboItem[];
+}
+
+/** One combo item as the customer chose it (possibly a substitute product) */
+export interface ComboSelection {
+  item: ComboItem;
+  product: ComboProduct;
+}
+
+export interface ComboLinePreview extends ComboSelection {
+  quantity: number; // Units per bundle
+  unit_price: number;
+  bundle_share: number; // What this item contributes to one bundle
+}
+
+const COMBO_SELECT = '*, combo_items (*, product:products (id, name, price, sku, images, category_id, stock_quantity))';
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export class ComboService {
+  /**
+   * Combos that can currently be bought, featured first
+   */
+  static async getActiveCombos(limit?: number): Promise<Combo[]> {
+    let query = supabase
+      .from('combos')
+      .select(COMBO_SELECT)
+      .eq('status', 'active')
+      .order('is_featured', { ascending: false })
+      .order('created_at', { ascending: false });
+
+    if (limit) {
+      query = query.limit(limit);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('❌ Error fetching combos:', error);
+      return [];
+    }
+
+    return (data || []).map(ComboService.sortItems).filter(combo => ComboService.isAvailable(combo));
+  }
+
+  /**
+   * A single combo with its items and their products
+   */
+  static async getCombo(comboId: string): Promise<Combo | null> {
+    const { data, error } = await supabase
+      .from('combos')
+      .select(COMBO_SELECT)
+      .eq('id', comboId)
+      .single();
+
+    if (error || !data) {
+      console.error('❌ Error fetching combo:', error);
+      return null;
+    }
+
+    return ComboService.sortItems(data);
+  }
+
+  /**
+   * Products that may replace an item that allows substitution
+   */
+  static async getSubstitutes(item: ComboItem): Promise<ComboProduct[]> {
+    if (!item.can_substitute || !item.substitute_category_id) return [];
+
+    const { data, error } = await supabase
+      .from('products')
+      .select('id, name, price, sku, images, category_id, stock_quantity')
+      .eq('category_id', item.substitute_category_id)
+      .eq('is_active', true)
+      .order('name');
+
+    if (error) {
+      console.error('❌ Error fetching substitutes:', error);
+      return [];
+    }
+
+    return data || [];
+  }
+
+  static isAvailable(combo: Combo, now: Date = new Date()): boolean {
+    if (combo.status !== 'active') return false;
+    if (!PRICED_COMBO_TYPES.includes(combo.combo_type)) return false;
+    if (combo.starts_at && new Date(combo.starts_at) > now) return false;
+    if (combo.ends_at && new Date(combo.ends_at) < now) return false;
+    if (combo.usage_limit && combo.times_purchased >= combo.usage_limit) return false;
+    return true;
+  }
+
+  /**
+   * Split the combo price across the chosen items. Each item's share follows
+   * the price of the combo's listed product, so optional items that are left
+   * out simply drop their share.
+   */
+  static previewSelection(combo: Combo, selections: ComboSelection[]): { lines: ComboLinePreview[]; bundlePrice: number; originalPrice: number } {
+    const slotValue = (item: ComboItem) => Number(item.product?.price || 0) * Number(item.quantity || 1);
+    const fullValue = combo.combo_items.reduce((sum, item) => sum + slotValue(item), 0);
+    const comboPrice = Number(combo.combo_price || 0);
+    const complete = selections.length === combo.combo_items.length;
+
+    let allocated = 0;
+    const lines = selections.map((selection, index) => {
+      let share = fullValue > 0 ? roundCurrency((comboPrice * slotValue(selection.item)) / fullValue) : 0;
+      if (complete && index === selections.length - 1) {
+        share = roundCurrency(comboPrice - allocated);
+      }
+      allocated = roundCurrency(allocated + share);
+
+      const quantity = Number(selection.item.quantity || 1);
+      return {
+        ...selection,
+        quantity,
+        unit_price: roundCurrency(share / quantity),
+        bundle_share: share,
+      };
+    });
+
+    return {
+      lines,
+      bundlePrice: allocated,
+      originalPrice: roundCurrency(selections.reduce((sum, selection) => sum + slotValue(selection.item), 0)),
+    };
+  }
+
+  static getSavingsPercent(combo: Combo): number {
+    const original = Number(combo.original_price || 0);
+    if (original <= 0) return 0;
+    return Math.round(((original - Number(combo.combo_price || 0)) / original) * 100);
+  }
+
+  private static sortItems(combo: any): Combo {
+    return {
+      ...combo,
+      combo_items: [...(combo.combo_items || [])].sort((a: ComboItem, b: ComboItem) => a.sort_order - b.sort_order),
+    };
+  }
+}
@@ -0,0 +1,145 @@
+import { supabase } from '../lib/supabase';
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Email Service
+ *
+ * Transactional email sent by the server: order updates, account notices and
+ * cart reminders. Customers choose which categories they receive and can
+ * unsubscribe from the link in any email; managers review every email sent,
+ * its delivery status, and resend ones that failed.
+ */
+
+export type EmailType =
+  | 'order_confirmation'
+  | 'ready_for_collection'
+  | 'order_shipped'
+  | 'order_delivered'
+  | 'order_cancelled'
+  | 'order_refunded'
+  | 'password_changed'
+  | 'shared_cart_paid'
+  | 'abandoned_cart';
+
+export type EmailStatus = 'queued' | 'sent' | 'delivered' | 'bounced' | 'failed' | 'skipped';
+export type EmailCategory = 'order_updates' | 'cart_reminders';
+
+export interface EmailLogEntry {
+  id: string;
+  email_type: EmailType;
+  recipient: string;
+  user_id: string | null;
+  order_id: string | null;
+  subject: string | null;
+  status: EmailStatus;
+  provider: string | null;
+  provider_message_id: string | null;
+  error: string | null;
+  sent_at: string | null;
+  created_at: string;
+  updated_at: string;
+  order?: { order_number: string } | null;
+}
+
+export interface EmailLogFilters {
+  status?: EmailStatus | 'all';
+  type?: EmailType | 'all';
+  recipient?: string;
+}
+
+export interface EmailPreferences {
+  email: string;
+  order_updates: boolean;
+  cart_reminders: boolean;
+}
+
+export const EMAIL_TYPE_LABELS: Record<EmailType, string> = {
+  order_confirmation: 'Order confirmation',
+  ready_for_collection: 'Ready for collection',
+  order_shipped: 'Order shipped',
+  order_delivered: 'Order delivered',
+  order_cancelled: 'Order cancelled',
+  order_refunded: 'Order refunded',
+  password_changed: 'Password changed',
+  shared_cart_paid: 'Shared cart paid',
+  abandoned_cart: 'Abandoned cart',
+};
+
+export const EMAIL_STATUS_LABELS: Record<EmailStatus, string> = {
+  queued: 'Sending',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  bounced: 'Bounced',
+  failed: 'Failed',
+  skipped: 'Opted out',
+};
+
+export const EMAIL_CATEGORY_LABELS: Record<EmailCategory, { label: string; description: string }> = {
+  order_updates: {
+    label: 'Order updates',
+    description: 'When your order ships, is delivered, cancelled or refunded, and when someone pays for a cart you shared',
+  },
+  cart_reminders: {
+    label: 'Cart reminders',
+    description: 'A reminder when you leave items in your cart',
+  },
+};
+
+const EMAIL_LOG_PAGE_SIZE = 100;
+
+export class EmailService {
+  static async getPreferences(): Promise<ServerResult<EmailPreferences>> {
+    return serverRequest<EmailPreferences>('/emails/preferences');
+  }
+
+  static async savePreferences(preferences: Partial<Record<EmailCategory, boolean>>): Promise<ServerResult<EmailPreferences>> {
+    return serverRequest<EmailPreferences>('/emails/preferences', { method: 'POST', body: preferences });
+  }
+
+  static async unsubscribe(token: string): Promise<ServerResult<{ email: string; category: EmailCategory }>> {
+    return serverRequest('/emails/unsubscribe', { method: 'POST', body: { token } });
+  }
+
+  /**
+   * Tell the account holder their password changed, in case it was not them
+   */
+  static async notifyPasswordChanged(): Promise<ServerResult<{ notified: boolean }>> {
+    return serverRequest<{ notified: boolean }>('/emails/password-changed', { method: 'POST' });
+  }
+
+  /**
+   * Email the customer about a status set in admin; only delivered and
+   * cancelled orders send anything
+   */
+  static async notifyOrderStatus(orderId: string): Promise<ServerResult<{ notified: boolean }>> {
+    return serverRequest<{ notified: boolean }>(`/orders/${orderId}/emails/status`, { method: 'POST' });
+  }
+
+  static async resend(emailId: string): Promise<ServerResult<EmailLogEntry>> {
+    return serverRequest<EmailLogEntry>(`/emails/${emailId}/resend`, { method: 'POST' });
+  }
+
+  static async getLog(filters: EmailLogFilters = {}): Promise<EmailLogEntry[]> {
+    let query = supabase
+      .from('email_log')
+      .select('id, email_type, recipient, user_id, order_id, subject, status, provider, provider_message_id, error, sent_at, created_at, updated_at, order:orders(order_number)')
+      .order('created_at', { ascending: false })
+      .limit(EMAIL_LOG_PAGE_SIZE);
+
+    if (filters.status && filters.status !== 'all') {
+      query = query.eq('status', filters.status);
+    }
+    if (filters.type && filters.type !== 'all') {
+      query = query.eq('email_type', filters.type);
+    }
+    if (filters.recipient?.trim()) {
+      query = query.ilike('recipient', `%${filters.recipient.trim()}%`);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load sent emails: ${error.message}`);
+    }
+    return (data || []) as unknown as EmailLogEntry[];
+  }
+}
@@ -20,7 +20,10 @@ export const ID_PREFIXES = {
   INVENTORY: 'IN',       // Inventory
   CATEGORY: 'CA',        // Category
   SUPPLIER: 'SU',        // Supplier
+  PURCHASE_ORDER: 'PO',  // Purchase order
   REFUND: 'RF',          // Refund
+  SHIFT: 'SH',           // Cashier shift
+  GIFT_CARD: 'GC',       // Gift card / store voucher
   DISCOUNT: 'DC',        // Discount
   REVIEW: 'RV',          // Review
   NOTIFICATION: 'NT',    // Notification
@@ -0,0 +1,125 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Inventory Service
+ *
+ * Stock levels are changed through the server, which records every change in
+ * the stock movements ledger: sales, refund returns, receiving, write-offs and
+ * manual adjustments. Editing stock_quantity directly leaves the ledger out of
+ * step and shows up in the reconciliation report.
+ */
+
+export type StockMovementType =
+  | 'opening_balance'
+  | 'sale'
+  | 'pos_sale'
+  | 'refund_return'
+  | 'adjustment'
+  | 'receiving'
+  | 'stock_take'
+  | 'damage';
+
+export type ManualMovementType = 'adjustment' | 'receiving' | 'damage';
+
+export interface StockMovement {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  movement_type: StockMovementType;
+  quantity_change: number;
+  quantity_after: number;
+  reason: string | null;
+  reference_type: string | null;
+  reference_id: string | null;
+  created_by: string | null;
+  created_by_name?: string | null;
+  created_at: string;
+  variant?: { id: string; name: string; sku: string } | null;
+}
+
+export interface StockMovementsPage {
+  movements: StockMovement[];
+  page: number;
+  has_more: boolean;
+}
+
+export interface StockAdjustment {
+  product_id: string;
+  variant_id?: string | null;
+  movement_type: ManualMovementType;
+  quantity_change?: number;
+  new_quantity?: number;
+  reason: string;
+}
+
+export interface StockChangeReason {
+  movement_type: ManualMovementType;
+  reason: string;
+}
+
+export interface ReconciliationRow {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  sku: string | null;
+  stock_quantity: number;
+  ledger_quantity: number;
+  difference: number;
+}
+
+export interface ReconciliationReport {
+  checked: number;
+  in_balance: number;
+  discrepancies: ReconciliationRow[];
+  generated_at: string;
+}
+
+export const MANUAL_MOVEMENT_TYPES: { value: ManualMovementType; label: string }[] = [
+  { value: 'adjustment', label: 'Adjustment' },
+  { value: 'receiving', label: 'Received stock' },
+  { value: 'damage', label: 'Damaged / written off' },
+];
+
+const MOVEMENT_LABELS: Record<StockMovementType, string> = {
+  opening_balance: 'Opening balance',
+  sale: 'Online sale',
+  pos_sale: 'POS sale',
+  refund_return: 'Refund return',
+  adjustment: 'Adjustment',
+  receiving: 'Received',
+  stock_take: 'Stock-take correction',
+  damage: 'Damage / write-off',
+};
+
+export class InventoryService {
+  /**
+   * Movement history of a product, newest first
+   */
+  static async getMovements(productId: string, options: { variantId?: string; page?: number } = {}): Promise<ServerResult<StockMovementsPage>> {
+    const params = new URLSearchParams({ page: String(options.page || 1) });
+    if (options.variantId) params.set('variant_id', options.variantId);
+    return serverRequest<StockMovementsPage>(`/inventory/products/${productId}/movements?${params.toString()}`);
+  }
+
+  /**
+   * Record a manual stock change; pass new_quantity to set a counted level
+   */
+  static async adjustStock(adjustment: StockAdjustment): Promise<ServerResult<StockMovement | null>> {
+    return serverRequest<StockMovement | null>('/inventory/adjustments', { method: 'POST', body: adjustment });
+  }
+
+  static async getReconciliation(): Promise<ServerResult<ReconciliationReport>> {
+    return serverRequest<ReconciliationReport>('/inventory/reconciliation');
+  }
+
+  /**
+   * Take stock for a paid order; safe to call more than once
+   */
+  static async takeOrderStock(orderId: string): Promise<ServerResult<{ decremented: boolean }>> {
+    return serverRequest<{ decremented: boolean }>(`/orders/${orderId}/stock`, { method: 'POST' });
+  }
+
+  static getMovementLabel(type: StockMovementType): string {
+    return MOVEMENT_LABELS[type] || type;
+  }
+}
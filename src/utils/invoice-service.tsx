@@ -0,0 +1,72 @@
+import { serverDownload, serverRequest, ServerResult } from './server-api';
+
+/**
+ * Invoice Service
+ *
+ * VAT tax invoices for paid orders. The server issues each order's invoice
+ * once, with the next number in an unbroken sequence, the first time it is
+ * asked for, and keeps the PDF against the order.
+ */
+
+export interface InvoiceParty {
+  name: string;
+  address_lines: string[];
+  email?: string | null;
+  phone?: string | null;
+  vat_number?: string | null;
+}
+
+export interface InvoiceLine {
+  description: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  vat_rate: number;
+  amount_excl_vat: number;
+  vat_amount: number;
+  amount_incl_vat: number;
+}
+
+export interface TaxInvoice {
+  id: string;
+  invoice_number: string;
+  sequence_number: number;
+  order_id: string;
+  order_number: string;
+  issued_at: string;
+  seller: InvoiceParty;
+  buyer: InvoiceParty;
+  lines: InvoiceLine[];
+  discount_amount: number;
+  total_excl_vat: number;
+  vat_amount: number;
+  total_incl_vat: number;
+  pdf_path: string | null;
+}
+
+export class InvoiceService {
+  /**
+   * An order's tax invoice, issued if it has none yet
+   */
+  static async get(orderId: string): Promise<ServerResult<TaxInvoice>> {
+    return serverRequest<TaxInvoice>(`/orders/${orderId}/invoice`);
+  }
+
+  /**
+   * Save an order's tax invoice PDF to the device
+   */
+  static async download(orderId: string, fileName: string = 'tax-invoice'): Promise<ServerResult<Blob>> {
+    const result = await serverDownload(`/orders/${orderId}/invoice/pdf`);
+    if (!result.success || !result.data) return result;
+
+    const url = URL.createObjectURL(result.data);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.pdf`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+    return result;
+  }
+}
@@ -0,0 +1,84 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Loyalty Service
+ *
+ * Reads a member's points balance and history from the server ledger and
+ * looks members up at the till. Points are redeemed through the price quote,
+ * never by changing the balance from the browser.
+ */
+
+export type LoyaltyTransactionType = 'earn' | 'redeem' | 'reverse_earn' | 'reverse_redeem' | 'expire' | 'adjust';
+
+export interface LoyaltyTransaction {
+  id: string;
+  customer_id: string;
+  order_id: string | null;
+  type: LoyaltyTransactionType;
+  points: number;
+  balance_after: number;
+  reference: string;
+  description: string | null;
+  expires_at: string | null;
+  created_at: string;
+}
+
+export interface LoyaltySummary {
+  balance: number;
+  point_value: number;
+  minimum_redemption: number;
+  expiring_points: number;
+  next_expiry: string | null;
+  transactions: LoyaltyTransaction[];
+}
+
+export interface LoyaltyMember {
+  id: string;
+  name: string;
+  email: string;
+  phone: string | null;
+  points: number;
+}
+
+export const POINT_VALUE = 0.01;
+export const MIN_REDEMPTION_POINTS = 100;
+
+const TRANSACTION_LABELS: Record<LoyaltyTransactionType, string> = {
+  earn: 'Earned',
+  redeem: 'Redeemed',
+  reverse_earn: 'Reversed',
+  reverse_redeem: 'Returned',
+  expire: 'Expired',
+  adjust: 'Adjustment',
+};
+
+export class LoyaltyService {
+  /**
+   * The signed-in customer's balance and history
+   */
+  static async getSummary(): Promise<ServerResult<LoyaltySummary>> {
+    return serverRequest<LoyaltySummary>('/loyalty/me');
+  }
+
+  /**
+   * Find members by email, phone or name (cashier and above)
+   */
+  static async searchMembers(query: string): Promise<ServerResult<LoyaltyMember[]>> {
+    return serverRequest<LoyaltyMember[]>(`/loyalty/customers?q=${encodeURIComponent(query)}`);
+  }
+
+  /**
+   * Reverse points after an order is cancelled (admin and manager)
+   */
+  static async syncOrder(orderId: string): Promise<ServerResult> {
+    return serverRequest(`/orders/${orderId}/loyalty/sync`, { method: 'POST' });
+  }
+
+  static pointsValue(points: number): number {
+    return Math.round(points * POINT_VALUE * 100) / 100;
+  }
+
+  static getTransactionLabel(type: LoyaltyTransactionType): string {
+    return TRANSACTION_LABELS[type] || type;
+  }
+}
@@ -0,0 +1,237 @@
+import { serverRequest, ServerResult } from './server-api';
+import { PosOfflineStore } from './pos-offline-store';
+import type { Tender } from './tender-service';
+import type { Shift } from './shift-service';
+
+/**
+ * Offline Sale Service
+ *
+ * Lets the till keep selling when the connection drops. The catalogue and
+ * shift are cached on the device each time they load; sales rung up offline
+ * are queued in IndexedDB with an order id made on the till, and sent oldest
+ * first once the server can be reached. The server records each sale once,
+ * or holds it as a conflict (price changed, not enough stock, ...) for a
+ * manager to accept or void on the reconciliation screen.
+ */
+
+export type OfflineSaleStatus = 'conflict' | 'synced' | 'accepted' | 'voided';
+
+export interface OfflineSaleItem {
+  product_id: string;
+  variant_id?: string | null;
+  name: string;
+  sku?: string | null;
+  barcode?: string | null;
+  category?: string | null;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface OfflineSale {
+  id: string;
+  sold_at: string;
+  shift_id: string;
+  store_location: string;
+  till_id: string;
+  cashier_name: string;
+  items: OfflineSaleItem[];
+  discount_percent: number;
+  subtotal: number;
+  discount_amount: number;
+  total: number;
+  payment_method: string;
+  tenders: Tender[];
+}
+
+export interface QueuedSale {
+  id: string;
+  sale: OfflineSale;
+  queued_at: string;
+  attempts: number;
+  last_error: string | null;
+}
+
+export interface OfflineSaleConflict {
+  type: 'product_unavailable' | 'price_changed' | 'insufficient_stock' | 'total_mismatch' | 'shift_closed' | 'discount_not_authorised' | 'record_failed';
+  message: string;
+  product_id?: string;
+  variant_id?: string | null;
+  charged?: number;
+  current?: number;
+}
+
+export interface OfflineSaleRecord {
+  id: string;
+  payload: OfflineSale;
+  till_id: string | null;
+  store_location: string;
+  shift_id: string | null;
+  total: number;
+  status: OfflineSaleStatus;
+  conflicts: OfflineSaleConflict[];
+  order_id: string | null;
+  sold_at: string;
+  sold_by_name: string | null;
+  resolved_by_name: string | null;
+  resolved_at: string | null;
+  resolution_note: string | null;
+  created_at: string;
+}
+
+export interface SyncOutcome {
+  id: string;
+  status: OfflineSaleStatus;
+  order_id: string | null;
+  conflicts: OfflineSaleConflict[];
+}
+
+export interface SyncSummary {
+  synced: number;
+  held: number;
+  remaining: number;
+}
+
+// Only tenders the till can take without asking the server
+export const OFFLINE_TENDER_METHODS = ['cash', 'card', 'eft'] as const;
+
+const CATALOGUE_KEY = 'catalogue';
+const SHIFT_KEY = 'shift';
+const TILL_ID_KEY = 'best-brightness-till-id';
+
+const listeners = new Set<(pending: number) => void>();
+let syncing: Promise<SyncSummary> | null = null;
+
+export class OfflineSaleService {
+  /**
+   * This device's till id, made the first time it is asked for
+   */
+  static getTillId(): string {
+    let tillId = localStorage.getItem(TILL_ID_KEY);
+    if (!tillId) {
+      tillId = `TILL-${crypto.randomUUID().slice(0, 8).toUpperCase()}`;
+      localStorage.setItem(TILL_ID_KEY, tillId);
+    }
+    return tillId;
+  }
+
+  static async cacheCatalogue(productsByBarcode: Record<string, any>): Promise<void> {
+    await PosOfflineStore.save(CATALOGUE_KEY, productsByBarcode).catch(error => {
+      console.warn('Failed to cache the catalogue for offline use:', error);
+    });
+  }
+
+  static async loadCatalogue() {
+    return PosOfflineStore.load<Record<string, any>>(CATALOGUE_KEY);
+  }
+
+  static async cacheShift(shift: Shift | null): Promise<void> {
+    await PosOfflineStore.save(SHIFT_KEY, shift).catch(error => {
+      console.warn('Failed to cache the shift for offline use:', error);
+    });
+  }
+
+  static async loadShift(): Promise<Shift | null> {
+    return (await PosOfflineStore.load<Shift | null>(SHIFT_KEY))?.value || null;
+  }
+
+  /**
+   * Whether the server answers at all; the browser can report being online
+   * while the store's uplink is down
+   */
+  static async isServerReachable(): Promise<boolean> {
+    const result = await serverRequest('/health');
+    return result.status !== undefined;
+  }
+
+  /**
+   * Hear how many sales are waiting whenever the queue changes
+   */
+  static subscribe(listener: (pending: number) => void): () => void {
+    listeners.add(listener);
+    this.getQueue().then(queue => listener(queue.length));
+    return () => listeners.delete(listener);
+  }
+
+  private static async notify() {
+    const pending = (await this.getQueue()).length;
+    listeners.forEach(listener => listener(pending));
+  }
+
+  static async getQueue(): Promise<QueuedSale[]> {
+    const queue = await PosOfflineStore.getSales<QueuedSale>();
+    return queue.sort((a, b) => a.sale.sold_at.localeCompare(b.sale.sold_at));
+  }
+
+  static async queue(sale: OfflineSale): Promise<void> {
+    await PosOfflineStore.putSale<QueuedSale>({
+      id: sale.id,
+      sale,
+      queued_at: new Date().toISOString(),
+      attempts: 0,
+      last_error: null,
+    });
+    await this.notify();
+  }
+
+  /**
+   * Send queued sales oldest first. Stops at the first sale the server could
+   * not take because of the connection or a server fault, so later sales
+   * never overtake it; a sale the server rejects outright stays queued with
+   * the reason and the rest carry on.
+   */
+  static async sync(): Promise<SyncSummary> {
+    if (!syncing) {
+      syncing = this.sendQueue().finally(() => {
+        syncing = null;
+      });
+    }
+    return syncing;
+  }
+
+  private static async sendQueue(): Promise<SyncSummary> {
+    const summary: SyncSummary = { synced: 0, held: 0, remaining: 0 };
+    const queue = await this.getQueue();
+
+    for (let index = 0; index < queue.length; index++) {
+      const entry = queue[index];
+      const result = await serverRequest<SyncOutcome>('/offline-sales', { method: 'POST', body: entry.sale });
+
+      if (result.success && result.data) {
+        await PosOfflineStore.deleteSale(entry.id);
+        if (result.data.status === 'conflict') {
+          summary.held++;
+        } else {
+          summary.synced++;
+        }
+        continue;
+      }
+
+      await PosOfflineStore.putSale<QueuedSale>({
+        ...entry,
+        attempts: entry.attempts + 1,
+        last_error: result.error || 'Sync failed',
+      });
+
+      if (result.status !== 400) {
+        summary.remaining += queue.length - index;
+        break;
+      }
+      summary.remaining++;
+    }
+
+    await this.notify();
+    return summary;
+  }
+
+  static async list(status?: OfflineSaleStatus): Promise<ServerResult<OfflineSaleRecord[]>> {
+    return serverRequest<OfflineSaleRecord[]>(`/offline-sales${status ? `?status=${status}` : ''}`);
+  }
+
+  static async accept(offlineSaleId: string, note?: string): Promise<ServerResult<OfflineSaleRecord>> {
+    return serverRequest<OfflineSaleRecord>(`/offline-sales/${offlineSaleId}/accept`, { method: 'POST', body: { note } });
+  }
+
+  static async void(offlineSaleId: string, note: string): Promise<ServerResult<OfflineSaleRecord>> {
+    return serverRequest<OfflineSaleRecord>(`/offline-sales/${offlineSaleId}/void`, { method: 'POST', body: { note } });
+  }
+}
@@ -2,13 +2,19 @@ import { supabase } from '../lib/supabase';
 import { createClient } from '@supabase/supabase-js';
 import { toast } from 'sonner';
 import { generateUniqueId } from './id-generator';
+import { PricingService } from './pricing-service';
+import { InventoryService } from './inventory-service';
 
 export interface OrderItem {
   product_id: string;
+  variant_id?: string | null; // Set when the product is sold in variants
   product_snapshot: any; // Store product details at time of order
   quantity: number;
   unit_price: number;
   total_price: number;
+  item_type?: 'product' | 'combo';
+  combo_id?: string | null; // Set on lines sold as part of a combo
+  combo_snapshot?: any; // Combo name, bundles and price at time of order
 }
 
 export interface OrderData {
@@ -19,6 +25,9 @@ export interface OrderData {
   shipping_address: any;
   payment_method?: string;
   payment_details?: any;
+  shift_id?: string | null; // Cashier shift a POS sale was taken on
+  pickup_slot_start?: string | null; // Click-and-collect; checked against the shop's slots when pricing is confirmed
+  pickup_slot_end?: string | null;
   subtotal: number;
   tax_amount?: number;
   shipping_amount: number;
@@ -30,6 +39,8 @@ export interface OrderData {
   order_number?: string; // Optional - will be generated if not provided
   isSharedCartOrder?: boolean; // Flag to indicate if this is a shared cart order
   isCashierOrder?: boolean; // Flag to indicate if this is a cashier POS order
+  awaitingPayment?: boolean; // Card payment still to be confirmed by the Stripe webhook
+  pricing_quote: string; // Signed token from PricingService.getQuote; totals and items must match it
 }
 
 export interface OrderResult {
@@ -59,10 +70,11 @@ export class OrderService {
       console.log('🔍 Checking stock availability for order items');
 
       for (const item of items) {
+        // Variant lines are stocked per variant
         const { data: product, error } = await supabase
-          .from('products')
+          .from(item.variant_id ? 'product_variants' : 'products')
           .select('stock_quantity, name')
-          .eq('id', item.product_id)
+          .eq('id', item.variant_id || item.product_id)
           .single();
 
         if (error) {
@@ -113,6 +125,13 @@ export class OrderService {
       const orderNumber = orderId;
       console.log('📋 Using shared order id/number:', orderNumber);
 
+      if (!orderData.pricing_quote) {
+        return {
+          success: false,
+          error: 'A price quote is required to place an order'
+        };
+      }
+
       // First, check stock availability
       if (orderData.items && orderData.items.length > 0) {
         const stockCheck = await this.checkStockAvailability(orderData.items);
@@ -167,6 +186,9 @@ export class OrderService {
         } : null),
         payment_method: orderData.payment_method,
         payment_details: orderData.payment_details,
+        shift_id: orderData.shift_id || null,
+        pickup_slot_start: orderData.pickup_slot_start || null,
+        pickup_slot_end: orderData.pickup_slot_end || null,
         subtotal: orderData.subtotal,
         tax_amount: orderData.tax_amount || 0,
         shipping_amount: orderData.shipping_amount,
@@ -174,9 +196,10 @@ export class OrderService {
         total: orderData.total_amount, // Use 'total' to match actual database schema
         currency: orderData.currency || 'USD', // Use USD to match old schema default
         notes: orderData.notes,
-        status: 'confirmed', // Set as confirmed immediately after checkout
-        payment_status: 'paid',
-        processed_at: new Date().toISOString(),
+        // Orders awaiting a card payment stay pending until the Stripe webhook confirms them
+        status: orderData.awaitingPayment ? 'pending' : 'confirmed',
+        payment_status: orderData.awaitingPayment ? 'pending' : 'paid',
+        processed_at: orderData.awaitingPayment ? null : new Date().toISOString(),
       };
 
       console.log('📝 Order insert data:', orderInsertData);
@@ -209,10 +232,14 @@ export class OrderService {
         const orderItems = orderData.items.map(item => ({
           order_id: order.id,
           product_id: item.product_id,
+          variant_id: item.variant_id || null,
           product_snapshot: item.product_snapshot,
           quantity: item.quantity,
           unit_price: item.unit_price,
           total_price: item.total_price,
+          item_type: item.item_type || 'product',
+          combo_id: item.combo_id || null,
+          combo_snapshot: item.combo_snapshot || null,
         }));
 
         console.log('📦 Creating order items:', orderItems);
@@ -235,11 +262,25 @@ export class OrderService {
         console.log('✅ Order items created successfully');
       }
 
-      // Update stock levels when order is completed
-      const stockResult = await this.updateStockLevels(order.id, supabase);
-      if (!stockResult.success) {
-        console.warn('⚠️ Order created but stock update failed:', stockResult.error);
-        // Don't fail the order creation if stock update fails
+      // The server leaves an order that does not match the quote it was priced with
+      // unconfirmed, so it cannot be charged, and counts any combos sold once it does
+      const pricingResult = await PricingService.confirmOrderPricing(order.id, orderData.pricing_quote);
+      if (!pricingResult.success) {
+        console.error('❌ Order pricing rejected:', pricingResult.error);
+        return {
+          success: false,
+          error: pricingResult.error || 'Order pricing could not be confirmed'
+        };
+      }
+
+      // Take stock when the order is paid; the webhook does this for pending card payments.
+      // The server records each line in the stock ledger and marks the order so it is taken once.
+      if (!orderData.awaitingPayment) {
+        const stockResult = await InventoryService.takeOrderStock(order.id);
+        if (!stockResult.success) {
+          console.warn('⚠️ Order created but stock update failed:', stockResult.error);
+          // Don't fail the order creation if stock update fails
+        }
       }
 
       return {
@@ -260,6 +301,44 @@ export class OrderService {
     }
   }
 
+  /**
+   * Create a Stripe payment intent linked to an order so the webhook can confirm it
+   */
+  static async createPaymentIntent(order: { id: string; order_number: string; total: number; currency?: string; customer_email?: string }, customerName?: string): Promise<OrderResult> {
+    try {
+      const response = await fetch(`${window.location.origin}/make-server-8880f2f2/stripe/create-payment-intent`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          currency: order.currency || 'ZAR',
+          customerEmail: order.customer_email,
+          customerName,
+          orderId: order.id,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok || !result.success) {
+        return {
+          success: false,
+          error: result.error || 'Failed to create payment intent'
+        };
+      }
+
+      return {
+        success: true,
+        data: result
+      };
+
+    } catch (error) {
+      console.error('❌ Unexpected error creating payment intent:', error);
+      return {
+        success: false,
+        error: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
+      };
+    }
+  }
+
   /**
    * Update order status
    */
@@ -374,103 +453,4 @@ export class OrderService {
       };
     }
   }
-
-  /**
-   * Update stock levels when order is completed
-   */
-  static async updateStockLevels(orderId: string, client?: any): Promise<OrderResult> {
-    try {
-      console.log('📦 Updating stock levels for order:', orderId);
-
-      // Use provided client or default to regular supabase client
-      const dbClient = client || supabase;
-      
-      // Get order items
-      const { data: orderItems, error: itemsError } = await dbClient
-        .from('order_items')
-        .select('product_id, quantity')
-        .eq('order_id', orderId);
-
-      if (itemsError) {
-        console.error('❌ Error fetching order items for stock update:', itemsError);
-        return {
-          success: false,
-          error: `Failed to fetch order items: ${itemsError.message}`
-        };
-      }
-
-      if (!orderItems || orderItems.length === 0) {
-        console.log('ℹ️ No order items found for stock update');
-        return { success: true };
-      }
-
-      // Update stock for each product
-      let successCount = 0;
-      let failCount = 0;
-
-      for (const item of orderItems) {
-        try {
-          // First, check current stock
-          const { data: product, error: fetchError } = await dbClient
-            .from('products')
-            .select('stock_quantity, name')
-            .eq('id', item.product_id)
-            .single();
-
-          if (fetchError) {
-            console.error(`❌ Error fetching product ${item.product_id}:`, fetchError);
-            failCount++;
-            continue;
-          }
-
-          if (!product) {
-            console.error(`❌ Product ${item.product_id} not found`);
-            failCount++;
-            continue;
-          }
-
-          const currentStock = product.stock_quantity || 0;
-          const newStock = Math.max(0, currentStock - item.quantity); // Don't go below 0
-
-          if (currentStock < item.quantity) {
-            console.warn(`⚠️ Insufficient stock for ${product.name}. Current: ${currentStock}, Required: ${item.quantity}`);
-          }
-
-          // Update stock
-          const { error: stockError } = await dbClient
-            .from('products')
-            .update({
-              stock_quantity: newStock,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', item.product_id);
-
-          if (stockError) {
-            console.error(`❌ Error updating stock for product ${item.product_id}:`, stockError);
-            failCount++;
-          } else {
-            console.log(`✅ Updated stock for ${product.name}: ${currentStock} → ${newStock}`);
-            successCount++;
-          }
-        } catch (itemError) {
-          console.error(`❌ Error processing item ${item.product_id}:`, itemError);
-          failCount++;
-        }
-      }
-
-      console.log(`📊 Stock update summary: ${successCount} successful, ${failCount} failed`);
-
-      return {
-        success: failCount === 0,
-        data: { successCount, failCount }
-      };
-
-    } catch (error) {
-      console.error('❌ Unexpected error updating stock levels:', error);
-      return {
-        success: false,
-        error: `Unexpected error: ${error instanceof Error ? error.message : 'Unknown error'}`
-      };
-    }
-  }
 }
@@ -0,0 +1,100 @@
+import { serverRequest, ServerResult } from './server-api';
+import type { PosPermissions } from './roleRouting';
+
+/**
+ * Override Service
+ *
+ * Discounts above the cashier's limit, price overrides, voids and no-sale
+ * drawer opens at the till. Each one is authorised on the server, either by
+ * the cashier's own role or by a manager's PIN, and logged with who asked
+ * and who authorised it.
+ */
+
+export type OverrideAction = 'discount' | 'price_override' | 'void' | 'no_sale';
+
+export const OVERRIDE_LABELS: Record<OverrideAction, string> = {
+  discount: 'Discount',
+  price_override: 'Price override',
+  void: 'Void',
+  no_sale: 'No sale',
+};
+
+export interface Approver {
+  id: string;
+  name: string;
+  role: string;
+  pos: PosPermissions;
+}
+
+export interface OverrideRequest {
+  action: OverrideAction;
+  details?: Record<string, any>;
+  reason?: string;
+  approver_id?: string | null;
+  pin?: string;
+  shift_id?: string | null;
+  store_location?: string | null;
+}
+
+export interface Override {
+  id: string;
+  action: OverrideAction;
+  details: Record<string, any>;
+  reason: string | null;
+  requested_by: string;
+  approved_by: string;
+  shift_id: string | null;
+  store_location: string | null;
+  created_at: string;
+  requested_by_name?: string | null;
+  approved_by_name?: string | null;
+  self_authorised?: boolean;
+}
+
+export interface OverrideFilters {
+  action?: OverrideAction | '';
+  requested_by?: string;
+  approved_by?: string;
+  from?: string;
+  to?: string;
+}
+
+export class OverrideService {
+  static async listApprovers(): Promise<ServerResult<Approver[]>> {
+    return serverRequest<Approver[]>('/overrides/approvers');
+  }
+
+  static async request(request: OverrideRequest): Promise<ServerResult<Override>> {
+    return serverRequest<Override>('/overrides', { method: 'POST', body: request });
+  }
+
+  static async list(filters: OverrideFilters = {}): Promise<ServerResult<Override[]>> {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return serverRequest<Override[]>(`/overrides${query ? `?${query}` : ''}`);
+  }
+
+  static async setPin(pin: string): Promise<ServerResult<{ has_pin: boolean }>> {
+    return serverRequest<{ has_pin: boolean }>('/overrides/pin', { method: 'POST', body: { pin } });
+  }
+
+  /**
+   * What the override was, in a line, for the log and the till
+   */
+  static describe(override: Pick<Override, 'action' | 'details'>): string {
+    const details = override.details || {};
+    switch (override.action) {
+      case 'discount':
+        return `${details.percent}% off${details.subtotal ? ` a R${Number(details.subtotal).toFixed(2)} sale` : ''}`;
+      case 'price_override':
+        return `${details.name}: R${Number(details.original_price).toFixed(2)} → R${Number(details.new_price).toFixed(2)}`;
+      case 'void':
+        return `${details.quantity} × ${details.name}${details.amount ? ` (R${Number(details.amount).toFixed(2)})` : ''}`;
+      case 'no_sale':
+        return 'Cash drawer opened';
+    }
+  }
+}
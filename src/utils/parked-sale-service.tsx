@@ -0,0 +1,74 @@
+import { serverRequest, ServerResult } from './server-api';
+import type { LoyaltyMember } from './loyalty-service';
+
+/**
+ * Parked Sale Service
+ *
+ * Park the basket on the till to serve the next customer and recall it later,
+ * from this or any other till at the store. Parked baskets are kept on the
+ * server and expire at the end of the trading day.
+ */
+
+// Every till is in the one store for now; sales are tagged with it too
+export const POS_LOCATION = 'Store POS';
+
+export interface ParkedSaleItem {
+  id: number;
+  name: string;
+  price: number;
+  category: string;
+  barcode: string;
+  quantity: number;
+  sku?: string;
+}
+
+export interface ParkedSale {
+  id: string;
+  label: string;
+  store_location: string;
+  items: ParkedSaleItem[];
+  customer: LoyaltyMember | null;
+  discount_percent: number;
+  redeem_points: number;
+  item_count: number;
+  subtotal: number;
+  parked_by_name?: string | null;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface ParkSaleInput {
+  label: string;
+  items: ParkedSaleItem[];
+  customer: LoyaltyMember | null;
+  discountPercent: number;
+  redeemPoints: number;
+}
+
+export class ParkedSaleService {
+  static async list(): Promise<ServerResult<ParkedSale[]>> {
+    return serverRequest<ParkedSale[]>(`/parked-sales?store=${encodeURIComponent(POS_LOCATION)}`);
+  }
+
+  static async park(input: ParkSaleInput): Promise<ServerResult<ParkedSale>> {
+    return serverRequest<ParkedSale>('/parked-sales', {
+      method: 'POST',
+      body: {
+        label: input.label,
+        store_location: POS_LOCATION,
+        items: input.items,
+        customer: input.customer,
+        discount_percent: input.discountPercent,
+        redeem_points: input.redeemPoints,
+      },
+    });
+  }
+
+  static async recall(parkedSaleId: string): Promise<ServerResult<ParkedSale>> {
+    return serverRequest<ParkedSale>(`/parked-sales/${parkedSaleId}/recall`, { method: 'POST' });
+  }
+
+  static async discard(parkedSaleId: string): Promise<ServerResult<ParkedSale>> {
+    return serverRequest<ParkedSale>(`/parked-sales/${parkedSaleId}/discard`, { method: 'POST' });
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * POS Offline Store
+ *
+ * What a till needs to keep selling without a connection, kept in IndexedDB
+ * so it survives a reload: the barcode catalogue and the cashier's shift as
+ * last loaded, and the sales rung up since the connection dropped.
+ */
+
+const DB_NAME = 'best-brightness-pos';
+const DB_VERSION = 1;
+
+// Catalogue and shift snapshots, keyed by name
+const CACHE_STORE = 'cache';
+// Sales waiting to be sent, keyed by their client-generated order id
+const SALES_STORE = 'sales';
+
+export interface Cached<T> {
+  key: string;
+  value: T;
+  cached_at: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('This browser cannot store data for offline use'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(CACHE_STORE)) {
+          db.createObjectStore(CACHE_STORE, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(SALES_STORE)) {
+          db.createObjectStore(SALES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function run<T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = action(transaction.objectStore(storeName));
+    // Resolve once the write is on disk, not just queued
+    transaction.oncomplete = () => resolve(request.result as T);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class PosOfflineStore {
+  static async save<T>(key: string, value: T): Promise<void> {
+    await run(CACHE_STORE, 'readwrite', store => store.put({ key, value, cached_at: new Date().toISOString() }));
+  }
+
+  static async load<T>(key: string): Promise<Cached<T> | null> {
+    try {
+      return (await run<Cached<T> | undefined>(CACHE_STORE, 'readonly', store => store.get(key))) || null;
+    } catch (error) {
+      console.warn(`Failed to read offline ${key}:`, error);
+      return null;
+    }
+  }
+
+  static async putSale<T extends { id: string }>(sale: T): Promise<void> {
+    await run(SALES_STORE, 'readwrite', store => store.put(sale));
+  }
+
+  static async getSales<T>(): Promise<T[]> {
+    try {
+      return await run<T[]>(SALES_STORE, 'readonly', store => store.getAll());
+    } catch (error) {
+      console.warn('Failed to read offline sales:', error);
+      return [];
+    }
+  }
+
+  static async deleteSale(id: string): Promise<void> {
+    await run(SALES_STORE, 'readwrite', store => store.delete(id));
+  }
+}
@@ -0,0 +1,114 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Pricing Service
+ *
+ * Cart totals shown in the browser are a preview only. Before an order is
+ * placed the cart is priced by the server, which returns the authoritative
+ * numbers together with a signed token that the order must be confirmed with.
+ */
+
+export interface QuoteLine {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  line_total: number;
+  promotion_ids: string[];
+  combo_id: string | null;
+  combo_item_id: string | null;
+  tax_rate?: number; // VAT included in the price
+}
+
+export interface QuoteCombo {
+  combo_id: string;
+  name: string;
+  combo_type: string;
+  bundles: number;
+  bundle_price: number;
+  original_price: number;
+}
+
+export interface ShippingOption {
+  method_id: string | null;
+  code: string;
+  name: string;
+  description: string | null;
+  type: 'standard' | 'express' | 'collect';
+  amount: number;
+  free: boolean;
+  min_days: number;
+  max_days: number;
+}
+
+export interface PricingQuote {
+  quote_id: string;
+  customer_id: string | null;
+  channel: 'online' | 'pos';
+  lines: QuoteLine[];
+  subtotal: number;
+  promotion_discount: number;
+  manual_discount: number;
+  loyalty_customer_id: string | null;
+  loyalty_points_used: number;
+  loyalty_discount: number;
+  loyalty_points_earned: number;
+  discount_amount: number;
+  shipping_amount: number;
+  shipping_required: boolean;
+  shipping_destination: { province: string | null; postal_code: string | null } | null;
+  shipping_method: ShippingOption | null;
+  shipping_options: ShippingOption[];
+  tax_amount: number;
+  total: number;
+  free_shipping: boolean;
+  applied_promotions: { id: string; name: string; type: string; code: string | null; amount: number; free_shipping: boolean }[];
+  combos: QuoteCombo[];
+  rejected_codes: { code: string; reason: string }[];
+  issued_at: string;
+  expires_at: string;
+}
+
+export interface QuoteRequest {
+  items: { product_id: string; variant_id?: string; quantity: number; combo_id?: string; combo_item_id?: string }[];
+  promoCodes?: string[];
+  channel?: 'online' | 'pos';
+  manualDiscountPercent?: number;
+  overrideIds?: string[]; // POS only; manager overrides authorising the discount and changed prices
+  loyaltyCustomerId?: string | null; // POS only; online quotes use the signed-in customer
+  loyaltyPoints?: number;
+  destination?: { province?: string; postal_code?: string } | null; // Online only; delivery is priced for this address
+  shippingMethodId?: string | null;
+}
+
+export class PricingService {
+  /**
+   * Price cart lines on the server
+   */
+  static async getQuote(request: QuoteRequest): Promise<ServerResult<{ quote: PricingQuote; token: string }>> {
+    return serverRequest<{ quote: PricingQuote; token: string }>('/pricing/quote', {
+      method: 'POST',
+      body: request,
+    });
+  }
+
+  /**
+   * Confirm a newly inserted order against the quote it was priced with
+   */
+  static async confirmOrderPricing(orderId: string, token: string): Promise<ServerResult> {
+    return serverRequest(`/orders/${orderId}/pricing`, {
+      method: 'POST',
+      body: { quote: token },
+    });
+  }
+
+  /**
+   * Whether a quote is close enough to expiry that it should be fetched again
+   */
+  static isStale(quote: PricingQuote | null, marginMs: number = 60 * 1000): boolean {
+    return !quote || new Date(quote.expires_at).getTime() - marginMs < Date.now();
+  }
+}
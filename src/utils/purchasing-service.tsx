@@ -0,0 +1,406 @@
+import { supabase } from '../lib/supabase';
+import { getPredictiveInventory } from '../services/analyticsService';
+import { generateUniqueId } from './id-generator';
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Purchasing Service
+ *
+ * Suppliers and purchase orders. Managers keep suppliers and draft orders
+ * directly; drafts can be generated from the predictive-inventory reorder
+ * suggestions, one per supplier. Deliveries against a sent order are received
+ * through the server, which raises stock through the ledger and records the
+ * landed cost of each line.
+ */
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'cancelled';
+
+export interface Supplier {
+  id: string;
+  supplier_code: string;
+  name: string;
+  contact_name: string | null;
+  email: string | null;
+  phone: string | null;
+  address: string | null;
+  payment_terms: string | null;
+  lead_time_days: number;
+  notes: string | null;
+  is_active: boolean;
+}
+
+/** A supplier being edited; new suppliers have no id or code yet */
+export type SupplierDraft = Omit<Supplier, 'id' | 'supplier_code'> & { id?: string };
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+  product?: { id: string; name: string; sku: string; barcode: string | null } | null;
+  variant?: { id: string; name: string; sku: string; barcode: string | null } | null;
+}
+
+export interface PurchaseOrder {
+  id: string;
+  po_number: string;
+  supplier_id: string;
+  status: PurchaseOrderStatus;
+  expected_at: string | null;
+  notes: string | null;
+  subtotal: number;
+  additional_costs: number;
+  sent_at: string | null;
+  received_at: string | null;
+  created_at: string;
+  supplier?: { id: string; name: string; email: string | null } | null;
+  purchase_order_items: PurchaseOrderItem[];
+}
+
+export interface PurchaseOrderLineDraft {
+  product_id: string;
+  variant_id: string | null;
+  quantity_ordered: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrderDraft {
+  id?: string;
+  supplier_id: string;
+  expected_at: string | null;
+  notes: string | null;
+  lines: PurchaseOrderLineDraft[];
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  name: string;
+  sku: string;
+  current_stock: number;
+  days_until_stockout: number;
+  risk_level: string;
+  on_order: number; // Units still outstanding on open purchase orders
+  suggested_quantity: number;
+  unit_cost: number;
+  supplier_id: string | null;
+  has_variants: boolean;
+}
+
+export interface CostHistoryEntry {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  quantity: number;
+  unit_cost: number;
+  landed_unit_cost: number;
+  cost_price_before: number | null;
+  cost_price_after: number;
+  received_at: string;
+  purchase_order?: { id: string; po_number: string } | null;
+  supplier?: { id: string; name: string } | null;
+  variant?: { id: string; name: string } | null;
+}
+
+export interface ReceiveResult {
+  purchase_order: PurchaseOrder;
+  receipts: CostHistoryEntry[];
+}
+
+const PURCHASE_ORDER_SELECT = `*, supplier:suppliers(id, name, email),
+  purchase_order_items(*, product:products(id, name, sku, barcode), variant:product_variants(id, name, sku, barcode))`;
+
+const OPEN_STATUSES: PurchaseOrderStatus[] = ['draft', 'sent', 'partially_received'];
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  sent: 'Sent',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export class PurchasingService {
+  static async getSuppliers(includeInactive = false): Promise<Supplier[]> {
+    let query = supabase.from('suppliers').select('*').order('name');
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('❌ Error fetching suppliers:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async saveSupplier(draft: SupplierDraft): Promise<Supplier> {
+    const { id, ...fields } = draft;
+    const row = {
+      ...fields,
+      name: fields.name.trim(),
+      lead_time_days: Math.max(0, Math.floor(Number(fields.lead_time_days) || 0)),
+    };
+    if (!row.name) {
+      throw new Error('Give the supplier a name');
+    }
+
+    const { data, error } = id
+      ? await supabase.from('suppliers').update(row).eq('id', id).select().single()
+      : await supabase.from('suppliers').insert({ ...row, supplier_code: generateUniqueId('SUPPLIER') }).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save supplier: ${error.message}`);
+    }
+    return data;
+  }
+
+  /**
+   * Purchase orders, newest first, optionally with one status
+   */
+  static async getPurchaseOrders(status?: PurchaseOrderStatus): Promise<PurchaseOrder[]> {
+    let query = supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT)
+      .order('created_at', { ascending: false });
+
+    if (status) {
+      query = query.eq('status', status);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('❌ Error fetching purchase orders:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async getPurchaseOrder(purchaseOrderId: string): Promise<PurchaseOrder | null> {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .select(PURCHASE_ORDER_SELECT)
+      .eq('id', purchaseOrderId)
+      .single();
+
+    if (error || !data) {
+      console.error('❌ Error fetching purchase order:', error);
+      return null;
+    }
+    return data;
+  }
+
+  /**
+   * Create a draft or replace the lines of an existing one
+   */
+  static async saveDraft(draft: PurchaseOrderDraft, userId?: string): Promise<PurchaseOrder> {
+    const lines = draft.lines.filter(line => line.quantity_ordered > 0);
+    if (!draft.supplier_id) {
+      throw new Error('Choose a supplier');
+    }
+    if (lines.length === 0) {
+      throw new Error('Add at least one product to order');
+    }
+
+    const row = {
+      supplier_id: draft.supplier_id,
+      expected_at: draft.expected_at || null,
+      notes: draft.notes?.trim() || null,
+      subtotal: roundCurrency(lines.reduce((sum, line) => sum + line.quantity_ordered * line.unit_cost, 0)),
+    };
+
+    const { data: order, error } = draft.id
+      ? await supabase.from('purchase_orders').update(row).eq('id', draft.id).eq('status', 'draft').select().single()
+      : await supabase
+          .from('purchase_orders')
+          .insert({ ...row, po_number: generateUniqueId('PURCHASE_ORDER'), status: 'draft', created_by: userId || null })
+          .select()
+          .single();
+
+    if (error || !order) {
+      throw new Error(`Failed to save purchase order: ${error?.message || 'it is no longer a draft'}`);
+    }
+
+    if (draft.id) {
+      const { error: deleteError } = await supabase.from('purchase_order_items').delete().eq('purchase_order_id', order.id);
+      if (deleteError) {
+        throw new Error(`Failed to update purchase order lines: ${deleteError.message}`);
+      }
+    }
+
+    const { error: itemsError } = await supabase.from('purchase_order_items').insert(
+      lines.map(line => ({
+        purchase_order_id: order.id,
+        product_id: line.product_id,
+        variant_id: line.variant_id || null,
+        quantity_ordered: Math.floor(line.quantity_ordered),
+        unit_cost: roundCurrency(Number(line.unit_cost) || 0),
+      }))
+    );
+    if (itemsError) {
+      throw new Error(`Failed to save purchase order lines: ${itemsError.message}`);
+    }
+
+    const saved = await PurchasingService.getPurchaseOrder(order.id);
+    if (!saved) {
+      throw new Error('Failed to load the saved purchase order');
+    }
+    return saved;
+  }
+
+  /**
+   * Mark a draft as sent to the supplier; only sent orders can be received
+   */
+  static async markSent(purchaseOrderId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'sent', sent_at: new Date().toISOString() })
+      .eq('id', purchaseOrderId)
+      .eq('status', 'draft')
+      .select('id');
+
+    if (error || !data?.length) {
+      throw new Error(`Failed to send purchase order: ${error?.message || 'it is no longer a draft'}`);
+    }
+  }
+
+  /**
+   * Cancel an order that has not had any deliveries
+   */
+  static async cancel(purchaseOrderId: string): Promise<void> {
+    const { data, error } = await supabase
+      .from('purchase_orders')
+      .update({ status: 'cancelled' })
+      .eq('id', purchaseOrderId)
+      .in('status', ['draft', 'sent'])
+      .select('id');
+
+    if (error || !data?.length) {
+      throw new Error(`Failed to cancel purchase order: ${error?.message || 'stock has already been received against it'}`);
+    }
+  }
+
+  /**
+   * Products the predictive inventory says to reorder, less what is already
+   * on order, with their preferred supplier and last cost
+   */
+  static async getReorderSuggestions(): Promise<ReorderSuggestion[]> {
+    const predictions = await getPredictiveInventory();
+    const toReorder = (Array.isArray(predictions) ? predictions : predictions.all)
+      .filter(prediction => prediction.shouldReorder && prediction.optimalOrderQty > 0);
+    if (toReorder.length === 0) return [];
+
+    const productIds = toReorder.map(prediction => prediction.id);
+    const [{ data: products, error }, { data: openLines, error: linesError }] = await Promise.all([
+      supabase.from('products').select('id, sku, cost_price, supplier_id, has_variants').in('id', productIds),
+      supabase
+        .from('purchase_order_items')
+        .select('product_id, quantity_ordered, quantity_received, purchase_order:purchase_orders!inner(status)')
+        .in('product_id', productIds)
+        .in('purchase_order.status', OPEN_STATUSES),
+    ]);
+
+    if (error || linesError) {
+      console.error('❌ Error fetching reorder details:', error || linesError);
+      return [];
+    }
+
+    const productsById = new Map((products || []).map((product: any) => [product.id, product]));
+    const onOrder = new Map<string, number>();
+    for (const line of openLines || []) {
+      onOrder.set(line.product_id, (onOrder.get(line.product_id) || 0) + line.quantity_ordered - line.quantity_received);
+    }
+
+    return toReorder
+      .map(prediction => {
+        const product: any = productsById.get(prediction.id) || {};
+        const outstanding = onOrder.get(prediction.id) || 0;
+        return {
+          product_id: prediction.id,
+          name: prediction.name,
+          sku: product.sku || '',
+          current_stock: prediction.currentStock,
+          days_until_stockout: prediction.daysUntilStockout,
+          risk_level: prediction.riskLevel,
+          on_order: outstanding,
+          suggested_quantity: prediction.optimalOrderQty - outstanding,
+          unit_cost: Number(product.cost_price || 0),
+          supplier_id: product.supplier_id || null,
+          has_variants: !!product.has_variants,
+        };
+      })
+      .filter(suggestion => suggestion.suggested_quantity > 0)
+      .sort((a, b) => a.days_until_stockout - b.days_until_stockout);
+  }
+
+  /**
+   * Turn chosen suggestions into draft purchase orders, one per supplier
+   */
+  static async createFromSuggestions(
+    selections: { suggestion: ReorderSuggestion; quantity: number; supplier_id: string }[],
+    userId?: string
+  ): Promise<PurchaseOrder[]> {
+    const bySupplier = new Map<string, PurchaseOrderLineDraft[]>();
+    for (const { suggestion, quantity, supplier_id } of selections) {
+      if (!supplier_id) {
+        throw new Error(`Choose a supplier for ${suggestion.name}`);
+      }
+      if (suggestion.has_variants) {
+        throw new Error(`${suggestion.name} is stocked per variant; order it on a purchase order by variant`);
+      }
+      const lines = bySupplier.get(supplier_id) || [];
+      lines.push({ product_id: suggestion.product_id, variant_id: null, quantity_ordered: quantity, unit_cost: suggestion.unit_cost });
+      bySupplier.set(supplier_id, lines);
+    }
+
+    const orders: PurchaseOrder[] = [];
+    for (const [supplierId, lines] of bySupplier) {
+      orders.push(await PurchasingService.saveDraft({ supplier_id: supplierId, expected_at: null, notes: null, lines }, userId));
+    }
+    return orders;
+  }
+
+  /**
+   * Receive a delivery; additional costs (freight, duties) are spread over the
+   * received lines to give their landed cost
+   */
+  static async receive(
+    purchaseOrderId: string,
+    lines: { item_id: string; quantity: number }[],
+    additionalCosts = 0
+  ): Promise<ServerResult<ReceiveResult>> {
+    return serverRequest<ReceiveResult>(`/purchase-orders/${purchaseOrderId}/receive`, {
+      method: 'POST',
+      body: { lines, additional_costs: additionalCosts },
+    });
+  }
+
+  static async getCostHistory(productId: string): Promise<ServerResult<CostHistoryEntry[]>> {
+    return serverRequest<CostHistoryEntry[]>(`/products/${productId}/cost-history`);
+  }
+
+  /**
+   * The line of an order a scanned barcode or SKU belongs to
+   */
+  static findLineByCode(order: PurchaseOrder, code: string): PurchaseOrderItem | undefined {
+    const wanted = code.trim();
+    return order.purchase_order_items.find(item =>
+      item.variant
+        ? item.variant.barcode === wanted || item.variant.sku === wanted
+        : item.product?.barcode === wanted || item.product?.sku === wanted
+    );
+  }
+
+  static isOpen(order: PurchaseOrder): boolean {
+    return OPEN_STATUSES.includes(order.status);
+  }
+
+  static getStatusLabel(status: PurchaseOrderStatus): string {
+    return STATUS_LABELS[status] || status;
+  }
+}
@@ -0,0 +1,275 @@
+import { TenderService } from './tender-service';
+import type { ReceiptModel } from './receipt-service';
+
+/**
+ * Receipt Renderer
+ *
+ * Lays a receipt out as fixed-width rows for the paper width in the template,
+ * then turns the rows into an ESC/POS byte stream for a thermal printer or
+ * into HTML for the browser print dialog and on-screen previews. Both come
+ * from the same rows, so what the cashier sees is what prints.
+ */
+
+interface ReceiptRow {
+  text: string;
+  align?: 'left' | 'center';
+  bold?: boolean;
+  large?: boolean;
+}
+
+const money = (value: number) => `R${Number(value || 0).toFixed(2)}`;
+
+export const receiptColumns = (model: ReceiptModel) => (model.template.paper_width === 58 ? 32 : 48);
+
+// Thermal printers only have their code page; keep receipts to plain ASCII
+const toAscii = (value: string) =>
+  String(value ?? '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/[^\x20-\x7E]/g, '?');
+
+function wrap(value: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of toAscii(value).split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = '';
+    }
+    let rest = line ? `${line} ${word}` : word;
+    while (rest.length > width) {
+      lines.push(rest.slice(0, width));
+      rest = rest.slice(width);
+    }
+    line = rest;
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+const spread = (left: string, right: string, width: number) => {
+  const r = toAscii(right);
+  const l = toAscii(left).slice(0, Math.max(width - r.length - 1, 0));
+  return l + ' '.repeat(Math.max(width - l.length - r.length, 1)) + r;
+};
+
+const formatDate = (iso: string) => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+function receiptRows(model: ReceiptModel): { top: ReceiptRow[]; bottom: ReceiptRow[] } {
+  const { template } = model;
+  const width = receiptColumns(model);
+  const rule: ReceiptRow = { text: '-'.repeat(width) };
+  const centred = (text: string) => wrap(text, width).map(line => ({ text: line, align: 'center' as const }));
+  const row = (left: string, right: string, bold = false): ReceiptRow => ({ text: spread(left, right, width), bold });
+
+  const top: ReceiptRow[] = [
+    ...wrap(template.store_name, Math.floor(width / 2)).map(line => ({ text: line, align: 'center' as const, bold: true, large: true })),
+    ...template.address_lines.flatMap(centred),
+    ...(template.phone ? centred(`Tel: ${template.phone}`) : []),
+    ...(template.vat_number ? centred(`VAT No: ${template.vat_number}`) : []),
+    ...(template.header_message ? [{ text: '' }, ...centred(template.header_message)] : []),
+    { text: '' },
+    { text: template.vat_number ? 'TAX INVOICE' : 'RECEIPT', align: 'center', bold: true },
+    rule,
+    // UUID order numbers do not fit beside a label on 58mm paper
+    ...(model.order_number.length + 9 > width
+      ? [{ text: 'Order' }, ...wrap(model.order_number, width).map(text => ({ text }))]
+      : [row('Order', model.order_number)]),
+    row('Date', formatDate(model.created_at)),
+    ...(model.cashier_name ? [row('Cashier', model.cashier_name)] : []),
+    ...(model.customer_name ? [row('Customer', model.customer_name)] : []),
+    rule,
+  ];
+
+  for (const line of model.lines) {
+    top.push(...wrap(line.name, width).map(text => ({ text })));
+    top.push(row(`  ${line.quantity} x ${money(line.unit_price)}`, `${money(line.amount)} ${line.vat_code}`));
+  }
+
+  top.push(rule, row('Subtotal', money(model.subtotal)));
+  if (model.discount > 0) top.push(row('Discount', `-${money(model.discount)}`));
+  if (model.loyalty_discount > 0) top.push(row('Loyalty points', `-${money(model.loyalty_discount)}`));
+  if (model.shipping > 0) top.push(row('Delivery', money(model.shipping)));
+  top.push(row('TOTAL', money(model.total), true), rule);
+
+  for (const tender of model.tenders) {
+    const label = TenderService.getLabel(tender.method) + (tender.reference ? ` ${tender.reference}` : '');
+    top.push(row(label, money(tender.method === 'cash' && tender.tendered ? tender.tendered : tender.amount)));
+  }
+  if (model.change > 0) top.push(row('Change', money(model.change), true));
+
+  if (template.show_vat_summary && model.vat_summary.length > 0) {
+    top.push(rule);
+    const columns = (code: string, rate: string, net: string, vat: string) => {
+      const cell = Math.floor((width - 7) / 2);
+      return code.padEnd(2) + rate.padStart(5) + net.padStart(cell) + vat.padStart(width - 7 - cell);
+    };
+    top.push({ text: columns('', 'VAT', 'Excl', 'VAT'), bold: true });
+    for (const rate of model.vat_summary) {
+      top.push({ text: columns(rate.code, `${Math.round(rate.rate * 100)}%`, rate.net.toFixed(2), rate.vat.toFixed(2)) });
+    }
+    top.push(row('Total VAT included', money(model.vat_total)));
+  }
+
+  if (template.show_loyalty && model.loyalty) {
+    top.push(rule, { text: 'Loyalty Rewards', bold: true });
+    if (model.loyalty.points_used > 0) top.push(row('Points redeemed', String(model.loyalty.points_used)));
+    if (model.loyalty.points_earned > 0) top.push(row('Points earned', String(model.loyalty.points_earned)));
+    top.push(row('Points balance', String(model.loyalty.balance)));
+  }
+
+  const bottom: ReceiptRow[] = [
+    ...(template.footer_message ? centred(template.footer_message) : []),
+    ...(template.returns_policy ? [{ text: '' }, ...centred(template.returns_policy)] : []),
+  ];
+
+  return { top, bottom };
+}
+
+// ==================== CODE 128 ====================
+
+// Bar/space module widths for each Code 128 symbol value; 106 is the stop
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_STOP = 106;
+
+/**
+ * Code 128 (set B) as an SVG, for the HTML receipt
+ */
+export function code128Svg(data: string, height = 48): string {
+  const values = Array.from(toAscii(data)).map(char => char.charCodeAt(0) - 32);
+  const checksum = values.reduce((sum, value, index) => sum + value * (index + 1), CODE128_START_B) % 103;
+  const symbols = [CODE128_START_B, ...values, checksum, CODE128_STOP];
+
+  let x = 10; // quiet zone
+  const bars: string[] = [];
+  for (const symbol of symbols) {
+    Array.from(CODE128_PATTERNS[symbol]).forEach((module, index) => {
+      const widthModules = Number(module);
+      if (index % 2 === 0) bars.push(`<rect x="${x}" y="0" width="${widthModules}" height="${height}"/>`);
+      x += widthModules;
+    });
+  }
+  const totalWidth = x + 10;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${totalWidth} ${height}" width="100%" height="${height}" preserveAspectRatio="none">${bars.join('')}</svg>`;
+}
+
+// ==================== ESC/POS ====================
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+const DRAWER_KICK = [ESC, 0x70, 0x00, 0x19, 0xfa]; // pulse drawer pin 2
+
+/**
+ * ESC/POS bytes that only open the cash drawer, for a no-sale
+ */
+export function renderDrawerKick(): Uint8Array {
+  return Uint8Array.from([ESC, 0x40, ...DRAWER_KICK]);
+}
+
+/**
+ * ESC/POS bytes for the receipt: initialise, print, barcode, feed, cut and
+ * optionally kick the cash drawer.
+ */
+export function renderEscPos(model: ReceiptModel): Uint8Array {
+  const bytes: number[] = [];
+  const push = (...values: number[]) => bytes.push(...values);
+  const text = (value: string) => {
+    for (const char of toAscii(value)) bytes.push(char.charCodeAt(0));
+  };
+  const printRow = (row: ReceiptRow) => {
+    push(ESC, 0x61, row.align === 'center' ? 1 : 0); // alignment
+    push(ESC, 0x45, row.bold ? 1 : 0); // emphasis
+    push(GS, 0x21, row.large ? 0x11 : 0x00); // double width and height
+    text(row.text);
+    push(LF);
+  };
+
+  const { top, bottom } = receiptRows(model);
+
+  push(ESC, 0x40); // initialise
+  if (model.template.open_cash_drawer && model.tenders.some(tender => tender.method === 'cash')) {
+    push(...DRAWER_KICK);
+  }
+
+  top.forEach(printRow);
+
+  if (model.template.show_barcode && model.barcode) {
+    const data = `{B${toAscii(model.barcode)}`;
+    push(LF, ESC, 0x61, 1);
+    push(GS, 0x68, 80); // height in dots
+    push(GS, 0x77, model.template.paper_width === 58 ? 2 : 3); // module width
+    push(GS, 0x48, 2); // human readable text below
+    push(GS, 0x6b, 73, data.length); // CODE128
+    text(data);
+    push(LF);
+  }
+
+  if (bottom.length > 0) {
+    push(LF);
+    bottom.forEach(printRow);
+  }
+
+  push(ESC, 0x64, 4); // feed past the cutter
+  push(GS, 0x56, 0x42, 0x00); // partial cut
+
+  return new Uint8Array(bytes);
+}
+
+// ==================== HTML ====================
+
+const escapeHtml = (value: string) =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+/**
+ * The receipt as HTML; monospace rows the width of the paper
+ */
+export function renderReceiptHtml(model: ReceiptModel): string {
+  const { top, bottom } = receiptRows(model);
+  const rowHtml = (row: ReceiptRow) => {
+    const style = [
+      'white-space:pre',
+      row.align === 'center' ? 'text-align:center' : '',
+      row.bold ? 'font-weight:bold' : '',
+      row.large ? 'font-size:2em;line-height:1.1' : '',
+    ].filter(Boolean).join(';');
+    return `<div style="${style}">${escapeHtml(row.text) || '&nbsp;'}</div>`;
+  };
+
+  const barcode = model.template.show_barcode && model.barcode
+    ? `<div style="margin:12px 0 4px">${code128Svg(model.barcode)}</div><div style="text-align:center">${escapeHtml(model.barcode)}</div>`
+    : '';
+
+  return `<div style="font-family:ui-monospace,Menlo,Consolas,'Courier New',monospace;font-size:12px;width:${receiptColumns(model)}ch;margin:0 auto;color:#000">`
+    + top.map(rowHtml).join('')
+    + barcode
+    + (bottom.length ? `<div style="margin-top:12px">${bottom.map(rowHtml).join('')}</div>` : '')
+    + '</div>';
+}
@@ -0,0 +1,173 @@
+import { serverRequest, ServerResult } from './server-api';
+import { renderDrawerKick, renderEscPos, renderReceiptHtml } from './receipt-renderer';
+import type { Tender } from './tender-service';
+
+/**
+ * Receipt Service
+ *
+ * Receipts are built on the server from the recorded order and laid out by the
+ * store's receipt template. The till prints them on an ESC/POS thermal printer
+ * over Web Serial when one has been connected on this device, and falls back
+ * to the browser print dialog otherwise.
+ */
+
+export interface ReceiptTemplate {
+  store_name: string;
+  address_lines: string[];
+  phone: string;
+  vat_number: string;
+  header_message: string;
+  footer_message: string;
+  returns_policy: string;
+  paper_width: 58 | 80;
+  show_vat_summary: boolean;
+  show_loyalty: boolean;
+  show_barcode: boolean;
+  open_cash_drawer: boolean;
+}
+
+export interface ReceiptLine {
+  name: string;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  amount: number;
+  vat_code: string;
+}
+
+export interface ReceiptVatRate {
+  code: string;
+  rate: number;
+  net: number;
+  vat: number;
+  gross: number;
+}
+
+export interface ReceiptModel {
+  template: ReceiptTemplate;
+  order_id: string;
+  order_number: string;
+  created_at: string;
+  cashier_name: string | null;
+  customer_name: string | null;
+  lines: ReceiptLine[];
+  subtotal: number;
+  discount: number;
+  loyalty_discount: number;
+  shipping: number;
+  total: number;
+  vat_summary: ReceiptVatRate[];
+  vat_total: number;
+  tenders: Tender[];
+  change: number;
+  loyalty: { points_used: number; points_earned: number; balance: number } | null;
+  barcode: string;
+}
+
+// Remembers that this till prints to a serial thermal printer
+const PRINTER_STORAGE_KEY = 'best-brightness-receipt-printer';
+const PRINTER_BAUD_RATE = 9600;
+
+const serial = () => (typeof navigator !== 'undefined' ? (navigator as any).serial : undefined);
+
+export class ReceiptService {
+  static async getReceipt(orderId: string): Promise<ServerResult<ReceiptModel>> {
+    return serverRequest<ReceiptModel>(`/orders/${orderId}/receipt`);
+  }
+
+  static async getTemplate(): Promise<ServerResult<ReceiptTemplate>> {
+    return serverRequest<ReceiptTemplate>('/receipt-template');
+  }
+
+  static async saveTemplate(template: ReceiptTemplate): Promise<ServerResult<ReceiptTemplate>> {
+    return serverRequest<ReceiptTemplate>('/receipt-template', { method: 'POST', body: template });
+  }
+
+  static supportsThermalPrinter(): boolean {
+    return !!serial();
+  }
+
+  static hasThermalPrinter(): boolean {
+    return this.supportsThermalPrinter() && localStorage.getItem(PRINTER_STORAGE_KEY) === 'serial';
+  }
+
+  /**
+   * Ask the cashier to pick the printer's serial port; the browser remembers
+   * the permission so later receipts print without asking
+   */
+  static async connectThermalPrinter(): Promise<boolean> {
+    if (!this.supportsThermalPrinter()) return false;
+    try {
+      await serial().requestPort();
+      localStorage.setItem(PRINTER_STORAGE_KEY, 'serial');
+      return true;
+    } catch (error) {
+      console.warn('⚠️ No thermal printer selected:', error);
+      return false;
+    }
+  }
+
+  static disconnectThermalPrinter(): void {
+    localStorage.removeItem(PRINTER_STORAGE_KEY);
+  }
+
+  private static async writeEscPos(bytes: Uint8Array): Promise<void> {
+    const [port] = await serial().getPorts();
+    if (!port) {
+      throw new Error('The thermal printer is not connected');
+    }
+
+    await port.open({ baudRate: PRINTER_BAUD_RATE });
+    try {
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(bytes);
+      } finally {
+        writer.releaseLock();
+      }
+    } finally {
+      await port.close();
+    }
+  }
+
+  /**
+   * Open the cash drawer wired to the thermal printer; false when this till
+   * has no printer to send the pulse through
+   */
+  static async openCashDrawer(): Promise<boolean> {
+    if (!this.hasThermalPrinter()) return false;
+    try {
+      await this.writeEscPos(renderDrawerKick());
+      return true;
+    } catch (error) {
+      console.error('❌ Could not open the cash drawer:', error);
+      return false;
+    }
+  }
+
+  static printHtml(model: ReceiptModel): boolean {
+    const printWindow = window.open('', '_blank', 'width=420,height=640');
+    if (!printWindow) return false;
+    printWindow.document.open();
+    printWindow.document.write(`<!doctype html><html><head><title>Receipt ${model.order_number}</title>
+      <style>@page { margin: 0; } body { margin: 0; padding: 8px; }</style>
+    </head><body onload="window.print();window.close()">${renderReceiptHtml(model)}</body></html>`);
+    printWindow.document.close();
+    return true;
+  }
+
+  /**
+   * Print on the thermal printer if this till has one, otherwise through the browser
+   */
+  static async print(model: ReceiptModel): Promise<'thermal' | 'browser' | null> {
+    if (this.hasThermalPrinter()) {
+      try {
+        await this.writeEscPos(renderEscPos(model));
+        return 'thermal';
+      } catch (error) {
+        console.error('❌ Thermal printing failed, falling back to the browser:', error);
+      }
+    }
+    return this.printHtml(model) ? 'browser' : null;
+  }
+}
@@ -0,0 +1,100 @@
+import { serverRequest, ServerResult } from './server-api';
+import type { GiftCard, Tender } from './tender-service';
+
+/**
+ * Return Service
+ *
+ * Returns and exchanges at the till. The cashier scans the order number off
+ * the receipt, picks the lines coming back and pays the customer out in cash,
+ * back to their card, or as store credit on a gift card. An exchange is store
+ * credit that the till puts straight onto the customer's new basket.
+ */
+
+export type RefundMethod = 'cash' | 'card' | 'store_credit';
+
+export type ReturnReason = 'changed_mind' | 'damaged' | 'faulty' | 'wrong_item' | 'not_as_described' | 'other';
+
+export const RETURN_REASONS: { value: ReturnReason; label: string; restock: boolean }[] = [
+  { value: 'changed_mind', label: 'Changed mind', restock: true },
+  { value: 'wrong_item', label: 'Wrong item or size', restock: true },
+  { value: 'not_as_described', label: 'Not as described', restock: true },
+  { value: 'damaged', label: 'Damaged', restock: false },
+  { value: 'faulty', label: 'Faulty', restock: false },
+  { value: 'other', label: 'Other', restock: true },
+];
+
+export interface ReturnableLine {
+  order_item_id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  name: string;
+  quantity: number;
+  refunded_quantity: number;
+  refundable_quantity: number;
+  unit_amount: number;
+}
+
+export interface ReturnLookup {
+  order_id: string;
+  order_number: string;
+  created_at: string;
+  customer_name: string | null;
+  payment_status: string;
+  total: number;
+  amount_refunded: number;
+  refundable_amount: number;
+  tenders: Tender[];
+  refund_methods: RefundMethod[];
+  lines: ReturnableLine[];
+}
+
+export interface ReturnLineInput {
+  order_item_id: string;
+  quantity: number;
+  restock: boolean;
+}
+
+export interface ReturnInput {
+  orderId: string;
+  lines: ReturnLineInput[];
+  reason: ReturnReason;
+  note?: string;
+  method: RefundMethod;
+  exchange: boolean;
+  requestId: string;
+}
+
+export interface ReturnResult {
+  refund: { id: string; refund_number: string; amount: number };
+  order_id: string;
+  amount: number;
+  method: RefundMethod;
+  gift_card: GiftCard | null;
+  payment_status: string;
+  amount_refunded: number;
+}
+
+export class ReturnService {
+  static getMethodLabel(method: RefundMethod): string {
+    return { cash: 'Cash', card: 'Card', store_credit: 'Store credit' }[method] || method;
+  }
+
+  static async lookup(orderNumber: string): Promise<ServerResult<ReturnLookup>> {
+    return serverRequest<ReturnLookup>(`/returns/lookup/${encodeURIComponent(orderNumber.trim())}`);
+  }
+
+  static async process(input: ReturnInput): Promise<ServerResult<ReturnResult>> {
+    return serverRequest<ReturnResult>('/returns', {
+      method: 'POST',
+      body: {
+        order_id: input.orderId,
+        lines: input.lines,
+        reason: input.reason,
+        note: input.note,
+        method: input.method,
+        exchange: input.exchange,
+        request_id: input.requestId,
+      },
+    });
+  }
+}
@@ -0,0 +1,126 @@
+import { supabase } from '../lib/supabase';
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Review Service
+ *
+ * Product reviews are written and moderated through the server, which checks
+ * that the reviewer received the product and keeps the product's rating in
+ * step with its approved reviews. Photos are uploaded to storage first and
+ * sent with the review as URLs.
+ */
+
+export type ReviewStatus = 'pending' | 'approved' | 'rejected';
+
+export interface ProductReview {
+  id: string;
+  product_id: string;
+  order_id: string | null;
+  rating: number;
+  title: string | null;
+  review_text: string | null;
+  photos: string[];
+  is_verified_purchase: boolean;
+  status: ReviewStatus;
+  rejection_reason?: string | null;
+  helpful_votes: number;
+  reviewer_name?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ReviewSummary {
+  average: number;
+  count: number;
+  breakdown: Record<1 | 2 | 3 | 4 | 5, number>;
+}
+
+export interface ProductReviewsPage {
+  summary: ReviewSummary;
+  reviews: ProductReview[];
+  page: number;
+  has_more: boolean;
+}
+
+export interface ReviewEligibility {
+  can_review: boolean;
+  reason: string | null;
+  review: ProductReview | null;
+}
+
+export interface ModerationReview extends ProductReview {
+  reviewer_email: string | null;
+  moderated_at: string | null;
+  product?: { id: string; name: string; images?: string[] } | null;
+}
+
+export interface ReviewInput {
+  rating: number;
+  title?: string;
+  text?: string;
+  photos?: string[];
+}
+
+export const MAX_REVIEW_PHOTOS = 4;
+
+export class ReviewService {
+  /**
+   * Approved reviews of a product with the rating breakdown
+   */
+  static async getReviews(productId: string, page: number = 1): Promise<ServerResult<ProductReviewsPage>> {
+    return serverRequest<ProductReviewsPage>(`/products/${productId}/reviews?page=${page}`);
+  }
+
+  /**
+   * Whether the signed-in customer can review the product, and their review
+   */
+  static async getEligibility(productId: string): Promise<ServerResult<ReviewEligibility>> {
+    return serverRequest<ReviewEligibility>(`/products/${productId}/reviews/eligibility`);
+  }
+
+  /**
+   * Write or edit the signed-in customer's review; it is held for moderation
+   */
+  static async submitReview(productId: string, review: ReviewInput): Promise<ServerResult<ProductReview>> {
+    return serverRequest<ProductReview>(`/products/${productId}/reviews`, { method: 'POST', body: review });
+  }
+
+  static async deleteReview(reviewId: string): Promise<ServerResult> {
+    return serverRequest(`/reviews/${reviewId}`, { method: 'DELETE' });
+  }
+
+  /**
+   * Reviews in one moderation state (admin and manager)
+   */
+  static async getModerationQueue(status: ReviewStatus = 'pending'): Promise<ServerResult<ModerationReview[]>> {
+    return serverRequest<ModerationReview[]>(`/reviews/moderation?status=${status}`);
+  }
+
+  static async moderate(reviewId: string, action: 'approve' | 'reject', reason?: string): Promise<ServerResult<ProductReview>> {
+    return serverRequest<ProductReview>(`/reviews/${reviewId}/moderate`, { method: 'POST', body: { action, reason } });
+  }
+
+  /**
+   * Upload a review photo under the customer's own folder and return its URL
+   */
+  static async uploadPhoto(userId: string, file: File): Promise<string> {
+    const ext = file.name.split('.').pop();
+    const path = `reviews/${userId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${ext}`;
+    const { error } = await supabase.storage.from('product-images').upload(path, file, { upsert: false });
+    if (error) throw error;
+
+    const { data } = supabase.storage.from('product-images').getPublicUrl(path);
+    return data.publicUrl;
+  }
+
+  static getStatusLabel(status: ReviewStatus): string {
+    switch (status) {
+      case 'approved':
+        return 'Published';
+      case 'rejected':
+        return 'Not published';
+      default:
+        return 'Awaiting moderation';
+    }
+  }
+}
@@ -1,14 +1,31 @@
 // Role-based routing utility - Updated for new user type schema
 export type UserRole = 'consumer' | 'cashier' | 'staff' | 'manager' | 'admin';
 
+// What a role may do at the till without a manager's PIN; the server
+// enforces the same limits
+export interface PosPermissions {
+  maxDiscountPercent: number;
+  canOverridePrice: boolean;
+  canVoid: boolean;
+  canOpenDrawer: boolean;
+}
+
 interface RoleConfig {
   defaultPage: string;
   allowedPages: string[];
   redirectAfterLogin: string;
   displayName: string;
   description: string;
+  pos: PosPermissions;
 }
 
+const NO_POS_PERMISSIONS: PosPermissions = {
+  maxDiscountPercent: 0,
+  canOverridePrice: false,
+  canVoid: false,
+  canOpenDrawer: false
+};
+
 // Updated role configuration for new schema
 export const roleConfigs: Record<UserRole, RoleConfig> = {
   consumer: {
@@ -25,7 +42,8 @@ export const roleConfigs: Record<UserRole, RoleConfig> = {
     ],
     redirectAfterLogin: '/products',
     displayName: 'Consumer',
-    description: 'Browse and purchase cleaning supplies'
+    description: 'Browse and purchase cleaning supplies',
+    pos: NO_POS_PERMISSIONS
   },
   cashier: {
     defaultPage: '/cashier/pos',
@@ -39,7 +57,13 @@ export const roleConfigs: Record<UserRole, RoleConfig> = {
     ],
     redirectAfterLogin: '/cashier/pos',
     displayName: 'Cashier',
-    description: 'Process customer transactions'
+    description: 'Process customer transactions',
+    pos: {
+      maxDiscountPercent: 5,
+      canOverridePrice: false,
+      canVoid: false,
+      canOpenDrawer: false
+    }
   },
   staff: {
     defaultPage: '/admin/products',
@@ -55,7 +79,13 @@ export const roleConfigs: Record<UserRole, RoleConfig> = {
     ],
     redirectAfterLogin: '/admin/products',
     displayName: 'Staff Member',
-    description: 'Manage products and orders'
+    description: 'Manage products and orders',
+    pos: {
+      maxDiscountPercent: 10,
+      canOverridePrice: false,
+      canVoid: true,
+      canOpenDrawer: false
+    }
   },
   manager: {
     defaultPage: '/admin',
@@ -71,7 +101,13 @@ export const roleConfigs: Record<UserRole, RoleConfig> = {
     ],
     redirectAfterLogin: '/admin',
     displayName: 'Manager',
-    description: 'Oversee operations and staff'
+    description: 'Oversee operations and staff',
+    pos: {
+      maxDiscountPercent: 50,
+      canOverridePrice: true,
+      canVoid: true,
+      canOpenDrawer: true
+    }
   },
   admin: {
     defaultPage: '/admin',
@@ -80,10 +116,23 @@ export const roleConfigs: Record<UserRole, RoleConfig> = {
     ],
     redirectAfterLogin: '/admin',
     displayName: 'Administrator',
-    description: 'Full system access and control'
+    description: 'Full system access and control',
+    pos: {
+      maxDiscountPercent: 100,
+      canOverridePrice: true,
+      canVoid: true,
+      canOpenDrawer: true
+    }
   }
 };
 
+/**
+ * Till permissions for a user role; unknown roles get none
+ */
+export function getPosPermissions(role: string | null | undefined): PosPermissions {
+  return roleConfigs[role as UserRole]?.pos || NO_POS_PERMISSIONS;
+}
+
 /**
  * Get the default page for a user role after login
  */
@@ -271,6 +320,8 @@ export function getNavigationForRole(role: string): Array<{
         ...baseNavigation,
         { label: 'POS System', path: '/cashier/pos', icon: 'CreditCard' },
         { label: 'Dashboard', path: '/cashier', icon: 'BarChart3' },
+        { label: 'My Shift', path: '/cashier/shift', icon: 'Clock' },
+        { label: 'Collections', path: '/cashier/collections', icon: 'Package' },
         { label: 'Profile', path: '/profile', icon: 'User' }
       ];
 
@@ -284,7 +335,10 @@ export function getNavigationForRole(role: string): Array<{
           icon: 'Settings',
           children: [
             { label: 'Products', path: '/admin/products' },
-            { label: 'Orders', path: '/admin/orders' }
+            { label: 'Orders', path: '/admin/orders' },
+            { label: 'Collections', path: '/cashier/collections' },
+            { label: 'Purchase Orders', path: '/admin/purchase-orders' },
+            { label: 'Stock-takes', path: '/admin/stock-takes' }
           ]
         },
         { label: 'Profile', path: '/profile', icon: 'User' }
@@ -301,8 +355,24 @@ export function getNavigationForRole(role: string): Array<{
           children: [
             { label: 'Dashboard', path: '/admin' },
             { label: 'Products', path: '/admin/products' },
+            { label: 'Inventory', path: '/admin/inventory' },
+            { label: 'Purchase Orders', path: '/admin/purchase-orders' },
+            { label: 'Stock-takes', path: '/admin/stock-takes' },
+            { label: 'Suppliers', path: '/admin/suppliers' },
             { label: 'Orders', path: '/admin/orders' },
+            { label: 'Collections', path: '/cashier/collections' },
+            { label: 'Shifts', path: '/admin/shifts' },
+            { label: 'Gift Cards', path: '/admin/gift-cards' },
+            { label: 'Offline Sales', path: '/admin/offline-sales' },
+            { label: 'Overrides', path: '/admin/overrides' },
+            { label: 'Receipts', path: '/admin/receipt-template' },
+            { label: 'Shipping', path: '/admin/shipping' },
+            { label: 'Search', path: '/admin/search' },
+            { label: 'Emails', path: '/admin/emails' },
+            { label: 'Cart Recovery', path: '/admin/cart-recovery' },
             { label: 'Promotions', path: '/admin/promotions' },
+            { label: 'Combos', path: '/admin/combos' },
+            { label: 'Reviews', path: '/admin/reviews' },
             { label: 'Users', path: '/admin/users' }
           ]
         },
@@ -320,8 +390,24 @@ export function getNavigationForRole(role: string): Array<{
           children: [
             { label: 'Dashboard', path: '/admin' },
             { label: 'Products', path: '/admin/products' },
+            { label: 'Inventory', path: '/admin/inventory' },
+            { label: 'Purchase Orders', path: '/admin/purchase-orders' },
+            { label: 'Stock-takes', path: '/admin/stock-takes' },
+            { label: 'Suppliers', path: '/admin/suppliers' },
             { label: 'Orders', path: '/admin/orders' },
+            { label: 'Collections', path: '/cashier/collections' },
+            { label: 'Shifts', path: '/admin/shifts' },
+            { label: 'Gift Cards', path: '/admin/gift-cards' },
+            { label: 'Offline Sales', path: '/admin/offline-sales' },
+            { label: 'Overrides', path: '/admin/overrides' },
+            { label: 'Receipts', path: '/admin/receipt-template' },
+            { label: 'Shipping', path: '/admin/shipping' },
+            { label: 'Search', path: '/admin/search' },
+            { label: 'Emails', path: '/admin/emails' },
+            { label: 'Cart Recovery', path: '/admin/cart-recovery' },
             { label: 'Promotions', path: '/admin/promotions' },
+            { label: 'Combos', path: '/admin/combos' },
+            { label: 'Reviews', path: '/admin/reviews' },
             { label: 'Users', path: '/admin/users' }
           ]
         },
@@ -0,0 +1,255 @@
+import { supabase } from '../lib/supabase';
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Search Service
+ *
+ * Catalogue search for the products page. Matching, ranking, synonyms, typo
+ * tolerance and facet counts all happen on the server; the page keeps its
+ * filters in the URL so a search can be shared or bookmarked. Also backs the
+ * search box type-ahead, the shopper's recent searches (kept in this
+ * browser) and the managers' review of searches that found nothing.
+ */
+
+export interface SearchFacetValue {
+  value: string;
+  count: number;
+}
+
+export interface SearchFacets {
+  categories: SearchFacetValue[];
+  brands: SearchFacetValue[];
+  price: {
+    min: number;
+    max: number;
+    buckets: { min: number; max: number | null; count: number }[];
+  };
+  in_stock: number;
+  on_sale: number;
+}
+
+export interface ProductSearchPage {
+  products: any[];
+  total: number;
+  next_cursor: string | null;
+  facets: SearchFacets;
+  sort: string;
+}
+
+export interface ProductSearchQuery {
+  search: string;
+  category: string;
+  brand: string;
+  minPrice: number | null;
+  maxPrice: number | null;
+  inStock: boolean;
+  onSale: boolean;
+  featured: boolean;
+  rating: number;
+  sort: string; // empty for the default: best match when searching, featured otherwise
+}
+
+export interface SearchSuggestions {
+  query: string;
+  products: {
+    id: string;
+    name: string;
+    price: number;
+    image_url: string | null;
+    in_stock: boolean;
+    stock_quantity: number;
+  }[];
+  categories: SearchFacetValue[];
+  brands: SearchFacetValue[];
+  queries: string[];
+}
+
+export interface ZeroResultSearch {
+  normalized: string;
+  sample_query: string;
+  searches: number;
+  shoppers: number;
+  last_searched_at: string;
+}
+
+export interface SearchSynonym {
+  id: string;
+  terms: string[];
+}
+
+const RECENT_SEARCHES_KEY = 'best-brightness-recent-searches';
+const MAX_RECENT_SEARCHES = 8;
+const SUGGESTION_CACHE_MS = 60 * 1000;
+
+const suggestionCache = new Map<string, { result: ServerResult<SearchSuggestions>; cachedAt: number }>();
+
+export class SearchService {
+  static async search(query: ProductSearchQuery, cursor?: string | null, limit = 24): Promise<ServerResult<ProductSearchPage>> {
+    const params = new URLSearchParams();
+    if (query.search.trim()) params.set('q', query.search.trim());
+    if (query.category) params.set('category', query.category);
+    if (query.brand) params.set('brand', query.brand);
+    if (query.minPrice !== null) params.set('min_price', String(query.minPrice));
+    if (query.maxPrice !== null) params.set('max_price', String(query.maxPrice));
+    if (query.inStock) params.set('in_stock', 'true');
+    if (query.onSale) params.set('on_sale', 'true');
+    if (query.featured) params.set('featured', 'true');
+    if (query.rating > 0) params.set('rating', String(query.rating));
+    if (query.sort) params.set('sort', query.sort);
+    if (cursor) params.set('cursor', cursor);
+    params.set('limit', String(limit));
+    return serverRequest<ProductSearchPage>(`/products/search?${params.toString()}`);
+  }
+
+  /**
+   * Read a search from the products page URL
+   */
+  static fromUrl(params: URLSearchParams): ProductSearchQuery {
+    const number = (name: string) => {
+      const value = params.get(name);
+      return value !== null && value !== '' && Number.isFinite(Number(value)) ? Number(value) : null;
+    };
+    return {
+      search: params.get('search') || '',
+      category: params.get('category') || '',
+      brand: params.get('brand') || '',
+      minPrice: number('min_price'),
+      maxPrice: number('max_price'),
+      inStock: params.get('in_stock') === 'true',
+      onSale: params.get('on_sale') === 'true',
+      featured: params.get('featured') === 'true',
+      rating: number('rating') || 0,
+      sort: params.get('sort') || '',
+    };
+  }
+
+  /**
+   * Write a search back to the URL, leaving out anything at its default.
+   * Other parameters already in the URL (such as promotion links) are kept.
+   */
+  static toUrl(query: ProductSearchQuery, current: URLSearchParams): URLSearchParams {
+    const params = new URLSearchParams(current);
+    const set = (name: string, value: string | null) => (value ? params.set(name, value) : params.delete(name));
+    set('search', query.search);
+    set('category', query.category);
+    set('brand', query.brand);
+    set('min_price', query.minPrice !== null && query.minPrice > 0 ? String(query.minPrice) : null);
+    set('max_price', query.maxPrice !== null ? String(query.maxPrice) : null);
+    set('in_stock', query.inStock ? 'true' : null);
+    set('on_sale', query.onSale ? 'true' : null);
+    set('featured', query.featured ? 'true' : null);
+    set('rating', query.rating > 0 ? String(query.rating) : null);
+    set('sort', query.sort);
+    return params;
+  }
+
+  /**
+   * Type-ahead suggestions for the text typed so far, remembered for a minute
+   * so backspacing over a word does not ask the server again
+   */
+  static async suggest(text: string): Promise<ServerResult<SearchSuggestions>> {
+    const key = text.trim().toLowerCase();
+    const cached = suggestionCache.get(key);
+    if (cached && Date.now() - cached.cachedAt < SUGGESTION_CACHE_MS) {
+      return cached.result;
+    }
+
+    const result = await serverRequest<SearchSuggestions>(`/products/suggest?q=${encodeURIComponent(key)}`);
+    if (result.success) {
+      suggestionCache.set(key, { result, cachedAt: Date.now() });
+    }
+    return result;
+  }
+
+  /**
+   * Record a search the shopper settled on, for popular suggestions and the
+   * zero-results review
+   */
+  static async logSearch(query: string): Promise<ServerResult<{ results_count: number }>> {
+    return serverRequest<{ results_count: number }>('/products/search/log', { method: 'POST', body: { query } });
+  }
+
+  static getRecentSearches(): string[] {
+    try {
+      const stored = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || '[]');
+      return Array.isArray(stored) ? stored.filter((value: any) => typeof value === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  static addRecentSearch(query: string): string[] {
+    const value = query.trim();
+    if (!value) return this.getRecentSearches();
+    const recent = [value, ...this.getRecentSearches().filter(item => item.toLowerCase() !== value.toLowerCase())]
+      .slice(0, MAX_RECENT_SEARCHES);
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+    return recent;
+  }
+
+  static removeRecentSearch(query: string): string[] {
+    const recent = this.getRecentSearches().filter(item => item !== query);
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+    return recent;
+  }
+
+  static clearRecentSearches(): void {
+    localStorage.removeItem(RECENT_SEARCHES_KEY);
+  }
+
+  static async getZeroResultSearches(days = 30): Promise<ZeroResultSearch[]> {
+    const { data, error } = await supabase.rpc('zero_result_searches', { days });
+    if (error) {
+      console.error('❌ Error fetching zero-result searches:', error);
+      return [];
+    }
+    return (data || []).map((row: any) => ({ ...row, searches: Number(row.searches), shoppers: Number(row.shoppers) }));
+  }
+
+  /**
+   * Mark a search as dealt with, so it leaves the review list until someone
+   * searches for it again and still finds nothing
+   */
+  static async dismissZeroResultSearch(normalized: string, userId: string): Promise<void> {
+    const { error } = await supabase
+      .from('search_queries')
+      .update({ dismissed_at: new Date().toISOString(), dismissed_by: userId })
+      .eq('normalized', normalized)
+      .eq('results_count', 0)
+      .is('dismissed_at', null);
+    if (error) {
+      throw new Error(`Failed to dismiss search: ${error.message}`);
+    }
+  }
+
+  static async getSynonyms(): Promise<SearchSynonym[]> {
+    const { data, error } = await supabase.from('search_synonyms').select('id, terms').order('created_at');
+    if (error) {
+      console.error('❌ Error fetching search synonyms:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async saveSynonym(terms: string[], id?: string): Promise<SearchSynonym> {
+    const cleaned = Array.from(new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean)));
+    if (cleaned.length < 2) {
+      throw new Error('A synonym needs at least two different terms');
+    }
+
+    const { data, error } = id
+      ? await supabase.from('search_synonyms').update({ terms: cleaned }).eq('id', id).select('id, terms').single()
+      : await supabase.from('search_synonyms').insert({ terms: cleaned }).select('id, terms').single();
+    if (error) {
+      throw new Error(`Failed to save synonym: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async deleteSynonym(id: string): Promise<void> {
+    const { error } = await supabase.from('search_synonyms').delete().eq('id', id);
+    if (error) {
+      throw new Error(`Failed to delete synonym: ${error.message}`);
+    }
+  }
+}
@@ -0,0 +1,94 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Server API helper
+ *
+ * Calls the Vercel API routes under /make-server-8880f2f2 with the signed-in
+ * user's access token, so routes guarded by authenticateUser/requireRole can
+ * identify the caller. Falls back to the anon key for public routes.
+ */
+
+export interface ServerResult<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+  status?: number;
+}
+
+const SERVER_BASE = '/make-server-8880f2f2';
+
+async function getAuthHeader(): Promise<string> {
+  const { data } = await supabase.auth.getSession();
+  if (data.session?.access_token) {
+    return `Bearer ${data.session.access_token}`;
+  }
+  const { publicAnonKey } = await import('./supabase/info');
+  return `Bearer ${publicAnonKey}`;
+}
+
+export async function serverRequest<T = any>(
+  path: string,
+  options: { method?: 'GET' | 'POST' | 'PUT' | 'DELETE'; body?: any } = {}
+): Promise<ServerResult<T>> {
+  try {
+    const response = await fetch(`${window.location.origin}${SERVER_BASE}${path}`, {
+      method: options.method || (options.body ? 'POST' : 'GET'),
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': await getAuthHeader(),
+      },
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+
+    const payload = await response.json().catch(() => ({}));
+
+    if (!response.ok || payload.success === false) {
+      return {
+        success: false,
+        error: payload.message || payload.error || `Request failed with status ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    return {
+      success: true,
+      data: payload.data !== undefined ? payload.data : payload,
+      status: response.status,
+    };
+  } catch (error) {
+    console.error(`❌ Server request to ${path} failed:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
+
+/**
+ * Fetch a file from a server route, such as a generated PDF. Errors come back
+ * as the usual JSON envelope, so they are read the same way as serverRequest.
+ */
+export async function serverDownload(path: string): Promise<ServerResult<Blob>> {
+  try {
+    const response = await fetch(`${window.location.origin}${SERVER_BASE}${path}`, {
+      headers: { 'Authorization': await getAuthHeader() },
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => ({}));
+      return {
+        success: false,
+        error: payload.message || payload.error || `Request failed with status ${response.status}`,
+        status: response.status,
+      };
+    }
+
+    return { success: true, data: await response.blob(), status: response.status };
+  } catch (error) {
+    console.error(`❌ Server download from ${path} failed:`, error);
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Network error',
+    };
+  }
+}
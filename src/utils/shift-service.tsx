@@ -0,0 +1,135 @@
+import { serverRequest, ServerResult } from './server-api';
+import { TenderMethod } from './tender-service';
+
+/**
+ * Shift Service
+ *
+ * Cashier shifts: open with a counted float, record pay-ins and pay-outs,
+ * and cash up at the end with a note-and-coin count. The server keeps the
+ * totals; the X-report is the running view of an open shift and the Z-report
+ * the frozen one of a closed shift.
+ */
+
+export type ShiftStatus = 'open' | 'closed';
+export type CashMovementType = 'pay_in' | 'pay_out';
+export type DenominationCount = Record<string, number>;
+
+// South African notes and coins, in rand
+export const DENOMINATIONS = [200, 100, 50, 20, 10, 5, 2, 1, 0.5, 0.2, 0.1];
+
+export interface Shift {
+  id: string;
+  shift_number: string;
+  cashier_id: string;
+  cashier_name?: string | null;
+  status: ShiftStatus;
+  opening_float: number;
+  opening_denominations: DenominationCount | null;
+  opened_at: string;
+  closing_denominations: DenominationCount | null;
+  counted_cash: number | null;
+  expected_cash: number | null;
+  cash_variance: number | null;
+  closing_notes: string | null;
+  closed_at: string | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  review_notes: string | null;
+}
+
+export interface ShiftTotals {
+  sale_count: number;
+  gross_sales: number;
+  discounts: number;
+  cash_sales: number;
+  card_sales: number;
+  tenders?: Partial<Record<TenderMethod, number>>; // Missing on shifts closed before split tender
+  cash_tendered: number;
+  change_given: number;
+  refund_count: number;
+  cash_refunds: number;
+  card_refunds: number;
+  store_credit_refunds?: number;
+  pay_ins: number;
+  pay_outs: number;
+  opening_float: number;
+  expected_cash: number;
+}
+
+export interface CashMovement {
+  id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_at: string;
+}
+
+export interface ShiftSale {
+  id: string;
+  order_number: string;
+  total: number;
+  payment_method: string;
+  status: string;
+  customer_info?: { name?: string } | null;
+  created_at: string;
+}
+
+export interface ShiftReport {
+  report_type: 'X' | 'Z';
+  generated_at: string;
+  shift: Shift;
+  totals: ShiftTotals;
+  counted_cash: number | null;
+  cash_variance: number | null;
+  movements: CashMovement[];
+  refunds: { id: string; refund_number: string; amount: number; refund_method: string; created_at: string }[];
+  recent_sales: ShiftSale[];
+}
+
+export class ShiftService {
+  static async getCurrent(): Promise<ServerResult<Shift | null>> {
+    return serverRequest<Shift | null>('/shifts/current');
+  }
+
+  static async open(denominations: DenominationCount): Promise<ServerResult<Shift>> {
+    return serverRequest<Shift>('/shifts', { method: 'POST', body: { denominations } });
+  }
+
+  static async list(filters: { status?: ShiftStatus; from?: string; to?: string } = {}): Promise<ServerResult<Shift[]>> {
+    const params = new URLSearchParams(
+      Object.entries(filters).filter(([, value]) => !!value) as [string, string][]
+    ).toString();
+    return serverRequest<Shift[]>(`/shifts${params ? `?${params}` : ''}`);
+  }
+
+  static async getReport(shiftId: string): Promise<ServerResult<ShiftReport>> {
+    return serverRequest<ShiftReport>(`/shifts/${shiftId}/report`);
+  }
+
+  static async recordCashMovement(shiftId: string, movementType: CashMovementType, amount: number, reason: string): Promise<ServerResult<CashMovement>> {
+    return serverRequest<CashMovement>(`/shifts/${shiftId}/cash-movements`, {
+      method: 'POST',
+      body: { movement_type: movementType, amount, reason },
+    });
+  }
+
+  static async close(shiftId: string, denominations: DenominationCount, notes?: string): Promise<ServerResult<ShiftReport>> {
+    return serverRequest<ShiftReport>(`/shifts/${shiftId}/close`, { method: 'POST', body: { denominations, notes } });
+  }
+
+  static async review(shiftId: string, notes?: string): Promise<ServerResult<ShiftReport>> {
+    return serverRequest<ShiftReport>(`/shifts/${shiftId}/review`, { method: 'POST', body: { notes } });
+  }
+
+  /**
+   * Value of a note-and-coin count, in rand
+   */
+  static countTotal(denominations: DenominationCount): number {
+    const total = Object.entries(denominations).reduce((sum, [value, pieces]) => sum + Number(value) * (pieces || 0), 0);
+    return Math.round(total * 100) / 100;
+  }
+
+  static formatDenomination(value: number): string {
+    return value < 1 ? `${Math.round(value * 100)}c` : `R${value}`;
+  }
+}
@@ -0,0 +1,149 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Shipment Service
+ *
+ * Parcels handed to couriers and the tracking built from them. Staff record
+ * each parcel with its tracking number and the items in it; customers see a
+ * timeline of their order's statuses and parcels on their order page, or on
+ * the public tracking page with their order number and email.
+ */
+
+export type ShipmentStatus = 'shipped' | 'in_transit' | 'out_for_delivery' | 'delivered' | 'returned';
+
+export interface Shipment {
+  id: string;
+  courier: string;
+  tracking_number: string;
+  tracking_url: string | null;
+  status: ShipmentStatus;
+  shipped_at: string;
+  delivered_at: string | null;
+  items: { order_item_id: string; name: string; quantity: number }[];
+}
+
+export interface OrderStatusChange {
+  status: string;
+  previous_status: string | null;
+  fulfillment_status: string | null;
+  created_at: string;
+}
+
+export interface OrderTracking {
+  order_id: string;
+  order_number: string;
+  status: string;
+  payment_status: string;
+  fulfillment_status: string | null;
+  fulfillment_method: string;
+  created_at: string;
+  shipped_at: string | null;
+  delivered_at: string | null;
+  destination: string | null;
+  items: { order_item_id: string; name: string; quantity: number; shipped: number }[];
+  shipments: Shipment[];
+  history: OrderStatusChange[];
+}
+
+export interface ShipmentInput {
+  courier: string;
+  tracking_number: string;
+  tracking_url?: string | null;
+  items?: { order_item_id: string; quantity: number }[];
+}
+
+export interface TimelineEvent {
+  key: string;
+  at: string;
+  title: string;
+  detail?: string;
+  shipment?: Shipment;
+}
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = {
+  shipped: 'Shipped',
+  in_transit: 'In transit',
+  out_for_delivery: 'Out for delivery',
+  delivered: 'Delivered',
+  returned: 'Returned to sender',
+};
+
+// Offered as suggestions when recording a shipment; any courier can be typed
+export const COURIERS = ['The Courier Guy', 'Aramex', 'DSV', 'Fastway', 'PostNet', 'Pargo', 'RAM', 'SA Post Office'];
+
+const ORDER_STATUS_TITLES: Record<string, string> = {
+  pending: 'Order placed',
+  confirmed: 'Order confirmed',
+  processing: 'Being prepared',
+  ready_for_collection: 'Ready for collection',
+  shipped: 'Shipped',
+  delivered: 'Delivered',
+  cancelled: 'Cancelled',
+  refunded: 'Refunded',
+};
+
+export class ShipmentService {
+  static async getTracking(orderId: string): Promise<ServerResult<OrderTracking>> {
+    return serverRequest<OrderTracking>(`/orders/${orderId}/tracking`);
+  }
+
+  /**
+   * Look an order up by its number and the email it was placed with; works
+   * without signing in
+   */
+  static async track(orderNumber: string, email: string): Promise<ServerResult<OrderTracking>> {
+    return serverRequest<OrderTracking>('/orders/track', {
+      method: 'POST',
+      body: { order_number: orderNumber, email },
+    });
+  }
+
+  static async createShipment(
+    orderId: string,
+    input: ShipmentInput
+  ): Promise<ServerResult<{ tracking: OrderTracking; notified: boolean }>> {
+    return serverRequest<{ tracking: OrderTracking; notified: boolean }>(`/orders/${orderId}/shipments`, {
+      method: 'POST',
+      body: input,
+    });
+  }
+
+  static async updateStatus(shipmentId: string, status: ShipmentStatus): Promise<ServerResult<OrderTracking>> {
+    return serverRequest<OrderTracking>(`/shipments/${shipmentId}/status`, { method: 'POST', body: { status } });
+  }
+
+  /**
+   * The order's statuses and parcels as one list, newest first. History rows
+   * where only the fulfillment status moved are left out, as the parcel that
+   * moved it is listed instead.
+   */
+  static timeline(tracking: OrderTracking): TimelineEvent[] {
+    const events: TimelineEvent[] = tracking.history
+      .filter(change => change.status !== change.previous_status)
+      .map((change, index) => ({
+        key: `status-${index}`,
+        at: change.created_at,
+        title: ORDER_STATUS_TITLES[change.status] || change.status.replace(/_/g, ' '),
+      }));
+
+    for (const shipment of tracking.shipments) {
+      events.push({
+        key: `shipment-${shipment.id}`,
+        at: shipment.shipped_at,
+        title: `Parcel sent with ${shipment.courier}`,
+        detail: shipment.items.map(item => `${item.quantity}x ${item.name}`).join(', '),
+        shipment,
+      });
+      if (shipment.delivered_at) {
+        events.push({
+          key: `delivered-${shipment.id}`,
+          at: shipment.delivered_at,
+          title: 'Parcel delivered',
+          detail: `${shipment.courier} ${shipment.tracking_number}`,
+        });
+      }
+    }
+
+    return events.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime());
+  }
+}
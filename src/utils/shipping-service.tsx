@@ -0,0 +1,187 @@
+import { supabase } from '../lib/supabase';
+
+/**
+ * Shipping Service
+ *
+ * The delivery rules managers keep: zones matched by postal code or province,
+ * methods (standard, express, collect in store) and the rate table that
+ * prices each method in a zone by parcel weight and order value. Checkout
+ * never reads these; the server prices delivery into the cart's quote.
+ */
+
+export type ShippingMethodType = 'standard' | 'express' | 'collect';
+
+export interface ShippingZone {
+  id: string;
+  name: string;
+  provinces: string[];
+  postal_codes: string[]; // "8001", a prefix "80*" or a range "7400-7999"
+  free_shipping_threshold: number | null;
+  additional_days: number;
+  priority: number;
+  is_active: boolean;
+}
+
+export interface ShippingMethod {
+  id: string;
+  code: string;
+  name: string;
+  description: string | null;
+  method_type: ShippingMethodType;
+  min_days: number;
+  max_days: number;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface ShippingRate {
+  id: string;
+  zone_id: string;
+  method_id: string;
+  min_weight_kg: number;
+  max_weight_kg: number | null;
+  min_order_value: number;
+  max_order_value: number | null;
+  price: number;
+}
+
+export type ShippingZoneDraft = Omit<ShippingZone, 'id'> & { id?: string };
+export type ShippingMethodDraft = Omit<ShippingMethod, 'id'> & { id?: string };
+export type ShippingRateDraft = Omit<ShippingRate, 'id'> & { id?: string };
+
+export const SHIPPING_METHOD_TYPES: { value: ShippingMethodType; label: string }[] = [
+  { value: 'standard', label: 'Standard delivery' },
+  { value: 'express', label: 'Express delivery' },
+  { value: 'collect', label: 'Collect in store' },
+];
+
+const optionalNumber = (value: any) => (value === '' || value === null || value === undefined ? null : Number(value));
+
+export class ShippingService {
+  static async getZones(): Promise<ShippingZone[]> {
+    const { data, error } = await supabase.from('shipping_zones').select('*').order('priority').order('name');
+    if (error) {
+      console.error('❌ Error fetching shipping zones:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async getMethods(): Promise<ShippingMethod[]> {
+    const { data, error } = await supabase.from('shipping_methods').select('*').order('sort_order');
+    if (error) {
+      console.error('❌ Error fetching shipping methods:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async getRates(): Promise<ShippingRate[]> {
+    const { data, error } = await supabase.from('shipping_rates').select('*').order('min_weight_kg').order('min_order_value');
+    if (error) {
+      console.error('❌ Error fetching shipping rates:', error);
+      return [];
+    }
+    return data || [];
+  }
+
+  static async saveZone(draft: ShippingZoneDraft): Promise<ShippingZone> {
+    const { id, ...fields } = draft;
+    const row = {
+      ...fields,
+      name: fields.name.trim(),
+      provinces: fields.provinces.filter(Boolean),
+      postal_codes: fields.postal_codes.map(code => code.trim()).filter(Boolean),
+      free_shipping_threshold: optionalNumber(fields.free_shipping_threshold),
+      additional_days: Math.max(0, Math.floor(Number(fields.additional_days) || 0)),
+      priority: Math.floor(Number(fields.priority) || 0),
+    };
+    if (!row.name) {
+      throw new Error('Give the zone a name');
+    }
+
+    const { data, error } = id
+      ? await supabase.from('shipping_zones').update(row).eq('id', id).select().single()
+      : await supabase.from('shipping_zones').insert(row).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save zone: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async saveMethod(draft: ShippingMethodDraft): Promise<ShippingMethod> {
+    const { id, ...fields } = draft;
+    const minDays = Math.max(0, Math.floor(Number(fields.min_days) || 0));
+    const row = {
+      ...fields,
+      name: fields.name.trim(),
+      code: fields.code.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_'),
+      description: fields.description?.trim() || null,
+      min_days: minDays,
+      max_days: Math.max(minDays, Math.floor(Number(fields.max_days) || 0)),
+      sort_order: Math.floor(Number(fields.sort_order) || 0),
+    };
+    if (!row.name || !row.code) {
+      throw new Error('Give the method a name and a code');
+    }
+
+    const { data, error } = id
+      ? await supabase.from('shipping_methods').update(row).eq('id', id).select().single()
+      : await supabase.from('shipping_methods').insert(row).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save method: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async saveRate(draft: ShippingRateDraft): Promise<ShippingRate> {
+    const { id, ...fields } = draft;
+    const row = {
+      ...fields,
+      min_weight_kg: Math.max(0, Number(fields.min_weight_kg) || 0),
+      max_weight_kg: optionalNumber(fields.max_weight_kg),
+      min_order_value: Math.max(0, Number(fields.min_order_value) || 0),
+      max_order_value: optionalNumber(fields.max_order_value),
+      price: Number(fields.price),
+    };
+    if (!row.zone_id || !row.method_id) {
+      throw new Error('Choose a zone and a method for the rate');
+    }
+    if (!Number.isFinite(row.price) || row.price < 0) {
+      throw new Error('Enter a price of zero or more');
+    }
+    if (row.max_weight_kg !== null && row.max_weight_kg < row.min_weight_kg) {
+      throw new Error('The weight band ends before it starts');
+    }
+    if (row.max_order_value !== null && row.max_order_value < row.min_order_value) {
+      throw new Error('The order value band ends before it starts');
+    }
+
+    const { data, error } = id
+      ? await supabase.from('shipping_rates').update(row).eq('id', id).select().single()
+      : await supabase.from('shipping_rates').insert(row).select().single();
+
+    if (error) {
+      throw new Error(`Failed to save rate: ${error.message}`);
+    }
+    return data;
+  }
+
+  static async deleteRate(rateId: string): Promise<void> {
+    const { error } = await supabase.from('shipping_rates').delete().eq('id', rateId);
+    if (error) {
+      throw new Error(`Failed to delete rate: ${error.message}`);
+    }
+  }
+
+  /**
+   * "3-5 business days", or "Same day" for collection that is ready at once
+   */
+  static describeEstimate(minDays: number, maxDays: number): string {
+    if (maxDays <= 0) return 'Same day';
+    if (minDays === maxDays) return `${maxDays} business day${maxDays === 1 ? '' : 's'}`;
+    return `${minDays}-${maxDays} business days`;
+  }
+}
@@ -0,0 +1,201 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Stock-take Service
+ *
+ * Cycle counts done with the barcode scanner. Counts are kept on the device
+ * first and sent to the server when there is a connection, so a count can
+ * carry on in a stockroom without signal. The session's products are cached
+ * with it so scanning still finds them offline. Counts are absolute: the
+ * latest quantity for an item replaces any earlier one.
+ */
+
+export type StockTakeStatus = 'counting' | 'submitted' | 'approved' | 'cancelled';
+export type StockTakeReviewAction = 'approve' | 'recount' | 'cancel';
+
+export interface StockTake {
+  id: string;
+  reference: string;
+  name: string;
+  category_id: string | null;
+  location: string | null;
+  status: StockTakeStatus;
+  notes: string | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+  created_at: string;
+  category?: { id: string; name: string } | null;
+  line_count?: number;
+}
+
+export interface StockTakeLine {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  expected_quantity: number;
+  counted_quantity: number;
+  counted_at: string;
+  counted_by_name: string | null;
+  movement_id: string | null;
+  variance: number;
+  value_impact: number;
+  product?: { id: string; name: string; sku: string; barcode: string | null; cost_price: number | null } | null;
+  variant?: { id: string; name: string; sku: string; barcode: string | null } | null;
+}
+
+export interface CatalogProduct {
+  id: string;
+  name: string;
+  sku: string;
+  barcode: string | null;
+  has_variants: boolean;
+  variants: { id: string; name: string; sku: string; barcode: string | null }[];
+}
+
+export interface StockTakeDetail {
+  stock_take: StockTake;
+  lines: StockTakeLine[];
+  catalog: CatalogProduct[];
+  summary: {
+    lines_counted: number;
+    lines_with_variance: number;
+    units_over: number;
+    units_short: number;
+    value_impact: number;
+  };
+}
+
+export interface StockCount {
+  product_id: string;
+  variant_id: string | null;
+  counted_quantity: number;
+}
+
+export interface CatalogMatch {
+  product: CatalogProduct;
+  variant: CatalogProduct['variants'][number] | null;
+}
+
+const SESSION_KEY = (stockTakeId: string) => `best-brightness-stock-take-${stockTakeId}`;
+const PENDING_KEY = (stockTakeId: string) => `best-brightness-stock-take-pending-${stockTakeId}`;
+
+const STATUS_LABELS: Record<StockTakeStatus, string> = {
+  counting: 'Counting',
+  submitted: 'Awaiting approval',
+  approved: 'Approved',
+  cancelled: 'Cancelled',
+};
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (error) {
+    console.warn(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+}
+
+export class StockTakeService {
+  static async list(status?: StockTakeStatus): Promise<ServerResult<StockTake[]>> {
+    return serverRequest<StockTake[]>(`/stock-takes${status ? `?status=${status}` : ''}`);
+  }
+
+  static async create(session: { name?: string; category_id?: string | null; location?: string; notes?: string }): Promise<ServerResult<StockTake>> {
+    return serverRequest<StockTake>('/stock-takes', { method: 'POST', body: session });
+  }
+
+  /**
+   * Load a session and keep a copy on the device for offline counting
+   */
+  static async get(stockTakeId: string): Promise<ServerResult<StockTakeDetail>> {
+    const result = await serverRequest<StockTakeDetail>(`/stock-takes/${stockTakeId}`);
+    if (result.success && result.data) {
+      StockTakeService.cacheSession(result.data);
+    }
+    return result;
+  }
+
+  static async submit(stockTakeId: string): Promise<ServerResult<StockTakeDetail>> {
+    return serverRequest<StockTakeDetail>(`/stock-takes/${stockTakeId}/submit`, { method: 'POST' });
+  }
+
+  static async review(stockTakeId: string, action: StockTakeReviewAction, notes?: string): Promise<ServerResult<StockTakeDetail>> {
+    return serverRequest<StockTakeDetail>(`/stock-takes/${stockTakeId}/review`, { method: 'POST', body: { action, notes } });
+  }
+
+  static cacheSession(detail: StockTakeDetail): void {
+    try {
+      localStorage.setItem(SESSION_KEY(detail.stock_take.id), JSON.stringify(detail));
+    } catch (error) {
+      console.warn('Failed to cache stock-take for offline use:', error);
+    }
+  }
+
+  static getCachedSession(stockTakeId: string): StockTakeDetail | null {
+    return readJson<StockTakeDetail | null>(SESSION_KEY(stockTakeId), null);
+  }
+
+  /**
+   * Counts taken on this device that the server has not saved yet
+   */
+  static getPendingCounts(stockTakeId: string): StockCount[] {
+    return Object.values(readJson<Record<string, StockCount>>(PENDING_KEY(stockTakeId), {}));
+  }
+
+  static queueCount(stockTakeId: string, count: StockCount): void {
+    const pending = readJson<Record<string, StockCount>>(PENDING_KEY(stockTakeId), {});
+    pending[`${count.product_id}:${count.variant_id || ''}`] = count;
+    localStorage.setItem(PENDING_KEY(stockTakeId), JSON.stringify(pending));
+  }
+
+  /**
+   * Send queued counts. They stay queued if the device is offline or the
+   * server refuses them, so nothing counted is lost.
+   */
+  static async syncPendingCounts(stockTakeId: string): Promise<ServerResult<StockTakeDetail> | null> {
+    const counts = StockTakeService.getPendingCounts(stockTakeId);
+    if (counts.length === 0) return null;
+
+    const result = await serverRequest<StockTakeDetail>(`/stock-takes/${stockTakeId}/counts`, {
+      method: 'POST',
+      body: { counts },
+    });
+
+    if (result.success && result.data) {
+      // Keep anything counted while the request was in flight
+      const pending = readJson<Record<string, StockCount>>(PENDING_KEY(stockTakeId), {});
+      for (const count of counts) {
+        const key = `${count.product_id}:${count.variant_id || ''}`;
+        if (pending[key]?.counted_quantity === count.counted_quantity) {
+          delete pending[key];
+        }
+      }
+      localStorage.setItem(PENDING_KEY(stockTakeId), JSON.stringify(pending));
+      StockTakeService.cacheSession(result.data);
+    }
+    return result;
+  }
+
+  static clearDeviceCopy(stockTakeId: string): void {
+    localStorage.removeItem(SESSION_KEY(stockTakeId));
+    localStorage.removeItem(PENDING_KEY(stockTakeId));
+  }
+
+  /**
+   * The product or variant a scanned barcode or SKU belongs to
+   */
+  static findByCode(catalog: CatalogProduct[], code: string): CatalogMatch | undefined {
+    const wanted = code.trim();
+    for (const product of catalog) {
+      const variant = product.variants.find(v => v.barcode === wanted || v.sku === wanted);
+      if (variant) return { product, variant };
+      if (product.barcode === wanted || product.sku === wanted) return { product, variant: null };
+    }
+    return undefined;
+  }
+
+  static getStatusLabel(status: StockTakeStatus): string {
+    return STATUS_LABELS[status] || status;
+  }
+}
@@ -0,0 +1,130 @@
+import { serverRequest, ServerResult } from './server-api';
+
+/**
+ * Tender Service
+ *
+ * The ways a POS sale is paid for. A sale can take several tenders (part
+ * cash, part card, a gift card, an EFT) until the balance due reaches zero;
+ * only cash may go over the balance, and the difference is the change.
+ * Loyalty points are already off the total in the price quote, so they are
+ * recorded as a tender for reporting but never count towards the balance.
+ *
+ * Gift cards are charged on the server before the order is created and put
+ * back if the order cannot be recorded.
+ */
+
+export type TenderMethod = 'cash' | 'card' | 'voucher' | 'eft' | 'loyalty';
+
+export interface Tender {
+  method: TenderMethod;
+  amount: number; // Applied to the sale
+  tendered?: number; // Cash handed over
+  change?: number; // Cash handed back
+  reference?: string | null; // Gift card code, EFT reference or card slip number
+}
+
+export interface GiftCard {
+  id: string;
+  code: string;
+  initial_value: number;
+  balance: number;
+  is_active: boolean;
+  expires_at: string | null;
+  notes: string | null;
+  created_at: string;
+}
+
+export interface GiftCardRedemption {
+  code: string;
+  amount: number;
+  balance_after: number;
+}
+
+export const TENDER_METHODS: TenderMethod[] = ['cash', 'card', 'voucher', 'eft', 'loyalty'];
+
+const TENDER_LABELS: Record<TenderMethod, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  voucher: 'Gift card',
+  eft: 'EFT',
+  loyalty: 'Loyalty points',
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export class TenderService {
+  static getLabel(method: TenderMethod | string): string {
+    return TENDER_LABELS[method as TenderMethod] || method;
+  }
+
+  /**
+   * What is left to pay after the tenders taken so far
+   */
+  static balanceDue(total: number, tenders: Tender[]): number {
+    const paid = tenders
+      .filter(tender => tender.method !== 'loyalty')
+      .reduce((sum, tender) => sum + tender.amount, 0);
+    return Math.max(roundCurrency(total - paid), 0);
+  }
+
+  /**
+   * A tender for up to `amount`, applied against the balance due. Cash over
+   * the balance becomes change; anything else is capped at the balance.
+   */
+  static createTender(method: TenderMethod, amount: number, balanceDue: number, reference?: string): Tender {
+    const value = roundCurrency(amount);
+    if (method === 'cash') {
+      const applied = Math.min(value, balanceDue);
+      return { method, amount: applied, tendered: value, change: roundCurrency(value - applied) };
+    }
+    return { method, amount: Math.min(value, balanceDue), reference: reference?.trim() || null };
+  }
+
+  /**
+   * Single payment method for the order row: the only tender used, or
+   * 'split' when more than one paid for the sale
+   */
+  static paymentMethodFor(tenders: Tender[]): string {
+    const methods = Array.from(new Set(tenders.filter(tender => tender.method !== 'loyalty').map(tender => tender.method)));
+    return methods.length === 1 ? methods[0] : 'split';
+  }
+
+  /**
+   * Tenders recorded on an order, reading older single-method orders as one
+   * tender for the whole total
+   */
+  static getOrderTenders(order: { total?: number; total_amount?: number; payment_method?: string; payment_details?: any }): Tender[] {
+    const tenders = order.payment_details?.tenders;
+    if (Array.isArray(tenders) && tenders.length > 0) {
+      return tenders;
+    }
+    const total = Number(order.total ?? order.total_amount) || 0;
+    return order.payment_method === 'cash'
+      ? [{ method: 'cash', amount: total, tendered: Number(order.payment_details?.amount_tendered) || total, change: Number(order.payment_details?.change_given) || 0 }]
+      : [{ method: 'card', amount: total }];
+  }
+
+  static async lookupGiftCard(code: string): Promise<ServerResult<GiftCard>> {
+    return serverRequest<GiftCard>(`/gift-cards/lookup/${encodeURIComponent(code.trim())}`);
+  }
+
+  static async redeemGiftCards(reference: string, redemptions: { code: string; amount: number }[]): Promise<ServerResult<GiftCardRedemption[]>> {
+    return serverRequest<GiftCardRedemption[]>('/gift-cards/redeem', { method: 'POST', body: { reference, redemptions } });
+  }
+
+  static async reverseGiftCards(reference: string): Promise<ServerResult<{ reversed: number }>> {
+    return serverRequest<{ reversed: number }>('/gift-cards/reverse', { method: 'POST', body: { reference } });
+  }
+
+  static async listGiftCards(search?: string): Promise<ServerResult<GiftCard[]>> {
+    return serverRequest<GiftCard[]>(`/gift-cards${search ? `?search=${encodeURIComponent(search)}` : ''}`);
+  }
+
+  static async issueGiftCard(amount: number, expiresAt?: string | null, notes?: string): Promise<ServerResult<GiftCard>> {
+    return serverRequest<GiftCard>('/gift-cards', { method: 'POST', body: { amount, expires_at: expiresAt || null, notes } });
+  }
+
+  static async setGiftCardActive(giftCardId: string, isActive: boolean): Promise<ServerResult<GiftCard>> {
+    return serverRequest<GiftCard>(`/gift-cards/${giftCardId}/status`, { method: 'POST', body: { is_active: isActive } });
+  }
+}
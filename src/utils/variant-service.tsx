@@ -0,0 +1,184 @@
+import { supabase } from '../lib/supabase';
+import { InventoryService, StockChangeReason } from './inventory-service';
+
+/**
+ * Variant Service
+ *
+ * Reads and maintains the variants (size, colour, scent...) a product is sold
+ * in. Each variant carries its own SKU, barcode, price and stock; the parent
+ * product's stock is kept at their total by the database.
+ */
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  name: string;
+  options: Record<string, string>;
+  sku: string;
+  barcode: string | null;
+  price: number | null; // Falls back to the product price when empty
+  compare_at_price: number | null;
+  stock_quantity: number;
+  image_url: string | null;
+  is_active: boolean;
+  sort_order: number;
+}
+
+/** A variant being edited; new variants have no id yet */
+export type VariantDraft = Omit<ProductVariant, 'id' | 'product_id'> & { id?: string };
+
+export class VariantService {
+  /**
+   * Variants of one product in display order
+   */
+  static async getVariants(productId: string, includeInactive = false): Promise<ProductVariant[]> {
+    let query = supabase
+      .from('product_variants')
+      .select('*')
+      .eq('product_id', productId)
+      .order('sort_order', { ascending: true });
+
+    if (!includeInactive) {
+      query = query.eq('is_active', true);
+    }
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('❌ Error fetching product variants:', error);
+      return [];
+    }
+
+    return (data || []).map(VariantService.normalize);
+  }
+
+  /**
+   * Active variants of many products, keyed by product id
+   */
+  static async getVariantsForProducts(productIds: string[]): Promise<Record<string, ProductVariant[]>> {
+    const byProduct: Record<string, ProductVariant[]> = {};
+    if (productIds.length === 0) return byProduct;
+
+    const { data, error } = await supabase
+      .from('product_variants')
+      .select('*')
+      .in('product_id', productIds)
+      .eq('is_active', true)
+      .order('sort_order', { ascending: true });
+
+    if (error) {
+      console.error('❌ Error fetching product variants:', error);
+      return byProduct;
+    }
+
+    for (const row of data || []) {
+      const variant = VariantService.normalize(row);
+      (byProduct[variant.product_id] ||= []).push(variant);
+    }
+    return byProduct;
+  }
+
+  /**
+   * Replace a product's variants with the edited list. Variants that have
+   * been sold cannot be deleted, so removed ones are switched off instead.
+   * New variants open with their stock; stock changes on existing ones go
+   * through the stock ledger and need a reason.
+   */
+  static async saveVariants(productId: string, drafts: VariantDraft[], stockChange?: StockChangeReason): Promise<ProductVariant[]> {
+    const existing = await VariantService.getVariants(productId, true);
+    const stockById = new Map(existing.map(variant => [variant.id, variant.stock_quantity]));
+    const keptIds = new Set(drafts.map(draft => draft.id).filter(Boolean));
+
+    for (const variant of existing.filter(v => !keptIds.has(v.id))) {
+      const { error } = await supabase.from('product_variants').delete().eq('id', variant.id);
+      if (error) {
+        await supabase
+          .from('product_variants')
+          .update({ is_active: false, updated_at: new Date().toISOString() })
+          .eq('id', variant.id);
+      }
+    }
+
+    for (const [index, draft] of drafts.entries()) {
+      const stock = Math.max(0, Math.floor(Number(draft.stock_quantity) || 0));
+      const row = {
+        product_id: productId,
+        name: draft.name.trim() || VariantService.describe(draft.options),
+        options: draft.options,
+        sku: draft.sku.trim(),
+        barcode: draft.barcode?.trim() || null,
+        price: draft.price != null && !Number.isNaN(Number(draft.price)) ? Number(draft.price) : null,
+        compare_at_price: draft.compare_at_price != null ? Number(draft.compare_at_price) : null,
+        image_url: draft.image_url || null,
+        is_active: draft.is_active,
+        sort_order: index,
+        updated_at: new Date().toISOString(),
+      };
+
+      const { error } = draft.id
+        ? await supabase.from('product_variants').update(row).eq('id', draft.id)
+        : await supabase.from('product_variants').insert({ ...row, stock_quantity: stock });
+
+      if (error) {
+        throw new Error(`Failed to save variant ${row.name}: ${error.message}`);
+      }
+
+      if (draft.id && stockById.has(draft.id) && stockById.get(draft.id) !== stock) {
+        if (!stockChange?.reason.trim()) {
+          throw new Error(`Give a reason for changing the stock of ${row.name}`);
+        }
+        const result = await InventoryService.adjustStock({
+          product_id: productId,
+          variant_id: draft.id,
+          new_quantity: stock,
+          movement_type: stockChange.movement_type,
+          reason: stockChange.reason.trim(),
+        });
+        if (!result.success) {
+          throw new Error(`Failed to update stock of ${row.name}: ${result.error}`);
+        }
+      }
+    }
+
+    return VariantService.getVariants(productId, true);
+  }
+
+  /**
+   * Option names used across variants, in first-seen order (e.g. Size, Scent)
+   */
+  static getOptionNames(variants: Pick<ProductVariant, 'options'>[]): string[] {
+    const names: string[] = [];
+    for (const variant of variants) {
+      for (const name of Object.keys(variant.options || {})) {
+        if (!names.includes(name)) names.push(name);
+      }
+    }
+    return names;
+  }
+
+  /**
+   * The variant matching every chosen option, if there is one
+   */
+  static findVariant<T extends Pick<ProductVariant, 'options'>>(variants: T[], chosen: Record<string, string>): T | undefined {
+    return variants.find(variant =>
+      Object.entries(chosen).every(([name, value]) => variant.options?.[name] === value)
+    );
+  }
+
+  static describe(options: Record<string, string>): string {
+    return Object.values(options || {}).filter(Boolean).join(' / ');
+  }
+
+  static priceOf(variant: Pick<ProductVariant, 'price'> | null | undefined, productPrice: number): number {
+    return variant?.price != null ? Number(variant.price) : Number(productPrice || 0);
+  }
+
+  private static normalize(row: any): ProductVariant {
+    return {
+      ...row,
+      options: row.options || {},
+      price: row.price != null ? Number(row.price) : null,
+      compare_at_price: row.compare_at_price != null ? Number(row.compare_at_price) : null,
+      stock_quantity: Number(row.stock_quantity || 0),
+    };
+  }
+}